@@ -0,0 +1,39 @@
+/**
+ * API Route: Run Ingestion
+ *
+ * GET /api/ingestion/run
+ *
+ * Polls all enabled import sources (watched folders and mailboxes) and
+ * imports waiting files. Meant to be called by a scheduler, authenticated
+ * with "Authorization: Bearer <CRON_SECRET>".
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin'
+import { runIngestion } from '@/lib/import-pipeline/ingestion'
+import { getUploadStorage } from '@/lib/import-pipeline/storage'
+import { NextResponse } from 'next/server'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300
+
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const results = await runIngestion(supabase, getUploadStorage(supabase))
+    return NextResponse.json({ results })
+  } catch (error) {
+    console.error('Error running ingestion:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Ingestion fehlgeschlagen' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * API Route: Poll Import Source
+ *
+ * POST /api/ingestion/sources/[id]
+ *
+ * Polls one import source right away instead of waiting for the next
+ * scheduled run
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { checkImportPermission } from '@/lib/import-pipeline/run-import'
+import { ingestImportSource } from '@/lib/import-pipeline/ingestion'
+import { getUploadStorage } from '@/lib/import-pipeline/storage'
+import { NextResponse } from 'next/server'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: 'Nicht angemeldet' },
+      { status: 401 }
+    )
+  }
+
+  const { data: source, error: sourceError } = await supabase
+    .from('import_sources')
+    .select('*')
+    .eq('id', id)
+    .single()
+
+  if (sourceError || !source) {
+    return NextResponse.json(
+      { error: 'Importquelle nicht gefunden' },
+      { status: 404 }
+    )
+  }
+
+  const permissionError = await checkImportPermission(supabase, source.farm_id, user.id)
+  if (permissionError) {
+    return NextResponse.json(
+      { error: permissionError },
+      { status: 403 }
+    )
+  }
+
+  const result = await ingestImportSource(supabase, getUploadStorage(supabase), source)
+  return NextResponse.json(result, { status: result.error ? 500 : 200 })
+}
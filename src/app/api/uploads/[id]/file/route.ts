@@ -0,0 +1,64 @@
+/**
+ * API Route: Download Upload File
+ *
+ * GET /api/uploads/[id]/file
+ *
+ * Returns the stored source file of an upload
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { getUploadStorage } from '@/lib/import-pipeline/storage'
+import { NextResponse } from 'next/server'
+
+export const runtime = 'nodejs'
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: 'Nicht angemeldet' },
+      { status: 401 }
+    )
+  }
+
+  // Row level security limits uploads to the user's farms
+  const { data: upload, error } = await supabase
+    .from('uploads')
+    .select('filename, file_url')
+    .eq('id', id)
+    .single()
+
+  if (error || !upload?.file_url) {
+    return NextResponse.json(
+      { error: 'Datei nicht gefunden' },
+      { status: 404 }
+    )
+  }
+
+  try {
+    const data = await getUploadStorage(supabase).load(upload.file_url)
+
+    return new Response(data as BodyInit, {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(upload.filename)}`,
+      },
+    })
+  } catch (error) {
+    console.error('Error loading upload file:', error)
+    return NextResponse.json(
+      { error: 'Datei konnte nicht geladen werden' },
+      { status: 500 }
+    )
+  }
+}
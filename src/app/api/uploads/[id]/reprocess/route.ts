@@ -0,0 +1,117 @@
+/**
+ * API Route: Re-process Upload
+ *
+ * POST /api/uploads/[id]/reprocess
+ *
+ * Rolls back an upload (if not already) and imports its stored file again
+ * as a new upload. Rows skipped in the original import stay skipped.
+ * Progress is streamed like for POST /api/uploads.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { checkImportPermission, createUploadRecord, runImportJob } from '@/lib/import-pipeline/run-import'
+import { getUploadStorage } from '@/lib/import-pipeline/storage'
+import { streamImportJob } from '@/lib/import-pipeline/stream'
+import { isUploadProcessing, undoUploadWrites } from '@/lib/upload-processor'
+import { NextResponse } from 'next/server'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: 'Nicht angemeldet' },
+      { status: 401 }
+    )
+  }
+
+  const { data: upload, error: uploadError } = await supabase
+    .from('uploads')
+    .select('*')
+    .eq('id', id)
+    .single()
+
+  if (uploadError || !upload) {
+    return NextResponse.json(
+      { error: 'Upload nicht gefunden' },
+      { status: 404 }
+    )
+  }
+
+  const permissionError = await checkImportPermission(supabase, upload.farm_id, user.id)
+  if (permissionError) {
+    return NextResponse.json(
+      { error: permissionError },
+      { status: 403 }
+    )
+  }
+
+  if (!upload.file_url) {
+    return NextResponse.json(
+      { error: 'Für diesen Upload wurde keine Datei gespeichert' },
+      { status: 400 }
+    )
+  }
+  if (isUploadProcessing(upload)) {
+    return NextResponse.json(
+      { error: 'Dieser Upload wird gerade verarbeitet' },
+      { status: 409 }
+    )
+  }
+
+  let uploadId: string
+
+  try {
+    if (upload.status !== 'rolled_back') {
+      await undoUploadWrites(supabase, upload.id)
+      await supabase
+        .from('uploads')
+        .update({ status: 'rolled_back', rolled_back_at: new Date().toISOString() })
+        .eq('id', upload.id)
+    }
+
+    uploadId = await createUploadRecord(supabase, {
+      farmId: upload.farm_id,
+      userId: user.id,
+      fileName: upload.filename,
+      sheetName: upload.source_sheet,
+      filePath: upload.file_url,
+      skipSourceRows: upload.skipped_source_rows,
+      validationIssues: upload.validation_issues,
+      explodeRations: upload.explode_rations,
+      source: upload.source,
+      importSourceId: upload.import_source_id
+    })
+  } catch (error) {
+    console.error('Error preparing reprocessing:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Erneuter Import fehlgeschlagen' },
+      { status: 500 }
+    )
+  }
+
+  return streamImportJob(onEvent => runImportJob({
+    supabase,
+    storage: getUploadStorage(supabase),
+    farmId: upload.farm_id,
+    uploadId,
+    fileName: upload.filename,
+    filePath: upload.file_url,
+    sheetName: upload.source_sheet,
+    skipSourceRows: upload.skipped_source_rows || [],
+    explodeRations: upload.explode_rations,
+    onEvent
+  }))
+}
@@ -0,0 +1,160 @@
+/**
+ * API Route: Import Upload
+ *
+ * POST /api/uploads
+ *
+ * Stores the uploaded file, then imports it on the server. Progress is
+ * streamed as NDJSON (see lib/import-pipeline/progress.ts); the import
+ * continues if the browser disconnects.
+ *
+ * Form fields: file, farmId, sheetName (optional), feedTypeMapping (optional JSON),
+ * skipSourceRows (optional JSON), validationIssues (optional JSON),
+ * explodeRations (optional, "false" to keep ration quantities as they are)
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { checkImportPermission, createUploadRecord, runImportJob } from '@/lib/import-pipeline/run-import'
+import { getUploadFilePath, getUploadStorage } from '@/lib/import-pipeline/storage'
+import { streamImportJob } from '@/lib/import-pipeline/stream'
+import type { ImportIssue } from '@/lib/utils/import-validation'
+import { NextResponse } from 'next/server'
+
+// The local storage adapter and spreadsheet parsing need Node.js
+export const runtime = 'nodejs'
+// Large imports may take a while
+export const maxDuration = 300
+
+export async function POST(request: Request) {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: 'Nicht angemeldet' },
+      { status: 401 }
+    )
+  }
+
+  const formData = await request.formData()
+  const file = formData.get('file')
+  const farmId = formData.get('farmId')
+  const sheetName = formData.get('sheetName')
+  const feedTypeMappingJson = formData.get('feedTypeMapping')
+  const skipSourceRowsJson = formData.get('skipSourceRows')
+  const validationIssuesJson = formData.get('validationIssues')
+  const explodeRations = formData.get('explodeRations') !== 'false'
+
+  if (!(file instanceof File) || typeof farmId !== 'string' || !farmId) {
+    return NextResponse.json(
+      { error: 'Datei und Stall sind erforderlich' },
+      { status: 400 }
+    )
+  }
+
+  let feedTypeMapping: Record<string, string> = {}
+  try {
+    feedTypeMapping = typeof feedTypeMappingJson === 'string' ? JSON.parse(feedTypeMappingJson) : {}
+  } catch {
+    return NextResponse.json(
+      { error: 'Ungültige Futtermittel-Zuordnung' },
+      { status: 400 }
+    )
+  }
+
+  if (
+    typeof feedTypeMapping !== 'object' || feedTypeMapping === null || Array.isArray(feedTypeMapping) ||
+    !Object.values(feedTypeMapping).every(id => typeof id === 'string' && id)
+  ) {
+    return NextResponse.json(
+      { error: 'Ungültige Futtermittel-Zuordnung' },
+      { status: 400 }
+    )
+  }
+
+  let skipSourceRows: number[] = []
+  let validationIssues: ImportIssue[] = []
+  try {
+    skipSourceRows = typeof skipSourceRowsJson === 'string' ? JSON.parse(skipSourceRowsJson) : []
+    validationIssues = typeof validationIssuesJson === 'string' ? JSON.parse(validationIssuesJson) : []
+  } catch {
+    return NextResponse.json(
+      { error: 'Ungültiger Prüfbericht' },
+      { status: 400 }
+    )
+  }
+  if (!Array.isArray(skipSourceRows) || !skipSourceRows.every(Number.isInteger)) {
+    return NextResponse.json(
+      { error: 'Ungültige Zeilenauswahl' },
+      { status: 400 }
+    )
+  }
+
+  const permissionError = await checkImportPermission(supabase, farmId, user.id)
+  if (permissionError) {
+    return NextResponse.json(
+      { error: permissionError },
+      { status: 403 }
+    )
+  }
+
+  const storage = getUploadStorage(supabase)
+  let uploadId: string | null = null
+  let filePath: string
+
+  try {
+    uploadId = await createUploadRecord(supabase, {
+      farmId,
+      userId: user.id,
+      fileName: file.name,
+      sheetName: typeof sheetName === 'string' ? sheetName : null,
+      skipSourceRows,
+      validationIssues: Array.isArray(validationIssues) ? validationIssues : null,
+      explodeRations
+    })
+
+    filePath = await storage.save(
+      getUploadFilePath(farmId, uploadId, file.name),
+      new Uint8Array(await file.arrayBuffer()),
+      file.type || undefined
+    )
+
+    await supabase
+      .from('uploads')
+      .update({ file_url: filePath })
+      .eq('id', uploadId)
+  } catch (error) {
+    console.error('Error storing upload:', error)
+    const message = error instanceof Error ? error.message : 'Upload konnte nicht gespeichert werden'
+
+    if (uploadId) {
+      await supabase
+        .from('uploads')
+        .update({ status: 'failed', error_message: message })
+        .eq('id', uploadId)
+    }
+
+    return NextResponse.json(
+      { error: message },
+      { status: 500 }
+    )
+  }
+
+  const createdUploadId = uploadId
+  return streamImportJob(onEvent => runImportJob({
+    supabase,
+    storage,
+    farmId,
+    uploadId: createdUploadId,
+    fileName: file.name,
+    filePath,
+    sheetName: typeof sheetName === 'string' ? sheetName : null,
+    feedTypeMapping,
+    skipSourceRows,
+    explodeRations,
+    onEvent
+  }))
+}
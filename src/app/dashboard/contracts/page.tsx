@@ -0,0 +1,449 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { useFarmStore } from '@/lib/stores/farm-store'
+import { Plus, Edit, Trash2, FileSignature } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  getContractData,
+  createContract,
+  updateContract,
+  deleteContract,
+  type ContractData,
+  type SupplierContractRecord
+} from '@/lib/services/contract-service'
+import {
+  calculateContractProgress,
+  CONTRACT_CALL_OFF_BASIS_LABELS,
+  CONTRACT_STATUS_LABELS,
+  type ContractCallOffBasis,
+  type ContractStatus
+} from '@/lib/utils/contracts'
+import { FEED_UNIT_LABELS, formatUnit, type FeedUnit } from '@/lib/utils/units'
+import { Tables } from '@/lib/database.types'
+
+type FeedType = Tables<'feed_types'>
+type Supplier = Tables<'suppliers'>
+
+const STATUS_VARIANTS: Record<ContractStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  upcoming: 'outline',
+  active: 'default',
+  exhausted: 'secondary',
+  expired: 'destructive',
+}
+
+export default function ContractsPage() {
+  const [contractData, setContractData] = useState<ContractData | null>(null)
+  const [feedTypes, setFeedTypes] = useState<FeedType[]>([])
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [showDialog, setShowDialog] = useState(false)
+  const [editingContract, setEditingContract] = useState<SupplierContractRecord | null>(null)
+  const [loading, setLoading] = useState(false)
+  const { currentFarmId } = useFarmStore()
+  const supabase = createClient()
+
+  // Form state
+  const [supplierId, setSupplierId] = useState('')
+  const [feedTypeId, setFeedTypeId] = useState('')
+  const [contractNumber, setContractNumber] = useState('')
+  const [quantity, setQuantity] = useState('')
+  const [unit, setUnit] = useState('')
+  const [pricePerUnit, setPricePerUnit] = useState('')
+  const [validFrom, setValidFrom] = useState('')
+  const [validTo, setValidTo] = useState('')
+  const [callOffBasis, setCallOffBasis] = useState<ContractCallOffBasis>('deliveries')
+  const [notes, setNotes] = useState('')
+
+  useEffect(() => {
+    if (currentFarmId) {
+      loadContracts()
+      loadMasterData()
+    }
+  }, [currentFarmId])
+
+  const loadContracts = async () => {
+    try {
+      setContractData(await getContractData(currentFarmId!))
+    } catch (error) {
+      console.error('Error loading contracts:', error)
+    }
+  }
+
+  const loadMasterData = async () => {
+    const [feedTypesResult, suppliersResult] = await Promise.all([
+      supabase.from('feed_types').select('*').eq('farm_id', currentFarmId!).order('name'),
+      supabase.from('suppliers').select('*').eq('farm_id', currentFarmId!).order('name')
+    ])
+    if (!feedTypesResult.error) setFeedTypes(feedTypesResult.data || [])
+    if (!suppliersResult.error) setSuppliers(suppliersResult.data || [])
+  }
+
+  const today = new Date().toISOString().split('T')[0]
+
+  const contractsWithProgress = useMemo(() => {
+    if (!contractData) return []
+    return contractData.contracts.map(contract => {
+      const callOffs = contract.call_off_basis === 'consumption' ? contractData.consumption : contractData.deliveries
+      return {
+        contract,
+        progress: calculateContractProgress(
+          contract,
+          callOffs,
+          contract.feed_types?.unit,
+          contract.feed_types || {},
+          today
+        )
+      }
+    })
+  }, [contractData, today])
+
+  const resetForm = () => {
+    setSupplierId('')
+    setFeedTypeId('')
+    setContractNumber('')
+    setQuantity('')
+    setUnit('')
+    setPricePerUnit('')
+    setValidFrom('')
+    setValidTo('')
+    setCallOffBasis('deliveries')
+    setNotes('')
+  }
+
+  const handleEdit = (contract: SupplierContractRecord) => {
+    setEditingContract(contract)
+    setSupplierId(contract.supplier_id)
+    setFeedTypeId(contract.feed_type_id)
+    setContractNumber(contract.contract_number || '')
+    setQuantity(String(contract.contracted_quantity))
+    setUnit(contract.unit || '')
+    setPricePerUnit(String(contract.price_per_unit))
+    setValidFrom(contract.valid_from)
+    setValidTo(contract.valid_to)
+    setCallOffBasis(contract.call_off_basis as ContractCallOffBasis)
+    setNotes(contract.notes || '')
+    setShowDialog(true)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const contractedQuantity = parseFloat(quantity.replace(',', '.'))
+    const price = parseFloat(pricePerUnit.replace(',', '.'))
+    if (isNaN(contractedQuantity) || contractedQuantity <= 0 || isNaN(price) || price < 0) {
+      toast.error('Bitte Menge und Preis angeben')
+      return
+    }
+    if (validTo < validFrom) {
+      toast.error('Das Ende muss nach dem Beginn liegen')
+      return
+    }
+
+    const contract = {
+      supplier_id: supplierId,
+      feed_type_id: feedTypeId,
+      contract_number: contractNumber.trim() || null,
+      contracted_quantity: contractedQuantity,
+      price_per_unit: price,
+      unit: unit || null,
+      valid_from: validFrom,
+      valid_to: validTo,
+      call_off_basis: callOffBasis,
+      notes: notes.trim() || null
+    }
+
+    setLoading(true)
+    try {
+      if (editingContract) {
+        await updateContract(currentFarmId!, editingContract.id, editingContract.price_tier_id, contract)
+        toast.success('Kontrakt aktualisiert')
+      } else {
+        await createContract(currentFarmId!, contract)
+        toast.success('Kontrakt angelegt, Preisstaffel erstellt')
+      }
+      setShowDialog(false)
+      setEditingContract(null)
+      resetForm()
+      loadContracts()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Kontrakt konnte nicht gespeichert werden')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDelete = async (contract: SupplierContractRecord) => {
+    if (!confirm('Kontrakt und die zugehörige Preisstaffel löschen?')) return
+
+    try {
+      await deleteContract(contract.id, contract.price_tier_id)
+      loadContracts()
+    } catch (error) {
+      console.error('Error deleting contract:', error)
+      toast.error('Kontrakt konnte nicht gelöscht werden')
+    }
+  }
+
+  const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('de-DE')
+  const formatQuantity = (value: number) => value.toLocaleString('de-DE', { maximumFractionDigits: 1 })
+  const selectedFeedType = feedTypes.find(ft => ft.id === feedTypeId)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Kontrakte</h2>
+          <p className="text-muted-foreground">
+            Vereinbarte Mengen und Festpreise je Lieferant und Futtermittel mit Abruf und Restmenge
+          </p>
+        </div>
+        <Button
+          onClick={() => {
+            resetForm()
+            setEditingContract(null)
+            setShowDialog(true)
+          }}
+          className="flex items-center gap-2"
+          disabled={feedTypes.length === 0 || suppliers.length === 0}
+        >
+          <Plus className="h-4 w-4" />
+          Neuer Kontrakt
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileSignature className="h-5 w-5" />
+            Kontrakte ({contractsWithProgress.length})
+          </CardTitle>
+          <CardDescription>
+            Der Kontraktpreis wird als Preisstaffel des Lieferanten für den Kontraktzeitraum hinterlegt.
+            Die Reichweite ergibt sich aus dem bisherigen Abruf pro Tag.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Lieferant / Futtermittel</TableHead>
+                <TableHead>Zeitraum</TableHead>
+                <TableHead className="text-right">Preis</TableHead>
+                <TableHead className="w-48">Abgerufen</TableHead>
+                <TableHead className="text-right">Restmenge</TableHead>
+                <TableHead>Reicht bis</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Aktionen</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {contractsWithProgress.map(({ contract, progress }) => {
+                const contractUnit = formatUnit(contract.unit || contract.feed_types?.unit)
+                return (
+                  <TableRow key={contract.id}>
+                    <TableCell>
+                      <div className="font-medium">{contract.suppliers?.name || 'Unbekannt'}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {contract.feed_types?.name}
+                        {contract.contract_number && ` · Nr. ${contract.contract_number}`}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {formatDate(contract.valid_from)} – {formatDate(contract.valid_to)}
+                      <div className="text-xs text-muted-foreground">
+                        Abruf über {CONTRACT_CALL_OFF_BASIS_LABELS[contract.call_off_basis as ContractCallOffBasis]}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {Number(contract.price_per_unit).toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 3 })} €/{contractUnit}
+                    </TableCell>
+                    <TableCell>
+                      <Progress value={Math.min(100, progress.percentCalledOff)} />
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {formatQuantity(progress.calledOff)} von {formatQuantity(Number(contract.contracted_quantity))} {contractUnit}
+                      </div>
+                      {progress.unconvertibleCallOffs > 0 && (
+                        <div className="text-xs text-amber-600">
+                          {progress.unconvertibleCallOffs} Abrufe ohne Umrechnungsfaktor in {contractUnit} nicht gezählt
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatQuantity(progress.remaining)} {contractUnit}
+                    </TableCell>
+                    <TableCell>
+                      {progress.projectedRunOut ? (
+                        <span className={progress.projectedRunOut < contract.valid_to ? 'text-amber-600' : ''}>
+                          {formatDate(progress.projectedRunOut)}
+                        </span>
+                      ) : '-'}
+                      {progress.status === 'active' && progress.projectedRemainingAtEnd > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          Voraussichtlich {formatQuantity(progress.projectedRemainingAtEnd)} {contractUnit} offen zum Ende
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[progress.status]}>
+                        {CONTRACT_STATUS_LABELS[progress.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Button variant="outline" size="sm" onClick={() => handleEdit(contract)}>
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDelete(contract)}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+              {contractsWithProgress.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                    Noch keine Kontrakte angelegt.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="max-w-lg">
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>{editingContract ? 'Kontrakt bearbeiten' : 'Neuer Kontrakt'}</DialogTitle>
+              <DialogDescription>
+                Menge und Preis beziehen sich auf die gewählte Einheit.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-2 gap-4 py-4">
+              <div className="space-y-2">
+                <Label>Lieferant *</Label>
+                <Select value={supplierId} onValueChange={setSupplierId} required>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Lieferant wählen" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers.map(supplier => (
+                      <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Futtermittel *</Label>
+                <Select value={feedTypeId} onValueChange={setFeedTypeId} required>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Futtermittel wählen" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {feedTypes.map(feedType => (
+                      <SelectItem key={feedType.id} value={feedType.id}>{feedType.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contractQuantity">Menge *</Label>
+                <Input
+                  id="contractQuantity"
+                  inputMode="decimal"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Einheit</Label>
+                <Select value={unit || 'feed'} onValueChange={(value) => setUnit(value === 'feed' ? '' : value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="feed">
+                      Futtermittel-Einheit{selectedFeedType ? ` (${formatUnit(selectedFeedType.unit)})` : ''}
+                    </SelectItem>
+                    {(Object.keys(FEED_UNIT_LABELS) as FeedUnit[]).map(feedUnit => (
+                      <SelectItem key={feedUnit} value={feedUnit}>{FEED_UNIT_LABELS[feedUnit]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contractPrice">Festpreis je Einheit (€) *</Label>
+                <Input
+                  id="contractPrice"
+                  inputMode="decimal"
+                  value={pricePerUnit}
+                  onChange={(e) => setPricePerUnit(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contractNumber">Kontraktnummer</Label>
+                <Input id="contractNumber" value={contractNumber} onChange={(e) => setContractNumber(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contractFrom">Gültig ab *</Label>
+                <Input id="contractFrom" type="date" value={validFrom} onChange={(e) => setValidFrom(e.target.value)} required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contractTo">Gültig bis *</Label>
+                <Input id="contractTo" type="date" value={validTo} onChange={(e) => setValidTo(e.target.value)} required />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label>Abruf zählen über</Label>
+                <Select value={callOffBasis} onValueChange={(value) => setCallOffBasis(value as ContractCallOffBasis)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CONTRACT_CALL_OFF_BASIS_LABELS) as ContractCallOffBasis[]).map(basis => (
+                      <SelectItem key={basis} value={basis}>{CONTRACT_CALL_OFF_BASIS_LABELS[basis]} des Lieferanten</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="contractNotes">Notizen</Label>
+                <Textarea id="contractNotes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowDialog(false)} disabled={loading}>
+                Abbrechen
+              </Button>
+              <Button type="submit" disabled={loading || !supplierId || !feedTypeId}>
+                {loading ? 'Wird gespeichert...' : editingContract ? 'Aktualisieren' : 'Erstellen'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
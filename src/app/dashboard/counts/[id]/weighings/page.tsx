@@ -0,0 +1,515 @@
+'use client'
+
+export const runtime = 'edge'
+
+import { useState, useEffect, useMemo } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/client'
+import { useFarmStore } from '@/lib/stores/farm-store'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ArrowLeft, Scale, Trash2, TrendingUp } from 'lucide-react'
+import { toast } from 'sonner'
+import type { Tables } from '@/lib/database.types'
+import { GrowthCurveChart } from '@/components/livestock/growth-curve-chart'
+import {
+  getWeighings,
+  createWeighing,
+  deleteWeighing,
+  setGrowthTargetCurve,
+  type WeighingRecord
+} from '@/lib/services/weighing-service'
+import {
+  GROWTH_TARGET_CURVES,
+  buildGrowthCurve,
+  calculateGrowthPeriods,
+  calculateSampleStatistics,
+  getTargetWeight,
+  parseIndividualWeights,
+  type GrowthTargetCurve
+} from '@/lib/utils/growth'
+import { calculateAnimalDaysFromDetails, calculateCycleDuration } from '@/lib/utils/livestock-calculations'
+import { loadConsumptionWithCosts } from '@/lib/utils/feed-calculations'
+import { filterConsumptionByTimeframe, getEffectiveStartWeight, type ConsumptionItem, type LivestockCount } from '@/lib/utils/kpi-calculations'
+
+type CycleDetail = Tables<'livestock_count_details'> & {
+  areas: { id: string; name: string } | null
+  area_groups: { id: string; name: string } | null
+}
+
+type Cycle = Tables<'livestock_counts'> & {
+  livestock_count_details: CycleDetail[]
+}
+
+const ALL_LOCATIONS = 'all'
+
+export default function CycleWeighingsPage() {
+  const params = useParams()
+  const cycleId = params.id as string
+  const supabase = createClient()
+  const { currentFarmId } = useFarmStore()
+
+  const [cycle, setCycle] = useState<Cycle | null>(null)
+  const [weighings, setWeighings] = useState<WeighingRecord[]>([])
+  const [consumption, setConsumption] = useState<ConsumptionItem[]>([])
+  const [locationFilter, setLocationFilter] = useState(ALL_LOCATIONS)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  // Form state
+  const [weighingDate, setWeighingDate] = useState('')
+  const [locationId, setLocationId] = useState('none')
+  const [sampleSize, setSampleSize] = useState('')
+  const [averageWeight, setAverageWeight] = useState('')
+  const [individualWeights, setIndividualWeights] = useState('')
+
+  useEffect(() => {
+    if (!currentFarmId || !cycleId) return
+    loadData()
+  }, [currentFarmId, cycleId])
+
+  const loadData = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('livestock_counts')
+        .select('*, livestock_count_details(*, areas(id, name), area_groups(id, name))')
+        .eq('id', cycleId)
+        .eq('farm_id', currentFarmId!)
+        .single()
+
+      if (error) throw error
+
+      const [weighingData, { consumption: consumptionData }] = await Promise.all([
+        getWeighings(cycleId),
+        loadConsumptionWithCosts(supabase, currentFarmId!, data.start_date, data.end_date)
+      ])
+
+      setCycle(data as Cycle)
+      setWeighings(weighingData)
+      setConsumption(consumptionData as ConsumptionItem[])
+    } catch (error) {
+      console.error('Error loading weighings:', error)
+      toast.error('Wiegungen konnten nicht geladen werden')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Areas and groups the cycle was stocked in
+  const locations = useMemo(() => {
+    const result = new Map<string, { id: string; name: string; type: 'area' | 'group' }>()
+    cycle?.livestock_count_details.forEach(detail => {
+      if (detail.area_groups) {
+        result.set(detail.area_groups.id, { id: detail.area_groups.id, name: detail.area_groups.name, type: 'group' })
+      } else if (detail.areas) {
+        result.set(detail.areas.id, { id: detail.areas.id, name: detail.areas.name, type: 'area' })
+      }
+    })
+    return Array.from(result.values())
+  }, [cycle])
+
+  const growth = useMemo(() => {
+    if (!cycle) return null
+
+    const matchesLocation = (item: { area_id: string | null; area_group_id: string | null }) =>
+      locationFilter === ALL_LOCATIONS || item.area_id === locationFilter || item.area_group_id === locationFilter
+
+    const details = cycle.livestock_count_details.filter(matchesLocation)
+    const kpiCycle = { ...cycle, livestock_count_details: details } as unknown as LivestockCount
+
+    // Stocking weight of the start groups, weighted by head count
+    const startDetails = kpiCycle.livestock_count_details.filter(detail => detail.is_start_group)
+    const weighedDetails = startDetails.length > 0 ? startDetails : kpiCycle.livestock_count_details
+    let weightedStartWeight = 0
+    let animalsWithStartWeight = 0
+    weighedDetails.forEach(detail => {
+      const weight = getEffectiveStartWeight(detail, kpiCycle.livestock_count_details, kpiCycle)
+      if (weight !== null) {
+        weightedStartWeight += weight * detail.count
+        animalsWithStartWeight += detail.count
+      }
+    })
+    const startWeight = animalsWithStartWeight > 0
+      ? weightedStartWeight / animalsWithStartWeight
+      : cycle.expected_weight_per_animal
+
+    const points = buildGrowthCurve(weighings.filter(matchesLocation), cycle.start_date, startWeight)
+    const periods = calculateGrowthPeriods(
+      points,
+      filterConsumptionByTimeframe(consumption, kpiCycle.livestock_count_details, cycle.end_date),
+      (fromDate, toDate) =>
+        calculateAnimalDaysFromDetails(details, fromDate, toDate) / calculateCycleDuration(fromDate, toDate)
+    )
+
+    return { startWeight, points, periods }
+  }, [cycle, weighings, consumption, locationFilter])
+
+  const targetCurve = (cycle?.growth_target_curve || null) as GrowthTargetCurve | null
+
+  const handleTargetCurveChange = async (value: string) => {
+    if (!cycle) return
+    try {
+      await setGrowthTargetCurve(cycle.id, value as GrowthTargetCurve)
+      setCycle({ ...cycle, growth_target_curve: value })
+    } catch {
+      toast.error('Zielkurve konnte nicht gespeichert werden')
+    }
+  }
+
+  const parsedWeights = parseIndividualWeights(individualWeights)
+  const sampleStatistics = calculateSampleStatistics(parsedWeights)
+
+  const resetForm = () => {
+    setWeighingDate('')
+    setSampleSize('')
+    setAverageWeight('')
+    setIndividualWeights('')
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!cycle || !currentFarmId) return
+
+    const useIndividualWeights = parsedWeights.length > 0
+    const size = useIndividualWeights ? sampleStatistics.sampleSize : parseInt(sampleSize, 10)
+    const average = useIndividualWeights
+      ? sampleStatistics.averageWeight
+      : parseFloat(averageWeight.replace(',', '.'))
+
+    if (isNaN(size) || size <= 0 || isNaN(average) || average <= 0) {
+      toast.error('Bitte Stichprobengröße und Durchschnittsgewicht oder Einzelgewichte angeben')
+      return
+    }
+
+    const location = locations.find(l => l.id === locationId)
+
+    setSaving(true)
+    try {
+      await createWeighing(currentFarmId, cycle.id, {
+        weighing_date: weighingDate,
+        area_id: location?.type === 'area' ? location.id : null,
+        area_group_id: location?.type === 'group' ? location.id : null,
+        sample_size: size,
+        average_weight_kg: Math.round(average * 100) / 100,
+        individual_weights: useIndividualWeights ? parsedWeights : null,
+        notes: null
+      })
+      setWeighings(await getWeighings(cycle.id))
+      resetForm()
+      toast.success('Wiegung gespeichert')
+    } catch {
+      toast.error('Fehler beim Speichern der Wiegung')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (weighing: WeighingRecord) => {
+    try {
+      await deleteWeighing(weighing.id)
+      setWeighings(prev => prev.filter(w => w.id !== weighing.id))
+    } catch {
+      toast.error('Fehler beim Löschen der Wiegung')
+    }
+  }
+
+  const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('de-DE')
+  const formatNumber = (value: number, digits = 1) =>
+    value.toLocaleString('de-DE', { minimumFractionDigits: digits, maximumFractionDigits: digits })
+
+  if (!currentFarmId) {
+    return (
+      <div className="p-6">
+        <p>Bitte wählen Sie zuerst einen Betrieb aus.</p>
+      </div>
+    )
+  }
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <p>Laden...</p>
+      </div>
+    )
+  }
+
+  if (!cycle || !growth) {
+    return (
+      <div className="p-6">
+        <p>Durchgang nicht gefunden.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="mb-6">
+        <Link href="/dashboard/counts">
+          <Button variant="ghost" size="sm" className="mb-4">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Zurück zur Übersicht
+          </Button>
+        </Link>
+        <h1 className="text-3xl font-bold">Wiegungen: {cycle.durchgang_name || 'Durchgang'}</h1>
+        <p className="text-muted-foreground mt-2">
+          Zwischenwiegungen der Stichprobenbuchten, Wachstumskurve und Zunahmen je Wiegeperiode
+        </p>
+      </div>
+
+      <div className="grid gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <TrendingUp className="h-5 w-5" />
+                Wachstumskurve
+              </CardTitle>
+              <CardDescription>
+                Durchschnittsgewicht der Stichproben im Vergleich zur Zielkurve, ausgerichtet am Einstallgewicht
+                {growth.startWeight ? ` (${formatNumber(growth.startWeight)} kg)` : ''}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={locationFilter} onValueChange={setLocationFilter}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_LOCATIONS}>Alle Bereiche</SelectItem>
+                  {locations.map(location => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={targetCurve || ''} onValueChange={handleTargetCurveChange}>
+                <SelectTrigger className="w-64">
+                  <SelectValue placeholder="Zielkurve wählen" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(GROWTH_TARGET_CURVES) as GrowthTargetCurve[]).map(curve => (
+                    <SelectItem key={curve} value={curve}>{GROWTH_TARGET_CURVES[curve].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {growth.points.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Noch keine Wiegungen und kein Einstallgewicht erfasst.
+              </p>
+            ) : (
+              <GrowthCurveChart
+                points={growth.points}
+                targetCurve={targetCurve}
+                startWeight={growth.startWeight}
+                cycleStartDate={cycle.start_date}
+                cycleEndDate={cycle.end_date}
+              />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Wiegeperioden</CardTitle>
+            <CardDescription>
+              Tageszunahmen und Futterverwertung aus dem Verbrauch zwischen zwei Wiegungen
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Zeitraum</TableHead>
+                  <TableHead className="text-right">Tage</TableHead>
+                  <TableHead className="text-right">Gewicht (kg)</TableHead>
+                  <TableHead className="text-right">Zunahme (g/Tag)</TableHead>
+                  <TableHead className="text-right">Ø Tiere</TableHead>
+                  <TableHead className="text-right">Futter (kg)</TableHead>
+                  <TableHead className="text-right">Futterverwertung</TableHead>
+                  {targetCurve && growth.startWeight && <TableHead className="text-right">Abw. Zielkurve</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {growth.periods.map(period => {
+                  const toPoint = growth.points.find(point => point.date === period.toDate)
+                  const targetWeight = targetCurve && growth.startWeight && toPoint
+                    ? getTargetWeight(targetCurve, growth.startWeight, toPoint.day)
+                    : null
+                  return (
+                    <TableRow key={period.toDate}>
+                      <TableCell>{formatDate(period.fromDate)} – {formatDate(period.toDate)}</TableCell>
+                      <TableCell className="text-right">{period.days}</TableCell>
+                      <TableCell className="text-right">
+                        {formatNumber(period.startWeight)} → {formatNumber(period.endWeight)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatNumber(period.dailyGainGrams, 0)}</TableCell>
+                      <TableCell className="text-right">{formatNumber(period.averageAnimals, 0)}</TableCell>
+                      <TableCell className="text-right">{formatNumber(period.feedQuantity, 0)}</TableCell>
+                      <TableCell className="text-right">
+                        {period.feedConversionRatio !== null ? formatNumber(period.feedConversionRatio, 2) : '-'}
+                      </TableCell>
+                      {targetCurve && growth.startWeight && (
+                        <TableCell className={`text-right ${targetWeight !== null && period.endWeight < targetWeight ? 'text-red-600' : 'text-green-600'}`}>
+                          {targetWeight !== null
+                            ? `${period.endWeight >= targetWeight ? '+' : ''}${formatNumber(period.endWeight - targetWeight)} kg`
+                            : '-'}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  )
+                })}
+                {growth.periods.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-6 text-muted-foreground">
+                      Für Wiegeperioden werden mindestens zwei Gewichte benötigt.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="h-5 w-5" />
+              Wiegungen
+            </CardTitle>
+            <CardDescription>
+              Durchschnittsgewicht einer Stichprobe oder Einzelgewichte der gewogenen Tiere
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Datum</TableHead>
+                  <TableHead>Bereich / Gruppe</TableHead>
+                  <TableHead className="text-right">Stichprobe</TableHead>
+                  <TableHead className="text-right">Ø Gewicht (kg)</TableHead>
+                  <TableHead className="text-right">Variationskoeffizient</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {weighings.map(weighing => (
+                  <TableRow key={weighing.id}>
+                    <TableCell>{formatDate(weighing.weighing_date)}</TableCell>
+                    <TableCell>{weighing.areas?.name || weighing.area_groups?.name || '-'}</TableCell>
+                    <TableCell className="text-right">{weighing.sample_size}</TableCell>
+                    <TableCell className="text-right">{formatNumber(Number(weighing.average_weight_kg))}</TableCell>
+                    <TableCell className="text-right">
+                      {weighing.individual_weights && weighing.individual_weights.length > 1
+                        ? `${formatNumber(calculateSampleStatistics(weighing.individual_weights).coefficientOfVariation)} %`
+                        : '-'}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(weighing)}
+                        className="text-red-600 hover:text-red-700"
+                        aria-label="Wiegung löschen"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {weighings.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">
+                      Noch keine Wiegungen erfasst.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+
+            <form onSubmit={handleSubmit} className="grid grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="weighingDate">Datum *</Label>
+                <Input
+                  id="weighingDate"
+                  type="date"
+                  value={weighingDate}
+                  min={cycle.start_date}
+                  max={cycle.end_date || undefined}
+                  onChange={(e) => setWeighingDate(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="weighingLocation">Bereich / Gruppe</Label>
+                <Select value={locationId} onValueChange={setLocationId}>
+                  <SelectTrigger id="weighingLocation">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Nicht zugeordnet</SelectItem>
+                    {locations.map(location => (
+                      <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="weighingSampleSize">Stichprobe (Tiere)</Label>
+                <Input
+                  id="weighingSampleSize"
+                  type="number"
+                  min="1"
+                  value={parsedWeights.length > 0 ? sampleStatistics.sampleSize : sampleSize}
+                  onChange={(e) => setSampleSize(e.target.value)}
+                  disabled={parsedWeights.length > 0}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="weighingAverage">Ø Gewicht (kg)</Label>
+                <Input
+                  id="weighingAverage"
+                  inputMode="decimal"
+                  value={parsedWeights.length > 0 ? formatNumber(sampleStatistics.averageWeight, 2) : averageWeight}
+                  onChange={(e) => setAverageWeight(e.target.value)}
+                  disabled={parsedWeights.length > 0}
+                />
+              </div>
+              <div className="col-span-4 space-y-2">
+                <Label htmlFor="weighingIndividual">Einzelgewichte (optional)</Label>
+                <Textarea
+                  id="weighingIndividual"
+                  value={individualWeights}
+                  onChange={(e) => setIndividualWeights(e.target.value)}
+                  placeholder="z.B. 52,5; 48; 55,2"
+                  rows={2}
+                />
+                {parsedWeights.length > 1 && (
+                  <p className="text-xs text-muted-foreground">
+                    {sampleStatistics.sampleSize} Tiere · Ø {formatNumber(sampleStatistics.averageWeight, 2)} kg ·
+                    Standardabweichung {formatNumber(sampleStatistics.standardDeviation, 2)} kg ·
+                    Variationskoeffizient {formatNumber(sampleStatistics.coefficientOfVariation)} %
+                  </p>
+                )}
+              </div>
+              <div className="col-span-4 flex justify-end">
+                <Button type="submit" disabled={saving || !weighingDate}>
+                  {saving ? 'Wird gespeichert...' : 'Wiegung hinzufügen'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
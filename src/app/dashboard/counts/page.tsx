@@ -14,11 +14,15 @@ import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import Link from 'next/link'
 import { useFarmStore } from '@/lib/stores/farm-store'
-import { Plus, Edit, Calendar, Users, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react'
+import { Plus, Edit, Calendar, Users, ArrowUpDown, ArrowUp, ArrowDown, HeartCrack, Scale, Receipt, FileUp } from 'lucide-react'
 import { Tables } from '@/lib/database.types'
 import { MovementTimelineEditor, type AnimalMovement, type AreaOption } from '@/components/livestock/movement-timeline-editor'
+import { MortalityEventsDialog } from '@/components/farm/mortality-events-dialog'
+import { AnimalSalesDialog } from '@/components/farm/animal-sales-dialog'
+import { SettlementImportDialog } from '@/components/farm/settlement-import-dialog'
 import { calculateTotalAnimalsFromDetails } from '@/lib/utils/livestock-calculations'
 import { calculateEstimatedProfitLoss } from '@/lib/utils/kpi-calculations'
+import { normalizeTierUnits } from '@/lib/utils/feed-calculations'
 
 type LivestockCount = Tables<'livestock_counts'>
 type LivestockCountDetail = Tables<'livestock_count_details'>
@@ -29,6 +33,8 @@ type AreaGroup = Tables<'area_groups'>
 interface LivestockCountWithDetails extends LivestockCount {
   livestock_count_details: (LivestockCountDetail & { areas: Area | null; area_groups: AreaGroup | null })[]
   suppliers?: Supplier
+  mortality_events?: Tables<'mortality_events'>[]
+  animal_sales?: Tables<'animal_sales'>[]
 }
 
 type SortField = 'durchgang' | 'startDate' | 'status' | 'supplier' | 'totalAnimals' | 'buyPrice' | 'sellPrice' | 'profitLoss'
@@ -41,6 +47,9 @@ export default function CountsPage() {
   const [suppliers, setSuppliers] = useState<Supplier[]>([])
   const [showCreateDialog, setShowCreateDialog] = useState(false)
   const [editingDurchgang, setEditingDurchgang] = useState<LivestockCountWithDetails | null>(null)
+  const [lossesDurchgang, setLossesDurchgang] = useState<LivestockCountWithDetails | null>(null)
+  const [salesDurchgang, setSalesDurchgang] = useState<LivestockCountWithDetails | null>(null)
+  const [showSettlementImport, setShowSettlementImport] = useState(false)
   const [loading, setLoading] = useState(false)
   const [sortField, setSortField] = useState<SortField | null>(null)
   const [sortDirection, setSortDirection] = useState<SortDirection>(null)
@@ -109,17 +118,26 @@ export default function CountsPage() {
     }
   }, [totalFeedCost, weightGain, totalAnimalsCount])
 
+  // Current tier prices in €/kg, as tiers may be quoted per t, dt or bag
+  const loadCurrentPricesPerKg = async (): Promise<number[]> => {
+    const today = new Date().toISOString().split('T')[0]
+    const { data: priceTiers } = await supabase
+      .from('price_tiers')
+      .select('feed_type_id, price_per_unit, unit, valid_from, valid_to, feed_types(id, unit, bag_weight_kg, density_kg_per_l)')
+      .eq('farm_id', currentFarmId!)
+      .lte('valid_from', today)
+      .or(`valid_to.is.null,valid_to.gte.${today}`)
+
+    const feedTypes = (priceTiers || []).flatMap(tier => tier.feed_types ? [tier.feed_types] : [])
+    return normalizeTierUnits(priceTiers || [], feedTypes, 'kg').map(tier => Number(tier.price_per_unit))
+  }
+
   const calculateFeedConversionFromCost = async (feedCost: number, totalWeightGain: number) => {
     try {
-      const { data: priceTiers } = await supabase
-        .from('price_tiers')
-        .select('price_per_unit')
-        .eq('farm_id', currentFarmId!)
-        .lte('valid_from', new Date().toISOString().split('T')[0])
-        .or(`valid_to.is.null,valid_to.gte.${new Date().toISOString().split('T')[0]}`)
+      const prices = await loadCurrentPricesPerKg()
       
-      if (priceTiers && priceTiers.length > 0) {
-        const avgPrice = priceTiers.reduce((sum, tier) => sum + Number(tier.price_per_unit), 0) / priceTiers.length
+      if (prices.length > 0) {
+        const avgPrice = prices.reduce((sum, price) => sum + price, 0) / prices.length
         if (avgPrice > 0) {
           const estimatedFeedKg = feedCost / avgPrice
           const calculatedFCR = estimatedFeedKg / totalWeightGain
@@ -249,20 +267,11 @@ export default function CountsPage() {
         const totalFeedNeeded = totalWeightGain * fcr
         
         // Get current feed prices to estimate cost
-        const { data: priceTiers } = await supabase
-          .from('price_tiers')
-          .select(`
-            price_per_unit,
-            feed_types(name, unit)
-          `)
-          .eq('farm_id', currentFarmId!)
-          .lte('valid_from', new Date().toISOString().split('T')[0])
-          .or(`valid_to.is.null,valid_to.gte.${new Date().toISOString().split('T')[0]}`)
-          .order('price_per_unit')
+        const prices = await loadCurrentPricesPerKg()
         
-        if (priceTiers && priceTiers.length > 0) {
+        if (prices.length > 0) {
           // Use average price for estimation
-          const avgPrice = priceTiers.reduce((sum, tier) => sum + Number(tier.price_per_unit), 0) / priceTiers.length
+          const avgPrice = prices.reduce((sum, price) => sum + price, 0) / prices.length
           const estimatedFeedCost = totalFeedNeeded * avgPrice
           setTotalFeedCost(estimatedFeedCost.toFixed(2))
         }
@@ -291,6 +300,8 @@ export default function CountsPage() {
           areas(*),
           area_groups(*)
         ),
+        mortality_events(*),
+        animal_sales(*),
         suppliers(*)
       `)
       .eq('farm_id', currentFarmId!)
@@ -589,6 +600,27 @@ export default function CountsPage() {
     )
   }
 
+  const getLossCount = (durchgang: LivestockCountWithDetails) => {
+    return (durchgang.mortality_events || []).reduce((sum, event) => sum + event.count, 0)
+  }
+
+  const getSoldCount = (durchgang: LivestockCountWithDetails) => {
+    return (durchgang.animal_sales || []).reduce((sum, sale) => sum + sale.count, 0)
+  }
+
+  // Areas and groups the cycle was stocked in, for assigning losses and sales
+  const getCycleLocations = (durchgang: LivestockCountWithDetails): AreaOption[] => {
+    const locations = new Map<string, AreaOption>()
+    durchgang.livestock_count_details.forEach(detail => {
+      if (detail.area_groups) {
+        locations.set(detail.area_groups.id, { id: detail.area_groups.id, name: detail.area_groups.name, type: 'group' })
+      } else if (detail.areas) {
+        locations.set(detail.areas.id, { id: detail.areas.id, name: detail.areas.name, type: 'area' })
+      }
+    })
+    return Array.from(locations.values())
+  }
+
   const isActive = (durchgang: LivestockCountWithDetails) => {
     const today = new Date().toISOString().split('T')[0]
     const startDate = durchgang.start_date
@@ -706,12 +738,22 @@ export default function CountsPage() {
             Verwalten Sie Tierbestände über verschiedene Zeiträume
           </p>
         </div>
-        <Link href="/dashboard/counts/create">
-          <Button className="flex items-center gap-2">
-            <Plus className="h-4 w-4" />
-            Neuen Durchgang anlegen
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="flex items-center gap-2"
+            onClick={() => setShowSettlementImport(true)}
+          >
+            <FileUp className="h-4 w-4" />
+            Schlachtabrechnung importieren
           </Button>
-        </Link>
+          <Link href="/dashboard/counts/create">
+            <Button className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              Neuen Durchgang anlegen
+            </Button>
+          </Link>
+        </div>
       </div>
 
       <div className="grid gap-6">
@@ -845,6 +887,12 @@ export default function CountsPage() {
                       <div className="flex items-center gap-1">
                         <Users className="h-4 w-4" />
                         {getTotalAnimals(durchgang)}
+                        {getLossCount(durchgang) > 0 && (
+                          <span className="text-xs text-red-600">−{getLossCount(durchgang)}</span>
+                        )}
+                        {getSoldCount(durchgang) > 0 && (
+                          <span className="text-xs text-muted-foreground">· {getSoldCount(durchgang)} verkauft</span>
+                        )}
                       </div>
                     </TableCell>
                     <TableCell>
@@ -868,16 +916,46 @@ export default function CountsPage() {
                       }
                     </TableCell>
                     <TableCell>
-                      <Link href={`/dashboard/counts/${durchgang.id}/edit`}>
+                      <div className="flex items-center gap-2">
+                        <Link href={`/dashboard/counts/${durchgang.id}/edit`}>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="flex items-center gap-1"
+                          >
+                            <Edit className="h-3 w-3" />
+                            Bearbeiten
+                          </Button>
+                        </Link>
                         <Button
                           variant="outline"
                           size="sm"
                           className="flex items-center gap-1"
+                          onClick={() => setLossesDurchgang(durchgang)}
                         >
-                          <Edit className="h-3 w-3" />
-                          Bearbeiten
+                          <HeartCrack className="h-3 w-3" />
+                          Abgänge
                         </Button>
-                      </Link>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="flex items-center gap-1"
+                          onClick={() => setSalesDurchgang(durchgang)}
+                        >
+                          <Receipt className="h-3 w-3" />
+                          Verkäufe
+                        </Button>
+                        <Link href={`/dashboard/counts/${durchgang.id}/weighings`}>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="flex items-center gap-1"
+                          >
+                            <Scale className="h-3 w-3" />
+                            Wiegungen
+                          </Button>
+                        </Link>
+                      </div>
                     </TableCell>
                   </TableRow>
                 ))}
@@ -1358,6 +1436,7 @@ export default function CountsPage() {
                         ...areas.map(a => ({ id: a.id, name: a.name, type: 'area' as const }))
                       ]}
                       onMovementsChange={setMovements}
+                      losses={editingDurchgang?.mortality_events}
                     />
                   )}
                   {!startDate && (
@@ -1389,6 +1468,53 @@ export default function CountsPage() {
           </form>
         </DialogContent>
       </Dialog>
+
+      {currentFarmId && (
+        <MortalityEventsDialog
+          farmId={currentFarmId}
+          cycle={lossesDurchgang && {
+            id: lossesDurchgang.id,
+            name: lossesDurchgang.durchgang_name || `Durchgang ${formatDate(lossesDurchgang.created_date)}`,
+            startDate: lossesDurchgang.start_date,
+            endDate: lossesDurchgang.end_date,
+          }}
+          locations={lossesDurchgang ? getCycleLocations(lossesDurchgang) : []}
+          onOpenChange={(open) => !open && setLossesDurchgang(null)}
+          onChange={loadDurchgaenge}
+        />
+      )}
+
+      {currentFarmId && (
+        <AnimalSalesDialog
+          farmId={currentFarmId}
+          cycle={salesDurchgang && {
+            id: salesDurchgang.id,
+            name: salesDurchgang.durchgang_name || `Durchgang ${formatDate(salesDurchgang.created_date)}`,
+            startDate: salesDurchgang.start_date,
+            endDate: salesDurchgang.end_date,
+          }}
+          locations={salesDurchgang ? getCycleLocations(salesDurchgang) : []}
+          onOpenChange={(open) => !open && setSalesDurchgang(null)}
+          onChange={loadDurchgaenge}
+        />
+      )}
+
+      {currentFarmId && (
+        <SettlementImportDialog
+          farmId={currentFarmId}
+          open={showSettlementImport}
+          cycles={durchgaenge.map(durchgang => ({
+            id: durchgang.id,
+            name: durchgang.durchgang_name || `Durchgang ${formatDate(durchgang.created_date)}`,
+            startDate: durchgang.start_date,
+            endDate: durchgang.end_date,
+            sellPricePerAnimal: durchgang.sell_price_per_animal,
+            locations: getCycleLocations(durchgang),
+          }))}
+          onOpenChange={setShowSettlementImport}
+          onImported={loadDurchgaenge}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
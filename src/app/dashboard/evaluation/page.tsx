@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import Link from 'next/link'
 import { createClient } from '@/lib/supabase/client'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -30,6 +31,8 @@ import {
   Filter,
   ChevronDown,
   ChevronRight,
+  HeartCrack,
+  Receipt,
   X
 } from 'lucide-react'
 import { Tables } from '@/lib/database.types'
@@ -41,9 +44,12 @@ import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTool
 import { startOfWeek, format, getISOWeek, parseISO } from 'date-fns'
 import { de } from 'date-fns/locale'
 import { TimelineKanban } from '@/components/evaluation/timeline-kanban'
-import { calculateTotalAnimalsFromDetails, calculateCycleDuration } from '@/lib/utils/livestock-calculations'
+import { calculateTotalAnimalsFromDetails, calculateCycleDuration, loadAnimalAllocationMode, type AnimalAllocationMode } from '@/lib/utils/livestock-calculations'
 import { calculateCycleMetrics, calculateAreaMetrics as calcAreaMetrics, calculateFeedComponentSummary as calcFeedComponentSummary, filterConsumptionByTimeframe, type ConsumptionItem, type LivestockCountDetail } from '@/lib/utils/kpi-calculations'
 import { ErrorBoundary } from '@/components/error-boundary'
+import { calculateMortalityDistribution, MORTALITY_EVENT_TYPES, MORTALITY_EVENT_TYPE_LABELS, type MortalityEventType } from '@/lib/utils/mortality'
+import { calculateSaleRevenue, SALE_PRICE_BASIS_LABELS, type SalePriceBasis } from '@/lib/utils/animal-sales'
+import { compareWithEstimate } from '@/lib/utils/slaughter-settlement'
 
 // Utility function to parse date strings without timezone issues
 // Parses 'YYYY-MM-DD' as local date at midnight, not UTC
@@ -74,6 +80,8 @@ interface AreaGroupMembership {
 interface LivestockCountWithDetails extends LivestockCount {
   livestock_count_details: (LivestockCountDetail & { areas: Area })[]
   suppliers?: Supplier
+  mortality_events?: Tables<'mortality_events'>[]
+  animal_sales?: Tables<'animal_sales'>[]
 }
 
 interface ConsumptionData {
@@ -95,10 +103,21 @@ interface ConsumptionData {
 
 interface EvaluationMetrics {
   totalAnimals: number
+  peakAnimals: number
+  totalAnimalDays: number
+  allocationMode: AnimalAllocationMode
   averageWeight: number
   weightGain: number
   feedConversionRatio: number
   mortalityRate: number
+  lossCount: number
+  lossesByType: Record<MortalityEventType, number>
+  disposalCosts: number
+  soldAnimals: number
+  remainingAnimals: number
+  averageCarcassWeight: number | null
+  dressingPercentage: number | null
+  salesPricePerKgCarcass: number | null
   totalFeedCost: number
   feedCostPerAnimal: number
   feedCostPerKg: number
@@ -117,6 +136,17 @@ interface EvaluationMetrics {
   additionalCosts: number
   consumptionFeedCost: number
   feedCategoryTransactionCosts: number
+  // Price quality
+  estimatedFeedCost: number
+  unpricedFeedQuantity: number
+  // Dry matter and energy
+  totalDryMatter: number
+  dryMatterIntakePerAnimalPerDay: number | null
+  feedCostPerKgDryMatter: number | null
+  feedCostPerMjMe: number | null
+  feedCostPerMjNel: number | null
+  feedCostPerAnimalDay: number
+  totalCostPerAnimalDay: number
 }
 
 interface AreaMetrics {
@@ -145,6 +175,8 @@ interface FeedComponentSummary {
   weightedAvgPrice: number
   percentageOfTotal: number
   dailyConsumption: number
+  dryMatterPercent: number | null
+  costPerKgDryMatter: number | null
 }
 
 interface CostTransaction {
@@ -250,6 +282,8 @@ function EvaluationContent() {
       .select(`
         *,
         livestock_count_details(*, areas(*), area_groups(*)),
+        mortality_events(*),
+        animal_sales(*),
         suppliers(*)
       `)
       .eq('farm_id', currentFarmId!)
@@ -322,6 +356,7 @@ function EvaluationContent() {
         durchgang.start_date,
         durchgang.end_date  // Pass null if end_date is null, centralized function will handle it
       )
+      const allocationMode = await loadAnimalAllocationMode(supabase, currentFarmId!)
 
       console.log('Loaded consumption records:', consumption.length)
 
@@ -366,7 +401,7 @@ function EvaluationContent() {
       setIncomeTransactions(incomeData || [])
 
       setConsumptionData(filteredConsumption)
-      calculateMetrics(durchgang, filteredConsumption, costData || [], incomeData || [])
+      calculateMetrics(durchgang, filteredConsumption, costData || [], incomeData || [], allocationMode)
       calculateAreaMetrics(durchgang, filteredConsumption, costData || [])
       calculateFeedComponentSummary(durchgang, filteredConsumption)
 
@@ -396,9 +431,9 @@ function EvaluationContent() {
     return filteredAreaIds.length === 0 || filteredAreaIds.includes(areaId)
   }
 
-  const calculateMetrics = (durchgang: LivestockCountWithDetails, consumption: ConsumptionData[], costTransactions: CostTransaction[] = [], incomeTransactions: IncomeTransaction[] = []) => {
+  const calculateMetrics = (durchgang: LivestockCountWithDetails, consumption: ConsumptionData[], costTransactions: CostTransaction[] = [], incomeTransactions: IncomeTransaction[] = [], allocationMode: AnimalAllocationMode = 'peak') => {
     // Use centralized KPI calculation function
-    const metrics = calculateCycleMetrics(durchgang as any, consumption as any, costTransactions, incomeTransactions)
+    const metrics = calculateCycleMetrics(durchgang as any, consumption as any, costTransactions, incomeTransactions, allocationMode)
     setMetrics(metrics)
   }
 
@@ -679,6 +714,9 @@ function EvaluationContent() {
   }
 
   const selectedDurchgangData = durchgaenge.find(d => d.id === selectedDurchgang)
+  const salesEstimate = metrics && selectedDurchgangData
+    ? compareWithEstimate(metrics.animalSalesRevenue, metrics.soldAnimals, selectedDurchgangData.sell_price_per_animal)
+    : null
 
   return (
     <div className="space-y-6">
@@ -1129,6 +1167,11 @@ function EvaluationContent() {
                       <p className="text-sm font-medium text-muted-foreground">Futterverwertung</p>
                       <p className="text-2xl font-bold">{formatNumber(metrics.feedConversionRatio, 2)}</p>
                       <p className="text-xs text-muted-foreground">kg Futter/kg Zunahme</p>
+                      {metrics.dryMatterIntakePerAnimalPerDay !== null && (
+                        <p className="text-xs text-muted-foreground">
+                          TM-Aufnahme: {formatNumber(metrics.dryMatterIntakePerAnimalPerDay, 2)} kg/Tier/Tag
+                        </p>
+                      )}
                     </div>
                     <Target className="h-8 w-8 text-blue-600" />
                   </div>
@@ -1142,8 +1185,25 @@ function EvaluationContent() {
                       <p className="text-sm font-medium text-muted-foreground">Futterkosten</p>
                       <p className="text-2xl font-bold">{formatCurrency(metrics.totalFeedCost)}</p>
                       <p className="text-xs text-muted-foreground">
-                        {formatCurrency(metrics.feedCostPerAnimal)}/Tier
+                        {formatCurrency(metrics.feedCostPerAnimal)}/Tier · {formatCurrency(metrics.feedCostPerAnimalDay)}/Tiertag
                       </p>
+                      {metrics.feedCostPerKgDryMatter !== null && (
+                        <p className="text-xs text-muted-foreground">
+                          {formatCurrency(metrics.feedCostPerKgDryMatter)}/kg TM
+                          {metrics.feedCostPerMjMe !== null && ` · ${formatNumber(metrics.feedCostPerMjMe * 100, 2)} ct/MJ ME`}
+                          {metrics.feedCostPerMjNel !== null && ` · ${formatNumber(metrics.feedCostPerMjNel * 100, 2)} ct/MJ NEL`}
+                        </p>
+                      )}
+                      {metrics.estimatedFeedCost > 0 && (
+                        <p className="text-xs text-amber-600">
+                          davon geschätzt: {formatCurrency(metrics.estimatedFeedCost)}
+                        </p>
+                      )}
+                      {metrics.unpricedFeedQuantity > 0 && (
+                        <Link href="/dashboard/price-gaps" className="text-xs text-red-600 underline">
+                          {formatNumber(metrics.unpricedFeedQuantity, 0)} kg ohne Preis
+                        </Link>
+                      )}
                     </div>
                     <Package className="h-8 w-8 text-orange-600" />
                   </div>
@@ -1155,10 +1215,20 @@ function EvaluationContent() {
                   <div className="flex items-center justify-between">
                     <div>
                       <p className="text-sm font-medium text-muted-foreground">Tiere gesamt</p>
-                      <p className="text-2xl font-bold">{formatNumber(metrics.totalAnimals, 0)}</p>
+                      <p className="text-2xl font-bold">{formatNumber(metrics.peakAnimals, 0)}</p>
+                      {metrics.allocationMode === 'animal_days' && (
+                        <p className="text-xs text-muted-foreground">
+                          Ø Belegung: {formatNumber(metrics.totalAnimals, 1)} Tiere · {formatNumber(metrics.totalAnimalDays, 0)} Tiertage
+                        </p>
+                      )}
                       <p className="text-xs text-muted-foreground">
                         Mortalität: {formatPercentage(metrics.mortalityRate)}
                       </p>
+                      {metrics.soldAnimals > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Verkauft: {formatNumber(metrics.soldAnimals, 0)} · im Stall: {formatNumber(metrics.remainingAnimals, 0)}
+                        </p>
+                      )}
                     </div>
                     <Users className="h-8 w-8 text-purple-600" />
                   </div>
@@ -1187,7 +1257,12 @@ function EvaluationContent() {
 
                     <div className="space-y-2">
                       <div className="flex justify-between items-center">
-                        <span className="text-sm">Tierverkauf</span>
+                        <span className="text-sm">
+                          Tierverkauf
+                          {metrics.soldAnimals > 0 && (
+                            <span className="text-muted-foreground"> ({selectedDurchgangData?.animal_sales?.length} Partien)</span>
+                          )}
+                        </span>
                         <span>{formatCurrency(metrics.animalSalesRevenue)}</span>
                       </div>
                       {incomeTransactions.length > 0 && (
@@ -1688,6 +1763,8 @@ function EvaluationContent() {
                         <TableHead className="text-right">Tagesverbrauch</TableHead>
                         <TableHead className="text-right">Pro Tier/Tag</TableHead>
                         <TableHead className="text-right">Pro Tier gesamt</TableHead>
+                        <TableHead className="text-right">TS %</TableHead>
+                        <TableHead className="text-right">€/kg TM</TableHead>
                         <TableHead className="text-right">Anteil %</TableHead>
                       </TableRow>
                     </TableHeader>
@@ -1718,6 +1795,12 @@ function EvaluationContent() {
                           <TableCell className="text-right">
                             {formatNumber(component.quantityPerAnimal, 2)} {component.unit}
                           </TableCell>
+                          <TableCell className="text-right">
+                            {component.dryMatterPercent !== null ? formatPercentage(component.dryMatterPercent) : '-'}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {component.costPerKgDryMatter !== null ? formatCurrency(component.costPerKgDryMatter) : '-'}
+                          </TableCell>
                           <TableCell className="text-right">
                             {formatPercentage(component.percentageOfTotal)}
                           </TableCell>
@@ -1747,6 +1830,10 @@ function EvaluationContent() {
                         <TableCell className="text-right">
                           {formatNumber(feedComponentSummary.reduce((sum, c) => sum + c.quantityPerAnimal, 0), 2)} kg
                         </TableCell>
+                        <TableCell className="text-right">-</TableCell>
+                        <TableCell className="text-right">
+                          {metrics?.feedCostPerKgDryMatter != null ? formatCurrency(metrics.feedCostPerKgDryMatter) : '-'}
+                        </TableCell>
                         <TableCell className="text-right">100%</TableCell>
                       </TableRow>
                     </TableBody>
@@ -1855,6 +1942,146 @@ function EvaluationContent() {
             </Card>
           )}
 
+          {/* Sale batches */}
+          {metrics && selectedDurchgangData?.animal_sales && selectedDurchgangData.animal_sales.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Receipt className="h-5 w-5" />
+                  Verkaufspartien
+                </CardTitle>
+                <CardDescription>
+                  {metrics.soldAnimals} Tiere verkauft · {formatCurrency(metrics.animalSalesRevenue)}
+                  {metrics.averageCarcassWeight !== null && ` · Ø SG ${formatNumber(metrics.averageCarcassWeight)} kg`}
+                  {metrics.dressingPercentage !== null && ` · Ausschlachtung ${formatPercentage(metrics.dressingPercentage)}`}
+                  {metrics.salesPricePerKgCarcass !== null && ` · ${formatCurrency(metrics.salesPricePerKgCarcass)}/kg SG`}
+                  {salesEstimate && (
+                    <span className={salesEstimate.difference < 0 ? 'text-red-600' : 'text-green-600'}>
+                      {' '}· Plan {formatCurrency(salesEstimate.estimate)} ({salesEstimate.difference >= 0 ? '+' : ''}
+                      {formatCurrency(salesEstimate.difference)})
+                    </span>
+                  )}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Datum</TableHead>
+                      <TableHead className="text-right">Tiere</TableHead>
+                      <TableHead className="text-right">Ø LG</TableHead>
+                      <TableHead className="text-right">Ø SG</TableHead>
+                      <TableHead>Preis</TableHead>
+                      <TableHead>Klassifizierung</TableHead>
+                      <TableHead className="text-right">Zu-/Abschläge</TableHead>
+                      <TableHead>Abnehmer</TableHead>
+                      <TableHead className="text-right">Erlös</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...selectedDurchgangData.animal_sales]
+                      .sort((a, b) => a.sale_date.localeCompare(b.sale_date))
+                      .map(sale => (
+                        <TableRow key={sale.id}>
+                          <TableCell>{formatDate(sale.sale_date)}</TableCell>
+                          <TableCell className="text-right">{sale.count}</TableCell>
+                          <TableCell className="text-right">
+                            {sale.live_weight_per_animal_kg ? `${formatNumber(sale.live_weight_per_animal_kg)} kg` : '-'}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {sale.carcass_weight_per_animal_kg ? `${formatNumber(sale.carcass_weight_per_animal_kg)} kg` : '-'}
+                          </TableCell>
+                          <TableCell>
+                            {formatNumber(sale.price, 2)} {SALE_PRICE_BASIS_LABELS[sale.price_basis as SalePriceBasis] || sale.price_basis}
+                          </TableCell>
+                          <TableCell>
+                            {[sale.classification, sale.lean_meat_percent ? `${formatNumber(sale.lean_meat_percent)} % MFA` : null]
+                              .filter(Boolean).join(' · ') || '-'}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {sale.bonus_total ? formatCurrency(sale.bonus_total) : '-'}
+                          </TableCell>
+                          <TableCell>
+                            {sale.buyer || '-'}
+                            {sale.settlement_number && (
+                              <div className="text-xs text-muted-foreground">Abrechnung {sale.settlement_number}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(calculateSaleRevenue(sale))}</TableCell>
+                        </TableRow>
+                      ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Losses */}
+          {metrics && selectedDurchgangData && metrics.lossCount > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <HeartCrack className="h-5 w-5" />
+                  Abgänge
+                </CardTitle>
+                <CardDescription>
+                  {metrics.lossCount} Tiere ({formatPercentage(metrics.mortalityRate)}) · Entsorgungskosten {formatCurrency(metrics.disposalCosts)}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {MORTALITY_EVENT_TYPES.map(type => (
+                    <div key={type} className="flex items-center justify-between p-3 border rounded-lg">
+                      <p className="font-medium">{MORTALITY_EVENT_TYPE_LABELS[type]}</p>
+                      <span className="font-bold">{metrics.lossesByType[type]}</span>
+                    </div>
+                  ))}
+                </div>
+                <div className="h-[250px]">
+                  <ChartContainer
+                    config={{ losses: { label: 'Abgänge', color: '#e74c3c' } }}
+                    className="w-full h-full"
+                  >
+                    <BarChart
+                      accessibilityLayer
+                      data={calculateMortalityDistribution(
+                        selectedDurchgangData.mortality_events || [],
+                        selectedDurchgangData.start_date,
+                        selectedDurchgangData.end_date,
+                        metrics.peakAnimals
+                      )}
+                      margin={{ left: 12, right: 12, top: 12, bottom: 12 }}
+                    >
+                      <CartesianGrid vertical={false} />
+                      <XAxis
+                        dataKey="week"
+                        tickLine={false}
+                        axisLine={false}
+                        tickMargin={8}
+                        tickFormatter={(value) => `Woche ${value}`}
+                      />
+                      <YAxis tickLine={false} axisLine={false} tickMargin={8} allowDecimals={false} />
+                      <ChartTooltip
+                        cursor={false}
+                        content={
+                          <ChartTooltipContent
+                            labelFormatter={(_, payload) => {
+                              const week = payload?.[0]?.payload
+                              return week
+                                ? `Woche ${week.week} · kumuliert ${formatPercentage(week.cumulativeRate)}`
+                                : ''
+                            }}
+                          />
+                        }
+                      />
+                      <Bar dataKey="losses" fill="var(--color-losses)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Gruppenspezifische Auswertung - Detailed Group-Specific Analysis */}
           {areaMetrics.length > 0 && areaGroups.length > 0 && (
             <Card>
@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Separator } from '@/components/ui/separator'
@@ -19,6 +20,8 @@ import { SupplierManagement } from '@/components/farm/supplier-management'
 import { PendingInvitationsTable } from '@/components/farm/pending-invitations-table'
 import { Settings, Users, Trash2, UserPlus, Info, Building } from 'lucide-react'
 import { toast } from 'sonner'
+import { FEED_COSTING_MODE_LABELS, type FeedCostingMode } from '@/lib/utils/feed-costing'
+import { ANIMAL_ALLOCATION_MODE_LABELS, type AnimalAllocationMode } from '@/lib/utils/livestock-calculations'
 
 interface Farm {
   id: string
@@ -31,6 +34,8 @@ interface Farm {
   contact_person_name: string | null
   contact_person_phone: string | null
   notes: string | null
+  feed_costing_mode: string
+  animal_allocation_mode: string
 }
 
 export default function FarmSettingsPage() {
@@ -111,6 +116,8 @@ export default function FarmSettingsPage() {
           contact_person_name: farm.contact_person_name,
           contact_person_phone: farm.contact_person_phone,
           notes: farm.notes,
+          feed_costing_mode: farm.feed_costing_mode,
+          animal_allocation_mode: farm.animal_allocation_mode,
           updated_at: new Date().toISOString()
         })
         .eq('id', currentFarmId)
@@ -276,6 +283,52 @@ export default function FarmSettingsPage() {
                   />
                 </div>
                 
+                <div className="space-y-2">
+                  <Label htmlFor="feedCostingMode">Futterkosten-Bewertung</Label>
+                  <Select
+                    value={farm.feed_costing_mode}
+                    onValueChange={(value) => setFarm({ ...farm, feed_costing_mode: value })}
+                    disabled={!canEdit}
+                  >
+                    <SelectTrigger id="feedCostingMode" className="md:w-1/2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(FEED_COSTING_MODE_LABELS) as FeedCostingMode[]).map(mode => (
+                        <SelectItem key={mode} value={mode}>{FEED_COSTING_MODE_LABELS[mode]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground">
+                    Bewertet den Verbrauch mit der gültigen Preisstaffel oder mit den Preisen der erfassten
+                    Lieferungen (FIFO oder gleitender Durchschnitt). Verbrauch ohne Lagerbestand wird mit der
+                    Preisstaffel bewertet.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="animalAllocationMode">Kosten je Tier</Label>
+                  <Select
+                    value={farm.animal_allocation_mode}
+                    onValueChange={(value) => setFarm({ ...farm, animal_allocation_mode: value })}
+                    disabled={!canEdit}
+                  >
+                    <SelectTrigger id="animalAllocationMode" className="md:w-1/2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ANIMAL_ALLOCATION_MODE_LABELS) as AnimalAllocationMode[]).map(mode => (
+                        <SelectItem key={mode} value={mode}>{ANIMAL_ALLOCATION_MODE_LABELS[mode]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground">
+                    Verteilt die Kosten eines Durchgangs auf die höchste gleichzeitige Tierzahl oder auf die
+                    durchschnittliche Belegung aus den Tiertagen. Bei gestaffelter Ein- und Ausstallung ergibt
+                    die Belegung realistischere Kosten je Tier.
+                  </p>
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="notes">Notes</Label>
                   <Textarea
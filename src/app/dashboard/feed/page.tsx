@@ -11,8 +11,16 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Badge } from '@/components/ui/badge'
 import { useFarmStore } from '@/lib/stores/farm-store'
-import { Plus, Edit, Package, Trash2 } from 'lucide-react'
+import { FEED_UNIT_LABELS, formatUnit, hasConversionFactor, haveSameUnit, type FeedUnit } from '@/lib/utils/units'
+import { Plus, Edit, Package, Trash2, Merge, X, FlaskConical } from 'lucide-react'
 import { Tables } from '@/lib/database.types'
+import {
+  getFeedTypeAliases,
+  deleteFeedTypeAlias,
+  mergeFeedTypes,
+  type FeedTypeAliasRecord
+} from '@/lib/services/feed-alias-service'
+import { FeedAnalysesDialog } from '@/components/farm/feed-analyses-dialog'
 
 type FeedType = Tables<'feed_types'>
 
@@ -21,6 +29,11 @@ export default function FeedPage() {
   const [showCreateDialog, setShowCreateDialog] = useState(false)
   const [editingFeedType, setEditingFeedType] = useState<FeedType | null>(null)
   const [loading, setLoading] = useState(false)
+  const [aliases, setAliases] = useState<FeedTypeAliasRecord[]>([])
+  const [mergingFeedType, setMergingFeedType] = useState<FeedType | null>(null)
+  const [mergeTargetId, setMergeTargetId] = useState('')
+  const [mergeError, setMergeError] = useState<string | null>(null)
+  const [analysingFeedType, setAnalysingFeedType] = useState<FeedType | null>(null)
   const { currentFarmId } = useFarmStore()
   const supabase = createClient()
 
@@ -28,6 +41,8 @@ export default function FeedPage() {
   const [name, setName] = useState('')
   const [normalizedName, setNormalizedName] = useState('')
   const [unit, setUnit] = useState('kg')
+  const [bagWeightKg, setBagWeightKg] = useState('')
+  const [densityKgPerL, setDensityKgPerL] = useState('')
 
   useEffect(() => {
     if (currentFarmId) {
@@ -45,6 +60,12 @@ export default function FeedPage() {
     if (!error && data) {
       setFeedTypes(data)
     }
+
+    try {
+      setAliases(await getFeedTypeAliases(currentFarmId!))
+    } catch {
+      setAliases([])
+    }
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -60,6 +81,8 @@ export default function FeedPage() {
             name,
             normalized_name: normalizedName || null,
             unit,
+            bag_weight_kg: bagWeightKg ? parseFloat(bagWeightKg.replace(',', '.')) : null,
+            density_kg_per_l: densityKgPerL ? parseFloat(densityKgPerL.replace(',', '.')) : null,
           })
           .eq('id', editingFeedType.id)
 
@@ -73,6 +96,8 @@ export default function FeedPage() {
             name,
             normalized_name: normalizedName || null,
             unit,
+            bag_weight_kg: bagWeightKg ? parseFloat(bagWeightKg.replace(',', '.')) : null,
+            density_kg_per_l: densityKgPerL ? parseFloat(densityKgPerL.replace(',', '.')) : null,
           })
 
         if (error) throw error
@@ -107,10 +132,40 @@ export default function FeedPage() {
     }
   }
 
+  const handleMerge = async () => {
+    if (!mergingFeedType || !mergeTargetId || !currentFarmId) return
+
+    setLoading(true)
+    setMergeError(null)
+
+    try {
+      await mergeFeedTypes(currentFarmId, mergingFeedType.id, mergeTargetId)
+      setMergingFeedType(null)
+      setMergeTargetId('')
+      loadFeedTypes()
+    } catch (error) {
+      console.error('Error merging feed types:', error)
+      setMergeError(error instanceof Error ? error.message : 'Zusammenführen fehlgeschlagen')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDeleteAlias = async (alias: FeedTypeAliasRecord) => {
+    try {
+      await deleteFeedTypeAlias(alias.id)
+      setAliases(prev => prev.filter(a => a.id !== alias.id))
+    } catch (error) {
+      console.error('Error deleting feed type alias:', error)
+    }
+  }
+
   const resetForm = () => {
     setName('')
     setNormalizedName('')
     setUnit('kg')
+    setBagWeightKg('')
+    setDensityKgPerL('')
   }
 
   const handleEdit = (feedType: FeedType) => {
@@ -118,6 +173,8 @@ export default function FeedPage() {
     setName(feedType.name)
     setNormalizedName(feedType.normalized_name || '')
     setUnit(feedType.unit || 'kg')
+    setBagWeightKg(feedType.bag_weight_kg?.toString() || '')
+    setDensityKgPerL(feedType.density_kg_per_l?.toString() || '')
     setShowCreateDialog(true)
   }
 
@@ -165,6 +222,7 @@ export default function FeedPage() {
                 <TableRow>
                   <TableHead>Name</TableHead>
                   <TableHead>Normalisierter Name</TableHead>
+                  <TableHead>Aliasnamen</TableHead>
                   <TableHead>Einheit</TableHead>
                   <TableHead>Erstellt</TableHead>
                   <TableHead>Zuletzt geändert</TableHead>
@@ -183,7 +241,27 @@ export default function FeedPage() {
                       )}
                     </TableCell>
                     <TableCell>
-                      <Badge variant="outline">{feedType.unit || 'kg'}</Badge>
+                      <div className="flex flex-wrap gap-1">
+                        {aliases.filter(a => a.feed_type_id === feedType.id).map(alias => (
+                          <Badge key={alias.id} variant="outline" className="flex items-center gap-1">
+                            {alias.alias}
+                            <button
+                              type="button"
+                              onClick={() => handleDeleteAlias(alias)}
+                              className="hover:text-red-600"
+                              aria-label={`Alias "${alias.alias}" entfernen`}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{formatUnit(feedType.unit)}</Badge>
+                      {!hasConversionFactor(feedType) && (
+                        <div className="text-xs text-amber-600 mt-1">Umrechnungsfaktor fehlt</div>
+                      )}
                     </TableCell>
                     <TableCell>{formatDate(feedType.created_at)}</TableCell>
                     <TableCell>{formatDate(feedType.updated_at)}</TableCell>
@@ -198,6 +276,29 @@ export default function FeedPage() {
                           <Edit className="h-3 w-3" />
                           Bearbeiten
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setAnalysingFeedType(feedType)}
+                          className="flex items-center gap-1"
+                        >
+                          <FlaskConical className="h-3 w-3" />
+                          Analysen
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setMergingFeedType(feedType)
+                            setMergeTargetId('')
+                            setMergeError(null)
+                          }}
+                          disabled={feedTypes.length < 2}
+                          className="flex items-center gap-1"
+                        >
+                          <Merge className="h-3 w-3" />
+                          Zusammenführen
+                        </Button>
                         <Button
                           variant="outline"
                           size="sm"
@@ -213,7 +314,7 @@ export default function FeedPage() {
                 ))}
                 {feedTypes.length === 0 && (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
                       Noch keine Futtermittel angelegt. Diese werden automatisch beim CSV-Import erstellt.
                     </TableCell>
                   </TableRow>
@@ -267,13 +368,42 @@ export default function FeedPage() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="kg">Kilogramm (kg)</SelectItem>
-                    <SelectItem value="t">Tonnen (t)</SelectItem>
-                    <SelectItem value="l">Liter (l)</SelectItem>
-                    <SelectItem value="m³">Kubikmeter (m³)</SelectItem>
+                    {(Object.keys(FEED_UNIT_LABELS) as FeedUnit[]).map(option => (
+                      <SelectItem key={option} value={option}>{FEED_UNIT_LABELS[option]}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="bagWeightKg">Sackgewicht (kg)</Label>
+                  <Input
+                    id="bagWeightKg"
+                    inputMode="decimal"
+                    value={bagWeightKg}
+                    onChange={(e) => setBagWeightKg(e.target.value)}
+                    placeholder="z.B. 25"
+                    required={unit === 'bag'}
+                    disabled={loading}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="densityKgPerL">Dichte (kg/l)</Label>
+                  <Input
+                    id="densityKgPerL"
+                    inputMode="decimal"
+                    value={densityKgPerL}
+                    onChange={(e) => setDensityKgPerL(e.target.value)}
+                    placeholder="z.B. 1,3"
+                    required={unit === 'l' || unit === 'm³'}
+                    disabled={loading}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Werden benötigt, um Preise je kg, dt oder t auf Sack bzw. Liter umzurechnen und umgekehrt.
+              </p>
             </div>
 
             <DialogFooter>
@@ -296,6 +426,52 @@ export default function FeedPage() {
           </form>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!mergingFeedType} onOpenChange={(open) => !open && setMergingFeedType(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Futtermittel zusammenführen</DialogTitle>
+            <DialogDescription>
+              Verbrauchsdaten und Preisstufen von &quot;{mergingFeedType?.name}&quot; werden auf das gewählte
+              Futtermittel übertragen. &quot;{mergingFeedType?.name}&quot; wird anschließend gelöscht und als
+              Aliasname gespeichert, damit künftige Importe automatisch zugeordnet werden. Zur Auswahl
+              stehen nur Futtermittel mit derselben Einheit.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Zusammenführen mit</Label>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Futtermittel wählen" />
+              </SelectTrigger>
+              <SelectContent>
+                {feedTypes
+                  .filter(ft => ft.id !== mergingFeedType?.id && mergingFeedType && haveSameUnit(ft, mergingFeedType))
+                  .map(ft => (
+                    <SelectItem key={ft.id} value={ft.id}>{ft.name}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            {mergeError && <p className="text-sm text-red-600">{mergeError}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMergingFeedType(null)} disabled={loading}>
+              Abbrechen
+            </Button>
+            <Button onClick={handleMerge} disabled={loading || !mergeTargetId}>
+              {loading ? 'Wird zusammengeführt...' : 'Zusammenführen'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {currentFarmId && (
+        <FeedAnalysesDialog
+          farmId={currentFarmId}
+          feedType={analysingFeedType}
+          onOpenChange={(open) => !open && setAnalysingFeedType(null)}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
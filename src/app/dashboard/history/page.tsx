@@ -5,15 +5,27 @@ import { createClient } from '@/lib/supabase/client'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
 import { useFarmStore } from '@/lib/stores/farm-store'
-import { FileText, CheckCircle, XCircle, Clock, AlertCircle } from 'lucide-react'
+import { FileText, CheckCircle, XCircle, Clock, AlertCircle, Undo2, RefreshCw } from 'lucide-react'
 import { Tables } from '@/lib/database.types'
+import { getUploadFileUrl, reprocessUpload, rollbackUpload } from '@/lib/services/upload-service'
+import { isUploadProcessing } from '@/lib/upload-processor'
 
 type Upload = Tables<'uploads'>
 
+/** Uploads created by an import source instead of by hand */
+const sourceLabels: Record<string, string> = {
+  folder: 'Ordner',
+  mailbox: 'Postfach',
+}
+
 export default function HistoryPage() {
   const [uploads, setUploads] = useState<Upload[]>([])
   const [loading, setLoading] = useState(false)
+  const [busyUploadId, setBusyUploadId] = useState<string | null>(null)
+  const [actionMessage, setActionMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
   const { currentFarmId } = useFarmStore()
   const supabase = createClient()
 
@@ -23,8 +35,16 @@ export default function HistoryPage() {
     }
   }, [currentFarmId])
 
-  const loadUploads = async () => {
-    setLoading(true)
+  // Imports run on the server; refresh while one is still processing
+  useEffect(() => {
+    if (!uploads.some(upload => isUploadProcessing(upload))) return
+
+    const timer = setTimeout(() => loadUploads(true), 5000)
+    return () => clearTimeout(timer)
+  }, [uploads])
+
+  const loadUploads = async (silent = false) => {
+    if (!silent) setLoading(true)
     const { data, error } = await supabase
       .from('uploads')
       .select('*')
@@ -37,6 +57,49 @@ export default function HistoryPage() {
     setLoading(false)
   }
 
+  const handleRollback = async (upload: Upload) => {
+    if (!confirm(`Möchten Sie den Import "${upload.filename}" wirklich rückgängig machen? Neu angelegte Verbrauchsdaten werden gelöscht, überschriebene Werte wiederhergestellt.`)) {
+      return
+    }
+
+    setBusyUploadId(upload.id)
+    setActionMessage(null)
+    try {
+      const result = await rollbackUpload(upload.id)
+      setActionMessage({
+        type: 'success',
+        text: `Import rückgängig gemacht: ${result.deleted} Datensätze gelöscht, ${result.restored} wiederhergestellt.`
+      })
+      loadUploads()
+    } catch (error) {
+      console.error('Error rolling back upload:', error)
+      setActionMessage({ type: 'error', text: error instanceof Error ? error.message : 'Rückgängig machen fehlgeschlagen' })
+    } finally {
+      setBusyUploadId(null)
+    }
+  }
+
+  const handleReprocess = async (upload: Upload) => {
+    if (!confirm(`Möchten Sie die Datei "${upload.filename}" erneut importieren? Der bisherige Import wird dabei rückgängig gemacht.`)) {
+      return
+    }
+
+    setBusyUploadId(upload.id)
+    setActionMessage(null)
+    try {
+      const result = await reprocessUpload(upload.id)
+      setActionMessage(result.errors.length > 0
+        ? { type: 'error', text: `Erneuter Import mit Fehlern: ${result.errors.join('; ')}` }
+        : { type: 'success', text: `Datei erneut importiert: ${result.processed} Datensätze verarbeitet.` })
+      loadUploads()
+    } catch (error) {
+      console.error('Error reprocessing upload:', error)
+      setActionMessage({ type: 'error', text: error instanceof Error ? error.message : 'Erneuter Import fehlgeschlagen' })
+    } finally {
+      setBusyUploadId(null)
+    }
+  }
+
   const formatDate = (dateString: string | null) => {
     if (!dateString) return '-'
     return new Date(dateString).toLocaleString('de-DE')
@@ -50,6 +113,10 @@ export default function HistoryPage() {
         return <XCircle className="h-4 w-4 text-red-600" />
       case 'processing':
         return <Clock className="h-4 w-4 text-blue-600" />
+      case 'partial':
+        return <AlertCircle className="h-4 w-4 text-amber-600" />
+      case 'rolled_back':
+        return <Undo2 className="h-4 w-4 text-muted-foreground" />
       default:
         return <AlertCircle className="h-4 w-4 text-yellow-600" />
     }
@@ -63,15 +130,26 @@ export default function HistoryPage() {
         return <Badge variant="destructive">Fehlgeschlagen</Badge>
       case 'processing':
         return <Badge variant="secondary" className="bg-blue-100 text-blue-800">Verarbeitung</Badge>
+      case 'partial':
+        return <Badge variant="secondary" className="bg-amber-100 text-amber-800">Teilweise importiert</Badge>
+      case 'rolled_back':
+        return <Badge variant="outline">Rückgängig gemacht</Badge>
       default:
         return <Badge variant="outline">{status}</Badge>
     }
   }
 
   const getProcessingStats = (upload: Upload) => {
+    if (upload.status === 'processing') {
+      return upload.progress_total
+        ? <div className="text-sm">{upload.progress_processed || 0} von {upload.progress_total}</div>
+        : '-'
+    }
+
     const imported = upload.rows_imported || 0
     const updated = upload.rows_updated || 0
-    const total = imported + updated
+    const unchanged = upload.rows_unchanged || 0
+    const total = imported + updated + unchanged
     
     if (total === 0) return '-'
     
@@ -82,6 +160,8 @@ export default function HistoryPage() {
           {imported > 0 && `${imported} neu`}
           {imported > 0 && updated > 0 && ', '}
           {updated > 0 && `${updated} aktualisiert`}
+          {(imported > 0 || updated > 0) && unchanged > 0 && ', '}
+          {unchanged > 0 && `${unchanged} unverändert`}
         </div>
       </div>
     )
@@ -96,6 +176,12 @@ export default function HistoryPage() {
         </p>
       </div>
 
+      {actionMessage && (
+        <Alert variant={actionMessage.type === 'error' ? 'destructive' : 'default'}>
+          <AlertDescription>{actionMessage.text}</AlertDescription>
+        </Alert>
+      )}
+
       <div className="grid gap-6">
         <Card>
           <CardHeader>
@@ -121,6 +207,7 @@ export default function HistoryPage() {
                     <TableHead>Verarbeitet</TableHead>
                     <TableHead>Upload-Zeit</TableHead>
                     <TableHead>Fehler</TableHead>
+                    <TableHead>Aktionen</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -136,16 +223,17 @@ export default function HistoryPage() {
                         <div className="flex items-center gap-2">
                           <FileText className="h-4 w-4 text-muted-foreground" />
                           {upload.filename}
+                          {upload.source && upload.source !== 'manual' && (
+                            <Badge variant="outline">{sourceLabels[upload.source] || upload.source}</Badge>
+                          )}
                         </div>
                         {upload.file_url && (
                           <div className="text-xs text-muted-foreground mt-1">
-                            <a 
-                              href={upload.file_url} 
-                              target="_blank" 
-                              rel="noopener noreferrer"
+                            <a
+                              href={getUploadFileUrl(upload.id)}
                               className="hover:underline"
                             >
-                              Datei anzeigen
+                              Datei herunterladen
                             </a>
                           </div>
                         )}
@@ -166,12 +254,45 @@ export default function HistoryPage() {
                         ) : (
                           <span className="text-muted-foreground">-</span>
                         )}
+                        {upload.rolled_back_at && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            Rückgängig gemacht am {formatDate(upload.rolled_back_at)}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {upload.status !== 'rolled_back' && !isUploadProcessing(upload) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleRollback(upload)}
+                              disabled={busyUploadId !== null}
+                              className="flex items-center gap-1"
+                            >
+                              <Undo2 className="h-3 w-3" />
+                              Rückgängig machen
+                            </Button>
+                          )}
+                          {upload.file_url && !isUploadProcessing(upload) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleReprocess(upload)}
+                              disabled={busyUploadId !== null}
+                              className="flex items-center gap-1"
+                            >
+                              <RefreshCw className={`h-3 w-3 ${busyUploadId === upload.id ? 'animate-spin' : ''}`} />
+                              Erneut verarbeiten
+                            </Button>
+                          )}
+                        </div>
                       </TableCell>
                     </TableRow>
                   ))}
                   {uploads.length === 0 && (
                     <TableRow>
-                      <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                      <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
                         Noch keine Uploads durchgeführt. Starten Sie Ihren ersten CSV-Import über die Upload-Seite.
                       </TableCell>
                     </TableRow>
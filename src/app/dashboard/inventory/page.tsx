@@ -0,0 +1,480 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { useFarmStore } from '@/lib/stores/farm-store'
+import { useSuppliers } from '@/lib/hooks/queries'
+import { Plus, ClipboardCheck, Warehouse, Trash2, List } from 'lucide-react'
+import {
+  getInventoryData,
+  createDelivery,
+  deleteDelivery,
+  createStockTake,
+  deleteStockTake,
+  setLowStockThreshold,
+  type InventoryData
+} from '@/lib/services/inventory-service'
+import {
+  buildStockLedger,
+  calculateStockStatus,
+  STOCK_MOVEMENT_LABELS,
+  type StockLedgerEntry
+} from '@/lib/utils/stock-ledger'
+import { hasConversionFactor } from '@/lib/utils/units'
+
+const NO_SUPPLIER = '__none__'
+
+const parseNumber = (value: string) => parseFloat(value.replace(',', '.'))
+
+export default function InventoryPage() {
+  const [inventory, setInventory] = useState<InventoryData | null>(null)
+  const [showDeliveryDialog, setShowDeliveryDialog] = useState(false)
+  const [showStockTakeDialog, setShowStockTakeDialog] = useState(false)
+  const [ledgerFeedTypeId, setLedgerFeedTypeId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const { currentFarmId } = useFarmStore()
+  const { data: suppliers = [] } = useSuppliers(currentFarmId)
+
+  // Form state
+  const today = new Date().toISOString().split('T')[0]
+  const [feedTypeId, setFeedTypeId] = useState('')
+  const [supplierId, setSupplierId] = useState(NO_SUPPLIER)
+  const [date, setDate] = useState(today)
+  const [quantity, setQuantity] = useState('')
+  const [pricePerUnit, setPricePerUnit] = useState('')
+  const [deliveryNote, setDeliveryNote] = useState('')
+  const [notes, setNotes] = useState('')
+
+  useEffect(() => {
+    if (currentFarmId) {
+      loadInventory()
+    }
+  }, [currentFarmId])
+
+  const loadInventory = async () => {
+    try {
+      setInventory(await getInventoryData(currentFarmId!))
+    } catch (error) {
+      console.error('Error loading inventory:', error)
+    }
+  }
+
+  const ledgers = useMemo(() => {
+    const result = new Map<string, StockLedgerEntry[]>()
+    inventory?.feedTypes.forEach(feedType => {
+      result.set(feedType.id, buildStockLedger(feedType.id, inventory, feedType))
+    })
+    return result
+  }, [inventory])
+
+  const stockRows = useMemo(() => (inventory?.feedTypes || []).map(feedType => ({
+    feedType,
+    status: calculateStockStatus(feedType.id, ledgers.get(feedType.id) || [], {
+      today,
+      lowStockThreshold: feedType.low_stock_threshold
+    })
+  })), [inventory, ledgers, today])
+
+  const resetForm = () => {
+    setFeedTypeId('')
+    setSupplierId(NO_SUPPLIER)
+    setDate(today)
+    setQuantity('')
+    setPricePerUnit('')
+    setDeliveryNote('')
+    setNotes('')
+  }
+
+  const handleSaveDelivery = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+
+    try {
+      await createDelivery(currentFarmId!, {
+        feedTypeId,
+        supplierId: supplierId === NO_SUPPLIER ? null : supplierId,
+        deliveryDate: date,
+        quantity: parseNumber(quantity),
+        pricePerUnit: pricePerUnit ? parseNumber(pricePerUnit) : null,
+        deliveryNote: deliveryNote || null,
+        notes: notes || null
+      })
+      setShowDeliveryDialog(false)
+      resetForm()
+      loadInventory()
+    } catch (error) {
+      console.error('Error saving delivery:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSaveStockTake = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+
+    try {
+      await createStockTake(currentFarmId!, {
+        feedTypeId,
+        date,
+        countedQuantity: parseNumber(quantity),
+        notes: notes || null
+      })
+      setShowStockTakeDialog(false)
+      resetForm()
+      loadInventory()
+    } catch (error) {
+      console.error('Error saving stock-take:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleThresholdChange = async (id: string, value: string) => {
+    const threshold = value.trim() ? parseNumber(value) : null
+    if (threshold !== null && isNaN(threshold)) return
+
+    try {
+      await setLowStockThreshold(id, threshold)
+      loadInventory()
+    } catch (error) {
+      console.error('Error saving low stock threshold:', error)
+    }
+  }
+
+  const handleDeleteEntry = async (entry: StockLedgerEntry) => {
+    if (!entry.referenceId) return
+    if (!confirm(`Möchten Sie diese ${STOCK_MOVEMENT_LABELS[entry.type]} wirklich löschen?`)) {
+      return
+    }
+
+    try {
+      if (entry.type === 'delivery') {
+        await deleteDelivery(entry.referenceId)
+      } else {
+        await deleteStockTake(entry.referenceId)
+      }
+      loadInventory()
+    } catch (error) {
+      console.error('Error deleting stock movement:', error)
+    }
+  }
+
+  const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('de-DE')
+  const formatQuantity = (value: number) => value.toLocaleString('de-DE', { maximumFractionDigits: 0 })
+
+  const ledgerFeedType = inventory?.feedTypes.find(ft => ft.id === ledgerFeedTypeId)
+  const ledgerEntries = ledgerFeedTypeId ? [...(ledgers.get(ledgerFeedTypeId) || [])].reverse() : []
+  const deliveryById = new Map((inventory?.deliveries || []).map(delivery => [delivery.id, delivery]))
+
+  const renderFeedTypeSelect = () => (
+    <div className="space-y-2">
+      <Label>Futtermittel *</Label>
+      <Select value={feedTypeId} onValueChange={setFeedTypeId} disabled={loading}>
+        <SelectTrigger>
+          <SelectValue placeholder="Futtermittel wählen" />
+        </SelectTrigger>
+        <SelectContent>
+          {(inventory?.feedTypes || []).map(ft => (
+            <SelectItem key={ft.id} value={ft.id}>{ft.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Lagerbestand</h2>
+          <p className="text-muted-foreground">
+            Bestand je Futtermittel aus Lieferungen, Verbrauch und Inventuren
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => {
+              resetForm()
+              setShowStockTakeDialog(true)
+            }}
+            className="flex items-center gap-2"
+          >
+            <ClipboardCheck className="h-4 w-4" />
+            Inventur erfassen
+          </Button>
+          <Button
+            onClick={() => {
+              resetForm()
+              setShowDeliveryDialog(true)
+            }}
+            className="flex items-center gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            Lieferung erfassen
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Warehouse className="h-5 w-5" />
+            Bestand je Futtermittel
+          </CardTitle>
+          <CardDescription>
+            Der Bestand wird ab der ersten Lieferung oder Inventur geführt. Die Reichweite basiert auf
+            dem durchschnittlichen Verbrauch der letzten 14 Tage.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Futtermittel</TableHead>
+                <TableHead className="text-right">Bestand</TableHead>
+                <TableHead className="text-right">Ø Verbrauch/Tag</TableHead>
+                <TableHead className="text-right">Reichweite</TableHead>
+                <TableHead>Mindestbestand</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Aktionen</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stockRows.map(({ feedType, status }) => (
+                <TableRow key={feedType.id}>
+                  <TableCell className="font-medium">{feedType.name}</TableCell>
+                  <TableCell className="text-right">
+                    {status.trackedSince ? `${formatQuantity(status.currentStock)} ${feedType.unit || 'kg'}` : '-'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {status.trackedSince ? `${formatQuantity(status.averageDailyConsumption)} ${feedType.unit || 'kg'}` : '-'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {status.daysOfCover !== null ? `${Math.floor(status.daysOfCover)} Tage` : '-'}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      key={`${feedType.id}-${feedType.low_stock_threshold}`}
+                      className="w-28"
+                      inputMode="decimal"
+                      defaultValue={feedType.low_stock_threshold ?? ''}
+                      onBlur={(e) => {
+                        if (e.target.value !== String(feedType.low_stock_threshold ?? '')) {
+                          handleThresholdChange(feedType.id, e.target.value)
+                        }
+                      }}
+                      placeholder={feedType.unit || 'kg'}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {!hasConversionFactor(feedType) ? (
+                      <Badge variant="outline" className="text-amber-600">Umrechnungsfaktor fehlt</Badge>
+                    ) : !status.trackedSince ? (
+                      <Badge variant="outline">Nicht erfasst</Badge>
+                    ) : status.lowStock ? (
+                      <Badge variant="destructive">Nachbestellen</Badge>
+                    ) : (
+                      <Badge variant="default" className="bg-green-100 text-green-800">Ausreichend</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setLedgerFeedTypeId(feedType.id)}
+                      disabled={!status.trackedSince}
+                      className="flex items-center gap-1"
+                    >
+                      <List className="h-3 w-3" />
+                      Buchungen
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {stockRows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    Noch keine Futtermittel angelegt.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!ledgerFeedTypeId} onOpenChange={(open) => !open && setLedgerFeedTypeId(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Lagerbuchungen: {ledgerFeedType?.name}</DialogTitle>
+            <DialogDescription>
+              Verbrauch wird je Tag aus den importierten Verbrauchsdaten gebucht
+            </DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="h-[400px]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Datum</TableHead>
+                  <TableHead>Buchung</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead className="text-right">Menge</TableHead>
+                  <TableHead className="text-right">Bestand</TableHead>
+                  <TableHead className="w-[50px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ledgerEntries.map((entry, index) => {
+                  const delivery = entry.type === 'delivery' && entry.referenceId ? deliveryById.get(entry.referenceId) : null
+                  return (
+                    <TableRow key={index}>
+                      <TableCell>{formatDate(entry.date)}</TableCell>
+                      <TableCell>
+                        <Badge variant={entry.type === 'consumption' ? 'outline' : 'secondary'}>
+                          {STOCK_MOVEMENT_LABELS[entry.type]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {delivery && [
+                          delivery.suppliers?.name,
+                          delivery.delivery_note && `Lieferschein ${delivery.delivery_note}`,
+                          delivery.price_per_unit !== null && `${delivery.price_per_unit.toLocaleString('de-DE')} €/${ledgerFeedType?.unit || 'kg'}`
+                        ].filter(Boolean).join(' · ')}
+                      </TableCell>
+                      <TableCell className={`text-right ${entry.quantity < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                        {entry.quantity > 0 ? '+' : ''}{formatQuantity(entry.quantity)}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{formatQuantity(entry.balance)}</TableCell>
+                      <TableCell>
+                        {entry.referenceId && (
+                          <Button variant="ghost" size="sm" onClick={() => handleDeleteEntry(entry)} aria-label="Buchung löschen">
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showDeliveryDialog} onOpenChange={setShowDeliveryDialog}>
+        <DialogContent className="max-w-lg">
+          <form onSubmit={handleSaveDelivery}>
+            <DialogHeader>
+              <DialogTitle>Lieferung erfassen</DialogTitle>
+              <DialogDescription>Die gelieferte Menge wird dem Bestand zugebucht</DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4 py-4">
+              {renderFeedTypeSelect()}
+
+              <div className="space-y-2">
+                <Label>Lieferant</Label>
+                <Select value={supplierId} onValueChange={setSupplierId} disabled={loading}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SUPPLIER}>Ohne Lieferant</SelectItem>
+                    {suppliers.map((supplier: { id: string; name: string }) => (
+                      <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="delivery-date">Lieferdatum *</Label>
+                  <Input id="delivery-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} required disabled={loading} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="delivery-quantity">Menge *</Label>
+                  <Input id="delivery-quantity" inputMode="decimal" value={quantity} onChange={(e) => setQuantity(e.target.value)} placeholder="kg" required disabled={loading} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="delivery-price">Preis je Einheit</Label>
+                  <Input id="delivery-price" inputMode="decimal" value={pricePerUnit} onChange={(e) => setPricePerUnit(e.target.value)} placeholder="€" disabled={loading} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="delivery-note">Lieferschein-Nr.</Label>
+                  <Input id="delivery-note" value={deliveryNote} onChange={(e) => setDeliveryNote(e.target.value)} disabled={loading} />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="delivery-notes">Notizen</Label>
+                <Input id="delivery-notes" value={notes} onChange={(e) => setNotes(e.target.value)} disabled={loading} />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowDeliveryDialog(false)} disabled={loading}>
+                Abbrechen
+              </Button>
+              <Button type="submit" disabled={loading || !feedTypeId || !(parseNumber(quantity) > 0)}>
+                {loading ? 'Wird gespeichert...' : 'Speichern'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showStockTakeDialog} onOpenChange={setShowStockTakeDialog}>
+        <DialogContent className="max-w-lg">
+          <form onSubmit={handleSaveStockTake}>
+            <DialogHeader>
+              <DialogTitle>Inventur erfassen</DialogTitle>
+              <DialogDescription>
+                Der gezählte Bestand ersetzt den berechneten Bestand am Ende des Tages
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4 py-4">
+              {renderFeedTypeSelect()}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="stock-take-date">Datum *</Label>
+                  <Input id="stock-take-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} required disabled={loading} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="stock-take-quantity">Gezählter Bestand *</Label>
+                  <Input id="stock-take-quantity" inputMode="decimal" value={quantity} onChange={(e) => setQuantity(e.target.value)} placeholder="kg" required disabled={loading} />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="stock-take-notes">Notizen</Label>
+                <Input id="stock-take-notes" value={notes} onChange={(e) => setNotes(e.target.value)} disabled={loading} />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowStockTakeDialog(false)} disabled={loading}>
+                Abbrechen
+              </Button>
+              <Button type="submit" disabled={loading || !feedTypeId || !(parseNumber(quantity) >= 0)}>
+                {loading ? 'Wird gespeichert...' : 'Speichern'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,274 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { useFarmStore } from '@/lib/stores/farm-store'
+import { AlertTriangle, CheckCircle, Plus, SlidersHorizontal } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  getPriceGapData,
+  createPriceTierForGap,
+  setPriceFallbackPolicy,
+  type PriceGapData,
+  type PriceGapFeedType
+} from '@/lib/services/price-gap-service'
+import {
+  estimatePrice,
+  findPriceGaps,
+  PRICE_FALLBACK_POLICY_LABELS,
+  type PriceFallbackPolicy,
+  type PriceGap
+} from '@/lib/utils/price-gaps'
+
+const gapKey = (gap: PriceGap) => `${gap.feedTypeId}|${gap.start}`
+
+export default function PriceGapsPage() {
+  const [gapData, setGapData] = useState<PriceGapData | null>(null)
+  const [since, setSince] = useState(() => {
+    const date = new Date()
+    date.setFullYear(date.getFullYear() - 1)
+    return date.toISOString().split('T')[0]
+  })
+  const [priceInputs, setPriceInputs] = useState<Record<string, string>>({})
+  const [savingKey, setSavingKey] = useState<string | null>(null)
+  const { currentFarmId } = useFarmStore()
+
+  useEffect(() => {
+    if (currentFarmId && since) {
+      loadGaps()
+    }
+  }, [currentFarmId, since])
+
+  const loadGaps = async () => {
+    try {
+      setGapData(await getPriceGapData(currentFarmId!, since))
+    } catch (error) {
+      console.error('Error loading price gaps:', error)
+    }
+  }
+
+  const feedTypeById = useMemo(
+    () => new Map((gapData?.feedTypes || []).map(feedType => [feedType.id, feedType])),
+    [gapData]
+  )
+
+  const gaps = useMemo(
+    () => gapData ? findPriceGaps(gapData.consumption, gapData.priceTiers) : [],
+    [gapData]
+  )
+
+  // Suggest the feed type's estimate, or an interpolated price without a policy
+  const suggestedPrice = (gap: PriceGap) => {
+    const feedType = feedTypeById.get(gap.feedTypeId)
+    const policy = (feedType?.price_fallback_policy as PriceFallbackPolicy) || 'none'
+    return estimatePrice(
+      gap.feedTypeId,
+      gap.start,
+      gapData?.priceTiers || [],
+      policy === 'none' ? 'interpolate' : policy,
+      feedType?.reference_price ?? null
+    )
+  }
+
+  const handleCreateTier = async (gap: PriceGap) => {
+    const key = gapKey(gap)
+    const suggestion = suggestedPrice(gap)
+    const value = priceInputs[key] ?? (suggestion !== null ? String(suggestion) : '')
+    const price = parseFloat(value.replace(',', '.'))
+    if (isNaN(price) || price < 0) {
+      toast.error('Bitte einen gültigen Preis eingeben')
+      return
+    }
+
+    setSavingKey(key)
+    try {
+      await createPriceTierForGap(currentFarmId!, gap, price)
+      toast.success('Preisstaffel angelegt')
+      loadGaps()
+    } catch (error) {
+      console.error('Error creating price tier:', error)
+      toast.error('Preisstaffel konnte nicht angelegt werden')
+    } finally {
+      setSavingKey(null)
+    }
+  }
+
+  const handlePolicyChange = async (feedType: PriceGapFeedType, policy: PriceFallbackPolicy, referencePrice: number | null) => {
+    try {
+      await setPriceFallbackPolicy(feedType.id, policy, referencePrice)
+      loadGaps()
+    } catch (error) {
+      console.error('Error saving price fallback policy:', error)
+      toast.error('Schätzregel konnte nicht gespeichert werden')
+    }
+  }
+
+  const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('de-DE')
+  const formatQuantity = (value: number) => value.toLocaleString('de-DE', { maximumFractionDigits: 0 })
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-end">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Preislücken</h2>
+          <p className="text-muted-foreground">
+            Verbrauch ohne gültige Preisstaffel und Schätzregeln je Futtermittel
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="since">Verbrauch ab</Label>
+          <Input id="since" type="date" value={since} onChange={(e) => setSince(e.target.value)} className="w-44" />
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5" />
+            Zeiträume ohne Preis
+          </CardTitle>
+          <CardDescription>
+            Ohne Preisstaffel wird der Verbrauch mit der Schätzregel des Futtermittels oder mit 0 € bewertet.
+            Eine Preisstaffel für den Zeitraum schließt die Lücke.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {gaps.length === 0 ? (
+            <div className="flex items-center gap-2 py-8 justify-center text-muted-foreground">
+              <CheckCircle className="h-5 w-5 text-green-600" />
+              Für den gesamten Verbrauch ist ein Preis hinterlegt.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Futtermittel</TableHead>
+                  <TableHead>Zeitraum</TableHead>
+                  <TableHead className="text-right">Tage</TableHead>
+                  <TableHead className="text-right">Menge</TableHead>
+                  <TableHead>Bewertung</TableHead>
+                  <TableHead>Preis je Einheit</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {gaps.map(gap => {
+                  const key = gapKey(gap)
+                  const feedType = feedTypeById.get(gap.feedTypeId)
+                  const policy = (feedType?.price_fallback_policy as PriceFallbackPolicy) || 'none'
+                  const suggestion = suggestedPrice(gap)
+                  return (
+                    <TableRow key={key}>
+                      <TableCell className="font-medium">{feedType?.name || 'Unbekannt'}</TableCell>
+                      <TableCell>{formatDate(gap.start)} – {formatDate(gap.end)}</TableCell>
+                      <TableCell className="text-right">{gap.days}</TableCell>
+                      <TableCell className="text-right">{formatQuantity(gap.quantity)} {feedType?.unit || 'kg'}</TableCell>
+                      <TableCell>
+                        {policy === 'none' ? (
+                          <Badge variant="destructive">0 €</Badge>
+                        ) : (
+                          <Badge variant="secondary">Geschätzt: {PRICE_FALLBACK_POLICY_LABELS[policy]}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          className="w-28"
+                          inputMode="decimal"
+                          placeholder="€"
+                          value={priceInputs[key] ?? (suggestion !== null ? String(Math.round(suggestion * 1000) / 1000) : '')}
+                          onChange={(e) => setPriceInputs(prev => ({ ...prev, [key]: e.target.value }))}
+                          disabled={savingKey === key}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          size="sm"
+                          onClick={() => handleCreateTier(gap)}
+                          disabled={savingKey === key}
+                          className="flex items-center gap-1"
+                        >
+                          <Plus className="h-3 w-3" />
+                          Preisstaffel anlegen
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5" />
+            Schätzregeln
+          </CardTitle>
+          <CardDescription>
+            Geschätzte Kosten werden in Auswertungen und Berichten als geschätzt ausgewiesen
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Futtermittel</TableHead>
+                <TableHead>Schätzregel</TableHead>
+                <TableHead>Referenzpreis</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(gapData?.feedTypes || []).map(feedType => {
+                const policy = (feedType.price_fallback_policy as PriceFallbackPolicy) || 'none'
+                return (
+                  <TableRow key={feedType.id}>
+                    <TableCell className="font-medium">{feedType.name}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={policy}
+                        onValueChange={(value) => handlePolicyChange(feedType, value as PriceFallbackPolicy, feedType.reference_price)}
+                      >
+                        <SelectTrigger className="w-56">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(PRICE_FALLBACK_POLICY_LABELS) as PriceFallbackPolicy[]).map(option => (
+                            <SelectItem key={option} value={option}>{PRICE_FALLBACK_POLICY_LABELS[option]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        key={`${feedType.id}-${feedType.reference_price}`}
+                        className="w-28"
+                        inputMode="decimal"
+                        placeholder={`€/${feedType.unit || 'kg'}`}
+                        defaultValue={feedType.reference_price ?? ''}
+                        onBlur={(e) => {
+                          const value = e.target.value.trim()
+                          const referencePrice = value ? parseFloat(value.replace(',', '.')) : null
+                          if (referencePrice !== feedType.reference_price && (referencePrice === null || !isNaN(referencePrice))) {
+                            handlePolicyChange(feedType, policy, referencePrice)
+                          }
+                        }}
+                      />
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,436 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { useFarmStore } from '@/lib/stores/farm-store'
+import { AlertTriangle, CalendarRange, Scale, Trash2, TrendingUp } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  getPricePlanningData,
+  saveBudgetPrices,
+  deleteBudgetPrice,
+  type PricePlanningData
+} from '@/lib/services/budget-price-service'
+import {
+  addMonths,
+  monthsBetween,
+  monthlyAveragePrices,
+  forecastPrices,
+  distributeFeedDemand,
+  calculatePriceScenarios,
+  PRICE_SCENARIOS,
+  PRICE_SCENARIO_LABELS,
+  type BudgetPrice,
+  type PriceScenario
+} from '@/lib/utils/price-scenarios'
+import { calculateTotalAnimalsFromDetails } from '@/lib/utils/livestock-calculations'
+import { formatUnit } from '@/lib/utils/units'
+
+const PLANNING_MONTHS = 12
+const HISTORY_MONTHS = 24
+const CUSTOM_PLAN = 'custom'
+
+type PriceInputs = Record<string, Record<PriceScenario, string>>
+
+const currentMonth = () => new Date().toISOString().slice(0, 7) + '-01'
+
+export default function PricePlanningPage() {
+  const [planningData, setPlanningData] = useState<PricePlanningData | null>(null)
+  const [feedTypeId, setFeedTypeId] = useState('')
+  const [priceInputs, setPriceInputs] = useState<PriceInputs>({})
+  const [saving, setSaving] = useState(false)
+  const { currentFarmId } = useFarmStore()
+
+  // Scenario inputs
+  const [cycleId, setCycleId] = useState(CUSTOM_PLAN)
+  const [animals, setAnimals] = useState('')
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
+  const [weightGain, setWeightGain] = useState('')
+  const [feedConversionRatio, setFeedConversionRatio] = useState('')
+  const [buyPrice, setBuyPrice] = useState('')
+  const [sellPrice, setSellPrice] = useState('')
+
+  useEffect(() => {
+    if (currentFarmId) {
+      loadPlanningData()
+    }
+  }, [currentFarmId])
+
+  const loadPlanningData = async () => {
+    try {
+      const data = await getPricePlanningData(currentFarmId!)
+      setPlanningData(data)
+      setFeedTypeId(prev => prev || data.feedTypes[0]?.id || '')
+    } catch (error) {
+      console.error('Error loading price planning data:', error)
+    }
+  }
+
+  const planningMonths = useMemo(() => {
+    const first = currentMonth()
+    return monthsBetween(first, addMonths(first, PLANNING_MONTHS - 1))
+  }, [])
+
+  const forecast = useMemo(() => {
+    if (!planningData || !feedTypeId) return []
+    const first = currentMonth()
+    const history = monthlyAveragePrices(planningData.priceTiers, feedTypeId, addMonths(first, -HISTORY_MONTHS), first)
+    return forecastPrices(history, planningMonths)
+  }, [planningData, feedTypeId, planningMonths])
+
+  const savedPrices = useMemo(
+    () => (planningData?.budgetPrices || []).filter(price => price.feed_type_id === feedTypeId),
+    [planningData, feedTypeId]
+  )
+
+  // Show the saved budget prices of the selected feed type
+  useEffect(() => {
+    const inputs: PriceInputs = {}
+    savedPrices.forEach(price => {
+      inputs[price.month.slice(0, 7) + '-01'] = {
+        best: String(price.price_best),
+        expected: String(price.price_expected),
+        worst: String(price.price_worst)
+      }
+    })
+    setPriceInputs(inputs)
+  }, [savedPrices])
+
+  const currentPrices = useMemo(() => {
+    const prices: Record<string, number> = {}
+    planningData?.feedTypes.forEach(feedType => {
+      const [current] = monthlyAveragePrices(planningData.priceTiers, feedType.id, currentMonth(), currentMonth())
+      if (current?.price != null) prices[feedType.id] = current.price
+    })
+    return prices
+  }, [planningData])
+
+  const selectedFeedType = planningData?.feedTypes.find(feedType => feedType.id === feedTypeId)
+
+  const updatePriceInput = (month: string, scenario: PriceScenario, value: string) => {
+    setPriceInputs(prev => ({
+      ...prev,
+      [month]: { ...(prev[month] || { best: '', expected: '', worst: '' }), [scenario]: value }
+    }))
+  }
+
+  const applyForecast = () => {
+    const inputs: PriceInputs = { ...priceInputs }
+    forecast.forEach(entry => {
+      inputs[entry.month] = {
+        best: entry.best.toFixed(4),
+        expected: entry.expected.toFixed(4),
+        worst: entry.worst.toFixed(4)
+      }
+    })
+    setPriceInputs(inputs)
+  }
+
+  const handleSave = async () => {
+    const prices: BudgetPrice[] = []
+    for (const [month, input] of Object.entries(priceInputs)) {
+      const values = PRICE_SCENARIOS.map(scenario => parseFloat((input[scenario] || '').replace(',', '.')))
+      if (values.every(value => isNaN(value))) continue
+      if (values.some(value => isNaN(value) || value < 0)) {
+        toast.error(`Bitte alle drei Preise für ${formatMonth(month)} eingeben`)
+        return
+      }
+      const [best, expected, worst] = values
+      if (best > expected || expected > worst) {
+        toast.error(`Für ${formatMonth(month)} muss gelten: günstig ≤ erwartet ≤ teuer`)
+        return
+      }
+      prices.push({ feed_type_id: feedTypeId, month, price_best: best, price_expected: expected, price_worst: worst })
+    }
+
+    setSaving(true)
+    try {
+      await saveBudgetPrices(currentFarmId!, prices)
+      toast.success('Budgetpreise gespeichert')
+      loadPlanningData()
+    } catch (error) {
+      console.error('Error saving budget prices:', error)
+      toast.error('Budgetpreise konnten nicht gespeichert werden')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (month: string) => {
+    const saved = savedPrices.find(price => price.month.slice(0, 7) === month.slice(0, 7))
+    if (!saved) return
+    try {
+      await deleteBudgetPrice(saved.id)
+      loadPlanningData()
+    } catch (error) {
+      console.error('Error deleting budget price:', error)
+      toast.error('Budgetpreis konnte nicht gelöscht werden')
+    }
+  }
+
+  const handleCycleChange = (value: string) => {
+    setCycleId(value)
+    const cycle = planningData?.plannedCycles.find(c => c.id === value)
+    if (!cycle) return
+
+    const startWeight = cycle.expected_weight_per_animal
+    const endWeight = cycle.actual_weight_per_animal
+    setAnimals(String(calculateTotalAnimalsFromDetails(cycle.livestock_count_details, cycle.start_date, cycle.end_date)))
+    setStartDate(cycle.start_date)
+    setEndDate(cycle.end_date || '')
+    setWeightGain(startWeight != null && endWeight != null ? String(endWeight - startWeight) : '')
+    setFeedConversionRatio(cycle.feed_conversion_ratio != null ? String(cycle.feed_conversion_ratio) : '')
+    setBuyPrice(cycle.buy_price_per_animal != null ? String(cycle.buy_price_per_animal) : '')
+    setSellPrice(cycle.sell_price_per_animal != null ? String(cycle.sell_price_per_animal) : '')
+  }
+
+  const scenarios = useMemo(() => {
+    const totalAnimals = parseInt(animals)
+    const gain = parseFloat(weightGain.replace(',', '.'))
+    const fcr = parseFloat(feedConversionRatio.replace(',', '.'))
+    if (!planningData || isNaN(totalAnimals) || totalAnimals <= 0 || isNaN(gain) || isNaN(fcr) || !startDate || !endDate) {
+      return null
+    }
+
+    const demand = distributeFeedDemand(startDate, endDate, totalAnimals * gain * fcr, planningData.feedShares)
+    return calculatePriceScenarios({
+      totalAnimals,
+      buyPricePerAnimal: buyPrice ? parseFloat(buyPrice.replace(',', '.')) : null,
+      sellPricePerAnimal: sellPrice ? parseFloat(sellPrice.replace(',', '.')) : null,
+      demand,
+      budgetPrices: planningData.budgetPrices,
+      currentPrices
+    })
+  }, [planningData, animals, startDate, endDate, weightGain, feedConversionRatio, buyPrice, sellPrice, currentPrices])
+
+  const formatMonth = (month: string) =>
+    new Date(month).toLocaleDateString('de-DE', { month: 'long', year: 'numeric' })
+  const formatPrice = (value: number) =>
+    value.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 4 })
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' }).format(value)
+
+  const totalAnimals = parseInt(animals)
+  const fallbackUsed = scenarios && PRICE_SCENARIOS.some(scenario => scenarios[scenario].fallbackQuantity > 0)
+  const unpricedUsed = scenarios && scenarios.expected.unpricedQuantity > 0
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold tracking-tight">Preisplanung</h2>
+        <p className="text-muted-foreground">
+          Budgetpreise für die kommenden Monate festlegen und geplante Durchgänge in Preisszenarien rechnen
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarRange className="h-5 w-5" />
+              Budgetpreise
+            </CardTitle>
+            <CardDescription>
+              Preise je {formatUnit(selectedFeedType?.unit)} für günstige, erwartete und teure Entwicklung.
+              Der Trend wird aus den Preisstaffeln der letzten {HISTORY_MONTHS} Monate fortgeschrieben.
+            </CardDescription>
+          </div>
+          <Select value={feedTypeId} onValueChange={setFeedTypeId}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Futtermittel wählen" />
+            </SelectTrigger>
+            <SelectContent>
+              {planningData?.feedTypes.map(feedType => (
+                <SelectItem key={feedType.id} value={feedType.id}>{feedType.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Monat</TableHead>
+                <TableHead className="text-right">Trend</TableHead>
+                {PRICE_SCENARIOS.map(scenario => (
+                  <TableHead key={scenario}>{PRICE_SCENARIO_LABELS[scenario]}</TableHead>
+                ))}
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {planningMonths.map(month => {
+                const trend = forecast.find(entry => entry.month === month)
+                const isSaved = savedPrices.some(price => price.month.slice(0, 7) === month.slice(0, 7))
+                return (
+                  <TableRow key={month}>
+                    <TableCell className="font-medium">
+                      {formatMonth(month)}
+                      {isSaved && <Badge variant="secondary" className="ml-2">Gespeichert</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {trend ? `${formatPrice(trend.expected)} €` : '-'}
+                    </TableCell>
+                    {PRICE_SCENARIOS.map(scenario => (
+                      <TableCell key={scenario}>
+                        <Input
+                          inputMode="decimal"
+                          className="w-28"
+                          value={priceInputs[month]?.[scenario] || ''}
+                          onChange={(e) => updatePriceInput(month, scenario, e.target.value)}
+                        />
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      {isSaved && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(month)}
+                          className="text-red-600 hover:text-red-700"
+                          aria-label="Budgetpreis löschen"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={applyForecast} disabled={forecast.length === 0}>
+              <TrendingUp className="h-4 w-4 mr-2" />
+              Trend übernehmen
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !feedTypeId}>
+              {saving ? 'Wird gespeichert...' : 'Budgetpreise speichern'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Preisszenarien
+          </CardTitle>
+          <CardDescription>
+            Futterbedarf = Tiere × Zunahme × Futterverwertung, verteilt nach dem Futtermix der letzten 12 Monate
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label>Durchgang</Label>
+              <Select value={cycleId} onValueChange={handleCycleChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CUSTOM_PLAN}>Eigene Planung</SelectItem>
+                  {planningData?.plannedCycles.map(cycle => (
+                    <SelectItem key={cycle.id} value={cycle.id}>
+                      {cycle.durchgang_name || 'Durchgang'} ab {new Date(cycle.start_date).toLocaleDateString('de-DE')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="planStart">Start</Label>
+              <Input id="planStart" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="planEnd">Ende</Label>
+              <Input id="planEnd" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="planAnimals">Tiere</Label>
+              <Input id="planAnimals" inputMode="numeric" value={animals} onChange={(e) => setAnimals(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="planGain">Zunahme je Tier (kg)</Label>
+              <Input id="planGain" inputMode="decimal" value={weightGain} onChange={(e) => setWeightGain(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="planFcr">Futterverwertung (1:x)</Label>
+              <Input id="planFcr" inputMode="decimal" value={feedConversionRatio} onChange={(e) => setFeedConversionRatio(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="planBuy">Einkauf je Tier (€)</Label>
+              <Input id="planBuy" inputMode="decimal" value={buyPrice} onChange={(e) => setBuyPrice(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="planSell">Verkauf je Tier (€)</Label>
+              <Input id="planSell" inputMode="decimal" value={sellPrice} onChange={(e) => setSellPrice(e.target.value)} />
+            </div>
+          </div>
+
+          {planningData && planningData.feedShares.length === 0 && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Ohne Verbrauch in den letzten 12 Monaten ist kein Futtermix bekannt.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {scenarios ? (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Szenario</TableHead>
+                    <TableHead className="text-right">Futterkosten</TableHead>
+                    <TableHead className="text-right">Futterkosten je Tier</TableHead>
+                    <TableHead className="text-right">Ergebnis</TableHead>
+                    <TableHead className="text-right">Ergebnis je Tier</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {PRICE_SCENARIOS.map(scenario => {
+                    const result = scenarios[scenario]
+                    return (
+                      <TableRow key={scenario}>
+                        <TableCell className="font-medium">{PRICE_SCENARIO_LABELS[scenario]}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(result.feedCost)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(result.feedCost / totalAnimals)}</TableCell>
+                        <TableCell className={`text-right font-medium ${(result.profitLoss || 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {result.profitLoss !== null ? formatCurrency(result.profitLoss) : '-'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {result.profitLoss !== null ? formatCurrency(result.profitLoss / totalAnimals) : '-'}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+              {(fallbackUsed || unpricedUsed) && (
+                <p className="text-sm text-muted-foreground">
+                  {fallbackUsed && 'Monate ohne Budgetpreis sind mit dem aktuellen Preis gerechnet. '}
+                  {unpricedUsed && 'Futtermittel ohne Budget- und aktuellen Preis sind mit 0 € gerechnet.'}
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Tiere, Zeitraum, Zunahme und Futterverwertung angeben, um die Szenarien zu rechnen.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
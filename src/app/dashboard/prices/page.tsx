@@ -12,8 +12,14 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { FeedSupplierShares } from '@/components/farm/feed-supplier-shares'
+import { PriceListImportDialog } from '@/components/farm/price-list-import-dialog'
+import { PriceHistoryChart } from '@/components/farm/price-history-chart'
 import { useFarmStore } from '@/lib/stores/farm-store'
-import { Plus, Edit, DollarSign, Trash2, Calendar, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react'
+import { findPriceTierConflicts } from '@/lib/utils/feed-calculations'
+import { convertUnitPrice, formatUnit, FEED_UNIT_LABELS, type FeedUnit } from '@/lib/utils/units'
+import { Plus, Edit, DollarSign, Trash2, Calendar, ArrowUpDown, ArrowUp, ArrowDown, AlertTriangle, FileUp } from 'lucide-react'
 import { Tables } from '@/lib/database.types'
 
 type PriceTier = Tables<'price_tiers'>
@@ -33,6 +39,7 @@ export default function PricesPage() {
   const [feedTypes, setFeedTypes] = useState<FeedType[]>([])
   const [suppliers, setSuppliers] = useState<Supplier[]>([])
   const [showCreateDialog, setShowCreateDialog] = useState(false)
+  const [showImportDialog, setShowImportDialog] = useState(false)
   const [editingPriceTier, setEditingPriceTier] = useState<PriceTierWithFeedType | null>(null)
   const [loading, setLoading] = useState(false)
   const [sortField, setSortField] = useState<SortField | null>(null)
@@ -44,6 +51,7 @@ export default function PricesPage() {
   const [feedTypeId, setFeedTypeId] = useState('')
   const [supplierId, setSupplierId] = useState('')
   const [pricePerUnit, setPricePerUnit] = useState('')
+  const [priceUnit, setPriceUnit] = useState('')
   const [validFrom, setValidFrom] = useState('')
   const [validTo, setValidTo] = useState('')
   const [notes, setNotes] = useState('')
@@ -113,6 +121,7 @@ export default function PricesPage() {
             feed_type_id: feedTypeId,
             supplier_id: supplierId || null,
             price_per_unit: parseFloat(pricePerUnit),
+            unit: priceUnit || null,
             valid_from: validFrom,
             valid_to: validTo || null,
             notes: notes || null,
@@ -129,6 +138,7 @@ export default function PricesPage() {
             feed_type_id: feedTypeId,
             supplier_id: supplierId || null,
             price_per_unit: parseFloat(pricePerUnit),
+            unit: priceUnit || null,
             valid_from: validFrom,
             valid_to: validTo || null,
             notes: notes || null,
@@ -171,6 +181,7 @@ export default function PricesPage() {
     setFeedTypeId('')
     setSupplierId('')
     setPricePerUnit('')
+    setPriceUnit('')
     setValidFrom('')
     setValidTo('')
     setNotes('')
@@ -181,6 +192,7 @@ export default function PricesPage() {
     setFeedTypeId(priceTier.feed_type_id)
     setSupplierId(priceTier.supplier_id || '')
     setPricePerUnit(priceTier.price_per_unit.toString())
+    setPriceUnit(priceTier.unit || '')
     setValidFrom(priceTier.valid_from)
     setValidTo(priceTier.valid_to || '')
     setNotes(priceTier.notes || '')
@@ -245,6 +257,10 @@ export default function PricesPage() {
     return <ArrowUpDown className="h-3 w-3 ml-1 opacity-50" />
   }
 
+  const selectedFeedType = feedTypes.find(feedType => feedType.id === feedTypeId)
+  const conflicts = findPriceTierConflicts(priceTiers)
+  const conflictingTierIds = new Set(conflicts.flatMap(conflict => conflict.tierIds))
+
   const getSortedPriceTiers = () => {
     if (!sortField || !sortDirection) return priceTiers
 
@@ -296,21 +312,43 @@ export default function PricesPage() {
             Verwalten Sie Ihre Futtermittelpreise mit zeitabhängigen Staffeln
           </p>
         </div>
-        <Button 
-          onClick={() => {
-            resetForm()
-            setEditingPriceTier(null)
-            setShowCreateDialog(true)
-          }}
-          className="flex items-center gap-2"
-          disabled={feedTypes.length === 0}
-        >
-          <Plus className="h-4 w-4" />
-          Neue Preisstaffel
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setShowImportDialog(true)}
+            className="flex items-center gap-2"
+            disabled={feedTypes.length === 0}
+          >
+            <FileUp className="h-4 w-4" />
+            Preisliste importieren
+          </Button>
+          <Button 
+            onClick={() => {
+              resetForm()
+              setEditingPriceTier(null)
+              setShowCreateDialog(true)
+            }}
+            className="flex items-center gap-2"
+            disabled={feedTypes.length === 0}
+          >
+            <Plus className="h-4 w-4" />
+            Neue Preisstaffel
+          </Button>
+        </div>
       </div>
 
       <div className="grid gap-6">
+        {conflicts.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              {conflicts.length === 1 ? '1 Überschneidung' : `${conflicts.length} Überschneidungen`} bei
+              Preisstaffeln desselben Futtermittels und Lieferanten. Für überschneidende Zeiträume gilt die
+              später beginnende Staffel – bitte Gültigkeiten anpassen.
+            </AlertDescription>
+          </Alert>
+        )}
+
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
@@ -399,7 +437,7 @@ export default function PricesPage() {
                   <TableRow key={priceTier.id}>
                     <TableCell className="font-medium">{priceTier.feed_types.name}</TableCell>
                     <TableCell>{priceTier.suppliers?.name || '-'}</TableCell>
-                    <TableCell>{formatPrice(priceTier.price_per_unit, priceTier.feed_types.unit || 'kg')}</TableCell>
+                    <TableCell>{formatPrice(priceTier.price_per_unit, formatUnit(priceTier.unit || priceTier.feed_types.unit))}</TableCell>
                     <TableCell>
                       <div className="flex items-center gap-1">
                         <Calendar className="h-3 w-3" />
@@ -413,9 +451,14 @@ export default function PricesPage() {
                       </div>
                     </TableCell>
                     <TableCell>
-                      <Badge variant={isCurrentlyActive(priceTier) ? "default" : "secondary"}>
-                        {isCurrentlyActive(priceTier) ? "Aktiv" : "Inaktiv"}
-                      </Badge>
+                      <div className="flex items-center gap-1">
+                        <Badge variant={isCurrentlyActive(priceTier) ? "default" : "secondary"}>
+                          {isCurrentlyActive(priceTier) ? "Aktiv" : "Inaktiv"}
+                        </Badge>
+                        {conflictingTierIds.has(priceTier.id) && (
+                          <Badge variant="destructive">Überschneidung</Badge>
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
@@ -455,6 +498,14 @@ export default function PricesPage() {
             </Table>
           </CardContent>
         </Card>
+
+        {feedTypes.length > 0 && priceTiers.length > 0 && (
+          <PriceHistoryChart priceTiers={priceTiers} feedTypes={feedTypes} suppliers={suppliers} />
+        )}
+
+        {currentFarmId && feedTypes.length > 0 && (
+          <FeedSupplierShares farmId={currentFarmId} feedTypes={feedTypes} suppliers={suppliers} />
+        )}
       </div>
 
       <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
@@ -505,20 +556,49 @@ export default function PricesPage() {
                 </p>
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="pricePerUnit">Preis pro Einheit (€) *</Label>
-                <Input
-                  id="pricePerUnit"
-                  type="number"
-                  step="0.001"
-                  min="0"
-                  value={pricePerUnit}
-                  onChange={(e) => setPricePerUnit(e.target.value)}
-                  placeholder="z.B. 25.500"
-                  required
-                  disabled={loading}
-                />
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="pricePerUnit">Preis pro Einheit (€) *</Label>
+                  <Input
+                    id="pricePerUnit"
+                    type="number"
+                    step="0.001"
+                    min="0"
+                    value={pricePerUnit}
+                    onChange={(e) => setPricePerUnit(e.target.value)}
+                    placeholder="z.B. 25.500"
+                    required
+                    disabled={loading}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="priceUnit">Preiseinheit</Label>
+                  <Select
+                    value={priceUnit || selectedFeedType?.unit || 'kg'}
+                    onValueChange={setPriceUnit}
+                    disabled={loading}
+                  >
+                    <SelectTrigger id="priceUnit">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(FEED_UNIT_LABELS) as FeedUnit[]).map(option => (
+                        <SelectItem key={option} value={option}>{FEED_UNIT_LABELS[option]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
+              {selectedFeedType && priceUnit && pricePerUnit && (() => {
+                const converted = convertUnitPrice(parseFloat(pricePerUnit), priceUnit, selectedFeedType.unit, selectedFeedType)
+                return (
+                  <p className="text-xs text-muted-foreground -mt-2">
+                    {converted === null
+                      ? `Nicht in ${formatUnit(selectedFeedType.unit)} umrechenbar – bitte Sackgewicht bzw. Dichte beim Futtermittel hinterlegen.`
+                      : `Entspricht ${formatPrice(converted, formatUnit(selectedFeedType.unit))}`}
+                  </p>
+                )
+              })()}
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
@@ -578,6 +658,15 @@ export default function PricesPage() {
           </form>
         </DialogContent>
       </Dialog>
+
+      {currentFarmId && (
+        <PriceListImportDialog
+          farmId={currentFarmId}
+          open={showImportDialog}
+          onOpenChange={setShowImportDialog}
+          onImported={loadPriceTiers}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
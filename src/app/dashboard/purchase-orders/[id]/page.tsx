@@ -0,0 +1,129 @@
+'use client'
+
+export const runtime = 'edge'
+
+import { useState, useEffect } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ArrowLeft, Printer } from 'lucide-react'
+import { toast } from 'sonner'
+import { getPurchaseOrder, type PurchaseOrder } from '@/lib/services/purchase-order-service'
+import { formatUnit } from '@/lib/utils/units'
+
+export default function PurchaseOrderDocumentPage() {
+  const params = useParams()
+  const orderId = params.id as string
+  const [order, setOrder] = useState<PurchaseOrder | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadOrder()
+  }, [orderId])
+
+  const loadOrder = async () => {
+    try {
+      setOrder(await getPurchaseOrder(orderId))
+    } catch (error) {
+      console.error('Error loading purchase order:', error)
+      toast.error('Bestellung konnte nicht geladen werden')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('de-DE')
+
+  if (loading) {
+    return <div className="text-muted-foreground">Lade Bestellung...</div>
+  }
+
+  if (!order) {
+    return <div className="text-muted-foreground">Bestellung nicht gefunden.</div>
+  }
+
+  const supplier = order.suppliers
+  const farm = order.farms
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center print:hidden">
+        <Button variant="outline" asChild>
+          <Link href="/dashboard/purchase-orders">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Zurück
+          </Link>
+        </Button>
+        <Button onClick={() => window.print()} className="flex items-center gap-2">
+          <Printer className="h-4 w-4" />
+          Drucken / PDF
+        </Button>
+      </div>
+
+      <Card className="print:border-0 print:shadow-none">
+        <CardContent className="space-y-8 p-8">
+          <div className="flex justify-between">
+            <div className="text-sm">
+              <div className="font-semibold">{farm?.name}</div>
+              {farm?.stall_location && <div>{farm.stall_location}</div>}
+              {farm?.contact_person_name && <div>{farm.contact_person_name}</div>}
+              {farm?.contact_person_phone && <div>Tel. {farm.contact_person_phone}</div>}
+            </div>
+            <div className="text-sm text-right">
+              <div>Datum: {formatDate(order.sent_at || order.created_at || new Date().toISOString())}</div>
+            </div>
+          </div>
+
+          <div className="text-sm">
+            <div className="font-semibold">{supplier?.name || 'Ohne Lieferant'}</div>
+            {supplier?.contact_person && <div>z. Hd. {supplier.contact_person}</div>}
+            {supplier?.street_address && <div>{supplier.street_address}</div>}
+            {(supplier?.postal_code || supplier?.city) && (
+              <div>{[supplier.postal_code, supplier.city].filter(Boolean).join(' ')}</div>
+            )}
+          </div>
+
+          <div>
+            <h2 className="text-2xl font-bold">Bestellung</h2>
+            {order.delivery_date && (
+              <p className="text-sm mt-1">Gewünschte Lieferung bis: {formatDate(order.delivery_date)}</p>
+            )}
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">Pos.</TableHead>
+                <TableHead>Artikel</TableHead>
+                <TableHead className="text-right">Menge</TableHead>
+                <TableHead>Einheit</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {order.purchase_order_items.map((item, index) => (
+                <TableRow key={item.id}>
+                  <TableCell>{index + 1}</TableCell>
+                  <TableCell>{item.feed_types?.name}</TableCell>
+                  <TableCell className="text-right">
+                    {Number(item.quantity).toLocaleString('de-DE', { maximumFractionDigits: 2 })}
+                  </TableCell>
+                  <TableCell>{formatUnit(item.unit || item.feed_types?.unit)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {order.notes && <p className="text-sm whitespace-pre-line">{order.notes}</p>}
+
+          <div className="text-sm space-y-4">
+            {supplier?.delivery_terms && <p>Lieferbedingungen: {supplier.delivery_terms}</p>}
+            <p>Bitte bestätigen Sie die Bestellung.</p>
+            <p>Mit freundlichen Grüßen<br />{farm?.name}</p>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
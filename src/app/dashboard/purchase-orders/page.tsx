@@ -0,0 +1,460 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { useFarmStore } from '@/lib/stores/farm-store'
+import { Edit, Trash2, ShoppingCart, Send, Mail, FileText, PackageCheck } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  getPurchasePlanningData,
+  getPurchaseOrders,
+  createPurchaseOrders,
+  updatePurchaseOrder,
+  setPurchaseOrderStatus,
+  deletePurchaseOrder,
+  type PurchaseOrder,
+  type PurchasePlanningData
+} from '@/lib/services/purchase-order-service'
+import {
+  forecastDailyConsumption,
+  proposePurchaseOrders,
+  buildOrderText,
+  DEFAULT_DELIVERY_TIME_DAYS,
+  PURCHASE_ORDER_STATUS_LABELS,
+  type PurchaseOrderStatus
+} from '@/lib/utils/purchase-orders'
+import { formatUnit } from '@/lib/utils/units'
+
+const HISTORY_DAYS = 28
+const PLANNING_DAYS = 30
+
+const STATUS_VARIANTS: Record<PurchaseOrderStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  draft: 'outline',
+  sent: 'default',
+  received: 'secondary',
+  cancelled: 'destructive',
+}
+
+export default function PurchaseOrdersPage() {
+  const [planningData, setPlanningData] = useState<PurchasePlanningData | null>(null)
+  const [orders, setOrders] = useState<PurchaseOrder[]>([])
+  const [coverageDays, setCoverageDays] = useState('14')
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null)
+  const [loading, setLoading] = useState(false)
+  const { currentFarmId } = useFarmStore()
+
+  // Edit form state
+  const [supplierId, setSupplierId] = useState('')
+  const [deliveryDate, setDeliveryDate] = useState('')
+  const [notes, setNotes] = useState('')
+  const [quantities, setQuantities] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    if (currentFarmId) {
+      loadData()
+    }
+  }, [currentFarmId])
+
+  const loadData = async () => {
+    try {
+      const [planning, purchaseOrders] = await Promise.all([
+        getPurchasePlanningData(currentFarmId!, HISTORY_DAYS),
+        getPurchaseOrders(currentFarmId!)
+      ])
+      setPlanningData(planning)
+      setOrders(purchaseOrders)
+    } catch (error) {
+      console.error('Error loading purchase orders:', error)
+      toast.error(error instanceof Error ? error.message : 'Bestellungen konnten nicht geladen werden')
+    }
+  }
+
+  const today = new Date().toISOString().split('T')[0]
+  const coverage = Math.max(1, parseInt(coverageDays) || 14)
+
+  const proposals = useMemo(() => {
+    if (!planningData) return []
+    const maxDeliveryDays = Math.max(
+      DEFAULT_DELIVERY_TIME_DAYS,
+      ...planningData.suppliers.map(supplier => supplier.default_delivery_time_days || 0)
+    )
+    const days = maxDeliveryDays + PLANNING_DAYS + coverage
+    const forecasts: Record<string, number[]> = {}
+    planningData.feedTypes.forEach(feedType => {
+      forecasts[feedType.id] = forecastDailyConsumption(feedType, planningData.consumption, planningData.occupancy, {
+        today,
+        days,
+        historyDays: HISTORY_DAYS
+      })
+    })
+
+    return proposePurchaseOrders({
+      feedTypes: planningData.feedTypes,
+      suppliers: planningData.suppliers,
+      stock: planningData.stock,
+      forecasts,
+      preferredSuppliers: planningData.preferredSuppliers,
+      incoming: planningData.incoming,
+      options: { today, historyDays: HISTORY_DAYS, planningDays: PLANNING_DAYS, coverageDays: coverage }
+    })
+  }, [planningData, today, coverage])
+
+  const feedTypeById = (id: string) => planningData?.feedTypes.find(ft => ft.id === id)
+  const supplierName = (id: string | null) =>
+    planningData?.suppliers.find(s => s.id === id)?.name || 'Ohne Lieferant'
+
+  const handleAcceptProposals = async () => {
+    if (!planningData) return
+
+    const feedTypeUnits: Record<string, string | null> = {}
+    planningData.feedTypes.forEach(feedType => {
+      feedTypeUnits[feedType.id] = feedType.unit
+    })
+
+    setLoading(true)
+    try {
+      await createPurchaseOrders(currentFarmId!, proposals, feedTypeUnits)
+      toast.success(`${proposals.length} Bestellung(en) als Entwurf angelegt`)
+      loadData()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Bestellungen konnten nicht angelegt werden')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleEdit = (order: PurchaseOrder) => {
+    setEditingOrder(order)
+    setSupplierId(order.supplier_id || '')
+    setDeliveryDate(order.delivery_date || '')
+    setNotes(order.notes || '')
+    setQuantities(Object.fromEntries(order.purchase_order_items.map(item => [item.id, String(item.quantity)])))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editingOrder) return
+
+    const items = editingOrder.purchase_order_items.map(item => ({
+      id: item.id,
+      quantity: parseFloat((quantities[item.id] || '0').replace(',', '.')) || 0
+    }))
+
+    setLoading(true)
+    try {
+      await updatePurchaseOrder(editingOrder.id, {
+        supplierId: supplierId || null,
+        deliveryDate: deliveryDate || null,
+        notes: notes.trim() || null,
+        items
+      })
+      toast.success('Bestellung aktualisiert')
+      setEditingOrder(null)
+      loadData()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Bestellung konnte nicht gespeichert werden')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleStatus = async (order: PurchaseOrder, status: PurchaseOrderStatus) => {
+    try {
+      await setPurchaseOrderStatus(order.id, status)
+      toast.success(`Bestellung als „${PURCHASE_ORDER_STATUS_LABELS[status]}" markiert`)
+      loadData()
+    } catch (error) {
+      console.error('Error updating purchase order:', error)
+      toast.error('Status konnte nicht geändert werden')
+    }
+  }
+
+  const handleDelete = async (order: PurchaseOrder) => {
+    if (!confirm('Bestellung löschen?')) return
+
+    try {
+      await deletePurchaseOrder(order.id)
+      loadData()
+    } catch (error) {
+      console.error('Error deleting purchase order:', error)
+      toast.error('Bestellung konnte nicht gelöscht werden')
+    }
+  }
+
+  const mailtoLink = (order: PurchaseOrder) => {
+    if (!order.suppliers?.email) return null
+    const { subject, body } = buildOrderText({
+      farmName: order.farms?.name || '',
+      supplierName: order.suppliers.name,
+      deliveryDate: order.delivery_date,
+      notes: order.notes,
+      items: order.purchase_order_items.map(item => ({
+        feedTypeName: item.feed_types?.name || 'Unbekannt',
+        quantity: Number(item.quantity),
+        unit: formatUnit(item.unit || item.feed_types?.unit)
+      }))
+    })
+    return `mailto:${order.suppliers.email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`
+  }
+
+  const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('de-DE')
+  const formatQuantity = (value: number) => value.toLocaleString('de-DE', { maximumFractionDigits: 1 })
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold tracking-tight">Bestellungen</h2>
+        <p className="text-muted-foreground">
+          Bestellvorschläge aus Verbrauch, Belegung und Lieferzeiten sowie die Bestellungen an Lieferanten
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start gap-4">
+            <div>
+              <CardTitle>Bestellvorschläge</CardTitle>
+              <CardDescription>
+                Verbrauch je Tier der letzten {HISTORY_DAYS} Tage, hochgerechnet auf die geplante Belegung.
+                Bestellt wird, bevor der Bestand die Meldegrenze erreicht, mit der Lieferzeit und Mindestmenge des Lieferanten.
+              </CardDescription>
+            </div>
+            <div className="flex items-end gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="coverageDays" className="text-xs">Reichweite (Tage)</Label>
+                <Input
+                  id="coverageDays"
+                  type="number"
+                  min="1"
+                  className="w-24"
+                  value={coverageDays}
+                  onChange={(e) => setCoverageDays(e.target.value)}
+                />
+              </div>
+              <Button onClick={handleAcceptProposals} disabled={loading || proposals.length === 0}>
+                Als Entwurf übernehmen
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Lieferant</TableHead>
+                <TableHead>Futtermittel</TableHead>
+                <TableHead className="text-right">Menge</TableHead>
+                <TableHead className="text-right">Bestand bei Lieferung</TableHead>
+                <TableHead>Bestellen bis</TableHead>
+                <TableHead>Lieferung bis</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {proposals.flatMap(proposal =>
+                proposal.lines.map((line, index) => {
+                  const feedType = feedTypeById(line.feedTypeId)
+                  const unit = formatUnit(feedType?.unit)
+                  return (
+                    <TableRow key={`${proposal.supplierId}-${line.feedTypeId}`}>
+                      <TableCell className="font-medium">
+                        {index === 0 ? supplierName(proposal.supplierId) : ''}
+                      </TableCell>
+                      <TableCell>{feedType?.name}</TableCell>
+                      <TableCell className="text-right">{formatQuantity(line.quantity)} {unit}</TableCell>
+                      <TableCell className="text-right">{formatQuantity(Math.max(0, line.stockAtDelivery))} {unit}</TableCell>
+                      <TableCell className={line.orderBy <= today ? 'text-red-600 font-medium' : ''}>
+                        {formatDate(line.orderBy)}
+                      </TableCell>
+                      <TableCell>{formatDate(line.deliveryBy)}</TableCell>
+                    </TableRow>
+                  )
+                })
+              )}
+              {proposals.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    {planningData && Object.keys(planningData.stock).length === 0
+                      ? 'Für Bestellvorschläge wird ein erfasster Lagerbestand benötigt.'
+                      : `In den nächsten ${PLANNING_DAYS} Tagen muss nichts bestellt werden.`}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShoppingCart className="h-5 w-5" />
+            Bestellungen ({orders.length})
+          </CardTitle>
+          <CardDescription>
+            Gesendete Bestellungen werden in den Vorschlägen als Zugang zum Liefertermin berücksichtigt.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Lieferant</TableHead>
+                <TableHead>Positionen</TableHead>
+                <TableHead>Bestellen bis</TableHead>
+                <TableHead>Lieferung bis</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Aktionen</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {orders.map(order => {
+                const status = order.status as PurchaseOrderStatus
+                const mailto = mailtoLink(order)
+                return (
+                  <TableRow key={order.id}>
+                    <TableCell className="font-medium">{order.suppliers?.name || 'Ohne Lieferant'}</TableCell>
+                    <TableCell>
+                      {order.purchase_order_items.map(item => (
+                        <div key={item.id} className="text-sm">
+                          {formatQuantity(Number(item.quantity))} {formatUnit(item.unit || item.feed_types?.unit)} {item.feed_types?.name}
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell>{order.order_by_date ? formatDate(order.order_by_date) : '-'}</TableCell>
+                    <TableCell>{order.delivery_date ? formatDate(order.delivery_date) : '-'}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[status]}>{PURCHASE_ORDER_STATUS_LABELS[status]}</Badge>
+                      {order.sent_at && (
+                        <div className="text-xs text-muted-foreground mt-1">am {formatDate(order.sent_at)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Button variant="outline" size="sm" asChild title="Bestelldokument">
+                          <Link href={`/dashboard/purchase-orders/${order.id}`}>
+                            <FileText className="h-3 w-3" />
+                          </Link>
+                        </Button>
+                        {mailto && (
+                          <Button variant="outline" size="sm" asChild title="Per E-Mail senden">
+                            <a href={mailto}>
+                              <Mail className="h-3 w-3" />
+                            </a>
+                          </Button>
+                        )}
+                        {status === 'draft' && (
+                          <>
+                            <Button variant="outline" size="sm" onClick={() => handleEdit(order)}>
+                              <Edit className="h-3 w-3" />
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => handleStatus(order, 'sent')} title="Als gesendet markieren">
+                              <Send className="h-3 w-3" />
+                            </Button>
+                          </>
+                        )}
+                        {status === 'sent' && (
+                          <Button variant="outline" size="sm" onClick={() => handleStatus(order, 'received')} title="Als geliefert markieren">
+                            <PackageCheck className="h-3 w-3" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDelete(order)}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+              {orders.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    Noch keine Bestellungen angelegt.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editingOrder} onOpenChange={(open) => !open && setEditingOrder(null)}>
+        <DialogContent className="max-w-lg">
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>Bestellung bearbeiten</DialogTitle>
+              <DialogDescription>
+                Positionen mit Menge 0 werden entfernt.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-2 gap-4 py-4">
+              <div className="space-y-2">
+                <Label>Lieferant</Label>
+                <Select value={supplierId || 'none'} onValueChange={(value) => setSupplierId(value === 'none' ? '' : value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Ohne Lieferant</SelectItem>
+                    {planningData?.suppliers.map(supplier => (
+                      <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="orderDeliveryDate">Lieferung bis</Label>
+                <Input
+                  id="orderDeliveryDate"
+                  type="date"
+                  value={deliveryDate}
+                  onChange={(e) => setDeliveryDate(e.target.value)}
+                />
+              </div>
+              {editingOrder?.purchase_order_items.map(item => (
+                <div key={item.id} className="space-y-2 col-span-2">
+                  <Label htmlFor={`item-${item.id}`}>
+                    {item.feed_types?.name} ({formatUnit(item.unit || item.feed_types?.unit)})
+                  </Label>
+                  <Input
+                    id={`item-${item.id}`}
+                    inputMode="decimal"
+                    value={quantities[item.id] || ''}
+                    onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.value })}
+                  />
+                </div>
+              ))}
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="orderNotes">Hinweise an den Lieferanten</Label>
+                <Textarea id="orderNotes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditingOrder(null)} disabled={loading}>
+                Abbrechen
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? 'Wird gespeichert...' : 'Aktualisieren'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
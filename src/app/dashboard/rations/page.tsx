@@ -0,0 +1,395 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { useFarmStore } from '@/lib/stores/farm-store'
+import { useFeedTypes } from '@/lib/hooks/queries'
+import { Plus, Layers, Trash2, X } from 'lucide-react'
+import {
+  getRations,
+  saveRation,
+  saveRationVersion,
+  deleteRation,
+  deleteRationVersion,
+  type RationDefinition,
+  type RationShareType
+} from '@/lib/services/ration-service'
+import { findRationVersion, getComponentShares, RATION_SHARE_TYPE_LABELS } from '@/lib/utils/ration-calculations'
+
+interface ComponentInput {
+  feedTypeId: string
+  amount: string
+}
+
+export default function RationsPage() {
+  const [rations, setRations] = useState<RationDefinition[]>([])
+  const [showCreateDialog, setShowCreateDialog] = useState(false)
+  const [versionRation, setVersionRation] = useState<RationDefinition | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+  const { currentFarmId } = useFarmStore()
+  const { data: feedTypes = [] } = useFeedTypes(currentFarmId)
+
+  // Form state
+  const [name, setName] = useState('')
+  const [validFrom, setValidFrom] = useState('')
+  const [shareType, setShareType] = useState<RationShareType>('percentage')
+  const [components, setComponents] = useState<ComponentInput[]>([])
+
+  useEffect(() => {
+    if (currentFarmId) {
+      loadRations()
+    }
+  }, [currentFarmId])
+
+  const loadRations = async () => {
+    try {
+      setRations(await getRations(currentFarmId!))
+    } catch (error) {
+      console.error('Error loading rations:', error)
+      setRations([])
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+
+    try {
+      await saveRation(currentFarmId!, name.trim())
+      setShowCreateDialog(false)
+      setName('')
+      loadRations()
+    } catch (error) {
+      console.error('Error saving ration:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openVersionDialog = (ration: RationDefinition) => {
+    // Start from the current composition, so a change only needs the new values
+    const current = findRationVersion(ration.versions, new Date().toISOString().split('T')[0])
+      || ration.versions[ration.versions.length - 1]
+
+    setVersionRation(ration)
+    setValidFrom(new Date().toISOString().split('T')[0])
+    setShareType(current?.shareType || 'percentage')
+    setComponents(current
+      ? current.components.map(component => ({ feedTypeId: component.feedTypeId, amount: String(component.amount) }))
+      : [{ feedTypeId: '', amount: '' }])
+    setFormError(null)
+  }
+
+  const handleSaveVersion = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!versionRation) return
+
+    const parsedComponents = components
+      .filter(component => component.feedTypeId)
+      .map(component => ({
+        feedTypeId: component.feedTypeId,
+        feedTypeName: '',
+        amount: parseFloat(component.amount.replace(',', '.')) || 0
+      }))
+
+    try {
+      getComponentShares({ shareType, components: parsedComponents })
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Ungültige Zusammensetzung')
+      return
+    }
+
+    setLoading(true)
+    setFormError(null)
+
+    try {
+      await saveRationVersion(currentFarmId!, versionRation.id, { validFrom, shareType, components: parsedComponents })
+      setVersionRation(null)
+      loadRations()
+    } catch (error) {
+      console.error('Error saving ration version:', error)
+      setFormError(error instanceof Error ? error.message : 'Speichern fehlgeschlagen')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDelete = async (ration: RationDefinition) => {
+    if (!confirm(`Möchten Sie die Ration "${ration.name}" wirklich löschen?`)) {
+      return
+    }
+
+    try {
+      await deleteRation(ration.id)
+      loadRations()
+    } catch (error) {
+      console.error('Error deleting ration:', error)
+    }
+  }
+
+  const handleDeleteVersion = async (versionId: string) => {
+    try {
+      await deleteRationVersion(versionId)
+      loadRations()
+    } catch (error) {
+      console.error('Error deleting ration version:', error)
+    }
+  }
+
+  const updateComponent = (index: number, update: Partial<ComponentInput>) => {
+    setComponents(prev => prev.map((component, i) => i === index ? { ...component, ...update } : component))
+  }
+
+  const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('de-DE')
+
+  const formatAmount = (amount: number, type: RationShareType) =>
+    type === 'percentage' ? `${amount.toLocaleString('de-DE')} %` : `${amount.toLocaleString('de-DE')} kg`
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Rationen</h2>
+          <p className="text-muted-foreground">
+            Mischrationen, deren Verbrauch beim Import auf die einzelnen Futtermittel aufgeteilt wird
+          </p>
+        </div>
+        <Button
+          onClick={() => {
+            setName('')
+            setShowCreateDialog(true)
+          }}
+          className="flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          Neue Ration
+        </Button>
+      </div>
+
+      {rations.length === 0 && (
+        <Card>
+          <CardContent className="text-center py-8 text-muted-foreground">
+            Noch keine Rationen angelegt. Der Name einer Ration muss dem Futtermittelnamen im Export
+            Ihres Fütterungssystems entsprechen.
+          </CardContent>
+        </Card>
+      )}
+
+      {rations.map(ration => (
+        <Card key={ration.id}>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <Layers className="h-5 w-5" />
+                {ration.name}
+              </CardTitle>
+              <CardDescription>
+                {ration.versions.length === 0
+                  ? 'Noch keine Zusammensetzung hinterlegt'
+                  : `${ration.versions.length} Zusammensetzung(en)`}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => openVersionDialog(ration)} className="flex items-center gap-1">
+                <Plus className="h-3 w-3" />
+                Zusammensetzung
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleDelete(ration)}
+                className="flex items-center gap-1 text-red-600 hover:text-red-700"
+              >
+                <Trash2 className="h-3 w-3" />
+                Löschen
+              </Button>
+            </div>
+          </CardHeader>
+          {ration.versions.length > 0 && (
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Gültig ab</TableHead>
+                    <TableHead>Angabe</TableHead>
+                    <TableHead>Komponenten</TableHead>
+                    <TableHead className="w-[60px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...ration.versions].reverse().map(version => (
+                    <TableRow key={version.id}>
+                      <TableCell className="font-medium">{formatDate(version.validFrom)}</TableCell>
+                      <TableCell>{RATION_SHARE_TYPE_LABELS[version.shareType]}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {version.components.map(component => (
+                            <Badge key={component.feedTypeId} variant="secondary">
+                              {component.feedTypeName}: {formatAmount(component.amount, version.shareType)}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteVersion(version.id)}
+                          aria-label="Zusammensetzung löschen"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          )}
+        </Card>
+      ))}
+
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent className="max-w-lg">
+          <form onSubmit={handleCreate}>
+            <DialogHeader>
+              <DialogTitle>Neue Ration anlegen</DialogTitle>
+              <DialogDescription>
+                Verwenden Sie denselben Namen wie im Export Ihres Fütterungssystems
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="ration-name">Name *</Label>
+              <Input
+                id="ration-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="z.B. Vormast, Endmast"
+                required
+                disabled={loading}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowCreateDialog(false)} disabled={loading}>
+                Abbrechen
+              </Button>
+              <Button type="submit" disabled={loading || !name.trim()}>
+                {loading ? 'Wird gespeichert...' : 'Erstellen'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!versionRation} onOpenChange={(open) => !open && setVersionRation(null)}>
+        <DialogContent className="max-w-xl">
+          <form onSubmit={handleSaveVersion}>
+            <DialogHeader>
+              <DialogTitle>Zusammensetzung von &quot;{versionRation?.name}&quot;</DialogTitle>
+              <DialogDescription>
+                Gilt für alle Importe ab dem gewählten Datum, bis eine neuere Zusammensetzung hinterlegt wird
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4 py-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="valid-from">Gültig ab *</Label>
+                  <Input
+                    id="valid-from"
+                    type="date"
+                    value={validFrom}
+                    onChange={(e) => setValidFrom(e.target.value)}
+                    required
+                    disabled={loading}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Angabe</Label>
+                  <Select value={shareType} onValueChange={(value) => setShareType(value as RationShareType)} disabled={loading}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(RATION_SHARE_TYPE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Komponenten</Label>
+                {components.map((component, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Select
+                      value={component.feedTypeId}
+                      onValueChange={(value) => updateComponent(index, { feedTypeId: value })}
+                      disabled={loading}
+                    >
+                      <SelectTrigger className="flex-1">
+                        <SelectValue placeholder="Futtermittel wählen" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {feedTypes.map((ft: { id: string; name: string }) => (
+                          <SelectItem key={ft.id} value={ft.id}>{ft.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      className="w-28"
+                      inputMode="decimal"
+                      value={component.amount}
+                      onChange={(e) => updateComponent(index, { amount: e.target.value })}
+                      placeholder={shareType === 'percentage' ? '%' : 'kg'}
+                      disabled={loading}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setComponents(prev => prev.filter((_, i) => i !== index))}
+                      aria-label="Komponente entfernen"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setComponents(prev => [...prev, { feedTypeId: '', amount: '' }])}
+                  className="flex items-center gap-1"
+                >
+                  <Plus className="h-3 w-3" />
+                  Komponente
+                </Button>
+              </div>
+
+              {formError && <p className="text-sm text-red-600">{formError}</p>}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setVersionRation(null)} disabled={loading}>
+                Abbrechen
+              </Button>
+              <Button type="submit" disabled={loading || !validFrom}>
+                {loading ? 'Wird gespeichert...' : 'Speichern'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
 import { createClient } from '@/lib/supabase/client'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -8,7 +9,8 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { useFarmStore } from '@/lib/stores/farm-store'
-import { BarChart, DollarSign, Package, Filter, Download, Star, Lock } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { BarChart, DollarSign, Package, Filter, Download, Star, Lock, AlertTriangle } from 'lucide-react'
 import { Tables } from '@/lib/database.types'
 import { loadConsumptionWithCosts } from '@/lib/utils/feed-calculations'
 import { PlanUpgradeBanner } from '@/components/subscription/plan-upgrade-banner'
@@ -45,9 +47,17 @@ const AVAILABLE_DIMENSIONS: Array<{ value: PivotDimension; label: string; descri
 const AVAILABLE_VALUES: Array<{ value: PivotValue; label: string; description?: string }> = [
   { value: 'quantity', label: 'Menge', description: 'Futtermenge in kg' },
   { value: 'cost', label: 'Kosten', description: 'Gesamtkosten in €' },
+  { value: 'estimated_cost', label: 'Geschätzte Kosten', description: 'Kosten mit geschätztem Preis in €' },
   { value: 'avg_price', label: 'Ø Preis', description: 'Durchschnittspreis pro Einheit' },
   { value: 'min_price', label: 'Min. Preis', description: 'Niedrigster Preis' },
   { value: 'max_price', label: 'Max. Preis', description: 'Höchster Preis' },
+  { value: 'dry_matter', label: 'Trockenmasse', description: 'Trockenmasse in kg laut Futteranalyse' },
+  { value: 'energy_mj_me', label: 'Energie MJ ME', description: 'Umsetzbare Energie in MJ' },
+  { value: 'energy_mj_nel', label: 'Energie MJ NEL', description: 'Nettoenergie Laktation in MJ' },
+  { value: 'crude_protein', label: 'Rohprotein', description: 'Rohprotein in kg' },
+  { value: 'cost_per_kg_dm', label: '€/kg TM', description: 'Kosten je kg Trockenmasse' },
+  { value: 'cost_per_mj_me', label: '€/MJ ME', description: 'Kosten je MJ umsetzbare Energie' },
+  { value: 'cost_per_mj_nel', label: '€/MJ NEL', description: 'Kosten je MJ NEL' },
   { value: 'count', label: 'Anzahl', description: 'Anzahl der Einträge' }
 ]
 
@@ -151,6 +161,12 @@ function ReportsContent() {
           supplier_name: item.supplier_name,
           quantity: parseFloat(item.quantity) || 0,
           total_cost: item.total_cost || 0,
+          cost_estimated: item.cost_estimated || false,
+          price_missing: item.price_missing || false,
+          dry_matter_kg: item.dry_matter_kg,
+          energy_mj_me: item.energy_mj_me,
+          energy_mj_nel: item.energy_mj_nel,
+          crude_protein_kg: item.crude_protein_kg,
           price_per_unit: item.price_per_unit || (item.total_cost && item.quantity ? item.total_cost / parseFloat(item.quantity) : 0)
         }))
 
@@ -208,8 +224,14 @@ function ReportsContent() {
     const totalQuantity = rawConsumptionData.reduce((sum, item) => sum + item.quantity, 0)
     const totalCost = rawConsumptionData.reduce((sum, item) => sum + item.total_cost, 0)
     const uniqueFeedTypes = new Set(rawConsumptionData.map(item => item.feed_type_id)).size
-
-    return { totalQuantity, totalCost, uniqueFeedTypes }
+    const estimatedCost = rawConsumptionData
+      .filter(item => item.cost_estimated)
+      .reduce((sum, item) => sum + item.total_cost, 0)
+    const unpricedQuantity = rawConsumptionData
+      .filter(item => item.price_missing)
+      .reduce((sum, item) => sum + item.quantity, 0)
+
+    return { totalQuantity, totalCost, uniqueFeedTypes, estimatedCost, unpricedQuantity }
   }
 
 
@@ -266,7 +288,8 @@ function ReportsContent() {
       'Lieferant': item.supplier_name || '-',
       'Menge (kg)': item.quantity,
       'Kosten (€)': item.total_cost,
-      'Preis pro Einheit (€)': item.price_per_unit || 0
+      'Preis pro Einheit (€)': item.price_per_unit || 0,
+      'Preis': item.price_missing ? 'fehlt' : item.cost_estimated ? 'geschätzt' : 'Preisstaffel'
     }))
 
     const rawDataWs = XLSX.utils.json_to_sheet(rawDataExport)
@@ -282,6 +305,14 @@ function ReportsContent() {
         'Kennzahl': 'Gesamte Futterkosten (€)',
         'Wert': stats.totalCost
       },
+      {
+        'Kennzahl': 'davon mit geschätztem Preis (€)',
+        'Wert': stats.estimatedCost
+      },
+      {
+        'Kennzahl': 'Futterverbrauch ohne Preis (kg)',
+        'Wert': stats.unpricedQuantity
+      },
       {
         'Kennzahl': 'Anzahl verschiedener Futtermittel',
         'Wert': stats.uniqueFeedTypes
@@ -312,6 +343,21 @@ function ReportsContent() {
         message="Erweiterte Berichte und Export-Funktionen sind in höheren Plänen verfügbar."
       />
 
+      {(stats.estimatedCost > 0 || stats.unpricedQuantity > 0) && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            {stats.estimatedCost > 0 && (
+              <>Davon {formatCurrency(stats.estimatedCost)} Futterkosten mit geschätztem Preis. </>
+            )}
+            {stats.unpricedQuantity > 0 && (
+              <>{formatNumber(stats.unpricedQuantity, 0)} kg Futter ohne Preis sind mit 0 € bewertet. </>
+            )}
+            <Link href="/dashboard/price-gaps" className="underline">Preislücken anzeigen</Link>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Header with Actions */}
       <div className="flex items-center justify-between">
         <div>
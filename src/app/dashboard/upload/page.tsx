@@ -1,17 +1,40 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { CSVUploader } from '@/components/upload/csv-uploader'
 import { UploadPreview } from '@/components/upload/upload-preview'
 import { ProcessingStatus } from '@/components/upload/processing-status'
+import { ImportProfileList } from '@/components/upload/import-profile-list'
+import { ValidationReport } from '@/components/upload/validation-report'
+import { ImportSourceList } from '@/components/upload/import-source-list'
+import { RationBreakdownNotice } from '@/components/upload/ration-breakdown-notice'
 import { useFarmStore } from '@/lib/stores/farm-store'
+import { useFeedTypeAliases, useFeedTypes } from '@/lib/hooks/queries'
+import { matchFeedNames } from '@/lib/utils/feed-name-matching'
+import {
+  buildRejectedRowsCsv,
+  excludeSourceRows,
+  getFlaggedSourceRows,
+  validateImportData,
+  type ImportIssue,
+} from '@/lib/utils/import-validation'
+import { explodeRations, findRationsInImport, type RationDefinition } from '@/lib/utils/ration-calculations'
+import { getRations } from '@/lib/services/ration-service'
 import type { ParsedData } from '@/lib/csv-parser'
+import type { DelimitedTable } from '@/lib/import-adapters'
+import type { ConsumptionChangePreview } from '@/lib/upload-processor'
+import type { ImportPhase } from '@/lib/import-pipeline/progress'
+import { startUpload } from '@/lib/services/upload-service'
+import { importAdapters } from '@/lib/import-adapters'
 import { ErrorBoundary } from '@/components/error-boundary'
 import { Info } from 'lucide-react'
 import Link from 'next/link'
 
+/** Days before an imported day its quantity is compared with */
+const OUTLIER_TRAILING_DAYS = 14
+
 function UploadContent() {
   const { currentFarmId } = useFarmStore()
   const [parsedData, setParsedData] = useState<ParsedData | null>(null)
@@ -21,52 +44,251 @@ function UploadContent() {
     processed: number
     updated: number
     created: number
+    unchanged: number
     errors: string[]
+    running: boolean
+    phase?: ImportPhase
   } | null>(null)
+  const { data: feedTypes = [], refetch: refetchFeedTypes } = useFeedTypes(currentFarmId)
+  const { data: feedTypeAliases = [], refetch: refetchFeedTypeAliases } = useFeedTypeAliases(currentFarmId)
+  const [sourceFile, setSourceFile] = useState<File | null>(null)
+  const [sourceTable, setSourceTable] = useState<DelimitedTable | null>(null)
+  const [feedTypeSelection, setFeedTypeSelection] = useState<Record<string, string | null>>({})
+
+  // Validate rows against the file itself and the stored consumption of each area
+  const [validationIssues, setValidationIssues] = useState<ImportIssue[]>([])
+  const [validating, setValidating] = useState(false)
+  const [skipFlaggedRows, setSkipFlaggedRows] = useState(false)
+
+  useEffect(() => {
+    if (!parsedData) {
+      setValidationIssues([])
+      return
+    }
+
+    let cancelled = false
+    const validationOptions = { today: new Date().toISOString().split('T')[0], trailingDays: OUTLIER_TRAILING_DAYS }
+    setValidating(true)
+
+    const loadHistory = currentFarmId
+      ? import('@/lib/upload-processor')
+          .then(({ loadAreaDailyTotals }) =>
+            loadAreaDailyTotals(currentFarmId, parsedData.dateRange, OUTLIER_TRAILING_DAYS)
+          )
+      : Promise.resolve([])
+
+    loadHistory
+      .catch(error => {
+        console.error('Error loading consumption history:', error)
+        return []
+      })
+      .then(history => {
+        if (!cancelled) setValidationIssues(validateImportData(parsedData, { ...validationOptions, history }))
+      })
+      .finally(() => {
+        if (!cancelled) setValidating(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [parsedData, currentFarmId])
+
+  const flaggedSourceRows = useMemo(() => getFlaggedSourceRows(validationIssues), [validationIssues])
+
+  // Data without flagged rows if the user chose to skip them
+  const { filteredData, skipError } = useMemo(() => {
+    if (!parsedData || !skipFlaggedRows) {
+      return { filteredData: parsedData, skipError: null }
+    }
+    try {
+      return { filteredData: excludeSourceRows(parsedData, flaggedSourceRows), skipError: null }
+    } catch {
+      return { filteredData: null, skipError: 'Ohne die markierten Zeilen bleiben keine Daten zum Importieren übrig.' }
+    }
+  }, [parsedData, skipFlaggedRows, flaggedSourceRows])
+
+  // Ration quantities are broken down into their components, as on the server
+  const [rations, setRations] = useState<RationDefinition[]>([])
+  const [explodeRationsEnabled, setExplodeRationsEnabled] = useState(true)
+
+  useEffect(() => {
+    if (!currentFarmId) return
+    getRations(currentFarmId)
+      .then(setRations)
+      .catch(error => {
+        console.error('Error loading rations:', error)
+        setRations([])
+      })
+  }, [currentFarmId])
+
+  const importedRations = useMemo(
+    () => filteredData ? findRationsInImport(filteredData.feedTypes, rations) : [],
+    [filteredData, rations]
+  )
+
+  // Data as it will be imported
+  const { importData, rationErrors } = useMemo(() => {
+    if (!filteredData || !explodeRationsEnabled || importedRations.length === 0) {
+      return { importData: filteredData, rationErrors: [] }
+    }
+    try {
+      const breakdown = explodeRations(filteredData, rations)
+      return { importData: breakdown.errors.length > 0 ? null : breakdown.data, rationErrors: breakdown.errors }
+    } catch (error) {
+      return { importData: null, rationErrors: [error instanceof Error ? error.message : 'Rationen konnten nicht aufgeteilt werden'] }
+    }
+  }, [filteredData, explodeRationsEnabled, importedRations, rations])
 
-  const handleDataParsed = (data: ParsedData) => {
+  const handleDownloadRejectedRows = () => {
+    if (!sourceTable) return
+
+    const csv = buildRejectedRowsCsv(sourceTable, validationIssues)
+    // BOM so Excel reads umlauts correctly
+    const url = URL.createObjectURL(new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${(sourceFile?.name || 'import').replace(/\.[^.]+$/, '')}_fehler.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // Propose existing feed types for imported names (exact, alias or normalized name)
+  const feedNameMatches = useMemo(
+    () => importData ? matchFeedNames(importData.feedTypes, feedTypes, feedTypeAliases) : [],
+    [importData, feedTypes, feedTypeAliases]
+  )
+
+  useEffect(() => {
+    setFeedTypeSelection(Object.fromEntries(feedNameMatches.map(match => [match.importName, match.feedTypeId])))
+  }, [feedNameMatches])
+
+  // Only names mapped to a differently named feed type need to be passed on
+  const feedTypeMapping = useMemo(() => {
+    const mapping: Record<string, string> = {}
+    Object.entries(feedTypeSelection).forEach(([importName, feedTypeId]) => {
+      const feedType = feedTypes.find((ft: { id: string }) => ft.id === feedTypeId)
+      if (feedType && feedType.name !== importName) {
+        mapping[importName] = feedType.id
+      }
+    })
+    return mapping
+  }, [feedTypeSelection, feedTypes])
+
+  // Preview which rows the import would create, overwrite or leave unchanged
+  const [changePreview, setChangePreview] = useState<ConsumptionChangePreview | null>(null)
+  const [loadingChanges, setLoadingChanges] = useState(false)
+
+  useEffect(() => {
+    if (!importData || !currentFarmId) {
+      setChangePreview(null)
+      return
+    }
+
+    let cancelled = false
+    setLoadingChanges(true)
+
+    import('@/lib/upload-processor')
+      .then(({ previewConsumptionChanges }) => previewConsumptionChanges(importData, currentFarmId, { feedTypeMapping }))
+      .then(preview => {
+        if (!cancelled) setChangePreview(preview)
+      })
+      .catch(error => {
+        console.error('Error computing change preview:', error)
+        if (!cancelled) setChangePreview(null)
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingChanges(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [importData, currentFarmId, feedTypeMapping])
+
+  // Number of consumption records (one per feed and row), as counted by the import
+  const totalRecords = importData
+    ? importData.rows.reduce((sum, row) => sum + Object.keys(row.feeds).length, 0)
+    : 0
+
+  const handleDataParsed = (data: ParsedData, file: File, table: DelimitedTable) => {
     setParsedData(data)
+    setSourceFile(file)
+    setSourceTable(table)
+    setSkipFlaggedRows(false)
+    setExplodeRationsEnabled(true)
     setUploadStatus(null)
   }
 
   const handleConfirmUpload = async () => {
-    if (!parsedData) return
+    if (!parsedData || !importData) return
     
     if (!currentFarmId) {
       setUploadStatus({
-        total: parsedData.totalRows,
+        total: totalRecords,
         processed: 0,
         updated: 0,
         created: 0,
-        errors: ['Bitte wählen Sie zuerst einen Stall aus oder erstellen Sie einen neuen.']
+        unchanged: 0,
+        errors: ['Bitte wählen Sie zuerst einen Stall aus oder erstellen Sie einen neuen.'],
+        running: false
       })
       return
     }
     
+    if (!sourceFile) return
+
     setProcessing(true)
-    
+    setUploadStatus({
+      total: totalRecords,
+      processed: 0,
+      updated: 0,
+      created: 0,
+      unchanged: 0,
+      errors: [],
+      running: true
+    })
+
     try {
-      // Import the actual upload function
-      const { uploadConsumptionData } = await import('@/lib/upload-processor')
-      
-      const result = await uploadConsumptionData(parsedData, currentFarmId)
-      
+      // The import runs on the server; progress is streamed back
+      const result = await startUpload(sourceFile, currentFarmId, {
+        sheetName: parsedData.sheetName,
+        feedTypeMapping,
+        skipSourceRows: skipFlaggedRows ? flaggedSourceRows : [],
+        validationIssues,
+        explodeRations: explodeRationsEnabled
+      }, event => {
+        if (event.type === 'progress') {
+          setUploadStatus(prev => prev && {
+            ...prev,
+            phase: event.phase,
+            processed: event.phase === 'writing' ? event.processed : prev.processed
+          })
+        }
+      })
+
       setUploadStatus({
-        total: parsedData.totalRows,
+        total: totalRecords,
         processed: result.processed,
         updated: result.updated,
         created: result.created,
-        errors: result.errors
+        unchanged: result.unchanged,
+        errors: result.errors,
+        running: false
       })
-      
+
       setParsedData(null)
+      refetchFeedTypes()
+      refetchFeedTypeAliases()
     } catch (error) {
       setUploadStatus({
-        total: parsedData.totalRows,
+        total: totalRecords,
         processed: 0,
         updated: 0,
         created: 0,
-        errors: [error instanceof Error ? error.message : 'Unbekannter Fehler beim Upload']
+        unchanged: 0,
+        errors: [error instanceof Error ? error.message : 'Unbekannter Fehler beim Upload'],
+        running: false
       })
     } finally {
       setProcessing(false)
@@ -75,6 +297,8 @@ function UploadContent() {
 
   const handleReset = () => {
     setParsedData(null)
+    setSourceFile(null)
+    setSourceTable(null)
     setUploadStatus(null)
   }
 
@@ -83,7 +307,7 @@ function UploadContent() {
       <div>
         <h2 className="text-3xl font-bold tracking-tight">Daten-Upload</h2>
         <p className="text-muted-foreground">
-          Laden Sie Ihre GEA-Exportdateien hoch
+          Laden Sie die Exportdateien Ihres Fütterungssystems hoch
         </p>
       </div>
 
@@ -91,7 +315,8 @@ function UploadContent() {
         <Info className="h-4 w-4" />
         <AlertTitle>Unterstützte Fütterungssysteme</AlertTitle>
         <AlertDescription>
-          Der Datenimport ist aktuell für <strong>GEA-Systeme</strong> eingerichtet.
+          Der Datenimport erkennt Exporte folgender Systeme automatisch:{' '}
+          <strong>{importAdapters.map(adapter => adapter.name).join(', ')}</strong>.
           Nutzen Sie ein anderes Fütterungssystem? Melden Sie sich über das{' '}
           <Link href="/demo" className="underline font-medium hover:text-primary">
             Kontaktformular
@@ -103,21 +328,58 @@ function UploadContent() {
       {!parsedData && !uploadStatus && (
         <Card>
           <CardHeader>
-            <CardTitle>CSV-Datei hochladen</CardTitle>
+            <CardTitle>Datei hochladen</CardTitle>
             <CardDescription>
-              Wählen Sie eine CSV-Datei aus dem GEA-System aus. 
+              Wählen Sie eine CSV- oder Excel-Datei (XLSX, ODS) aus Ihrem Fütterungssystem aus.
               Die Datei sollte Spalten für Datum, Stallgruppe und Futtermengen enthalten.
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <CSVUploader onDataParsed={handleDataParsed} />
+            <CSVUploader farmId={currentFarmId} onDataParsed={handleDataParsed} />
           </CardContent>
         </Card>
       )}
 
+      {!parsedData && !uploadStatus && currentFarmId && (
+        <ImportProfileList farmId={currentFarmId} />
+      )}
+
+      {!parsedData && !uploadStatus && currentFarmId && (
+        <ImportSourceList farmId={currentFarmId} />
+      )}
+
       {parsedData && !uploadStatus && (
+        <ValidationReport
+          issues={validationIssues}
+          validating={validating}
+          flaggedRowCount={flaggedSourceRows.length}
+          skipFlaggedRows={skipFlaggedRows}
+          onSkipFlaggedRowsChange={setSkipFlaggedRows}
+          onDownloadRejectedRows={handleDownloadRejectedRows}
+          skipError={skipError}
+        />
+      )}
+
+      {filteredData && !uploadStatus && importedRations.length > 0 && (
+        <RationBreakdownNotice
+          rationNames={importedRations.map(ration => ration.name)}
+          enabled={explodeRationsEnabled}
+          onEnabledChange={setExplodeRationsEnabled}
+          errors={explodeRationsEnabled ? rationErrors : []}
+        />
+      )}
+
+      {importData && !uploadStatus && (
         <UploadPreview
-          data={parsedData}
+          data={importData}
+          changePreview={changePreview}
+          loadingChanges={loadingChanges}
+          feedNameMatches={feedNameMatches}
+          feedTypes={feedTypes}
+          feedTypeSelection={feedTypeSelection}
+          onFeedTypeSelectionChange={(importName, feedTypeId) =>
+            setFeedTypeSelection(prev => ({ ...prev, [importName]: feedTypeId }))
+          }
           onConfirm={handleConfirmUpload}
           onCancel={handleReset}
           processing={processing}
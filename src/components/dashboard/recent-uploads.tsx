@@ -5,7 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { createClient } from '@/lib/supabase/client'
 import { useFarmStore } from '@/lib/stores/farm-store'
 import { Badge } from '@/components/ui/badge'
-import { FileUp, AlertCircle, CheckCircle } from 'lucide-react'
+import { FileUp, AlertCircle, CheckCircle, Undo2 } from 'lucide-react'
 
 interface Upload {
   id: string
@@ -13,6 +13,7 @@ interface Upload {
   status: string
   rows_imported: number | null
   rows_updated: number | null
+  rows_unchanged: number | null
   error_message: string | null
   created_at: string | null
   uploaded_by: string
@@ -61,6 +62,10 @@ export function RecentUploads() {
         return <Badge variant="default"><CheckCircle className="w-3 h-3 mr-1" />Abgeschlossen</Badge>
       case 'failed':
         return <Badge variant="destructive"><AlertCircle className="w-3 h-3 mr-1" />Fehler</Badge>
+      case 'partial':
+        return <Badge variant="secondary"><AlertCircle className="w-3 h-3 mr-1" />Teilweise</Badge>
+      case 'rolled_back':
+        return <Badge variant="outline"><Undo2 className="w-3 h-3 mr-1" />Rückgängig gemacht</Badge>
       default:
         return <Badge variant="outline">{status}</Badge>
     }
@@ -105,9 +110,9 @@ export function RecentUploads() {
                   <div className="text-xs text-muted-foreground">
                     {upload.created_at ? new Date(upload.created_at).toLocaleString('de-DE') : 'Unbekannt'}
                   </div>
-                  {upload.status === 'completed' && (
+                  {(upload.status === 'completed' || upload.status === 'partial') && (
                     <div className="text-xs text-muted-foreground">
-                      {upload.rows_imported || 0} erstellt, {upload.rows_updated || 0} aktualisiert
+                      {upload.rows_imported || 0} erstellt, {upload.rows_updated || 0} aktualisiert, {upload.rows_unchanged || 0} unverändert
                     </div>
                   )}
                   {upload.error_message && (
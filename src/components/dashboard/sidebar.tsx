@@ -15,6 +15,9 @@ import {
   FileText,
   BarChart,
   Package,
+  Layers,
+  Warehouse,
+  CircleDollarSign,
   MapPin,
   Building,
   TrendingUp,
@@ -30,6 +33,9 @@ import {
   Tag,
   Wallet,
   FolderOpen,
+  CalendarRange,
+  FileSignature,
+  ShoppingCart,
 } from 'lucide-react'
 
 interface NavItem {
@@ -62,6 +68,10 @@ const navigationGroups: NavGroup[] = [
       { name: 'Verbrauch', href: '/dashboard/upload', icon: Upload },
       { name: 'Tierzahlen', href: '/dashboard/counts', icon: PawPrint },
       { name: 'Preise', href: '/dashboard/prices', icon: DollarSign },
+      { name: 'Preislücken', href: '/dashboard/price-gaps', icon: CircleDollarSign },
+      { name: 'Preisplanung', href: '/dashboard/price-planning', icon: CalendarRange },
+      { name: 'Lagerbestand', href: '/dashboard/inventory', icon: Warehouse },
+      { name: 'Bestellungen', href: '/dashboard/purchase-orders', icon: ShoppingCart },
       { name: 'Kostenbuchungen', href: '/dashboard/costs', icon: Receipt },
       { name: 'Einnahmen', href: '/dashboard/income', icon: Wallet },
     ]
@@ -71,7 +81,9 @@ const navigationGroups: NavGroup[] = [
     icon: Database,
     items: [
       { name: 'Futtermittel', href: '/dashboard/feed', icon: Package },
+      { name: 'Rationen', href: '/dashboard/rations', icon: Layers },
       { name: 'Lieferanten', href: '/dashboard/suppliers', icon: Building },
+      { name: 'Kontrakte', href: '/dashboard/contracts', icon: FileSignature },
       { name: 'Bereiche', href: '/dashboard/areas', icon: MapPin },
       { name: 'Kostenarten', href: '/dashboard/cost-types', icon: Tag },
       { name: 'Kostenvorlagen', href: '/dashboard/cost-templates', icon: FolderOpen },
@@ -4,6 +4,7 @@ import { useEffect, useState, useCallback } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { createClient } from '@/lib/supabase/client'
 import { useFarmStore } from '@/lib/stores/farm-store'
+import { loadConsumptionWithCosts } from '@/lib/utils/feed-calculations'
 import { Euro, Package, TrendingUp, Calendar } from 'lucide-react'
 
 export function DashboardStats() {
@@ -38,55 +39,19 @@ export function DashboardStats() {
       const thirtyDaysAgo = new Date()
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30)
       
-      const { data: consumptionData } = await supabase
-        .from('consumption')
-        .select(`
-          quantity,
-          date,
-          feed_type_id,
-          feed_types!inner(name)
-        `)
-        .eq('farm_id', currentFarmId!)
-        .gte('date', thirtyDaysAgo.toISOString().split('T')[0])
-
-      // Get all price tiers for this farm
-      const { data: priceTiers } = await supabase
-        .from('price_tiers')
-        .select('feed_type_id, price_per_unit, valid_from, valid_to')
-        .eq('farm_id', currentFarmId!)
+      const { consumption: consumptionData } = await loadConsumptionWithCosts(
+        supabase,
+        currentFarmId!,
+        thirtyDaysAgo.toISOString().split('T')[0],
+        null
+      )
 
       let monthlyTotal = 0
       const daysWithData = new Set()
 
-      if (consumptionData) {
-        for (const item of consumptionData) {
-          try {
-            // Find the applicable price tier for this feeding date and feed type
-            let price = 0
-            if (priceTiers && priceTiers.length > 0) {
-              const feedPrices = priceTiers.filter(tier => tier.feed_type_id === item.feed_type_id)
-              const validPrices = feedPrices.filter((tier: any) => {
-                const validFrom = tier.valid_from <= item.date
-                const validTo = !tier.valid_to || tier.valid_to >= item.date
-                return validFrom && validTo
-              })
-              
-              // Get the most recent valid price at the time of feeding
-              if (validPrices.length > 0) {
-                const sortedPrices = validPrices.sort((a: any, b: any) => 
-                  new Date(b.valid_from).getTime() - new Date(a.valid_from).getTime()
-                )
-                price = parseFloat(sortedPrices[0].price_per_unit) || 0
-              }
-            }
-
-            const quantity = parseFloat(item.quantity) || 0
-            monthlyTotal += quantity * price
-            daysWithData.add(item.date)
-          } catch (error) {
-            console.error('Error processing consumption item:', error, item)
-          }
-        }
+      for (const item of consumptionData) {
+        monthlyTotal += item.total_cost || 0
+        daysWithData.add(item.date)
       }
 
       const averageDaily = daysWithData.size > 0 ? monthlyTotal / daysWithData.size : 0
@@ -0,0 +1,366 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Trash2 } from 'lucide-react'
+import {
+  getAnimalSales,
+  createAnimalSale,
+  deleteAnimalSale,
+  type AnimalSaleRecord
+} from '@/lib/services/animal-sale-service'
+import {
+  SALE_PRICE_BASES,
+  SALE_PRICE_BASIS_LABELS,
+  calculateSaleRevenue,
+  summarizeSales,
+  type SalePriceBasis
+} from '@/lib/utils/animal-sales'
+
+interface AnimalSalesDialogProps {
+  farmId: string
+  cycle: { id: string; name: string; startDate: string; endDate: string | null } | null
+  /** Areas and groups the cycle is stocked in */
+  locations: { id: string; name: string; type: 'area' | 'group' }[]
+  onOpenChange: (open: boolean) => void
+  onChange?: () => void
+}
+
+const parseOptionalNumber = (value: string) => {
+  if (!value.trim()) return null
+  const parsed = parseFloat(value.replace(',', '.'))
+  return isNaN(parsed) ? null : parsed
+}
+
+export function AnimalSalesDialog({ farmId, cycle, locations, onOpenChange, onChange }: AnimalSalesDialogProps) {
+  const [sales, setSales] = useState<AnimalSaleRecord[]>([])
+  const [saleDate, setSaleDate] = useState('')
+  const [locationId, setLocationId] = useState('none')
+  const [count, setCount] = useState('')
+  const [liveWeight, setLiveWeight] = useState('')
+  const [carcassWeight, setCarcassWeight] = useState('')
+  const [priceBasis, setPriceBasis] = useState<SalePriceBasis>('per_kg_carcass')
+  const [price, setPrice] = useState('')
+  const [classification, setClassification] = useState('')
+  const [leanMeatPercent, setLeanMeatPercent] = useState('')
+  const [bonusTotal, setBonusTotal] = useState('')
+  const [buyer, setBuyer] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!cycle) return
+    setError(null)
+    getAnimalSales(cycle.id)
+      .then(setSales)
+      .catch(() => setError('Fehler beim Laden der Verkäufe'))
+  }, [cycle?.id])
+
+  const resetForm = () => {
+    setSaleDate('')
+    setLocationId('none')
+    setCount('')
+    setLiveWeight('')
+    setCarcassWeight('')
+    setPrice('')
+    setClassification('')
+    setLeanMeatPercent('')
+    setBonusTotal('')
+  }
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      resetForm()
+      setBuyer('')
+      setSales([])
+    }
+    onOpenChange(isOpen)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!cycle) return
+
+    const animals = parseInt(count, 10)
+    const salePrice = parseOptionalNumber(price)
+    const live = parseOptionalNumber(liveWeight)
+    const carcass = parseOptionalNumber(carcassWeight)
+
+    if (isNaN(animals) || animals <= 0) {
+      setError('Anzahl muss größer als 0 sein')
+      return
+    }
+    if (salePrice === null || salePrice < 0) {
+      setError('Bitte einen Preis angeben')
+      return
+    }
+    if ((priceBasis === 'per_kg_carcass' && !carcass) || (priceBasis === 'per_kg_live' && !live)) {
+      setError('Für einen Preis je kg wird das passende Gewicht benötigt')
+      return
+    }
+    if (saleDate < cycle.startDate || (cycle.endDate && saleDate > cycle.endDate)) {
+      setError('Das Datum muss im Zeitraum des Durchgangs liegen')
+      return
+    }
+
+    const location = locations.find(l => l.id === locationId)
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      await createAnimalSale(farmId, cycle.id, {
+        sale_date: saleDate,
+        area_id: location?.type === 'area' ? location.id : null,
+        area_group_id: location?.type === 'group' ? location.id : null,
+        count: animals,
+        live_weight_per_animal_kg: live,
+        carcass_weight_per_animal_kg: carcass,
+        price_basis: priceBasis,
+        price: salePrice,
+        classification: classification.trim() || null,
+        lean_meat_percent: parseOptionalNumber(leanMeatPercent),
+        bonus_total: parseOptionalNumber(bonusTotal),
+        buyer: buyer.trim() || null,
+        notes: null
+      })
+      setSales(await getAnimalSales(cycle.id))
+      resetForm()
+      onChange?.()
+    } catch {
+      setError('Fehler beim Speichern des Verkaufs')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDelete = async (sale: AnimalSaleRecord) => {
+    try {
+      await deleteAnimalSale(sale.id)
+      setSales(prev => prev.filter(s => s.id !== sale.id))
+      onChange?.()
+    } catch {
+      setError('Fehler beim Löschen des Verkaufs')
+    }
+  }
+
+  const summary = summarizeSales(sales)
+
+  const formatCurrency = (value: number) =>
+    value.toLocaleString('de-DE', { style: 'currency', currency: 'EUR' })
+  const formatWeight = (value: number | null) =>
+    value ? `${Number(value).toLocaleString('de-DE', { maximumFractionDigits: 1 })} kg` : '-'
+
+  return (
+    <Dialog open={!!cycle} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Verkäufe: {cycle?.name}</DialogTitle>
+          <DialogDescription>
+            Verkaufs- und Schlachtpartien des Durchgangs. Sobald Partien erfasst sind, ersetzen sie den
+            Verkaufspreis je Tier und die Endgewichte in der Auswertung.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Datum</TableHead>
+              <TableHead>Bereich / Gruppe</TableHead>
+              <TableHead className="text-right">Tiere</TableHead>
+              <TableHead className="text-right">Ø LG</TableHead>
+              <TableHead className="text-right">Ø SG</TableHead>
+              <TableHead>Preis</TableHead>
+              <TableHead>Klassifizierung</TableHead>
+              <TableHead>Abnehmer</TableHead>
+              <TableHead className="text-right">Erlös</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sales.map(sale => (
+              <TableRow key={sale.id}>
+                <TableCell>{new Date(sale.sale_date).toLocaleDateString('de-DE')}</TableCell>
+                <TableCell>{sale.areas?.name || sale.area_groups?.name || '-'}</TableCell>
+                <TableCell className="text-right">{sale.count}</TableCell>
+                <TableCell className="text-right">{formatWeight(sale.live_weight_per_animal_kg)}</TableCell>
+                <TableCell className="text-right">{formatWeight(sale.carcass_weight_per_animal_kg)}</TableCell>
+                <TableCell>
+                  {Number(sale.price).toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 3 })}{' '}
+                  {SALE_PRICE_BASIS_LABELS[sale.price_basis as SalePriceBasis] || sale.price_basis}
+                </TableCell>
+                <TableCell>
+                  {[sale.classification, sale.lean_meat_percent ? `${sale.lean_meat_percent} % MFA` : null]
+                    .filter(Boolean).join(' · ') || '-'}
+                  {sale.bonus_total ? (
+                    <span className={sale.bonus_total >= 0 ? 'text-green-600' : 'text-red-600'}>
+                      {' '}({sale.bonus_total >= 0 ? '+' : ''}{formatCurrency(Number(sale.bonus_total))})
+                    </span>
+                  ) : null}
+                </TableCell>
+                <TableCell>{sale.buyer || '-'}</TableCell>
+                <TableCell className="text-right">{formatCurrency(calculateSaleRevenue(sale))}</TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(sale)}
+                    className="text-red-600 hover:text-red-700"
+                    aria-label="Verkauf löschen"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {sales.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={10} className="text-center py-6 text-muted-foreground">
+                  Noch keine Verkäufe erfasst.
+                </TableCell>
+              </TableRow>
+            )}
+            {sales.length > 0 && (
+              <TableRow className="font-medium">
+                <TableCell colSpan={2}>Summe</TableCell>
+                <TableCell className="text-right">{summary.soldAnimals}</TableCell>
+                <TableCell className="text-right">{formatWeight(summary.averageLiveWeight)}</TableCell>
+                <TableCell className="text-right">{formatWeight(summary.averageCarcassWeight)}</TableCell>
+                <TableCell colSpan={3}>
+                  {summary.dressingPercentage !== null &&
+                    `Ausschlachtung ${summary.dressingPercentage.toLocaleString('de-DE', { maximumFractionDigits: 1 })} %`}
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(summary.revenue)}</TableCell>
+                <TableCell></TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-4 gap-4 pt-2">
+          <div className="space-y-2">
+            <Label htmlFor="saleDate">Datum *</Label>
+            <Input
+              id="saleDate"
+              type="date"
+              value={saleDate}
+              min={cycle?.startDate}
+              max={cycle?.endDate || undefined}
+              onChange={(e) => setSaleDate(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="saleLocation">Bereich / Gruppe</Label>
+            <Select value={locationId} onValueChange={setLocationId}>
+              <SelectTrigger id="saleLocation">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Nicht zugeordnet</SelectItem>
+                {locations.map(location => (
+                  <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="saleCount">Anzahl Tiere *</Label>
+            <Input
+              id="saleCount"
+              type="number"
+              min="1"
+              value={count}
+              onChange={(e) => setCount(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="saleBuyer">Abnehmer</Label>
+            <Input
+              id="saleBuyer"
+              value={buyer}
+              onChange={(e) => setBuyer(e.target.value)}
+              placeholder="z.B. Schlachthof"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="saleLiveWeight">Ø Lebendgewicht (kg)</Label>
+            <Input id="saleLiveWeight" inputMode="decimal" value={liveWeight} onChange={(e) => setLiveWeight(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="saleCarcassWeight">Ø Schlachtgewicht (kg)</Label>
+            <Input
+              id="saleCarcassWeight"
+              inputMode="decimal"
+              value={carcassWeight}
+              onChange={(e) => setCarcassWeight(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="salePriceBasis">Preisbasis *</Label>
+            <Select value={priceBasis} onValueChange={(value) => setPriceBasis(value as SalePriceBasis)}>
+              <SelectTrigger id="salePriceBasis">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SALE_PRICE_BASES.map(basis => (
+                  <SelectItem key={basis} value={basis}>{SALE_PRICE_BASIS_LABELS[basis]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="salePrice">Preis *</Label>
+            <Input id="salePrice" inputMode="decimal" value={price} onChange={(e) => setPrice(e.target.value)} required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="saleClassification">Klassifizierung</Label>
+            <Input
+              id="saleClassification"
+              value={classification}
+              onChange={(e) => setClassification(e.target.value)}
+              placeholder="z.B. E, U, R3"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="saleLeanMeat">Magerfleischanteil (%)</Label>
+            <Input
+              id="saleLeanMeat"
+              inputMode="decimal"
+              value={leanMeatPercent}
+              onChange={(e) => setLeanMeatPercent(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="saleBonus">Zu-/Abschläge gesamt (€)</Label>
+            <Input
+              id="saleBonus"
+              inputMode="decimal"
+              value={bonusTotal}
+              onChange={(e) => setBonusTotal(e.target.value)}
+              placeholder="z.B. 120 oder -35"
+            />
+          </div>
+          <div className="flex items-end justify-end">
+            <Button type="submit" disabled={loading || !saleDate}>
+              {loading ? 'Wird gespeichert...' : 'Verkauf erfassen'}
+            </Button>
+          </div>
+        </form>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,223 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Trash2 } from 'lucide-react'
+import {
+  getFeedAnalyses,
+  createFeedAnalysis,
+  deleteFeedAnalysis,
+  type FeedAnalysisRecord
+} from '@/lib/services/feed-analysis-service'
+
+interface FeedAnalysesDialogProps {
+  farmId: string
+  feedType: { id: string; name: string } | null
+  onOpenChange: (open: boolean) => void
+}
+
+const parseOptionalNumber = (value: string) => {
+  if (!value.trim()) return null
+  const parsed = parseFloat(value.replace(',', '.'))
+  return isNaN(parsed) ? null : parsed
+}
+
+export function FeedAnalysesDialog({ farmId, feedType, onOpenChange }: FeedAnalysesDialogProps) {
+  const [analyses, setAnalyses] = useState<FeedAnalysisRecord[]>([])
+  const [validFrom, setValidFrom] = useState('')
+  const [dryMatterPercent, setDryMatterPercent] = useState('')
+  const [meMj, setMeMj] = useState('')
+  const [nelMj, setNelMj] = useState('')
+  const [crudeProtein, setCrudeProtein] = useState('')
+  const [labName, setLabName] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!feedType) return
+    setError(null)
+    getFeedAnalyses(farmId, feedType.id)
+      .then(setAnalyses)
+      .catch(() => setError('Fehler beim Laden der Analysen'))
+  }, [farmId, feedType])
+
+  const resetForm = () => {
+    setValidFrom('')
+    setDryMatterPercent('')
+    setMeMj('')
+    setNelMj('')
+    setCrudeProtein('')
+    setLabName('')
+  }
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      resetForm()
+      setAnalyses([])
+    }
+    onOpenChange(isOpen)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!feedType) return
+
+    const dryMatter = parseOptionalNumber(dryMatterPercent)
+    if (dryMatter === null || dryMatter <= 0 || dryMatter > 100) {
+      setError('Trockenmasse muss zwischen 0 und 100 % liegen')
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const analysis = await createFeedAnalysis(farmId, feedType.id, {
+        valid_from: validFrom,
+        dry_matter_percent: dryMatter,
+        me_mj_per_kg_dm: parseOptionalNumber(meMj),
+        nel_mj_per_kg_dm: parseOptionalNumber(nelMj),
+        crude_protein_g_per_kg_dm: parseOptionalNumber(crudeProtein),
+        lab_name: labName.trim() || null,
+        notes: null
+      })
+      setAnalyses(prev => [analysis, ...prev].sort((a, b) => b.valid_from.localeCompare(a.valid_from)))
+      resetForm()
+    } catch {
+      setError('Fehler beim Speichern der Analyse')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDelete = async (analysis: FeedAnalysisRecord) => {
+    try {
+      await deleteFeedAnalysis(analysis.id)
+      setAnalyses(prev => prev.filter(a => a.id !== analysis.id))
+    } catch {
+      setError('Fehler beim Löschen der Analyse')
+    }
+  }
+
+  const formatValue = (value: number | null, digits = 1) =>
+    value === null ? '-' : Number(value).toLocaleString('de-DE', { maximumFractionDigits: digits })
+
+  return (
+    <Dialog open={!!feedType} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Futteranalysen: {feedType?.name}</DialogTitle>
+          <DialogDescription>
+            Eine Analyse gilt ab dem Probenahmedatum bis zur nächsten Analyse.
+            Energie und Rohprotein beziehen sich auf 1 kg Trockenmasse.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Gültig ab</TableHead>
+              <TableHead className="text-right">TS %</TableHead>
+              <TableHead className="text-right">MJ ME/kg TM</TableHead>
+              <TableHead className="text-right">MJ NEL/kg TM</TableHead>
+              <TableHead className="text-right">XP g/kg TM</TableHead>
+              <TableHead>Labor</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {analyses.map(analysis => (
+              <TableRow key={analysis.id}>
+                <TableCell>{new Date(analysis.valid_from).toLocaleDateString('de-DE')}</TableCell>
+                <TableCell className="text-right">{formatValue(analysis.dry_matter_percent)}</TableCell>
+                <TableCell className="text-right">{formatValue(analysis.me_mj_per_kg_dm, 2)}</TableCell>
+                <TableCell className="text-right">{formatValue(analysis.nel_mj_per_kg_dm, 2)}</TableCell>
+                <TableCell className="text-right">{formatValue(analysis.crude_protein_g_per_kg_dm, 0)}</TableCell>
+                <TableCell>{analysis.lab_name || '-'}</TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(analysis)}
+                    className="text-red-600 hover:text-red-700"
+                    aria-label="Analyse löschen"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {analyses.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-6 text-muted-foreground">
+                  Noch keine Analysen erfasst.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-3 gap-4 pt-2">
+          <div className="space-y-2">
+            <Label htmlFor="analysisValidFrom">Gültig ab *</Label>
+            <Input
+              id="analysisValidFrom"
+              type="date"
+              value={validFrom}
+              onChange={(e) => setValidFrom(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="analysisDryMatter">Trockenmasse (%) *</Label>
+            <Input
+              id="analysisDryMatter"
+              inputMode="decimal"
+              value={dryMatterPercent}
+              onChange={(e) => setDryMatterPercent(e.target.value)}
+              placeholder="z.B. 35"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="analysisLab">Labor</Label>
+            <Input id="analysisLab" value={labName} onChange={(e) => setLabName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="analysisMe">MJ ME/kg TM</Label>
+            <Input id="analysisMe" inputMode="decimal" value={meMj} onChange={(e) => setMeMj(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="analysisNel">MJ NEL/kg TM</Label>
+            <Input id="analysisNel" inputMode="decimal" value={nelMj} onChange={(e) => setNelMj(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="analysisProtein">Rohprotein (g/kg TM)</Label>
+            <Input
+              id="analysisProtein"
+              inputMode="decimal"
+              value={crudeProtein}
+              onChange={(e) => setCrudeProtein(e.target.value)}
+            />
+          </div>
+          <div className="col-span-3 flex justify-end">
+            <Button type="submit" disabled={loading || !validFrom}>
+              {loading ? 'Wird gespeichert...' : 'Analyse hinzufügen'}
+            </Button>
+          </div>
+        </form>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,185 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Edit, Truck } from 'lucide-react'
+import {
+  getSupplierShares,
+  saveSupplierShares,
+  type FeedTypeSupplierShare
+} from '@/lib/services/supplier-share-service'
+
+interface FeedSupplierSharesProps {
+  farmId: string
+  feedTypes: { id: string; name: string }[]
+  suppliers: { id: string; name: string }[]
+}
+
+export function FeedSupplierShares({ farmId, feedTypes, suppliers }: FeedSupplierSharesProps) {
+  const [shares, setShares] = useState<FeedTypeSupplierShare[]>([])
+  const [editingFeedTypeId, setEditingFeedTypeId] = useState<string | null>(null)
+  const [shareInputs, setShareInputs] = useState<Record<string, string>>({})
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    loadShares()
+  }, [farmId])
+
+  const loadShares = async () => {
+    try {
+      setShares(await getSupplierShares(farmId))
+    } catch {
+      setShares([])
+    }
+  }
+
+  const supplierName = (id: string) => suppliers.find(supplier => supplier.id === id)?.name || 'Unbekannt'
+  const sharesOf = (feedTypeId: string) => shares.filter(share => share.feed_type_id === feedTypeId)
+
+  const handleEdit = (feedTypeId: string) => {
+    setEditingFeedTypeId(feedTypeId)
+    setError(null)
+    setShareInputs(Object.fromEntries(
+      sharesOf(feedTypeId).map(share => [share.supplier_id, String(share.share)])
+    ))
+  }
+
+  const handleSave = async () => {
+    if (!editingFeedTypeId) return
+    setLoading(true)
+    setError(null)
+
+    try {
+      const entries = Object.entries(shareInputs)
+        .map(([supplierId, value]) => ({ supplierId, share: parseFloat(value.replace(',', '.')) }))
+        .filter(entry => entry.share > 0)
+      // A single supplier is the default supplier and takes all consumption
+      await saveSupplierShares(
+        farmId,
+        editingFeedTypeId,
+        entries.length === 1 ? [{ ...entries[0], share: 100 }] : entries
+      )
+      setEditingFeedTypeId(null)
+      loadShares()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Speichern')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const editingFeedType = feedTypes.find(ft => ft.id === editingFeedTypeId)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Truck className="h-5 w-5" />
+          Lieferantenanteile
+        </CardTitle>
+        <CardDescription>
+          Verbrauch ohne Lieferant aus dem Import wird dem Standardlieferanten bzw. anteilig den
+          Lieferanten zugeordnet und mit deren Preisstaffel bewertet
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Futtermittel</TableHead>
+              <TableHead>Lieferanten</TableHead>
+              <TableHead>Aktionen</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {feedTypes.map(feedType => {
+              const feedTypeShares = sharesOf(feedType.id)
+              return (
+                <TableRow key={feedType.id}>
+                  <TableCell className="font-medium">{feedType.name}</TableCell>
+                  <TableCell>
+                    {feedTypeShares.length === 0 ? (
+                      <span className="text-muted-foreground">Keine Zuordnung</span>
+                    ) : (
+                      <div className="flex flex-wrap gap-1">
+                        {feedTypeShares.map(share => (
+                          <Badge key={share.supplier_id} variant="secondary">
+                            {supplierName(share.supplier_id)}
+                            {feedTypeShares.length > 1 && ` ${Number(share.share).toLocaleString('de-DE')} %`}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleEdit(feedType.id)}
+                      disabled={suppliers.length === 0}
+                      className="flex items-center gap-1"
+                    >
+                      <Edit className="h-3 w-3" />
+                      Bearbeiten
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={!!editingFeedTypeId} onOpenChange={(open) => !open && setEditingFeedTypeId(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Lieferanten für {editingFeedType?.name}</DialogTitle>
+            <DialogDescription>
+              Ein einzelner Lieferant wird Standardlieferant. Bei mehreren Lieferanten müssen die
+              Anteile 100 % ergeben.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3 py-4">
+            {suppliers.map(supplier => (
+              <div key={supplier.id} className="flex items-center justify-between gap-4">
+                <Label htmlFor={`share-${supplier.id}`} className="flex-1">{supplier.name}</Label>
+                <Input
+                  id={`share-${supplier.id}`}
+                  className="w-24"
+                  inputMode="decimal"
+                  placeholder="%"
+                  value={shareInputs[supplier.id] || ''}
+                  onChange={(e) => setShareInputs(prev => ({ ...prev, [supplier.id]: e.target.value }))}
+                  disabled={loading}
+                />
+              </div>
+            ))}
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingFeedTypeId(null)} disabled={loading}>
+              Abbrechen
+            </Button>
+            <Button onClick={handleSave} disabled={loading}>
+              {loading ? 'Wird gespeichert...' : 'Speichern'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,284 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Trash2 } from 'lucide-react'
+import {
+  getMortalityEvents,
+  createMortalityEvent,
+  deleteMortalityEvent,
+  type MortalityEventRecord
+} from '@/lib/services/mortality-service'
+import {
+  MORTALITY_EVENT_TYPES,
+  MORTALITY_EVENT_TYPE_LABELS,
+  type MortalityEventType
+} from '@/lib/utils/mortality'
+
+interface MortalityEventsDialogProps {
+  farmId: string
+  cycle: { id: string; name: string; startDate: string; endDate: string | null } | null
+  /** Areas and groups the cycle is stocked in */
+  locations: { id: string; name: string; type: 'area' | 'group' }[]
+  onOpenChange: (open: boolean) => void
+  onChange?: () => void
+}
+
+const parseOptionalNumber = (value: string) => {
+  if (!value.trim()) return null
+  const parsed = parseFloat(value.replace(',', '.'))
+  return isNaN(parsed) ? null : parsed
+}
+
+export function MortalityEventsDialog({ farmId, cycle, locations, onOpenChange, onChange }: MortalityEventsDialogProps) {
+  const [events, setEvents] = useState<MortalityEventRecord[]>([])
+  const [eventDate, setEventDate] = useState('')
+  const [eventType, setEventType] = useState<MortalityEventType>('death')
+  const [locationId, setLocationId] = useState('none')
+  const [count, setCount] = useState('1')
+  const [cause, setCause] = useState('')
+  const [disposalCost, setDisposalCost] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!cycle) return
+    setError(null)
+    getMortalityEvents(cycle.id)
+      .then(setEvents)
+      .catch(() => setError('Fehler beim Laden der Abgänge'))
+  }, [cycle?.id])
+
+  const resetForm = () => {
+    setEventDate('')
+    setEventType('death')
+    setLocationId('none')
+    setCount('1')
+    setCause('')
+    setDisposalCost('')
+  }
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      resetForm()
+      setEvents([])
+    }
+    onOpenChange(isOpen)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!cycle) return
+
+    const animals = parseInt(count, 10)
+    if (isNaN(animals) || animals <= 0) {
+      setError('Anzahl muss größer als 0 sein')
+      return
+    }
+    if (eventDate < cycle.startDate || (cycle.endDate && eventDate > cycle.endDate)) {
+      setError('Das Datum muss im Zeitraum des Durchgangs liegen')
+      return
+    }
+
+    const location = locations.find(l => l.id === locationId)
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      await createMortalityEvent(farmId, cycle.id, {
+        event_date: eventDate,
+        event_type: eventType,
+        count: animals,
+        area_id: location?.type === 'area' ? location.id : null,
+        area_group_id: location?.type === 'group' ? location.id : null,
+        cause: cause.trim() || null,
+        disposal_cost: parseOptionalNumber(disposalCost),
+        notes: null
+      })
+      setEvents(await getMortalityEvents(cycle.id))
+      resetForm()
+      onChange?.()
+    } catch {
+      setError('Fehler beim Speichern des Abgangs')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDelete = async (event: MortalityEventRecord) => {
+    if (!cycle) return
+    try {
+      await deleteMortalityEvent(event.id, cycle.id)
+      setEvents(prev => prev.filter(e => e.id !== event.id))
+      onChange?.()
+    } catch {
+      setError('Fehler beim Löschen des Abgangs')
+    }
+  }
+
+  const totalLosses = events.reduce((sum, event) => sum + event.count, 0)
+  const totalDisposalCosts = events.reduce((sum, event) => sum + (Number(event.disposal_cost) || 0), 0)
+
+  const formatCurrency = (value: number) =>
+    value.toLocaleString('de-DE', { style: 'currency', currency: 'EUR' })
+
+  return (
+    <Dialog open={!!cycle} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Abgänge: {cycle?.name}</DialogTitle>
+          <DialogDescription>
+            Verendete, notgeschlachtete und gemerzte Tiere. Die Verlustrate des Durchgangs wird aus den
+            erfassten Abgängen berechnet, Entsorgungskosten zählen zu den Zusatzkosten.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Datum</TableHead>
+              <TableHead>Art</TableHead>
+              <TableHead>Bereich / Gruppe</TableHead>
+              <TableHead className="text-right">Anzahl</TableHead>
+              <TableHead>Ursache</TableHead>
+              <TableHead className="text-right">Entsorgung</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {events.map(event => (
+              <TableRow key={event.id}>
+                <TableCell>{new Date(event.event_date).toLocaleDateString('de-DE')}</TableCell>
+                <TableCell>
+                  {MORTALITY_EVENT_TYPE_LABELS[event.event_type as MortalityEventType] || event.event_type}
+                </TableCell>
+                <TableCell>{event.areas?.name || event.area_groups?.name || '-'}</TableCell>
+                <TableCell className="text-right">{event.count}</TableCell>
+                <TableCell>{event.cause || '-'}</TableCell>
+                <TableCell className="text-right">
+                  {event.disposal_cost !== null ? formatCurrency(Number(event.disposal_cost)) : '-'}
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(event)}
+                    className="text-red-600 hover:text-red-700"
+                    aria-label="Abgang löschen"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {events.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-6 text-muted-foreground">
+                  Noch keine Abgänge erfasst.
+                </TableCell>
+              </TableRow>
+            )}
+            {events.length > 0 && (
+              <TableRow className="font-medium">
+                <TableCell colSpan={3}>Summe</TableCell>
+                <TableCell className="text-right">{totalLosses}</TableCell>
+                <TableCell></TableCell>
+                <TableCell className="text-right">{formatCurrency(totalDisposalCosts)}</TableCell>
+                <TableCell></TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-3 gap-4 pt-2">
+          <div className="space-y-2">
+            <Label htmlFor="lossDate">Datum *</Label>
+            <Input
+              id="lossDate"
+              type="date"
+              value={eventDate}
+              min={cycle?.startDate}
+              max={cycle?.endDate || undefined}
+              onChange={(e) => setEventDate(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="lossType">Art *</Label>
+            <Select value={eventType} onValueChange={(value) => setEventType(value as MortalityEventType)}>
+              <SelectTrigger id="lossType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MORTALITY_EVENT_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{MORTALITY_EVENT_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="lossLocation">Bereich / Gruppe</Label>
+            <Select value={locationId} onValueChange={setLocationId}>
+              <SelectTrigger id="lossLocation">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Nicht zugeordnet</SelectItem>
+                {locations.map(location => (
+                  <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="lossCount">Anzahl Tiere *</Label>
+            <Input
+              id="lossCount"
+              type="number"
+              min="1"
+              value={count}
+              onChange={(e) => setCount(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="lossCause">Ursache</Label>
+            <Input
+              id="lossCause"
+              value={cause}
+              onChange={(e) => setCause(e.target.value)}
+              placeholder="z.B. Kreislaufversagen"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="lossDisposalCost">Entsorgungskosten (€)</Label>
+            <Input
+              id="lossDisposalCost"
+              inputMode="decimal"
+              value={disposalCost}
+              onChange={(e) => setDisposalCost(e.target.value)}
+            />
+          </div>
+          <div className="col-span-3 flex justify-end">
+            <Button type="submit" disabled={loading || !eventDate}>
+              {loading ? 'Wird gespeichert...' : 'Abgang erfassen'}
+            </Button>
+          </div>
+        </form>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
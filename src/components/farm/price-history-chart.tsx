@@ -0,0 +1,124 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig } from '@/components/ui/chart'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid } from 'recharts'
+import { LineChart as LineChartIcon } from 'lucide-react'
+import { normalizeTierUnits, type FeedTypeUnit } from '@/lib/utils/feed-calculations'
+import { buildPriceHistory, type HistoryTier } from '@/lib/utils/price-scenarios'
+import { formatUnit } from '@/lib/utils/units'
+
+const CHART_COLORS = [
+  'var(--chart-1)',
+  'var(--chart-2)',
+  'var(--chart-3)',
+  'var(--chart-4)',
+  'var(--chart-5)',
+]
+
+interface PriceHistoryChartProps {
+  priceTiers: (HistoryTier & { unit?: string | null })[]
+  feedTypes: (FeedTypeUnit & { name: string })[]
+  suppliers: { id: string; name: string }[]
+}
+
+export function PriceHistoryChart({ priceTiers, feedTypes, suppliers }: PriceHistoryChartProps) {
+  const [feedTypeId, setFeedTypeId] = useState(feedTypes[0]?.id || '')
+  const feedType = feedTypes.find(ft => ft.id === feedTypeId)
+
+  const history = useMemo(
+    () => buildPriceHistory(
+      normalizeTierUnits(priceTiers, feedTypes),
+      feedTypeId,
+      new Date().toISOString().split('T')[0]
+    ),
+    [priceTiers, feedTypes, feedTypeId]
+  )
+
+  const chartConfig = useMemo(() => {
+    const config: ChartConfig = {}
+    history.series.forEach((series, index) => {
+      config[series.key] = {
+        label: series.supplierId
+          ? suppliers.find(s => s.id === series.supplierId)?.name || 'Unbekannt'
+          : 'Ohne Lieferant',
+        color: CHART_COLORS[index % CHART_COLORS.length],
+      }
+    })
+    return config
+  }, [history, suppliers])
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <LineChartIcon className="h-5 w-5" />
+            Preisentwicklung
+          </CardTitle>
+          <CardDescription>
+            Preisverlauf je Lieferant in €/{formatUnit(feedType?.unit)}
+          </CardDescription>
+        </div>
+        <Select value={feedTypeId} onValueChange={setFeedTypeId}>
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder="Futtermittel wählen" />
+          </SelectTrigger>
+          <SelectContent>
+            {feedTypes.map(ft => (
+              <SelectItem key={ft.id} value={ft.id}>{ft.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {history.points.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Für dieses Futtermittel sind keine Preisstaffeln erfasst.
+          </p>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-64 w-full">
+            <LineChart data={history.points} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="date"
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                minTickGap={32}
+                tickFormatter={(value) => new Date(value).toLocaleDateString('de-DE', { month: 'short', year: '2-digit' })}
+              />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                width={56}
+                tickFormatter={(value) => Number(value).toLocaleString('de-DE', { maximumFractionDigits: 3 })}
+              />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(value) => new Date(value).toLocaleDateString('de-DE')}
+                  />
+                }
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              {history.series.map(series => (
+                <Line
+                  key={series.key}
+                  dataKey={series.key}
+                  type="stepAfter"
+                  stroke={`var(--color-${series.key})`}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls={false}
+                />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
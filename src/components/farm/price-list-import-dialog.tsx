@@ -0,0 +1,239 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { AlertTriangle } from 'lucide-react'
+import { isSpreadsheetFile, readDelimitedText, type DelimitedTable } from '@/lib/import-adapters/shared'
+import {
+  parsePriceList,
+  planPriceListImport,
+  type PriceListImportEntry,
+  type PriceListIssue
+} from '@/lib/utils/price-list-import'
+import { formatUnit } from '@/lib/utils/units'
+import { getPriceListContext, importPriceList } from '@/lib/services/price-list-service'
+
+interface PriceListImportDialogProps {
+  farmId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImported: () => void
+}
+
+export function PriceListImportDialog({ farmId, open, onOpenChange, onImported }: PriceListImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [pastedText, setPastedText] = useState('')
+  const [defaultValidFrom, setDefaultValidFrom] = useState('')
+  const [entries, setEntries] = useState<PriceListImportEntry[] | null>(null)
+  const [issues, setIssues] = useState<PriceListIssue[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const reset = () => {
+    setFile(null)
+    setPastedText('')
+    setDefaultValidFrom('')
+    setEntries(null)
+    setIssues([])
+    setError(null)
+  }
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) reset()
+    onOpenChange(isOpen)
+  }
+
+  const readTable = async (): Promise<DelimitedTable> => {
+    if (!file) return readDelimitedText(pastedText)
+
+    if (isSpreadsheetFile(file.name)) {
+      const { readSpreadsheet } = await import('@/lib/import-adapters/spreadsheet')
+      return readSpreadsheet(await file.arrayBuffer())[0].table
+    }
+    return readDelimitedText(await file.text())
+  }
+
+  const handlePreview = async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const [table, context] = await Promise.all([readTable(), getPriceListContext(farmId)])
+      const result = parsePriceList(table, defaultValidFrom || null)
+      setIssues(result.issues)
+      setEntries(planPriceListImport(result.rows, context))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Lesen der Preisliste')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!entries) return
+    setLoading(true)
+    setError(null)
+
+    try {
+      await importPriceList(farmId, entries, file ? `Preisliste ${file.name}` : 'Preisliste')
+      handleOpenChange(false)
+      onImported()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Importieren')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const formatDate = (dateString: string | null) =>
+    dateString ? new Date(dateString).toLocaleDateString('de-DE') : 'offen'
+
+  const importableCount = entries?.filter(entry => !entry.error).length || 0
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Preisliste importieren</DialogTitle>
+          <DialogDescription>
+            CSV- oder Excel-Datei mit Futtermittel, Preis und optional Lieferant, Einheit und Gültigkeit.
+            Tabellen aus PDF-Preislisten können kopiert und eingefügt werden.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!entries ? (
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="priceListFile">Datei</Label>
+              <Input
+                id="priceListFile"
+                type="file"
+                accept=".csv,.txt,.xlsx,.xls,.ods"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                disabled={loading}
+              />
+            </div>
+            {!file && (
+              <div className="space-y-2">
+                <Label htmlFor="priceListText">oder Tabelle einfügen</Label>
+                <Textarea
+                  id="priceListText"
+                  rows={6}
+                  placeholder={'Futtermittel;Lieferant;Preis (€/kg);Gültig ab\nSojaschrot;Agrarhandel Nord;0,52;01.04.2025'}
+                  value={pastedText}
+                  onChange={(e) => setPastedText(e.target.value)}
+                  disabled={loading}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="defaultValidFrom">Gültig ab (für Zeilen ohne Datum)</Label>
+              <Input
+                id="defaultValidFrom"
+                type="date"
+                className="w-44"
+                value={defaultValidFrom}
+                onChange={(e) => setDefaultValidFrom(e.target.value)}
+                disabled={loading}
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4 py-4">
+            {issues.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  {issues.map(issue => `Zeile ${issue.sourceRow + 2}: ${issue.message}`).join(' · ')}
+                </AlertDescription>
+              </Alert>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Futtermittel</TableHead>
+                  <TableHead>Lieferant</TableHead>
+                  <TableHead className="text-right">Preis</TableHead>
+                  <TableHead>Gültig</TableHead>
+                  <TableHead>Auswirkung</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => (
+                  <TableRow key={entry.row.sourceRow}>
+                    <TableCell>
+                      <div className="font-medium">{entry.feedTypeName || entry.row.feedName}</div>
+                      {entry.feedTypeName && entry.feedTypeName !== entry.row.feedName && (
+                        <div className="text-xs text-muted-foreground">aus „{entry.row.feedName}“</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{entry.row.supplierName || '-'}</TableCell>
+                    <TableCell className="text-right">
+                      {entry.row.pricePerUnit.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 3 })} €
+                      {entry.row.unit && `/${formatUnit(entry.row.unit)}`}
+                    </TableCell>
+                    <TableCell>{formatDate(entry.row.validFrom)} – {formatDate(entry.validTo)}</TableCell>
+                    <TableCell>
+                      {entry.error ? (
+                        <span className="text-sm text-destructive">{entry.error}</span>
+                      ) : (
+                        <div className="flex flex-wrap gap-1">
+                          <Badge variant="secondary">Neu</Badge>
+                          {entry.closes.map(close => (
+                            <Badge key={close.tier.id} variant="outline">
+                              Beendet {Number(close.tier.price_per_unit).toLocaleString('de-DE')} € zum {formatDate(close.validTo)}
+                            </Badge>
+                          ))}
+                          {entry.overlaps.map(tier => (
+                            <Badge key={tier.id} variant="destructive">
+                              Überschneidung ab {formatDate(tier.valid_from)}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          {entries ? (
+            <>
+              <Button variant="outline" onClick={() => setEntries(null)} disabled={loading}>
+                Zurück
+              </Button>
+              <Button onClick={handleImport} disabled={loading || importableCount === 0}>
+                {loading ? 'Wird importiert...' : `${importableCount} Preisstaffeln importieren`}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={loading}>
+                Abbrechen
+              </Button>
+              <Button onClick={handlePreview} disabled={loading || (!file && !pastedText.trim())}>
+                {loading ? 'Wird gelesen...' : 'Vorschau'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
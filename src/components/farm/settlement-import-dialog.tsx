@@ -0,0 +1,434 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { AlertTriangle } from 'lucide-react'
+import { isSpreadsheetFile, type DelimitedTable } from '@/lib/import-adapters/shared'
+import {
+  readSettlementText,
+  parseSettlement,
+  calculateCarcassRevenue,
+  summarizeSettlement,
+  compareWithEstimate,
+  buildSettlementSale,
+  type SettlementParseResult
+} from '@/lib/utils/slaughter-settlement'
+import { createAnimalSale } from '@/lib/services/animal-sale-service'
+
+interface SettlementImportDialogProps {
+  farmId: string
+  open: boolean
+  cycles: {
+    id: string
+    name: string
+    startDate: string
+    endDate: string | null
+    sellPricePerAnimal: number | null
+    /** Areas and groups the cycle is stocked in */
+    locations: { id: string; name: string; type: 'area' | 'group' }[]
+  }[]
+  onOpenChange: (open: boolean) => void
+  onImported: () => void
+}
+
+const parseOptionalNumber = (value: string) => {
+  if (!value.trim()) return null
+  const parsed = parseFloat(value.replace(',', '.'))
+  return isNaN(parsed) ? null : parsed
+}
+
+export function SettlementImportDialog({ farmId, open, cycles, onOpenChange, onImported }: SettlementImportDialogProps) {
+  const [cycleId, setCycleId] = useState('')
+  const [locationId, setLocationId] = useState('none')
+  const [file, setFile] = useState<File | null>(null)
+  const [pastedText, setPastedText] = useState('')
+  const [saleDate, setSaleDate] = useState('')
+  const [buyer, setBuyer] = useState('')
+  const [liveWeightTotal, setLiveWeightTotal] = useState('')
+  const [pricePerIndexPoint, setPricePerIndexPoint] = useState('')
+  const [basePricePerKg, setBasePricePerKg] = useState('')
+  const [settlement, setSettlement] = useState<SettlementParseResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const cycle = cycles.find(c => c.id === cycleId)
+
+  const reset = () => {
+    setCycleId('')
+    setLocationId('none')
+    setFile(null)
+    setPastedText('')
+    setSaleDate('')
+    setBuyer('')
+    setLiveWeightTotal('')
+    setPricePerIndexPoint('')
+    setBasePricePerKg('')
+    setSettlement(null)
+    setError(null)
+  }
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) reset()
+    onOpenChange(isOpen)
+  }
+
+  const readTable = async (): Promise<DelimitedTable> => {
+    if (!file) return readSettlementText(pastedText)
+
+    if (isSpreadsheetFile(file.name)) {
+      const { readSpreadsheet } = await import('@/lib/import-adapters/spreadsheet')
+      return readSpreadsheet(await file.arrayBuffer())[0].table
+    }
+    return readSettlementText(await file.text())
+  }
+
+  const handlePreview = async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const result = parseSettlement(await readTable())
+      if (result.carcasses.length === 0) {
+        throw new Error('Die Abrechnung enthält keine Schlachtkörper')
+      }
+      setSettlement(result)
+      if (!saleDate && result.slaughterDate) setSaleDate(result.slaughterDate)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Lesen der Abrechnung')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const priceMask = {
+    pricePerIndexPoint: parseOptionalNumber(pricePerIndexPoint),
+    basePricePerKg: parseOptionalNumber(basePricePerKg),
+  }
+  const summary = settlement
+    ? summarizeSettlement(settlement.carcasses, priceMask, parseOptionalNumber(liveWeightTotal))
+    : null
+  const comparison = summary && cycle
+    ? compareWithEstimate(summary.revenue, summary.count, cycle.sellPricePerAnimal)
+    : null
+
+  const handleImport = async () => {
+    if (!settlement || !summary || !cycle) return
+
+    if (!saleDate) {
+      setError('Bitte das Schlachtdatum angeben')
+      return
+    }
+    if (saleDate < cycle.startDate || (cycle.endDate && saleDate > cycle.endDate)) {
+      setError('Das Datum muss im Zeitraum des Durchgangs liegen')
+      return
+    }
+    if (summary.unpricedCount > 0) {
+      setError(`Für ${summary.unpricedCount} Schlachtkörper fehlt der Betrag – bitte Preis je Indexpunkt oder Grundpreis angeben`)
+      return
+    }
+
+    const location = cycle.locations.find(l => l.id === locationId)
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      await createAnimalSale(farmId, cycle.id, {
+        ...buildSettlementSale(summary, saleDate, settlement.settlementNumber),
+        area_id: location?.type === 'area' ? location.id : null,
+        area_group_id: location?.type === 'group' ? location.id : null,
+        buyer: buyer.trim() || null,
+      })
+      handleOpenChange(false)
+      onImported()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Importieren')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const formatCurrency = (value: number) =>
+    value.toLocaleString('de-DE', { style: 'currency', currency: 'EUR' })
+
+  const formatNumber = (value: number | null, digits = 1) =>
+    value !== null ? value.toLocaleString('de-DE', { maximumFractionDigits: digits }) : '-'
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Schlachtabrechnung importieren</DialogTitle>
+          <DialogDescription>
+            CSV- oder Excel-Datei des Schlachthofs mit einer Zeile je Schlachtkörper (Schlachtgewicht, MFA,
+            Indexpunkte, Klasse, Betrag). Die Abrechnung wird als Verkaufspartie im Durchgang erfasst.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!settlement || !summary ? (
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Durchgang</Label>
+                <Select
+                  value={cycleId}
+                  onValueChange={(value) => {
+                    setCycleId(value)
+                    setLocationId('none')
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Durchgang wählen" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {cycles.map(c => (
+                      <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Bereich / Gruppe</Label>
+                <Select value={locationId} onValueChange={setLocationId} disabled={!cycle}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Ganzer Durchgang</SelectItem>
+                    {cycle?.locations.map(location => (
+                      <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settlementFile">Datei</Label>
+              <Input
+                id="settlementFile"
+                type="file"
+                accept=".csv,.txt,.xlsx,.xls,.ods"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                disabled={loading}
+              />
+            </div>
+            {!file && (
+              <div className="space-y-2">
+                <Label htmlFor="settlementText">oder Tabelle einfügen</Label>
+                <Textarea
+                  id="settlementText"
+                  rows={6}
+                  placeholder={'Schlacht-Nr;Schlachtgewicht (kg);MFA (%);IXP/kg;Klasse;Auszahlung (€)\n101;95,0;60,1;1,000;E;190,00'}
+                  value={pastedText}
+                  onChange={(e) => setPastedText(e.target.value)}
+                  disabled={loading}
+                />
+              </div>
+            )}
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="liveWeightTotal">Lebendgewicht der Lieferung (kg)</Label>
+                <Input
+                  id="liveWeightTotal"
+                  inputMode="decimal"
+                  placeholder="optional"
+                  value={liveWeightTotal}
+                  onChange={(e) => setLiveWeightTotal(e.target.value)}
+                  disabled={loading}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pricePerIndexPoint">Preis je Indexpunkt (€)</Label>
+                <Input
+                  id="pricePerIndexPoint"
+                  inputMode="decimal"
+                  placeholder="ohne Beträge"
+                  value={pricePerIndexPoint}
+                  onChange={(e) => setPricePerIndexPoint(e.target.value)}
+                  disabled={loading}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="basePricePerKg">Grundpreis (€/kg SG)</Label>
+                <Input
+                  id="basePricePerKg"
+                  inputMode="decimal"
+                  placeholder="ohne Indexpunkte"
+                  value={basePricePerKg}
+                  onChange={(e) => setBasePricePerKg(e.target.value)}
+                  disabled={loading}
+                />
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4 py-4">
+            {settlement.issues.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  {settlement.issues.map(issue => `Zeile ${issue.sourceRow + 2}: ${issue.message}`).join(' · ')}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="settlementDate">Schlachtdatum</Label>
+                <Input
+                  id="settlementDate"
+                  type="date"
+                  value={saleDate}
+                  onChange={(e) => setSaleDate(e.target.value)}
+                  disabled={loading}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="settlementBuyer">Schlachthof</Label>
+                <Input
+                  id="settlementBuyer"
+                  value={buyer}
+                  onChange={(e) => setBuyer(e.target.value)}
+                  disabled={loading}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Abrechnung</Label>
+                <div className="text-sm pt-2">{settlement.settlementNumber || 'ohne Nummer'}</div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <div className="text-muted-foreground">Schlachtkörper</div>
+                <div className="font-medium">{summary.count}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Ø Schlachtgewicht</div>
+                <div className="font-medium">{formatNumber(summary.averageCarcassWeight)} kg</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Ø MFA</div>
+                <div className="font-medium">
+                  {summary.averageLeanMeatPercent !== null ? `${formatNumber(summary.averageLeanMeatPercent)} %` : '-'}
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Ø IXP/kg</div>
+                <div className="font-medium">{formatNumber(summary.averageIndexPointsPerKg, 3)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Ausschlachtung</div>
+                <div className="font-medium">
+                  {summary.dressingPercentage !== null ? `${formatNumber(summary.dressingPercentage)} %` : '-'}
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Erlös</div>
+                <div className="font-medium">{formatCurrency(summary.revenue)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">€/kg SG</div>
+                <div className="font-medium">
+                  {summary.pricePerKgCarcass !== null
+                    ? summary.pricePerKgCarcass.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 3 })
+                    : '-'}
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Klassen</div>
+                <div className="flex flex-wrap gap-1">
+                  {summary.classifications.length > 0
+                    ? summary.classifications.map(c => (
+                      <Badge key={c.classification} variant="secondary">{c.classification}: {c.count}</Badge>
+                    ))
+                    : '-'}
+                </div>
+              </div>
+            </div>
+
+            {comparison && (
+              <Alert variant={comparison.difference < 0 ? 'destructive' : 'default'}>
+                <AlertDescription>
+                  Geplant waren {formatCurrency(comparison.estimate)} ({summary.count} × {formatCurrency(cycle!.sellPricePerAnimal!)}).
+                  Tatsächlich {formatCurrency(summary.revenue)}, also {comparison.difference >= 0 ? '+' : ''}
+                  {formatCurrency(comparison.difference)}
+                  {comparison.differencePercent !== null &&
+                    ` (${comparison.differencePercent >= 0 ? '+' : ''}${formatNumber(comparison.differencePercent)} %)`}.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nr.</TableHead>
+                  <TableHead className="text-right">SG</TableHead>
+                  <TableHead className="text-right">MFA</TableHead>
+                  <TableHead className="text-right">Indexpunkte</TableHead>
+                  <TableHead>Klasse</TableHead>
+                  <TableHead className="text-right">Betrag</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {settlement.carcasses.map(carcass => {
+                  const revenue = calculateCarcassRevenue(carcass, priceMask)
+                  return (
+                    <TableRow key={carcass.sourceRow}>
+                      <TableCell>{carcass.carcassId || '-'}</TableCell>
+                      <TableCell className="text-right">{formatNumber(carcass.carcassWeight)} kg</TableCell>
+                      <TableCell className="text-right">
+                        {carcass.leanMeatPercent !== null ? `${formatNumber(carcass.leanMeatPercent)} %` : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">{formatNumber(carcass.indexPoints)}</TableCell>
+                      <TableCell>{carcass.classification || '-'}</TableCell>
+                      <TableCell className="text-right">
+                        {revenue !== null ? formatCurrency(revenue) : <span className="text-destructive">fehlt</span>}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          {settlement ? (
+            <>
+              <Button variant="outline" onClick={() => setSettlement(null)} disabled={loading}>
+                Zurück
+              </Button>
+              <Button onClick={handleImport} disabled={loading}>
+                {loading ? 'Wird importiert...' : `${settlement.carcasses.length} Schlachtkörper importieren`}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={loading}>
+                Abbrechen
+              </Button>
+              <Button onClick={handlePreview} disabled={loading || !cycle || (!file && !pastedText.trim())}>
+                {loading ? 'Wird gelesen...' : 'Vorschau'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,82 @@
+'use client'
+
+import { useMemo } from 'react'
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig } from '@/components/ui/chart'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid } from 'recharts'
+import { buildTargetCurve, type GrowthPoint, type GrowthTargetCurve } from '@/lib/utils/growth'
+
+const chartConfig: ChartConfig = {
+  actual: { label: 'Gewogen', color: 'var(--chart-1)' },
+  target: { label: 'Zielkurve', color: 'var(--chart-3)' },
+}
+
+interface GrowthCurveChartProps {
+  points: GrowthPoint[]
+  targetCurve: GrowthTargetCurve | null
+  startWeight: number | null
+  cycleStartDate: string
+  cycleEndDate: string | null
+}
+
+export function GrowthCurveChart({ points, targetCurve, startWeight, cycleStartDate, cycleEndDate }: GrowthCurveChartProps) {
+  const data = useMemo(() => {
+    const byDay = new Map<number, { day: number; actual?: number; target?: number }>()
+
+    if (targetCurve && startWeight) {
+      buildTargetCurve(targetCurve, startWeight, cycleStartDate, cycleEndDate).forEach(({ day, weight }) => {
+        byDay.set(day, { day, target: Math.round(weight * 10) / 10 })
+      })
+    }
+    points.forEach(point => {
+      const entry = byDay.get(point.day) || { day: point.day }
+      entry.actual = Math.round(point.averageWeight * 10) / 10
+      byDay.set(point.day, entry)
+    })
+
+    return Array.from(byDay.values()).sort((a, b) => a.day - b.day)
+  }, [points, targetCurve, startWeight, cycleStartDate, cycleEndDate])
+
+  return (
+    <ChartContainer config={chartConfig} className="h-72 w-full">
+      <LineChart data={data} margin={{ left: 12, right: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="day"
+          type="number"
+          domain={['dataMin', 'dataMax']}
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          tickFormatter={(value) => `Tag ${value}`}
+        />
+        <YAxis
+          tickLine={false}
+          axisLine={false}
+          width={56}
+          tickFormatter={(value) => `${value} kg`}
+        />
+        <ChartTooltip
+          content={<ChartTooltipContent labelFormatter={(_, payload) => `Tag ${payload?.[0]?.payload?.day ?? ''}`} />}
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Line
+          dataKey="target"
+          type="monotone"
+          stroke="var(--color-target)"
+          strokeWidth={2}
+          strokeDasharray="4 4"
+          dot={false}
+          connectNulls
+        />
+        <Line
+          dataKey="actual"
+          type="linear"
+          stroke="var(--color-actual)"
+          strokeWidth={2}
+          dot={{ r: 4 }}
+          connectNulls
+        />
+      </LineChart>
+    </ChartContainer>
+  )
+}
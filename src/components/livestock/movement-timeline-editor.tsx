@@ -39,6 +39,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
+import { assignDeparturesToDetails } from '@/lib/utils/livestock-calculations'
+import { lossesAsDepartures, type MortalityEvent } from '@/lib/utils/mortality'
 
 export type AnimalMovement = {
   id: string
@@ -65,6 +67,8 @@ type MovementTimelineEditorProps = {
   availableAreas: AreaOption[]
   onMovementsChange: (movements: AnimalMovement[]) => void
   readOnly?: boolean
+  /** Logged deaths and culls, subtracted from the head counts shown */
+  losses?: MortalityEvent[]
 }
 
 const STATUS_COLORS: Record<string, string> = {
@@ -81,6 +85,7 @@ export function MovementTimelineEditor({
   availableAreas,
   onMovementsChange,
   readOnly = false,
+  losses = [],
 }: MovementTimelineEditorProps) {
   const [validationErrors, setValidationErrors] = useState<string[]>([])
   const [addDialogOpen, setAddDialogOpen] = useState(false)
@@ -95,6 +100,30 @@ export function MovementTimelineEditor({
     return createTimelineDataForRange(cycleStartDate, endDate)
   }, [cycleStartDate, cycleEndDate])
 
+  const totalLosses = useMemo(() => losses.reduce((sum, event) => sum + event.count, 0), [losses])
+
+  // Losses assigned to the movement the animals were in, as the animal-day KPIs do
+  const lossesByMovement = useMemo(() => {
+    const assigned = assignDeparturesToDetails(
+      movements.map(movement => ({
+        count: movement.count,
+        start_date: format(movement.startDate, 'yyyy-MM-dd'),
+        end_date: movement.endDate ? format(movement.endDate, 'yyyy-MM-dd') : null,
+        area_id: movement.areaId,
+        area_group_id: movement.areaGroupId,
+      })),
+      lossesAsDepartures(losses),
+      format(cycleStartDate, 'yyyy-MM-dd'),
+      cycleEndDate ? format(cycleEndDate, 'yyyy-MM-dd') : null
+    )
+    return new Map(movements.map((movement, index) => [movement.id, assigned[index].count]))
+  }, [movements, losses, cycleStartDate, cycleEndDate])
+
+  const getMovementLosses = useCallback(
+    (movement: AnimalMovement) => lossesByMovement.get(movement.id) ?? 0,
+    [lossesByMovement]
+  )
+
   // Convert movements to Gantt features
   const ganttFeatures: GanttFeature[] = useMemo(() => {
     return movements.map((movement) => {
@@ -106,14 +135,14 @@ export function MovementTimelineEditor({
 
       return {
         id: movement.id,
-        name: `${movement.count} Tiere`,
+        name: `${movement.count - getMovementLosses(movement)} Tiere`,
         startAt: movement.startDate,
         endAt: movement.endDate || cycleEndDate || new Date(cycleStartDate.getTime() + 90 * 24 * 60 * 60 * 1000), // Default 90 days
         status,
         lane: movement.areaId || movement.areaGroupId || undefined,
       }
     })
-  }, [movements, cycleEndDate, cycleStartDate])
+  }, [movements, cycleEndDate, cycleStartDate, getMovementLosses])
 
   // Group features by area
   const featuresByArea = useMemo(() => {
@@ -301,11 +330,18 @@ export function MovementTimelineEditor({
       </Alert>
 
       {/* Summary Stats */}
-      <div className="grid grid-cols-3 gap-4">
+      <div className={`grid gap-4 ${totalLosses > 0 ? 'grid-cols-4' : 'grid-cols-3'}`}>
         <Card className="p-4">
           <div className="text-sm text-muted-foreground">Gesamt Tiere</div>
           <div className="text-2xl font-bold">{totalAnimals}</div>
         </Card>
+        {totalLosses > 0 && (
+          <Card className="p-4">
+            <div className="text-sm text-muted-foreground">Aktuell (nach Abgängen)</div>
+            <div className="text-2xl font-bold">{totalAnimals - totalLosses}</div>
+            <div className="text-xs text-red-600">−{totalLosses} Abgänge</div>
+          </Card>
+        )}
         <Card className="p-4">
           <div className="text-sm text-muted-foreground">Bewegungen</div>
           <div className="text-2xl font-bold">{movements.length}</div>
@@ -351,14 +387,20 @@ export function MovementTimelineEditor({
                     >
                       {(feature) => {
                         const movement = movements.find(m => m.id === feature.id)
+                        const movementLosses = movement ? getMovementLosses(movement) : 0
                         return (
                           <div className="flex items-center justify-between w-full gap-2">
                             <span className="font-medium text-xs truncate">
                               {movement?.areaName}
                             </span>
                             <Badge variant="secondary" className="text-xs shrink-0">
-                              {movement?.count} 🐷
+                              {(movement?.count ?? 0) - movementLosses} 🐷
                             </Badge>
+                            {movementLosses > 0 && (
+                              <Badge variant="destructive" className="text-xs shrink-0">
+                                −{movementLosses}
+                              </Badge>
+                            )}
                           </div>
                         )
                       }}
@@ -395,7 +437,12 @@ export function MovementTimelineEditor({
                 return (
                   <tr key={movement.id} className="hover:bg-muted/30">
                     <td className="p-3 text-sm">{movement.areaName}</td>
-                    <td className="p-3 text-sm font-medium">{movement.count}</td>
+                    <td className="p-3 text-sm font-medium">
+                      {movement.count}
+                      {getMovementLosses(movement) > 0 && (
+                        <span className="ml-1 text-xs text-red-600">(−{getMovementLosses(movement)} Abgänge)</span>
+                      )}
+                    </td>
                     <td className="p-3 text-sm">{format(movement.startDate, 'dd.MM.yyyy')}</td>
                     <td className="p-3 text-sm">
                       {movement.endDate ? format(movement.endDate, 'dd.MM.yyyy') : '—'}
@@ -47,10 +47,18 @@ export type PivotDimension =
 export type PivotValue =
   | 'quantity'
   | 'cost'
+  | 'estimated_cost'
   | 'avg_price'
   | 'count'
   | 'min_price'
   | 'max_price'
+  | 'dry_matter'
+  | 'energy_mj_me'
+  | 'energy_mj_nel'
+  | 'crude_protein'
+  | 'cost_per_kg_dm'
+  | 'cost_per_mj_me'
+  | 'cost_per_mj_nel'
 
 export type PivotAggregation = 'sum' | 'avg' | 'min' | 'max' | 'count' | 'weighted_avg'
 
@@ -137,7 +145,8 @@ export default function PivotTableConfig({
 
   const addValue = (field: PivotValue, aggregation?: PivotAggregation) => {
     // Auto-select weighted_avg for price fields
-    const isPriceField = field === 'avg_price' || field === 'min_price' || field === 'max_price'
+    const isPriceField = field === 'avg_price' || field === 'min_price' || field === 'max_price' ||
+      field === 'cost_per_kg_dm' || field === 'cost_per_mj_me' || field === 'cost_per_mj_nel'
     const defaultAggregation = isPriceField ? 'weighted_avg' : 'sum'
     const finalAggregation = aggregation || defaultAggregation
 
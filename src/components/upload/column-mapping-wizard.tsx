@@ -0,0 +1,242 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Columns3 } from 'lucide-react'
+import type { DelimitedTable } from '@/lib/import-adapters'
+import {
+  DATE_FORMATS,
+  suggestColumnMapping,
+  type ColumnMapping,
+  type DateFormat,
+  type DecimalSeparator,
+} from '@/lib/import-adapters/column-mapping'
+
+const NO_COLUMN = '__none__'
+
+interface ColumnMappingWizardProps {
+  table: DelimitedTable
+  fileName: string
+  onConfirm: (mapping: ColumnMapping, profileName: string) => void
+  onCancel: () => void
+  saving: boolean
+}
+
+export function ColumnMappingWizard({ table, fileName, onConfirm, onCancel, saving }: ColumnMappingWizardProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>(() => suggestColumnMapping(table))
+  const [profileName, setProfileName] = useState(() => fileName.replace(/\.[^.]+$/, ''))
+
+  const assignedColumns = [mapping.dateColumn, mapping.areaColumn, mapping.feedSystemColumn, mapping.supplierColumn]
+  const selectedFeedColumns = mapping.feedColumns.filter(column => !assignedColumns.includes(column))
+
+  const toggleFeedColumn = (column: string, checked: boolean) => {
+    setMapping(prev => ({
+      ...prev,
+      feedColumns: checked
+        ? [...prev.feedColumns, column]
+        : prev.feedColumns.filter(c => c !== column)
+    }))
+  }
+
+  const isValid = !!mapping.dateColumn && !!mapping.areaColumn && selectedFeedColumns.length > 0 && !!profileName.trim()
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Columns3 className="h-5 w-5" />
+          Spalten zuordnen
+        </CardTitle>
+        <CardDescription>
+          Das Dateiformat wurde nicht erkannt. Ordnen Sie die Spalten zu – die Zuordnung wird als
+          Importprofil gespeichert und bei Dateien mit gleichem Aufbau automatisch verwendet.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Datum *</Label>
+            <Select
+              value={mapping.dateColumn}
+              onValueChange={(value) => setMapping(prev => ({ ...prev, dateColumn: value }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {table.header.map(column => (
+                  <SelectItem key={column} value={column}>{column}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Bereich / Stallgruppe *</Label>
+            <Select
+              value={mapping.areaColumn}
+              onValueChange={(value) => setMapping(prev => ({ ...prev, areaColumn: value }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {table.header.map(column => (
+                  <SelectItem key={column} value={column}>{column}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Futtersystem (optional)</Label>
+            <Select
+              value={mapping.feedSystemColumn || NO_COLUMN}
+              onValueChange={(value) => setMapping(prev => ({
+                ...prev,
+                feedSystemColumn: value === NO_COLUMN ? null : value
+              }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_COLUMN}>Keine Spalte</SelectItem>
+                {table.header.map(column => (
+                  <SelectItem key={column} value={column}>{column}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Lieferant (optional)</Label>
+            <Select
+              value={mapping.supplierColumn || NO_COLUMN}
+              onValueChange={(value) => setMapping(prev => ({
+                ...prev,
+                supplierColumn: value === NO_COLUMN ? null : value
+              }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_COLUMN}>Keine Spalte</SelectItem>
+                {table.header.map(column => (
+                  <SelectItem key={column} value={column}>{column}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Datumsformat</Label>
+            <Select
+              value={mapping.dateFormat}
+              onValueChange={(value) => setMapping(prev => ({ ...prev, dateFormat: value as DateFormat }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DATE_FORMATS.map(format => (
+                  <SelectItem key={format} value={format}>{format}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Dezimaltrennzeichen</Label>
+            <Select
+              value={mapping.decimalSeparator}
+              onValueChange={(value) => setMapping(prev => ({ ...prev, decimalSeparator: value as DecimalSeparator }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value=",">Komma (12,5)</SelectItem>
+                <SelectItem value=".">Punkt (12.5)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="profileName">Name des Importprofils *</Label>
+            <Input
+              id="profileName"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder="z.B. Mischwagen Export"
+              disabled={saving}
+            />
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium mb-2">Futtermengen-Spalten (kg) *</h4>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {table.header
+              .filter(column => !assignedColumns.includes(column))
+              .map(column => (
+                <label key={column} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={mapping.feedColumns.includes(column)}
+                    onCheckedChange={(checked) => toggleFeedColumn(column, checked === true)}
+                  />
+                  {column}
+                </label>
+              ))}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium mb-2">Dateivorschau (erste 5 Zeilen)</h4>
+          <ScrollArea className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {table.header.map(column => (
+                    <TableHead key={column}>{column}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {table.rows.slice(0, 5).map((cells, index) => (
+                  <TableRow key={index}>
+                    {table.header.map((column, cellIndex) => (
+                      <TableCell key={column}>{cells[cellIndex]}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        </div>
+      </CardContent>
+      <CardFooter className="flex justify-between">
+        <Button variant="outline" onClick={onCancel} disabled={saving}>
+          Abbrechen
+        </Button>
+        <Button
+          onClick={() => onConfirm(
+            { ...mapping, feedColumns: selectedFeedColumns },
+            profileName.trim()
+          )}
+          disabled={saving || !isValid}
+        >
+          {saving ? 'Wird gespeichert...' : 'Profil speichern & Vorschau anzeigen'}
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
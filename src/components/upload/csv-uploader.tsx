@@ -1,31 +1,139 @@
 'use client'
 
-import { useCallback, useState } from 'react'
+import { useCallback, useRef, useState } from 'react'
 import { Upload, FileText, AlertCircle } from 'lucide-react'
-import { parseGEAExport, type ParsedData } from '@/lib/csv-parser'
+import type { ParsedData } from '@/lib/csv-parser'
+import {
+  detectImportAdapter,
+  importAdapters,
+  isSpreadsheetFile,
+  readDelimitedText,
+  SPREADSHEET_EXTENSIONS,
+  type DelimitedTable,
+} from '@/lib/import-adapters'
+import type { SpreadsheetSheet } from '@/lib/import-adapters/spreadsheet'
+import { getHeaderSignature, parseWithColumnMapping, type ColumnMapping } from '@/lib/import-adapters/column-mapping'
+import { findImportProfile, saveImportProfile } from '@/lib/services/import-profile-service'
+import { ColumnMappingWizard } from '@/components/upload/column-mapping-wizard'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 
 interface CSVUploaderProps {
-  onDataParsed: (data: ParsedData) => void
+  farmId: string | null
+  /** Receives the parsed data, the original file and the table it was read from */
+  onDataParsed: (data: ParsedData, file: File, table: DelimitedTable) => void
 }
 
-export function CSVUploader({ onDataParsed }: CSVUploaderProps) {
+export function CSVUploader({ farmId, onDataParsed }: CSVUploaderProps) {
   const [isDragging, setIsDragging] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [unknownFile, setUnknownFile] = useState<{ table: DelimitedTable; fileName: string; sheetName?: string } | null>(null)
+  const [savingProfile, setSavingProfile] = useState(false)
+  const [workbook, setWorkbook] = useState<{ sheets: SpreadsheetSheet[]; fileName: string } | null>(null)
+  const [selectedSheet, setSelectedSheet] = useState('')
+  // Original file, handed on with the parsed data so it can be stored with the upload
+  const currentFile = useRef<File | null>(null)
+
+  const parseTable = useCallback(async (table: DelimitedTable, fileName: string, sheetName?: string) => {
+    const adapter = detectImportAdapter(table.header)
+    if (adapter) {
+      return adapter.parse(table)
+    }
+
+    // Unknown format: reuse a saved import profile for this header layout
+    if (farmId) {
+      const profile = await findImportProfile(farmId, getHeaderSignature(table.header))
+      if (profile) {
+        return parseWithColumnMapping(table, profile.mapping, profile.name)
+      }
+    }
+
+    setUnknownFile({ table, fileName, sheetName })
+    return null
+  }, [farmId])
+
+  const handleMappingConfirm = useCallback(async (mapping: ColumnMapping, profileName: string) => {
+    if (!unknownFile) return
+
+    setSavingProfile(true)
+    try {
+      const parsedData = {
+        ...parseWithColumnMapping(unknownFile.table, mapping, profileName),
+        sheetName: unknownFile.sheetName
+      }
+
+      if (farmId) {
+        await saveImportProfile(farmId, profileName, getHeaderSignature(unknownFile.table.header), mapping)
+      }
+
+      setUnknownFile(null)
+      setError(null)
+      onDataParsed(parsedData, currentFile.current!, unknownFile.table)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Anwenden der Zuordnung')
+    } finally {
+      setSavingProfile(false)
+    }
+  }, [farmId, unknownFile, onDataParsed])
+
+  const handleTable = useCallback(async (table: DelimitedTable, fileName: string, sheetName?: string) => {
+    try {
+      const parsedData = await parseTable(table, fileName, sheetName)
+      setError(null)
+      if (parsedData) {
+        onDataParsed(sheetName ? { ...parsedData, sheetName } : parsedData, currentFile.current!, table)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Parsen der Datei')
+    }
+  }, [parseTable, onDataParsed])
+
+  const handleWorkbook = useCallback(async (data: ArrayBuffer, fileName: string) => {
+    // Dynamic import XLSX only when a workbook is uploaded (saves ~400KB from initial bundle)
+    const { readSpreadsheet } = await import('@/lib/import-adapters/spreadsheet')
+    const sheets = readSpreadsheet(data)
+
+    if (sheets.length === 1) {
+      await handleTable(sheets[0].table, fileName, sheets[0].name)
+      return
+    }
+
+    // Several sheets: let the user choose, preselecting the first recognised one
+    const recognised = sheets.find(sheet => detectImportAdapter(sheet.table.header))
+    setSelectedSheet((recognised || sheets[0]).name)
+    setWorkbook({ sheets, fileName })
+  }, [handleTable])
+
+  const handleSheetConfirm = useCallback(async () => {
+    if (!workbook) return
+
+    const sheet = workbook.sheets.find(s => s.name === selectedSheet)
+    if (!sheet) return
+
+    setWorkbook(null)
+    await handleTable(sheet.table, workbook.fileName, sheet.name)
+  }, [workbook, selectedSheet, handleTable])
 
   const handleFile = useCallback((file: File) => {
-    if (!file.name.endsWith('.csv') && !file.name.endsWith('.txt')) {
-      setError('Bitte wählen Sie eine CSV- oder TXT-Datei')
+    const fileName = file.name.toLowerCase()
+    const isSpreadsheet = isSpreadsheetFile(fileName)
+
+    if (!isSpreadsheet && !fileName.endsWith('.csv') && !fileName.endsWith('.txt')) {
+      setError('Bitte wählen Sie eine CSV-, TXT-, XLSX- oder ODS-Datei')
       return
     }
 
+    currentFile.current = file
     const reader = new FileReader()
     
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       try {
-        const content = e.target?.result as string
-        const parsedData = parseGEAExport(content)
-        onDataParsed(parsedData)
-        setError(null)
+        if (isSpreadsheet) {
+          await handleWorkbook(e.target?.result as ArrayBuffer, file.name)
+        } else {
+          await handleTable(readDelimitedText(e.target?.result as string), file.name)
+        }
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Fehler beim Parsen der Datei')
       }
@@ -35,8 +143,12 @@ export function CSVUploader({ onDataParsed }: CSVUploaderProps) {
       setError('Fehler beim Lesen der Datei')
     }
     
-    reader.readAsText(file, 'UTF-8')
-  }, [onDataParsed])
+    if (isSpreadsheet) {
+      reader.readAsArrayBuffer(file)
+    } else {
+      reader.readAsText(file, 'UTF-8')
+    }
+  }, [handleTable, handleWorkbook])
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -65,6 +177,62 @@ export function CSVUploader({ onDataParsed }: CSVUploaderProps) {
     }
   }, [handleFile])
 
+  if (workbook) {
+    return (
+      <div className="space-y-4 rounded-lg border p-6">
+        <div className="space-y-2">
+          <Label>Tabellenblatt auswählen</Label>
+          <p className="text-xs text-muted-foreground">
+            Die Arbeitsmappe {workbook.fileName} enthält mehrere Tabellenblätter.
+          </p>
+          <Select value={selectedSheet} onValueChange={setSelectedSheet}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {workbook.sheets.map(sheet => (
+                <SelectItem key={sheet.name} value={sheet.name}>
+                  {sheet.name} ({sheet.table.rows.length} Zeilen)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={() => setWorkbook(null)}>
+            Abbrechen
+          </Button>
+          <Button onClick={handleSheetConfirm} disabled={!selectedSheet}>
+            Weiter
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  if (unknownFile) {
+    return (
+      <div>
+        <ColumnMappingWizard
+          table={unknownFile.table}
+          fileName={unknownFile.fileName}
+          onConfirm={handleMappingConfirm}
+          onCancel={() => {
+            setUnknownFile(null)
+            setError(null)
+          }}
+          saving={savingProfile}
+        />
+        {error && (
+          <div className="mt-4 p-3 rounded-md bg-destructive/10 text-destructive flex items-center gap-2">
+            <AlertCircle className="h-4 w-4" />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+      </div>
+    )
+  }
+
   return (
     <div>
       <div
@@ -80,7 +248,7 @@ export function CSVUploader({ onDataParsed }: CSVUploaderProps) {
         <input
           type="file"
           id="csv-upload"
-          accept=".csv,.txt"
+          accept={['.csv', '.txt', ...SPREADSHEET_EXTENSIONS].join(',')}
           onChange={handleFileSelect}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
         />
@@ -96,7 +264,8 @@ export function CSVUploader({ onDataParsed }: CSVUploaderProps) {
             Datei hierher ziehen oder klicken zum Auswählen
           </p>
           <p className="mt-2 text-xs text-muted-foreground">
-            CSV-Export aus dem GEA-System (Tab-getrennt)
+            CSV-, Excel- oder ODS-Export aus {importAdapters.map(adapter => adapter.name).join(', ')} – das System wird automatisch erkannt.
+            Andere Dateien können Sie einmalig selbst zuordnen.
           </p>
         </div>
       </div>
@@ -0,0 +1,78 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Trash2 } from 'lucide-react'
+import { deleteImportProfile, getImportProfiles, type ImportProfile } from '@/lib/services/import-profile-service'
+
+interface ImportProfileListProps {
+  farmId: string
+}
+
+export function ImportProfileList({ farmId }: ImportProfileListProps) {
+  const [profiles, setProfiles] = useState<ImportProfile[]>([])
+
+  const loadProfiles = async () => {
+    try {
+      setProfiles(await getImportProfiles(farmId))
+    } catch {
+      setProfiles([])
+    }
+  }
+
+  useEffect(() => {
+    loadProfiles()
+  }, [farmId])
+
+  const handleDelete = async (profile: ImportProfile) => {
+    if (!confirm(`Möchten Sie das Importprofil "${profile.name}" wirklich löschen?`)) {
+      return
+    }
+
+    try {
+      await deleteImportProfile(profile.id)
+      loadProfiles()
+    } catch (error) {
+      console.error('Error deleting import profile:', error)
+    }
+  }
+
+  if (profiles.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Gespeicherte Importprofile</CardTitle>
+        <CardDescription>
+          Spaltenzuordnungen für Dateien ohne automatisch erkanntes Fütterungssystem.
+          Löschen Sie ein Profil, um die Zuordnung beim nächsten Upload neu festzulegen.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {profiles.map(profile => (
+          <div key={profile.id} className="flex items-center justify-between rounded-md border p-3">
+            <div className="space-y-1">
+              <p className="text-sm font-medium">{profile.name}</p>
+              <div className="flex flex-wrap gap-1">
+                {profile.mapping.feedColumns.map(column => (
+                  <Badge key={column} variant="secondary">{column}</Badge>
+                ))}
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleDelete(profile)}
+              className="flex items-center gap-1 text-red-600 hover:text-red-700"
+            >
+              <Trash2 className="h-3 w-3" />
+              Löschen
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
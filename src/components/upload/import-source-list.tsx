@@ -0,0 +1,226 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { FolderInput, Plus, RefreshCw, Trash2 } from 'lucide-react'
+import {
+  createImportSource,
+  deleteImportSource,
+  getImportSources,
+  isValidSourcePath,
+  pollImportSource,
+  setImportSourceEnabled,
+  type ImportSource,
+  type ImportSourceType,
+} from '@/lib/services/import-source-service'
+
+const sourceTypeLabels: Record<ImportSourceType, string> = {
+  folder: 'Ordner',
+  mailbox: 'Postfach (Maildir)',
+}
+
+interface ImportSourceListProps {
+  farmId: string
+}
+
+/**
+ * Watched folders and mailboxes the server imports new exports from
+ */
+export function ImportSourceList({ farmId }: ImportSourceListProps) {
+  const [sources, setSources] = useState<ImportSource[]>([])
+  const [name, setName] = useState('')
+  const [type, setType] = useState<ImportSourceType>('folder')
+  const [sourcePath, setSourcePath] = useState('')
+  const [busySourceId, setBusySourceId] = useState<string | null>(null)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const loadSources = async () => {
+    try {
+      setSources(await getImportSources(farmId))
+    } catch {
+      setSources([])
+    }
+  }
+
+  useEffect(() => {
+    loadSources()
+  }, [farmId])
+
+  const handleCreate = async () => {
+    if (!name.trim() || !sourcePath.trim()) return
+    if (!isValidSourcePath(sourcePath.trim())) {
+      setMessage({ type: 'error', text: 'Der Pfad muss relativ zum Importordner des Stalls sein' })
+      return
+    }
+
+    try {
+      await createImportSource(farmId, { name: name.trim(), type, path: sourcePath.trim() })
+      setName('')
+      setSourcePath('')
+      setMessage(null)
+      loadSources()
+    } catch (error) {
+      console.error('Error creating import source:', error)
+      setMessage({ type: 'error', text: 'Importquelle konnte nicht angelegt werden' })
+    }
+  }
+
+  const handleToggle = async (source: ImportSource, enabled: boolean) => {
+    try {
+      await setImportSourceEnabled(source.id, enabled)
+      loadSources()
+    } catch (error) {
+      console.error('Error updating import source:', error)
+    }
+  }
+
+  const handleDelete = async (source: ImportSource) => {
+    if (!confirm(`Möchten Sie die Importquelle "${source.name}" wirklich löschen?`)) {
+      return
+    }
+
+    try {
+      await deleteImportSource(source.id)
+      loadSources()
+    } catch (error) {
+      console.error('Error deleting import source:', error)
+    }
+  }
+
+  const handlePoll = async (source: ImportSource) => {
+    setBusySourceId(source.id)
+    setMessage(null)
+    try {
+      const result = await pollImportSource(source.id)
+      if (result.error) {
+        setMessage({ type: 'error', text: result.error })
+      } else if (result.uploadIds.length === 0) {
+        setMessage({ type: 'success', text: `"${source.name}": keine neuen Dateien` })
+      } else {
+        setMessage({
+          type: result.failed > 0 ? 'error' : 'success',
+          text: `"${source.name}": ${result.uploadIds.length} Dateien importiert` +
+            (result.failed > 0 ? `, davon ${result.failed} mit Fehlern` : '')
+        })
+      }
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Abruf fehlgeschlagen' })
+    } finally {
+      setBusySourceId(null)
+      loadSources()
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FolderInput className="h-5 w-5" />
+          Automatischer Import
+        </CardTitle>
+        <CardDescription>
+          Neue Exportdateien werden regelmäßig aus diesen Ordnern oder Postfächern auf dem Server
+          importiert. Importierte Dateien erscheinen im Upload-Verlauf.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {message && (
+          <Alert variant={message.type === 'error' ? 'destructive' : 'default'}>
+            <AlertDescription>{message.text}</AlertDescription>
+          </Alert>
+        )}
+
+        {sources.map(source => (
+          <div key={source.id} className="flex flex-wrap items-center justify-between gap-3 rounded-md border p-3">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <p className="text-sm font-medium">{source.name}</p>
+                <Badge variant="secondary">{sourceTypeLabels[source.type as ImportSourceType] || source.type}</Badge>
+              </div>
+              <p className="text-xs text-muted-foreground font-mono">{source.path}</p>
+              <p className="text-xs text-muted-foreground">
+                {source.last_polled_at
+                  ? `Zuletzt abgerufen: ${new Date(source.last_polled_at).toLocaleString('de-DE')}`
+                  : 'Noch nicht abgerufen'}
+              </p>
+              {source.last_error && (
+                <p className="text-xs text-red-600">{source.last_error}</p>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={source.enabled}
+                onCheckedChange={(checked) => handleToggle(source, checked)}
+                aria-label="Automatisch abrufen"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handlePoll(source)}
+                disabled={busySourceId !== null}
+                className="flex items-center gap-1"
+              >
+                <RefreshCw className={`h-3 w-3 ${busySourceId === source.id ? 'animate-spin' : ''}`} />
+                Jetzt abrufen
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleDelete(source)}
+                className="flex items-center gap-1 text-red-600 hover:text-red-700"
+              >
+                <Trash2 className="h-3 w-3" />
+                Löschen
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <div className="grid gap-3 md:grid-cols-[1fr_180px_1fr_auto] md:items-end">
+          <div className="space-y-1">
+            <Label htmlFor="import-source-name">Name</Label>
+            <Input
+              id="import-source-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="z.B. GEA Tagesexport"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Typ</Label>
+            <Select value={type} onValueChange={(value) => setType(value as ImportSourceType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(sourceTypeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="import-source-path">Pfad auf dem Server</Label>
+            <Input
+              id="import-source-path"
+              value={sourcePath}
+              onChange={(e) => setSourcePath(e.target.value)}
+              placeholder="z.B. gea"
+            />
+          </div>
+          <Button onClick={handleCreate} disabled={!name.trim() || !sourcePath.trim()} className="flex items-center gap-1">
+            <Plus className="h-4 w-4" />
+            Hinzufügen
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -4,6 +4,7 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Button } from '@/components/ui/button'
 import { CheckCircle, AlertCircle, Info } from 'lucide-react'
 import { Progress } from '@/components/ui/progress'
+import { IMPORT_PHASE_LABELS, type ImportPhase } from '@/lib/import-pipeline/progress'
 
 interface ProcessingStatusProps {
   status: {
@@ -11,14 +12,18 @@ interface ProcessingStatusProps {
     processed: number
     updated: number
     created: number
+    unchanged: number
     errors: string[]
+    /** True while the server is still importing */
+    running: boolean
+    phase?: ImportPhase
   }
   onReset: () => void
 }
 
 export function ProcessingStatus({ status, onReset }: ProcessingStatusProps) {
-  const progress = (status.processed / status.total) * 100
-  const isComplete = status.processed === status.total
+  const progress = status.total > 0 ? (status.processed / status.total) * 100 : 0
+  const isComplete = !status.running
   const hasErrors = status.errors.length > 0
 
   return (
@@ -45,13 +50,14 @@ export function ProcessingStatus({ status, onReset }: ProcessingStatusProps) {
           )}
         </CardTitle>
         <CardDescription>
+          {status.running && status.phase && `${IMPORT_PHASE_LABELS[status.phase]} – `}
           {status.processed} von {status.total} Datensätzen verarbeitet
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
         <Progress value={progress} className="w-full" />
         
-        <div className="grid grid-cols-2 gap-4">
+        <div className="grid grid-cols-3 gap-4">
           <div>
             <p className="text-sm font-medium">Neue Datensätze</p>
             <p className="text-2xl font-bold text-green-600">{status.created}</p>
@@ -60,6 +66,10 @@ export function ProcessingStatus({ status, onReset }: ProcessingStatusProps) {
             <p className="text-sm font-medium">Aktualisierte Datensätze</p>
             <p className="text-2xl font-bold text-blue-600">{status.updated}</p>
           </div>
+          <div>
+            <p className="text-sm font-medium">Unverändert</p>
+            <p className="text-2xl font-bold text-muted-foreground">{status.unchanged}</p>
+          </div>
         </div>
 
         {status.errors.length > 0 && (
@@ -78,8 +88,14 @@ export function ProcessingStatus({ status, onReset }: ProcessingStatusProps) {
           </div>
         )}
       </CardContent>
-      <CardFooter>
-        <Button onClick={onReset} className="w-full">
+      <CardFooter className="flex flex-col gap-2">
+        {status.running && (
+          <p className="text-xs text-muted-foreground">
+            Der Import läuft auf dem Server und wird auch fortgesetzt, wenn Sie diese Seite verlassen.
+            Den Status finden Sie in der Upload-Historie.
+          </p>
+        )}
+        <Button onClick={onReset} className="w-full" disabled={status.running}>
           Neue Datei hochladen
         </Button>
       </CardFooter>
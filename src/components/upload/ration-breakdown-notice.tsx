@@ -0,0 +1,46 @@
+'use client'
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Layers } from 'lucide-react'
+
+interface RationBreakdownNoticeProps {
+  /** Rations found among the imported feed names */
+  rationNames: string[]
+  enabled: boolean
+  onEnabledChange: (enabled: boolean) => void
+  /** Ration quantities that cannot be broken down; block the import */
+  errors: string[]
+}
+
+const MAX_ERRORS_SHOWN = 10
+
+export function RationBreakdownNotice({ rationNames, enabled, onEnabledChange, errors }: RationBreakdownNoticeProps) {
+  return (
+    <Alert variant={errors.length > 0 ? 'destructive' : 'default'}>
+      <Layers className="h-4 w-4" />
+      <AlertTitle>Rationen erkannt: {rationNames.join(', ')}</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>
+          Die Mengen werden anhand der am jeweiligen Tag gültigen Zusammensetzung auf die
+          einzelnen Futtermittel aufgeteilt.
+        </p>
+        <div className="flex items-center gap-2">
+          <Switch id="explode-rations" checked={enabled} onCheckedChange={onEnabledChange} />
+          <Label htmlFor="explode-rations">Rationen in Komponenten aufteilen</Label>
+        </div>
+        {errors.length > 0 && (
+          <ul className="list-disc pl-5 text-sm">
+            {errors.slice(0, MAX_ERRORS_SHOWN).map((error, index) => (
+              <li key={index}>{error}</li>
+            ))}
+            {errors.length > MAX_ERRORS_SHOWN && (
+              <li>... und {errors.length - MAX_ERRORS_SHOWN} weitere</li>
+            )}
+          </ul>
+        )}
+      </AlertDescription>
+    </Alert>
+  )
+}
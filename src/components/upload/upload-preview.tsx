@@ -5,22 +5,61 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { ScrollArea } from '@/components/ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Calendar, Package, Hash } from 'lucide-react'
 import type { ParsedData } from '@/lib/csv-parser'
+import { getImportAdapter } from '@/lib/import-adapters'
+import type { FeedNameMatch, FeedNameMatchReason } from '@/lib/utils/feed-name-matching'
+import type { ConsumptionChangePreview } from '@/lib/upload-processor'
+
+const NEW_FEED_TYPE = '__new__'
+
+const matchReasonLabels: Record<FeedNameMatchReason, string> = {
+  exact: 'Exakt',
+  alias: 'Alias',
+  normalized: 'Ähnlicher Name',
+}
+
+const MAX_CHANGES_SHOWN = 50
 
 interface UploadPreviewProps {
   data: ParsedData
+  changePreview: ConsumptionChangePreview | null
+  loadingChanges: boolean
+  feedNameMatches: FeedNameMatch[]
+  feedTypes: { id: string; name: string }[]
+  feedTypeSelection: Record<string, string | null>
+  onFeedTypeSelectionChange: (importName: string, feedTypeId: string | null) => void
   onConfirm: () => void
   onCancel: () => void
   processing: boolean
 }
 
-export function UploadPreview({ data, onConfirm, onCancel, processing }: UploadPreviewProps) {
+export function UploadPreview({
+  data,
+  changePreview,
+  loadingChanges,
+  feedNameMatches,
+  feedTypes,
+  feedTypeSelection,
+  onFeedTypeSelectionChange,
+  onConfirm,
+  onCancel,
+  processing
+}: UploadPreviewProps) {
+  const adapter = data.importAdapter ? getImportAdapter(data.importAdapter) : null
+  // Exact matches need no confirmation, everything else is shown for review
+  const matchesToConfirm = feedNameMatches.filter(match => match.reason !== 'exact')
+
   return (
     <div className="space-y-6">
       <Card>
         <CardHeader>
-          <CardTitle>Upload-Vorschau</CardTitle>
+          <CardTitle className="flex items-center gap-2">
+            Upload-Vorschau
+            {adapter && <Badge variant="outline">{adapter.name}</Badge>}
+            {data.importProfile && <Badge variant="outline">Profil: {data.importProfile}</Badge>}
+          </CardTitle>
           <CardDescription>
             Überprüfen Sie die erkannten Daten vor dem Import
           </CardDescription>
@@ -63,6 +102,111 @@ export function UploadPreview({ data, onConfirm, onCancel, processing }: UploadP
             </div>
           </div>
 
+          {matchesToConfirm.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium mb-1">Futtermittel-Zuordnung</h4>
+              <p className="text-xs text-muted-foreground mb-2">
+                Diese Futtermittel sind noch nicht unter genau diesem Namen angelegt. Bestätigen Sie die
+                vorgeschlagene Zuordnung oder legen Sie ein neues Futtermittel an. Zuordnungen werden als Alias gespeichert.
+              </p>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name in der Datei</TableHead>
+                      <TableHead>Vorschlag</TableHead>
+                      <TableHead>Zuordnen zu</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {matchesToConfirm.map(match => (
+                      <TableRow key={match.importName}>
+                        <TableCell className="font-medium">{match.importName}</TableCell>
+                        <TableCell>
+                          {match.reason ? (
+                            <Badge variant="secondary">{matchReasonLabels[match.reason]}</Badge>
+                          ) : (
+                            <Badge variant="outline">Kein Treffer</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={feedTypeSelection[match.importName] || NEW_FEED_TYPE}
+                            onValueChange={(value) => onFeedTypeSelectionChange(
+                              match.importName,
+                              value === NEW_FEED_TYPE ? null : value
+                            )}
+                            disabled={processing}
+                          >
+                            <SelectTrigger className="w-[240px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NEW_FEED_TYPE}>Neues Futtermittel anlegen</SelectItem>
+                              {feedTypes.map(feedType => (
+                                <SelectItem key={feedType.id} value={feedType.id}>{feedType.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-sm font-medium mb-2">Änderungen</h4>
+            {loadingChanges && !changePreview ? (
+              <p className="text-sm text-muted-foreground">Vorhandene Daten werden verglichen...</p>
+            ) : changePreview && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="default" className="bg-green-100 text-green-800">{changePreview.created} neu</Badge>
+                  <Badge variant="secondary" className="bg-blue-100 text-blue-800">{changePreview.updated.length} überschrieben</Badge>
+                  <Badge variant="outline">{changePreview.unchanged} unverändert</Badge>
+                </div>
+                {changePreview.updated.length > 0 && (
+                  <ScrollArea className="h-[240px] rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Datum</TableHead>
+                          <TableHead>Bereich</TableHead>
+                          <TableHead>Futtersystem</TableHead>
+                          <TableHead>Futtermittel</TableHead>
+                          <TableHead className="text-right">Bisher (kg)</TableHead>
+                          <TableHead className="text-right">Neu (kg)</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {changePreview.updated.slice(0, MAX_CHANGES_SHOWN).map((change, index) => (
+                          <TableRow key={index}>
+                            <TableCell>{new Date(change.date).toLocaleDateString('de-DE')}</TableCell>
+                            <TableCell>{change.area}</TableCell>
+                            <TableCell>{change.feedSystem}</TableCell>
+                            <TableCell>{change.feedName}</TableCell>
+                            <TableCell className="text-right text-muted-foreground line-through">
+                              {change.oldQuantity.toFixed(2)}
+                            </TableCell>
+                            <TableCell className="text-right font-medium">{change.newQuantity.toFixed(2)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </ScrollArea>
+                )}
+                {changePreview.updated.length > MAX_CHANGES_SHOWN && (
+                  <p className="text-xs text-muted-foreground">
+                    ... und {changePreview.updated.length - MAX_CHANGES_SHOWN} weitere überschriebene Werte
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
           <div>
             <h4 className="text-sm font-medium mb-2">Datenvorschau (erste 10 Zeilen)</h4>
             <ScrollArea className="h-[300px] rounded-md border">
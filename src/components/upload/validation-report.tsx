@@ -0,0 +1,125 @@
+'use client'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { AlertTriangle, Download } from 'lucide-react'
+import { IMPORT_ISSUE_LABELS, type ImportIssue } from '@/lib/utils/import-validation'
+
+const MAX_ISSUES_SHOWN = 100
+
+interface ValidationReportProps {
+  issues: ImportIssue[]
+  validating: boolean
+  /** Number of data rows affected by any issue */
+  flaggedRowCount: number
+  skipFlaggedRows: boolean
+  onSkipFlaggedRowsChange: (skip: boolean) => void
+  onDownloadRejectedRows: () => void
+  /** Set if skipping the flagged rows leaves nothing to import */
+  skipError: string | null
+}
+
+/**
+ * Lists rows of an import that failed validation
+ *
+ * Row numbers refer to the source file, counting the header as line 1.
+ */
+export function ValidationReport({
+  issues,
+  validating,
+  flaggedRowCount,
+  skipFlaggedRows,
+  onSkipFlaggedRowsChange,
+  onDownloadRejectedRows,
+  skipError
+}: ValidationReportProps) {
+  if (validating && issues.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-6 text-sm text-muted-foreground">
+          Daten werden geprüft...
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (issues.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-yellow-600" />
+          Prüfbericht
+        </CardTitle>
+        <CardDescription>
+          {issues.length} Auffälligkeiten in {flaggedRowCount} Zeilen der Datei
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ScrollArea className="h-[240px] rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Zeile</TableHead>
+                <TableHead>Prüfung</TableHead>
+                <TableHead>Datum</TableHead>
+                <TableHead>Bereich</TableHead>
+                <TableHead>Hinweis</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {issues.slice(0, MAX_ISSUES_SHOWN).map((issue, index) => (
+                <TableRow key={index}>
+                  <TableCell className="whitespace-nowrap">
+                    {issue.sourceRows.map(row => row + 2).join(', ')}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={issue.type === 'outlier' ? 'outline' : 'destructive'}>
+                      {IMPORT_ISSUE_LABELS[issue.type]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{issue.date ? new Date(issue.date).toLocaleDateString('de-DE') : '-'}</TableCell>
+                  <TableCell>{issue.area || '-'}</TableCell>
+                  <TableCell>{issue.message}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+        {issues.length > MAX_ISSUES_SHOWN && (
+          <p className="text-xs text-muted-foreground">
+            ... und {issues.length - MAX_ISSUES_SHOWN} weitere Auffälligkeiten
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="skip-flagged-rows"
+              checked={skipFlaggedRows}
+              onCheckedChange={onSkipFlaggedRowsChange}
+            />
+            <Label htmlFor="skip-flagged-rows">Markierte Zeilen beim Import überspringen</Label>
+          </div>
+          <Button variant="outline" size="sm" onClick={onDownloadRejectedRows}>
+            <Download className="mr-2 h-4 w-4" />
+            Markierte Zeilen als CSV
+          </Button>
+        </div>
+
+        {skipError && (
+          <Alert variant="destructive">
+            <AlertDescription>{skipError}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -13,6 +13,8 @@ import { BaseWidgetProps } from '@/types/dashboard'
 import { useFarmStore } from '@/lib/stores/farm-store'
 import { createClient } from '@/lib/supabase/client'
 import { loadConsumptionWithCosts } from '@/lib/utils/feed-calculations'
+import { loadAnimalAllocationMode } from '@/lib/utils/livestock-calculations'
+import { LIVESTOCK_EVENTS_SELECT } from '@/lib/hooks/livestock-count-select'
 import { calculateCycleMetrics, filterConsumptionByTimeframe, LivestockCount, ConsumptionItem, CostTransaction, IncomeTransaction } from '@/lib/utils/kpi-calculations'
 import {
   Table,
@@ -92,7 +94,8 @@ export function CycleComparisonWidget({
             is_start_group, is_end_group, start_weight_source_detail_id,
             areas(id, name),
             area_groups(id, name)
-          )
+          ),
+          ${LIVESTOCK_EVENTS_SELECT}
         `)
         .eq('farm_id', currentFarmId)
         .order('start_date', { ascending: false })
@@ -116,6 +119,8 @@ export function CycleComparisonWidget({
         ? endDates.reduce((a, b) => a > b ? a : b)
         : new Date().toISOString().split('T')[0]
 
+      const allocationMode = await loadAnimalAllocationMode(supabase, currentFarmId)
+
       // Load ALL consumption data ONCE for the entire date range
       const { consumption: allConsumption } = await loadConsumptionWithCosts(
         supabase,
@@ -178,7 +183,8 @@ export function CycleComparisonWidget({
           cycle as LivestockCount,
           consumption as ConsumptionItem[],
           costTransactions,
-          incomeTransactions
+          incomeTransactions,
+          allocationMode
         )
 
         // Calculate buy/sell prices per animal from start/end groups
@@ -234,7 +240,7 @@ export function CycleComparisonWidget({
           startDate: cycle.start_date,
           endDate: cycle.end_date,
           duration: metrics.cycleDuration,
-          totalAnimals: metrics.totalAnimals,
+          totalAnimals: metrics.peakAnimals,
           buyPricePerAnimal,
           sellPricePerAnimal,
           priceDifference,
@@ -14,6 +14,8 @@ import { BaseWidgetProps } from '@/types/dashboard'
 import { useFarmStore } from '@/lib/stores/farm-store'
 import { createClient } from '@/lib/supabase/client'
 import { loadConsumptionWithCosts } from '@/lib/utils/feed-calculations'
+import { loadAnimalAllocationMode } from '@/lib/utils/livestock-calculations'
+import { LIVESTOCK_EVENTS_SELECT } from '@/lib/hooks/livestock-count-select'
 import { calculateCycleMetrics, calculateFeedComponentSummary, filterConsumptionByTimeframe, LivestockCount, ConsumptionItem, CostTransaction } from '@/lib/utils/kpi-calculations'
 import {
   Table,
@@ -72,7 +74,8 @@ export function FeedComparisonWidget({
             id, count, area_id, area_group_id, start_date, end_date,
             areas(id, name),
             area_groups(id, name)
-          )
+          ),
+          ${LIVESTOCK_EVENTS_SELECT}
         `)
         .eq('farm_id', currentFarmId)
         .order('start_date', { ascending: false })
@@ -97,6 +100,8 @@ export function FeedComparisonWidget({
         ? endDates.reduce((a, b) => a > b ? a : b)
         : new Date().toISOString().split('T')[0]
 
+      const allocationMode = await loadAnimalAllocationMode(supabase, currentFarmId)
+
       // Load ALL consumption data ONCE for the entire date range
       const { consumption: allConsumption } = await loadConsumptionWithCosts(
         supabase,
@@ -144,7 +149,9 @@ export function FeedComparisonWidget({
         const metrics = calculateCycleMetrics(
           cycle as LivestockCount,
           consumption as ConsumptionItem[],
-          costTransactions
+          costTransactions,
+          [],
+          allocationMode
         )
 
         // Calculate feed component summary
@@ -180,7 +187,7 @@ export function FeedComparisonWidget({
           id: cycle.id,
           name: cycle.durchgang_name || `Durchgang ${cycle.id.slice(0, 8)}`,
           duration: metrics.cycleDuration,
-          totalAnimals: metrics.totalAnimals,
+          totalAnimals: metrics.peakAnimals,
           status: cycle.end_date ? 'completed' : 'active',
           feedQuantities,
           totalQuantityPerAnimal,
@@ -14,6 +14,101 @@ export type Database = {
   }
   public: {
     Tables: {
+      animal_sales: {
+        Row: {
+          area_group_id: string | null
+          area_id: string | null
+          bonus_total: number | null
+          buyer: string | null
+          carcass_weight_per_animal_kg: number | null
+          classification: string | null
+          count: number
+          created_at: string | null
+          created_by: string | null
+          farm_id: string
+          id: string
+          lean_meat_percent: number | null
+          live_weight_per_animal_kg: number | null
+          livestock_count_id: string
+          notes: string | null
+          price: number
+          price_basis: string
+          sale_date: string
+          settlement_number: string | null
+        }
+        Insert: {
+          area_group_id?: string | null
+          area_id?: string | null
+          bonus_total?: number | null
+          buyer?: string | null
+          carcass_weight_per_animal_kg?: number | null
+          classification?: string | null
+          count: number
+          created_at?: string | null
+          created_by?: string | null
+          farm_id: string
+          id?: string
+          lean_meat_percent?: number | null
+          live_weight_per_animal_kg?: number | null
+          livestock_count_id: string
+          notes?: string | null
+          price: number
+          price_basis?: string
+          sale_date: string
+          settlement_number?: string | null
+        }
+        Update: {
+          area_group_id?: string | null
+          area_id?: string | null
+          bonus_total?: number | null
+          buyer?: string | null
+          carcass_weight_per_animal_kg?: number | null
+          classification?: string | null
+          count?: number
+          created_at?: string | null
+          created_by?: string | null
+          farm_id?: string
+          id?: string
+          lean_meat_percent?: number | null
+          live_weight_per_animal_kg?: number | null
+          livestock_count_id?: string
+          notes?: string | null
+          price?: number
+          price_basis?: string
+          sale_date?: string
+          settlement_number?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "animal_sales_area_group_id_fkey"
+            columns: ["area_group_id"]
+            isOneToOne: false
+            referencedRelation: "area_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "animal_sales_area_id_fkey"
+            columns: ["area_id"]
+            isOneToOne: false
+            referencedRelation: "areas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "animal_sales_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "animal_sales_livestock_count_id_fkey"
+            columns: ["livestock_count_id"]
+            isOneToOne: false
+            referencedRelation: "livestock_counts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       area_group_memberships: {
         Row: {
           area_group_id: string
@@ -123,6 +218,63 @@ export type Database = {
           },
         ]
       }
+      budget_prices: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          farm_id: string
+          feed_type_id: string
+          id: string
+          month: string
+          notes: string | null
+          price_best: number
+          price_expected: number
+          price_worst: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          farm_id: string
+          feed_type_id: string
+          id?: string
+          month: string
+          notes?: string | null
+          price_best: number
+          price_expected: number
+          price_worst: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          farm_id?: string
+          feed_type_id?: string
+          id?: string
+          month?: string
+          notes?: string | null
+          price_best?: number
+          price_expected?: number
+          price_worst?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budget_prices_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "budget_prices_feed_type_id_fkey"
+            columns: ["feed_type_id"]
+            isOneToOne: false
+            referencedRelation: "feed_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       consumption: {
         Row: {
           area_id: string | null
@@ -134,6 +286,7 @@ export type Database = {
           id: string
           pen_name: string | null
           quantity: number
+          supplier_id: string | null
           updated_at: string | null
           upload_id: string | null
         }
@@ -147,6 +300,7 @@ export type Database = {
           id?: string
           pen_name?: string | null
           quantity: number
+          supplier_id?: string | null
           updated_at?: string | null
           upload_id?: string | null
         }
@@ -160,6 +314,7 @@ export type Database = {
           id?: string
           pen_name?: string | null
           quantity?: number
+          supplier_id?: string | null
           updated_at?: string | null
           upload_id?: string | null
         }
@@ -185,6 +340,13 @@ export type Database = {
             referencedRelation: "feed_types"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "consumption_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "consumption_upload_id_fkey"
             columns: ["upload_id"]
@@ -194,6 +356,64 @@ export type Database = {
           },
         ]
       }
+      consumption_upload_snapshots: {
+        Row: {
+          consumption_id: string
+          created_at: string | null
+          farm_id: string
+          id: string
+          previous_area_id: string | null
+          previous_quantity: number
+          previous_supplier_id: string | null
+          previous_upload_id: string | null
+          upload_id: string
+        }
+        Insert: {
+          consumption_id: string
+          created_at?: string | null
+          farm_id: string
+          id?: string
+          previous_area_id?: string | null
+          previous_quantity: number
+          previous_supplier_id?: string | null
+          previous_upload_id?: string | null
+          upload_id: string
+        }
+        Update: {
+          consumption_id?: string
+          created_at?: string | null
+          farm_id?: string
+          id?: string
+          previous_area_id?: string | null
+          previous_quantity?: number
+          previous_supplier_id?: string | null
+          previous_upload_id?: string | null
+          upload_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "consumption_upload_snapshots_consumption_id_fkey"
+            columns: ["consumption_id"]
+            isOneToOne: false
+            referencedRelation: "consumption"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "consumption_upload_snapshots_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "consumption_upload_snapshots_upload_id_fkey"
+            columns: ["upload_id"]
+            isOneToOne: false
+            referencedRelation: "uploads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cost_template_items: {
         Row: {
           allocation_type: string
@@ -617,10 +837,12 @@ export type Database = {
       }
       farms: {
         Row: {
+          animal_allocation_mode: string
           contact_person_name: string | null
           contact_person_phone: string | null
           created_at: string | null
           description: string | null
+          feed_costing_mode: string
           id: string
           max_animals: number | null
           name: string
@@ -632,10 +854,12 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
+          animal_allocation_mode?: string
           contact_person_name?: string | null
           contact_person_phone?: string | null
           created_at?: string | null
           description?: string | null
+          feed_costing_mode?: string
           id?: string
           max_animals?: number | null
           name: string
@@ -647,10 +871,12 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          animal_allocation_mode?: string
           contact_person_name?: string | null
           contact_person_phone?: string | null
           created_at?: string | null
           description?: string | null
+          feed_costing_mode?: string
           id?: string
           max_animals?: number | null
           name?: string
@@ -663,147 +889,465 @@ export type Database = {
         }
         Relationships: []
       }
-      feed_types: {
+      feed_analyses: {
         Row: {
           created_at: string | null
+          created_by: string | null
+          crude_protein_g_per_kg_dm: number | null
+          dry_matter_percent: number | null
           farm_id: string
+          feed_type_id: string
           id: string
-          name: string
-          normalized_name: string | null
-          unit: string | null
-          updated_at: string | null
+          lab_name: string | null
+          me_mj_per_kg_dm: number | null
+          nel_mj_per_kg_dm: number | null
+          notes: string | null
+          valid_from: string
         }
         Insert: {
           created_at?: string | null
+          created_by?: string | null
+          crude_protein_g_per_kg_dm?: number | null
+          dry_matter_percent?: number | null
           farm_id: string
+          feed_type_id: string
           id?: string
-          name: string
-          normalized_name?: string | null
-          unit?: string | null
-          updated_at?: string | null
+          lab_name?: string | null
+          me_mj_per_kg_dm?: number | null
+          nel_mj_per_kg_dm?: number | null
+          notes?: string | null
+          valid_from: string
         }
         Update: {
           created_at?: string | null
+          created_by?: string | null
+          crude_protein_g_per_kg_dm?: number | null
+          dry_matter_percent?: number | null
           farm_id?: string
+          feed_type_id?: string
           id?: string
-          name?: string
-          normalized_name?: string | null
-          unit?: string | null
-          updated_at?: string | null
+          lab_name?: string | null
+          me_mj_per_kg_dm?: number | null
+          nel_mj_per_kg_dm?: number | null
+          notes?: string | null
+          valid_from?: string
         }
         Relationships: [
           {
-            foreignKeyName: "feed_types_farm_id_fkey"
+            foreignKeyName: "feed_analyses_farm_id_fkey"
             columns: ["farm_id"]
             isOneToOne: false
             referencedRelation: "farms"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "feed_analyses_feed_type_id_fkey"
+            columns: ["feed_type_id"]
+            isOneToOne: false
+            referencedRelation: "feed_types"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      income_transactions: {
+      feed_deliveries: {
         Row: {
-          amount: number
-          created_at: string | null
+          created_at: string
           created_by: string
-          description: string | null
+          delivery_date: string
+          delivery_note: string | null
           farm_id: string
+          feed_type_id: string
           id: string
-          income_type: string
-          livestock_count_id: string | null
           notes: string | null
-          transaction_date: string
-          updated_at: string | null
+          price_per_unit: number | null
+          quantity: number
+          supplier_id: string | null
         }
         Insert: {
-          amount: number
-          created_at?: string | null
+          created_at?: string
           created_by: string
-          description?: string | null
+          delivery_date: string
+          delivery_note?: string | null
           farm_id: string
+          feed_type_id: string
           id?: string
-          income_type: string
-          livestock_count_id?: string | null
           notes?: string | null
-          transaction_date: string
-          updated_at?: string | null
+          price_per_unit?: number | null
+          quantity: number
+          supplier_id?: string | null
         }
         Update: {
-          amount?: number
-          created_at?: string | null
+          created_at?: string
           created_by?: string
-          description?: string | null
+          delivery_date?: string
+          delivery_note?: string | null
           farm_id?: string
+          feed_type_id?: string
           id?: string
-          income_type?: string
-          livestock_count_id?: string | null
           notes?: string | null
-          transaction_date?: string
-          updated_at?: string | null
+          price_per_unit?: number | null
+          quantity?: number
+          supplier_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "income_transactions_farm_id_fkey"
+            foreignKeyName: "feed_deliveries_farm_id_fkey"
             columns: ["farm_id"]
             isOneToOne: false
             referencedRelation: "farms"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "income_transactions_livestock_count_id_fkey"
-            columns: ["livestock_count_id"]
+            foreignKeyName: "feed_deliveries_feed_type_id_fkey"
+            columns: ["feed_type_id"]
             isOneToOne: false
-            referencedRelation: "livestock_counts"
+            referencedRelation: "feed_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feed_deliveries_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
             referencedColumns: ["id"]
           },
         ]
       }
-      invitations: {
+      feed_type_aliases: {
         Row: {
+          alias: string
           created_at: string | null
-          email: string
-          expires_at: string
-          farm_id: string | null
+          farm_id: string
+          feed_type_id: string
           id: string
-          invited_by: string | null
-          role: string
-          token: string
-          used_at: string | null
         }
         Insert: {
+          alias: string
           created_at?: string | null
-          email: string
-          expires_at?: string
-          farm_id?: string | null
+          farm_id: string
+          feed_type_id: string
           id?: string
-          invited_by?: string | null
-          role?: string
-          token?: string
-          used_at?: string | null
         }
         Update: {
+          alias?: string
           created_at?: string | null
-          email?: string
-          expires_at?: string
-          farm_id?: string | null
+          farm_id?: string
+          feed_type_id?: string
           id?: string
-          invited_by?: string | null
-          role?: string
-          token?: string
-          used_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "invitations_farm_id_fkey"
+            foreignKeyName: "feed_type_aliases_farm_id_fkey"
             columns: ["farm_id"]
             isOneToOne: false
             referencedRelation: "farms"
             referencedColumns: ["id"]
           },
-        ]
-      }
-      livestock_count_details: {
-        Row: {
+          {
+            foreignKeyName: "feed_type_aliases_feed_type_id_fkey"
+            columns: ["feed_type_id"]
+            isOneToOne: false
+            referencedRelation: "feed_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      feed_type_suppliers: {
+        Row: {
+          created_at: string
+          farm_id: string
+          feed_type_id: string
+          id: string
+          share: number
+          supplier_id: string
+        }
+        Insert: {
+          created_at?: string
+          farm_id: string
+          feed_type_id: string
+          id?: string
+          share: number
+          supplier_id: string
+        }
+        Update: {
+          created_at?: string
+          farm_id?: string
+          feed_type_id?: string
+          id?: string
+          share?: number
+          supplier_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feed_type_suppliers_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feed_type_suppliers_feed_type_id_fkey"
+            columns: ["feed_type_id"]
+            isOneToOne: false
+            referencedRelation: "feed_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feed_type_suppliers_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      feed_types: {
+        Row: {
+          bag_weight_kg: number | null
+          created_at: string | null
+          density_kg_per_l: number | null
+          farm_id: string
+          id: string
+          low_stock_threshold: number | null
+          name: string
+          normalized_name: string | null
+          price_fallback_policy: string | null
+          reference_price: number | null
+          unit: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          bag_weight_kg?: number | null
+          created_at?: string | null
+          density_kg_per_l?: number | null
+          farm_id: string
+          id?: string
+          low_stock_threshold?: number | null
+          name: string
+          normalized_name?: string | null
+          price_fallback_policy?: string | null
+          reference_price?: number | null
+          unit?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          bag_weight_kg?: number | null
+          created_at?: string | null
+          density_kg_per_l?: number | null
+          farm_id?: string
+          id?: string
+          low_stock_threshold?: number | null
+          name?: string
+          normalized_name?: string | null
+          price_fallback_policy?: string | null
+          reference_price?: number | null
+          unit?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feed_types_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_profiles: {
+        Row: {
+          created_at: string | null
+          created_by: string
+          farm_id: string
+          header_signature: string
+          id: string
+          mapping: Json
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by: string
+          farm_id: string
+          header_signature: string
+          id?: string
+          mapping: Json
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string
+          farm_id?: string
+          header_signature?: string
+          id?: string
+          mapping?: Json
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_profiles_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_sources: {
+        Row: {
+          created_at: string
+          created_by: string
+          enabled: boolean
+          farm_id: string
+          id: string
+          last_error: string | null
+          last_polled_at: string | null
+          name: string
+          path: string
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          enabled?: boolean
+          farm_id: string
+          id?: string
+          last_error?: string | null
+          last_polled_at?: string | null
+          name: string
+          path: string
+          type: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          enabled?: boolean
+          farm_id?: string
+          id?: string
+          last_error?: string | null
+          last_polled_at?: string | null
+          name?: string
+          path?: string
+          type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_sources_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      income_transactions: {
+        Row: {
+          amount: number
+          created_at: string | null
+          created_by: string
+          description: string | null
+          farm_id: string
+          id: string
+          income_type: string
+          livestock_count_id: string | null
+          notes: string | null
+          transaction_date: string
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          created_by: string
+          description?: string | null
+          farm_id: string
+          id?: string
+          income_type: string
+          livestock_count_id?: string | null
+          notes?: string | null
+          transaction_date: string
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          created_by?: string
+          description?: string | null
+          farm_id?: string
+          id?: string
+          income_type?: string
+          livestock_count_id?: string | null
+          notes?: string | null
+          transaction_date?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "income_transactions_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "income_transactions_livestock_count_id_fkey"
+            columns: ["livestock_count_id"]
+            isOneToOne: false
+            referencedRelation: "livestock_counts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invitations: {
+        Row: {
+          created_at: string | null
+          email: string
+          expires_at: string
+          farm_id: string | null
+          id: string
+          invited_by: string | null
+          role: string
+          token: string
+          used_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          email: string
+          expires_at?: string
+          farm_id?: string | null
+          id?: string
+          invited_by?: string | null
+          role?: string
+          token?: string
+          used_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          email?: string
+          expires_at?: string
+          farm_id?: string | null
+          id?: string
+          invited_by?: string | null
+          role?: string
+          token?: string
+          used_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invitations_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      livestock_count_details: {
+        Row: {
           actual_weight_per_animal: number | null
           animal_type: string | null
           area_group_id: string | null
@@ -897,6 +1441,7 @@ export type Database = {
           expected_weight_per_animal: number | null
           farm_id: string
           feed_conversion_ratio: number | null
+          growth_target_curve: string | null
           id: string
           mortality_rate: number | null
           notes: string | null
@@ -920,6 +1465,7 @@ export type Database = {
           expected_weight_per_animal?: number | null
           farm_id: string
           feed_conversion_ratio?: number | null
+          growth_target_curve?: string | null
           id?: string
           mortality_rate?: number | null
           notes?: string | null
@@ -943,6 +1489,7 @@ export type Database = {
           expected_weight_per_animal?: number | null
           farm_id?: string
           feed_conversion_ratio?: number | null
+          growth_target_curve?: string | null
           id?: string
           mortality_rate?: number | null
           notes?: string | null
@@ -972,6 +1519,83 @@ export type Database = {
           },
         ]
       }
+      mortality_events: {
+        Row: {
+          area_group_id: string | null
+          area_id: string | null
+          cause: string | null
+          count: number
+          created_at: string | null
+          created_by: string | null
+          disposal_cost: number | null
+          event_date: string
+          event_type: string
+          farm_id: string
+          id: string
+          livestock_count_id: string
+          notes: string | null
+        }
+        Insert: {
+          area_group_id?: string | null
+          area_id?: string | null
+          cause?: string | null
+          count: number
+          created_at?: string | null
+          created_by?: string | null
+          disposal_cost?: number | null
+          event_date: string
+          event_type?: string
+          farm_id: string
+          id?: string
+          livestock_count_id: string
+          notes?: string | null
+        }
+        Update: {
+          area_group_id?: string | null
+          area_id?: string | null
+          cause?: string | null
+          count?: number
+          created_at?: string | null
+          created_by?: string | null
+          disposal_cost?: number | null
+          event_date?: string
+          event_type?: string
+          farm_id?: string
+          id?: string
+          livestock_count_id?: string
+          notes?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mortality_events_area_group_id_fkey"
+            columns: ["area_group_id"]
+            isOneToOne: false
+            referencedRelation: "area_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mortality_events_area_id_fkey"
+            columns: ["area_id"]
+            isOneToOne: false
+            referencedRelation: "areas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mortality_events_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mortality_events_livestock_count_id_fkey"
+            columns: ["livestock_count_id"]
+            isOneToOne: false
+            referencedRelation: "livestock_counts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       plan_configurations: {
         Row: {
           can_invite_users: boolean
@@ -1075,80 +1699,295 @@ export type Database = {
           details?: Json | null
           feature_required?: string | null
           id?: string
-          plan_type?: string | null
-          user_id?: string | null
+          plan_type?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          action_attempted?: string
+          blocked_at?: string | null
+          details?: Json | null
+          feature_required?: string | null
+          id?: string
+          plan_type?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      price_tiers: {
+        Row: {
+          created_at: string | null
+          created_by: string
+          farm_id: string
+          feed_type_id: string
+          id: string
+          notes: string | null
+          price_per_unit: number
+          supplier_id: string | null
+          unit: string | null
+          updated_at: string | null
+          valid_from: string
+          valid_to: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by: string
+          farm_id: string
+          feed_type_id: string
+          id?: string
+          notes?: string | null
+          price_per_unit: number
+          supplier_id?: string | null
+          unit?: string | null
+          updated_at?: string | null
+          valid_from: string
+          valid_to?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string
+          farm_id?: string
+          feed_type_id?: string
+          id?: string
+          notes?: string | null
+          price_per_unit?: number
+          supplier_id?: string | null
+          unit?: string | null
+          updated_at?: string | null
+          valid_from?: string
+          valid_to?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_tiers_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "price_tiers_feed_type_id_fkey"
+            columns: ["feed_type_id"]
+            isOneToOne: false
+            referencedRelation: "feed_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "price_tiers_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_order_items: {
+        Row: {
+          created_at: string | null
+          feed_type_id: string
+          id: string
+          purchase_order_id: string
+          quantity: number
+          unit: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          feed_type_id: string
+          id?: string
+          purchase_order_id: string
+          quantity: number
+          unit?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          feed_type_id?: string
+          id?: string
+          purchase_order_id?: string
+          quantity?: number
+          unit?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_items_feed_type_id_fkey"
+            columns: ["feed_type_id"]
+            isOneToOne: false
+            referencedRelation: "feed_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          delivery_date: string | null
+          farm_id: string
+          id: string
+          notes: string | null
+          order_by_date: string | null
+          sent_at: string | null
+          status: string
+          supplier_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          delivery_date?: string | null
+          farm_id: string
+          id?: string
+          notes?: string | null
+          order_by_date?: string | null
+          sent_at?: string | null
+          status?: string
+          supplier_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          delivery_date?: string | null
+          farm_id?: string
+          id?: string
+          notes?: string | null
+          order_by_date?: string | null
+          sent_at?: string | null
+          status?: string
+          supplier_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ration_components: {
+        Row: {
+          amount: number
+          feed_type_id: string
+          id: string
+          ration_version_id: string
+        }
+        Insert: {
+          amount: number
+          feed_type_id: string
+          id?: string
+          ration_version_id: string
         }
         Update: {
-          action_attempted?: string
-          blocked_at?: string | null
-          details?: Json | null
-          feature_required?: string | null
+          amount?: number
+          feed_type_id?: string
           id?: string
-          plan_type?: string | null
-          user_id?: string | null
+          ration_version_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "ration_components_feed_type_id_fkey"
+            columns: ["feed_type_id"]
+            isOneToOne: false
+            referencedRelation: "feed_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ration_components_ration_version_id_fkey"
+            columns: ["ration_version_id"]
+            isOneToOne: false
+            referencedRelation: "ration_versions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      price_tiers: {
+      ration_versions: {
         Row: {
-          created_at: string | null
-          created_by: string
+          created_at: string
           farm_id: string
-          feed_type_id: string
           id: string
-          notes: string | null
-          price_per_unit: number
-          supplier_id: string | null
-          updated_at: string | null
+          ration_id: string
+          share_type: string
           valid_from: string
-          valid_to: string | null
         }
         Insert: {
-          created_at?: string | null
-          created_by: string
+          created_at?: string
           farm_id: string
-          feed_type_id: string
           id?: string
-          notes?: string | null
-          price_per_unit: number
-          supplier_id?: string | null
-          updated_at?: string | null
+          ration_id: string
+          share_type: string
           valid_from: string
-          valid_to?: string | null
         }
         Update: {
-          created_at?: string | null
-          created_by?: string
+          created_at?: string
           farm_id?: string
-          feed_type_id?: string
           id?: string
-          notes?: string | null
-          price_per_unit?: number
-          supplier_id?: string | null
-          updated_at?: string | null
+          ration_id?: string
+          share_type?: string
           valid_from?: string
-          valid_to?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "price_tiers_farm_id_fkey"
+            foreignKeyName: "ration_versions_farm_id_fkey"
             columns: ["farm_id"]
             isOneToOne: false
             referencedRelation: "farms"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "price_tiers_feed_type_id_fkey"
-            columns: ["feed_type_id"]
+            foreignKeyName: "ration_versions_ration_id_fkey"
+            columns: ["ration_id"]
             isOneToOne: false
-            referencedRelation: "feed_types"
+            referencedRelation: "rations"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      rations: {
+        Row: {
+          created_at: string
+          description: string | null
+          farm_id: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          farm_id: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          farm_id?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
           {
-            foreignKeyName: "price_tiers_supplier_id_fkey"
-            columns: ["supplier_id"]
+            foreignKeyName: "rations_farm_id_fkey"
+            columns: ["farm_id"]
             isOneToOne: false
-            referencedRelation: "suppliers"
+            referencedRelation: "farms"
             referencedColumns: ["id"]
           },
         ]
@@ -1233,6 +2072,54 @@ export type Database = {
         }
         Relationships: []
       }
+      stock_takes: {
+        Row: {
+          counted_quantity: number
+          created_at: string
+          created_by: string
+          date: string
+          farm_id: string
+          feed_type_id: string
+          id: string
+          notes: string | null
+        }
+        Insert: {
+          counted_quantity: number
+          created_at?: string
+          created_by: string
+          date: string
+          farm_id: string
+          feed_type_id: string
+          id?: string
+          notes?: string | null
+        }
+        Update: {
+          counted_quantity?: number
+          created_at?: string
+          created_by?: string
+          date?: string
+          farm_id?: string
+          feed_type_id?: string
+          id?: string
+          notes?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_takes_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_takes_feed_type_id_fkey"
+            columns: ["feed_type_id"]
+            isOneToOne: false
+            referencedRelation: "feed_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       subscriptions: {
         Row: {
           cancel_at_period_end: boolean | null
@@ -1293,6 +2180,92 @@ export type Database = {
         }
         Relationships: []
       }
+      supplier_contracts: {
+        Row: {
+          call_off_basis: string
+          contract_number: string | null
+          contracted_quantity: number
+          created_at: string | null
+          created_by: string | null
+          farm_id: string
+          feed_type_id: string
+          id: string
+          notes: string | null
+          price_per_unit: number
+          price_tier_id: string | null
+          supplier_id: string
+          unit: string | null
+          updated_at: string | null
+          valid_from: string
+          valid_to: string
+        }
+        Insert: {
+          call_off_basis?: string
+          contract_number?: string | null
+          contracted_quantity: number
+          created_at?: string | null
+          created_by?: string | null
+          farm_id: string
+          feed_type_id: string
+          id?: string
+          notes?: string | null
+          price_per_unit: number
+          price_tier_id?: string | null
+          supplier_id: string
+          unit?: string | null
+          updated_at?: string | null
+          valid_from: string
+          valid_to: string
+        }
+        Update: {
+          call_off_basis?: string
+          contract_number?: string | null
+          contracted_quantity?: number
+          created_at?: string | null
+          created_by?: string | null
+          farm_id?: string
+          feed_type_id?: string
+          id?: string
+          notes?: string | null
+          price_per_unit?: number
+          price_tier_id?: string | null
+          supplier_id?: string
+          unit?: string | null
+          updated_at?: string | null
+          valid_from?: string
+          valid_to?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_contracts_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_contracts_feed_type_id_fkey"
+            columns: ["feed_type_id"]
+            isOneToOne: false
+            referencedRelation: "feed_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_contracts_price_tier_id_fkey"
+            columns: ["price_tier_id"]
+            isOneToOne: false
+            referencedRelation: "price_tiers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_contracts_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       supplier_sync_settings: {
         Row: {
           auto_sync_enabled: boolean | null
@@ -1418,38 +2391,68 @@ export type Database = {
         Row: {
           created_at: string | null
           error_message: string | null
+          explode_rations: boolean
           farm_id: string
           file_url: string | null
           filename: string
           id: string
+          import_source_id: string | null
+          progress_processed: number | null
+          progress_total: number | null
+          rolled_back_at: string | null
           rows_imported: number | null
+          rows_unchanged: number | null
           rows_updated: number | null
+          skipped_source_rows: number[] | null
+          source: string
+          source_sheet: string | null
           status: string
           uploaded_by: string
+          validation_issues: Json | null
         }
         Insert: {
           created_at?: string | null
           error_message?: string | null
+          explode_rations?: boolean
           farm_id: string
           file_url?: string | null
           filename: string
           id?: string
+          import_source_id?: string | null
+          progress_processed?: number | null
+          progress_total?: number | null
+          rolled_back_at?: string | null
           rows_imported?: number | null
+          rows_unchanged?: number | null
           rows_updated?: number | null
+          skipped_source_rows?: number[] | null
+          source?: string
+          source_sheet?: string | null
           status: string
           uploaded_by: string
+          validation_issues?: Json | null
         }
         Update: {
           created_at?: string | null
           error_message?: string | null
+          explode_rations?: boolean
           farm_id?: string
           file_url?: string | null
           filename?: string
           id?: string
+          import_source_id?: string | null
+          progress_processed?: number | null
+          progress_total?: number | null
+          rolled_back_at?: string | null
           rows_imported?: number | null
+          rows_unchanged?: number | null
           rows_updated?: number | null
+          skipped_source_rows?: number[] | null
+          source?: string
+          source_sheet?: string | null
           status?: string
           uploaded_by?: string
+          validation_issues?: Json | null
         }
         Relationships: [
           {
@@ -1459,6 +2462,13 @@ export type Database = {
             referencedRelation: "farms"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "uploads_import_source_id_fkey"
+            columns: ["import_source_id"]
+            isOneToOne: false
+            referencedRelation: "import_sources"
+            referencedColumns: ["id"]
+          },
         ]
       }
       users: {
@@ -1524,6 +2534,80 @@ export type Database = {
         }
         Relationships: []
       }
+      weighings: {
+        Row: {
+          area_group_id: string | null
+          area_id: string | null
+          average_weight_kg: number
+          created_at: string | null
+          created_by: string | null
+          farm_id: string
+          id: string
+          individual_weights: number[] | null
+          livestock_count_id: string
+          notes: string | null
+          sample_size: number
+          weighing_date: string
+        }
+        Insert: {
+          area_group_id?: string | null
+          area_id?: string | null
+          average_weight_kg: number
+          created_at?: string | null
+          created_by?: string | null
+          farm_id: string
+          id?: string
+          individual_weights?: number[] | null
+          livestock_count_id: string
+          notes?: string | null
+          sample_size: number
+          weighing_date: string
+        }
+        Update: {
+          area_group_id?: string | null
+          area_id?: string | null
+          average_weight_kg?: number
+          created_at?: string | null
+          created_by?: string | null
+          farm_id?: string
+          id?: string
+          individual_weights?: number[] | null
+          livestock_count_id?: string
+          notes?: string | null
+          sample_size?: number
+          weighing_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "weighings_area_group_id_fkey"
+            columns: ["area_group_id"]
+            isOneToOne: false
+            referencedRelation: "area_groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "weighings_area_id_fkey"
+            columns: ["area_id"]
+            isOneToOne: false
+            referencedRelation: "areas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "weighings_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "weighings_livestock_count_id_fkey"
+            columns: ["livestock_count_id"]
+            isOneToOne: false
+            referencedRelation: "livestock_counts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       widget_templates: {
         Row: {
           category: string | null
@@ -1610,7 +2694,14 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      merge_feed_types: {
+        Args: { p_farm_id: string; p_source_id: string; p_target_id: string }
+        Returns: Json
+      }
+      write_consumption_upload: {
+        Args: { p_upload_id: string; p_snapshots: Json; p_records: Json }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
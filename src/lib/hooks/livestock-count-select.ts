@@ -0,0 +1,16 @@
+/**
+ * Livestock Count Selects
+ *
+ * Select strings for loading cycles (livestock_counts) with the relations
+ * the cycle metrics need. Shared by the widget hooks and widgets, so a new
+ * relation is added in one place.
+ */
+
+/** Mortality events and animal sales of a cycle */
+export const LIVESTOCK_EVENTS_SELECT =
+  'mortality_events(event_date, event_type, count, disposal_cost, area_id, area_group_id), ' +
+  'animal_sales(sale_date, count, live_weight_per_animal_kg, carcass_weight_per_animal_kg, price_basis, price, bonus_total, area_id, area_group_id)'
+
+/** A cycle with its detail periods, mortality events and sales */
+export const LIVESTOCK_COUNT_SELECT =
+  `*, livestock_count_details(count, area_id, area_group_id, start_date, end_date), ${LIVESTOCK_EVENTS_SELECT}`
@@ -11,6 +11,7 @@ export const farmKeys = {
   farm: (farmId: string) => [...farmKeys.all, farmId] as const,
   areas: (farmId: string) => [...farmKeys.farm(farmId), 'areas'] as const,
   feedTypes: (farmId: string) => [...farmKeys.farm(farmId), 'feedTypes'] as const,
+  feedTypeAliases: (farmId: string) => [...farmKeys.farm(farmId), 'feedTypeAliases'] as const,
   suppliers: (farmId: string) => [...farmKeys.farm(farmId), 'suppliers'] as const,
   priceTiers: (farmId: string) => [...farmKeys.farm(farmId), 'priceTiers'] as const,
 }
@@ -69,6 +70,33 @@ export function useFeedTypes(farmId: string | null) {
   })
 }
 
+/**
+ * Hook to fetch feed type aliases with caching
+ * Used to match feed names from import files to existing feed types
+ */
+export function useFeedTypeAliases(farmId: string | null) {
+  const supabase = createClient()
+
+  return useQuery({
+    queryKey: farmKeys.feedTypeAliases(farmId || ''),
+    queryFn: async () => {
+      if (!farmId) return []
+
+      const { data, error } = await supabase
+        .from('feed_type_aliases')
+        .select('*')
+        .eq('farm_id', farmId)
+        .order('alias')
+
+      if (error) throw error
+      return data || []
+    },
+    enabled: !!farmId,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 60 * 60 * 1000, // 1 hour
+  })
+}
+
 /**
  * Hook to fetch suppliers with caching
  * Suppliers rarely change - 10 minute stale time
@@ -19,13 +19,15 @@ import { createClient } from '@/lib/supabase/client'
 import { useFarmStore } from '@/lib/stores/farm-store'
 import { useDashboardStore } from '@/lib/stores/dashboard-store'
 import { loadConsumptionWithCosts } from '@/lib/utils/feed-calculations'
-import { calculateTotalAnimalsFromDetails } from '@/lib/utils/livestock-calculations'
+import { LIVESTOCK_COUNT_SELECT, LIVESTOCK_EVENTS_SELECT } from './livestock-count-select'
+import { calculateTotalAnimalsFromDetails, loadAnimalAllocationMode } from '@/lib/utils/livestock-calculations'
 import {
   calculateCycleMetrics,
   calculateAreaMetrics,
   calculateFeedComponentSummary,
   filterConsumptionByTimeframe,
   ConsumptionItem,
+  CostTransaction,
 } from '@/lib/utils/kpi-calculations'
 import {
   WidgetInstance,
@@ -77,6 +79,12 @@ function useSharedConsumptionData(
   })
 }
 
+interface CycleCostRow {
+  id: string
+  amount: number
+  livestock_count_id: string | null
+}
+
 /**
  * Helper to load all cycle metrics in bulk (prevents N+1 queries)
  * Loads consumption and cost transactions ONCE for all cycles, then calculates metrics
@@ -94,6 +102,8 @@ async function loadCycleMetricsBulk(
   const minDate = startDates.length > 0 ? startDates.reduce((a, b) => a < b ? a : b) : new Date().toISOString().split('T')[0]
   const maxDate = endDates.length > 0 ? endDates.reduce((a, b) => a > b ? a : b) : new Date().toISOString().split('T')[0]
 
+  const allocationMode = await loadAnimalAllocationMode(supabase, farmId)
+
   // Load ALL consumption data ONCE
   const { consumption: allConsumption } = await loadConsumptionWithCosts(
     supabase,
@@ -106,7 +116,7 @@ async function loadCycleMetricsBulk(
   const cycleIds = cycles.map(c => c.id)
   const { data: allCostTransactions } = await supabase
     .from('cost_transactions')
-    .select('amount, livestock_count_id')
+    .select('id, amount, livestock_count_id')
     .in('livestock_count_id', cycleIds)
 
   // Calculate metrics for each cycle using pre-loaded data
@@ -125,13 +135,16 @@ async function loadCycleMetricsBulk(
       cycle.end_date
     )
 
-    const cycleCostTransactions = (allCostTransactions || [])
-      .filter((ct: any) => ct.livestock_count_id === cycle.id)
+    const cycleCostTransactions: CostTransaction[] = ((allCostTransactions || []) as CycleCostRow[])
+      .filter(ct => ct.livestock_count_id === cycle.id)
+      .map(ct => ({ id: ct.id, amount: ct.amount, transaction_date: '' }))
 
     const metrics = calculateCycleMetrics(
       cycle as any,
       cycleConsumption as any,
-      cycleCostTransactions.map((ct: any) => ({ ...ct, transaction_date: '', cost_types: undefined }))
+      cycleCostTransactions,
+      [],
+      allocationMode
     )
 
     return { cycle, metrics }
@@ -196,6 +209,7 @@ export function useStatWidgetData(widget: WidgetInstance) {
     const supabase = createClient()
 
     try {
+      const allocationMode = await loadAnimalAllocationMode(supabase, currentFarmId)
       let value = 0
       let subtitle = ''
 
@@ -351,7 +365,7 @@ export function useStatWidgetData(widget: WidgetInstance) {
           // OPTIMIZED: Use bulk loading helper instead of N+1 queries
           const { data: cycles } = await supabase
             .from('livestock_counts')
-            .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+            .select(LIVESTOCK_COUNT_SELECT)
             .eq('farm_id', currentFarmId)
             .not('revenue', 'is', null)
 
@@ -373,7 +387,7 @@ export function useStatWidgetData(widget: WidgetInstance) {
           // Find current (ongoing) cycle
           const { data: cycle } = await supabase
             .from('livestock_counts')
-            .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+            .select(LIVESTOCK_COUNT_SELECT)
             .eq('farm_id', currentFarmId)
             .is('end_date', null)
             .order('start_date', { ascending: false })
@@ -395,7 +409,9 @@ export function useStatWidgetData(widget: WidgetInstance) {
             const metrics = calculateCycleMetrics(
               cycle as any,
               consumption as any,
-              (costTransactions || []).map(ct => ({ ...ct, transaction_date: '', cost_types: undefined }))
+              (costTransactions || []).map(ct => ({ ...ct, transaction_date: '', cost_types: undefined })),
+              [],
+              allocationMode
             )
             value = metrics.profitLoss
             subtitle = `Aktueller Durchgang`
@@ -406,7 +422,7 @@ export function useStatWidgetData(widget: WidgetInstance) {
         case 'current_cycle_fcr': {
           const { data: cycle } = await supabase
             .from('livestock_counts')
-            .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+            .select(LIVESTOCK_COUNT_SELECT)
             .eq('farm_id', currentFarmId)
             .is('end_date', null)
             .order('start_date', { ascending: false })
@@ -428,7 +444,9 @@ export function useStatWidgetData(widget: WidgetInstance) {
             const metrics = calculateCycleMetrics(
               cycle as any,
               consumption as any,
-              (costTransactions || []).map(ct => ({ ...ct, transaction_date: '', cost_types: undefined }))
+              (costTransactions || []).map(ct => ({ ...ct, transaction_date: '', cost_types: undefined })),
+              [],
+              allocationMode
             )
             value = metrics.feedConversionRatio
             subtitle = 'Futterverwertung'
@@ -439,7 +457,7 @@ export function useStatWidgetData(widget: WidgetInstance) {
         case 'current_cycle_feed_cost': {
           const { data: cycle } = await supabase
             .from('livestock_counts')
-            .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+            .select(LIVESTOCK_COUNT_SELECT)
             .eq('farm_id', currentFarmId)
             .is('end_date', null)
             .order('start_date', { ascending: false })
@@ -461,7 +479,9 @@ export function useStatWidgetData(widget: WidgetInstance) {
             const metrics = calculateCycleMetrics(
               cycle as any,
               consumption as any,
-              (costTransactions || []).map(ct => ({ ...ct, transaction_date: '', cost_types: undefined }))
+              (costTransactions || []).map(ct => ({ ...ct, transaction_date: '', cost_types: undefined })),
+              [],
+              allocationMode
             )
             value = metrics.totalFeedCost
             subtitle = 'Futterkosten'
@@ -491,7 +511,7 @@ export function useStatWidgetData(widget: WidgetInstance) {
         case 'current_cycle_animals': {
           const { data: cycle } = await supabase
             .from('livestock_counts')
-            .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+            .select(LIVESTOCK_COUNT_SELECT)
             .eq('farm_id', currentFarmId)
             .is('end_date', null)
             .order('start_date', { ascending: false })
@@ -513,9 +533,11 @@ export function useStatWidgetData(widget: WidgetInstance) {
             const metrics = calculateCycleMetrics(
               cycle as any,
               consumption as any,
-              (costTransactions || []).map(ct => ({ ...ct, transaction_date: '', cost_types: undefined }))
+              (costTransactions || []).map(ct => ({ ...ct, transaction_date: '', cost_types: undefined })),
+              [],
+              allocationMode
             )
-            value = metrics.totalAnimals
+            value = metrics.peakAnimals
             subtitle = 'Tiere im Durchgang'
           }
           break
@@ -524,7 +546,7 @@ export function useStatWidgetData(widget: WidgetInstance) {
         case 'current_cycle_margin': {
           const { data: cycle } = await supabase
             .from('livestock_counts')
-            .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+            .select(LIVESTOCK_COUNT_SELECT)
             .eq('farm_id', currentFarmId)
             .is('end_date', null)
             .order('start_date', { ascending: false })
@@ -546,7 +568,9 @@ export function useStatWidgetData(widget: WidgetInstance) {
             const metrics = calculateCycleMetrics(
               cycle as any,
               consumption as any,
-              (costTransactions || []).map(ct => ({ ...ct, transaction_date: '', cost_types: undefined }))
+              (costTransactions || []).map(ct => ({ ...ct, transaction_date: '', cost_types: undefined })),
+              [],
+              allocationMode
             )
             value = metrics.profitMargin
             subtitle = 'Gewinnspanne (%)'
@@ -557,7 +581,7 @@ export function useStatWidgetData(widget: WidgetInstance) {
         case 'current_cycle_feed_efficiency': {
           const { data: cycle } = await supabase
             .from('livestock_counts')
-            .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+            .select(LIVESTOCK_COUNT_SELECT)
             .eq('farm_id', currentFarmId)
             .is('end_date', null)
             .order('start_date', { ascending: false })
@@ -579,7 +603,9 @@ export function useStatWidgetData(widget: WidgetInstance) {
             const metrics = calculateCycleMetrics(
               cycle as any,
               consumption as any,
-              (costTransactions || []).map(ct => ({ ...ct, transaction_date: '', cost_types: undefined }))
+              (costTransactions || []).map(ct => ({ ...ct, transaction_date: '', cost_types: undefined })),
+              [],
+              allocationMode
             )
             value = metrics.feedEfficiency
             subtitle = 'Futtereffizienz'
@@ -590,7 +616,7 @@ export function useStatWidgetData(widget: WidgetInstance) {
         case 'current_cycle_cost_per_animal': {
           const { data: cycle } = await supabase
             .from('livestock_counts')
-            .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+            .select(LIVESTOCK_COUNT_SELECT)
             .eq('farm_id', currentFarmId)
             .is('end_date', null)
             .order('start_date', { ascending: false })
@@ -612,7 +638,9 @@ export function useStatWidgetData(widget: WidgetInstance) {
             const metrics = calculateCycleMetrics(
               cycle as any,
               consumption as any,
-              (costTransactions || []).map(ct => ({ ...ct, transaction_date: '', cost_types: undefined }))
+              (costTransactions || []).map(ct => ({ ...ct, transaction_date: '', cost_types: undefined })),
+              [],
+              allocationMode
             )
             value = metrics.feedCostPerAnimal
             subtitle = 'Kosten pro Tier'
@@ -620,11 +648,49 @@ export function useStatWidgetData(widget: WidgetInstance) {
           break
         }
 
+        case 'current_cycle_dm_intake':
+        case 'current_cycle_cost_per_kg_dm':
+        case 'current_cycle_cost_per_mj': {
+          const { data: cycle } = await supabase
+            .from('livestock_counts')
+            .select(LIVESTOCK_COUNT_SELECT)
+            .eq('farm_id', currentFarmId)
+            .is('end_date', null)
+            .order('start_date', { ascending: false })
+            .limit(1)
+            .single()
+
+          if (cycle) {
+            const { consumption } = await loadConsumptionWithCosts(
+              supabase,
+              currentFarmId,
+              cycle.start_date,
+              cycle.end_date
+            )
+
+            const metrics = calculateCycleMetrics(cycle, consumption, [], [], allocationMode)
+            if (config.dataSource === 'current_cycle_dm_intake') {
+              value = metrics.dryMatterIntakePerAnimalPerDay || 0
+              subtitle = 'kg TM pro Tier und Tag'
+            } else if (config.dataSource === 'current_cycle_cost_per_kg_dm') {
+              value = metrics.feedCostPerKgDryMatter || 0
+              subtitle = 'Futterkosten je kg TM'
+            } else if (metrics.feedCostPerMjMe !== null) {
+              value = metrics.feedCostPerMjMe
+              subtitle = 'Futterkosten je MJ ME'
+            } else {
+              value = metrics.feedCostPerMjNel || 0
+              subtitle = 'Futterkosten je MJ NEL'
+            }
+          }
+          break
+        }
+
         case 'best_cycle_profit': {
           // OPTIMIZED: Use bulk loading helper instead of N+1 queries
           const { data: cycles } = await supabase
             .from('livestock_counts')
-            .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+            .select(LIVESTOCK_COUNT_SELECT)
             .eq('farm_id', currentFarmId)
             .not('revenue', 'is', null)
 
@@ -641,7 +707,7 @@ export function useStatWidgetData(widget: WidgetInstance) {
           // OPTIMIZED: Use bulk loading helper instead of N+1 queries
           const { data: cycles } = await supabase
             .from('livestock_counts')
-            .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+            .select(LIVESTOCK_COUNT_SELECT)
             .eq('farm_id', currentFarmId)
             .not('revenue', 'is', null)
 
@@ -658,7 +724,7 @@ export function useStatWidgetData(widget: WidgetInstance) {
           // OPTIMIZED: Use bulk loading helper instead of N+1 queries
           const { data: cycles } = await supabase
             .from('livestock_counts')
-            .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+            .select(LIVESTOCK_COUNT_SELECT)
             .eq('farm_id', currentFarmId)
             .not('end_date', 'is', null)
 
@@ -691,7 +757,7 @@ export function useStatWidgetData(widget: WidgetInstance) {
           // OPTIMIZED: Use bulk loading helper instead of N+1 queries
           const { data: cycles } = await supabase
             .from('livestock_counts')
-            .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+            .select(LIVESTOCK_COUNT_SELECT)
             .eq('farm_id', currentFarmId)
             .not('end_date', 'is', null)
 
@@ -708,7 +774,7 @@ export function useStatWidgetData(widget: WidgetInstance) {
           // OPTIMIZED: Use bulk loading helper instead of N+1 queries
           const { data: cycles } = await supabase
             .from('livestock_counts')
-            .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+            .select(LIVESTOCK_COUNT_SELECT)
             .eq('farm_id', currentFarmId)
             .not('end_date', 'is', null)
 
@@ -725,7 +791,7 @@ export function useStatWidgetData(widget: WidgetInstance) {
           // OPTIMIZED: Use bulk loading helper instead of N+1 queries
           const { data: cycles } = await supabase
             .from('livestock_counts')
-            .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+            .select(LIVESTOCK_COUNT_SELECT)
             .eq('farm_id', currentFarmId)
             .not('end_date', 'is', null)
 
@@ -745,7 +811,7 @@ export function useStatWidgetData(widget: WidgetInstance) {
           // MULTI-CYCLE OVERVIEW: Calculate average number of animals per cycle
           const { data: cycles } = await supabase
             .from('livestock_counts')
-            .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+            .select(LIVESTOCK_COUNT_SELECT)
             .eq('farm_id', currentFarmId)
             .not('end_date', 'is', null)
 
@@ -756,7 +822,7 @@ export function useStatWidgetData(widget: WidgetInstance) {
                 [] as any,
                 []
               )
-              return metrics.totalAnimals
+              return metrics.peakAnimals
             })
 
             const validCounts = animalCounts.filter(count => count > 0)
@@ -846,6 +912,7 @@ export function useTableWidgetData(widget: WidgetInstance) {
     const supabase = createClient()
 
     try {
+      const allocationMode = await loadAnimalAllocationMode(supabase, currentFarmId)
       // Check dataSource to determine what data to load
       const dataSource = config.dataSource || 'consumption'
 
@@ -867,7 +934,7 @@ export function useTableWidgetData(widget: WidgetInstance) {
         // OPTIMIZED: Load consumption and cost transactions ONCE instead of N queries
         const { data: cycles, error: cyclesError } = await supabase
           .from('livestock_counts')
-          .select('*, livestock_count_details(count, area_id, area_group_id)')
+          .select(`*, livestock_count_details(count, area_id, area_group_id), ${LIVESTOCK_EVENTS_SELECT}`)
           .eq('farm_id', currentFarmId)
           .order('start_date', { ascending: false })
           .limit(config.pageSize || 10)
@@ -908,7 +975,9 @@ export function useTableWidgetData(widget: WidgetInstance) {
             const metrics = calculateCycleMetrics(
               cycle as any,
               cycleConsumption as any,
-              cycleCostTransactions.map(ct => ({ ...ct, transaction_date: '', cost_types: undefined }))
+              cycleCostTransactions.map(ct => ({ ...ct, transaction_date: '', cost_types: undefined })),
+              [],
+              allocationMode
             )
 
             return {
@@ -917,7 +986,7 @@ export function useTableWidgetData(widget: WidgetInstance) {
               total_feed_cost: metrics.totalFeedCost,
               animal_purchase_cost: metrics.animalPurchaseCost,
               additional_costs: metrics.additionalCosts,
-              total_animals: metrics.totalAnimals,
+              total_animals: metrics.peakAnimals,
               profit_loss: metrics.profitLoss,
             }
           })
@@ -931,7 +1000,7 @@ export function useTableWidgetData(widget: WidgetInstance) {
         // OPTIMIZED: Load consumption and cost transactions ONCE instead of N queries
         const { data: cycles } = await supabase
           .from('livestock_counts')
-          .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date, areas(id, name), area_groups(id, name))')
+          .select(`*, livestock_count_details(count, area_id, area_group_id, start_date, end_date, areas(id, name), area_groups(id, name)), ${LIVESTOCK_EVENTS_SELECT}`)
           .eq('farm_id', currentFarmId)
           .not('end_date', 'is', null)
           .order('start_date', { ascending: false })
@@ -1035,7 +1104,7 @@ export function useTableWidgetData(widget: WidgetInstance) {
         // CYCLE-SPECIFIC: Load feed component breakdown for a single cycle (ignore global date range)
         const { data: cycle } = await supabase
           .from('livestock_counts')
-          .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+          .select(LIVESTOCK_COUNT_SELECT)
           .eq('farm_id', currentFarmId)
           .is('end_date', null)
           .order('start_date', { ascending: false })
@@ -1063,7 +1132,7 @@ export function useTableWidgetData(widget: WidgetInstance) {
         // OPTIMIZED: Load consumption ONCE for all cycles instead of N queries
         const { data: cycles } = await supabase
           .from('livestock_counts')
-          .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+          .select(LIVESTOCK_COUNT_SELECT)
           .eq('farm_id', currentFarmId)
           .not('end_date', 'is', null)
           .order('start_date', { ascending: false })
@@ -1106,7 +1175,9 @@ export function useTableWidgetData(widget: WidgetInstance) {
             const metrics = calculateCycleMetrics(
               cycle as any,
               cycleConsumption as any,
-              cycleCostTransactions.map(ct => ({ ...ct, transaction_date: '', cost_types: undefined }))
+              cycleCostTransactions.map(ct => ({ ...ct, transaction_date: '', cost_types: undefined })),
+              [],
+              allocationMode
             )
 
             return {
@@ -1201,10 +1272,11 @@ export function useCycleChartWidgetData(widget: WidgetInstance) {
     const supabase = createClient()
 
     try {
+      const allocationMode = await loadAnimalAllocationMode(supabase, currentFarmId)
       // OPTIMIZED: Load consumption and cost transactions ONCE instead of N queries
       const { data: cycles, error: cyclesError } = await supabase
         .from('livestock_counts')
-        .select('*, livestock_count_details(count, area_id, area_group_id)')
+        .select(`*, livestock_count_details(count, area_id, area_group_id), ${LIVESTOCK_EVENTS_SELECT}`)
         .eq('farm_id', currentFarmId)
         .order('start_date', { ascending: true })
         .limit(10)
@@ -1247,7 +1319,9 @@ export function useCycleChartWidgetData(widget: WidgetInstance) {
           const metrics = calculateCycleMetrics(
             cycle as any,
             cycleConsumption as any,
-            cycleCostTransactions.map(ct => ({ ...ct, transaction_date: '', cost_types: undefined }))
+            cycleCostTransactions.map(ct => ({ ...ct, transaction_date: '', cost_types: undefined })),
+            [],
+            allocationMode
           )
 
           return {
@@ -1255,7 +1329,7 @@ export function useCycleChartWidgetData(widget: WidgetInstance) {
             total_feed_cost: metrics.totalFeedCost,
             animal_purchase_cost: metrics.animalPurchaseCost,
             additional_costs: metrics.additionalCosts,
-            total_animals: metrics.totalAnimals,
+            total_animals: metrics.peakAnimals,
           }
         })
       }
@@ -1346,6 +1420,7 @@ export function useGaugeWidgetData(widget: WidgetInstance) {
     const supabase = createClient()
 
     try {
+      const allocationMode = await loadAnimalAllocationMode(supabase, currentFarmId)
       let value = 0
       let label = ''
       const target = config.target || 0
@@ -1356,7 +1431,7 @@ export function useGaugeWidgetData(widget: WidgetInstance) {
         case 'cycle_profit_margin': {
           const { data: cycle } = await supabase
             .from('livestock_counts')
-            .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+            .select(LIVESTOCK_COUNT_SELECT)
             .eq('farm_id', currentFarmId)
             .is('end_date', null)
             .order('start_date', { ascending: false })
@@ -1378,7 +1453,9 @@ export function useGaugeWidgetData(widget: WidgetInstance) {
             const metrics = calculateCycleMetrics(
               cycle as any,
               consumption as any,
-              (costTransactions || []).map(ct => ({ ...ct, transaction_date: '', cost_types: undefined }))
+              (costTransactions || []).map(ct => ({ ...ct, transaction_date: '', cost_types: undefined })),
+              [],
+              allocationMode
             )
             value = metrics.profitMargin
             label = 'Gewinnspanne'
@@ -1389,7 +1466,7 @@ export function useGaugeWidgetData(widget: WidgetInstance) {
         case 'cycle_fcr': {
           const { data: cycle } = await supabase
             .from('livestock_counts')
-            .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+            .select(LIVESTOCK_COUNT_SELECT)
             .eq('farm_id', currentFarmId)
             .is('end_date', null)
             .order('start_date', { ascending: false })
@@ -1411,7 +1488,9 @@ export function useGaugeWidgetData(widget: WidgetInstance) {
             const metrics = calculateCycleMetrics(
               cycle as any,
               consumption as any,
-              (costTransactions || []).map(ct => ({ ...ct, transaction_date: '', cost_types: undefined }))
+              (costTransactions || []).map(ct => ({ ...ct, transaction_date: '', cost_types: undefined })),
+              [],
+              allocationMode
             )
             value = metrics.feedConversionRatio
             label = 'Futterverwertung'
@@ -1422,7 +1501,7 @@ export function useGaugeWidgetData(widget: WidgetInstance) {
         case 'cycle_feed_efficiency': {
           const { data: cycle } = await supabase
             .from('livestock_counts')
-            .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+            .select(LIVESTOCK_COUNT_SELECT)
             .eq('farm_id', currentFarmId)
             .is('end_date', null)
             .order('start_date', { ascending: false })
@@ -1444,7 +1523,9 @@ export function useGaugeWidgetData(widget: WidgetInstance) {
             const metrics = calculateCycleMetrics(
               cycle as any,
               consumption as any,
-              (costTransactions || []).map(ct => ({ ...ct, transaction_date: '', cost_types: undefined }))
+              (costTransactions || []).map(ct => ({ ...ct, transaction_date: '', cost_types: undefined })),
+              [],
+              allocationMode
             )
             value = metrics.feedEfficiency
             label = 'Futtereffizienz'
@@ -1456,7 +1537,7 @@ export function useGaugeWidgetData(widget: WidgetInstance) {
           // Calculate mortality rate: (dead animals / total animals) × 100
           const { data: cycle } = await supabase
             .from('livestock_counts')
-            .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+            .select(LIVESTOCK_COUNT_SELECT)
             .eq('farm_id', currentFarmId)
             .is('end_date', null)
             .order('start_date', { ascending: false })
@@ -1478,7 +1559,9 @@ export function useGaugeWidgetData(widget: WidgetInstance) {
             const metrics = calculateCycleMetrics(
               cycle as any,
               consumption as any,
-              (costTransactions || []).map(ct => ({ ...ct, transaction_date: '', cost_types: undefined }))
+              (costTransactions || []).map(ct => ({ ...ct, transaction_date: '', cost_types: undefined })),
+              [],
+              allocationMode
             )
 
             // TODO: Mortality tracking not yet implemented in cycle metrics
@@ -1872,7 +1955,7 @@ export function useHeatmapWidgetData(widget: WidgetInstance) {
       // OPTIMIZED: Load all data ONCE instead of sequential queries per cycle
       const { data: cycles, error: cyclesError } = await supabase
         .from('livestock_counts')
-        .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+        .select(LIVESTOCK_COUNT_SELECT)
         .eq('farm_id', currentFarmId)
         .order('start_date', { ascending: true })
 
@@ -2032,6 +2115,7 @@ export function useWaterfallWidgetData(widget: WidgetInstance) {
 
     try {
       const supabase = createClient()
+      const allocationMode = await loadAnimalAllocationMode(supabase, currentFarmId)
 
       // Get cycle data with details
       let cycleQuery = supabase
@@ -2043,7 +2127,8 @@ export function useWaterfallWidgetData(widget: WidgetInstance) {
             expected_weight_per_animal, actual_weight_per_animal,
             buy_price_per_animal, sell_price_per_animal,
             is_start_group, is_end_group
-          )
+          ),
+          ${LIVESTOCK_EVENTS_SELECT}
         `)
         .eq('farm_id', currentFarmId)
 
@@ -2111,7 +2196,8 @@ export function useWaterfallWidgetData(widget: WidgetInstance) {
         cycle as any,
         consumption as any,
         costTransactions,
-        incomeTransactions
+        incomeTransactions,
+        allocationMode
       )
 
       // Build waterfall steps
@@ -2214,7 +2300,7 @@ export function useScatterWidgetData(widget: WidgetInstance) {
       // OPTIMIZED: Load all data ONCE instead of sequential queries per cycle
       const { data: cycles, error: cyclesError } = await supabase
         .from('livestock_counts')
-        .select('*, livestock_count_details(count, area_id, area_group_id, start_date, end_date)')
+        .select(LIVESTOCK_COUNT_SELECT)
         .eq('farm_id', currentFarmId)
         .not('end_date', 'is', null)
         .order('start_date', { ascending: false })
@@ -2242,7 +2328,7 @@ export function useScatterWidgetData(widget: WidgetInstance) {
           else if (xField === 'duration') point.x = metrics.cycleDuration
           else if (xField.includes('cost')) point.x = metrics.totalFeedCost
           else if (xField.includes('profit')) point.x = metrics.profitLoss
-          else if (xField.includes('animals')) point.x = metrics.totalAnimals
+          else if (xField.includes('animals')) point.x = metrics.peakAnimals
 
           // Y-axis
           if (yField === 'profit' || yField.includes('profit')) point.y = metrics.profitLoss
@@ -2254,7 +2340,7 @@ export function useScatterWidgetData(widget: WidgetInstance) {
           // Size based on optional field
           if (config.pointSize?.field) {
             if (config.pointSize.field === 'animals') {
-              point.size = metrics.totalAnimals
+              point.size = metrics.peakAnimals
             } else if (config.pointSize.field === 'revenue') {
               point.size = metrics.totalRevenue
             }
@@ -0,0 +1,170 @@
+/**
+ * Unit Tests for User-Defined Column Mappings
+ *
+ * These tests ensure that files without a matching adapter can be parsed
+ * with a mapping from the upload wizard or a saved import profile.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { readDelimitedText } from './index'
+import {
+  feedNameFromHeader,
+  findMissingColumns,
+  getHeaderSignature,
+  parseDateWithFormat,
+  parseDecimalWithSeparator,
+  parseWithColumnMapping,
+  suggestColumnMapping,
+  type ColumnMapping,
+} from './column-mapping'
+
+// ============================================================================
+// TEST DATA FIXTURES
+// ============================================================================
+
+const unknownExport = [
+  'Tag;Stall;Mischer;Mais (kg);Soja (kg);Gesamt (kg)',
+  '01.03.2024;Stall A;M1;1.250,5;80;1.330,5',
+  '02.03.2024;Stall A;M1;1.200;0;1.200',
+  '03.03.2024;Stall B;M1;0;0;0',
+].join('\n')
+
+const mapping: ColumnMapping = {
+  dateColumn: 'Tag',
+  areaColumn: 'Stall',
+  feedSystemColumn: 'Mischer',
+  supplierColumn: null,
+  feedColumns: ['Mais (kg)', 'Soja (kg)'],
+  dateFormat: 'DD.MM.YYYY',
+  decimalSeparator: ',',
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('parseWithColumnMapping', () => {
+  it('should parse mapped columns into ParsedData', () => {
+    const result = parseWithColumnMapping(readDelimitedText(unknownExport), mapping, 'Mischer-Export')
+
+    expect(result.importProfile).toBe('Mischer-Export')
+    expect(result.feedTypes).toEqual(['Mais', 'Soja'])
+    expect(result.totalRows).toBe(2)
+    expect(result.rows[0]).toEqual({
+      date: '2024-03-01',
+      area: 'Stall A',
+      feedSystem: 'M1',
+      feeds: { Mais: 1250.5, Soja: 80 },
+      total: 1330.5,
+      sourceRows: [0],
+    })
+  })
+
+  it('should read spreadsheet cells regardless of the profile formats', () => {
+    // As read by readSpreadsheet: ISO dates from date cells, decimal comma from number cells
+    const sheet = {
+      delimiter: '',
+      header: ['Tag', 'Stall', 'Mischer', 'Mais (kg)', 'Soja (kg)'],
+      rows: [
+        ['2024-03-01', 'Stall A', 'M1', '1250,5', '80'],
+        ['02.03.2024', 'Stall A', 'M1', '1200', '0'],
+      ],
+    }
+    const result = parseWithColumnMapping(sheet, { ...mapping, decimalSeparator: '.' }, 'Mischer-Export')
+
+    expect(result.rows.map(row => row.date)).toEqual(['2024-03-01', '2024-03-02'])
+    expect(result.rows[0].feeds).toEqual({ Mais: 1250.5, Soja: 80 })
+  })
+
+  it('should use the profile name as feed system without a feed system column', () => {
+    const result = parseWithColumnMapping(
+      readDelimitedText(unknownExport),
+      { ...mapping, feedSystemColumn: null },
+      'Mischer-Export'
+    )
+
+    expect(result.rows[0].feedSystem).toBe('Mischer-Export')
+  })
+
+  it('should read the supplier from a mapped supplier column', () => {
+    const withSupplier = [
+      'Tag;Stall;Lieferant;Soja (kg)',
+      '01.03.2024;Stall A; Agrarhandel Nord ;80',
+      '02.03.2024;Stall A;;75',
+    ].join('\n')
+
+    const result = parseWithColumnMapping(
+      readDelimitedText(withSupplier),
+      { ...mapping, feedSystemColumn: null, supplierColumn: 'Lieferant', feedColumns: ['Soja (kg)'] },
+      'Mischer-Export'
+    )
+
+    expect(result.rows[0].supplier).toBe('Agrarhandel Nord')
+    expect(result.rows[1]).not.toHaveProperty('supplier')
+  })
+
+  it('should reject mappings referencing missing columns', () => {
+    expect(() => parseWithColumnMapping(
+      readDelimitedText(unknownExport),
+      { ...mapping, feedColumns: ['Gerste (kg)'] },
+      'Test'
+    )).toThrow('Spalten nicht gefunden: Gerste (kg)')
+  })
+
+  it('should reject mappings without feed columns', () => {
+    expect(() => parseWithColumnMapping(
+      readDelimitedText(unknownExport),
+      { ...mapping, feedColumns: [] },
+      'Test'
+    )).toThrow('Bitte mindestens eine Futtermengen-Spalte zuordnen')
+  })
+})
+
+describe('parseDateWithFormat', () => {
+  it('should respect the selected format', () => {
+    expect(parseDateWithFormat('03/04/2024', 'DD/MM/YYYY')).toBe('2024-04-03')
+    expect(parseDateWithFormat('03/04/2024', 'MM/DD/YYYY')).toBe('2024-03-04')
+    expect(parseDateWithFormat('2024-04-03', 'YYYY-MM-DD')).toBe('2024-04-03')
+  })
+
+  it('should return null for values not matching the format', () => {
+    expect(parseDateWithFormat('2024-04-03', 'DD.MM.YYYY')).toBeNull()
+    expect(parseDateWithFormat('13/25/2024', 'MM/DD/YYYY')).toBeNull()
+  })
+
+  it('should reject dates that do not exist', () => {
+    expect(parseDateWithFormat('31.02.2024', 'DD.MM.YYYY')).toBeNull()
+    expect(parseDateWithFormat('29.02.2023', 'DD.MM.YYYY')).toBeNull()
+    expect(parseDateWithFormat('29.02.2024', 'DD.MM.YYYY')).toBe('2024-02-29')
+  })
+})
+
+describe('parseDecimalWithSeparator', () => {
+  it('should treat the other separator as thousands separator', () => {
+    expect(parseDecimalWithSeparator('1.250,5', ',')).toBe(1250.5)
+    expect(parseDecimalWithSeparator('1,250.5', '.')).toBe(1250.5)
+  })
+})
+
+describe('helpers', () => {
+  it('should build the same signature regardless of case and whitespace', () => {
+    expect(getHeaderSignature([' Tag', 'STALL '])).toBe(getHeaderSignature(['tag', 'stall']))
+    expect(getHeaderSignature(['Tag', 'Stall'])).not.toBe(getHeaderSignature(['Stall', 'Tag']))
+  })
+
+  it('should strip units from feed names', () => {
+    expect(feedNameFromHeader('Mais (kg)')).toBe('Mais')
+    expect(feedNameFromHeader('Mineral [kg]')).toBe('Mineral')
+    expect(feedNameFromHeader('Heu')).toBe('Heu')
+  })
+
+  it('should list missing columns', () => {
+    expect(findMissingColumns(['Tag', 'Stall'], mapping)).toEqual(['Mischer', 'Mais (kg)', 'Soja (kg)'])
+  })
+
+  it('should suggest a mapping from common column names', () => {
+    const suggestion = suggestColumnMapping(readDelimitedText(unknownExport))
+
+    expect(suggestion).toEqual(mapping)
+  })
+})
@@ -0,0 +1,240 @@
+/**
+ * User-defined column mapping for files no adapter recognises
+ *
+ * The mapping is created in the upload wizard and stored as a per-farm
+ * import profile. Columns are referenced by header name, so a profile can
+ * be reused for every file whose header produces the same signature.
+ */
+
+import type { ParsedRow, ParsedData } from '@/lib/csv-parser'
+import { buildParsedData, normalizeHeader, readDateCell, readQuantityCell, toIsoDate, type DelimitedTable, type SourceRowIssue } from './shared'
+
+export type DateFormat = 'DD.MM.YYYY' | 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY'
+
+export type DecimalSeparator = ',' | '.'
+
+export interface ColumnMapping {
+  dateColumn: string
+  areaColumn: string
+  /** Optional; without it every row gets the profile name as feed system */
+  feedSystemColumn: string | null
+  /** Optional; attributes each row's consumption to the supplier named in this column */
+  supplierColumn?: string | null
+  /** Columns holding feed quantities in kg, the header becomes the feed name */
+  feedColumns: string[]
+  dateFormat: DateFormat
+  decimalSeparator: DecimalSeparator
+}
+
+export const DATE_FORMATS: DateFormat[] = ['DD.MM.YYYY', 'YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY']
+
+/**
+ * Builds a signature identifying a header layout
+ * Case and surrounding whitespace are ignored, the order of columns is significant
+ */
+export function getHeaderSignature(header: string[]): string {
+  return header.map(col => col.trim().toLowerCase()).join('|')
+}
+
+/**
+ * Derives a feed name from a quantity column header ("Mais (kg)" → "Mais")
+ */
+export function feedNameFromHeader(column: string): string {
+  return column.replace(/\s*[([][^)\]]*[)\]]\s*$/, '').trim() || column.trim()
+}
+
+/**
+ * Parses a date using an explicit format
+ *
+ * @returns ISO date string or null if the value does not match the format
+ */
+export function parseDateWithFormat(value: string | undefined, format: DateFormat): string | null {
+  if (!value) return null
+
+  const datePart = value.replace(/"/g, '').trim().split(/[\sT]/)[0]
+  const parts = datePart.split(/[./-]/)
+  if (parts.length !== 3) return null
+
+  let day: string
+  let month: string
+  let year: string
+
+  switch (format) {
+    case 'YYYY-MM-DD':
+      [year, month, day] = parts
+      break
+    case 'MM/DD/YYYY':
+      [month, day, year] = parts
+      break
+    default:
+      [day, month, year] = parts
+  }
+
+  if (year.length === 2) year = `20${year}`
+  if (!/^\d{4}$/.test(year) || !/^\d{1,2}$/.test(month) || !/^\d{1,2}$/.test(day)) return null
+
+  return toIsoDate(year, month, day)
+}
+
+/**
+ * Parses a quantity using an explicit decimal separator
+ * The other separator is treated as thousands separator and removed
+ */
+export function parseDecimalWithSeparator(value: string | undefined, separator: DecimalSeparator): number {
+  if (!value) return 0
+
+  let cleaned = value.replace(/"/g, '').replace(/\s/g, '')
+  cleaned = separator === ','
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '')
+
+  const parsed = parseFloat(cleaned)
+  return isNaN(parsed) ? 0 : parsed
+}
+
+/**
+ * Checks that all columns referenced by a mapping exist in the header
+ *
+ * @returns List of missing column names (empty if the mapping is applicable)
+ */
+export function findMissingColumns(header: string[], mapping: ColumnMapping): string[] {
+  const available = new Set(header.map(normalizeHeader))
+  const referenced = [
+    mapping.dateColumn,
+    mapping.areaColumn,
+    ...(mapping.feedSystemColumn ? [mapping.feedSystemColumn] : []),
+    ...(mapping.supplierColumn ? [mapping.supplierColumn] : []),
+    ...mapping.feedColumns,
+  ]
+  return referenced.filter(col => !available.has(normalizeHeader(col)))
+}
+
+/**
+ * Parses a table with a user-defined column mapping
+ *
+ * @param table - File content split into header and rows
+ * @param mapping - Column assignment from the mapping wizard or a saved profile
+ * @param profileName - Used as feed system when no feed system column is mapped
+ */
+export function parseWithColumnMapping(
+  table: DelimitedTable,
+  mapping: ColumnMapping,
+  profileName: string
+): ParsedData {
+  const missing = findMissingColumns(table.header, mapping)
+  if (missing.length > 0) {
+    throw new Error(`Spalten nicht gefunden: ${missing.join(', ')}`)
+  }
+  if (mapping.feedColumns.length === 0) {
+    throw new Error('Bitte mindestens eine Futtermengen-Spalte zuordnen')
+  }
+
+  const normalizedHeader = table.header.map(normalizeHeader)
+  const indexOf = (column: string) => normalizedHeader.indexOf(normalizeHeader(column))
+
+  const dateIndex = indexOf(mapping.dateColumn)
+  const areaIndex = indexOf(mapping.areaColumn)
+  const feedSystemIndex = mapping.feedSystemColumn ? indexOf(mapping.feedSystemColumn) : -1
+  const supplierIndex = mapping.supplierColumn ? indexOf(mapping.supplierColumn) : -1
+  const feedColumns = mapping.feedColumns.map(column => ({
+    name: feedNameFromHeader(column),
+    index: indexOf(column),
+  }))
+
+  // Spreadsheets (no delimiter) are read with a decimal comma and ISO dates,
+  // whatever formats the mapping was saved with for a text export
+  const isSpreadsheet = table.delimiter === ''
+  const decimalSeparator: DecimalSeparator = isSpreadsheet ? ',' : mapping.decimalSeparator
+  const parseDate = (value: string | undefined) =>
+    (isSpreadsheet && parseDateWithFormat(value, 'YYYY-MM-DD')) || parseDateWithFormat(value, mapping.dateFormat)
+
+  const rows: ParsedRow[] = []
+  const issues: SourceRowIssue[] = []
+
+  table.rows.forEach((cells, rowIndex) => {
+    const date = readDateCell(cells[dateIndex], rowIndex, issues, parseDate)
+    if (!date) return
+
+    const feeds: Record<string, number> = {}
+    let total = 0
+
+    feedColumns.forEach(({ name, index }) => {
+      const value = readQuantityCell(
+        cells[index],
+        rowIndex,
+        issues,
+        name,
+        cellValue => parseDecimalWithSeparator(cellValue, decimalSeparator)
+      )
+      if (value > 0) {
+        feeds[name] = (feeds[name] || 0) + value
+        total += value
+      }
+    })
+
+    if (total === 0) return
+
+    rows.push({
+      date,
+      area: cells[areaIndex] || '',
+      feedSystem: (feedSystemIndex !== -1 && cells[feedSystemIndex]) || profileName,
+      ...(supplierIndex !== -1 && cells[supplierIndex]?.trim() ? { supplier: cells[supplierIndex].trim() } : {}),
+      feeds,
+      total,
+      sourceRows: [rowIndex]
+    })
+  })
+
+  return {
+    ...buildParsedData(rows, undefined, issues),
+    importProfile: profileName
+  }
+}
+
+/**
+ * Proposes a mapping for a header by recognising common column names
+ * Used to pre-fill the mapping wizard
+ */
+export function suggestColumnMapping(table: DelimitedTable): ColumnMapping {
+  const normalized = table.header.map(normalizeHeader)
+  const pick = (candidates: string[]) => {
+    const index = normalized.findIndex(col => candidates.some(c => col.includes(c)))
+    return index !== -1 ? table.header[index] : null
+  }
+
+  const dateColumn = pick(['datum', 'date', 'tag']) || table.header[0]
+  const areaColumn = pick(['gruppe', 'group', 'bereich', 'stall', 'abteil', 'bucht', 'pen']) || table.header[1] || table.header[0]
+  const feedSystemColumn = pick(['futtersystem', 'system', 'mischwagen', 'mischer', 'ventil'])
+  const supplierColumn = pick(['lieferant', 'supplier', 'händler', 'haendler'])
+
+  // Suggest every column with numeric sample values as feed column
+  const sampleRows = table.rows.slice(0, 20)
+  const feedColumns = table.header.filter(column => {
+    if ([dateColumn, areaColumn, feedSystemColumn, supplierColumn].includes(column)) return false
+    const name = normalizeHeader(column)
+    if (/^(summe|total|gesamt|insgesamt|wasser|water)/.test(name)) return false
+
+    const index = table.header.indexOf(column)
+    const values = sampleRows.map(cells => cells[index]).filter(Boolean)
+    return values.length > 0 && values.every(value => /^-?[\d.,\s"]+$/.test(value))
+  })
+
+  const dateIndex = table.header.indexOf(dateColumn)
+  const firstDate = table.rows.find(cells => cells[dateIndex])?.[dateIndex] || ''
+  const dateFormat: DateFormat = /^\d{4}-/.test(firstDate)
+    ? 'YYYY-MM-DD'
+    : firstDate.includes('/') ? 'DD/MM/YYYY' : 'DD.MM.YYYY'
+
+  const decimalSeparator: DecimalSeparator = table.delimiter === ',' ? '.' : ','
+
+  return {
+    dateColumn,
+    areaColumn,
+    feedSystemColumn,
+    supplierColumn,
+    feedColumns,
+    dateFormat,
+    decimalSeparator,
+  }
+}
+
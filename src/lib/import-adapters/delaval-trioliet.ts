@@ -0,0 +1,57 @@
+/**
+ * DeLaval / Trioliet feed management (TFM) export
+ *
+ * Long format, one row per mixer load component:
+ * Datum | Mischwagen | Gruppe | Komponente | Sollgewicht (kg) | Istgewicht (kg)
+ *
+ * Several loads per group and day are summed. The mixer column is optional;
+ * without it all rows are attributed to "DeLaval/Trioliet".
+ */
+
+import type { ImportAdapter } from './index'
+import { aggregateFeedEntries, buildParsedData, findColumn, readDateCell, readQuantityCell, type FeedEntry, type SourceRowIssue } from './shared'
+
+const COLUMNS = {
+  date: ['Datum', 'Date'],
+  mixer: ['Mischwagen', 'Mixer'],
+  group: ['Gruppe', 'Group'],
+  component: ['Komponente', 'Component'],
+  actual: ['Istgewicht', 'Actual weight'],
+}
+
+export const delavalTriolietAdapter: ImportAdapter = {
+  id: 'delaval-trioliet',
+  name: 'DeLaval / Trioliet',
+  description: 'Mischprotokoll aus DeLaval Optimat bzw. Trioliet TFM (CSV)',
+
+  detect: (header) =>
+    findColumn(header, COLUMNS.component) !== -1 &&
+    findColumn(header, COLUMNS.actual) !== -1,
+
+  parse: ({ header, rows }) => {
+    const dateIndex = findColumn(header, COLUMNS.date)
+    const mixerIndex = findColumn(header, COLUMNS.mixer)
+    const groupIndex = findColumn(header, COLUMNS.group)
+    const componentIndex = findColumn(header, COLUMNS.component)
+    const actualIndex = findColumn(header, COLUMNS.actual)
+
+    const entries: FeedEntry[] = []
+    const issues: SourceRowIssue[] = []
+
+    rows.forEach((cells, rowIndex) => {
+      const date = readDateCell(cells[dateIndex], rowIndex, issues)
+      if (!date) return
+
+      entries.push({
+        date,
+        area: cells[groupIndex] || '',
+        feedSystem: (mixerIndex !== -1 && cells[mixerIndex]) || 'DeLaval/Trioliet',
+        feed: cells[componentIndex] || '',
+        quantity: readQuantityCell(cells[actualIndex], rowIndex, issues, cells[componentIndex] || ''),
+        sourceRow: rowIndex
+      })
+    })
+
+    return buildParsedData(aggregateFeedEntries(entries), 'delaval-trioliet', issues)
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * GEA feed computer export
+ *
+ * Wide format, tab- or comma-delimited, one row per Stallgruppe/Futtersystem/day:
+ * Stallgruppe | Futtersystem | Datum | Insgesamt abgegebene Menge (kg) | <Futter> abgegebene Menge (kg) | ...
+ */
+
+import type { ParsedRow } from '@/lib/csv-parser'
+import type { ImportAdapter } from './index'
+import { buildParsedData, parseDecimal, readDateCell, readQuantityCell, type SourceRowIssue } from './shared'
+
+const FEED_COLUMN_SUFFIX = 'abgegebene Menge (kg)'
+
+export const geaAdapter: ImportAdapter = {
+  id: 'gea',
+  name: 'GEA',
+  description: 'CSV-Export aus dem GEA-Fütterungscomputer (Tab-getrennt)',
+
+  detect: (header) => header.some(col => col.includes(FEED_COLUMN_SUFFIX)),
+
+  parse: ({ header, rows }) => {
+    // Find columns with "abgegebene Menge (kg)" in the header
+    const feedColumns: { name: string; index: number }[] = []
+    header.forEach((col, index) => {
+      if (col.includes(FEED_COLUMN_SUFFIX) && !col.startsWith('Insgesamt')) {
+        // Extract feed name (everything before "abgegebene Menge")
+        const feedName = col.replace(` ${FEED_COLUMN_SUFFIX}`, '').trim()
+        if (feedName && feedName !== 'Wasser') { // Exclude water
+          feedColumns.push({ name: feedName, index })
+        }
+      }
+    })
+
+    const parsedRows: ParsedRow[] = []
+    const issues: SourceRowIssue[] = []
+
+    rows.forEach((cells, rowIndex) => {
+      const date = readDateCell(cells[2], rowIndex, issues)
+      if (!date) return
+
+      const feeds: Record<string, number> = {}
+      let hasValidData = false
+
+      feedColumns.forEach(({ name, index }) => {
+        const value = readQuantityCell(cells[index], rowIndex, issues, name)
+        if (value > 0) {
+          feeds[name] = value
+          hasValidData = true
+        }
+      })
+
+      // Only add row if it has valid feed data
+      if (hasValidData) {
+        parsedRows.push({
+          date,
+          area: cells[0], // Stallgruppe
+          feedSystem: cells[1], // Futtersystem
+          feeds,
+          total: parseDecimal(cells[3]), // Insgesamt
+          sourceRows: [rowIndex]
+        })
+      }
+    })
+
+    return buildParsedData(parsedRows, 'gea', issues)
+  }
+}
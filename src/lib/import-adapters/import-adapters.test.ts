@@ -0,0 +1,312 @@
+/**
+ * Unit Tests for Feeding-System Import Adapters
+ *
+ * These tests ensure every adapter is detected from its header row and
+ * produces the ParsedData shape expected by processConsumptionData.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseConsumptionExport, parseGEAExport } from '@/lib/csv-parser'
+import { detectImportAdapter, getImportAdapter, readDelimitedText } from './index'
+import { parseDateValue, parseDecimal, readDateCell, type SourceRowIssue } from './shared'
+import { parseImportFile } from './parse-file'
+
+// ============================================================================
+// TEST DATA FIXTURES
+// ============================================================================
+
+const geaExport = [
+  'Stallgruppe\tFuttersystem\tDatum\tInsgesamt abgegebene Menge (kg)\tMaissilage abgegebene Menge (kg)\tSojaschrot abgegebene Menge (kg)\tWasser abgegebene Menge (kg)',
+  'Bullen 1\tMischwagen\t01.03.2024\t"530,5"\t"500,5"\t30\t120',
+  'Bullen 2\tMischwagen\t01.03.2024\t410\t400\t10\t90',
+  'Bullen 1\tMischwagen\t02.03.2024\t520\t490\t30\t110',
+  'Bullen 2\tMischwagen\t02.03.2024\t0\t0\t0\t0',
+].join('\n')
+
+const lelyVectorExport = [
+  'Datum;Futtergruppe;Ration;Futtermittel;Angefordert (kg);Geladen (kg)',
+  '04.03.2024;Hochleistung;TMR 1;Grassilage;820;815,5',
+  '04.03.2024;Hochleistung;TMR 1;Kraftfutter;120;121',
+  '04.03.2024;Trockensteher;TMR 2;Stroh;60;58,2',
+  '05.03.2024;Hochleistung;TMR 1;Grassilage;820;800',
+].join('\n')
+
+const lelyVectorExportEnglish = [
+  'Date,Feed group,Ration,Feed type,Requested (kg),Loaded (kg)',
+  '2024-03-04,High yield,TMR 1,Grass silage,820,815.5',
+].join('\n')
+
+const delavalTriolietExport = [
+  'Datum;Mischwagen;Gruppe;Komponente;Sollgewicht (kg);Istgewicht (kg)',
+  '06.03.2024 06:15;Trioliet Solomix;Laktierende;Maissilage;1200;1185',
+  '06.03.2024 06:15;Trioliet Solomix;Laktierende;Rapsschrot;150;152',
+  '06.03.2024 16:40;Trioliet Solomix;Laktierende;Maissilage;1200;1210',
+  '06.03.2024 16:40;Trioliet Solomix;Jungvieh;Heu;200;0',
+].join('\n')
+
+const schauerExport = [
+  'Datum;Abteil;Ventil;Vormast [kg];Endmast [kg];Wasser [kg];Summe [kg]',
+  '07.03.2024;Abteil 1;V01;"45,2";0;130;"45,2"',
+  '07.03.2024;Abteil 1;V02;0;"61,8";150;"61,8"',
+  '08.03.2024;Abteil 2;V11;0;0;0;0',
+].join('\n')
+
+// ============================================================================
+// SHARED HELPERS
+// ============================================================================
+
+describe('parseDecimal', () => {
+  it('should parse decimal comma and decimal point', () => {
+    expect(parseDecimal('12,5')).toBe(12.5)
+    expect(parseDecimal('12.5')).toBe(12.5)
+  })
+
+  it('should strip thousands separators', () => {
+    expect(parseDecimal('1.234,5')).toBe(1234.5)
+    expect(parseDecimal('1,234.5')).toBe(1234.5)
+  })
+
+  it('should return 0 for empty or invalid values', () => {
+    expect(parseDecimal('')).toBe(0)
+    expect(parseDecimal(undefined)).toBe(0)
+    expect(parseDecimal('n/a')).toBe(0)
+  })
+})
+
+describe('parseDateValue', () => {
+  it('should parse German, ISO and slash dates', () => {
+    expect(parseDateValue('1.3.2024')).toBe('2024-03-01')
+    expect(parseDateValue('2024-03-01')).toBe('2024-03-01')
+    expect(parseDateValue('01/03/2024')).toBe('2024-03-01')
+  })
+
+  it('should ignore a time component', () => {
+    expect(parseDateValue('06.03.2024 06:15')).toBe('2024-03-06')
+  })
+
+  it('should return null for non-dates', () => {
+    expect(parseDateValue('Summe')).toBeNull()
+    expect(parseDateValue('')).toBeNull()
+  })
+
+  it('should return null for impossible dates', () => {
+    expect(parseDateValue('31.02.2024')).toBeNull()
+    expect(parseDateValue('29.02.2023')).toBeNull()
+    expect(parseDateValue('2024-13-01')).toBeNull()
+    expect(parseDateValue('29.02.2024')).toBe('2024-02-29')
+  })
+})
+
+describe('readDateCell', () => {
+  it('should record an invalid_date issue for impossible dates', () => {
+    const issues: SourceRowIssue[] = []
+
+    expect(readDateCell('32.03.2024', 4, issues)).toBeNull()
+    expect(readDateCell('', 5, issues)).toBeNull()
+
+    expect(issues).toEqual([{ sourceRow: 4, type: 'invalid_date', message: 'Ungültiges Datum "32.03.2024"' }])
+  })
+})
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+describe('detectImportAdapter', () => {
+  it.each([
+    [geaExport, 'gea'],
+    [lelyVectorExport, 'lely-vector'],
+    [lelyVectorExportEnglish, 'lely-vector'],
+    [delavalTriolietExport, 'delaval-trioliet'],
+    [schauerExport, 'schauer'],
+  ])('should detect the adapter from the header row (%#)', (content, expectedId) => {
+    const { header } = readDelimitedText(content)
+
+    expect(detectImportAdapter(header)?.id).toBe(expectedId)
+  })
+
+  it('should return null for unknown headers', () => {
+    expect(detectImportAdapter(['Spalte A', 'Spalte B'])).toBeNull()
+  })
+
+  it('should reject unknown formats with a list of supported systems', () => {
+    expect(() => parseConsumptionExport('Spalte A;Spalte B\n1;2')).toThrow(/Dateiformat nicht erkannt.*GEA/)
+  })
+
+  it('should use an explicitly chosen adapter', () => {
+    expect(getImportAdapter('schauer')?.name).toBe('Schauer')
+    expect(parseConsumptionExport(schauerExport, 'schauer').importAdapter).toBe('schauer')
+  })
+})
+
+// ============================================================================
+// ADAPTERS
+// ============================================================================
+
+describe('GEA adapter', () => {
+  it('should parse feed columns and skip water', () => {
+    const result = parseConsumptionExport(geaExport)
+
+    expect(result.importAdapter).toBe('gea')
+    expect(result.feedTypes).toEqual(['Maissilage', 'Sojaschrot'])
+    expect(result.rows[0]).toEqual({
+      date: '2024-03-01',
+      area: 'Bullen 1',
+      feedSystem: 'Mischwagen',
+      feeds: { Maissilage: 500.5, Sojaschrot: 30 },
+      total: 530.5,
+      sourceRows: [0],
+    })
+  })
+
+  it('should skip rows without feed quantities', () => {
+    const result = parseConsumptionExport(geaExport)
+
+    expect(result.totalRows).toBe(3)
+    expect(result.dateRange).toEqual({ start: '2024-03-01', end: '2024-03-02' })
+  })
+
+  it('should be reachable through parseGEAExport', () => {
+    expect(parseGEAExport(geaExport)).toEqual(parseConsumptionExport(geaExport))
+  })
+
+  it('should accept comma-delimited files', () => {
+    const commaExport = geaExport.replace(/\t/g, ',')
+
+    expect(parseGEAExport(commaExport).rows[0].feeds.Maissilage).toBe(500.5)
+  })
+
+  it('should report invalid dates and negative quantities as source issues', () => {
+    const faultyExport = geaExport.split('\n').slice(0, 2).concat(
+      'Bullen 2\tMischwagen\t32.03.2024\t410\t400\t10\t90',
+      'Bullen 2\tMischwagen\t02.03.2024\t400\t400\t-10\t90'
+    ).join('\n')
+
+    expect(parseGEAExport(faultyExport).sourceIssues).toEqual([
+      { sourceRow: 1, type: 'invalid_date', message: 'Ungültiges Datum "32.03.2024"' },
+      { sourceRow: 2, type: 'negative_quantity', message: 'Negative Menge -10 kg bei Sojaschrot' },
+    ])
+  })
+
+  it('should throw when there are no valid data rows', () => {
+    const emptyExport = geaExport.split('\n').slice(0, 1).concat('Bullen 1\tMischwagen\t01.03.2024\t0\t0\t0\t0').join('\n')
+
+    expect(() => parseGEAExport(emptyExport)).toThrow('Keine gültigen Datenzeilen gefunden')
+  })
+})
+
+describe('Lely Vector adapter', () => {
+  it('should combine feeds per feed group and day', () => {
+    const result = parseConsumptionExport(lelyVectorExport)
+
+    expect(result.totalRows).toBe(3)
+    expect(result.rows[0]).toEqual({
+      date: '2024-03-04',
+      area: 'Hochleistung',
+      feedSystem: 'Lely Vector',
+      feeds: { Grassilage: 815.5, Kraftfutter: 121 },
+      total: 936.5,
+      sourceRows: [0, 1],
+    })
+  })
+
+  it('should import loaded instead of requested quantities', () => {
+    const result = parseConsumptionExport(lelyVectorExport)
+    const dryCows = result.rows.find(row => row.area === 'Trockensteher')
+
+    expect(dryCows?.feeds.Stroh).toBe(58.2)
+  })
+
+  it('should understand English column names', () => {
+    const result = parseConsumptionExport(lelyVectorExportEnglish)
+
+    expect(result.feedTypes).toEqual(['Grass silage'])
+    expect(result.rows[0].feeds['Grass silage']).toBe(815.5)
+  })
+})
+
+describe('DeLaval / Trioliet adapter', () => {
+  it('should sum several mixer loads per group and day', () => {
+    const result = parseConsumptionExport(delavalTriolietExport)
+    const lactating = result.rows.find(row => row.area === 'Laktierende')
+
+    expect(lactating?.feeds).toEqual({ Maissilage: 2395, Rapsschrot: 152 })
+    expect(lactating?.total).toBe(2547)
+    expect(lactating?.feedSystem).toBe('Trioliet Solomix')
+  })
+
+  it('should skip components with zero actual weight', () => {
+    const result = parseConsumptionExport(delavalTriolietExport)
+
+    expect(result.rows.some(row => row.area === 'Jungvieh')).toBe(false)
+    expect(result.feedTypes).toEqual(['Maissilage', 'Rapsschrot'])
+  })
+
+  it('should fall back to the system name without a mixer column', () => {
+    const withoutMixer = [
+      'Datum;Gruppe;Komponente;Istgewicht (kg)',
+      '06.03.2024;Laktierende;Maissilage;1185',
+    ].join('\n')
+
+    expect(parseConsumptionExport(withoutMixer).rows[0].feedSystem).toBe('DeLaval/Trioliet')
+  })
+})
+
+describe('Schauer adapter', () => {
+  it('should map compartment to area and valve to feed system', () => {
+    const result = parseConsumptionExport(schauerExport)
+
+    expect(result.rows[0]).toEqual({
+      date: '2024-03-07',
+      area: 'Abteil 1',
+      feedSystem: 'V01',
+      feeds: { Vormast: 45.2 },
+      total: 45.2,
+      sourceRows: [0],
+    })
+  })
+
+  it('should exclude water and total columns from feed types', () => {
+    const result = parseConsumptionExport(schauerExport)
+
+    expect(result.feedTypes).toEqual(['Endmast', 'Vormast'])
+    expect(result.totalRows).toBe(2)
+  })
+})
+
+describe('parseImportFile', () => {
+  const encode = (text: string) => new TextEncoder().encode(text)
+  const noProfile = async () => null
+
+  it('should parse a stored file with the detected adapter', async () => {
+    const result = await parseImportFile(encode(lelyVectorExport), 'vector.csv', { findProfile: noProfile })
+
+    expect(result.importAdapter).toBe('lely-vector')
+    expect(result.totalRows).toBe(3)
+  })
+
+  it('should fall back to the import profile of the header layout', async () => {
+    const unknown = 'Tag;Stall;Heu\n01.03.2024;Stall A;12,5'
+    const result = await parseImportFile(encode(unknown), 'export.csv', {
+      findProfile: async () => ({
+        name: 'Eigenes Format',
+        mapping: {
+          dateColumn: 'Tag',
+          areaColumn: 'Stall',
+          feedSystemColumn: null,
+          feedColumns: ['Heu'],
+          dateFormat: 'DD.MM.YYYY',
+          decimalSeparator: ',',
+        },
+      }),
+    })
+
+    expect(result.importProfile).toBe('Eigenes Format')
+    expect(result.rows[0].feeds).toEqual({ Heu: 12.5 })
+  })
+
+  it('should reject unknown formats without a profile', async () => {
+    await expect(parseImportFile(encode('A;B\n1;2'), 'export.csv', { findProfile: noProfile }))
+      .rejects.toThrow('Dateiformat nicht erkannt')
+  })
+})
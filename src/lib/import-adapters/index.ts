@@ -0,0 +1,54 @@
+/**
+ * Feeding-system import adapters
+ *
+ * Every adapter turns one feeding system's export into the ParsedData shape
+ * consumed by processConsumptionData. The adapter is picked automatically from
+ * the header row; adapters are tried in registry order and the first match wins.
+ *
+ * To support a new feeding system, add an adapter module and register it below.
+ */
+
+import type { ParsedData } from '@/lib/csv-parser'
+import type { DelimitedTable } from './shared'
+import { geaAdapter } from './gea'
+import { lelyVectorAdapter } from './lely-vector'
+import { delavalTriolietAdapter } from './delaval-trioliet'
+import { schauerAdapter } from './schauer'
+
+export interface ImportAdapter {
+  /** Stable identifier, stored on ParsedData.importAdapter */
+  id: string
+  /** Display name of the feeding system */
+  name: string
+  /** Short description of the expected file, shown on the upload page */
+  description: string
+  /** Returns true if the header row belongs to this feeding system */
+  detect: (header: string[]) => boolean
+  /** Parses the data rows, throws if no valid data row was found */
+  parse: (table: DelimitedTable) => ParsedData
+}
+
+export const importAdapters: ImportAdapter[] = [
+  geaAdapter,
+  lelyVectorAdapter,
+  delavalTriolietAdapter,
+  schauerAdapter,
+]
+
+/**
+ * Finds the adapter matching a header row
+ *
+ * @returns The first matching adapter, or null if the format is unknown
+ */
+export function detectImportAdapter(header: string[]): ImportAdapter | null {
+  return importAdapters.find(adapter => adapter.detect(header)) || null
+}
+
+/**
+ * Gets an adapter by its id
+ */
+export function getImportAdapter(id: string): ImportAdapter | null {
+  return importAdapters.find(adapter => adapter.id === id) || null
+}
+
+export { readDelimitedText, isSpreadsheetFile, SPREADSHEET_EXTENSIONS, type DelimitedTable } from './shared'
@@ -0,0 +1,56 @@
+/**
+ * Lely Vector feeding report export
+ *
+ * Long format, one row per feed group/feed/day as written by the Vector
+ * management software (German or English column names):
+ * Datum | Futtergruppe | Ration | Futtermittel | Angefordert (kg) | Geladen (kg)
+ *
+ * The loaded quantity is imported, the requested quantity is ignored.
+ */
+
+import type { ImportAdapter } from './index'
+import { aggregateFeedEntries, buildParsedData, findColumn, readDateCell, readQuantityCell, type FeedEntry, type SourceRowIssue } from './shared'
+
+const COLUMNS = {
+  date: ['Datum', 'Date'],
+  group: ['Futtergruppe', 'Feed group'],
+  feed: ['Futtermittel', 'Feed type', 'Feed'],
+  loaded: ['Geladen', 'Loaded'],
+}
+
+export const lelyVectorAdapter: ImportAdapter = {
+  id: 'lely-vector',
+  name: 'Lely Vector',
+  description: 'Fütterungsbericht aus der Lely Vector Software (CSV)',
+
+  detect: (header) =>
+    findColumn(header, COLUMNS.group) !== -1 &&
+    findColumn(header, COLUMNS.loaded) !== -1 &&
+    findColumn(header, COLUMNS.feed) !== -1,
+
+  parse: ({ header, rows }) => {
+    const dateIndex = findColumn(header, COLUMNS.date)
+    const groupIndex = findColumn(header, COLUMNS.group)
+    const feedIndex = findColumn(header, COLUMNS.feed)
+    const loadedIndex = findColumn(header, COLUMNS.loaded)
+
+    const entries: FeedEntry[] = []
+    const issues: SourceRowIssue[] = []
+
+    rows.forEach((cells, rowIndex) => {
+      const date = readDateCell(cells[dateIndex], rowIndex, issues)
+      if (!date) return
+
+      entries.push({
+        date,
+        area: cells[groupIndex] || '',
+        feedSystem: 'Lely Vector',
+        feed: cells[feedIndex] || '',
+        quantity: readQuantityCell(cells[loadedIndex], rowIndex, issues, cells[feedIndex] || ''),
+        sourceRow: rowIndex
+      })
+    })
+
+    return buildParsedData(aggregateFeedEntries(entries), 'lely-vector', issues)
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Parses a complete import file (CSV, TXT or workbook)
+ *
+ * Used wherever a stored file is processed without the upload page, e.g. on
+ * the server. Resolution order matches the upload page: a detected import
+ * adapter first, then the farm's import profile for the header layout.
+ */
+
+import type { ParsedData } from '@/lib/csv-parser'
+import { detectImportAdapter } from './index'
+import { isSpreadsheetFile, readDelimitedText, type DelimitedTable } from './shared'
+import { getHeaderSignature, parseWithColumnMapping, type ColumnMapping } from './column-mapping'
+
+export interface ParseImportFileOptions {
+  /** Worksheet to read from a workbook (defaults to the first sheet with data) */
+  sheetName?: string | null
+  /** Looks up the farm's import profile for a header signature */
+  findProfile: (headerSignature: string) => Promise<{ name: string; mapping: ColumnMapping } | null>
+}
+
+/**
+ * @param data - Raw file content
+ * @param fileName - Original file name, used to tell workbooks from text files
+ * @throws If the file has no data or its format is neither detected nor mapped
+ */
+export async function parseImportFile(
+  data: Uint8Array,
+  fileName: string,
+  options: ParseImportFileOptions
+): Promise<ParsedData> {
+  let table: DelimitedTable
+  let sheetName: string | undefined
+
+  if (isSpreadsheetFile(fileName.toLowerCase())) {
+    const { readSpreadsheet } = await import('./spreadsheet')
+    const sheets = readSpreadsheet(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer)
+    const sheet = sheets.find(s => s.name === options.sheetName) || sheets[0]
+    table = sheet.table
+    sheetName = sheet.name
+  } else {
+    table = readDelimitedText(new TextDecoder('utf-8').decode(data))
+  }
+
+  const adapter = detectImportAdapter(table.header)
+  let parsedData: ParsedData
+
+  if (adapter) {
+    parsedData = adapter.parse(table)
+  } else {
+    const profile = await options.findProfile(getHeaderSignature(table.header))
+    if (!profile) {
+      throw new Error('Dateiformat nicht erkannt und kein passendes Importprofil vorhanden')
+    }
+    parsedData = parseWithColumnMapping(table, profile.mapping, profile.name)
+  }
+
+  return sheetName ? { ...parsedData, sheetName } : parsedData
+}
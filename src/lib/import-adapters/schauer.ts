@@ -0,0 +1,79 @@
+/**
+ * Schauer liquid/dry feeding export (Spotmix, Compident)
+ *
+ * Wide format, semicolon-delimited, one row per valve/day:
+ * Datum | Abteil | Ventil | <Futter> [kg] | ... | Summe [kg]
+ *
+ * The compartment (Abteil) becomes the area, the valve the feed system.
+ */
+
+import type { ParsedRow } from '@/lib/csv-parser'
+import type { ImportAdapter } from './index'
+import { buildParsedData, findColumn, parseDecimal, readDateCell, readQuantityCell, type SourceRowIssue } from './shared'
+
+const COLUMNS = {
+  date: ['Datum', 'Date'],
+  compartment: ['Abteil', 'Compartment'],
+  valve: ['Ventil', 'Valve'],
+  total: ['Summe', 'Total'],
+}
+
+const FEED_COLUMN_PATTERN = /^(.+?)\s*\[kg\]$/i
+const EXCLUDED_FEEDS = ['summe', 'total', 'wasser', 'water']
+
+export const schauerAdapter: ImportAdapter = {
+  id: 'schauer',
+  name: 'Schauer',
+  description: 'Tagesverbrauch je Ventil aus Schauer Spotmix / Compident (CSV)',
+
+  detect: (header) =>
+    findColumn(header, COLUMNS.valve) !== -1 &&
+    header.some(col => FEED_COLUMN_PATTERN.test(col)),
+
+  parse: ({ header, rows }) => {
+    const dateIndex = findColumn(header, COLUMNS.date)
+    const compartmentIndex = findColumn(header, COLUMNS.compartment)
+    const valveIndex = findColumn(header, COLUMNS.valve)
+    const totalIndex = findColumn(header, COLUMNS.total)
+
+    const feedColumns: { name: string; index: number }[] = []
+    header.forEach((col, index) => {
+      const match = col.match(FEED_COLUMN_PATTERN)
+      if (match && !EXCLUDED_FEEDS.includes(match[1].trim().toLowerCase())) {
+        feedColumns.push({ name: match[1].trim(), index })
+      }
+    })
+
+    const parsedRows: ParsedRow[] = []
+    const issues: SourceRowIssue[] = []
+
+    rows.forEach((cells, rowIndex) => {
+      const date = readDateCell(cells[dateIndex], rowIndex, issues)
+      if (!date) return
+
+      const feeds: Record<string, number> = {}
+      let feedTotal = 0
+
+      feedColumns.forEach(({ name, index }) => {
+        const value = readQuantityCell(cells[index], rowIndex, issues, name)
+        if (value > 0) {
+          feeds[name] = value
+          feedTotal += value
+        }
+      })
+
+      if (feedTotal === 0) return
+
+      parsedRows.push({
+        date,
+        area: compartmentIndex !== -1 ? cells[compartmentIndex] : cells[valveIndex],
+        feedSystem: cells[valveIndex] || 'Schauer',
+        feeds,
+        total: totalIndex !== -1 ? parseDecimal(cells[totalIndex]) : feedTotal,
+        sourceRows: [rowIndex]
+      })
+    })
+
+    return buildParsedData(parsedRows, 'schauer', issues)
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * Shared helpers for feeding-system import adapters
+ *
+ * Adapters receive the file already split into a header row and data rows,
+ * and use these helpers to normalize dates and quantities into the
+ * ParsedData shape consumed by processConsumptionData.
+ */
+
+import type { ParsedData, ParsedRow } from '@/lib/csv-parser'
+
+export interface DelimitedTable {
+  delimiter: string
+  header: string[]
+  rows: string[][]
+}
+
+/**
+ * A single feed quantity as exported by systems that write one line per
+ * feed component (long format) instead of one column per feed (wide format)
+ */
+export interface FeedEntry {
+  date: string
+  area: string
+  feedSystem: string
+  feed: string
+  quantity: number
+  /** Index of the data row the entry was read from */
+  sourceRow?: number
+}
+
+/**
+ * A data row the adapter could not import as-is
+ * Reported in the upload preview instead of being dropped silently
+ */
+export interface SourceRowIssue {
+  /** Index into DelimitedTable.rows */
+  sourceRow: number
+  type: 'invalid_date' | 'negative_quantity'
+  message: string
+}
+
+export const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.ods']
+
+/**
+ * Checks whether a file name has a spreadsheet extension
+ * Spreadsheets are read with readSpreadsheet from ./spreadsheet instead of readDelimitedText
+ */
+export function isSpreadsheetFile(fileName: string): boolean {
+  const lower = fileName.toLowerCase()
+  return SPREADSHEET_EXTENSIONS.some(ext => lower.endsWith(ext))
+}
+
+/**
+ * Detects the delimiter of a header line
+ * Tab wins over semicolon, semicolon wins over comma (German Excel exports
+ * use semicolons because the comma is the decimal separator)
+ */
+export function detectDelimiter(headerLine: string): string {
+  if (headerLine.includes('\t')) return '\t'
+  if (headerLine.includes(';')) return ';'
+  return ','
+}
+
+/**
+ * Splits a delimited line, handling quoted values
+ */
+export function splitDelimitedLine(line: string, delimiter: string): string[] {
+  const result: string[] = []
+  let current = ''
+  let inQuotes = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+
+    if (char === '"') {
+      inQuotes = !inQuotes
+    } else if (char === delimiter && !inQuotes) {
+      result.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  result.push(current.trim())
+
+  return result
+}
+
+/**
+ * Reads CSV/TXT content into a header row and data rows
+ * Strips a UTF-8 BOM and Windows line endings, skips empty lines
+ */
+export function readDelimitedText(content: string): DelimitedTable {
+  const lines = content
+    .replace(/^\uFEFF/, '')
+    .trim()
+    .split('\n')
+    .map(line => line.replace(/\r$/, ''))
+
+  if (lines.length < 2) {
+    throw new Error('CSV-Datei ist leer oder hat keine Daten')
+  }
+
+  const delimiter = detectDelimiter(lines[0])
+  const header = splitDelimitedLine(lines[0], delimiter)
+  const rows = lines
+    .slice(1)
+    .filter(line => line.trim())
+    .map(line => splitDelimitedLine(line.trim(), delimiter))
+
+  return { delimiter, header, rows }
+}
+
+/**
+ * Parses a quantity that may use a decimal comma and thousands separators
+ * Returns 0 for empty or invalid values
+ *
+ * Examples: "12,5" → 12.5, "1.234,5" → 1234.5, "1,234.5" → 1234.5
+ */
+export function parseDecimal(value: string | undefined | null): number {
+  if (!value) return 0
+
+  let cleaned = value.replace(/"/g, '').replace(/\s/g, '')
+  const lastComma = cleaned.lastIndexOf(',')
+  const lastDot = cleaned.lastIndexOf('.')
+
+  if (lastComma > -1 && lastDot > -1) {
+    // Both separators present: the last one is the decimal separator
+    cleaned = lastComma > lastDot
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '')
+  } else if (lastComma > -1) {
+    cleaned = cleaned.replace(',', '.')
+  }
+
+  const parsed = parseFloat(cleaned)
+  return isNaN(parsed) ? 0 : parsed
+}
+
+/**
+ * Builds an ISO date (YYYY-MM-DD) from its parts
+ *
+ * @returns ISO date string or null for impossible dates like 31.02. or 29.02.2023
+ */
+export function toIsoDate(year: string, month: string, day: string): string | null {
+  const monthNumber = parseInt(month, 10)
+  const dayNumber = parseInt(day, 10)
+  // Impossible dates roll over into the next month
+  const date = new Date(Date.UTC(parseInt(year, 10), monthNumber - 1, dayNumber))
+  if (date.getUTCMonth() !== monthNumber - 1 || date.getUTCDate() !== dayNumber) return null
+
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
+}
+
+/**
+ * Parses a date into ISO format (YYYY-MM-DD)
+ * Supports DD.MM.YYYY, DD/MM/YYYY, DD-MM-YYYY and YYYY-MM-DD, optionally
+ * followed by a time component. Two-digit years are treated as 20YY.
+ *
+ * @returns ISO date string or null if the value is not a (possible) date
+ */
+export function parseDateValue(value: string | undefined | null): string | null {
+  if (!value) return null
+
+  const datePart = value.replace(/"/g, '').trim().split(/[\sT]/)[0]
+
+  const isoMatch = datePart.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/)
+  if (isoMatch) {
+    return toIsoDate(isoMatch[1], isoMatch[2], isoMatch[3])
+  }
+
+  const dmyMatch = datePart.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{2}|\d{4})$/)
+  if (dmyMatch) {
+    const year = dmyMatch[3].length === 2 ? `20${dmyMatch[3]}` : dmyMatch[3]
+    return toIsoDate(year, dmyMatch[2], dmyMatch[1])
+  }
+
+  return null
+}
+
+/**
+ * Parses the date cell of a data row, recording an issue for invalid dates
+ * Empty cells (e.g. sum rows at the end of an export) are skipped without an issue
+ *
+ * @returns ISO date string or null if the row has no valid date
+ */
+export function readDateCell(
+  value: string | undefined,
+  sourceRow: number,
+  issues: SourceRowIssue[],
+  parse: (value: string | undefined) => string | null = parseDateValue
+): string | null {
+  const date = parse(value)
+  if (!date && value && value.trim()) {
+    issues.push({ sourceRow, type: 'invalid_date', message: `Ungültiges Datum "${value.trim()}"` })
+  }
+  return date
+}
+
+/**
+ * Parses a quantity cell, recording an issue for negative quantities
+ *
+ * @returns The quantity, or 0 if it is negative
+ */
+export function readQuantityCell(
+  value: string | undefined,
+  sourceRow: number,
+  issues: SourceRowIssue[],
+  feed: string,
+  parse: (value: string | undefined) => number = parseDecimal
+): number {
+  const quantity = parse(value)
+  if (quantity < 0) {
+    issues.push({ sourceRow, type: 'negative_quantity', message: `Negative Menge ${quantity} kg bei ${feed}` })
+    return 0
+  }
+  return quantity
+}
+
+/**
+ * Normalizes a header cell for comparisons (case, whitespace, units in brackets)
+ */
+export function normalizeHeader(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[([].*?[)\]]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Finds the index of the first header cell matching one of the given names
+ * Comparison uses normalizeHeader, so "Ist (kg)" matches "ist"
+ *
+ * @returns Column index or -1 if none matches
+ */
+export function findColumn(header: string[], names: string[]): number {
+  const normalized = header.map(normalizeHeader)
+  for (const name of names) {
+    const index = normalized.indexOf(normalizeHeader(name))
+    if (index !== -1) return index
+  }
+  return -1
+}
+
+/**
+ * Builds the ParsedData result from parsed rows
+ * Throws if no row with feed data was found
+ */
+export function buildParsedData(
+  rows: ParsedRow[],
+  importAdapter?: string,
+  sourceIssues: SourceRowIssue[] = []
+): ParsedData {
+  if (rows.length === 0) {
+    throw new Error('Keine gültigen Datenzeilen gefunden')
+  }
+
+  let minDate = rows[0].date
+  let maxDate = rows[0].date
+  const feedTypesSet = new Set<string>()
+
+  rows.forEach(row => {
+    if (row.date < minDate) minDate = row.date
+    if (row.date > maxDate) maxDate = row.date
+    Object.keys(row.feeds).forEach(feed => feedTypesSet.add(feed))
+  })
+
+  return {
+    rows,
+    feedTypes: Array.from(feedTypesSet).sort(),
+    dateRange: {
+      start: minDate,
+      end: maxDate
+    },
+    totalRows: rows.length,
+    importAdapter,
+    sourceIssues
+  }
+}
+
+/**
+ * Aggregates long-format feed entries into one ParsedRow per date/area/feed system
+ * Quantities of the same feed on the same row are summed (e.g. several mixer loads a day)
+ * Entries with a quantity of 0 or less are ignored, matching the wide-format adapters
+ */
+export function aggregateFeedEntries(entries: FeedEntry[]): ParsedRow[] {
+  const rowsByKey = new Map<string, ParsedRow>()
+
+  entries.forEach(entry => {
+    if (entry.quantity <= 0 || !entry.feed) return
+
+    const key = `${entry.date}|${entry.area}|${entry.feedSystem}`
+    let row = rowsByKey.get(key)
+    if (!row) {
+      row = {
+        date: entry.date,
+        area: entry.area,
+        feedSystem: entry.feedSystem,
+        feeds: {},
+        total: 0,
+        sourceRows: []
+      }
+      rowsByKey.set(key, row)
+    }
+
+    row.feeds[entry.feed] = (row.feeds[entry.feed] || 0) + entry.quantity
+    row.total += entry.quantity
+    if (entry.sourceRow !== undefined) {
+      row.sourceRows!.push(entry.sourceRow)
+    }
+  })
+
+  return Array.from(rowsByKey.values())
+}
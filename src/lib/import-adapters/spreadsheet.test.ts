@@ -0,0 +1,86 @@
+/**
+ * Unit Tests for Spreadsheet Input
+ *
+ * These tests build XLSX and ODS workbooks in memory and ensure the
+ * resulting tables run through the import adapters like CSV input.
+ */
+
+import { describe, it, expect } from 'vitest'
+import * as XLSX from 'xlsx'
+import { detectImportAdapter, isSpreadsheetFile } from './index'
+import { readSpreadsheet } from './spreadsheet'
+
+// ============================================================================
+// TEST DATA FIXTURES
+// ============================================================================
+
+const geaRows = [
+  ['Stallgruppe', 'Futtersystem', 'Datum', 'Insgesamt abgegebene Menge (kg)', 'Maissilage abgegebene Menge (kg)', 'Sojaschrot abgegebene Menge (kg)'],
+  ['Bullen 1', 'Mischwagen', new Date(2024, 2, 1), 530.5, 500.5, 30],
+  ['Bullen 2', 'Mischwagen', new Date(2024, 2, 1), 410, 400, 10],
+]
+
+function buildWorkbook(bookType: XLSX.BookType, sheets: Record<string, unknown[][]>): ArrayBuffer {
+  const workbook = XLSX.utils.book_new()
+  Object.entries(sheets).forEach(([name, rows]) => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows, { cellDates: true }), name)
+  })
+  return XLSX.write(workbook, { type: 'array', bookType })
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('isSpreadsheetFile', () => {
+  it('should recognise workbook extensions case-insensitively', () => {
+    expect(isSpreadsheetFile('export.xlsx')).toBe(true)
+    expect(isSpreadsheetFile('EXPORT.ODS')).toBe(true)
+    expect(isSpreadsheetFile('export.xls')).toBe(true)
+    expect(isSpreadsheetFile('export.csv')).toBe(false)
+  })
+})
+
+describe('readSpreadsheet', () => {
+  it.each(['xlsx', 'ods'] as XLSX.BookType[])('should parse a GEA export saved as %s', (bookType) => {
+    const [sheet] = readSpreadsheet(buildWorkbook(bookType, { Verbrauch: geaRows }))
+    const adapter = detectImportAdapter(sheet.table.header)
+
+    expect(adapter?.id).toBe('gea')
+
+    const result = adapter!.parse(sheet.table)
+    expect(result.rows[0]).toEqual({
+      date: '2024-03-01',
+      area: 'Bullen 1',
+      feedSystem: 'Mischwagen',
+      feeds: { Maissilage: 500.5, Sojaschrot: 30 },
+      total: 530.5,
+      sourceRows: [0],
+    })
+  })
+
+  it('should list all sheets with data in workbook order', () => {
+    const sheets = readSpreadsheet(buildWorkbook('xlsx', {
+      Info: [['Betrieb', 'Exportiert am'], ['Hof Meyer', '01.04.2024']],
+      Verbrauch: geaRows,
+      Leer: [],
+    }))
+
+    expect(sheets.map(sheet => sheet.name)).toEqual(['Info', 'Verbrauch'])
+  })
+
+  it('should skip title rows above the header', () => {
+    const [sheet] = readSpreadsheet(buildWorkbook('xlsx', {
+      Verbrauch: [['Futterbericht März'], [], ...geaRows],
+    }))
+
+    expect(sheet.table.header[0]).toBe('Stallgruppe')
+    expect(sheet.table.rows).toHaveLength(2)
+  })
+
+  it('should throw for workbooks without data', () => {
+    expect(() => readSpreadsheet(buildWorkbook('xlsx', { Leer: [] }))).toThrow(
+      'Die Arbeitsmappe enthält keine Tabellen mit Daten'
+    )
+  })
+})
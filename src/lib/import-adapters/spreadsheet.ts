@@ -0,0 +1,99 @@
+/**
+ * Spreadsheet input (XLSX, XLS, ODS) for the import adapters
+ *
+ * Every sheet is converted into the same DelimitedTable the CSV reader
+ * produces, so all adapters and import profiles work on workbooks unchanged.
+ * Cell values are normalized so the adapters' parsers read them reliably:
+ * - Date cells become ISO dates (YYYY-MM-DD)
+ * - Numeric cells use a decimal comma without thousands separators
+ * - Everything else uses the cell's text
+ *
+ * This module pulls in the xlsx package; load it with a dynamic import.
+ */
+
+import * as XLSX from 'xlsx'
+import type { DelimitedTable } from './shared'
+
+export interface SpreadsheetSheet {
+  name: string
+  table: DelimitedTable
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+function formatCell(cell: XLSX.CellObject | undefined): string {
+  if (!cell || cell.v === undefined || cell.v === null) return ''
+
+  if (cell.t === 'd' && cell.v instanceof Date) {
+    const date = cell.v
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+  }
+
+  if (cell.t === 'n' && typeof cell.v === 'number') {
+    if (cell.z && XLSX.SSF.is_date(cell.z)) {
+      const parsed = XLSX.SSF.parse_date_code(cell.v)
+      return `${parsed.y}-${pad(parsed.m)}-${pad(parsed.d)}`
+    }
+    return String(cell.v).replace('.', ',')
+  }
+
+  return String(cell.w ?? cell.v).trim()
+}
+
+/**
+ * Converts a worksheet into a header row and data rows
+ * The header is the first row with at least two filled cells, so title rows
+ * above the table are skipped. Empty rows are dropped.
+ */
+function sheetToTable(sheet: XLSX.WorkSheet): DelimitedTable | null {
+  if (!sheet['!ref']) return null
+
+  const range = XLSX.utils.decode_range(sheet['!ref'])
+  const allRows: string[][] = []
+
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const cells: string[] = []
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      cells.push(formatCell(sheet[XLSX.utils.encode_cell({ r, c })]))
+    }
+    if (cells.some(cell => cell !== '')) {
+      allRows.push(cells)
+    }
+  }
+
+  const headerIndex = allRows.findIndex(cells => cells.filter(cell => cell !== '').length >= 2)
+  if (headerIndex === -1) return null
+
+  return {
+    // Spreadsheets have no delimiter; numbers are written with a decimal comma and
+    // dates as ISO dates, which parseWithColumnMapping uses instead of the profile's formats
+    delimiter: '',
+    header: allRows[headerIndex],
+    rows: allRows.slice(headerIndex + 1),
+  }
+}
+
+/**
+ * Reads all non-empty sheets of a workbook
+ *
+ * @param data - File content as read by FileReader.readAsArrayBuffer
+ * @returns Sheets in workbook order
+ */
+export function readSpreadsheet(data: ArrayBuffer): SpreadsheetSheet[] {
+  // cellNF keeps number formats, needed to tell date cells from plain numbers
+  const workbook = XLSX.read(data, { type: 'array', cellNF: true })
+
+  const sheets: SpreadsheetSheet[] = []
+  workbook.SheetNames.forEach(name => {
+    const table = sheetToTable(workbook.Sheets[name])
+    if (table && table.rows.length > 0) {
+      sheets.push({ name, table })
+    }
+  })
+
+  if (sheets.length === 0) {
+    throw new Error('Die Arbeitsmappe enthält keine Tabellen mit Daten')
+  }
+
+  return sheets
+}
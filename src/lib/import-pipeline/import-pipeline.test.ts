@@ -0,0 +1,302 @@
+/**
+ * Unit Tests for the Server-side Import Pipeline
+ *
+ * These tests ensure source files survive a round trip through the local
+ * storage adapter, that streamed progress events are read back intact and
+ * that watched folders and mailboxes hand out each export once, only to
+ * their own farm and its members, even when storing one of them fails.
+ */
+
+import { afterEach, beforeEach, describe, it, expect } from 'vitest'
+import { mkdir, mkdtemp, readdir, rm, utimes, writeFile } from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { createLocalUploadStorage, getUploadFilePath } from './storage'
+import { encodeImportEvent, readImportEvents, type ImportEvent } from './progress'
+import { extractMailAttachments } from './mailbox'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  createFolderReader,
+  createMailboxReader,
+  createSourceReader,
+  ingestImportSource,
+  resolveSourcePath,
+  type ImportSource,
+  type IngestionItem
+} from './ingestion'
+
+// ============================================================================
+// TEST DATA FIXTURES
+// ============================================================================
+
+const events: ImportEvent[] = [
+  { type: 'started', uploadId: 'upload-1' },
+  { type: 'progress', phase: 'writing', processed: 1000, total: 2500 },
+  { type: 'done', uploadId: 'upload-1', result: { processed: 2500, created: 2000, updated: 400, unchanged: 100, errors: [] } },
+]
+
+const exportCsv = 'Datum;Gruppe\n01.03.2024;A'
+
+const mailMessage = [
+  'From: feedcomputer@example.com',
+  'Subject: Tagesexport',
+  'Content-Type: multipart/mixed;',
+  ' boundary="b1"',
+  '',
+  'Preamble',
+  '--b1',
+  'Content-Type: text/plain; charset=utf-8',
+  '',
+  'Export im Anhang',
+  '--b1',
+  'Content-Type: text/csv; name="export.csv"',
+  'Content-Disposition: attachment; filename="export.csv"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from(exportCsv).toString('base64'),
+  '--b1--',
+  '',
+].join('\r\n')
+
+/** Response streaming the given text in chunks of the given size */
+function chunkedResponse(text: string, chunkSize: number): Response {
+  const bytes = new TextEncoder().encode(text)
+  return new Response(new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += chunkSize) {
+        controller.enqueue(bytes.slice(i, i + chunkSize))
+      }
+      controller.close()
+    },
+  }))
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('local upload storage', () => {
+  let baseDir: string
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(path.join(os.tmpdir(), 'uploads-'))
+  })
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true })
+  })
+
+  it('should store and load a file', async () => {
+    const storage = createLocalUploadStorage(baseDir)
+    const filePath = getUploadFilePath('farm-1', 'upload-1', 'export.csv')
+    const content = new TextEncoder().encode('Datum;Gruppe\n01.03.2024;A')
+
+    expect(await storage.save(filePath, content)).toBe('farm-1/upload-1/export.csv')
+    expect(new TextDecoder().decode(await storage.load(filePath))).toBe('Datum;Gruppe\n01.03.2024;A')
+  })
+
+  it('should not leave the storage directory', async () => {
+    const storage = createLocalUploadStorage(baseDir)
+
+    await expect(storage.load('../outside.csv')).rejects.toThrow('Ungültiger Dateipfad')
+    expect(getUploadFilePath('farm-1', 'upload-1', '../../etc/passwd')).toBe('farm-1/upload-1/__.._etc_passwd')
+  })
+})
+
+describe('readImportEvents', () => {
+  it('should read events split across chunks', async () => {
+    const received: ImportEvent[] = []
+    const stream = events.map(encodeImportEvent).join('')
+
+    await readImportEvents(chunkedResponse(stream, 7), event => received.push(event))
+
+    expect(received).toEqual(events)
+  })
+
+  it('should read a last event without trailing newline', async () => {
+    const received: ImportEvent[] = []
+
+    await readImportEvents(chunkedResponse(JSON.stringify(events[0]), 1000), event => received.push(event))
+
+    expect(received).toEqual([events[0]])
+  })
+})
+
+describe('extractMailAttachments', () => {
+  it('should decode base64 attachments and skip the message text', () => {
+    const attachments = extractMailAttachments(new TextEncoder().encode(mailMessage))
+
+    expect(attachments).toHaveLength(1)
+    expect(attachments[0].fileName).toBe('export.csv')
+    expect(new TextDecoder().decode(attachments[0].data)).toBe(exportCsv)
+  })
+
+  it('should decode RFC 2231 file names', () => {
+    const message = mailMessage.replace('filename="export.csv"', "filename*=UTF-8''F%C3%BCtterung.csv")
+
+    expect(extractMailAttachments(new TextEncoder().encode(message))[0].fileName).toBe('Fütterung.csv')
+  })
+})
+
+describe('ingestion readers', () => {
+  let baseDir: string
+
+  // Exports written two minutes ago, long enough to count as complete
+  const writeExport = async (filePath: string, data: string) => {
+    await writeFile(filePath, data)
+    const written = new Date(Date.now() - 2 * 60 * 1000)
+    await utimes(filePath, written, written)
+  }
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(path.join(os.tmpdir(), 'ingestion-'))
+  })
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true })
+  })
+
+  it('should list export files of a folder and move them once handled', async () => {
+    await writeExport(path.join(baseDir, 'b.csv'), exportCsv)
+    await writeExport(path.join(baseDir, 'a.xlsx'), 'x')
+    await writeExport(path.join(baseDir, 'notes.pdf'), 'x')
+    const reader = createFolderReader(baseDir)
+
+    const items = await reader.list()
+    expect(items.map(item => item.reference)).toEqual(['a.xlsx', 'b.csv'])
+
+    await reader.complete(items[0], true)
+    await reader.complete(items[1], false)
+
+    expect((await reader.list())).toEqual([])
+    expect(await readdir(path.join(baseDir, 'failed'))).toEqual(['a.xlsx'])
+    expect(await readdir(path.join(baseDir, 'processed'))).toEqual(['b.csv'])
+  })
+
+  it('should leave files modified within the last minute for a later poll', async () => {
+    await writeExport(path.join(baseDir, 'complete.csv'), exportCsv)
+    await writeFile(path.join(baseDir, 'writing.csv'), exportCsv)
+
+    expect((await createFolderReader(baseDir).list()).map(item => item.reference)).toEqual(['complete.csv'])
+    expect((await createFolderReader(baseDir, 0).list()).map(item => item.reference)).toEqual(['complete.csv', 'writing.csv'])
+  })
+
+  it('should read new Maildir messages and mark them as seen', async () => {
+    await mkdir(path.join(baseDir, 'new'), { recursive: true })
+    await writeFile(path.join(baseDir, 'new', '1700000000.M1.host'), mailMessage)
+    const reader = createMailboxReader(baseDir)
+
+    const items = await reader.list()
+    expect(items[0].files.map(file => file.fileName)).toEqual(['export.csv'])
+
+    await reader.complete(items[0], false)
+
+    expect(await reader.list()).toEqual([])
+    expect(await readdir(path.join(baseDir, 'cur'))).toEqual(['1700000000.M1.host:2,S'])
+  })
+
+  it('should keep source paths inside the ingestion root', () => {
+    expect(resolveSourcePath(baseDir, 'farm-1/gea')).toBe(path.join(baseDir, 'farm-1', 'gea'))
+    expect(() => resolveSourcePath(baseDir, '../other')).toThrow('Ungültiger Pfad')
+  })
+
+  it('should read sources from their own farm directory only', async () => {
+    await mkdir(path.join(baseDir, 'farm-2', 'gea'), { recursive: true })
+    await writeExport(path.join(baseDir, 'farm-2', 'gea', 'export.csv'), exportCsv)
+
+    const reader = createSourceReader({ farm_id: 'farm-2', type: 'folder', path: 'gea' }, baseDir)
+    expect((await reader.list()).map(item => item.reference)).toEqual(['export.csv'])
+
+    expect(() => createSourceReader({ farm_id: 'farm-1', type: 'folder', path: '../farm-2/gea' }, baseDir))
+      .toThrow('Ungültiger Pfad')
+  })
+})
+
+describe('ingestImportSource', () => {
+  const source = { id: 'source-1', farm_id: 'farm-1', created_by: 'user-1', type: 'folder', path: 'gea' } as ImportSource
+
+  /** Lookup of the source creator's farm membership */
+  const membershipQuery = (role: string | null) => ({
+    select: () => ({
+      eq: () => ({
+        eq: () => ({
+          single: async () => role
+            ? { data: { role }, error: null }
+            : { data: null, error: { message: 'No rows' } },
+        }),
+      }),
+    }),
+  })
+
+  it('should fail and move each item whose upload cannot be stored without stopping the others', async () => {
+    const updates: { table: string; values: Record<string, unknown> }[] = []
+    let uploadCount = 0
+    const supabase = {
+      from: (table: string) => ({
+        ...membershipQuery('owner'),
+        insert: () => ({
+          select: () => ({ single: async () => ({ data: { id: `upload-${++uploadCount}` }, error: null }) }),
+        }),
+        update: (values: Record<string, unknown>) => ({
+          eq: async () => {
+            updates.push({ table, values })
+            return { error: null }
+          },
+        }),
+      }),
+    } as unknown as SupabaseClient
+    const storage = {
+      save: async () => { throw new Error('Speicher voll') },
+      load: async () => new Uint8Array(),
+    }
+    const data = new TextEncoder().encode(exportCsv)
+    const items: IngestionItem[] = [
+      { reference: 'a.csv', files: [{ fileName: 'a.csv', data }] },
+      { reference: 'b.csv', files: [{ fileName: 'b.csv', data }] },
+    ]
+    const completed: [string, boolean][] = []
+    const reader = {
+      list: async () => items,
+      complete: async (item: IngestionItem, failed: boolean) => { completed.push([item.reference, failed]) },
+    }
+
+    const result = await ingestImportSource(supabase, storage, source, reader)
+
+    expect(completed).toEqual([['a.csv', true], ['b.csv', true]])
+    expect(result.uploadIds).toEqual(['upload-1', 'upload-2'])
+    expect(result.failed).toBe(2)
+    expect(result.error).toBe('b.csv: Speicher voll')
+    expect(updates.filter(update => update.table === 'uploads').map(update => update.values.status))
+      .toEqual(['failed', 'failed'])
+  })
+  it('should not read a source whose creator may no longer import into the farm', async () => {
+    const updates: Record<string, unknown>[] = []
+    const supabase = {
+      from: () => ({
+        ...membershipQuery(null),
+        update: (values: Record<string, unknown>) => ({
+          eq: async () => {
+            updates.push(values)
+            return { error: null }
+          },
+        }),
+      }),
+    } as unknown as SupabaseClient
+    const storage = {
+      save: async () => { throw new Error('not expected') },
+      load: async () => new Uint8Array(),
+    }
+    let listed = false
+    const reader = {
+      list: async () => { listed = true; return [] },
+      complete: async () => {},
+    }
+
+    const result = await ingestImportSource(supabase, storage, source, reader)
+
+    expect(listed).toBe(false)
+    expect(result.uploadIds).toEqual([])
+    expect(result.error).toBe('Sie sind kein Mitglied dieses Stalls')
+    expect(updates).toEqual([expect.objectContaining({ last_error: 'Sie sind kein Mitglied dieses Stalls' })])
+  })
+})
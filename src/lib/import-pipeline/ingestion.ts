@@ -0,0 +1,320 @@
+/**
+ * Automatic Ingestion
+ *
+ * Imports feeding exports without a manual upload. Each farm can configure
+ * import sources (table import_sources):
+ * - folder: a directory the feeding computer writes its daily export into
+ * - mailbox: a Maildir receiving the export as e-mail attachment
+ *
+ * Sources are polled by GET /api/ingestion/run (cron) or on demand. Every
+ * file becomes an upload tagged with its source and goes through the same
+ * import job as a manual upload (see run-import.ts). Handled files are moved
+ * out of the way, so each file is imported once. Files of a folder modified
+ * within the last minute may still be written and wait for the next poll;
+ * Maildir delivers messages into new/ by an atomic rename.
+ *
+ * Server-side only: sources are read from the Node.js file system.
+ */
+
+import { mkdir, readdir, readFile, rename, stat } from 'node:fs/promises'
+import path from 'node:path'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Tables } from '@/lib/database.types'
+import { isSpreadsheetFile } from '@/lib/import-adapters/shared'
+import { getUploadStatus } from '@/lib/upload-processor'
+import { checkImportPermission, createUploadRecord, runImportJob } from './run-import'
+import { extractMailAttachments } from './mailbox'
+import { getUploadFilePath, type UploadStorage } from './storage'
+
+export type ImportSource = Tables<'import_sources'>
+
+export type ImportSourceType = 'folder' | 'mailbox'
+
+/** Value of uploads.source for manual and automatic uploads */
+export type UploadSourceTag = 'manual' | ImportSourceType
+
+/** Subfolders of a watched folder receiving handled files */
+export const PROCESSED_FOLDER = 'processed'
+export const FAILED_FOLDER = 'failed'
+
+/** Files of a watched folder modified more recently may still be written */
+export const FILE_SETTLE_MS = 60 * 1000
+
+/** A file, or an e-mail with its attachments, waiting to be imported */
+export interface IngestionItem {
+  /** File or message name inside the source */
+  reference: string
+  files: { fileName: string; data: Uint8Array }[]
+}
+
+export interface IngestionReader {
+  list(): Promise<IngestionItem[]>
+  /** Moves a handled item out of the way so it is not imported again */
+  complete(item: IngestionItem, failed: boolean): Promise<void>
+}
+
+export interface IngestionRunResult {
+  sourceId: string
+  /** Uploads created in this run */
+  uploadIds: string[]
+  failed: number
+  error: string | null
+}
+
+/**
+ * Checks whether a file name looks like a feeding export
+ */
+export function isImportFileName(fileName: string): boolean {
+  const lower = fileName.toLowerCase()
+  return !lower.startsWith('.') && (lower.endsWith('.csv') || lower.endsWith('.txt') || isSpreadsheetFile(lower))
+}
+
+/**
+ * Resolves a source path inside the ingestion root directory
+ *
+ * Source paths are configured by farm members, so they must not leave the
+ * root (INGESTION_DIR) set up by the operator.
+ */
+export function resolveSourcePath(rootDir: string, sourcePath: string): string {
+  const root = path.resolve(rootDir)
+  const fullPath = path.resolve(root, sourcePath)
+  if (fullPath !== root && !fullPath.startsWith(root + path.sep)) {
+    throw new Error(`Ungültiger Pfad: ${sourcePath}`)
+  }
+  return fullPath
+}
+
+/**
+ * Root directory all import source paths are relative to
+ */
+export function getIngestionRoot(): string {
+  return process.env.INGESTION_DIR || '.ingestion'
+}
+
+/**
+ * Ingestion directory of a farm
+ *
+ * Each farm's sources resolve inside its own subfolder of the root
+ * (INGESTION_DIR/<farm_id>), so a source cannot read another farm's exports.
+ */
+export function getFarmIngestionDir(rootDir: string, farmId: string): string {
+  if (!farmId) {
+    throw new Error('Importquelle ohne Stall')
+  }
+  return resolveSourcePath(rootDir, farmId)
+}
+
+/**
+ * Reads export files from a watched folder
+ *
+ * Files modified within settleMs are skipped until a later poll, so a file
+ * still being written is not imported half-finished. Handled files are
+ * moved to the processed/ or failed/ subfolder.
+ */
+export function createFolderReader(directory: string, settleMs = FILE_SETTLE_MS): IngestionReader {
+  const moveTo = async (fileName: string, folder: string) => {
+    await mkdir(path.join(directory, folder), { recursive: true })
+    await rename(path.join(directory, fileName), path.join(directory, folder, fileName))
+  }
+
+  return {
+    async list() {
+      const entries = await readdir(directory, { withFileTypes: true })
+      const items: IngestionItem[] = []
+
+      for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        if (!entry.isFile() || !isImportFileName(entry.name)) continue
+        const filePath = path.join(directory, entry.name)
+        if (Date.now() - (await stat(filePath)).mtimeMs < settleMs) continue
+
+        const data = new Uint8Array(await readFile(filePath))
+        items.push({ reference: entry.name, files: [{ fileName: entry.name, data }] })
+      }
+
+      return items
+    },
+
+    async complete(item, failed) {
+      await moveTo(item.reference, failed ? FAILED_FOLDER : PROCESSED_FOLDER)
+    },
+  }
+}
+
+/**
+ * Reads export attachments from a Maildir
+ *
+ * New messages are read from new/ and moved to cur/ once handled, like a
+ * mail client marking them as read. Failed messages are flagged (:2,F).
+ */
+export function createMailboxReader(directory: string): IngestionReader {
+  return {
+    async list() {
+      const newDir = path.join(directory, 'new')
+      const names = (await readdir(newDir)).filter(name => !name.startsWith('.')).sort()
+      const items: IngestionItem[] = []
+
+      for (const name of names) {
+        const attachments = extractMailAttachments(new Uint8Array(await readFile(path.join(newDir, name))))
+        items.push({ reference: name, files: attachments.filter(file => isImportFileName(file.fileName)) })
+      }
+
+      return items
+    },
+
+    async complete(item, failed) {
+      await mkdir(path.join(directory, 'cur'), { recursive: true })
+      await rename(
+        path.join(directory, 'new', item.reference),
+        path.join(directory, 'cur', `${item.reference}:2,${failed ? 'FS' : 'S'}`)
+      )
+    },
+  }
+}
+
+/**
+ * Reader for an import source, below its farm's ingestion directory
+ */
+export function createSourceReader(
+  source: Pick<ImportSource, 'farm_id' | 'type' | 'path'>,
+  rootDir = getIngestionRoot()
+): IngestionReader {
+  const directory = resolveSourcePath(getFarmIngestionDir(rootDir, source.farm_id), source.path)
+
+  switch (source.type as ImportSourceType) {
+    case 'folder':
+      return createFolderReader(directory)
+    case 'mailbox':
+      return createMailboxReader(directory)
+    default:
+      throw new Error(`Unbekannter Quelltyp: ${source.type}`)
+  }
+}
+
+/**
+ * Imports all waiting files of one source
+ *
+ * Each file becomes its own upload, attributed to the member who set up the
+ * source. That member must still be allowed to import into the farm, as
+ * sources are polled without a signed-in user; otherwise nothing is read.
+ * Feed names are mapped through the farm's saved aliases. The source
+ * records when it was polled and the last error, if any.
+ *
+ * Items are handled one by one: an item whose upload cannot be stored is
+ * marked failed and moved out of the way without stopping the others. Only
+ * files of which nothing could be imported count as failed; warnings such
+ * as an unknown supplier leave the file with the processed ones.
+ */
+export async function ingestImportSource(
+  supabase: SupabaseClient,
+  storage: UploadStorage,
+  source: ImportSource,
+  reader?: IngestionReader
+): Promise<IngestionRunResult> {
+  const result: IngestionRunResult = { sourceId: source.id, uploadIds: [], failed: 0, error: null }
+
+  try {
+    const permissionError = await checkImportPermission(supabase, source.farm_id, source.created_by)
+    if (permissionError) {
+      throw new Error(permissionError)
+    }
+
+    const sourceReader = reader || createSourceReader(source)
+    const items = await sourceReader.list()
+
+    for (const item of items) {
+      let itemFailed = false
+
+      for (const file of item.files) {
+        let uploadId: string | null = null
+
+        try {
+          uploadId = await createUploadRecord(supabase, {
+            farmId: source.farm_id,
+            userId: source.created_by,
+            fileName: file.fileName,
+            source: source.type as ImportSourceType,
+            importSourceId: source.id
+          })
+          result.uploadIds.push(uploadId)
+
+          const filePath = await storage.save(getUploadFilePath(source.farm_id, uploadId, file.fileName), file.data)
+          await supabase.from('uploads').update({ file_url: filePath }).eq('id', uploadId)
+
+          const importResult = await runImportJob({
+            supabase,
+            storage,
+            farmId: source.farm_id,
+            uploadId,
+            fileName: file.fileName,
+            filePath,
+            onEvent: () => {}
+          })
+
+          if (!importResult || getUploadStatus(importResult) === 'failed') {
+            itemFailed = true
+            result.failed++
+          }
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unbekannter Fehler'
+          console.error(`Ingestion of ${item.reference} failed:`, error)
+          itemFailed = true
+          result.failed++
+          result.error = `${file.fileName}: ${message}`
+
+          if (uploadId) {
+            await supabase
+              .from('uploads')
+              .update({ status: 'failed', error_message: message })
+              .eq('id', uploadId)
+          }
+        }
+      }
+
+      // Messages without a usable attachment are moved out of the way as well
+      try {
+        await sourceReader.complete(item, itemFailed || item.files.length === 0)
+      } catch (error) {
+        console.error(`Moving ${item.reference} failed:`, error)
+        result.error = `${item.reference}: ${error instanceof Error ? error.message : 'Unbekannter Fehler'}`
+      }
+    }
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : 'Unbekannter Fehler'
+    console.error(`Ingestion of source ${source.id} failed:`, error)
+  }
+
+  const { error: updateError } = await supabase
+    .from('import_sources')
+    .update({ last_polled_at: new Date().toISOString(), last_error: result.error })
+    .eq('id', source.id)
+
+  if (updateError) {
+    console.error('Error updating import source:', updateError)
+  }
+
+  return result
+}
+
+/**
+ * Polls all enabled import sources, one after another
+ */
+export async function runIngestion(
+  supabase: SupabaseClient,
+  storage: UploadStorage
+): Promise<IngestionRunResult[]> {
+  const { data: sources, error } = await supabase
+    .from('import_sources')
+    .select('*')
+    .eq('enabled', true)
+    .order('created_at')
+
+  if (error) {
+    throw new Error(`Fehler beim Laden der Importquellen: ${error.message}`)
+  }
+
+  const results: IngestionRunResult[] = []
+  for (const source of (sources || []) as ImportSource[]) {
+    results.push(await ingestImportSource(supabase, storage, source))
+  }
+  return results
+}
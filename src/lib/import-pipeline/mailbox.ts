@@ -0,0 +1,129 @@
+/**
+ * Mailbox Attachments
+ *
+ * Extracts file attachments from raw e-mail messages (RFC 822 / MIME), as
+ * stored in a Maildir. Used by the mailbox ingestion source: feeding
+ * computers that can only send their daily export by e-mail deliver into a
+ * local Maildir, which is polled like a watched folder.
+ *
+ * Server-side only: decoding uses Node.js Buffer.
+ */
+
+export interface MailAttachment {
+  fileName: string
+  data: Uint8Array
+}
+
+interface MimePart {
+  headers: Map<string, string>
+  body: string
+}
+
+/**
+ * Splits a MIME entity into unfolded headers (lower-case names) and body
+ */
+function parsePart(raw: string): MimePart {
+  const separator = raw.search(/\r?\n\r?\n/)
+  const head = separator === -1 ? raw : raw.slice(0, separator)
+  const body = separator === -1 ? '' : raw.slice(separator).replace(/^\r?\n\r?\n/, '')
+
+  const headers = new Map<string, string>()
+  head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).forEach(line => {
+    const colon = line.indexOf(':')
+    if (colon > 0) {
+      headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim())
+    }
+  })
+
+  return { headers, body }
+}
+
+/**
+ * Reads a parameter such as boundary or filename from a header value
+ *
+ * Supports quoted values and RFC 2231 extended values (filename*=UTF-8''...).
+ */
+function getHeaderParam(header: string | undefined, name: string): string | null {
+  if (!header) return null
+
+  const extended = header.match(new RegExp(`;\\s*${name}\\*=(?:"([^"]*)"|([^;\\s]*))`, 'i'))
+  if (extended) {
+    const value = extended[1] ?? extended[2]
+    // charset'language'percent-encoded-value
+    const encoded = value.match(/^[^']*'[^']*'(.*)$/)?.[1] ?? value
+    try {
+      return decodeURIComponent(encoded)
+    } catch {
+      return encoded
+    }
+  }
+
+  const plain = header.match(new RegExp(`;\\s*${name}=(?:"([^"]*)"|([^;\\s]*))`, 'i'))
+  return plain ? decodeEncodedWords(plain[1] ?? plain[2]) : null
+}
+
+/**
+ * Decodes RFC 2047 encoded words (=?UTF-8?B?...?=) in a header value
+ */
+function decodeEncodedWords(value: string): string {
+  return value.replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+    const bytes = encoding.toUpperCase() === 'B'
+      ? Buffer.from(text, 'base64')
+      : Buffer.from(decodeQuotedPrintable(text.replace(/_/g, ' ')), 'latin1')
+    return new TextDecoder(charset.toLowerCase() === 'utf-8' ? 'utf-8' : 'latin1').decode(bytes)
+  })
+}
+
+function decodeQuotedPrintable(text: string): string {
+  return text
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+}
+
+function decodeBody(body: string, transferEncoding: string | undefined): Uint8Array {
+  switch (transferEncoding?.toLowerCase()) {
+    case 'base64':
+      return new Uint8Array(Buffer.from(body.replace(/\s+/g, ''), 'base64'))
+    case 'quoted-printable':
+      return new Uint8Array(Buffer.from(decodeQuotedPrintable(body), 'latin1'))
+    default:
+      return new Uint8Array(Buffer.from(body.replace(/\r?\n$/, ''), 'latin1'))
+  }
+}
+
+function collectAttachments(raw: string, attachments: MailAttachment[]): void {
+  const { headers, body } = parsePart(raw)
+  const contentType = headers.get('content-type') || 'text/plain'
+
+  if (/^multipart\//i.test(contentType)) {
+    const boundary = getHeaderParam(contentType, 'boundary')
+    if (!boundary) return
+
+    const delimiter = `--${boundary}`
+    const sections = body.split(new RegExp(`\\r?\\n?${delimiter.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`))
+    // First section is the preamble, the one after the closing delimiter the epilogue
+    sections.slice(1).forEach(section => {
+      if (section.startsWith('--')) return
+      collectAttachments(section.replace(/^[ \t]*\r?\n/, ''), attachments)
+    })
+    return
+  }
+
+  const fileName = getHeaderParam(headers.get('content-disposition'), 'filename')
+    || getHeaderParam(contentType, 'name')
+  if (fileName) {
+    attachments.push({ fileName, data: decodeBody(body, headers.get('content-transfer-encoding')) })
+  }
+}
+
+/**
+ * Extracts all named attachments of a raw e-mail message
+ *
+ * @param message - Message as stored in the Maildir
+ */
+export function extractMailAttachments(message: Uint8Array): MailAttachment[] {
+  const attachments: MailAttachment[] = []
+  // latin1 maps every byte to one character, so binary bodies survive unchanged
+  collectAttachments(Buffer.from(message).toString('latin1'), attachments)
+  return attachments
+}
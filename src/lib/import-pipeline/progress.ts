@@ -0,0 +1,71 @@
+/**
+ * Import Progress Events
+ *
+ * The import route streams its progress as newline-delimited JSON, one
+ * ImportEvent per line. This module is shared by the route and the browser.
+ */
+
+import type { UploadResult } from '@/lib/upload-processor'
+
+export type ImportPhase =
+  | 'parsing'
+  | 'feed_types'
+  | 'areas'
+  | 'comparing'
+  | 'writing'
+
+export type ImportEvent =
+  | { type: 'started'; uploadId: string }
+  | { type: 'progress'; phase: ImportPhase; processed: number; total: number }
+  | { type: 'done'; uploadId: string; result: UploadResult }
+  | { type: 'error'; message: string }
+
+export const IMPORT_PHASE_LABELS: Record<ImportPhase, string> = {
+  parsing: 'Datei wird gelesen',
+  feed_types: 'Futtermittel werden zugeordnet',
+  areas: 'Bereiche werden zugeordnet',
+  comparing: 'Vorhandene Daten werden verglichen',
+  writing: 'Verbrauchsdaten werden gespeichert',
+}
+
+/**
+ * Serializes an event as one NDJSON line
+ */
+export function encodeImportEvent(event: ImportEvent): string {
+  return JSON.stringify(event) + '\n'
+}
+
+/**
+ * Reads the NDJSON event stream of an import response
+ *
+ * @param response - Response of the import route
+ * @param onEvent - Called for every event in stream order
+ */
+export async function readImportEvents(
+  response: Response,
+  onEvent: (event: ImportEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Keine Antwort vom Server erhalten')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  const emitLines = (text: string) => {
+    const lines = text.split('\n')
+    buffer = lines.pop() || ''
+    lines.filter(line => line.trim()).forEach(line => onEvent(JSON.parse(line) as ImportEvent))
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    emitLines(buffer + decoder.decode(value, { stream: true }))
+  }
+
+  if (buffer.trim()) {
+    onEvent(JSON.parse(buffer) as ImportEvent)
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Server-side Import Pipeline
+ *
+ * Runs an import from a stored source file: parse, resolve feed types and
+ * areas, write consumption. Used by the /api/uploads routes; the routes
+ * keep the job running after the browser disconnects (see stream.ts).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { parseImportFile } from '@/lib/import-adapters/parse-file'
+import { processConsumptionData, type UploadResult } from '@/lib/upload-processor'
+import { matchFeedNames } from '@/lib/utils/feed-name-matching'
+import { excludeSourceRows, type ImportIssue } from '@/lib/utils/import-validation'
+import { explodeRations } from '@/lib/utils/ration-calculations'
+import { loadRations } from '@/lib/services/ration-service'
+import type { ColumnMapping } from '@/lib/import-adapters/column-mapping'
+import type { ImportEvent } from './progress'
+import type { UploadSourceTag } from './ingestion'
+import type { UploadStorage } from './storage'
+
+/** Roles allowed to import data into a farm */
+const IMPORT_ROLES = ['owner', 'admin', 'editor']
+
+export interface ImportJob {
+  supabase: SupabaseClient
+  storage: UploadStorage
+  farmId: string
+  /** Upload record created with createUploadRecord */
+  uploadId: string
+  fileName: string
+  /** Storage path of the source file */
+  filePath: string
+  sheetName?: string | null
+  /** Confirmed feed type per imported feed name */
+  feedTypeMapping?: Record<string, string>
+  /** Data rows of the source file to leave out (flagged in the validation report) */
+  skipSourceRows?: number[]
+  /** Break ration quantities down into their components (default true) */
+  explodeRations?: boolean
+  onEvent: (event: ImportEvent) => void
+}
+
+/**
+ * Checks that a user may import data into a farm
+ *
+ * @returns Error message, or null if the import is allowed
+ */
+export async function checkImportPermission(
+  supabase: SupabaseClient,
+  farmId: string,
+  userId: string
+): Promise<string | null> {
+  const { data: membership, error } = await supabase
+    .from('farm_members')
+    .select('role')
+    .eq('farm_id', farmId)
+    .eq('user_id', userId)
+    .single()
+
+  if (error || !membership) {
+    return 'Sie sind kein Mitglied dieses Stalls'
+  }
+  if (!IMPORT_ROLES.includes(membership.role)) {
+    return 'Ihre Rolle erlaubt keine Datenimporte'
+  }
+  return null
+}
+
+/**
+ * Creates the upload record (status 'processing') an import writes into
+ */
+export async function createUploadRecord(
+  supabase: SupabaseClient,
+  params: {
+    farmId: string
+    userId: string
+    fileName: string
+    sheetName?: string | null
+    filePath?: string | null
+    skipSourceRows?: number[] | null
+    validationIssues?: ImportIssue[] | null
+    explodeRations?: boolean
+    /** Where the file came from (default 'manual') */
+    source?: UploadSourceTag
+    importSourceId?: string | null
+  }
+): Promise<string> {
+  const { data: upload, error } = await supabase
+    .from('uploads')
+    .insert({
+      farm_id: params.farmId,
+      filename: params.fileName,
+      status: 'processing',
+      file_url: params.filePath || null,
+      source_sheet: params.sheetName || null,
+      skipped_source_rows: params.skipSourceRows?.length ? params.skipSourceRows : null,
+      validation_issues: params.validationIssues?.length ? params.validationIssues : null,
+      explode_rations: params.explodeRations ?? true,
+      source: params.source || 'manual',
+      import_source_id: params.importSourceId || null,
+      uploaded_by: params.userId
+    })
+    .select('id')
+    .single()
+
+  if (error || !upload) {
+    throw new Error(`Fehler beim Erstellen des Upload-Datensatzes: ${error?.message || 'Unbekannt'}`)
+  }
+
+  return upload.id
+}
+
+/**
+ * Maps imported feed names through the farm's saved aliases
+ *
+ * Used when no user confirmed the mapping (e.g. re-processing a stored file).
+ * Normalized-name proposals are not applied, only aliases the user confirmed before.
+ */
+export async function getAliasFeedTypeMapping(
+  supabase: SupabaseClient,
+  farmId: string,
+  feedNames: string[]
+): Promise<Record<string, string>> {
+  const [{ data: feedTypes }, { data: aliases }] = await Promise.all([
+    supabase.from('feed_types').select('id, name, normalized_name').eq('farm_id', farmId),
+    supabase.from('feed_type_aliases').select('feed_type_id, alias').eq('farm_id', farmId)
+  ])
+
+  const mapping: Record<string, string> = {}
+  matchFeedNames(feedNames, feedTypes || [], aliases || []).forEach(match => {
+    if (match.reason === 'alias' && match.feedTypeId) {
+      mapping[match.importName] = match.feedTypeId
+    }
+  })
+  return mapping
+}
+
+/**
+ * Runs an import job to completion
+ *
+ * Never throws: failures are reported as an 'error' event and recorded on
+ * the upload record (status 'failed').
+ */
+export async function runImportJob(job: ImportJob): Promise<UploadResult | null> {
+  const { supabase, farmId, uploadId, onEvent } = job
+  onEvent({ type: 'started', uploadId })
+
+  try {
+    onEvent({ type: 'progress', phase: 'parsing', processed: 0, total: 0 })
+    const fileData = await job.storage.load(job.filePath)
+    const parsedData = await parseImportFile(fileData, job.fileName, {
+      sheetName: job.sheetName,
+      findProfile: async (headerSignature) => {
+        const { data } = await supabase
+          .from('import_profiles')
+          .select('name, mapping')
+          .eq('farm_id', farmId)
+          .eq('header_signature', headerSignature)
+          .order('updated_at', { ascending: false })
+          .limit(1)
+
+        return (data?.[0] as { name: string; mapping: ColumnMapping } | undefined) || null
+      }
+    })
+
+    let importData = excludeSourceRows(parsedData, job.skipSourceRows || [])
+
+    if (job.explodeRations !== false) {
+      const breakdown = explodeRations(importData, await loadRations(supabase, farmId))
+      if (breakdown.errors.length > 0) {
+        throw new Error(`Rationen konnten nicht aufgeteilt werden: ${breakdown.errors.slice(0, 3).join('; ')}` +
+          (breakdown.errors.length > 3 ? ` (und ${breakdown.errors.length - 3} weitere)` : ''))
+      }
+      importData = breakdown.data
+    }
+
+    const feedTypeMapping = job.feedTypeMapping
+      ?? await getAliasFeedTypeMapping(supabase, farmId, importData.feedTypes)
+
+    const result = await processConsumptionData(supabase, importData, { farmId, uploadId }, {
+      feedTypeMapping,
+      onProgress: (phase, processed, total) => onEvent({ type: 'progress', phase, processed, total })
+    })
+
+    onEvent({ type: 'done', uploadId, result })
+    return result
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unbekannter Fehler'
+    console.error('Import failed:', error)
+
+    await supabase
+      .from('uploads')
+      .update({ status: 'failed', error_message: message })
+      .eq('id', uploadId)
+
+    onEvent({ type: 'error', message })
+    return null
+  }
+}
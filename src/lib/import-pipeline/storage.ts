@@ -0,0 +1,105 @@
+/**
+ * Upload Storage
+ *
+ * Persists the original files of uploads so they can be downloaded and
+ * re-processed later. Files are stored in the Supabase storage bucket, or on
+ * the local file system when UPLOAD_STORAGE=local (development and tests).
+ *
+ * Server-side only: the local adapter uses the Node.js file system.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+/** Supabase storage bucket holding the uploaded source files */
+export const UPLOAD_BUCKET = 'uploads'
+
+export interface UploadStorage {
+  /** Stores a file and returns the path to save as uploads.file_url */
+  save(filePath: string, data: Uint8Array, contentType?: string): Promise<string>
+  /** Loads a previously stored file */
+  load(filePath: string): Promise<Uint8Array>
+}
+
+/**
+ * Storage path of an upload's source file
+ */
+export function getUploadFilePath(farmId: string, uploadId: string, fileName: string): string {
+  // Keep the name readable but strip anything that could escape the folder
+  const safeName = fileName.replace(/[\\/]/g, '_').replace(/^\.+/, '_')
+  return `${farmId}/${uploadId}/${safeName}`
+}
+
+/**
+ * Stores files in a directory on the local file system
+ *
+ * @param baseDir - Root directory for all upload files
+ */
+export function createLocalUploadStorage(baseDir: string): UploadStorage {
+  const root = path.resolve(baseDir)
+
+  const resolve = (filePath: string) => {
+    const fullPath = path.resolve(root, filePath)
+    if (!fullPath.startsWith(root + path.sep)) {
+      throw new Error(`Ungültiger Dateipfad: ${filePath}`)
+    }
+    return fullPath
+  }
+
+  return {
+    async save(filePath, data) {
+      const fullPath = resolve(filePath)
+      await mkdir(path.dirname(fullPath), { recursive: true })
+      await writeFile(fullPath, data)
+      return filePath
+    },
+
+    async load(filePath) {
+      return new Uint8Array(await readFile(resolve(filePath)))
+    },
+  }
+}
+
+/**
+ * Stores files in a Supabase storage bucket
+ */
+export function createSupabaseUploadStorage(
+  supabase: SupabaseClient,
+  bucket: string = UPLOAD_BUCKET
+): UploadStorage {
+  return {
+    async save(filePath, data, contentType) {
+      const { error } = await supabase.storage
+        .from(bucket)
+        .upload(filePath, data, { upsert: true, contentType })
+
+      if (error) {
+        throw new Error(`Datei konnte nicht gespeichert werden: ${error.message}`)
+      }
+      return filePath
+    },
+
+    async load(filePath) {
+      const { data, error } = await supabase.storage
+        .from(bucket)
+        .download(filePath)
+
+      if (error || !data) {
+        throw new Error(`Datei konnte nicht geladen werden: ${error?.message || 'Unbekannt'}`)
+      }
+      return new Uint8Array(await data.arrayBuffer())
+    },
+  }
+}
+
+/**
+ * Returns the storage configured for this environment
+ * UPLOAD_STORAGE=local stores files in UPLOAD_STORAGE_DIR (default: .uploads)
+ */
+export function getUploadStorage(supabase: SupabaseClient): UploadStorage {
+  if (process.env.UPLOAD_STORAGE === 'local') {
+    return createLocalUploadStorage(process.env.UPLOAD_STORAGE_DIR || '.uploads')
+  }
+  return createSupabaseUploadStorage(supabase)
+}
@@ -0,0 +1,52 @@
+/**
+ * Streams an import job's events as an NDJSON response
+ *
+ * The job is not tied to the response: if the browser disconnects (tab
+ * closed, navigation), events are dropped but the job keeps running until
+ * it has finished, as registered with Next.js' after().
+ */
+
+import { after } from 'next/server'
+import { encodeImportEvent, type ImportEvent } from './progress'
+
+export function streamImportJob(run: (onEvent: (event: ImportEvent) => void) => Promise<unknown>): Response {
+  const encoder = new TextEncoder()
+  let controller: ReadableStreamDefaultController<Uint8Array> | null = null
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c
+    },
+    cancel() {
+      // Client went away; keep processing without streaming
+      controller = null
+    },
+  })
+
+  const send = (event: ImportEvent) => {
+    try {
+      controller?.enqueue(encoder.encode(encodeImportEvent(event)))
+    } catch {
+      controller = null
+    }
+  }
+
+  const job = run(send)
+    .catch(error => send({ type: 'error', message: error instanceof Error ? error.message : 'Unbekannter Fehler' }))
+    .finally(() => {
+      try {
+        controller?.close()
+      } catch {
+        // Stream already closed by the client
+      }
+    })
+
+  after(job)
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  })
+}
@@ -0,0 +1,117 @@
+/**
+ * Animal Sale Service
+ *
+ * Manages the sale batches of a cycle.
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import type { Tables } from '@/lib/database.types'
+import type { SalePriceBasis } from '@/lib/utils/animal-sales'
+
+export type AnimalSaleRecord = Tables<'animal_sales'> & {
+  areas?: { name: string } | null
+  area_groups?: { name: string } | null
+}
+
+export interface AnimalSaleInput {
+  sale_date: string
+  area_id: string | null
+  area_group_id: string | null
+  count: number
+  live_weight_per_animal_kg: number | null
+  carcass_weight_per_animal_kg: number | null
+  price_basis: SalePriceBasis
+  price: number
+  classification: string | null
+  lean_meat_percent: number | null
+  bonus_total: number | null
+  buyer: string | null
+  notes: string | null
+  /** Number of the slaughterhouse settlement the batch was imported from */
+  settlement_number?: string | null
+}
+
+/**
+ * Get the sale batches of a cycle, oldest first
+ */
+export async function getAnimalSales(livestockCountId: string): Promise<AnimalSaleRecord[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('animal_sales')
+    .select('*, areas(name), area_groups(name)')
+    .eq('livestock_count_id', livestockCountId)
+    .order('sale_date')
+
+  if (error) {
+    console.error('Error fetching animal sales:', error)
+    throw error
+  }
+
+  return (data || []) as AnimalSaleRecord[]
+}
+
+/**
+ * Record a sale batch
+ * A settlement can only be imported once per farm.
+ */
+export async function createAnimalSale(
+  farmId: string,
+  livestockCountId: string,
+  input: AnimalSaleInput
+): Promise<void> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    throw new Error('User not authenticated')
+  }
+
+  if (input.settlement_number) {
+    const { data: existing, error: existingError } = await supabase
+      .from('animal_sales')
+      .select('id')
+      .eq('farm_id', farmId)
+      .eq('settlement_number', input.settlement_number)
+      .limit(1)
+
+    if (existingError) {
+      console.error('Error checking settlement number:', existingError)
+      throw existingError
+    }
+    if (existing && existing.length > 0) {
+      throw new Error(`Abrechnung ${input.settlement_number} wurde bereits importiert`)
+    }
+  }
+
+  const { error } = await supabase
+    .from('animal_sales')
+    .insert({
+      farm_id: farmId,
+      livestock_count_id: livestockCountId,
+      ...input,
+      created_by: user.id
+    })
+
+  if (error) {
+    console.error('Error creating animal sale:', error)
+    throw error
+  }
+}
+
+/**
+ * Delete a sale batch
+ */
+export async function deleteAnimalSale(id: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('animal_sales')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error deleting animal sale:', error)
+    throw error
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Budget Price Service
+ *
+ * Manages forward budget prices per feed type and month, used to value
+ * planned cycles under best, expected and worst case feed prices.
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import type { Tables } from '@/lib/database.types'
+import { normalizeTierUnits, type FeedTypeUnit } from '@/lib/utils/feed-calculations'
+import { loadDailyFeedConsumption } from '@/lib/utils/feed-costing'
+import { estimateFeedShares, type BudgetPrice, type FeedShare, type HistoryTier } from '@/lib/utils/price-scenarios'
+
+export type BudgetPriceRecord = Tables<'budget_prices'>
+
+export interface PlannedCycle {
+  id: string
+  durchgang_name: string | null
+  start_date: string
+  end_date: string | null
+  expected_weight_per_animal: number | null
+  actual_weight_per_animal: number | null
+  feed_conversion_ratio: number | null
+  buy_price_per_animal: number | null
+  sell_price_per_animal: number | null
+  livestock_count_details: { count: number; start_date: string; end_date: string | null }[]
+}
+
+export interface PricePlanningData {
+  feedTypes: (FeedTypeUnit & { name: string })[]
+  /** Price tiers in the unit of their feed type */
+  priceTiers: HistoryTier[]
+  budgetPrices: BudgetPriceRecord[]
+  plannedCycles: PlannedCycle[]
+  /** Feed mix of the last twelve months */
+  feedShares: FeedShare[]
+}
+
+/**
+ * Get everything needed to plan feed prices: feed types, price history,
+ * budget prices from the current month, cycles starting in the future and
+ * the recent feed mix
+ */
+export async function getPricePlanningData(farmId: string): Promise<PricePlanningData> {
+  const supabase = createClient()
+  const today = new Date().toISOString().split('T')[0]
+  const currentMonth = today.slice(0, 7) + '-01'
+  const yearAgo = new Date()
+  yearAgo.setFullYear(yearAgo.getFullYear() - 1)
+
+  const [feedTypesResult, priceTiersResult, cyclesResult] = await Promise.all([
+    supabase
+      .from('feed_types')
+      .select('id, name, unit, bag_weight_kg, density_kg_per_l')
+      .eq('farm_id', farmId)
+      .order('name'),
+    supabase
+      .from('price_tiers')
+      .select('feed_type_id, supplier_id, price_per_unit, unit, valid_from, valid_to')
+      .eq('farm_id', farmId),
+    supabase
+      .from('livestock_counts')
+      .select('id, durchgang_name, start_date, end_date, expected_weight_per_animal, actual_weight_per_animal, feed_conversion_ratio, buy_price_per_animal, sell_price_per_animal, livestock_count_details(count, start_date, end_date)')
+      .eq('farm_id', farmId)
+      .gte('start_date', today)
+      .order('start_date')
+  ])
+
+  const error = feedTypesResult.error || priceTiersResult.error || cyclesResult.error
+  if (error) {
+    throw new Error(`Fehler beim Laden der Planungsdaten: ${error.message}`)
+  }
+
+  const feedTypes: PricePlanningData['feedTypes'] = feedTypesResult.data || []
+  const feedTypesById = new Map(feedTypes.map(feedType => [feedType.id, feedType]))
+  const consumption = await loadDailyFeedConsumption(supabase, farmId, yearAgo.toISOString().split('T')[0])
+
+  return {
+    feedTypes,
+    priceTiers: normalizeTierUnits(priceTiersResult.data || [], feedTypes),
+    budgetPrices: await getBudgetPrices(farmId, currentMonth),
+    plannedCycles: (cyclesResult.data || []) as PlannedCycle[],
+    feedShares: estimateFeedShares(
+      consumption.map(item => ({ ...item, feed_types: feedTypesById.get(item.feed_type_id) || null }))
+    )
+  }
+}
+
+/**
+ * Get the budget prices of a farm from a month on
+ */
+export async function getBudgetPrices(farmId: string, fromMonth: string): Promise<BudgetPriceRecord[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('budget_prices')
+    .select('*')
+    .eq('farm_id', farmId)
+    .gte('month', fromMonth)
+    .order('month')
+
+  if (error) {
+    console.error('Error fetching budget prices:', error)
+    throw error
+  }
+
+  return data || []
+}
+
+/**
+ * Save budget prices
+ * A budget price for the same feed type and month is replaced
+ */
+export async function saveBudgetPrices(farmId: string, prices: BudgetPrice[]): Promise<void> {
+  if (prices.length === 0) return
+
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    throw new Error('User not authenticated')
+  }
+
+  const { error } = await supabase
+    .from('budget_prices')
+    .upsert(
+      prices.map(price => ({
+        farm_id: farmId,
+        feed_type_id: price.feed_type_id,
+        month: price.month,
+        price_best: price.price_best,
+        price_expected: price.price_expected,
+        price_worst: price.price_worst,
+        created_by: user.id,
+        updated_at: new Date().toISOString()
+      })),
+      { onConflict: 'farm_id,feed_type_id,month' }
+    )
+
+  if (error) {
+    console.error('Error saving budget prices:', error)
+    throw error
+  }
+}
+
+/**
+ * Delete a budget price
+ */
+export async function deleteBudgetPrice(id: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('budget_prices')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error deleting budget price:', error)
+    throw error
+  }
+}
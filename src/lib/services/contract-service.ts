@@ -0,0 +1,239 @@
+/**
+ * Supplier Contract Service
+ *
+ * Manages supplier contracts and keeps the price tier generated from each
+ * contract price in sync with the contract.
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import type { Tables } from '@/lib/database.types'
+import { buildContractPriceTier, type ContractCallOff, type SupplierContract } from '@/lib/utils/contracts'
+import { applySupplierShares } from '@/lib/utils/feed-calculations'
+
+export type SupplierContractRecord = Tables<'supplier_contracts'> & {
+  suppliers?: { name: string } | null
+  feed_types?: { name: string; unit: string | null; bag_weight_kg: number | null; density_kg_per_l: number | null } | null
+}
+
+export interface ContractData {
+  contracts: SupplierContractRecord[]
+  /** Deliveries within the contract periods */
+  deliveries: ContractCallOff[]
+  /** Consumption attributed to a supplier within the contract periods */
+  consumption: ContractCallOff[]
+}
+
+/**
+ * Get the contracts of a farm with the deliveries and consumption counted against them
+ */
+export async function getContractData(farmId: string): Promise<ContractData> {
+  const supabase = createClient()
+
+  const { data: contracts, error } = await supabase
+    .from('supplier_contracts')
+    .select('*, suppliers(name), feed_types(name, unit, bag_weight_kg, density_kg_per_l)')
+    .eq('farm_id', farmId)
+    .order('valid_from', { ascending: false })
+
+  if (error) {
+    throw new Error(`Fehler beim Laden der Kontrakte: ${error.message}`)
+  }
+
+  const records = (contracts || []) as SupplierContractRecord[]
+  if (records.length === 0) {
+    return { contracts: [], deliveries: [], consumption: [] }
+  }
+
+  const since = records.map(contract => contract.valid_from).sort()[0]
+  const needsConsumption = records.some(contract => contract.call_off_basis === 'consumption')
+
+  const { data: deliveries, error: deliveriesError } = await supabase
+    .from('feed_deliveries')
+    .select('supplier_id, feed_type_id, delivery_date, quantity')
+    .eq('farm_id', farmId)
+    .gte('delivery_date', since)
+
+  if (deliveriesError) {
+    throw new Error(`Fehler beim Laden der Lieferungen: ${deliveriesError.message}`)
+  }
+
+  return {
+    contracts: records,
+    deliveries: ((deliveries || []) as Pick<Tables<'feed_deliveries'>, 'supplier_id' | 'feed_type_id' | 'delivery_date' | 'quantity'>[]).map(delivery => ({
+      supplier_id: delivery.supplier_id,
+      feed_type_id: delivery.feed_type_id,
+      date: delivery.delivery_date,
+      quantity: Number(delivery.quantity)
+    })),
+    consumption: needsConsumption ? await loadSupplierConsumption(farmId, since) : []
+  }
+}
+
+/**
+ * Load consumption per supplier, feed type and day, in kg
+ * Consumption without a supplier is attributed by the feed types' supplier shares.
+ */
+async function loadSupplierConsumption(farmId: string, since: string): Promise<ContractCallOff[]> {
+  const supabase = createClient()
+
+  const { data: shares, error: sharesError } = await supabase
+    .from('feed_type_suppliers')
+    .select('feed_type_id, supplier_id, share')
+    .eq('farm_id', farmId)
+
+  if (sharesError) {
+    throw new Error(`Fehler beim Laden der Lieferantenanteile: ${sharesError.message}`)
+  }
+
+  const totals = new Map<string, ContractCallOff>()
+  const pageSize = 1000
+  let from = 0
+
+  while (true) {
+    // id breaks ties within a day, so no row is repeated or skipped at page boundaries
+    const { data: page, error } = await supabase
+      .from('consumption')
+      .select('supplier_id, feed_type_id, date, quantity')
+      .eq('farm_id', farmId)
+      .gte('date', since)
+      .order('date')
+      .order('id')
+      .range(from, from + pageSize - 1)
+
+    if (error) {
+      throw new Error(`Fehler beim Laden der Verbrauchsdaten: ${error.message}`)
+    }
+
+    const rows: ContractCallOff[] = ((page || []) as Pick<Tables<'consumption'>, 'supplier_id' | 'feed_type_id' | 'date' | 'quantity'>[])
+      .map(row => ({ ...row, quantity: Number(row.quantity) }))
+    for (const row of applySupplierShares(rows, shares || [])) {
+      if (!row.supplier_id) continue
+
+      const key = `${row.supplier_id}|${row.feed_type_id}|${row.date}`
+      const entry = totals.get(key) || { supplier_id: row.supplier_id, feed_type_id: row.feed_type_id, date: row.date, quantity: 0, unit: 'kg' }
+      entry.quantity += row.quantity
+      totals.set(key, entry)
+    }
+
+    if (!page || page.length < pageSize) break
+    from += pageSize
+  }
+
+  return Array.from(totals.values())
+}
+
+/**
+ * Create a contract and the price tier for its price
+ */
+export async function createContract(farmId: string, contract: SupplierContract & { notes: string | null }): Promise<void> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    throw new Error('User not authenticated')
+  }
+
+  const { data: tier, error: tierError } = await supabase
+    .from('price_tiers')
+    .insert({ ...buildContractPriceTier(contract), farm_id: farmId, created_by: user.id })
+    .select('id')
+    .single()
+
+  if (tierError) {
+    throw new Error(`Fehler beim Anlegen der Preisstaffel: ${tierError.message}`)
+  }
+
+  const { error } = await supabase
+    .from('supplier_contracts')
+    .insert({ ...contract, farm_id: farmId, price_tier_id: tier.id, created_by: user.id })
+
+  if (error) {
+    await supabase.from('price_tiers').delete().eq('id', tier.id)
+    throw new Error(`Fehler beim Anlegen des Kontrakts: ${error.message}`)
+  }
+}
+
+/**
+ * Update a contract and its price tier
+ * A contract whose price tier was deleted gets a new one.
+ */
+export async function updateContract(
+  farmId: string,
+  id: string,
+  priceTierId: string | null,
+  contract: SupplierContract & { notes: string | null }
+): Promise<void> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    throw new Error('User not authenticated')
+  }
+
+  const tier = buildContractPriceTier(contract)
+  let tierId = priceTierId
+
+  if (tierId) {
+    const { data: updated, error } = await supabase
+      .from('price_tiers')
+      .update({ ...tier, updated_at: new Date().toISOString() })
+      .eq('id', tierId)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Fehler beim Aktualisieren der Preisstaffel: ${error.message}`)
+    }
+    if (!updated || updated.length === 0) tierId = null
+  }
+
+  if (!tierId) {
+    const { data: created, error } = await supabase
+      .from('price_tiers')
+      .insert({ ...tier, farm_id: farmId, created_by: user.id })
+      .select('id')
+      .single()
+
+    if (error) {
+      throw new Error(`Fehler beim Anlegen der Preisstaffel: ${error.message}`)
+    }
+    tierId = created.id
+  }
+
+  const { error } = await supabase
+    .from('supplier_contracts')
+    .update({ ...contract, price_tier_id: tierId, updated_at: new Date().toISOString() })
+    .eq('id', id)
+
+  if (error) {
+    throw new Error(`Fehler beim Aktualisieren des Kontrakts: ${error.message}`)
+  }
+}
+
+/**
+ * Delete a contract together with its price tier
+ */
+export async function deleteContract(id: string, priceTierId: string | null): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('supplier_contracts')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error deleting contract:', error)
+    throw error
+  }
+
+  if (priceTierId) {
+    const { error: tierError } = await supabase
+      .from('price_tiers')
+      .delete()
+      .eq('id', priceTierId)
+
+    if (tierError) {
+      console.error('Error deleting contract price tier:', tierError)
+      throw tierError
+    }
+  }
+}
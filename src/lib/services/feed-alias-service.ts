@@ -0,0 +1,141 @@
+/**
+ * Feed Alias Service
+ *
+ * Manages alternative names for feed types (used to match import files)
+ * and merging of duplicate feed types.
+ */
+
+import { createClient } from '@/lib/supabase/client'
+
+export interface FeedTypeAliasRecord {
+  id: string
+  farm_id: string
+  feed_type_id: string
+  alias: string
+  created_at: string | null
+}
+
+export interface MergeFeedTypesResult {
+  /** Consumption rows re-pointed to the target feed type */
+  movedConsumption: number
+  /** Consumption rows added onto an existing target row for the same day/group */
+  mergedConsumption: number
+  /** Price tiers re-pointed to the target feed type */
+  movedPriceTiers: number
+  /** Rows of the other referencing tables (deliveries, stock takes, contracts, …) re-pointed or added onto the target */
+  movedReferences: number
+}
+
+/**
+ * Get all feed type aliases for a farm
+ */
+export async function getFeedTypeAliases(farmId: string): Promise<FeedTypeAliasRecord[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('feed_type_aliases')
+    .select('*')
+    .eq('farm_id', farmId)
+    .order('alias')
+
+  if (error) {
+    console.error('Error fetching feed type aliases:', error)
+    throw error
+  }
+
+  return data || []
+}
+
+/**
+ * Save aliases for feed types
+ * An alias that already exists on the farm is re-pointed to the new feed type
+ */
+export async function saveFeedTypeAliases(
+  farmId: string,
+  aliases: { alias: string; feedTypeId: string }[]
+): Promise<void> {
+  if (aliases.length === 0) return
+
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('feed_type_aliases')
+    .upsert(
+      aliases.map(({ alias, feedTypeId }) => ({
+        farm_id: farmId,
+        alias,
+        feed_type_id: feedTypeId
+      })),
+      { onConflict: 'farm_id,alias' }
+    )
+
+  if (error) {
+    console.error('Error saving feed type aliases:', error)
+    throw error
+  }
+}
+
+/**
+ * Delete a feed type alias
+ */
+export async function deleteFeedTypeAlias(id: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('feed_type_aliases')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error deleting feed type alias:', error)
+    throw error
+  }
+}
+
+/**
+ * Merge one feed type into another
+ *
+ * Runs the merge_feed_types database function, which in one transaction:
+ * 1. Re-points consumption of the source feed type to the target. Where the
+ *    target already has a row for the same date/group/pen, quantities are added
+ *    and the source row is removed (the consumption table is unique per key);
+ *    the merged row belongs to the newer of both uploads and their upload
+ *    snapshots are combined, so rollbacks keep working
+ * 2. Adds stock takes, ration components and order items onto target rows of
+ *    the same date / ration version / order, and keeps the target's budget
+ *    prices, supplier shares and analyses where both have one
+ * 3. Re-points everything else referencing the source: deliveries, stock takes,
+ *    price tiers, budget prices, supplier shares and contracts, analyses,
+ *    order items, ration components and aliases
+ * 4. Saves the source name as alias of the target, so future imports match
+ * 5. Deletes the source feed type
+ *
+ * Both feed types must belong to the farm and use the same unit (see haveSameUnit).
+ *
+ * @param farmId - Farm owning both feed types
+ * @param sourceId - Feed type to merge (will be deleted)
+ * @param targetId - Feed type to keep
+ */
+export async function mergeFeedTypes(
+  farmId: string,
+  sourceId: string,
+  targetId: string
+): Promise<MergeFeedTypesResult> {
+  if (sourceId === targetId) {
+    throw new Error('Ein Futtermittel kann nicht mit sich selbst zusammengeführt werden')
+  }
+
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('merge_feed_types', {
+    p_farm_id: farmId,
+    p_source_id: sourceId,
+    p_target_id: targetId
+  })
+
+  if (error) {
+    throw new Error(`Fehler beim Zusammenführen der Futtermittel: ${error.message}`)
+  }
+
+  return data as unknown as MergeFeedTypesResult
+}
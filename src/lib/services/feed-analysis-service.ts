@@ -0,0 +1,93 @@
+/**
+ * Feed Analysis Service
+ *
+ * Manages lab analyses of feed types (dry matter, energy, crude protein).
+ * An analysis applies from its sampling date until the next analysis.
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import type { Tables } from '@/lib/database.types'
+
+export type FeedAnalysisRecord = Tables<'feed_analyses'>
+
+export interface FeedAnalysisInput {
+  valid_from: string
+  dry_matter_percent: number | null
+  me_mj_per_kg_dm: number | null
+  nel_mj_per_kg_dm: number | null
+  crude_protein_g_per_kg_dm: number | null
+  lab_name: string | null
+  notes: string | null
+}
+
+/**
+ * Get the analyses of a feed type, newest first
+ */
+export async function getFeedAnalyses(farmId: string, feedTypeId: string): Promise<FeedAnalysisRecord[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('feed_analyses')
+    .select('*')
+    .eq('farm_id', farmId)
+    .eq('feed_type_id', feedTypeId)
+    .order('valid_from', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching feed analyses:', error)
+    throw error
+  }
+
+  return data || []
+}
+
+/**
+ * Create an analysis for a feed type
+ */
+export async function createFeedAnalysis(
+  farmId: string,
+  feedTypeId: string,
+  input: FeedAnalysisInput
+): Promise<FeedAnalysisRecord> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    throw new Error('User not authenticated')
+  }
+
+  const { data, error } = await supabase
+    .from('feed_analyses')
+    .insert({
+      farm_id: farmId,
+      feed_type_id: feedTypeId,
+      ...input,
+      created_by: user.id
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating feed analysis:', error)
+    throw error
+  }
+
+  return data
+}
+
+/**
+ * Delete a feed analysis
+ */
+export async function deleteFeedAnalysis(id: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('feed_analyses')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error deleting feed analysis:', error)
+    throw error
+  }
+}
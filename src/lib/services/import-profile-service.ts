@@ -0,0 +1,122 @@
+import { createClient } from '@/lib/supabase/client'
+import type { ColumnMapping } from '@/lib/import-adapters/column-mapping'
+
+export interface ImportProfile {
+  id: string
+  farm_id: string
+  name: string
+  header_signature: string
+  mapping: ColumnMapping
+  created_by: string
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * Get all import profiles for a farm
+ */
+export async function getImportProfiles(farmId: string): Promise<ImportProfile[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('import_profiles')
+    .select('*')
+    .eq('farm_id', farmId)
+    .order('name')
+
+  if (error) {
+    console.error('Error fetching import profiles:', error)
+    throw error
+  }
+
+  return data || []
+}
+
+/**
+ * Find the import profile matching a header signature
+ * Returns null if the farm has no profile for this file layout
+ */
+export async function findImportProfile(
+  farmId: string,
+  headerSignature: string
+): Promise<ImportProfile | null> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('import_profiles')
+    .select('*')
+    .eq('farm_id', farmId)
+    .eq('header_signature', headerSignature)
+    .order('updated_at', { ascending: false })
+    .limit(1)
+
+  if (error) {
+    console.error('Error fetching import profile:', error)
+    throw error
+  }
+
+  return data?.[0] || null
+}
+
+/**
+ * Save an import profile
+ * An existing profile for the same header signature is replaced
+ */
+export async function saveImportProfile(
+  farmId: string,
+  name: string,
+  headerSignature: string,
+  mapping: ColumnMapping
+): Promise<ImportProfile> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    throw new Error('User not authenticated')
+  }
+
+  const existing = await findImportProfile(farmId, headerSignature)
+
+  const { data, error } = existing
+    ? await supabase
+        .from('import_profiles')
+        .update({ name, mapping, updated_at: new Date().toISOString() })
+        .eq('id', existing.id)
+        .select()
+        .single()
+    : await supabase
+        .from('import_profiles')
+        .insert({
+          farm_id: farmId,
+          name,
+          header_signature: headerSignature,
+          mapping,
+          created_by: user.id
+        })
+        .select()
+        .single()
+
+  if (error) {
+    console.error('Error saving import profile:', error)
+    throw error
+  }
+
+  return data
+}
+
+/**
+ * Delete an import profile
+ */
+export async function deleteImportProfile(id: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('import_profiles')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error deleting import profile:', error)
+    throw error
+  }
+}
@@ -0,0 +1,124 @@
+import { createClient } from '@/lib/supabase/client'
+import type { ImportSource, ImportSourceType, IngestionRunResult } from '@/lib/import-pipeline/ingestion'
+
+export type { ImportSource, ImportSourceType, IngestionRunResult }
+
+/**
+ * Get all import sources (watched folders and mailboxes) of a farm
+ */
+export async function getImportSources(farmId: string): Promise<ImportSource[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('import_sources')
+    .select('*')
+    .eq('farm_id', farmId)
+    .order('name')
+
+  if (error) {
+    console.error('Error fetching import sources:', error)
+    throw error
+  }
+
+  return data || []
+}
+
+/**
+ * Checks that a source path stays inside the farm's ingestion directory
+ * Absolute paths and '..' segments are rejected.
+ */
+export function isValidSourcePath(sourcePath: string): boolean {
+  if (!sourcePath || sourcePath.startsWith('/') || sourcePath.startsWith('\\') || /^[a-zA-Z]:/.test(sourcePath)) {
+    return false
+  }
+  return !sourcePath.split(/[\\/]/).includes('..')
+}
+
+/**
+ * Create an import source
+ *
+ * @param path - Directory relative to the farm's ingestion directory (INGESTION_DIR/<farm_id>)
+ */
+export async function createImportSource(
+  farmId: string,
+  source: { name: string; type: ImportSourceType; path: string }
+): Promise<ImportSource> {
+  if (!isValidSourcePath(source.path)) {
+    throw new Error(`Ungültiger Pfad: ${source.path}`)
+  }
+
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    throw new Error('User not authenticated')
+  }
+
+  const { data, error } = await supabase
+    .from('import_sources')
+    .insert({
+      farm_id: farmId,
+      name: source.name,
+      type: source.type,
+      path: source.path,
+      created_by: user.id
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating import source:', error)
+    throw error
+  }
+
+  return data
+}
+
+/**
+ * Enable or pause automatic polling of an import source
+ */
+export async function setImportSourceEnabled(id: string, enabled: boolean): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('import_sources')
+    .update({ enabled, updated_at: new Date().toISOString() })
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error updating import source:', error)
+    throw error
+  }
+}
+
+/**
+ * Delete an import source
+ * Uploads it created are kept
+ */
+export async function deleteImportSource(id: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('import_sources')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error deleting import source:', error)
+    throw error
+  }
+}
+
+/**
+ * Poll an import source now instead of waiting for the next scheduled run
+ */
+export async function pollImportSource(id: string): Promise<IngestionRunResult> {
+  const response = await fetch(`/api/ingestion/sources/${id}`, { method: 'POST' })
+  const body = await response.json().catch(() => null)
+
+  if (!response.ok && !body?.sourceId) {
+    throw new Error(body?.error || `Abruf fehlgeschlagen (${response.status})`)
+  }
+
+  return body
+}
@@ -0,0 +1,179 @@
+import { createClient } from '@/lib/supabase/client'
+import type { Tables } from '@/lib/database.types'
+import type { DailyFeedConsumption } from '@/lib/utils/stock-ledger'
+import { loadDailyFeedConsumption } from '@/lib/utils/feed-costing'
+
+export type FeedDelivery = Tables<'feed_deliveries'> & {
+  suppliers?: { name: string } | null
+}
+export type FeedStockTake = Tables<'stock_takes'>
+
+export interface InventoryData {
+  feedTypes: Tables<'feed_types'>[]
+  deliveries: FeedDelivery[]
+  stockTakes: FeedStockTake[]
+  /** Consumption per feed type and day since stock is tracked */
+  consumption: DailyFeedConsumption[]
+}
+
+export interface DeliveryInput {
+  feedTypeId: string
+  supplierId: string | null
+  deliveryDate: string
+  quantity: number
+  pricePerUnit: number | null
+  deliveryNote: string | null
+  notes: string | null
+}
+
+/**
+ * Get everything needed for the stock ledger of a farm
+ *
+ * Consumption is only loaded from the first delivery or stock-take on.
+ */
+export async function getInventoryData(farmId: string): Promise<InventoryData> {
+  const supabase = createClient()
+
+  const [feedTypesResult, deliveriesResult, stockTakesResult] = await Promise.all([
+    supabase.from('feed_types').select('*').eq('farm_id', farmId).order('name'),
+    supabase
+      .from('feed_deliveries')
+      .select('*, suppliers(name)')
+      .eq('farm_id', farmId)
+      .order('delivery_date', { ascending: false }),
+    supabase
+      .from('stock_takes')
+      .select('*')
+      .eq('farm_id', farmId)
+      .order('date', { ascending: false })
+  ])
+
+  const error = feedTypesResult.error || deliveriesResult.error || stockTakesResult.error
+  if (error) {
+    throw new Error(`Fehler beim Laden des Lagerbestands: ${error.message}`)
+  }
+
+  const deliveries = (deliveriesResult.data || []) as FeedDelivery[]
+  const stockTakes = (stockTakesResult.data || []) as FeedStockTake[]
+  const firstDates = [...deliveries.map(d => d.delivery_date), ...stockTakes.map(s => s.date)].sort()
+
+  return {
+    feedTypes: feedTypesResult.data || [],
+    deliveries,
+    stockTakes,
+    consumption: firstDates.length > 0 ? await loadDailyFeedConsumption(supabase, farmId, firstDates[0]) : []
+  }
+}
+
+/**
+ * Record a feed delivery
+ */
+export async function createDelivery(farmId: string, input: DeliveryInput): Promise<void> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    throw new Error('User not authenticated')
+  }
+
+  const { error } = await supabase
+    .from('feed_deliveries')
+    .insert({
+      farm_id: farmId,
+      feed_type_id: input.feedTypeId,
+      supplier_id: input.supplierId,
+      delivery_date: input.deliveryDate,
+      quantity: input.quantity,
+      price_per_unit: input.pricePerUnit,
+      delivery_note: input.deliveryNote,
+      notes: input.notes,
+      created_by: user.id
+    })
+
+  if (error) {
+    console.error('Error creating delivery:', error)
+    throw error
+  }
+}
+
+/**
+ * Delete a feed delivery
+ */
+export async function deleteDelivery(id: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('feed_deliveries')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error deleting delivery:', error)
+    throw error
+  }
+}
+
+/**
+ * Record a stock-take; the counted quantity replaces the calculated stock
+ */
+export async function createStockTake(
+  farmId: string,
+  input: { feedTypeId: string; date: string; countedQuantity: number; notes: string | null }
+): Promise<void> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    throw new Error('User not authenticated')
+  }
+
+  const { error } = await supabase
+    .from('stock_takes')
+    .insert({
+      farm_id: farmId,
+      feed_type_id: input.feedTypeId,
+      date: input.date,
+      counted_quantity: input.countedQuantity,
+      notes: input.notes,
+      created_by: user.id
+    })
+
+  if (error) {
+    console.error('Error creating stock-take:', error)
+    throw error
+  }
+}
+
+/**
+ * Delete a stock-take
+ */
+export async function deleteStockTake(id: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('stock_takes')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error deleting stock-take:', error)
+    throw error
+  }
+}
+
+/**
+ * Set the stock at or below which a feed type should be reordered
+ */
+export async function setLowStockThreshold(feedTypeId: string, threshold: number | null): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('feed_types')
+    .update({ low_stock_threshold: threshold })
+    .eq('id', feedTypeId)
+
+  if (error) {
+    console.error('Error updating low stock threshold:', error)
+    throw error
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Mortality Service
+ *
+ * Manages the log of deaths, emergency slaughter and culls of a cycle and
+ * keeps the cycle's mortality rate in line with the log.
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import type { Tables } from '@/lib/database.types'
+import { calculateTotalAnimalsFromDetails } from '@/lib/utils/livestock-calculations'
+import { summarizeMortality, type MortalityEventType } from '@/lib/utils/mortality'
+
+export type MortalityEventRecord = Tables<'mortality_events'> & {
+  areas?: { name: string } | null
+  area_groups?: { name: string } | null
+}
+
+export interface MortalityEventInput {
+  event_date: string
+  event_type: MortalityEventType
+  count: number
+  area_id: string | null
+  area_group_id: string | null
+  cause: string | null
+  disposal_cost: number | null
+  notes: string | null
+}
+
+/**
+ * Get the loss events of a cycle, oldest first
+ */
+export async function getMortalityEvents(livestockCountId: string): Promise<MortalityEventRecord[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('mortality_events')
+    .select('*, areas(name), area_groups(name)')
+    .eq('livestock_count_id', livestockCountId)
+    .order('event_date')
+
+  if (error) {
+    console.error('Error fetching mortality events:', error)
+    throw error
+  }
+
+  return (data || []) as MortalityEventRecord[]
+}
+
+/**
+ * Log a loss event and update the cycle's mortality rate
+ */
+export async function createMortalityEvent(
+  farmId: string,
+  livestockCountId: string,
+  input: MortalityEventInput
+): Promise<void> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    throw new Error('User not authenticated')
+  }
+
+  const { error } = await supabase
+    .from('mortality_events')
+    .insert({
+      farm_id: farmId,
+      livestock_count_id: livestockCountId,
+      ...input,
+      created_by: user.id
+    })
+
+  if (error) {
+    console.error('Error creating mortality event:', error)
+    throw error
+  }
+
+  await syncMortalityRate(livestockCountId)
+}
+
+/**
+ * Delete a loss event and update the cycle's mortality rate
+ */
+export async function deleteMortalityEvent(id: string, livestockCountId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('mortality_events')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error deleting mortality event:', error)
+    throw error
+  }
+
+  await syncMortalityRate(livestockCountId)
+}
+
+/**
+ * Store the mortality rate derived from the log on the cycle
+ * The rate entered by hand is kept while no losses are logged.
+ */
+async function syncMortalityRate(livestockCountId: string): Promise<void> {
+  const supabase = createClient()
+
+  const { data: cycle, error } = await supabase
+    .from('livestock_counts')
+    .select('start_date, end_date, livestock_count_details(count, start_date, end_date), mortality_events(event_date, event_type, count, disposal_cost, area_id, area_group_id)')
+    .eq('id', livestockCountId)
+    .single()
+
+  if (error) {
+    throw new Error(`Fehler beim Laden des Durchgangs: ${error.message}`)
+  }
+
+  const events = (cycle.mortality_events || []) as Tables<'mortality_events'>[]
+  if (events.length === 0) return
+
+  const stockedAnimals = calculateTotalAnimalsFromDetails(
+    (cycle.livestock_count_details || []) as Pick<Tables<'livestock_count_details'>, 'count' | 'start_date' | 'end_date'>[],
+    cycle.start_date,
+    cycle.end_date
+  )
+  const { mortalityRate } = summarizeMortality(events, stockedAnimals)
+
+  const { error: updateError } = await supabase
+    .from('livestock_counts')
+    .update({ mortality_rate: Math.round(mortalityRate * 100) / 100 })
+    .eq('id', livestockCountId)
+
+  if (updateError) {
+    throw new Error(`Fehler beim Aktualisieren der Verlustrate: ${updateError.message}`)
+  }
+}
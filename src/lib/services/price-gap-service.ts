@@ -0,0 +1,102 @@
+import { createClient } from '@/lib/supabase/client'
+import { normalizeTierUnits } from '@/lib/utils/feed-calculations'
+import { loadDailyFeedConsumption } from '@/lib/utils/feed-costing'
+import type { DailyFeedConsumption } from '@/lib/utils/stock-ledger'
+import type { PriceFallbackPolicy, PriceGap } from '@/lib/utils/price-gaps'
+
+export interface PriceGapFeedType {
+  id: string
+  name: string
+  unit: string | null
+  price_fallback_policy: string | null
+  reference_price: number | null
+  bag_weight_kg: number | null
+  density_kg_per_l: number | null
+}
+
+export interface PriceGapData {
+  feedTypes: PriceGapFeedType[]
+  priceTiers: { feed_type_id: string; price_per_unit: number; valid_from: string; valid_to: string | null }[]
+  consumption: DailyFeedConsumption[]
+}
+
+/**
+ * Get feed types, price tiers and daily consumption for finding price gaps
+ * Tier prices are converted to the unit of their feed type
+ */
+export async function getPriceGapData(farmId: string, since: string): Promise<PriceGapData> {
+  const supabase = createClient()
+
+  const [feedTypesResult, priceTiersResult] = await Promise.all([
+    supabase
+      .from('feed_types')
+      .select('id, name, unit, price_fallback_policy, reference_price, bag_weight_kg, density_kg_per_l')
+      .eq('farm_id', farmId)
+      .order('name'),
+    supabase
+      .from('price_tiers')
+      .select('feed_type_id, price_per_unit, unit, valid_from, valid_to')
+      .eq('farm_id', farmId)
+  ])
+
+  const error = feedTypesResult.error || priceTiersResult.error
+  if (error) {
+    throw new Error(`Fehler beim Laden der Preisdaten: ${error.message}`)
+  }
+
+  return {
+    feedTypes: feedTypesResult.data || [],
+    priceTiers: normalizeTierUnits(priceTiersResult.data || [], feedTypesResult.data || []),
+    consumption: await loadDailyFeedConsumption(supabase, farmId, since)
+  }
+}
+
+/**
+ * Create a price tier covering a price gap
+ */
+export async function createPriceTierForGap(farmId: string, gap: PriceGap, pricePerUnit: number): Promise<void> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    throw new Error('User not authenticated')
+  }
+
+  const { error } = await supabase
+    .from('price_tiers')
+    .insert({
+      farm_id: farmId,
+      feed_type_id: gap.feedTypeId,
+      price_per_unit: pricePerUnit,
+      valid_from: gap.start,
+      valid_to: gap.end,
+      notes: 'Angelegt aus Preislücke',
+      created_by: user.id
+    })
+
+  if (error) {
+    console.error('Error creating price tier:', error)
+    throw error
+  }
+}
+
+/**
+ * Set how prices are estimated for days without a price tier
+ */
+export async function setPriceFallbackPolicy(
+  feedTypeId: string,
+  policy: PriceFallbackPolicy,
+  referencePrice: number | null
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('feed_types')
+    .update({ price_fallback_policy: policy, reference_price: referencePrice })
+    .eq('id', feedTypeId)
+
+  if (error) {
+    console.error('Error updating price fallback policy:', error)
+    throw error
+  }
+}
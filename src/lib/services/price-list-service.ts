@@ -0,0 +1,73 @@
+/**
+ * Price List Service
+ *
+ * Loads what a price list import is matched against and writes the planned
+ * price tiers, ending the tiers they supersede.
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import {
+  writePriceListImport,
+  type PriceListContext,
+  type PriceListImportEntry,
+  type PriceListImportResult
+} from '@/lib/utils/price-list-import'
+
+export type { PriceListImportResult }
+
+/**
+ * Get feed types, aliases, suppliers and price tiers of a farm for matching a price list
+ */
+export async function getPriceListContext(farmId: string): Promise<PriceListContext> {
+  const supabase = createClient()
+
+  const [feedTypesResult, aliasesResult, suppliersResult, priceTiersResult] = await Promise.all([
+    supabase
+      .from('feed_types')
+      .select('id, name, normalized_name, unit, bag_weight_kg, density_kg_per_l')
+      .eq('farm_id', farmId),
+    supabase
+      .from('feed_type_aliases')
+      .select('feed_type_id, alias')
+      .eq('farm_id', farmId),
+    supabase
+      .from('suppliers')
+      .select('id, name')
+      .eq('farm_id', farmId),
+    supabase
+      .from('price_tiers')
+      .select('id, feed_type_id, supplier_id, price_per_unit, valid_from, valid_to')
+      .eq('farm_id', farmId)
+  ])
+
+  const error = feedTypesResult.error || aliasesResult.error || suppliersResult.error || priceTiersResult.error
+  if (error) {
+    throw new Error(`Fehler beim Laden der Preisdaten: ${error.message}`)
+  }
+
+  return {
+    feedTypes: feedTypesResult.data || [],
+    aliases: aliasesResult.data || [],
+    suppliers: suppliersResult.data || [],
+    priceTiers: priceTiersResult.data || []
+  }
+}
+
+/**
+ * Import the rows of a price list without errors as price tiers
+ * Superseded tiers are ended first and reopened if the import fails
+ */
+export async function importPriceList(
+  farmId: string,
+  entries: PriceListImportEntry[],
+  notes: string | null = null
+): Promise<PriceListImportResult> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    throw new Error('User not authenticated')
+  }
+
+  return writePriceListImport(supabase, { farmId, userId: user.id }, entries, notes)
+}
@@ -0,0 +1,310 @@
+/**
+ * Purchase Order Service
+ *
+ * Loads what purchase order proposals are based on (stock, recent
+ * consumption, occupancy, suppliers) and manages the purchase orders.
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import type { Tables } from '@/lib/database.types'
+import { loadDailyFeedConsumption } from '@/lib/utils/feed-costing'
+import { buildStockLedger, calculateStockStatus, type DailyFeedConsumption } from '@/lib/utils/stock-ledger'
+import {
+  addDays,
+  type IncomingStock,
+  type OccupancyPeriod,
+  type ProposedOrder,
+  type PurchaseOrderStatus
+} from '@/lib/utils/purchase-orders'
+import { getInventoryData } from './inventory-service'
+
+export type PurchaseOrder = Tables<'purchase_orders'> & {
+  farms?: Pick<Tables<'farms'>, 'name' | 'contact_person_name' | 'contact_person_phone' | 'stall_location'> | null
+  suppliers?: Partial<Tables<'suppliers'>> & { name: string } | null
+  purchase_order_items: (Tables<'purchase_order_items'> & {
+    feed_types?: { name: string; unit: string | null } | null
+  })[]
+}
+
+interface CycleOccupancyRow {
+  end_date: string | null
+  livestock_count_details: { count: number; start_date: string; end_date: string | null }[]
+}
+
+interface SentOrderRow {
+  delivery_date: string | null
+  purchase_order_items: { feed_type_id: string; quantity: number }[]
+}
+
+export interface PurchasePlanningData {
+  feedTypes: Tables<'feed_types'>[]
+  suppliers: Tables<'suppliers'>[]
+  /** Current stock of feed types with tracked stock */
+  stock: Record<string, number>
+  /** Consumption per feed type and day of the history window */
+  consumption: DailyFeedConsumption[]
+  occupancy: OccupancyPeriod[]
+  /** Contract supplier, else supplier of the last delivery */
+  preferredSuppliers: Record<string, string | null>
+  /** Items of sent orders that have not arrived yet */
+  incoming: IncomingStock[]
+}
+
+/**
+ * Get everything needed to propose purchase orders
+ *
+ * @param historyDays - Days of consumption loaded for the forecast
+ */
+export async function getPurchasePlanningData(farmId: string, historyDays: number): Promise<PurchasePlanningData> {
+  const supabase = createClient()
+  const today = new Date().toISOString().split('T')[0]
+  const since = addDays(today, -historyDays + 1)
+
+  const [inventory, suppliersResult, cyclesResult, contractsResult, ordersResult] = await Promise.all([
+    getInventoryData(farmId),
+    supabase.from('suppliers').select('*').eq('farm_id', farmId).order('name'),
+    supabase
+      .from('livestock_counts')
+      .select('end_date, livestock_count_details(count, start_date, end_date)')
+      .eq('farm_id', farmId)
+      .or(`end_date.is.null,end_date.gte.${since}`),
+    supabase
+      .from('supplier_contracts')
+      .select('feed_type_id, supplier_id')
+      .eq('farm_id', farmId)
+      .lte('valid_from', today)
+      .gte('valid_to', today),
+    supabase
+      .from('purchase_orders')
+      .select('delivery_date, purchase_order_items(feed_type_id, quantity)')
+      .eq('farm_id', farmId)
+      .eq('status', 'sent')
+  ])
+
+  const error = suppliersResult.error || cyclesResult.error || contractsResult.error || ordersResult.error
+  if (error) {
+    throw new Error(`Fehler beim Laden der Bestelldaten: ${error.message}`)
+  }
+
+  const stock: Record<string, number> = {}
+  inventory.feedTypes.forEach((feedType: Tables<'feed_types'>) => {
+    const ledger = buildStockLedger(feedType.id, inventory, feedType)
+    if (ledger.length > 0) {
+      stock[feedType.id] = calculateStockStatus(feedType.id, ledger, { today }).currentStock
+    }
+  })
+
+  // Details without an end date stay until the cycle ends
+  const occupancy: OccupancyPeriod[] = ((cyclesResult.data || []) as unknown as CycleOccupancyRow[]).flatMap(cycle =>
+    (cycle.livestock_count_details || []).map(detail => ({
+      count: detail.count,
+      start_date: detail.start_date,
+      end_date: detail.end_date || cycle.end_date
+    }))
+  )
+
+  const preferredSuppliers: Record<string, string | null> = {}
+  // Deliveries are sorted newest first, so the first one per feed type is the latest
+  inventory.deliveries.forEach((delivery: Tables<'feed_deliveries'>) => {
+    if (!(delivery.feed_type_id in preferredSuppliers)) {
+      preferredSuppliers[delivery.feed_type_id] = delivery.supplier_id
+    }
+  })
+  ;(contractsResult.data || []).forEach((contract: { feed_type_id: string; supplier_id: string }) => {
+    preferredSuppliers[contract.feed_type_id] = contract.supplier_id
+  })
+
+  const incoming: IncomingStock[] = ((ordersResult.data || []) as unknown as SentOrderRow[]).flatMap(order =>
+    (order.purchase_order_items || []).map(item => ({
+      feed_type_id: item.feed_type_id,
+      date: order.delivery_date || today,
+      quantity: Number(item.quantity)
+    }))
+  )
+
+  return {
+    feedTypes: inventory.feedTypes,
+    suppliers: suppliersResult.data || [],
+    stock,
+    consumption: await loadDailyFeedConsumption(supabase, farmId, since),
+    occupancy,
+    preferredSuppliers,
+    incoming
+  }
+}
+
+/**
+ * Get the purchase orders of a farm, newest first
+ */
+export async function getPurchaseOrders(farmId: string): Promise<PurchaseOrder[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .select('*, farms(name, contact_person_name, contact_person_phone, stall_location), suppliers(name, email), purchase_order_items(*, feed_types(name, unit))')
+    .eq('farm_id', farmId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching purchase orders:', error)
+    throw error
+  }
+
+  return (data || []) as PurchaseOrder[]
+}
+
+/**
+ * Get a single purchase order
+ */
+export async function getPurchaseOrder(id: string): Promise<PurchaseOrder | null> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .select('*, farms(name, contact_person_name, contact_person_phone, stall_location), suppliers(*), purchase_order_items(*, feed_types(name, unit))')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching purchase order:', error)
+    throw error
+  }
+
+  return data as PurchaseOrder | null
+}
+
+/**
+ * Save proposed orders as draft purchase orders
+ */
+export async function createPurchaseOrders(
+  farmId: string,
+  proposals: ProposedOrder[],
+  feedTypeUnits: Record<string, string | null>
+): Promise<void> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    throw new Error('User not authenticated')
+  }
+
+  for (const proposal of proposals) {
+    const { data: order, error } = await supabase
+      .from('purchase_orders')
+      .insert({
+        farm_id: farmId,
+        supplier_id: proposal.supplierId,
+        status: 'draft',
+        order_by_date: proposal.orderBy,
+        delivery_date: proposal.deliveryBy,
+        created_by: user.id
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      throw new Error(`Fehler beim Anlegen der Bestellung: ${error.message}`)
+    }
+
+    const { error: itemsError } = await supabase
+      .from('purchase_order_items')
+      .insert(proposal.lines.map(line => ({
+        purchase_order_id: order.id,
+        feed_type_id: line.feedTypeId,
+        quantity: line.quantity,
+        unit: feedTypeUnits[line.feedTypeId] || null
+      })))
+
+    if (itemsError) {
+      throw new Error(`Fehler beim Anlegen der Bestellpositionen: ${itemsError.message}`)
+    }
+  }
+}
+
+/**
+ * Update supplier, dates, notes and item quantities of a purchase order
+ * Items with a quantity of 0 are removed.
+ */
+export async function updatePurchaseOrder(
+  id: string,
+  changes: {
+    supplierId: string | null
+    deliveryDate: string | null
+    notes: string | null
+    items: { id: string; quantity: number }[]
+  }
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('purchase_orders')
+    .update({
+      supplier_id: changes.supplierId,
+      delivery_date: changes.deliveryDate,
+      notes: changes.notes,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+
+  if (error) {
+    throw new Error(`Fehler beim Aktualisieren der Bestellung: ${error.message}`)
+  }
+
+  for (const item of changes.items) {
+    const { error: itemError } = item.quantity > 0
+      ? await supabase.from('purchase_order_items').update({ quantity: item.quantity }).eq('id', item.id)
+      : await supabase.from('purchase_order_items').delete().eq('id', item.id)
+
+    if (itemError) {
+      throw new Error(`Fehler beim Aktualisieren der Bestellposition: ${itemError.message}`)
+    }
+  }
+}
+
+/**
+ * Set the status of a purchase order; marking it sent records the time
+ */
+export async function setPurchaseOrderStatus(id: string, status: PurchaseOrderStatus): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('purchase_orders')
+    .update({
+      status,
+      ...(status === 'sent' ? { sent_at: new Date().toISOString() } : {}),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error updating purchase order status:', error)
+    throw error
+  }
+}
+
+/**
+ * Delete a purchase order with its items
+ */
+export async function deletePurchaseOrder(id: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error: itemsError } = await supabase
+    .from('purchase_order_items')
+    .delete()
+    .eq('purchase_order_id', id)
+
+  if (itemsError) {
+    console.error('Error deleting purchase order items:', itemsError)
+    throw itemsError
+  }
+
+  const { error } = await supabase
+    .from('purchase_orders')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error deleting purchase order:', error)
+    throw error
+  }
+}
@@ -0,0 +1,174 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import type { RationComponent, RationDefinition, RationShareType, RationVersion } from '@/lib/utils/ration-calculations'
+
+export type { RationDefinition, RationVersion, RationComponent, RationShareType }
+
+interface RationRow {
+  id: string
+  name: string
+  ration_versions: {
+    id: string
+    valid_from: string
+    share_type: string
+    ration_components: {
+      feed_type_id: string
+      amount: number
+      feed_types: { name: string } | null
+    }[]
+  }[]
+}
+
+/**
+ * Load all rations of a farm with their versions and components
+ *
+ * Takes the client as parameter so the server-side import can use it too.
+ */
+export async function loadRations(supabase: SupabaseClient, farmId: string): Promise<RationDefinition[]> {
+  const { data, error } = await supabase
+    .from('rations')
+    .select('id, name, ration_versions(id, valid_from, share_type, ration_components(feed_type_id, amount, feed_types(name)))')
+    .eq('farm_id', farmId)
+    .order('name')
+
+  if (error) {
+    throw new Error(`Fehler beim Laden der Rationen: ${error.message}`)
+  }
+
+  return ((data || []) as unknown as RationRow[]).map(ration => ({
+    id: ration.id,
+    name: ration.name,
+    versions: ration.ration_versions
+      .map(version => ({
+        id: version.id,
+        validFrom: version.valid_from,
+        shareType: version.share_type as RationShareType,
+        components: version.ration_components.map(component => ({
+          feedTypeId: component.feed_type_id,
+          feedTypeName: component.feed_types?.name || '',
+          amount: Number(component.amount)
+        }))
+      }))
+      .sort((a, b) => a.validFrom.localeCompare(b.validFrom))
+  }))
+}
+
+/**
+ * Get all rations of a farm
+ */
+export async function getRations(farmId: string): Promise<RationDefinition[]> {
+  return loadRations(createClient(), farmId)
+}
+
+/**
+ * Create a ration or rename an existing one
+ */
+export async function saveRation(farmId: string, name: string, id?: string): Promise<string> {
+  const supabase = createClient()
+
+  const { data, error } = id
+    ? await supabase
+        .from('rations')
+        .update({ name, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select('id')
+        .single()
+    : await supabase
+        .from('rations')
+        .insert({ farm_id: farmId, name })
+        .select('id')
+        .single()
+
+  if (error) {
+    console.error('Error saving ration:', error)
+    throw error
+  }
+
+  return data.id
+}
+
+/**
+ * Add a composition to a ration, valid from the given date
+ *
+ * An existing version with the same valid-from date is replaced.
+ */
+export async function saveRationVersion(
+  farmId: string,
+  rationId: string,
+  version: { validFrom: string; shareType: RationShareType; components: { feedTypeId: string; amount: number }[] }
+): Promise<void> {
+  const supabase = createClient()
+
+  const { error: deleteError } = await supabase
+    .from('ration_versions')
+    .delete()
+    .eq('ration_id', rationId)
+    .eq('valid_from', version.validFrom)
+
+  if (deleteError) {
+    throw new Error(`Fehler beim Ersetzen der Zusammensetzung: ${deleteError.message}`)
+  }
+
+  const { data: created, error } = await supabase
+    .from('ration_versions')
+    .insert({
+      ration_id: rationId,
+      farm_id: farmId,
+      valid_from: version.validFrom,
+      share_type: version.shareType
+    })
+    .select('id')
+    .single()
+
+  if (error || !created) {
+    throw new Error(`Fehler beim Speichern der Zusammensetzung: ${error?.message || 'Unbekannt'}`)
+  }
+
+  const { error: componentError } = await supabase
+    .from('ration_components')
+    .insert(version.components.map(component => ({
+      ration_version_id: created.id,
+      feed_type_id: component.feedTypeId,
+      amount: component.amount
+    })))
+
+  if (componentError) {
+    await supabase.from('ration_versions').delete().eq('id', created.id)
+    throw new Error(`Fehler beim Speichern der Komponenten: ${componentError.message}`)
+  }
+}
+
+/**
+ * Delete a ration version
+ */
+export async function deleteRationVersion(id: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('ration_versions')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error deleting ration version:', error)
+    throw error
+  }
+}
+
+/**
+ * Delete a ration with all its versions
+ * Consumption already imported stays as components
+ */
+export async function deleteRation(id: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('rations')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error deleting ration:', error)
+    throw error
+  }
+}
@@ -0,0 +1,67 @@
+import { createClient } from '@/lib/supabase/client'
+import type { FeedTypeSupplierShare } from '@/lib/utils/feed-calculations'
+
+export type { FeedTypeSupplierShare }
+
+/**
+ * Get the supplier shares of all feed types of a farm
+ */
+export async function getSupplierShares(farmId: string): Promise<FeedTypeSupplierShare[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('feed_type_suppliers')
+    .select('feed_type_id, supplier_id, share')
+    .eq('farm_id', farmId)
+
+  if (error) {
+    console.error('Error fetching supplier shares:', error)
+    throw error
+  }
+
+  return data || []
+}
+
+/**
+ * Replace the supplier shares of a feed type
+ *
+ * A single supplier makes it the feed type's default supplier; several
+ * split consumption without a supplier by their shares. Shares must add
+ * up to 100 %.
+ */
+export async function saveSupplierShares(
+  farmId: string,
+  feedTypeId: string,
+  shares: { supplierId: string; share: number }[]
+): Promise<void> {
+  const total = shares.reduce((sum, share) => sum + share.share, 0)
+  if (shares.length > 0 && Math.abs(total - 100) > 0.5) {
+    throw new Error(`Die Anteile ergeben ${total.toLocaleString('de-DE')} % statt 100 %`)
+  }
+
+  const supabase = createClient()
+
+  const { error: deleteError } = await supabase
+    .from('feed_type_suppliers')
+    .delete()
+    .eq('feed_type_id', feedTypeId)
+
+  if (deleteError) {
+    throw new Error(`Fehler beim Speichern der Lieferantenanteile: ${deleteError.message}`)
+  }
+
+  if (shares.length === 0) return
+
+  const { error } = await supabase
+    .from('feed_type_suppliers')
+    .insert(shares.map(share => ({
+      farm_id: farmId,
+      feed_type_id: feedTypeId,
+      supplier_id: share.supplierId,
+      share: share.share
+    })))
+
+  if (error) {
+    throw new Error(`Fehler beim Speichern der Lieferantenanteile: ${error.message}`)
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Upload Service
+ *
+ * Starts imports on the server, rolls back imports and re-processes stored
+ * files. Every consumption row written by an import carries its upload_id;
+ * values it overwrote are kept in consumption_upload_snapshots.
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import { isUploadProcessing, undoUploadWrites, type RollbackResult, type UploadResult } from '@/lib/upload-processor'
+import { readImportEvents, type ImportEvent } from '@/lib/import-pipeline/progress'
+import type { ImportIssue } from '@/lib/utils/import-validation'
+
+export type { RollbackResult }
+
+export interface StartUploadOptions {
+  /** Worksheet the data was read from, for workbook files */
+  sheetName?: string
+  /** Confirmed feed type per imported feed name */
+  feedTypeMapping?: Record<string, string>
+  /** Data rows to leave out, e.g. rows flagged in the validation report */
+  skipSourceRows?: number[]
+  /** Validation report shown before the upload, kept with the upload */
+  validationIssues?: ImportIssue[]
+  /** Break ration quantities down into their components (default true) */
+  explodeRations?: boolean
+}
+
+/**
+ * Reads an import route response until the import is done
+ */
+async function followImport(
+  response: Response,
+  onEvent?: (event: ImportEvent) => void
+): Promise<UploadResult> {
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.error || `Import fehlgeschlagen (${response.status})`)
+  }
+
+  const outcome: { result: UploadResult | null; error: string | null } = { result: null, error: null }
+
+  await readImportEvents(response, event => {
+    if (event.type === 'done') outcome.result = event.result
+    if (event.type === 'error') outcome.error = event.message
+    onEvent?.(event)
+  })
+
+  if (outcome.error) throw new Error(outcome.error)
+  if (!outcome.result) throw new Error('Verbindung zum Server unterbrochen. Der Import läuft im Hintergrund weiter.')
+  return outcome.result
+}
+
+/**
+ * Uploads a file and imports it on the server
+ *
+ * The file is stored with the upload, so it can be downloaded and
+ * re-processed later. The import keeps running if the page is closed.
+ *
+ * @param file - Original file as selected by the user
+ * @param farmId - Farm to import into
+ * @param options - Worksheet, confirmed feed type mapping and rows to skip
+ * @param onEvent - Receives progress events while the import runs
+ */
+export async function startUpload(
+  file: File,
+  farmId: string,
+  options: StartUploadOptions = {},
+  onEvent?: (event: ImportEvent) => void
+): Promise<UploadResult> {
+  const formData = new FormData()
+  formData.append('file', file)
+  formData.append('farmId', farmId)
+  if (options.sheetName) formData.append('sheetName', options.sheetName)
+  formData.append('feedTypeMapping', JSON.stringify(options.feedTypeMapping || {}))
+  formData.append('skipSourceRows', JSON.stringify(options.skipSourceRows || []))
+  formData.append('validationIssues', JSON.stringify(options.validationIssues || []))
+  formData.append('explodeRations', String(options.explodeRations ?? true))
+
+  const response = await fetch('/api/uploads', { method: 'POST', body: formData })
+  return followImport(response, onEvent)
+}
+
+/**
+ * Download link of an upload's stored source file
+ */
+export function getUploadFileUrl(uploadId: string): string {
+  return `/api/uploads/${uploadId}/file`
+}
+
+/**
+ * Rolls back an upload
+ *
+ * Rows that still belong to the upload are deleted, unless the upload had
+ * overwritten an existing row - then the previous values are restored.
+ * Uploads left 'processing' by a crashed import can be rolled back once
+ * they are stale.
+ *
+ * @param uploadId - Upload to roll back
+ */
+export async function rollbackUpload(uploadId: string): Promise<RollbackResult> {
+  const supabase = createClient()
+
+  const { data: upload, error: uploadError } = await supabase
+    .from('uploads')
+    .select('id, status, created_at')
+    .eq('id', uploadId)
+    .single()
+
+  if (uploadError || !upload) {
+    throw new Error('Upload nicht gefunden')
+  }
+  if (upload.status === 'rolled_back') {
+    throw new Error('Dieser Upload wurde bereits rückgängig gemacht')
+  }
+  if (isUploadProcessing(upload)) {
+    throw new Error('Dieser Upload wird gerade verarbeitet')
+  }
+
+  const result = await undoUploadWrites(supabase, uploadId)
+
+  const { error: statusError } = await supabase
+    .from('uploads')
+    .update({
+      status: 'rolled_back',
+      rolled_back_at: new Date().toISOString()
+    })
+    .eq('id', uploadId)
+
+  if (statusError) {
+    throw new Error(`Fehler beim Aktualisieren des Upload-Status: ${statusError.message}`)
+  }
+
+  return result
+}
+
+/**
+ * Re-processes a stored upload file
+ *
+ * The upload is rolled back first (if not already), then its stored file is
+ * imported again on the server as a new upload. Feed names are mapped
+ * through the farm's saved aliases.
+ *
+ * @param uploadId - Upload whose stored file should be imported again
+ * @param onEvent - Receives progress events while the import runs
+ */
+export async function reprocessUpload(
+  uploadId: string,
+  onEvent?: (event: ImportEvent) => void
+): Promise<UploadResult> {
+  const response = await fetch(`/api/uploads/${uploadId}/reprocess`, { method: 'POST' })
+  return followImport(response, onEvent)
+}
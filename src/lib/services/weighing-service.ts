@@ -0,0 +1,108 @@
+/**
+ * Weighing Service
+ *
+ * Manages the intermediate weighings of sample pens during a cycle.
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import type { Tables } from '@/lib/database.types'
+import type { GrowthTargetCurve } from '@/lib/utils/growth'
+
+export type WeighingRecord = Tables<'weighings'> & {
+  areas?: { name: string } | null
+  area_groups?: { name: string } | null
+}
+
+export interface WeighingInput {
+  weighing_date: string
+  area_id: string | null
+  area_group_id: string | null
+  sample_size: number
+  average_weight_kg: number
+  individual_weights: number[] | null
+  notes: string | null
+}
+
+/**
+ * Get the weighings of a cycle, oldest first
+ */
+export async function getWeighings(livestockCountId: string): Promise<WeighingRecord[]> {
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('weighings')
+    .select('*, areas(name), area_groups(name)')
+    .eq('livestock_count_id', livestockCountId)
+    .order('weighing_date')
+
+  if (error) {
+    console.error('Error fetching weighings:', error)
+    throw error
+  }
+
+  return (data || []) as WeighingRecord[]
+}
+
+/**
+ * Record a weighing
+ */
+export async function createWeighing(
+  farmId: string,
+  livestockCountId: string,
+  input: WeighingInput
+): Promise<void> {
+  const supabase = createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    throw new Error('User not authenticated')
+  }
+
+  const { error } = await supabase
+    .from('weighings')
+    .insert({
+      farm_id: farmId,
+      livestock_count_id: livestockCountId,
+      ...input,
+      created_by: user.id
+    })
+
+  if (error) {
+    console.error('Error creating weighing:', error)
+    throw error
+  }
+}
+
+/**
+ * Delete a weighing
+ */
+export async function deleteWeighing(id: string): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('weighings')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error deleting weighing:', error)
+    throw error
+  }
+}
+
+/**
+ * Set the breed target curve the growth of a cycle is compared with
+ */
+export async function setGrowthTargetCurve(livestockCountId: string, curve: GrowthTargetCurve): Promise<void> {
+  const supabase = createClient()
+
+  const { error } = await supabase
+    .from('livestock_counts')
+    .update({ growth_target_curve: curve })
+    .eq('id', livestockCountId)
+
+  if (error) {
+    console.error('Error updating growth target curve:', error)
+    throw error
+  }
+}
@@ -0,0 +1,18 @@
+import { createClient } from '@supabase/supabase-js'
+
+/**
+ * Supabase client with the service role key, bypassing row level security
+ *
+ * Only for server-side jobs without a user session (e.g. scheduled
+ * ingestion). Never import this from client components.
+ */
+export function createAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not configured')
+  }
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
@@ -1,207 +1,613 @@
+/**
+ * Consumption Import Processing
+ *
+ * Writes parsed consumption data into the database. Runs on the server
+ * (see the /api/uploads route) with the request's Supabase client; the
+ * change preview runs in the browser before the upload is confirmed.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createClient } from '@/lib/supabase/client'
 import type { ParsedData } from '@/lib/csv-parser'
+import type { ImportPhase } from '@/lib/import-pipeline/progress'
+import {
+  diffConsumption,
+  mergeDuplicateConsumption,
+  planUploadRollback,
+  type ConsumptionSnapshot
+} from '@/lib/utils/consumption-diff'
+import type { AreaDailyTotal } from '@/lib/utils/import-validation'
 
 export interface UploadResult {
   processed: number
   created: number
   updated: number
+  /** Rows already stored with the same quantity (not written again) */
+  unchanged: number
   errors: string[]
 }
 
-export async function uploadConsumptionData(data: ParsedData, farmId?: string): Promise<UploadResult> {
+export interface UploadOptions {
+  /**
+   * Confirmed feed type per imported feed name (from the upload preview).
+   * Names not listed are matched by exact name or created as new feed types.
+   */
+  feedTypeMapping?: Record<string, string>
+  /** Called as the import advances, e.g. to stream progress to the browser */
+  onProgress?: (phase: ImportPhase, processed: number, total: number) => void
+}
+
+export interface RollbackResult {
+  /** Rows created by the upload and deleted again */
+  deleted: number
+  /** Rows the upload had overwritten, restored to their previous values */
+  restored: number
+}
+
+const BATCH_SIZE = 1000
+
+export interface ConsumptionChange {
+  date: string
+  area: string
+  feedSystem: string
+  feedName: string
+  oldQuantity: number
+  newQuantity: number
+}
+
+export interface ConsumptionChangePreview {
+  created: number
+  unchanged: number
+  /** Rows whose stored quantity would be overwritten */
+  updated: ConsumptionChange[]
+}
+
+/**
+ * Computes what an import would change without writing anything
+ *
+ * Feed names are resolved like in processConsumptionData (confirmed mapping,
+ * then exact name); names without a feed type yet only produce new rows.
+ *
+ * @param data - Parsed import data
+ * @param farmId - Farm the data would be imported into
+ * @param options - Same feed type mapping as passed to processConsumptionData
+ */
+export async function previewConsumptionChanges(
+  data: ParsedData,
+  farmId: string,
+  options: Pick<UploadOptions, 'feedTypeMapping'> = {}
+): Promise<ConsumptionChangePreview> {
   const supabase = createClient()
-  
+
+  const { data: feedTypes, error } = await supabase
+    .from('feed_types')
+    .select('id, name')
+    .eq('farm_id', farmId)
+
+  if (error) {
+    throw new Error(`Fehler beim Laden der Futtermittel: ${error.message}`)
+  }
+
+  const feedTypeIdByName = new Map<string, string>(
+    (feedTypes || []).map((ft: { id: string; name: string }) => [ft.name, ft.id])
+  )
+  const farmFeedTypeIds = new Set(feedTypeIdByName.values())
+  const mappedFeedTypeId = (feedName: string) => {
+    const id = options.feedTypeMapping?.[feedName]
+    return id && farmFeedTypeIds.has(id) ? id : undefined
+  }
+  const resolveFeedTypeId = (feedName: string) =>
+    mappedFeedTypeId(feedName) || feedTypeIdByName.get(feedName) || `new:${feedName}`
+
+  const records = mergeDuplicateConsumption(data.rows.flatMap(row =>
+    Object.entries(row.feeds).map(([feedName, quantity]) => ({
+      date: row.date,
+      feed_type_id: resolveFeedTypeId(feedName),
+      group_name: row.area,
+      pen_name: row.feedSystem,
+      quantity,
+      feedName
+    }))
+  ))
+
+  const diff = diffConsumption(records, await loadExistingConsumption(supabase, farmId, data.dateRange))
+
+  return {
+    created: diff.created.length,
+    unchanged: diff.unchanged.length,
+    updated: diff.updated.map(({ record, existing }) => ({
+      date: record.date,
+      area: record.group_name,
+      feedSystem: record.pen_name,
+      feedName: record.feedName,
+      oldQuantity: Number(existing.quantity),
+      newQuantity: record.quantity
+    }))
+  }
+}
+
+/**
+ * Loads stored daily totals per area for validating an import
+ *
+ * Covers the import's date range and the given number of days before it,
+ * so each imported day can be compared with its trailing average.
+ *
+ * @param farmId - Farm the data would be imported into
+ * @param dateRange - Date range of the import
+ * @param trailingDays - Days before the range to include
+ */
+export async function loadAreaDailyTotals(
+  farmId: string,
+  dateRange: ParsedData['dateRange'],
+  trailingDays: number
+): Promise<AreaDailyTotal[]> {
+  const supabase = createClient()
+  const start = new Date(`${dateRange.start}T00:00:00Z`)
+  start.setUTCDate(start.getUTCDate() - trailingDays)
+
+  const rows = await loadExistingConsumption(supabase, farmId, {
+    start: start.toISOString().split('T')[0],
+    end: dateRange.end
+  })
+
+  const totals = new Map<string, AreaDailyTotal>()
+  rows.forEach(row => {
+    const key = `${row.group_name}|${row.date}`
+    const entry = totals.get(key) || { area: row.group_name || '', date: row.date, total: 0 }
+    entry.total += Number(row.quantity)
+    totals.set(key, entry)
+  })
+  return Array.from(totals.values())
+}
+
+/**
+ * Imports parsed consumption data for an existing upload record
+ *
+ * Feed types and areas are resolved in one query each and created if
+ * missing. The import is all-or-nothing for consumption rows: they are
+ * written with the write_consumption_upload database function in one
+ * transaction, so if writing fails nothing is written and the upload is
+ * marked 'failed'. Rows skipped for other reasons (e.g. a feed type that
+ * could not be created) mark the upload 'partial'.
+ * If the import dies before it updates the status, the upload stays
+ * 'processing' and can be rolled back once it is stale (see isUploadProcessing).
+ *
+ * @param supabase - Client of the user running the import
+ * @param data - Parsed import data
+ * @param target - Farm and upload record (status 'processing') to import into
+ * @param options - Feed type mapping and progress callback
+ */
+export async function processConsumptionData(
+  supabase: SupabaseClient,
+  data: ParsedData,
+  target: { farmId: string; uploadId: string },
+  options: UploadOptions = {}
+): Promise<UploadResult> {
+  const { farmId, uploadId } = target
   const result: UploadResult = {
     processed: 0,
     created: 0,
     updated: 0,
+    unchanged: 0,
     errors: []
   }
+  const reportProgress = options.onProgress || (() => {})
 
   try {
-    // Get current user
-    const { data: { user }, error: userError } = await supabase.auth.getUser()
-    if (userError || !user) {
-      throw new Error('Benutzer nicht angemeldet')
-    }
+    // Resolve feed types: confirmed mapping first, then exact name, otherwise create
+    reportProgress('feed_types', 0, data.feedTypes.length)
+    const feedTypeMap = new Map<string, string>()
+    const confirmedAliases: { alias: string; feedTypeId: string }[] = []
 
-    // Use provided farmId or get the first farm for the user
-    let activeFarmId = farmId
-    if (!activeFarmId) {
-      const { data: farms, error: farmError } = await supabase
-        .from('farms')
+    // Only feed types of this farm may be mapped; other ids fall back to name matching
+    const mappedIds = [...new Set(Object.values(options.feedTypeMapping || {}))]
+    const farmFeedTypeIds = new Set<string>()
+    if (mappedIds.length > 0) {
+      const { data: mappedFeedTypes, error: mappedError } = await supabase
+        .from('feed_types')
         .select('id')
-        .eq('owner_id', user.id)
-        .limit(1)
+        .eq('farm_id', farmId)
+        .in('id', mappedIds)
 
-      if (farmError || !farms || farms.length === 0) {
-        throw new Error('Kein Stall gefunden. Bitte erstellen Sie zuerst einen Stall.')
+      if (mappedError) {
+        throw new Error(`Fehler beim Laden der Futtermittel: ${mappedError.message}`)
       }
-      activeFarmId = farms[0].id
+      (mappedFeedTypes || []).forEach((ft: { id: string }) => farmFeedTypeIds.add(ft.id))
     }
 
-    // Create upload record
-    const { data: upload, error: uploadError } = await supabase
-      .from('uploads')
-      .insert({
-        farm_id: activeFarmId,
-        filename: `import_${new Date().toISOString().split('T')[0]}.csv`,
-        status: 'processing',
-        uploaded_by: user.id
-      })
-      .select()
-      .single()
+    for (const feedTypeName of data.feedTypes) {
+      const mappedFeedTypeId = options.feedTypeMapping?.[feedTypeName]
+      if (mappedFeedTypeId && !farmFeedTypeIds.has(mappedFeedTypeId)) {
+        result.errors.push(`Zuordnung für ${feedTypeName} verweist auf kein Futtermittel dieses Stalls`)
+      } else if (mappedFeedTypeId) {
+        feedTypeMap.set(feedTypeName, mappedFeedTypeId)
+        confirmedAliases.push({ alias: feedTypeName, feedTypeId: mappedFeedTypeId })
+      }
+    }
 
-    if (uploadError) {
-      throw new Error(`Fehler beim Erstellen des Upload-Datensatzes: ${uploadError.message}`)
+    const feedTypeIds = await findOrCreateByName(
+      supabase,
+      'feed_types',
+      farmId,
+      data.feedTypes.filter(name => !feedTypeMap.has(name)),
+      name => ({ farm_id: farmId, name, unit: 'kg' })
+    )
+    feedTypeIds.ids.forEach((id, name) => feedTypeMap.set(name, id))
+    if (feedTypeIds.error) {
+      result.errors.push(`Fehler beim Erstellen der Futtermittel: ${feedTypeIds.error}`)
     }
 
-    // Process each feed type first
-    const feedTypeMap = new Map<string, string>()
-    
-    for (const feedTypeName of data.feedTypes) {
-      try {
-        // Try to get existing feed type
-        let { data: existingFeedType } = await supabase
-          .from('feed_types')
-          .select('id')
-          .eq('farm_id', activeFarmId)
-          .eq('name', feedTypeName)
-          .single()
-
-        if (!existingFeedType) {
-          // Create new feed type
-          const { data: newFeedType, error: feedTypeError } = await supabase
-            .from('feed_types')
-            .insert({
-              farm_id: activeFarmId,
-              name: feedTypeName,
-              unit: 'kg'
-            })
-            .select()
-            .single()
-
-          if (feedTypeError) {
-            result.errors.push(`Fehler beim Erstellen des Futtermittels ${feedTypeName}: ${feedTypeError.message}`)
-            continue
-          }
-          existingFeedType = newFeedType
-        }
+    // Remember confirmed matches so the next import maps these names automatically
+    if (confirmedAliases.length > 0) {
+      const { error: aliasError } = await supabase
+        .from('feed_type_aliases')
+        .upsert(
+          confirmedAliases.map(({ alias, feedTypeId }) => ({
+            farm_id: farmId,
+            alias,
+            feed_type_id: feedTypeId
+          })),
+          { onConflict: 'farm_id,alias' }
+        )
 
-        feedTypeMap.set(feedTypeName, existingFeedType.id)
-      } catch (error) {
-        result.errors.push(`Fehler bei Futtermittel ${feedTypeName}: ${error instanceof Error ? error.message : 'Unbekannt'}`)
+      if (aliasError) {
+        result.errors.push(`Fehler beim Speichern der Futtermittel-Aliase: ${aliasError.message}`)
       }
     }
 
     // Process areas - automatically create areas found in the data
-    const areaMap = new Map<string, string>()
     const uniqueAreas = [...new Set(data.rows.map(row => row.area).filter(area => area && area.trim()))]
-    
-    for (const areaName of uniqueAreas) {
-      try {
-        // Try to get existing area
-        let { data: existingArea } = await supabase
-          .from('areas')
-          .select('id')
-          .eq('farm_id', activeFarmId)
-          .eq('name', areaName)
-          .single()
-
-        if (!existingArea) {
-          // Create new area
-          const { data: newArea, error: areaError } = await supabase
-            .from('areas')
-            .insert({
-              farm_id: activeFarmId,
-              name: areaName,
-              description: `Automatisch erstellt beim CSV-Import`
-            })
-            .select()
-            .single()
-
-          if (areaError) {
-            result.errors.push(`Fehler beim Erstellen des Bereichs ${areaName}: ${areaError.message}`)
-            continue
-          }
-          existingArea = newArea
-        }
+    reportProgress('areas', 0, uniqueAreas.length)
+
+    const areaIds = await findOrCreateByName(
+      supabase,
+      'areas',
+      farmId,
+      uniqueAreas,
+      name => ({ farm_id: farmId, name, description: 'Automatisch erstellt beim CSV-Import' })
+    )
+    if (areaIds.error) {
+      result.errors.push(`Fehler beim Erstellen der Bereiche: ${areaIds.error}`)
+    }
 
-        areaMap.set(areaName, existingArea.id)
-      } catch (error) {
-        result.errors.push(`Fehler bei Bereich ${areaName}: ${error instanceof Error ? error.message : 'Unbekannt'}`)
+    // Resolve supplier names from the file; suppliers are not created automatically
+    const uniqueSuppliers = [...new Set(data.rows.map(row => row.supplier).filter((name): name is string => !!name))]
+    const supplierIds = new Map<string, string>()
+
+    if (uniqueSuppliers.length > 0) {
+      const { data: suppliers, error: supplierError } = await supabase
+        .from('suppliers')
+        .select('id, name')
+        .eq('farm_id', farmId)
+
+      if (supplierError) {
+        result.errors.push(`Fehler beim Laden der Lieferanten: ${supplierError.message}`)
+      }
+      const supplierIdByName = new Map(
+        ((suppliers || []) as { id: string; name: string }[]).map(supplier => [supplier.name.trim().toLowerCase(), supplier.id])
+      )
+      for (const name of uniqueSuppliers) {
+        const supplierId = supplierIdByName.get(name.toLowerCase())
+        if (supplierId) {
+          supplierIds.set(name, supplierId)
+        } else if (!supplierError) {
+          result.errors.push(`Lieferant ${name} konnte nicht gefunden werden`)
+        }
       }
     }
 
-    // Process consumption data in batches for performance
-    const batchSize = 1000
-    const consumptionRecords: any[] = []
-    
     // Prepare all consumption records
+    const feedRecords: ConsumptionRecord[] = []
+    const missingFeedTypes = new Set<string>()
+
     for (const row of data.rows) {
-      try {
-        for (const [feedName, quantity] of Object.entries(row.feeds)) {
-          const feedTypeId = feedTypeMap.get(feedName)
-          if (!feedTypeId) {
-            result.errors.push(`Futtermittel ${feedName} konnte nicht gefunden werden`)
-            continue
-          }
-
-          const areaId = areaMap.get(row.area)
-          
-          consumptionRecords.push({
-            farm_id: activeFarmId,
-            feed_type_id: feedTypeId,
-            date: row.date,
-            quantity: quantity,
-            group_name: row.area,
-            pen_name: row.feedSystem,
-            area_id: areaId || null,
-            upload_id: upload.id
-          })
+      for (const [feedName, quantity] of Object.entries(row.feeds)) {
+        const feedTypeId = feedTypeMap.get(feedName)
+        if (!feedTypeId) {
+          missingFeedTypes.add(feedName)
+          continue
         }
-      } catch (error) {
-        result.errors.push(`Fehler bei Zeile ${row.date}: ${error instanceof Error ? error.message : 'Unbekannt'}`)
+
+        feedRecords.push({
+          farm_id: farmId,
+          feed_type_id: feedTypeId,
+          date: row.date,
+          quantity: quantity,
+          group_name: row.area,
+          pen_name: row.feedSystem,
+          area_id: areaIds.ids.get(row.area) || null,
+          supplier_id: (row.supplier && supplierIds.get(row.supplier)) || null,
+          upload_id: uploadId
+        })
       }
     }
+    missingFeedTypes.forEach(feedName => {
+      result.errors.push(`Futtermittel ${feedName} konnte nicht gefunden werden`)
+    })
 
-    // Insert records in batches using upsert
-    for (let i = 0; i < consumptionRecords.length; i += batchSize) {
-      const batch = consumptionRecords.slice(i, i + batchSize)
-
-      try {
-        const { error: upsertError, count } = await supabase
-          .from('consumption')
-          .upsert(batch, {
-            onConflict: 'farm_id,date,feed_type_id,group_name,pen_name',
-            count: 'exact'
-          })
-
-        if (upsertError) {
-          result.errors.push(`Batch-Fehler bei Datensätzen ${i + 1}-${i + batch.length}: ${upsertError.message}`)
-        } else {
-          result.created += count || batch.length
-          result.processed += batch.length
-        }
-      } catch (error) {
-        result.errors.push(`Batch-Verarbeitungsfehler: ${error instanceof Error ? error.message : 'Unbekannt'}`)
-      }
+    // The upsert cannot write one key twice in a statement
+    const consumptionRecords = mergeDuplicateConsumption(feedRecords)
+
+    reportProgress('comparing', 0, consumptionRecords.length)
+    const existingRows = await loadExistingConsumption(supabase, farmId, data.dateRange)
+    const diff = diffConsumption(consumptionRecords, existingRows)
+
+    // Remember the values this upload overwrites, so a rollback can restore them
+    const snapshots = diff.updated.map(({ existing }) => ({
+      farm_id: farmId,
+      consumption_id: existing.id,
+      previous_quantity: existing.quantity,
+      previous_upload_id: existing.upload_id,
+      previous_area_id: existing.area_id,
+      previous_supplier_id: existing.supplier_id
+    }))
+
+    // Snapshots and new and changed records are written in one transaction
+    const recordsToWrite = [...diff.created, ...diff.updated.map(({ record }) => record)]
+    reportProgress('writing', diff.unchanged.length, consumptionRecords.length)
+
+    const { error: writeError } = await supabase.rpc('write_consumption_upload', {
+      p_upload_id: uploadId,
+      p_snapshots: snapshots,
+      p_records: recordsToWrite
+    })
+
+    if (writeError) {
+      throw new Error(`Fehler beim Schreiben der Verbrauchsdaten: ${writeError.message}. Es wurden keine Datensätze geschrieben.`)
     }
 
-    // Update upload status
+    // Identical rows are not written again; they stay with the upload that created them
+    result.unchanged = diff.unchanged.length
+    result.created = diff.created.length
+    result.updated = diff.updated.length
+    result.processed = consumptionRecords.length
+    reportProgress('writing', result.processed, consumptionRecords.length)
     await supabase
       .from('uploads')
+      .update({ progress_processed: result.processed, progress_total: consumptionRecords.length })
+      .eq('id', uploadId)
+  } catch (error) {
+    result.errors.push(error instanceof Error ? error.message : 'Unbekannter Fehler')
+  }
+
+  // Update upload status
+  await supabase
+    .from('uploads')
+    .update({
+      status: getUploadStatus(result),
+      rows_imported: result.created,
+      rows_updated: result.updated,
+      rows_unchanged: result.unchanged,
+      error_message: result.errors.length > 0 ? result.errors.join('; ') : null
+    })
+    .eq('id', uploadId)
+
+  return result
+}
+
+/**
+ * Resets all consumption rows still belonging to an upload
+ *
+ * Rows the upload created are deleted; rows it overwrote get their
+ * previous quantity, area, supplier and upload_id back. Rows overwritten again by a
+ * later upload belong to that upload and are left untouched. If the previous
+ * values came from an upload rolled back before, the row is deleted instead.
+ */
+export async function undoUploadWrites(supabase: SupabaseClient, uploadId: string): Promise<RollbackResult> {
+  const result: RollbackResult = { deleted: 0, restored: 0 }
+  const rowIds: string[] = []
+  let from = 0
+
+  while (true) {
+    const { data, error } = await supabase
+      .from('consumption')
+      .select('id')
+      .eq('upload_id', uploadId)
+      .order('id')
+      .range(from, from + BATCH_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Fehler beim Laden der Verbrauchsdaten: ${error.message}`)
+    }
+    rowIds.push(...(data || []).map((row: { id: string }) => row.id))
+    if (!data || data.length < BATCH_SIZE) break
+    from += BATCH_SIZE
+  }
+
+  const { data: snapshots, error: snapshotError } = await supabase
+    .from('consumption_upload_snapshots')
+    .select('consumption_id, previous_quantity, previous_upload_id, previous_area_id, previous_supplier_id')
+    .eq('upload_id', uploadId)
+
+  if (snapshotError) {
+    throw new Error(`Fehler beim Laden der gesicherten Werte: ${snapshotError.message}`)
+  }
+
+  const previousUploadIds = Array.from(new Set(
+    ((snapshots || []) as ConsumptionSnapshot[])
+      .map(snapshot => snapshot.previous_upload_id)
+      .filter((id): id is string => id !== null)
+  ))
+  const rolledBackUploadIds = new Set<string>()
+
+  for (let i = 0; i < previousUploadIds.length; i += BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('uploads')
+      .select('id')
+      .in('id', previousUploadIds.slice(i, i + BATCH_SIZE))
+      .eq('status', 'rolled_back')
+
+    if (error) {
+      throw new Error(`Fehler beim Laden der Uploads: ${error.message}`)
+    }
+    (data || []).forEach((upload: { id: string }) => rolledBackUploadIds.add(upload.id))
+  }
+
+  const plan = planUploadRollback(rowIds, (snapshots || []) as ConsumptionSnapshot[], rolledBackUploadIds)
+
+  for (const snapshot of plan.restore) {
+    const { error } = await supabase
+      .from('consumption')
       .update({
-        status: result.errors.length > 0 ? 'completed' : 'completed',
-        rows_imported: result.created,
-        rows_updated: result.updated,
-        error_message: result.errors.length > 0 ? result.errors.join('; ') : null
+        quantity: snapshot.previous_quantity,
+        upload_id: snapshot.previous_upload_id,
+        area_id: snapshot.previous_area_id,
+        supplier_id: snapshot.previous_supplier_id
       })
-      .eq('id', upload.id)
+      .eq('id', snapshot.consumption_id)
 
-  } catch (error) {
-    result.errors.push(error instanceof Error ? error.message : 'Unbekannter Fehler')
+    if (error) {
+      throw new Error(`Fehler beim Wiederherstellen der Verbrauchsdaten: ${error.message}`)
+    }
+    result.restored++
   }
 
+  for (let i = 0; i < plan.deleteIds.length; i += BATCH_SIZE) {
+    const batch = plan.deleteIds.slice(i, i + BATCH_SIZE)
+    const { error } = await supabase
+      .from('consumption')
+      .delete()
+      .in('id', batch)
+
+    if (error) {
+      throw new Error(`Fehler beim Löschen der Verbrauchsdaten: ${error.message}`)
+    }
+    result.deleted += batch.length
+  }
+
+  await supabase
+    .from('consumption_upload_snapshots')
+    .delete()
+    .eq('upload_id', uploadId)
+
   return result
-}
\ No newline at end of file
+}
+
+interface ConsumptionRecord {
+  farm_id: string
+  feed_type_id: string
+  date: string
+  quantity: number
+  group_name: string
+  pen_name: string
+  area_id: string | null
+  supplier_id: string | null
+  upload_id: string
+}
+
+interface ExistingConsumptionRow {
+  id: string
+  date: string
+  feed_type_id: string
+  group_name: string | null
+  pen_name: string | null
+  quantity: number
+  upload_id: string | null
+  area_id: string | null
+  supplier_id: string | null
+}
+
+/**
+ * Upload status from the result: 'partial' if some rows were imported
+ * despite errors, 'failed' if none were
+ */
+export function getUploadStatus(result: UploadResult): 'completed' | 'partial' | 'failed' {
+  if (result.errors.length === 0) return 'completed'
+  return result.created + result.updated + result.unchanged > 0 ? 'partial' : 'failed'
+}
+
+/** Minutes after which an upload still 'processing' counts as abandoned */
+export const STALE_PROCESSING_MINUTES = 30
+
+/**
+ * Whether an import is still running into an upload
+ *
+ * An import that crashed leaves its upload 'processing'. Once that is older
+ * than STALE_PROCESSING_MINUTES, the upload can be rolled back or processed
+ * again; the rollback resets whatever the import had written.
+ */
+export function isUploadProcessing(
+  upload: { status: string; created_at: string | null },
+  now: Date = new Date()
+): boolean {
+  if (upload.status !== 'processing' || !upload.created_at) return false
+  return now.getTime() - Date.parse(upload.created_at) < STALE_PROCESSING_MINUTES * 60 * 1000
+}
+
+/**
+ * Looks up rows by name and creates the missing ones, one query each
+ */
+async function findOrCreateByName(
+  supabase: SupabaseClient,
+  table: 'feed_types' | 'areas',
+  farmId: string,
+  names: string[],
+  toInsert: (name: string) => Record<string, unknown>
+): Promise<{ ids: Map<string, string>; error: string | null }> {
+  const ids = new Map<string, string>()
+  if (names.length === 0) return { ids, error: null }
+
+  const { data: existing, error: selectError } = await supabase
+    .from(table)
+    .select('id, name')
+    .eq('farm_id', farmId)
+    .in('name', names)
+
+  if (selectError) {
+    return { ids, error: selectError.message }
+  }
+  for (const row of (existing || []) as { id: string; name: string }[]) {
+    ids.set(row.name, row.id)
+  }
+
+  const missing = names.filter(name => !ids.has(name))
+  if (missing.length === 0) return { ids, error: null }
+
+  const { data: created, error: insertError } = await supabase
+    .from(table)
+    .insert(missing.map(toInsert))
+    .select('id, name')
+
+  if (insertError) {
+    return { ids, error: insertError.message }
+  }
+  for (const row of (created || []) as { id: string; name: string }[]) {
+    ids.set(row.name, row.id)
+  }
+
+  return { ids, error: null }
+}
+
+/**
+ * Loads consumption already stored for the date range of the import
+ */
+async function loadExistingConsumption(
+  supabase: SupabaseClient,
+  farmId: string,
+  dateRange: ParsedData['dateRange']
+): Promise<ExistingConsumptionRow[]> {
+  const rows: ExistingConsumptionRow[] = []
+  const pageSize = 1000
+  let from = 0
+
+  while (true) {
+    const { data: page, error } = await supabase
+      .from('consumption')
+      .select('id, date, feed_type_id, group_name, pen_name, quantity, upload_id, area_id, supplier_id')
+      .eq('farm_id', farmId)
+      .gte('date', dateRange.start)
+      .lte('date', dateRange.end)
+      .order('id')
+      .range(from, from + pageSize - 1)
+
+    if (error) {
+      throw new Error(`Fehler beim Laden vorhandener Verbrauchsdaten: ${error.message}`)
+    }
+
+    rows.push(...((page || []) as ExistingConsumptionRow[]))
+    if (!page || page.length < pageSize) break
+    from += pageSize
+  }
+
+  return rows
+}
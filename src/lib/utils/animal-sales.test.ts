@@ -0,0 +1,108 @@
+/**
+ * Unit Tests for Animal Sales
+ *
+ * These tests ensure sale batches are priced by their price basis including
+ * bonuses and deductions, and weights, dressing percentage and the
+ * departures of each sale are derived from the batches.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  calculateSaleRevenue,
+  summarizeSales,
+  salesAsDepartures,
+  type AnimalSale
+} from './animal-sales'
+import { assignDeparturesToDetails } from './livestock-calculations'
+
+// ============================================================================
+// TEST DATA FIXTURES
+// ============================================================================
+
+const sales: AnimalSale[] = [
+  {
+    sale_date: '2025-09-20',
+    count: 40,
+    live_weight_per_animal_kg: 120,
+    carcass_weight_per_animal_kg: 95,
+    price_basis: 'per_kg_carcass',
+    price: 2,
+    bonus_total: 100,
+    area_id: 'area-1',
+  },
+  {
+    sale_date: '2025-09-30',
+    count: 60,
+    live_weight_per_animal_kg: 125,
+    carcass_weight_per_animal_kg: 100,
+    price_basis: 'per_kg_carcass',
+    price: 2,
+    bonus_total: -50,
+    area_id: 'area-2',
+  },
+  { sale_date: '2025-09-30', count: 10, price_basis: 'per_head', price: 180 },
+]
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('calculateSaleRevenue', () => {
+  it('should price the batch by its price basis and add the bonus', () => {
+    expect(calculateSaleRevenue(sales[0])).toBe(7700)
+    expect(calculateSaleRevenue(sales[1])).toBe(11950)
+    expect(calculateSaleRevenue(sales[2])).toBe(1800)
+    expect(calculateSaleRevenue({ ...sales[0], price_basis: 'per_kg_live', bonus_total: null })).toBe(9600)
+  })
+
+  it('should only count the bonus without the weight for the price', () => {
+    expect(calculateSaleRevenue({ ...sales[0], carcass_weight_per_animal_kg: null })).toBe(100)
+  })
+})
+
+describe('summarizeSales', () => {
+  it('should sum the batches and average the weights over the animals weighed', () => {
+    const summary = summarizeSales(sales)
+
+    expect(summary.soldAnimals).toBe(110)
+    expect(summary.revenue).toBe(21450)
+    expect(summary.revenuePerAnimal).toBe(195)
+    // (40 * 120 + 60 * 125) / 100 and (40 * 95 + 60 * 100) / 100
+    expect(summary.averageLiveWeight).toBe(123)
+    expect(summary.averageCarcassWeight).toBe(98)
+    expect(summary.dressingPercentage).toBeCloseTo(79.675, 3)
+    // 19650 € for 9800 kg carcass weight
+    expect(summary.pricePerKgCarcass).toBeCloseTo(2.0051, 4)
+    expect(summary.lastSaleDate).toBe('2025-09-30')
+  })
+
+  it('should report no weights without sales', () => {
+    const summary = summarizeSales([])
+
+    expect(summary.soldAnimals).toBe(0)
+    expect(summary.averageLiveWeight).toBeNull()
+    expect(summary.dressingPercentage).toBeNull()
+    expect(summary.lastSaleDate).toBeNull()
+  })
+})
+
+describe('salesAsDepartures', () => {
+  it('should leave the detail periods of the area or group of each sale', () => {
+    expect(salesAsDepartures(sales)).toEqual([
+      { date: '2025-09-20', count: 40, area_id: 'area-1', area_group_id: undefined },
+      { date: '2025-09-30', count: 60, area_id: 'area-2', area_group_id: undefined },
+      { date: '2025-09-30', count: 10, area_id: undefined, area_group_id: undefined },
+    ])
+  })
+
+  it('should take the sold animals from their own area when areas run in parallel', () => {
+    const details = [
+      { count: 100, start_date: '2025-09-01', end_date: '2025-10-10', area_id: 'area-1' },
+      { count: 100, start_date: '2025-09-01', end_date: '2025-10-10', area_id: 'area-2' },
+    ]
+
+    const assigned = assignDeparturesToDetails(details, salesAsDepartures(sales.slice(0, 2)), '2025-09-01', '2025-10-10')
+
+    expect(assigned.map(detail => detail.count)).toEqual([40, 60])
+  })
+})
@@ -0,0 +1,121 @@
+/**
+ * Animal Sales
+ *
+ * Summarizes the sales of a cycle sold in several batches (e.g. pigs
+ * marketed from the same pen over several weeks): revenue by price basis
+ * including classification bonuses, average live and carcass weights and the
+ * dressing percentage. Sold animals leave the detail periods as departures.
+ */
+
+import type { AnimalDeparture } from './livestock-calculations'
+
+export type SalePriceBasis = 'per_kg_carcass' | 'per_kg_live' | 'per_head'
+
+export const SALE_PRICE_BASIS_LABELS: Record<SalePriceBasis, string> = {
+  per_kg_carcass: '€/kg Schlachtgewicht',
+  per_kg_live: '€/kg Lebendgewicht',
+  per_head: '€/Tier',
+}
+
+export const SALE_PRICE_BASES = Object.keys(SALE_PRICE_BASIS_LABELS) as SalePriceBasis[]
+
+export interface AnimalSale {
+  sale_date: string
+  count: number
+  live_weight_per_animal_kg?: number | null
+  carcass_weight_per_animal_kg?: number | null
+  price_basis: string
+  price: number
+  /** Classification or lean-meat bonus for the batch, negative for deductions */
+  bonus_total?: number | null
+  area_id?: string | null
+  area_group_id?: string | null
+}
+
+export interface SalesSummary {
+  soldAnimals: number
+  revenue: number
+  /** Averages over the animals of batches with the weight, null without any */
+  averageLiveWeight: number | null
+  averageCarcassWeight: number | null
+  /** Carcass weight in percent of live weight, from batches with both weights */
+  dressingPercentage: number | null
+  revenuePerAnimal: number
+  /** Revenue per kg carcass weight, from batches with carcass weight */
+  pricePerKgCarcass: number | null
+  lastSaleDate: string | null
+}
+
+/**
+ * Calculates the revenue of a sale batch
+ * Weight-based prices without the matching weight yield only the bonus.
+ */
+export function calculateSaleRevenue(sale: AnimalSale): number {
+  const price = Number(sale.price) || 0
+  let base = 0
+
+  switch (sale.price_basis as SalePriceBasis) {
+    case 'per_head':
+      base = sale.count * price
+      break
+    case 'per_kg_live':
+      base = sale.count * (Number(sale.live_weight_per_animal_kg) || 0) * price
+      break
+    case 'per_kg_carcass':
+      base = sale.count * (Number(sale.carcass_weight_per_animal_kg) || 0) * price
+      break
+  }
+
+  return base + (Number(sale.bonus_total) || 0)
+}
+
+const weightedAverage = (sales: AnimalSale[], weight: (sale: AnimalSale) => number | null | undefined) => {
+  const withWeight = sales.filter(sale => weight(sale))
+  const animals = withWeight.reduce((sum, sale) => sum + sale.count, 0)
+  return animals > 0
+    ? withWeight.reduce((sum, sale) => sum + Number(weight(sale)) * sale.count, 0) / animals
+    : null
+}
+
+/**
+ * Summarizes the sale batches of a cycle
+ */
+export function summarizeSales(sales: AnimalSale[]): SalesSummary {
+  const soldAnimals = sales.reduce((sum, sale) => sum + sale.count, 0)
+  const revenue = sales.reduce((sum, sale) => sum + calculateSaleRevenue(sale), 0)
+
+  const withBothWeights = sales.filter(sale => sale.live_weight_per_animal_kg && sale.carcass_weight_per_animal_kg)
+  const liveWeight = withBothWeights.reduce((sum, sale) => sum + Number(sale.live_weight_per_animal_kg) * sale.count, 0)
+  const carcassWeight = withBothWeights.reduce((sum, sale) => sum + Number(sale.carcass_weight_per_animal_kg) * sale.count, 0)
+
+  const withCarcassWeight = sales.filter(sale => sale.carcass_weight_per_animal_kg)
+  const totalCarcassWeight = withCarcassWeight.reduce(
+    (sum, sale) => sum + Number(sale.carcass_weight_per_animal_kg) * sale.count, 0
+  )
+  const carcassRevenue = withCarcassWeight.reduce((sum, sale) => sum + calculateSaleRevenue(sale), 0)
+
+  return {
+    soldAnimals,
+    revenue,
+    averageLiveWeight: weightedAverage(sales, sale => sale.live_weight_per_animal_kg),
+    averageCarcassWeight: weightedAverage(sales, sale => sale.carcass_weight_per_animal_kg),
+    dressingPercentage: liveWeight > 0 ? (carcassWeight / liveWeight) * 100 : null,
+    revenuePerAnimal: soldAnimals > 0 ? revenue / soldAnimals : 0,
+    pricePerKgCarcass: totalCarcassWeight > 0 ? carcassRevenue / totalCarcassWeight : null,
+    lastSaleDate: sales.reduce<string | null>(
+      (latest, sale) => (!latest || sale.sale_date > latest ? sale.sale_date : latest), null
+    ),
+  }
+}
+
+/**
+ * Maps sale batches to departures from the detail periods of their area or group
+ */
+export function salesAsDepartures(sales: AnimalSale[]): AnimalDeparture[] {
+  return sales.map(sale => ({
+    date: sale.sale_date,
+    count: sale.count,
+    area_id: sale.area_id,
+    area_group_id: sale.area_group_id,
+  }))
+}
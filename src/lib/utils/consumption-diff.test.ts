@@ -0,0 +1,112 @@
+/**
+ * Unit Tests for Consumption Diff
+ *
+ * These tests ensure imported rows are correctly classified as new,
+ * overwriting or identical before anything is written, and that rolling
+ * back an upload never brings back data of an upload rolled back before.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { consumptionKey, diffConsumption, mergeDuplicateConsumption, planUploadRollback } from './consumption-diff'
+
+// ============================================================================
+// TEST DATA FIXTURES
+// ============================================================================
+
+const existingRows = [
+  { id: 'c1', date: '2024-01-01', feed_type_id: 'ft-1', group_name: 'Abteil 1', pen_name: 'Ventil 1', quantity: 100 },
+  { id: 'c2', date: '2024-01-01', feed_type_id: 'ft-2', group_name: 'Abteil 1', pen_name: null, quantity: 50 },
+]
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('consumptionKey', () => {
+  it('should treat null and empty group/pen names alike', () => {
+    expect(consumptionKey({ date: '2024-01-01', feed_type_id: 'ft-2', group_name: 'Abteil 1', pen_name: null }))
+      .toBe(consumptionKey({ date: '2024-01-01', feed_type_id: 'ft-2', group_name: 'Abteil 1', pen_name: '' }))
+  })
+})
+
+describe('mergeDuplicateConsumption', () => {
+  it('should sum records sharing a key before they are compared', () => {
+    const records = [
+      { date: '2024-01-01', feed_type_id: 'ft-1', group_name: 'Abteil 1', pen_name: 'Ventil 1', quantity: 60 },
+      { date: '2024-01-01', feed_type_id: 'ft-2', group_name: 'Abteil 1', pen_name: null, quantity: 50 },
+      { date: '2024-01-01', feed_type_id: 'ft-1', group_name: 'Abteil 1', pen_name: 'Ventil 1', quantity: 40 },
+    ]
+
+    const merged = mergeDuplicateConsumption(records)
+
+    expect(merged).toHaveLength(2)
+    expect(merged[0]).toEqual({ ...records[0], quantity: 100 })
+    expect(merged[1]).toBe(records[1])
+    // The summed record matches the stored row, so nothing is written twice
+    expect(diffConsumption(merged, existingRows).unchanged).toHaveLength(2)
+  })
+})
+
+describe('diffConsumption', () => {
+  it('should classify new, changed and identical rows', () => {
+    const records = [
+      { date: '2024-01-01', feed_type_id: 'ft-1', group_name: 'Abteil 1', pen_name: 'Ventil 1', quantity: 120 },
+      { date: '2024-01-01', feed_type_id: 'ft-2', group_name: 'Abteil 1', pen_name: null, quantity: 50 },
+      { date: '2024-01-02', feed_type_id: 'ft-1', group_name: 'Abteil 1', pen_name: 'Ventil 1', quantity: 80 },
+    ]
+
+    const diff = diffConsumption(records, existingRows)
+
+    expect(diff.created).toEqual([records[2]])
+    expect(diff.updated).toHaveLength(1)
+    expect(diff.updated[0].existing.id).toBe('c1')
+    expect(diff.updated[0].record.quantity).toBe(120)
+    expect(diff.unchanged).toHaveLength(1)
+    expect(diff.unchanged[0].existing.id).toBe('c2')
+  })
+
+  it('should ignore float rounding differences', () => {
+    const diff = diffConsumption(
+      [{ date: '2024-01-01', feed_type_id: 'ft-1', group_name: 'Abteil 1', pen_name: 'Ventil 1', quantity: 100.0000001 }],
+      existingRows
+    )
+
+    expect(diff.unchanged).toHaveLength(1)
+    expect(diff.updated).toHaveLength(0)
+  })
+
+  it('should update rows whose supplier changed', () => {
+    const record = { date: '2024-01-01', feed_type_id: 'ft-2', group_name: 'Abteil 1', pen_name: null, quantity: 50 }
+
+    expect(diffConsumption([{ ...record, supplier_id: 'sup-1' }], existingRows).updated).toHaveLength(1)
+    expect(diffConsumption([{ ...record, supplier_id: null }], existingRows).unchanged).toHaveLength(1)
+  })
+
+  it('should treat everything as new without stored rows', () => {
+    const records = [{ date: '2024-01-01', feed_type_id: 'ft-1', group_name: 'A', pen_name: 'B', quantity: 1 }]
+
+    expect(diffConsumption(records, []).created).toEqual(records)
+  })
+})
+
+describe('planUploadRollback', () => {
+  // Upload A created c1 and c2, upload B then overwrote c1 and created c3
+  const snapshotsOfB = [
+    { consumption_id: 'c1', previous_quantity: 100, previous_upload_id: 'upload-a', previous_area_id: null, previous_supplier_id: null },
+  ]
+
+  it('should restore overwritten rows and delete created ones', () => {
+    const plan = planUploadRollback(['c1', 'c3'], snapshotsOfB, new Set())
+
+    expect(plan.restore.map(snapshot => snapshot.consumption_id)).toEqual(['c1'])
+    expect(plan.deleteIds).toEqual(['c3'])
+  })
+
+  it('should delete rows whose previous values belong to an upload rolled back before', () => {
+    // Rolling back A first left c1 to B, as B had overwritten it
+    const plan = planUploadRollback(['c1', 'c3'], snapshotsOfB, new Set(['upload-a']))
+
+    expect(plan.restore).toEqual([])
+    expect(plan.deleteIds).toEqual(['c1', 'c3'])
+  })
+})
@@ -0,0 +1,147 @@
+/**
+ * Consumption Diff Utilities
+ *
+ * Compares imported consumption records with rows already stored, so an
+ * import can tell new rows from overwritten and identical ones, and decides
+ * how rolling back an import resets the rows it wrote.
+ */
+
+export interface ConsumptionKeyFields {
+  date: string
+  feed_type_id: string
+  group_name: string | null
+  pen_name: string | null
+}
+
+export interface ConsumptionQuantity extends ConsumptionKeyFields {
+  quantity: number
+  /** Compared only when the imported record sets it */
+  supplier_id?: string | null
+}
+
+export interface ConsumptionDiff<TRecord, TExisting> {
+  /** Records without a stored row */
+  created: TRecord[]
+  /** Records that would overwrite a different stored quantity or supplier */
+  updated: { record: TRecord; existing: TExisting }[]
+  /** Records whose stored quantity is already the same */
+  unchanged: { record: TRecord; existing: TExisting }[]
+}
+
+/** Values a row had before an upload overwrote it (consumption_upload_snapshots) */
+export interface ConsumptionSnapshot {
+  consumption_id: string
+  previous_quantity: number
+  previous_upload_id: string | null
+  previous_area_id: string | null
+  previous_supplier_id: string | null
+}
+
+export interface UploadRollbackPlan<TSnapshot> {
+  /** Snapshots of the rows to reset to their previous values */
+  restore: TSnapshot[]
+  /** Rows to delete */
+  deleteIds: string[]
+}
+
+/** Quantities closer than this are treated as identical (float rounding) */
+const QUANTITY_TOLERANCE = 1e-6
+
+/**
+ * Key of the consumption upsert constraint (farm_id,date,feed_type_id,group_name,pen_name)
+ * The farm is implied, as all rows compared belong to one farm.
+ */
+export function consumptionKey(row: ConsumptionKeyFields): string {
+  return `${row.date}|${row.feed_type_id}|${row.group_name ?? ''}|${row.pen_name ?? ''}`
+}
+
+/**
+ * Sums records that share a consumption key
+ *
+ * An import can carry the same key several times, e.g. two columns mapped to
+ * one feed type or a row repeated in the file. The upsert may touch each key
+ * only once per statement, so duplicates are combined; the first record keeps
+ * its other fields.
+ *
+ * @param records - Records about to be imported
+ * @returns One record per key, in order of first appearance
+ */
+export function mergeDuplicateConsumption<TRecord extends ConsumptionQuantity>(records: TRecord[]): TRecord[] {
+  const byKey = new Map<string, TRecord>()
+
+  for (const record of records) {
+    const key = consumptionKey(record)
+    const merged = byKey.get(key)
+    if (merged) {
+      byKey.set(key, { ...merged, quantity: Number(merged.quantity) + Number(record.quantity) })
+    } else {
+      byKey.set(key, record)
+    }
+  }
+
+  return Array.from(byKey.values())
+}
+
+/**
+ * Splits imported records into created, updated and unchanged
+ *
+ * @param records - Records about to be imported
+ * @param existingRows - Stored rows of the farm (at least the import's date range)
+ * @returns Records grouped by the effect the import would have
+ */
+export function diffConsumption<TRecord extends ConsumptionQuantity, TExisting extends ConsumptionQuantity>(
+  records: TRecord[],
+  existingRows: TExisting[]
+): ConsumptionDiff<TRecord, TExisting> {
+  const existingByKey = new Map(existingRows.map(row => [consumptionKey(row), row]))
+  const diff: ConsumptionDiff<TRecord, TExisting> = { created: [], updated: [], unchanged: [] }
+
+  for (const record of records) {
+    const existing = existingByKey.get(consumptionKey(record))
+
+    if (!existing) {
+      diff.created.push(record)
+    } else if (
+      Math.abs(Number(existing.quantity) - Number(record.quantity)) < QUANTITY_TOLERANCE &&
+      (record.supplier_id === undefined || record.supplier_id === (existing.supplier_id ?? null))
+    ) {
+      diff.unchanged.push({ record, existing })
+    } else {
+      diff.updated.push({ record, existing })
+    }
+  }
+
+  return diff
+}
+
+/**
+ * Decides how rolling back an upload resets each row it still owns
+ *
+ * Rows the upload overwrote get their previous values back, rows it created
+ * are deleted. A row whose previous values came from an upload that has
+ * been rolled back in the meantime is deleted as well, so that upload's
+ * data does not come back.
+ *
+ * @param rowIds - Rows whose upload_id is the upload
+ * @param snapshots - Snapshots the upload took
+ * @param rolledBackUploadIds - Uploads already rolled back
+ */
+export function planUploadRollback<TSnapshot extends ConsumptionSnapshot>(
+  rowIds: string[],
+  snapshots: TSnapshot[],
+  rolledBackUploadIds: Set<string>
+): UploadRollbackPlan<TSnapshot> {
+  const snapshotByRow = new Map(snapshots.map(snapshot => [snapshot.consumption_id, snapshot]))
+  const plan: UploadRollbackPlan<TSnapshot> = { restore: [], deleteIds: [] }
+
+  for (const id of rowIds) {
+    const snapshot = snapshotByRow.get(id)
+    if (snapshot && !(snapshot.previous_upload_id && rolledBackUploadIds.has(snapshot.previous_upload_id))) {
+      plan.restore.push(snapshot)
+    } else {
+      plan.deleteIds.push(id)
+    }
+  }
+
+  return plan
+}
@@ -0,0 +1,111 @@
+/**
+ * Unit Tests for Supplier Contract Utilities
+ *
+ * These tests ensure only call-offs of the contract's supplier and feed type
+ * within the period count, quantities are converted to the contract unit and
+ * the run-out date follows the call-off rate.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { calculateContractProgress, buildContractPriceTier, type ContractCallOff, type SupplierContract } from './contracts'
+
+// ============================================================================
+// TEST DATA FIXTURES
+// ============================================================================
+
+const contract: SupplierContract = {
+  supplier_id: 'sup-1',
+  feed_type_id: 'ft-soy',
+  contract_number: 'K-2025-01',
+  contracted_quantity: 100,
+  price_per_unit: 42,
+  unit: 't',
+  valid_from: '2025-01-01',
+  valid_to: '2025-12-31',
+  call_off_basis: 'deliveries',
+}
+
+const callOffs: ContractCallOff[] = [
+  { supplier_id: 'sup-1', feed_type_id: 'ft-soy', date: '2025-01-10', quantity: 10000 },
+  { supplier_id: 'sup-1', feed_type_id: 'ft-soy', date: '2025-02-20', quantity: 10000 },
+  { supplier_id: 'sup-2', feed_type_id: 'ft-soy', date: '2025-02-20', quantity: 5000 },
+  { supplier_id: 'sup-1', feed_type_id: 'ft-corn', date: '2025-02-20', quantity: 5000 },
+  { supplier_id: 'sup-1', feed_type_id: 'ft-soy', date: '2024-12-31', quantity: 5000 },
+]
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('calculateContractProgress', () => {
+  it('should count call-offs of the supplier and feed type in the contract unit', () => {
+    // 59 days from Jan 1 to Feb 28
+    const progress = calculateContractProgress(contract, callOffs, 'kg', {}, '2025-02-28')
+
+    expect(progress.status).toBe('active')
+    expect(progress.calledOff).toBe(20)
+    expect(progress.remaining).toBe(80)
+    expect(progress.percentCalledOff).toBe(20)
+    expect(progress.dailyRate).toBeCloseTo(20 / 59, 6)
+  })
+
+  it('should convert kg consumption and deliveries in the feed unit of a bag feed type', () => {
+    const bagContract = { ...contract, contracted_quantity: 2, unit: 't' }
+    const mixed: ContractCallOff[] = [
+      // 20 bags of 25 kg delivered, 250 kg consumed
+      { supplier_id: 'sup-1', feed_type_id: 'ft-soy', date: '2025-01-10', quantity: 20 },
+      { supplier_id: 'sup-1', feed_type_id: 'ft-soy', date: '2025-01-11', quantity: 250, unit: 'kg' },
+    ]
+    const progress = calculateContractProgress(bagContract, mixed, 'bag', { bag_weight_kg: 25 }, '2025-02-28')
+
+    expect(progress.calledOff).toBeCloseTo(0.75, 6)
+    expect(progress.remaining).toBeCloseTo(1.25, 6)
+  })
+
+  it('should leave out call-offs that cannot be converted to the contract unit', () => {
+    const litres: ContractCallOff[] = [
+      { supplier_id: 'sup-1', feed_type_id: 'ft-soy', date: '2025-01-10', quantity: 10000, unit: 'kg' },
+      { supplier_id: 'sup-1', feed_type_id: 'ft-soy', date: '2025-01-11', quantity: 500, unit: 'l' },
+    ]
+    const progress = calculateContractProgress(contract, litres, 'kg', {}, '2025-02-28')
+
+    expect(progress.calledOff).toBe(10)
+    expect(progress.unconvertibleCallOffs).toBe(1)
+  })
+
+  it('should project the run-out date and the volume left at contract end', () => {
+    const progress = calculateContractProgress(contract, callOffs, 'kg', {}, '2025-02-28')
+
+    // 80 t at 20/59 t per day takes 236 days
+    expect(progress.projectedRunOut).toBe('2025-10-22')
+    expect(progress.projectedRemainingAtEnd).toBe(0)
+
+    const slow = calculateContractProgress({ ...contract, contracted_quantity: 200 }, callOffs, 'kg', {}, '2025-02-28')
+    // 180 t left, 306 days at 20/59 t per day
+    expect(slow.projectedRemainingAtEnd).toBeCloseTo(180 - (20 / 59) * 306, 6)
+  })
+
+  it('should report upcoming, exhausted and expired contracts', () => {
+    expect(calculateContractProgress(contract, callOffs, 'kg', {}, '2024-12-01').status).toBe('upcoming')
+    expect(calculateContractProgress({ ...contract, contracted_quantity: 20 }, callOffs, 'kg', {}, '2025-03-01').status).toBe('exhausted')
+
+    const expired = calculateContractProgress(contract, callOffs, 'kg', {}, '2026-01-15')
+    expect(expired.status).toBe('expired')
+    expect(expired.projectedRunOut).toBeNull()
+    expect(expired.projectedRemainingAtEnd).toBe(80)
+  })
+})
+
+describe('buildContractPriceTier', () => {
+  it('should cover the contract period for the supplier', () => {
+    expect(buildContractPriceTier(contract)).toEqual({
+      feed_type_id: 'ft-soy',
+      supplier_id: 'sup-1',
+      price_per_unit: 42,
+      unit: 't',
+      valid_from: '2025-01-01',
+      valid_to: '2025-12-31',
+      notes: 'Kontrakt K-2025-01',
+    })
+  })
+})
@@ -0,0 +1,151 @@
+/**
+ * Supplier Contract Utilities
+ *
+ * A contract commits a volume of one feed type from one supplier at a fixed
+ * price for a period. Deliveries or attributed consumption of that supplier
+ * within the period are called off against the volume; the call-off rate so
+ * far projects when the volume runs out.
+ */
+
+import { convertQuantity, type FeedUnitFactors } from './units'
+
+export type ContractCallOffBasis = 'deliveries' | 'consumption'
+
+export const CONTRACT_CALL_OFF_BASIS_LABELS: Record<ContractCallOffBasis, string> = {
+  deliveries: 'Lieferungen',
+  consumption: 'Verbrauch',
+}
+
+export type ContractStatus = 'upcoming' | 'active' | 'exhausted' | 'expired'
+
+export const CONTRACT_STATUS_LABELS: Record<ContractStatus, string> = {
+  upcoming: 'Noch nicht begonnen',
+  active: 'Laufend',
+  exhausted: 'Ausgeschöpft',
+  expired: 'Abgelaufen',
+}
+
+export interface SupplierContract {
+  supplier_id: string
+  feed_type_id: string
+  contract_number: string | null
+  /** Contracted volume in the contract unit */
+  contracted_quantity: number
+  /** Price per contract unit */
+  price_per_unit: number
+  /** Unit of volume and price, defaults to the feed type's unit */
+  unit: string | null
+  valid_from: string
+  valid_to: string
+  call_off_basis: string
+}
+
+/** A delivery or consumption called off against a contract */
+export interface ContractCallOff {
+  supplier_id: string | null
+  feed_type_id: string
+  date: string
+  quantity: number
+  /** Unit of the quantity, defaults to the feed type's unit (consumption is in kg) */
+  unit?: string | null
+}
+
+export interface ContractProgress {
+  status: ContractStatus
+  /** Called-off quantity in the contract unit */
+  calledOff: number
+  remaining: number
+  /** Called-off share of the contracted volume, 0..100+ */
+  percentCalledOff: number
+  /** Average call-off per day so far, in the contract unit */
+  dailyRate: number
+  /** Day the remaining volume runs out at the current rate, null without call-offs or remaining volume */
+  projectedRunOut: string | null
+  /** Volume expected to be left at contract end at the current rate */
+  projectedRemainingAtEnd: number
+  /** Call-offs left out because their unit cannot be converted to the contract unit */
+  unconvertibleCallOffs: number
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS)
+
+function addDays(dateString: string, days: number): string {
+  const date = new Date(dateString)
+  date.setUTCDate(date.getUTCDate() + days)
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * Calculates how much of a contract has been called off and when it runs out
+ *
+ * @param feedUnit - The feed type's unit, of call-offs without their own unit
+ * @param today - Reference day, call-offs after it are ignored
+ */
+export function calculateContractProgress(
+  contract: SupplierContract,
+  callOffs: ContractCallOff[],
+  feedUnit: string | null | undefined,
+  factors: FeedUnitFactors,
+  today: string
+): ContractProgress {
+  const until = contract.valid_to < today ? contract.valid_to : today
+
+  const contractUnit = contract.unit || feedUnit
+  let calledOff = 0
+  let unconvertibleCallOffs = 0
+  callOffs
+    .filter(callOff =>
+      callOff.supplier_id === contract.supplier_id &&
+      callOff.feed_type_id === contract.feed_type_id &&
+      callOff.date >= contract.valid_from &&
+      callOff.date <= until
+    )
+    .forEach(callOff => {
+      const quantity = convertQuantity(Number(callOff.quantity), callOff.unit || feedUnit, contractUnit, factors)
+      if (quantity === null) unconvertibleCallOffs++
+      else calledOff += quantity
+    })
+  const contracted = Number(contract.contracted_quantity)
+  const remaining = Math.max(0, contracted - calledOff)
+
+  const elapsedDays = until >= contract.valid_from ? daysBetween(contract.valid_from, until) + 1 : 0
+  const dailyRate = elapsedDays > 0 ? calledOff / elapsedDays : 0
+  const daysLeft = Math.max(0, daysBetween(until, contract.valid_to))
+
+  let status: ContractStatus = 'active'
+  if (today < contract.valid_from) status = 'upcoming'
+  else if (remaining === 0) status = 'exhausted'
+  else if (today > contract.valid_to) status = 'expired'
+
+  return {
+    status,
+    calledOff,
+    remaining,
+    percentCalledOff: contracted > 0 ? (calledOff / contracted) * 100 : 0,
+    dailyRate,
+    projectedRunOut: status === 'active' && dailyRate > 0
+      ? addDays(until, Math.ceil(remaining / dailyRate))
+      : null,
+    projectedRemainingAtEnd: status === 'active' ? Math.max(0, remaining - dailyRate * daysLeft) : remaining,
+    unconvertibleCallOffs,
+  }
+}
+
+/**
+ * Builds the price tier for the contract price
+ * The tier covers the contract period for the contract's supplier.
+ */
+export function buildContractPriceTier(contract: SupplierContract) {
+  return {
+    feed_type_id: contract.feed_type_id,
+    supplier_id: contract.supplier_id,
+    price_per_unit: contract.price_per_unit,
+    unit: contract.unit,
+    valid_from: contract.valid_from,
+    valid_to: contract.valid_to,
+    notes: contract.contract_number ? `Kontrakt ${contract.contract_number}` : 'Kontrakt',
+  }
+}
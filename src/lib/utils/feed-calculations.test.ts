@@ -12,6 +12,10 @@ import {
   ensureConsumptionCosts,
   calculateWeightedAveragePrice,
   groupConsumptionData,
+  findPriceTierConflicts,
+  applySupplierShares,
+  normalizeTierUnits,
+  feedUnitPriceToKg,
 } from './feed-calculations'
 
 // ============================================================================
@@ -576,6 +580,143 @@ describe('groupConsumptionData', () => {
 // INTEGRATION TESTS
 // ============================================================================
 
+describe('supplier price resolution', () => {
+  const supplierTiers = [
+    { id: 't1', feed_type_id: 'soy', price_per_unit: 0.5, valid_from: '2024-01-01', valid_to: null, supplier_id: 'sup-a' },
+    { id: 't2', feed_type_id: 'soy', price_per_unit: 0.55, valid_from: '2024-02-01', valid_to: null, supplier_id: 'sup-b' },
+    { id: 't3', feed_type_id: 'soy', price_per_unit: 0.6, valid_from: '2024-01-01', valid_to: null, supplier_id: null },
+  ]
+
+  it('should resolve the price of the given supplier', () => {
+    expect(findApplicablePriceTier('soy', '2024-03-01', supplierTiers, 'sup-a')?.price_per_unit).toBe(0.5)
+    expect(findApplicablePriceTier('soy', '2024-03-01', supplierTiers, 'sup-b')?.price_per_unit).toBe(0.55)
+  })
+
+  it('should fall back to tiers without supplier', () => {
+    expect(findApplicablePriceTier('soy', '2024-03-01', supplierTiers, 'sup-c')?.price_per_unit).toBe(0.6)
+    expect(findApplicablePriceTier('soy', '2024-01-15', supplierTiers, 'sup-b')?.price_per_unit).toBe(0.6)
+  })
+
+  it('should split unattributed consumption by supplier shares', () => {
+    const shares = [
+      { feed_type_id: 'soy', supplier_id: 'sup-a', share: 60 },
+      { feed_type_id: 'soy', supplier_id: 'sup-b', share: 40 },
+    ]
+    const consumption = [
+      { date: '2024-03-01', quantity: 100, feed_type_id: 'soy' },
+      { date: '2024-03-01', quantity: 50, feed_type_id: 'soy', supplier_id: 'sup-b' },
+      { date: '2024-03-01', quantity: 10, feed_type_id: 'corn' },
+    ]
+
+    const split = applySupplierShares(consumption, shares)
+
+    expect(split.map(item => [item.feed_type_id, item.supplier_id ?? null, item.quantity])).toEqual([
+      ['soy', 'sup-a', 60],
+      ['soy', 'sup-b', 40],
+      ['soy', 'sup-b', 50],
+      ['corn', null, 10],
+    ])
+    const costs = ensureConsumptionCosts(split, supplierTiers).map(item => item.total_cost || 0)
+    expect(costs.map(cost => Math.round(cost * 100) / 100)).toEqual([30, 22, 27.5, 0])
+  })
+
+  it('should flag overlapping tiers of the same feed type and supplier', () => {
+    const conflicts = findPriceTierConflicts([
+      ...supplierTiers,
+      { id: 't4', feed_type_id: 'soy', price_per_unit: 0.52, valid_from: '2024-06-01', valid_to: '2024-06-30', supplier_id: 'sup-a' },
+      { id: 't5', feed_type_id: 'corn', price_per_unit: 0.2, valid_from: '2024-01-01', valid_to: '2024-01-31', supplier_id: null },
+      { id: 't6', feed_type_id: 'corn', price_per_unit: 0.25, valid_from: '2024-02-01', valid_to: null, supplier_id: null },
+    ])
+
+    expect(conflicts).toEqual([
+      { feedTypeId: 'soy', supplierId: 'sup-a', tierIds: ['t1', 't4'] },
+    ])
+  })
+})
+
+describe('unit conversion', () => {
+  const mineral = { id: 'mineral', name: 'Mineralfutter', unit: 'kg', bag_weight_kg: 25 }
+  const unitTiers = [
+    { feed_type_id: 'soy', price_per_unit: 52, unit: 'dt', valid_from: '2024-01-01', valid_to: null },
+    { feed_type_id: 'corn', price_per_unit: 40, unit: 'kg', valid_from: '2024-01-01', valid_to: null },
+    { feed_type_id: 'mineral', price_per_unit: 20, unit: 'bag', valid_from: '2024-01-01', valid_to: null },
+  ]
+
+  it('should cost consumption with tier prices quoted in another unit', () => {
+    const soy = { date: '2024-03-01', quantity: 200, feed_type_id: 'soy', feed_types: { id: 'soy', name: 'Soja', unit: 'kg' } }
+    const corn = { date: '2024-03-01', quantity: 2000, feed_type_id: 'corn', feed_types: { id: 'corn', name: 'Mais', unit: 't' } }
+    const bags = { date: '2024-03-01', quantity: 50, feed_type_id: 'mineral', feed_types: mineral }
+
+    // 200 kg at 52 €/dt, 2000 kg at 40 €/kg, 50 kg at 20 € per 25 kg bag
+    expect(calculateConsumptionCost(soy, unitTiers)).toBeCloseTo(104)
+    expect(calculateConsumptionCost(corn, unitTiers)).toBeCloseTo(80000)
+    expect(calculateConsumptionCost(bags, unitTiers)).toBeCloseTo(40)
+  })
+
+  it('should cost imported kg of feed types kept in t or bags per kg', () => {
+    const tiers = [
+      { feed_type_id: 'corn', price_per_unit: 40, valid_from: '2024-01-01', valid_to: null },
+      { feed_type_id: 'mineral', price_per_unit: 20, valid_from: '2024-01-01', valid_to: null },
+    ]
+    const corn = { date: '2024-03-01', quantity: 2000, feed_type_id: 'corn', feed_types: { id: 'corn', name: 'Mais', unit: 't' } }
+    const bags = { date: '2024-03-01', quantity: 50, feed_type_id: 'mineral', feed_types: { ...mineral, unit: 'bag' } }
+
+    // Tiers without unit are quoted per t and per bag: 2000 kg at 40 €/t, 50 kg at 20 € per 25 kg bag
+    expect(calculateConsumptionCost(corn, tiers)).toBeCloseTo(80)
+    expect(calculateConsumptionCost(bags, tiers)).toBeCloseTo(40)
+  })
+
+  it('should not cost consumption when the unit cannot be converted', () => {
+    const bags = { date: '2024-03-01', quantity: 50, feed_type_id: 'mineral', feed_types: { ...mineral, bag_weight_kg: null } }
+
+    expect(calculateConsumptionCost(bags, unitTiers)).toBe(0)
+  })
+
+  it('should convert tiers to the unit of their feed type and drop unconvertible ones', () => {
+    const normalized = normalizeTierUnits(unitTiers, [
+      { id: 'soy', unit: 'kg' },
+      { id: 'corn', unit: null },
+      { id: 'mineral', unit: 'kg' },
+    ])
+
+    expect(normalized.map(tier => [tier.feed_type_id, tier.price_per_unit, tier.unit])).toEqual([
+      ['soy', 0.52, 'kg'],
+      ['corn', 40, 'kg'],
+    ])
+  })
+
+  it('should treat tiers without unit as quoted in the feed type unit', () => {
+    const [tier] = normalizeTierUnits(
+      [{ feed_type_id: 'corn', price_per_unit: 40, valid_from: '2024-01-01', valid_to: null }],
+      [{ id: 'corn', unit: 't' }]
+    )
+
+    expect(tier.price_per_unit).toBe(40)
+  })
+
+  it('should convert tiers to €/kg for costing', () => {
+    const normalized = normalizeTierUnits(
+      [{ feed_type_id: 'corn', price_per_unit: 40, unit: null, valid_from: '2024-01-01', valid_to: null }, ...unitTiers],
+      [{ id: 'corn', unit: 't' }, { id: 'soy', unit: 'kg' }, { id: 'mineral', unit: 'kg', bag_weight_kg: 25 }],
+      'kg'
+    )
+
+    expect(normalized.map(tier => [tier.feed_type_id, tier.price_per_unit, tier.unit])).toEqual([
+      ['corn', 0.04, 'kg'],
+      ['soy', 0.52, 'kg'],
+      ['corn', 40, 'kg'],
+      ['mineral', 0.8, 'kg'],
+    ])
+  })
+
+  it('should convert prices per feed type unit to €/kg', () => {
+    expect(feedUnitPriceToKg(250, { unit: 't' })).toBeCloseTo(0.25)
+    expect(feedUnitPriceToKg(20, { unit: 'bag', bag_weight_kg: 25 })).toBeCloseTo(0.8)
+    expect(feedUnitPriceToKg(20, { unit: 'bag' })).toBeNull()
+    expect(feedUnitPriceToKg(null, { unit: 't' })).toBeNull()
+  })
+})
+
 describe('Integration: Full workflow', () => {
   it('should correctly process consumption from raw data to costs', () => {
     // Step 1: Start with raw consumption (no costs)
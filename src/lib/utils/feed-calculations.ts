@@ -1,20 +1,46 @@
+import { loadDeliveryUnitCosts, loadFeedCostingMode, unitCostKey, type FeedCostingMode } from './feed-costing'
+import { estimatePrice, type PriceFallbackPolicy } from './price-gaps'
+import { convertUnitPrice, resolveUnit, type FeedUnitFactors } from './units'
+import { applyNutrients } from './nutrients'
+
 interface PriceTier {
   feed_type_id: string
   price_per_unit: number
   valid_from: string
   valid_to: string | null
+  supplier_id?: string | null
+  /** Unit the price is quoted in, defaults to the feed type's unit */
+  unit?: string | null
+}
+
+/** Unit and conversion factors of a feed type */
+export interface FeedTypeUnit extends FeedUnitFactors {
+  id: string
+  unit?: string | null
 }
 
 interface ConsumptionItem {
   date: string
   quantity: number
   feed_type_id: string
+  supplier_id?: string | null
   total_cost?: number
+  /** Cost based on an estimated price (fallback policy of the feed type) */
+  cost_estimated?: boolean
+  /** No price tier and no estimate; the cost is 0 */
+  price_missing?: boolean
+  /** Nutrients from the feed type's analysis (see nutrients.ts) */
+  dry_matter_kg?: number
+  energy_mj_me?: number | null
+  energy_mj_nel?: number | null
+  crude_protein_kg?: number | null
   area_id?: string
   feed_types?: {
     id: string
     name: string
     unit?: string
+    bag_weight_kg?: number | null
+    density_kg_per_l?: number | null
   }
   areas?: {
     id: string
@@ -22,15 +48,25 @@ interface ConsumptionItem {
   }
 }
 
+/** Consumption as returned by loadConsumptionWithCosts: costed and with its feed type */
+export type CostedConsumptionItem = ConsumptionItem & {
+  total_cost: number
+  feed_types: NonNullable<ConsumptionItem['feed_types']>
+}
+
 /**
  * Finds the applicable price tier for a given feed type and date
  * Returns the most recent valid price tier based on valid_from date
+ *
+ * With a supplier, only that supplier's tiers are considered, falling back
+ * to tiers without a supplier. Without one, tiers of all suppliers compete.
  */
-export function findApplicablePriceTier(
+export function findApplicablePriceTier<T extends PriceTier>(
   feedTypeId: string, 
   date: string, 
-  priceTiers: PriceTier[]
-): PriceTier | null {
+  priceTiers: T[],
+  supplierId?: string | null
+): T | null {
   if (!priceTiers || priceTiers.length === 0) {
     return null
   }
@@ -41,34 +77,167 @@ export function findApplicablePriceTier(
     const validTo = !tier.valid_to || tier.valid_to >= date
     return validFrom && validTo
   })
+
+  const candidates = supplierId
+    ? [validPrices.filter(tier => tier.supplier_id === supplierId), validPrices.filter(tier => !tier.supplier_id)]
+      .find(tiers => tiers.length > 0) || []
+    : validPrices
   
-  if (validPrices.length === 0) {
+  if (candidates.length === 0) {
     return null
   }
 
   // Get the most recent valid price at the time of feeding
-  const sortedPrices = validPrices.sort((a, b) => 
+  const sortedPrices = candidates.sort((a, b) => 
     new Date(b.valid_from).getTime() - new Date(a.valid_from).getTime()
   )
   
   return sortedPrices[0]
 }
 
+export interface PriceTierConflict {
+  feedTypeId: string
+  supplierId: string | null
+  /** Ids of two tiers whose validity periods overlap */
+  tierIds: [string, string]
+}
+
+/**
+ * Finds price tiers of the same feed type and supplier with overlapping validity
+ *
+ * Overlapping tiers make the price depend on which one starts later, which
+ * is rarely intended. Tiers of different suppliers may overlap.
+ */
+export function findPriceTierConflicts(priceTiers: (PriceTier & { id: string })[]): PriceTierConflict[] {
+  const conflicts: PriceTierConflict[] = []
+  const groups = new Map<string, (PriceTier & { id: string })[]>()
+
+  priceTiers.forEach(tier => {
+    const key = `${tier.feed_type_id}|${tier.supplier_id || ''}`
+    groups.set(key, [...(groups.get(key) || []), tier])
+  })
+
+  groups.forEach(tiers => {
+    const sorted = [...tiers].sort((a, b) => a.valid_from.localeCompare(b.valid_from))
+    sorted.forEach((tier, index) => {
+      sorted.slice(index + 1).forEach(other => {
+        // other starts on or after tier; they overlap unless tier ends before
+        if (!tier.valid_to || tier.valid_to >= other.valid_from) {
+          conflicts.push({
+            feedTypeId: tier.feed_type_id,
+            supplierId: tier.supplier_id || null,
+            tierIds: [tier.id, other.id]
+          })
+        }
+      })
+    })
+  })
+
+  return conflicts
+}
+
+export interface FeedTypeSupplierShare {
+  feed_type_id: string
+  supplier_id: string
+  /** Share of the feed type's consumption in percent */
+  share: number
+}
+
+/**
+ * Attributes consumption without a supplier to the feed type's suppliers
+ *
+ * Items are split by the configured shares (a single share acts as default
+ * supplier). Items with a supplier or without configured shares are kept.
+ */
+export function applySupplierShares<T extends ConsumptionItem>(
+  consumption: T[],
+  shares: FeedTypeSupplierShare[]
+): T[] {
+  if (shares.length === 0) return consumption
+
+  const sharesByFeedType = new Map<string, FeedTypeSupplierShare[]>()
+  shares.forEach(share => {
+    sharesByFeedType.set(share.feed_type_id, [...(sharesByFeedType.get(share.feed_type_id) || []), share])
+  })
+
+  return consumption.flatMap(item => {
+    const feedTypeShares = sharesByFeedType.get(item.feed_type_id)
+    const total = feedTypeShares?.reduce((sum, share) => sum + Number(share.share), 0) || 0
+    if (item.supplier_id || !feedTypeShares || total <= 0) return [item]
+
+    return feedTypeShares.map(share => ({
+      ...item,
+      quantity: Number(item.quantity) * Number(share.share) / total,
+      supplier_id: share.supplier_id
+    }))
+  })
+}
+
+/**
+ * Converts price tiers to the unit of their feed type, or to targetUnit
+ * Consumption is recorded in kg, so costing converts to 'kg'. Tiers quoted
+ * in a unit that cannot be converted (e.g. per bag without a bag weight) are
+ * dropped, so their consumption counts as unpriced.
+ */
+export function normalizeTierUnits<T extends PriceTier>(
+  priceTiers: T[],
+  feedTypes: FeedTypeUnit[],
+  targetUnit?: string
+): T[] {
+  const feedTypesById = new Map(feedTypes.map(feedType => [feedType.id, feedType]))
+
+  return priceTiers.flatMap(tier => {
+    const feedType = feedTypesById.get(tier.feed_type_id)
+    const feedUnit = resolveUnit(feedType?.unit)
+    const unit = targetUnit || feedUnit
+    const price = convertUnitPrice(Number(tier.price_per_unit), tier.unit || feedUnit, unit, feedType)
+
+    if (price === null) {
+      console.warn(`Price tier for feed type ${tier.feed_type_id} in ${tier.unit} cannot be converted to ${unit}`)
+      return []
+    }
+    return [{ ...tier, price_per_unit: price, unit }]
+  })
+}
+
+/**
+ * Converts a price quoted per unit of the feed type (e.g. its reference
+ * price) to €/kg
+ *
+ * @returns The price per kg, or null without a price or if the unit cannot be converted
+ */
+export function feedUnitPriceToKg(
+  price: number | null | undefined,
+  feedType: (FeedUnitFactors & { unit?: string | null }) | null | undefined
+): number | null {
+  if (price === null || price === undefined) return null
+  return convertUnitPrice(Number(price), resolveUnit(feedType?.unit), 'kg', feedType || {})
+}
+
 /**
  * Calculates the cost for a consumption item using price tiers
+ * The quantity is in kg; the tier price is converted to €/kg.
  * Returns the calculated cost or 0 if no applicable price tier found
  */
 export function calculateConsumptionCost(
   item: ConsumptionItem,
   priceTiers: PriceTier[]
 ): number {
-  const applicablePriceTier = findApplicablePriceTier(item.feed_type_id, item.date, priceTiers)
+  const applicablePriceTier = findApplicablePriceTier(item.feed_type_id, item.date, priceTiers, item.supplier_id)
   
   if (!applicablePriceTier) {
     return 0
   }
-  
-  return item.quantity * applicablePriceTier.price_per_unit
+
+  const feedUnit = resolveUnit(item.feed_types?.unit)
+  const price = convertUnitPrice(
+    Number(applicablePriceTier.price_per_unit),
+    applicablePriceTier.unit || feedUnit,
+    'kg',
+    item.feed_types
+  )
+
+  return price === null ? 0 : item.quantity * price
 }
 
 /**
@@ -134,6 +303,9 @@ export function groupConsumptionData<T>(
 /**
  * Centralized function to load consumption data with consistent cost calculations
  * This should be used by both reports and evaluation pages to ensure consistency
+ *
+ * Costs follow the farm's costing mode: the price tier valid on the feeding
+ * day, or the delivery lots fed (FIFO or moving average, see feed-costing).
  */
 export async function loadConsumptionWithCosts(
   supabase: any,
@@ -143,8 +315,10 @@ export async function loadConsumptionWithCosts(
   options?: {
     feedTypeId?: string
     areaId?: string
+    /** Overrides the farm's costing mode */
+    costingMode?: FeedCostingMode
   }
-): Promise<{ consumption: ConsumptionItem[], priceTiers: PriceTier[] }> {
+): Promise<{ consumption: CostedConsumptionItem[], priceTiers: PriceTier[] }> {
   // Build the query
   const actualEndDate = endDate || new Date().toISOString().split('T')[0]
   
@@ -155,7 +329,8 @@ export async function loadConsumptionWithCosts(
       quantity,
       area_id,
       feed_type_id,
-      feed_types!inner(id, name, unit),
+      supplier_id,
+      feed_types!inner(id, name, unit, price_fallback_policy, reference_price, bag_weight_kg, density_kg_per_l),
       areas(
         id,
         name,
@@ -202,13 +377,12 @@ export async function loadConsumptionWithCosts(
     }
   }
 
-  const consumption = allConsumption
   const consumptionError = null
 
   // Load price tiers for cost calculations (with supplier information)
-  const { data: priceTiers, error: priceError } = await supabase
+  const { data: rawPriceTiers, error: priceError } = await supabase
     .from('price_tiers')
-    .select('feed_type_id, price_per_unit, valid_from, valid_to, supplier_id, suppliers(id, name)')
+    .select('feed_type_id, price_per_unit, unit, valid_from, valid_to, supplier_id, suppliers(id, name)')
     .eq('farm_id', farmId)
 
   if (consumptionError) {
@@ -219,37 +393,126 @@ export async function loadConsumptionWithCosts(
     throw new Error(`Failed to load price tiers: ${priceError.message}`)
   }
 
-  // Always ensure costs are calculated consistently using ONLY price tiers
+  // Prices may be quoted per t, dt or bag; consumption is recorded in kg
+  const { data: feedTypeUnits, error: feedTypesError } = await supabase
+    .from('feed_types')
+    .select('id, unit, bag_weight_kg, density_kg_per_l, price_fallback_policy, reference_price')
+    .eq('farm_id', farmId)
+
+  if (feedTypesError) {
+    throw new Error(`Failed to load feed types: ${feedTypesError.message}`)
+  }
+
+  const priceTiers = normalizeTierUnits(rawPriceTiers || [], feedTypeUnits || [], 'kg')
+
+  // Attribute consumption without a supplier by the feed types' supplier shares
+  const { data: supplierShares, error: sharesError } = await supabase
+    .from('feed_type_suppliers')
+    .select('feed_type_id, supplier_id, share')
+    .eq('farm_id', farmId)
+
+  if (sharesError) {
+    throw new Error(`Failed to load supplier shares: ${sharesError.message}`)
+  }
+
+  const consumption = applySupplierShares(allConsumption, supplierShares || [])
+
+  const { data: suppliers, error: suppliersError } = await supabase
+    .from('suppliers')
+    .select('id, name')
+    .eq('farm_id', farmId)
+
+  if (suppliersError) {
+    throw new Error(`Failed to load suppliers: ${suppliersError.message}`)
+  }
+  const supplierNames = new Map<string, string>(
+    (suppliers || []).map((supplier: { id: string; name: string }) => [supplier.id, supplier.name])
+  )
+
+  const costingMode = options?.costingMode || await loadFeedCostingMode(supabase, farmId)
+  const fallbackPolicies = new Map<string, { policy: PriceFallbackPolicy; referencePrice: number | null }>(
+    (feedTypeUnits || []).map((feedType: FeedTypeUnit & { price_fallback_policy?: string | null; reference_price?: number | null }) => [
+      feedType.id,
+      {
+        policy: (feedType.price_fallback_policy as PriceFallbackPolicy) || 'none',
+        referencePrice: feedUnitPriceToKg(feedType.reference_price, feedType)
+      }
+    ])
+  )
+  // Lots and consumption beyond the lots are priced like consumption without lots
+  const tierPrice = (feedTypeId: string, date: string) => {
+    const tier = findApplicablePriceTier(feedTypeId, date, priceTiers)
+    if (tier) return { price: tier.price_per_unit, estimated: false }
+
+    const fallback = fallbackPolicies.get(feedTypeId)
+    const estimated = estimatePrice(feedTypeId, date, priceTiers, fallback?.policy || 'none', fallback?.referencePrice ?? null)
+    return estimated !== null ? { price: estimated, estimated: true } : null
+  }
+
+  // Delivery lots are replayed over all areas, so the area filter does not change unit costs
+  const deliveryUnitCosts = costingMode === 'price_tier'
+    ? null
+    : await loadDeliveryUnitCosts(supabase, farmId, costingMode, actualEndDate, tierPrice)
+
+  // Always ensure costs are calculated consistently from price tiers or delivery lots
   // This ignores any existing total_cost in the database to ensure consistency
-  // Also add supplier information from the applicable price tier
+  // Prices are resolved per supplier; unattributed consumption takes the supplier of the applicable tier
   const consumptionWithCosts = (consumption || []).map(item => {
     const applicablePriceTier = findApplicablePriceTier(
       item.feed_type_id,
       item.date,
-      priceTiers || []
+      priceTiers,
+      item.supplier_id
     )
+    const deliveryUnitCost = deliveryUnitCosts?.get(unitCostKey(item.feed_type_id, item.date))
 
-    const calculatedCost = applicablePriceTier
-      ? parseFloat(item.quantity) * applicablePriceTier.price_per_unit
-      : 0
+    // Without a tier, the feed type's fallback policy may estimate a price
+    const estimatedPrice = deliveryUnitCost === undefined && !applicablePriceTier
+      ? estimatePrice(
+        item.feed_type_id,
+        item.date,
+        priceTiers,
+        (item.feed_types?.price_fallback_policy as PriceFallbackPolicy) || 'none',
+        feedUnitPriceToKg(item.feed_types?.reference_price, item.feed_types)
+      )
+      : null
 
-    if (!applicablePriceTier && consumption.length > 0) {
+    const unitPrice = deliveryUnitCost?.unitCost ?? applicablePriceTier?.price_per_unit ?? estimatedPrice ?? 0
+    const calculatedCost = parseFloat(item.quantity) * unitPrice
+    const priceMissing = deliveryUnitCost
+      ? deliveryUnitCost.priceMissing
+      : !applicablePriceTier && estimatedPrice === null
+
+    if (priceMissing) {
       console.warn(`No price tier found for feed type ${item.feed_type_id} on date ${item.date}`)
     }
 
     return {
       ...item,
       total_cost: calculatedCost,
-      supplier_id: applicablePriceTier?.supplier_id || null,
-      supplier_name: applicablePriceTier?.suppliers?.name || null
+      cost_estimated: deliveryUnitCost ? deliveryUnitCost.estimated : estimatedPrice !== null,
+      price_missing: priceMissing,
+      supplier_id: item.supplier_id || applicablePriceTier?.supplier_id || null,
+      supplier_name: item.supplier_id
+        ? supplierNames.get(item.supplier_id) || null
+        : applicablePriceTier?.suppliers?.name || null
     }
   })
 
   console.log('Consumption with costs sample:', consumptionWithCosts.slice(0, 3))
-  
+
+  // Dry matter, energy and protein from the analyses valid on the feeding day
+  const { data: analyses, error: analysesError } = await supabase
+    .from('feed_analyses')
+    .select('feed_type_id, valid_from, dry_matter_percent, me_mj_per_kg_dm, nel_mj_per_kg_dm, crude_protein_g_per_kg_dm')
+    .eq('farm_id', farmId)
+
+  if (analysesError) {
+    throw new Error(`Failed to load feed analyses: ${analysesError.message}`)
+  }
 
   return {
-    consumption: consumptionWithCosts,
-    priceTiers: priceTiers || []
+    consumption: applyNutrients(consumptionWithCosts, analyses || []),
+    priceTiers
   }
 }
\ No newline at end of file
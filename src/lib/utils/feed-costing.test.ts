@@ -0,0 +1,156 @@
+/**
+ * Unit Tests for Feed Costing
+ *
+ * These tests ensure consumption is valued with the delivery lots fed,
+ * first-in-first-out or at the moving average, and falls back to the
+ * price tier or its estimate where no stock is on hand.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { calculateDeliveryUnitCosts, unitCostKey } from './feed-costing'
+
+// ============================================================================
+// TEST DATA FIXTURES
+// ============================================================================
+
+const deliveries = [
+  { id: 'd1', feed_type_id: 'ft-1', delivery_date: '2024-03-01', quantity: 1000, price_per_unit: 0.2 },
+  { id: 'd2', feed_type_id: 'ft-1', delivery_date: '2024-03-02', quantity: 1000, price_per_unit: 0.4 },
+]
+
+const consumption = [
+  { feed_type_id: 'ft-1', date: '2024-02-29', quantity: 100 },
+  { feed_type_id: 'ft-1', date: '2024-03-01', quantity: 500 },
+  { feed_type_id: 'ft-1', date: '2024-03-03', quantity: 1000 },
+  { feed_type_id: 'ft-1', date: '2024-03-04', quantity: 1000 },
+]
+
+const fallbackPrice = () => ({ price: 1, estimated: false })
+
+const kgFeedTypes = { 'ft-1': { unit: 'kg' }, 'ft-2': { unit: 'kg' } }
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('calculateDeliveryUnitCosts', () => {
+  it('should value consumption with the oldest lots first', () => {
+    const unitCosts = calculateDeliveryUnitCosts('fifo', { deliveries, stockTakes: [], consumption }, fallbackPrice, kgFeedTypes)
+
+    expect(unitCosts.get(unitCostKey('ft-1', '2024-03-01'))?.unitCost).toBeCloseTo(0.2)
+    // 500 kg left of the first lot, 500 kg of the second
+    expect(unitCosts.get(unitCostKey('ft-1', '2024-03-03'))?.unitCost).toBeCloseTo(0.3)
+    // 500 kg of the second lot, 500 kg beyond stock at the fallback price
+    expect(unitCosts.get(unitCostKey('ft-1', '2024-03-04'))?.unitCost).toBeCloseTo(0.7)
+    // Consumption before the first delivery is left to the price tier
+    expect(unitCosts.has(unitCostKey('ft-1', '2024-02-29'))).toBe(false)
+  })
+
+  it('should value consumption at the moving average of the stock', () => {
+    const unitCosts = calculateDeliveryUnitCosts('moving_average', { deliveries, stockTakes: [], consumption }, fallbackPrice, kgFeedTypes)
+
+    expect(unitCosts.get(unitCostKey('ft-1', '2024-03-01'))?.unitCost).toBeCloseTo(0.2)
+    // 500 kg at 0.2 and 1000 kg at 0.4 average to 0.3333
+    expect(unitCosts.get(unitCostKey('ft-1', '2024-03-03'))?.unitCost).toBeCloseTo(1 / 3)
+  })
+
+  it('should correct the lots to the counted stock without charging shrinkage', () => {
+    const stockTakes = [{ id: 's1', feed_type_id: 'ft-1', date: '2024-03-02', counted_quantity: 1000 }]
+    const unitCosts = calculateDeliveryUnitCosts('fifo', { deliveries, stockTakes, consumption }, fallbackPrice, kgFeedTypes)
+
+    // The missing 500 kg come out of the oldest lot
+    expect(unitCosts.get(unitCostKey('ft-1', '2024-03-03'))?.unitCost).toBeCloseTo(0.4)
+    expect(unitCosts.get(unitCostKey('ft-1', '2024-03-04'))?.unitCost).toBeCloseTo(1)
+  })
+
+  it('should value deliveries without a price at the fallback price', () => {
+    const unpriced = [{ id: 'd3', feed_type_id: 'ft-2', delivery_date: '2024-03-01', quantity: 1000, price_per_unit: null }]
+    const unitCosts = calculateDeliveryUnitCosts(
+      'fifo',
+      { deliveries: unpriced, stockTakes: [], consumption: [{ feed_type_id: 'ft-2', date: '2024-03-02', quantity: 100 }] },
+      () => ({ price: 0.5, estimated: false }),
+      kgFeedTypes
+    )
+
+    expect(unitCosts.get(unitCostKey('ft-2', '2024-03-02'))?.unitCost).toBeCloseTo(0.5)
+  })
+
+  it('should flag consumption beyond the deliveries priced by an estimate', () => {
+    const unitCosts = calculateDeliveryUnitCosts(
+      'fifo',
+      { deliveries, stockTakes: [], consumption },
+      () => ({ price: 1, estimated: true }),
+      kgFeedTypes
+    )
+
+    expect(unitCosts.get(unitCostKey('ft-1', '2024-03-03'))?.estimated).toBe(false)
+    // 500 kg beyond the recorded deliveries at the estimated price
+    expect(unitCosts.get(unitCostKey('ft-1', '2024-03-04'))).toEqual({ unitCost: 0.7, estimated: true, priceMissing: false })
+  })
+
+  it('should flag consumption beyond the deliveries without any price as missing', () => {
+    const unitCosts = calculateDeliveryUnitCosts('fifo', { deliveries, stockTakes: [], consumption }, () => null, kgFeedTypes)
+
+    // Only the 500 kg of the second lot are priced
+    expect(unitCosts.get(unitCostKey('ft-1', '2024-03-04'))).toEqual({ unitCost: 0.2, estimated: false, priceMissing: true })
+  })
+
+  it('should carry missing prices of unpriced deliveries through the moving average', () => {
+    const unpriced = [{ id: 'd3', feed_type_id: 'ft-2', delivery_date: '2024-03-01', quantity: 1000, price_per_unit: null }]
+    const unitCosts = calculateDeliveryUnitCosts(
+      'moving_average',
+      { deliveries: unpriced, stockTakes: [], consumption: [{ feed_type_id: 'ft-2', date: '2024-03-02', quantity: 100 }] },
+      () => null,
+      kgFeedTypes
+    )
+
+    expect(unitCosts.get(unitCostKey('ft-2', '2024-03-02'))?.priceMissing).toBe(true)
+  })
+  it('should return costs per kg for deliveries in t or bags', () => {
+    const unitCosts = calculateDeliveryUnitCosts(
+      'fifo',
+      {
+        deliveries: [
+          { id: 'd1', feed_type_id: 'ft-t', delivery_date: '2024-03-01', quantity: 2, price_per_unit: 250 },
+          { id: 'd2', feed_type_id: 'ft-bag', delivery_date: '2024-03-01', quantity: 40, price_per_unit: 10 },
+        ],
+        stockTakes: [],
+        consumption: [
+          { feed_type_id: 'ft-t', date: '2024-03-02', quantity: 500 },
+          { feed_type_id: 'ft-t', date: '2024-03-03', quantity: 2000 },
+          { feed_type_id: 'ft-bag', date: '2024-03-02', quantity: 500 },
+        ],
+      },
+      fallbackPrice,
+      { 'ft-t': { unit: 't' }, 'ft-bag': { unit: 'bag', bag_weight_kg: 25 } }
+    )
+
+    // 250 €/t
+    expect(unitCosts.get(unitCostKey('ft-t', '2024-03-02'))?.unitCost).toBeCloseTo(0.25)
+    // 1500 kg left of the 2 t at 0.25 €/kg, 500 kg beyond stock at the fallback of 1 €/kg
+    expect(unitCosts.get(unitCostKey('ft-t', '2024-03-03'))?.unitCost).toBeCloseTo(0.4375)
+    // 10 € per 25 kg bag
+    expect(unitCosts.get(unitCostKey('ft-bag', '2024-03-02'))?.unitCost).toBeCloseTo(0.4)
+  })
+  it('should flag costs as missing when the bag price cannot be converted to kg', () => {
+    const unitCosts = calculateDeliveryUnitCosts(
+      'fifo',
+      {
+        deliveries: [
+          { id: 'd1', feed_type_id: 'ft-bag', delivery_date: '2024-03-01', quantity: 40, price_per_unit: 10 },
+          { id: 'd2', feed_type_id: 'ft-bag', delivery_date: '2024-03-01', quantity: 10, price_per_unit: null },
+        ],
+        stockTakes: [],
+        consumption: [{ feed_type_id: 'ft-bag', date: '2024-03-02', quantity: 20 }],
+      },
+      fallbackPrice,
+      { 'ft-bag': { unit: 'bag' } }
+    )
+
+    expect(unitCosts.get(unitCostKey('ft-bag', '2024-03-02'))).toEqual({
+      unitCost: 0,
+      estimated: false,
+      priceMissing: true,
+    })
+  })
+})
@@ -0,0 +1,315 @@
+/**
+ * Feed Costing
+ *
+ * Values consumption either with the price tier valid on the feeding day or
+ * with the cost of the delivery lots actually fed, taken first-in-first-out
+ * or at the moving weighted average of the stock. Delivery lots are replayed
+ * through the stock ledger, so stock-takes correct the lots as well. Lots
+ * are kept in the feed type's unit like the deliveries; the resulting unit
+ * costs are per kg like the consumption they value.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { buildStockLedger, type DailyFeedConsumption, type StockDelivery, type StockTake } from './stock-ledger'
+import { convertUnitPrice, hasConversionFactor, type FeedTypeUnit } from './units'
+
+export type FeedCostingMode = 'price_tier' | 'fifo' | 'moving_average'
+
+export const FEED_COSTING_MODE_LABELS: Record<FeedCostingMode, string> = {
+  price_tier: 'Preisstaffel',
+  fifo: 'FIFO nach Lieferung',
+  moving_average: 'Gleitender Durchschnitt',
+}
+
+/**
+ * Price per kg of a feed type on a day when no delivery lot applies:
+ * the price tier, or an estimate by the feed type's fallback policy.
+ * Null if neither yields a price.
+ */
+export type FallbackPrice = (feedTypeId: string, date: string) => { price: number; estimated: boolean } | null
+
+/** Unit cost of a feed type's consumption on a day */
+export interface DeliveryUnitCost {
+  /** Cost per kg */
+  unitCost: number
+  /** Part of the quantity was valued at an estimated price */
+  estimated: boolean
+  /** Part of the quantity has no price and is valued at 0 */
+  priceMissing: boolean
+}
+
+interface Lot {
+  quantity: number
+  unitCost: number
+  estimated: boolean
+  priceMissing: boolean
+}
+
+interface Draw {
+  cost: number
+  uncovered: number
+  estimated: boolean
+  priceMissing: boolean
+}
+
+const fallbackLot = (quantity: number, price: ReturnType<FallbackPrice>): Lot => ({
+  quantity,
+  unitCost: price?.price ?? 0,
+  estimated: price?.estimated ?? false,
+  priceMissing: price === null,
+})
+
+/** Key of the daily unit cost map */
+export const unitCostKey = (feedTypeId: string, date: string) => `${feedTypeId}|${date}`
+
+/**
+ * Takes a quantity out of the lots and returns its cost
+ *
+ * Quantity beyond the stock on hand is not covered and left to the caller.
+ */
+function drawFromLots(lots: Lot[], quantity: number, mode: FeedCostingMode): Draw {
+  let remaining = quantity
+  let cost = 0
+  let estimated = false
+  let priceMissing = false
+
+  if (mode === 'moving_average') {
+    const stock = lots.reduce((sum, lot) => sum + lot.quantity, 0)
+    const value = lots.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0)
+    const taken = Math.min(stock, remaining)
+    const average = stock > 0 ? value / stock : 0
+    estimated = lots.some(lot => lot.estimated)
+    priceMissing = lots.some(lot => lot.priceMissing)
+
+    // The remaining stock keeps the average as a single lot
+    lots.splice(0, lots.length)
+    if (stock - taken > 0) lots.push({ quantity: stock - taken, unitCost: average, estimated, priceMissing })
+    return { cost: taken * average, uncovered: remaining - taken, estimated: taken > 0 && estimated, priceMissing: taken > 0 && priceMissing }
+  }
+
+  while (remaining > 0 && lots.length > 0) {
+    const lot = lots[0]
+    const taken = Math.min(lot.quantity, remaining)
+    cost += taken * lot.unitCost
+    estimated = estimated || lot.estimated
+    priceMissing = priceMissing || lot.priceMissing
+    lot.quantity -= taken
+    remaining -= taken
+    if (lot.quantity <= 0) lots.shift()
+  }
+
+  return { cost, uncovered: remaining, estimated, priceMissing }
+}
+
+/**
+ * Calculates the unit cost of each feed type's consumption per day from delivery lots
+ *
+ * Deliveries without a price are valued at the fallback price of the
+ * delivery date. Consumption not covered by stock on hand (before the first
+ * delivery or beyond the booked stock) falls back to the price of the
+ * feeding day. A stock-take above the lots adds stock at the current
+ * average cost. Estimated and missing fallback prices are carried through
+ * the lots to the consumption valued with them.
+ *
+ * @param movements.consumption - Daily consumption in kg of all areas, from the first delivery on
+ * @param feedTypes - Unit of each feed type's deliveries, stock-takes and delivery prices; missing ones are in kg
+ * @returns Unit cost per kg for each feed type and day, keyed by unitCostKey
+ */
+export function calculateDeliveryUnitCosts(
+  mode: Exclude<FeedCostingMode, 'price_tier'>,
+  movements: {
+    deliveries: StockDelivery[]
+    stockTakes: StockTake[]
+    consumption: DailyFeedConsumption[]
+  },
+  fallbackPrice: FallbackPrice,
+  feedTypes: Record<string, FeedTypeUnit>
+): Map<string, DeliveryUnitCost> {
+  const unitCosts = new Map<string, DeliveryUnitCost>()
+  const deliveriesById = new Map(movements.deliveries.map(delivery => [delivery.id, delivery]))
+  const feedTypeIds = new Set([
+    ...movements.deliveries.map(delivery => delivery.feed_type_id),
+    ...movements.stockTakes.map(stockTake => stockTake.feed_type_id),
+  ])
+
+  for (const feedTypeId of feedTypeIds) {
+    const feedType = feedTypes[feedTypeId] || {}
+
+    // Without a conversion factor the lots cannot be matched to the kg consumption
+    if (!hasConversionFactor(feedType)) {
+      movements.consumption
+        .filter(item => item.feed_type_id === feedTypeId)
+        .forEach(item => unitCosts.set(unitCostKey(feedTypeId, item.date), { unitCost: 0, estimated: false, priceMissing: true }))
+      continue
+    }
+
+    // Fallback prices are per kg, the lots per unit of the feed type;
+    // a price that cannot be converted (e.g. bags without a bag weight) counts as missing
+    const fallbackPerUnit = (date: string): ReturnType<FallbackPrice> => {
+      const fallback = fallbackPrice(feedTypeId, date)
+      const price = fallback && convertUnitPrice(fallback.price, 'kg', feedType.unit, feedType)
+      return fallback && price !== null ? { ...fallback, price } : null
+    }
+    const lots: Lot[] = []
+    const ledger = buildStockLedger(feedTypeId, movements, feedType)
+
+    for (const entry of ledger) {
+      if (entry.type === 'delivery') {
+        const delivery = deliveriesById.get(entry.referenceId!)
+        lots.push(delivery?.price_per_unit != null
+          ? { quantity: entry.quantity, unitCost: Number(delivery.price_per_unit), estimated: false, priceMissing: false }
+          : fallbackLot(entry.quantity, fallbackPerUnit(entry.date)))
+      } else if (entry.type === 'consumption') {
+        const quantity = -entry.quantity
+        if (quantity <= 0) continue
+
+        const draw = drawFromLots(lots, quantity, mode)
+        const fallback = draw.uncovered > 0 ? fallbackPerUnit(entry.date) : null
+        const costPerUnit = (draw.cost + draw.uncovered * (fallback?.price ?? 0)) / quantity
+        const costPerKg = convertUnitPrice(costPerUnit, feedType.unit, 'kg', feedType)
+        unitCosts.set(unitCostKey(feedTypeId, entry.date), {
+          unitCost: costPerKg ?? 0,
+          estimated: draw.estimated || (fallback?.estimated ?? false),
+          priceMissing: costPerKg === null || draw.priceMissing || (draw.uncovered > 0 && fallback === null),
+        })
+      } else {
+        // Correct the lots to the counted stock; shrinkage is not charged to consumption
+        const stock = lots.reduce((sum, lot) => sum + lot.quantity, 0)
+        const difference = entry.balance - stock
+
+        if (difference < 0) {
+          drawFromLots(lots, -difference, mode)
+        } else if (difference > 0) {
+          const value = lots.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0)
+          lots.push(stock > 0
+            ? {
+              quantity: difference,
+              unitCost: value / stock,
+              estimated: lots.some(lot => lot.estimated),
+              priceMissing: lots.some(lot => lot.priceMissing),
+            }
+            : fallbackLot(difference, fallbackPerUnit(entry.date)))
+        }
+      }
+    }
+  }
+
+  return unitCosts
+}
+
+/**
+ * Loads consumption per feed type and day of all areas within a date range
+ */
+export async function loadDailyFeedConsumption(
+  supabase: SupabaseClient,
+  farmId: string,
+  since: string,
+  until?: string
+): Promise<DailyFeedConsumption[]> {
+  const totals = new Map<string, DailyFeedConsumption>()
+  const pageSize = 1000
+  let from = 0
+
+  while (true) {
+    let query = supabase
+      .from('consumption')
+      .select('feed_type_id, date, quantity')
+      .eq('farm_id', farmId)
+      .gte('date', since)
+
+    if (until) {
+      query = query.lte('date', until)
+    }
+
+    // id breaks ties within a day, so no row is repeated or skipped at page boundaries
+    const { data: page, error } = await query
+      .order('date')
+      .order('id')
+      .range(from, from + pageSize - 1)
+
+    if (error) {
+      throw new Error(`Fehler beim Laden der Verbrauchsdaten: ${error.message}`)
+    }
+
+    for (const row of (page || []) as DailyFeedConsumption[]) {
+      const key = unitCostKey(row.feed_type_id, row.date)
+      const entry = totals.get(key) || { feed_type_id: row.feed_type_id, date: row.date, quantity: 0 }
+      entry.quantity += Number(row.quantity)
+      totals.set(key, entry)
+    }
+
+    if (!page || page.length < pageSize) break
+    from += pageSize
+  }
+
+  return Array.from(totals.values())
+}
+
+/**
+ * Loads the farm's costing mode, falling back to price tiers
+ */
+export async function loadFeedCostingMode(supabase: SupabaseClient, farmId: string): Promise<FeedCostingMode> {
+  const { data, error } = await supabase
+    .from('farms')
+    .select('feed_costing_mode')
+    .eq('id', farmId)
+    .single()
+
+  if (error) {
+    throw new Error(`Fehler beim Laden der Kostenrechnung: ${error.message}`)
+  }
+
+  return (data?.feed_costing_mode as FeedCostingMode) || 'price_tier'
+}
+
+/**
+ * Loads deliveries and stock-takes up to a date and values the consumption
+ * fed from them
+ *
+ * @returns Unit cost per kg for each feed type and day, keyed by unitCostKey
+ */
+export async function loadDeliveryUnitCosts(
+  supabase: SupabaseClient,
+  farmId: string,
+  mode: Exclude<FeedCostingMode, 'price_tier'>,
+  until: string,
+  fallbackPrice: FallbackPrice
+): Promise<Map<string, DeliveryUnitCost>> {
+  const [deliveriesResult, stockTakesResult, feedTypesResult] = await Promise.all([
+    supabase
+      .from('feed_deliveries')
+      .select('id, feed_type_id, delivery_date, quantity, price_per_unit')
+      .eq('farm_id', farmId)
+      .lte('delivery_date', until),
+    supabase
+      .from('stock_takes')
+      .select('id, feed_type_id, date, counted_quantity')
+      .eq('farm_id', farmId)
+      .lte('date', until),
+    supabase
+      .from('feed_types')
+      .select('id, unit, bag_weight_kg, density_kg_per_l')
+      .eq('farm_id', farmId)
+  ])
+
+  const error = deliveriesResult.error || stockTakesResult.error || feedTypesResult.error
+  if (error) {
+    throw new Error(`Fehler beim Laden der Lieferungen: ${error.message}`)
+  }
+
+  const deliveries = (deliveriesResult.data || []) as StockDelivery[]
+  const stockTakes = (stockTakesResult.data || []) as StockTake[]
+  const firstDates = [...deliveries.map(d => d.delivery_date), ...stockTakes.map(s => s.date)].sort()
+
+  if (firstDates.length === 0) {
+    return new Map()
+  }
+
+  const feedTypes: Record<string, FeedTypeUnit> = {}
+  ;((feedTypesResult.data || []) as (FeedTypeUnit & { id: string })[]).forEach(feedType => {
+    feedTypes[feedType.id] = feedType
+  })
+
+  const consumption = await loadDailyFeedConsumption(supabase, farmId, firstDates[0], until)
+  return calculateDeliveryUnitCosts(mode, { deliveries, stockTakes, consumption }, fallbackPrice, feedTypes)
+}
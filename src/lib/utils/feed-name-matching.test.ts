@@ -0,0 +1,91 @@
+/**
+ * Unit Tests for Feed Name Matching
+ *
+ * These tests ensure imported feed names are matched to existing feed types
+ * by exact name, saved alias or normalized name.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { matchFeedNames, normalizeFeedName } from './feed-name-matching'
+
+// ============================================================================
+// TEST DATA FIXTURES
+// ============================================================================
+
+const feedTypes = [
+  { id: 'ft-mais', name: 'Maissilage', normalized_name: null },
+  { id: 'ft-mlf', name: 'Milchleistungsfutter 18/4', normalized_name: 'MLF' },
+  { id: 'ft-soja', name: 'Sojaschrot', normalized_name: 'Soja' },
+  { id: 'ft-soja-bio', name: 'Sojaschrot Bio', normalized_name: 'Soja' },
+]
+
+const aliases = [
+  { feed_type_id: 'ft-mlf', alias: 'Kraftfutter Kühe' },
+]
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('normalizeFeedName', () => {
+  it('should ignore case, punctuation and harvest years', () => {
+    expect(normalizeFeedName('Maissilage 2024')).toBe('maissilage')
+    expect(normalizeFeedName('  MAISSILAGE (2023) ')).toBe('maissilage')
+  })
+
+  it('should fold umlauts and sharp s', () => {
+    expect(normalizeFeedName('Kraftfutter Kühe')).toBe('kraftfutter kuhe')
+    expect(normalizeFeedName('Süßlupine')).toBe('susslupine')
+  })
+
+  it('should keep numbers that are not years', () => {
+    expect(normalizeFeedName('MLF 18/4')).toBe('mlf 18 4')
+  })
+})
+
+describe('matchFeedNames', () => {
+  it('should prefer exact name matches', () => {
+    const [match] = matchFeedNames(['Maissilage'], feedTypes, aliases)
+
+    expect(match).toEqual({
+      importName: 'Maissilage',
+      feedTypeId: 'ft-mais',
+      feedTypeName: 'Maissilage',
+      reason: 'exact',
+    })
+  })
+
+  it('should match saved aliases', () => {
+    const [match] = matchFeedNames(['kraftfutter kühe'], feedTypes, aliases)
+
+    expect(match.feedTypeId).toBe('ft-mlf')
+    expect(match.reason).toBe('alias')
+  })
+
+  it('should match by normalized name or feed type name', () => {
+    const [byName, byNormalizedName] = matchFeedNames(['Maissilage 2024', 'mlf'], feedTypes, aliases)
+
+    expect(byName.feedTypeId).toBe('ft-mais')
+    expect(byName.reason).toBe('normalized')
+    expect(byNormalizedName.feedTypeId).toBe('ft-mlf')
+  })
+
+  it('should leave ambiguous names unmatched', () => {
+    const [match] = matchFeedNames(['Soja'], feedTypes, aliases)
+
+    expect(match.feedTypeId).toBeNull()
+    expect(match.reason).toBeNull()
+  })
+
+  it('should leave unknown names unmatched', () => {
+    const [match] = matchFeedNames(['Grassilage'], feedTypes, aliases)
+
+    expect(match.feedTypeId).toBeNull()
+  })
+
+  it('should ignore aliases of deleted feed types', () => {
+    const [match] = matchFeedNames(['Altes Futter'], feedTypes, [{ feed_type_id: 'ft-deleted', alias: 'Altes Futter' }])
+
+    expect(match.feedTypeId).toBeNull()
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Feed Name Matching Utilities
+ *
+ * Matches feed names found in import files to existing feed types, so
+ * "Maissilage 2024" and "Maissilage" do not end up as two feed types.
+ */
+
+export interface FeedTypeForMatching {
+  id: string
+  name: string
+  normalized_name: string | null
+}
+
+export interface FeedTypeAlias {
+  feed_type_id: string
+  alias: string
+}
+
+export type FeedNameMatchReason = 'exact' | 'alias' | 'normalized'
+
+export interface FeedNameMatch {
+  /** Feed name as it appears in the import file */
+  importName: string
+  /** Proposed feed type, or null if a new feed type would be created */
+  feedTypeId: string | null
+  feedTypeName: string | null
+  reason: FeedNameMatchReason | null
+}
+
+/**
+ * Normalizes a feed name for fuzzy comparison
+ *
+ * - Case-insensitive, umlauts and accents folded (ä → a, ß → ss)
+ * - Harvest years removed ("Maissilage 2024" → "maissilage")
+ * - Punctuation and repeated whitespace collapsed
+ */
+export function normalizeFeedName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\b(19|20)\d{2}\b/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+/**
+ * Proposes a feed type for every imported feed name
+ *
+ * Priority:
+ * 1. Exact name match (case-sensitive, as used by the import so far)
+ * 2. Saved alias (compared normalized)
+ * 3. Normalized name: the feed type's normalized_name or name, compared normalized
+ *
+ * Names matching several feed types on the same level are left unmatched,
+ * so the user has to decide in the upload preview.
+ *
+ * @param importNames - Feed names from the parsed file
+ * @param feedTypes - Existing feed types of the farm
+ * @param aliases - Saved aliases of the farm
+ * @returns One match entry per import name, in input order
+ */
+export function matchFeedNames(
+  importNames: string[],
+  feedTypes: FeedTypeForMatching[],
+  aliases: FeedTypeAlias[] = []
+): FeedNameMatch[] {
+  const feedTypesById = new Map(feedTypes.map(ft => [ft.id, ft]))
+
+  const uniqueMatch = (candidates: FeedTypeForMatching[]) => {
+    const ids = new Set(candidates.map(c => c.id))
+    return ids.size === 1 ? candidates[0] : null
+  }
+
+  return importNames.map(importName => {
+    const unmatched: FeedNameMatch = { importName, feedTypeId: null, feedTypeName: null, reason: null }
+    const toMatch = (feedType: FeedTypeForMatching | null | undefined, reason: FeedNameMatchReason): FeedNameMatch | null =>
+      feedType ? { importName, feedTypeId: feedType.id, feedTypeName: feedType.name, reason } : null
+
+    const exact = toMatch(feedTypes.find(ft => ft.name === importName), 'exact')
+    if (exact) return exact
+
+    const normalized = normalizeFeedName(importName)
+    if (!normalized) return unmatched
+
+    const aliasCandidates = aliases
+      .filter(a => normalizeFeedName(a.alias) === normalized)
+      .map(a => feedTypesById.get(a.feed_type_id))
+      .filter((ft): ft is FeedTypeForMatching => !!ft)
+    const alias = toMatch(uniqueMatch(aliasCandidates), 'alias')
+    if (alias) return alias
+
+    const normalizedCandidates = feedTypes.filter(ft =>
+      (ft.normalized_name && normalizeFeedName(ft.normalized_name) === normalized) ||
+      normalizeFeedName(ft.name) === normalized
+    )
+    return toMatch(uniqueMatch(normalizedCandidates), 'normalized') || unmatched
+  })
+}
@@ -0,0 +1,120 @@
+/**
+ * Unit Tests for Growth Tracking
+ *
+ * These tests ensure weighings are combined into a growth curve, daily gain
+ * and feed conversion are derived per period between weighings and the
+ * breed target curve is aligned to the stocking weight.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseIndividualWeights,
+  calculateSampleStatistics,
+  buildGrowthCurve,
+  calculateGrowthPeriods,
+  getTargetWeight,
+  buildTargetCurve,
+  type Weighing
+} from './growth'
+
+// ============================================================================
+// TEST DATA FIXTURES
+// ============================================================================
+
+const weighings: Weighing[] = [
+  { weighing_date: '2025-09-15', sample_size: 10, average_weight_kg: 40 },
+  { weighing_date: '2025-09-15', sample_size: 30, average_weight_kg: 44 },
+  { weighing_date: '2025-09-29', sample_size: 20, average_weight_kg: 55 },
+]
+
+const consumption = [
+  { date: '2025-09-01', quantity: 100 },
+  { date: '2025-09-10', quantity: 1500 },
+  { date: '2025-09-15', quantity: 1750 },
+  { date: '2025-09-20', quantity: 3000 },
+]
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('parseIndividualWeights', () => {
+  it('should read decimal commas and skip invalid values', () => {
+    expect(parseIndividualWeights('52,5; 48 55\n0 abc')).toEqual([52.5, 48, 55])
+  })
+})
+
+describe('calculateSampleStatistics', () => {
+  it('should calculate average, standard deviation and coefficient of variation', () => {
+    const statistics = calculateSampleStatistics([50, 52, 54, 56])
+
+    expect(statistics.sampleSize).toBe(4)
+    expect(statistics.averageWeight).toBe(53)
+    expect(statistics.standardDeviation).toBeCloseTo(2.582, 3)
+    expect(statistics.coefficientOfVariation).toBeCloseTo(4.872, 3)
+  })
+
+  it('should handle empty samples', () => {
+    expect(calculateSampleStatistics([]).averageWeight).toBe(0)
+  })
+})
+
+describe('buildGrowthCurve', () => {
+  it('should start at the stocking weight and combine pens weighed on the same day', () => {
+    const points = buildGrowthCurve(weighings, '2025-09-01', 30)
+
+    expect(points.map(point => point.day)).toEqual([0, 14, 28])
+    expect(points[0].averageWeight).toBe(30)
+    // (10 * 40 + 30 * 44) / 40
+    expect(points[1].averageWeight).toBe(43)
+    expect(points[1].sampleSize).toBe(40)
+  })
+
+  it('should start at the first weighing without stocking weight', () => {
+    expect(buildGrowthCurve(weighings, '2025-09-01', null)[0].day).toBe(14)
+  })
+})
+
+describe('calculateGrowthPeriods', () => {
+  it('should derive daily gain and feed conversion from the feed between weighings', () => {
+    const points = buildGrowthCurve(weighings, '2025-09-01', 30)
+    const periods = calculateGrowthPeriods(points, consumption, () => 100)
+
+    expect(periods).toHaveLength(2)
+    // 13 kg in 14 days; 3250 kg feed for 100 animals
+    expect(periods[0].dailyGainGrams).toBeCloseTo(928.57, 2)
+    expect(periods[0].feedQuantity).toBe(3250)
+    expect(periods[0].feedConversionRatio).toBeCloseTo(2.5, 6)
+    // 12 kg in 14 days; 3000 kg feed
+    expect(periods[1].dailyGainGrams).toBeCloseTo(857.14, 2)
+    expect(periods[1].feedConversionRatio).toBeCloseTo(2.5, 6)
+  })
+
+  it('should report no feed conversion without weight gain', () => {
+    const points = buildGrowthCurve([{ weighing_date: '2025-09-15', sample_size: 5, average_weight_kg: 30 }], '2025-09-01', 30)
+
+    expect(calculateGrowthPeriods(points, consumption, () => 100)[0].feedConversionRatio).toBeNull()
+  })
+})
+
+describe('getTargetWeight', () => {
+  it('should align the target curve to the stocking weight', () => {
+    expect(getTargetWeight('pig_finishing', 28, 0)).toBeCloseTo(28, 6)
+    expect(getTargetWeight('pig_finishing', 28, 14)).toBeCloseTo(38, 6)
+    // 33 kg are reached at day 77, one week later 38 kg
+    expect(getTargetWeight('pig_finishing', 33, 7)).toBeCloseTo(38, 6)
+  })
+
+  it('should extend the curve beyond its last point', () => {
+    expect(getTargetWeight('pig_finishing', 125, 14)).toBeCloseTo(135, 6)
+  })
+})
+
+describe('buildTargetCurve', () => {
+  it('should cover each day of the cycle', () => {
+    const curve = buildTargetCurve('pig_finishing', 28, '2025-09-01', '2025-09-30')
+
+    expect(curve).toHaveLength(30)
+    expect(curve[0].weight).toBeCloseTo(28, 6)
+  })
+})
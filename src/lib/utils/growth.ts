@@ -0,0 +1,233 @@
+/**
+ * Growth Tracking
+ *
+ * Builds the growth curve of a cycle from intermediate weighings of sample
+ * pens, compares it with a breed target curve and derives the daily gain and
+ * feed conversion ratio of each period between two weighings.
+ */
+
+import { calculateCycleDuration } from './livestock-calculations'
+
+export type GrowthTargetCurve = 'piglet_rearing' | 'pig_finishing' | 'pig_finishing_high' | 'bull_fattening'
+
+/**
+ * Breed target curves as weight (kg) by age (days)
+ * The curves are aligned to a cycle by the age at which the target reaches
+ * the stocking weight.
+ */
+export const GROWTH_TARGET_CURVES: Record<GrowthTargetCurve, { label: string; points: [number, number][] }> = {
+  piglet_rearing: {
+    label: 'Ferkelaufzucht',
+    points: [[28, 8], [35, 10], [42, 12.5], [49, 15.5], [56, 19], [63, 23], [70, 28]],
+  },
+  pig_finishing: {
+    label: 'Schweinemast (ca. 800 g/Tag)',
+    points: [[70, 28], [84, 38], [98, 49], [112, 60], [126, 71], [140, 82], [154, 93], [168, 104], [182, 115], [196, 125]],
+  },
+  pig_finishing_high: {
+    label: 'Schweinemast (ca. 900 g/Tag)',
+    points: [[70, 30], [84, 42], [98, 54], [112, 67], [126, 80], [140, 93], [154, 106], [168, 118], [182, 130]],
+  },
+  bull_fattening: {
+    label: 'Bullenmast (ca. 1.300 g/Tag)',
+    points: [[180, 220], [240, 300], [300, 380], [360, 460], [420, 540], [480, 615], [540, 690], [600, 760]],
+  },
+}
+
+export interface Weighing {
+  weighing_date: string
+  sample_size: number
+  average_weight_kg: number
+}
+
+export interface GrowthPoint {
+  date: string
+  /** Days since the cycle start */
+  day: number
+  averageWeight: number
+  sampleSize: number
+}
+
+export interface GrowthPeriod {
+  fromDate: string
+  toDate: string
+  days: number
+  startWeight: number
+  endWeight: number
+  dailyGainGrams: number
+  feedQuantity: number
+  averageAnimals: number
+  /** Feed per kg weight gain, null without gain or feed */
+  feedConversionRatio: number | null
+}
+
+export interface SampleStatistics {
+  sampleSize: number
+  averageWeight: number
+  standardDeviation: number
+  /** Standard deviation in percent of the average, a measure of uniformity */
+  coefficientOfVariation: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS)
+
+/**
+ * Parses individual weights entered as a list ("52,5; 48 55")
+ */
+export function parseIndividualWeights(input: string): number[] {
+  return input
+    .split(/[\s;]+/)
+    .map(value => parseFloat(value.replace(',', '.')))
+    .filter(value => !isNaN(value) && value > 0)
+}
+
+/**
+ * Calculates average and spread of individually weighed animals
+ */
+export function calculateSampleStatistics(weights: number[]): SampleStatistics {
+  const sampleSize = weights.length
+  if (sampleSize === 0) {
+    return { sampleSize: 0, averageWeight: 0, standardDeviation: 0, coefficientOfVariation: 0 }
+  }
+
+  const averageWeight = weights.reduce((sum, weight) => sum + weight, 0) / sampleSize
+  const variance = sampleSize > 1
+    ? weights.reduce((sum, weight) => sum + (weight - averageWeight) ** 2, 0) / (sampleSize - 1)
+    : 0
+  const standardDeviation = Math.sqrt(variance)
+
+  return {
+    sampleSize,
+    averageWeight,
+    standardDeviation,
+    coefficientOfVariation: averageWeight > 0 ? (standardDeviation / averageWeight) * 100 : 0,
+  }
+}
+
+/**
+ * Builds the growth curve of a cycle
+ *
+ * Weighings of several pens on the same day are combined, weighted by
+ * sample size. The stocking weight is the first point of the curve.
+ */
+export function buildGrowthCurve(
+  weighings: Weighing[],
+  cycleStartDate: string,
+  startWeight?: number | null
+): GrowthPoint[] {
+  const byDate = new Map<string, { weight: number; sampleSize: number }>()
+
+  weighings.forEach(weighing => {
+    const entry = byDate.get(weighing.weighing_date) || { weight: 0, sampleSize: 0 }
+    entry.weight += weighing.average_weight_kg * weighing.sample_size
+    entry.sampleSize += weighing.sample_size
+    byDate.set(weighing.weighing_date, entry)
+  })
+
+  const points: GrowthPoint[] = Array.from(byDate.entries())
+    .filter(([date, entry]) => date >= cycleStartDate && entry.sampleSize > 0)
+    .map(([date, entry]) => ({
+      date,
+      day: daysBetween(cycleStartDate, date),
+      averageWeight: entry.weight / entry.sampleSize,
+      sampleSize: entry.sampleSize,
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date))
+
+  if (startWeight && (points.length === 0 || points[0].day > 0)) {
+    points.unshift({ date: cycleStartDate, day: 0, averageWeight: startWeight, sampleSize: 0 })
+  }
+
+  return points
+}
+
+/**
+ * Calculates daily gain and feed conversion ratio between consecutive weighings
+ *
+ * @param consumption - Feed consumed by the weighed animals
+ * @param averageAnimals - Average head count between two dates
+ */
+export function calculateGrowthPeriods(
+  points: GrowthPoint[],
+  consumption: { date: string; quantity: number }[],
+  averageAnimals: (fromDate: string, toDate: string) => number
+): GrowthPeriod[] {
+  const periods: GrowthPeriod[] = []
+
+  for (let index = 1; index < points.length; index++) {
+    const from = points[index - 1]
+    const to = points[index]
+    const days = to.day - from.day
+    const gain = to.averageWeight - from.averageWeight
+    const animals = averageAnimals(from.date, to.date)
+
+    // Feed of the days after the first weighing up to the second weighing
+    const feedQuantity = consumption
+      .filter(item => item.date > from.date && item.date <= to.date)
+      .reduce((sum, item) => sum + item.quantity, 0)
+
+    periods.push({
+      fromDate: from.date,
+      toDate: to.date,
+      days,
+      startWeight: from.averageWeight,
+      endWeight: to.averageWeight,
+      dailyGainGrams: days > 0 ? (gain / days) * 1000 : 0,
+      feedQuantity,
+      averageAnimals: animals,
+      feedConversionRatio: gain > 0 && animals > 0 && feedQuantity > 0
+        ? feedQuantity / (gain * animals)
+        : null,
+    })
+  }
+
+  return periods
+}
+
+const interpolate = (points: [number, number][], x: number, from: 0 | 1, to: 0 | 1): number => {
+  if (x <= points[0][from]) {
+    const [a, b] = [points[0], points[1]]
+    return a[to] + (x - a[from]) * (b[to] - a[to]) / (b[from] - a[from])
+  }
+
+  for (let index = 1; index < points.length; index++) {
+    const [a, b] = [points[index - 1], points[index]]
+    if (x <= b[from]) {
+      return a[to] + (x - a[from]) * (b[to] - a[to]) / (b[from] - a[from])
+    }
+  }
+
+  const [a, b] = [points[points.length - 2], points[points.length - 1]]
+  return a[to] + (x - a[from]) * (b[to] - a[to]) / (b[from] - a[from])
+}
+
+/**
+ * Gets the target weight on a day of the cycle
+ * Outside the curve the first or last segment is extended linearly.
+ *
+ * @param startWeight - Stocking weight that aligns the curve to the cycle
+ */
+export function getTargetWeight(curve: GrowthTargetCurve, startWeight: number, day: number): number {
+  const { points } = GROWTH_TARGET_CURVES[curve]
+  const startAge = interpolate(points, startWeight, 1, 0)
+  return interpolate(points, startAge + day, 0, 1)
+}
+
+/**
+ * Builds the target curve for each day of the cycle
+ */
+export function buildTargetCurve(
+  curve: GrowthTargetCurve,
+  startWeight: number,
+  cycleStartDate: string,
+  cycleEndDate?: string | null
+): { day: number; weight: number }[] {
+  const days = calculateCycleDuration(cycleStartDate, cycleEndDate)
+  return Array.from({ length: days }, (_, day) => ({
+    day,
+    weight: getTargetWeight(curve, startWeight, day),
+  }))
+}
@@ -0,0 +1,111 @@
+/**
+ * Unit Tests for Import Validation
+ *
+ * These tests ensure suspicious rows are flagged before an import, can be
+ * left out of the import and exported for correction.
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { ParsedRow } from '@/lib/csv-parser'
+import { buildParsedData } from '@/lib/import-adapters/shared'
+import {
+  buildRejectedRowsCsv,
+  excludeSourceRows,
+  getFlaggedSourceRows,
+  validateImportData,
+} from './import-validation'
+
+// ============================================================================
+// TEST DATA FIXTURES
+// ============================================================================
+
+function row(date: string, area: string, quantity: number, sourceRow: number): ParsedRow {
+  return { date, area, feedSystem: 'Ventil 1', feeds: { Mais: quantity }, total: quantity, sourceRows: [sourceRow] }
+}
+
+const history = [
+  { area: 'Abteil 1', date: '2024-03-01', total: 100 },
+  { area: 'Abteil 1', date: '2024-03-02', total: 110 },
+  { area: 'Abteil 1', date: '2024-03-03', total: 90 },
+]
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('validateImportData', () => {
+  it('should pass on plausible data', () => {
+    const data = buildParsedData([row('2024-03-04', 'Abteil 1', 105, 0)])
+
+    expect(validateImportData(data, { today: '2024-03-10', history })).toEqual([])
+  })
+
+  it('should report parser issues, duplicates and future dates', () => {
+    const data = buildParsedData(
+      [row('2024-03-04', 'Abteil 1', 100, 0), row('2024-03-04', 'Abteil 1', 100, 2), row('2024-04-01', 'Abteil 2', 50, 3)],
+      undefined,
+      [{ sourceRow: 1, type: 'invalid_date', message: 'Ungültiges Datum "32.03.2024"' }]
+    )
+
+    const issues = validateImportData(data, { today: '2024-03-10' })
+
+    expect(issues.map(issue => [issue.type, issue.sourceRows])).toEqual([
+      ['invalid_date', [1]],
+      ['duplicate', [2]],
+      ['future_date', [3]],
+    ])
+  })
+
+  it('should flag daily totals far off the trailing average', () => {
+    const data = buildParsedData([
+      row('2024-03-04', 'Abteil 1', 250, 0),
+      row('2024-03-04', 'Abteil 2', 250, 1),
+      row('2024-03-05', 'Abteil 1', 40, 2),
+    ])
+
+    const issues = validateImportData(data, { today: '2024-03-10', history })
+
+    // Abteil 2 has no history yet; 2024-03-05 is compared including the imported 250 kg
+    expect(issues.map(issue => [issue.type, issue.area, issue.date])).toEqual([
+      ['outlier', 'Abteil 1', '2024-03-04'],
+      ['outlier', 'Abteil 1', '2024-03-05'],
+    ])
+  })
+})
+
+describe('excludeSourceRows', () => {
+  it('should drop rows built from skipped data rows', () => {
+    const data = buildParsedData([row('2024-03-04', 'Abteil 1', 100, 0), row('2024-03-05', 'Abteil 1', 100, 1)])
+
+    const result = excludeSourceRows(data, [1])
+
+    expect(result.rows).toHaveLength(1)
+    expect(result.dateRange).toEqual({ start: '2024-03-04', end: '2024-03-04' })
+  })
+
+  it('should fail if nothing is left', () => {
+    const data = buildParsedData([row('2024-03-04', 'Abteil 1', 100, 0)])
+
+    expect(() => excludeSourceRows(data, getFlaggedSourceRows([
+      { type: 'future_date', message: '', sourceRows: [0], date: null, area: null },
+    ]))).toThrow('Keine gültigen Datenzeilen gefunden')
+  })
+})
+
+describe('buildRejectedRowsCsv', () => {
+  it('should export flagged rows with their messages', () => {
+    const table = {
+      header: ['Datum', 'Gruppe', 'Menge'],
+      rows: [['01.03.2024', 'Abteil 1', '100'], ['32.03.2024', 'Abteil; 2', '50']],
+    }
+
+    const csv = buildRejectedRowsCsv(table, [
+      { type: 'invalid_date', message: 'Ungültiges Datum "32.03.2024"', sourceRows: [1], date: null, area: null },
+    ])
+
+    expect(csv).toBe(
+      'Datum;Gruppe;Menge;Fehler\r\n' +
+      '32.03.2024;"Abteil; 2";50;"Ungültiges Datum ""32.03.2024"""\r\n'
+    )
+  })
+})
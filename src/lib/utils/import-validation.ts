@@ -0,0 +1,212 @@
+/**
+ * Import Validation Utilities
+ *
+ * Row-level checks on parsed import data, shown as a validation report in
+ * the upload preview. Flagged rows can be skipped on import and downloaded
+ * as CSV for correction.
+ */
+
+import type { ParsedData } from '@/lib/csv-parser'
+import { buildParsedData, type DelimitedTable } from '@/lib/import-adapters/shared'
+
+export type ImportIssueType = 'invalid_date' | 'negative_quantity' | 'duplicate' | 'future_date' | 'outlier'
+
+export const IMPORT_ISSUE_LABELS: Record<ImportIssueType, string> = {
+  invalid_date: 'Ungültiges Datum',
+  negative_quantity: 'Negative Menge',
+  duplicate: 'Doppelte Zeile',
+  future_date: 'Datum in der Zukunft',
+  outlier: 'Auffällige Menge',
+}
+
+export interface ImportIssue {
+  type: ImportIssueType
+  message: string
+  /** Indices of the affected data rows (DelimitedTable.rows) */
+  sourceRows: number[]
+  date: string | null
+  area: string | null
+}
+
+/** Stored consumption of one area on one day */
+export interface AreaDailyTotal {
+  area: string
+  date: string
+  total: number
+}
+
+export interface ValidateImportOptions {
+  /** Today as ISO date; later dates are flagged */
+  today: string
+  /** Stored daily totals per area around the import's date range */
+  history?: AreaDailyTotal[]
+  /** Days before a date that make up its trailing average (default 14) */
+  trailingDays?: number
+  /** Days with data needed before outliers are flagged (default 3) */
+  minHistoryDays?: number
+  /** A daily total above average × factor or below average ÷ factor is flagged (default 2) */
+  outlierFactor?: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const addDays = (isoDate: string, days: number) =>
+  new Date(Date.parse(`${isoDate}T00:00:00Z`) + days * DAY_MS).toISOString().split('T')[0]
+
+const formatKg = (value: number) => value.toLocaleString('de-DE', { maximumFractionDigits: 1 })
+
+/**
+ * Validates parsed import data row by row
+ *
+ * - Invalid dates and negative quantities, as reported by the parser
+ * - Duplicate rows: the same date, area and feed system more than once in the file
+ * - Dates after today
+ * - Outliers: an area's daily total far off its trailing average, using stored
+ *   data and earlier days of the file
+ *
+ * @returns Issues ordered by first affected data row
+ */
+export function validateImportData(data: ParsedData, options: ValidateImportOptions): ImportIssue[] {
+  const {
+    today,
+    history = [],
+    trailingDays = 14,
+    minHistoryDays = 3,
+    outlierFactor = 2,
+  } = options
+  const issues: ImportIssue[] = []
+
+  for (const sourceIssue of data.sourceIssues || []) {
+    issues.push({
+      type: sourceIssue.type,
+      message: sourceIssue.message,
+      sourceRows: [sourceIssue.sourceRow],
+      date: null,
+      area: null,
+    })
+  }
+
+  // Duplicates: keep the first occurrence, flag the later ones
+  const seenRows = new Set<string>()
+  for (const row of data.rows) {
+    const key = `${row.date}|${row.area}|${row.feedSystem}`
+    if (seenRows.has(key)) {
+      issues.push({
+        type: 'duplicate',
+        message: `${row.area} / ${row.feedSystem} am ${row.date} ist mehrfach in der Datei enthalten`,
+        sourceRows: row.sourceRows || [],
+        date: row.date,
+        area: row.area,
+      })
+    }
+    seenRows.add(key)
+  }
+
+  for (const row of data.rows) {
+    if (row.date > today) {
+      issues.push({
+        type: 'future_date',
+        message: `Datum ${row.date} liegt in der Zukunft`,
+        sourceRows: row.sourceRows || [],
+        date: row.date,
+        area: row.area,
+      })
+    }
+  }
+
+  // Daily totals per area: stored data, overridden by the file where both exist
+  const dailyTotals = new Map<string, Map<string, number>>()
+  const totalsOf = (area: string) => {
+    if (!dailyTotals.has(area)) dailyTotals.set(area, new Map())
+    return dailyTotals.get(area)!
+  }
+  history.forEach(entry => totalsOf(entry.area).set(entry.date, entry.total))
+
+  const importTotals = new Map<string, { area: string; date: string; total: number; sourceRows: number[] }>()
+  for (const row of data.rows) {
+    const key = `${row.area}|${row.date}`
+    const entry = importTotals.get(key) || { area: row.area, date: row.date, total: 0, sourceRows: [] }
+    entry.total += row.total
+    entry.sourceRows.push(...(row.sourceRows || []))
+    importTotals.set(key, entry)
+  }
+  importTotals.forEach(entry => totalsOf(entry.area).set(entry.date, entry.total))
+
+  importTotals.forEach(entry => {
+    const windowStart = addDays(entry.date, -trailingDays)
+    const trailing = Array.from(totalsOf(entry.area).entries())
+      .filter(([date]) => date >= windowStart && date < entry.date)
+      .map(([, total]) => total)
+
+    if (trailing.length < minHistoryDays) return
+
+    const average = trailing.reduce((sum, total) => sum + total, 0) / trailing.length
+    if (average <= 0) return
+
+    if (entry.total > average * outlierFactor || entry.total < average / outlierFactor) {
+      issues.push({
+        type: 'outlier',
+        message: `${formatKg(entry.total)} kg statt durchschnittlich ${formatKg(average)} kg pro Tag`,
+        sourceRows: entry.sourceRows,
+        date: entry.date,
+        area: entry.area,
+      })
+    }
+  })
+
+  const firstRow = (issue: ImportIssue) => Math.min(...issue.sourceRows, Number.MAX_SAFE_INTEGER)
+  return issues.sort((a, b) => firstRow(a) - firstRow(b))
+}
+
+/**
+ * Collects the data rows affected by any of the issues
+ */
+export function getFlaggedSourceRows(issues: ImportIssue[]): number[] {
+  return [...new Set(issues.flatMap(issue => issue.sourceRows))].sort((a, b) => a - b)
+}
+
+/**
+ * Removes parsed rows built from any of the given data rows
+ *
+ * @throws If no row is left
+ */
+export function excludeSourceRows(data: ParsedData, sourceRows: number[]): ParsedData {
+  if (sourceRows.length === 0) return data
+
+  const skipped = new Set(sourceRows)
+  const rows = data.rows.filter(row => !(row.sourceRows || []).some(index => skipped.has(index)))
+  const sourceIssues = (data.sourceIssues || []).filter(issue => !skipped.has(issue.sourceRow))
+
+  return {
+    ...data,
+    ...buildParsedData(rows, data.importAdapter, sourceIssues),
+  }
+}
+
+/**
+ * Builds a CSV of all flagged data rows for correction
+ *
+ * Rows keep the original columns, followed by a "Fehler" column, so the
+ * corrected file can be uploaded again. Semicolon-delimited for German Excel.
+ */
+export function buildRejectedRowsCsv(table: Pick<DelimitedTable, 'header' | 'rows'>, issues: ImportIssue[]): string {
+  const messagesByRow = new Map<number, string[]>()
+  issues.forEach(issue => {
+    issue.sourceRows.forEach(index => {
+      messagesByRow.set(index, [...(messagesByRow.get(index) || []), issue.message])
+    })
+  })
+
+  const escape = (value: string) =>
+    /[;"\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+  const lines = [[...table.header, 'Fehler'].map(escape).join(';')]
+  Array.from(messagesByRow.keys())
+    .sort((a, b) => a - b)
+    .forEach(index => {
+      const cells = table.header.map((_, column) => table.rows[index]?.[column] ?? '')
+      lines.push([...cells, messagesByRow.get(index)!.join(' | ')].map(escape).join(';'))
+    })
+
+  return lines.join('\r\n') + '\r\n'
+}
@@ -190,6 +190,13 @@ const mockSimpleConsumption: ConsumptionItem[] = mockConsumption.map(c => ({
   },
 }))
 
+// Futter A analysed with 35 % DM and 10 MJ ME/kg DM, Futter B without analysis
+const withNutrients = (items: ConsumptionItem[]): ConsumptionItem[] => items.map(c =>
+  c.feed_type_id === 'feed-1'
+    ? { ...c, dry_matter_kg: c.quantity * 0.35, energy_mj_me: c.quantity * 0.35 * 10, energy_mj_nel: null }
+    : c
+)
+
 // ============================================================================
 // TIMEFRAME FILTERING TESTS
 // ============================================================================
@@ -373,6 +380,127 @@ describe('calculateCycleMetrics', () => {
     expect(metrics.feedCostPerKg).toBe(0)
   })
 
+  it('should allocate per-animal costs to the average occupancy in animal_days mode', () => {
+    const peak = calculateCycleMetrics(mockCycle, mockConsumption, mockCostTransactions, [], 'peak')
+    const animalDays = calculateCycleMetrics(mockCycle, mockConsumption, mockCostTransactions, [], 'animal_days')
+
+    // 100 animals Sept 1-15, 50 animals Sept 16-30: 1500 + 750 animal-days over 30 days
+    expect(peak.totalAnimals).toBe(100)
+    expect(animalDays.totalAnimals).toBe(75)
+    expect(animalDays.peakAnimals).toBe(100)
+    expect(animalDays.totalAnimalDays).toBe(2250)
+    expect(animalDays.feedCostPerAnimal).toBeCloseTo(animalDays.totalFeedCost / 75, 6)
+    expect(peak.feedCostPerAnimal).toBeCloseTo(peak.totalFeedCost / 100, 6)
+
+    // Totals and per animal-day figures do not depend on the mode
+    expect(animalDays.totalCosts).toBe(peak.totalCosts)
+    expect(animalDays.feedCostPerAnimalDay).toBeCloseTo(peak.totalFeedCost / 2250, 6)
+    expect(animalDays.totalCostPerAnimalDay).toBe(peak.totalCostPerAnimalDay)
+  })
+
+  it('should derive mortality and disposal costs from logged losses', () => {
+    const cycleWithLosses: LivestockCount = {
+      ...mockSimpleCycle,
+      mortality_events: [
+        { event_date: '2025-09-11', event_type: 'death', count: 2, disposal_cost: 30 },
+        { event_date: '2025-09-21', event_type: 'cull', count: 3, disposal_cost: 20 },
+      ],
+    }
+    const metrics = calculateCycleMetrics(cycleWithLosses, mockSimpleConsumption, mockCostTransactions)
+
+    expect(metrics.lossCount).toBe(5)
+    expect(metrics.lossesByType).toEqual({ death: 2, emergency_slaughter: 0, cull: 3 })
+    // 5 of 100 animals stocked
+    expect(metrics.mortalityRate).toBe(5)
+    // Additional costs: 800 + 30 + 20 disposal
+    expect(metrics.disposalCosts).toBe(50)
+    expect(metrics.additionalCosts).toBe(850)
+    // 3000 animal-days minus 2 * 19 days and 3 * 9 days after the losses
+    expect(metrics.totalAnimalDays).toBe(2935)
+  })
+
+  it('should take revenue, end weight and head counts from sale batches', () => {
+    const cycleWithSales: LivestockCount = {
+      ...mockSimpleCycle,
+      animal_sales: [
+        { sale_date: '2025-09-20', count: 40, live_weight_per_animal_kg: 118, carcass_weight_per_animal_kg: 93, price_basis: 'per_kg_carcass', price: 2 },
+        { sale_date: '2025-09-30', count: 60, live_weight_per_animal_kg: 123, carcass_weight_per_animal_kg: 97, price_basis: 'per_kg_carcass', price: 2, bonus_total: 60 },
+      ],
+    }
+    const metrics = calculateCycleMetrics(cycleWithSales, mockSimpleConsumption, [])
+
+    // 40 * 93 kg * 2 € + 60 * 97 kg * 2 € + 60 € bonus instead of 100 * 200 €
+    expect(metrics.animalSalesRevenue).toBe(19140)
+    expect(metrics.totalRevenue).toBe(19140)
+    // End weight (40 * 118 + 60 * 123) / 100 = 121 kg, stocked with 30 kg
+    expect(metrics.averageWeight).toBe(121)
+    expect(metrics.weightGain).toBe(91)
+    expect(metrics.feedConversionRatio).toBeCloseTo(450 / 9100, 6)
+    expect(metrics.soldAnimals).toBe(100)
+    expect(metrics.remainingAnimals).toBe(0)
+    // The first batch is missing for the last 10 days
+    expect(metrics.totalAnimalDays).toBe(2600)
+  })
+
+  it('should not subtract departures the detail periods already model', () => {
+    const cycleWithStaggeredSales: LivestockCount = {
+      ...mockSimpleCycle,
+      livestock_count_details: [
+        { ...mockSimpleDetails[0], count: 60 },
+        { ...mockSimpleDetails[0], count: 40, end_date: '2025-09-20' },
+      ],
+      animal_sales: [
+        { sale_date: '2025-09-20', count: 40, price_basis: 'per_head', price: 200 },
+        { sale_date: '2025-09-30', count: 60, price_basis: 'per_head', price: 200 },
+      ],
+    }
+    const metrics = calculateCycleMetrics(cycleWithStaggeredSales, mockSimpleConsumption, [])
+
+    // 60 * 30 + 40 * 20 days; the first batch's detail already ends on its sale day
+    expect(metrics.totalAnimalDays).toBe(2600)
+    expect(metrics.remainingAnimals).toBe(0)
+  })
+
+  it('should count the remaining animals from the details present at the end', () => {
+    const cycleWithMoveOut: LivestockCount = {
+      ...mockSimpleCycle,
+      // 40 animals moved out on the 20th without a sale batch
+      livestock_count_details: [
+        { ...mockSimpleDetails[0], count: 60 },
+        { ...mockSimpleDetails[0], count: 40, end_date: '2025-09-20' },
+      ],
+      animal_sales: [
+        { sale_date: '2025-09-25', count: 50, price_basis: 'per_head', price: 200 },
+      ],
+    }
+    const metrics = calculateCycleMetrics(cycleWithMoveOut, mockSimpleConsumption, [])
+
+    expect(metrics.soldAnimals).toBe(50)
+    expect(metrics.remainingAnimals).toBe(10)
+    // 60 * 30 + 40 * 20 days minus 50 * 5 days after the sale
+    expect(metrics.totalAnimalDays).toBe(2350)
+  })
+
+  it('should subtract losses only until their animals move on', () => {
+    const cycleWithMove: LivestockCount = {
+      ...mockSimpleCycle,
+      // Moved on the 15th with the 98 animals left
+      livestock_count_details: [
+        { ...mockSimpleDetails[0], end_date: '2025-09-15', is_end_group: false },
+        { ...mockSimpleDetails[0], count: 98, start_date: '2025-09-16', area_id: 'area-2', is_start_group: false },
+      ],
+      mortality_events: [
+        { event_date: '2025-09-03', event_type: 'death', count: 2, area_id: 'area-1' },
+        { event_date: '2025-09-20', event_type: 'death', count: 3, area_id: 'area-2' },
+      ],
+    }
+    const metrics = calculateCycleMetrics(cycleWithMove, mockSimpleConsumption, [])
+
+    // 100 * 15 + 98 * 15 days minus 2 * 12 days until the move and 3 * 10 days
+    expect(metrics.totalAnimalDays).toBe(2916)
+    expect(metrics.remainingAnimals).toBe(95)
+  })
+
   it('should handle ongoing cycles (no end date)', () => {
     const ongoingCycle = { ...mockSimpleCycle, end_date: null }
     const metrics = calculateCycleMetrics(ongoingCycle, mockSimpleConsumption, mockCostTransactions)
@@ -381,6 +509,28 @@ describe('calculateCycleMetrics', () => {
     expect(metrics.cycleDuration).toBeGreaterThan(0)
     expect(metrics.totalFeedCost).toBe(225)
   })
+
+  it('should calculate dry-matter intake and cost per kg DM and MJ from analysed feed', () => {
+    const metrics = calculateCycleMetrics(mockSimpleCycle, withNutrients(mockSimpleConsumption), [])
+
+    // Dry matter: (100 + 150) * 0.35 = 87.5 kg
+    expect(metrics.totalDryMatter).toBeCloseTo(87.5, 5)
+    // 87.5 kg / (100 animals * 30 days)
+    expect(metrics.dryMatterIntakePerAnimalPerDay).toBeCloseTo(87.5 / 3000, 6)
+    // Only cost of analysed feed: 125 € / 87.5 kg DM
+    expect(metrics.feedCostPerKgDryMatter).toBeCloseTo(1.4286, 4)
+    // 125 € / 875 MJ ME
+    expect(metrics.feedCostPerMjMe).toBeCloseTo(0.1429, 4)
+    expect(metrics.feedCostPerMjNel).toBeNull()
+  })
+
+  it('should report no dry-matter values without analyses', () => {
+    const metrics = calculateCycleMetrics(mockSimpleCycle, mockSimpleConsumption, [])
+
+    expect(metrics.totalDryMatter).toBe(0)
+    expect(metrics.dryMatterIntakePerAnimalPerDay).toBeNull()
+    expect(metrics.feedCostPerKgDryMatter).toBeNull()
+  })
 })
 
 // ============================================================================
@@ -556,6 +706,20 @@ describe('calculateFeedComponentSummary', () => {
     expect(summary).toHaveLength(1)
     expect(summary[0].feedTypeName).toBe('Futter A')
   })
+
+  it('should report dry matter per feed type with an analysis', () => {
+    const summary = calculateFeedComponentSummary(mockCycle, withNutrients(mockConsumption))
+
+    const futter1 = summary.find(s => s.feedTypeName === 'Futter A')
+    expect(futter1!.dryMatterPercent).toBeCloseTo(35, 5)
+    expect(futter1!.totalDryMatter).toBeCloseTo(87.5, 5)
+    expect(futter1!.costPerKgDryMatter).toBeCloseTo(1.4286, 4)
+    expect(futter1!.costPerMjMe).toBeCloseTo(0.1429, 4)
+
+    const futter2 = summary.find(s => s.feedTypeName === 'Futter B')
+    expect(futter2!.dryMatterPercent).toBeNull()
+    expect(futter2!.costPerKgDryMatter).toBeNull()
+  })
 })
 
 // ============================================================================
@@ -8,7 +8,26 @@
  * and avoid duplication across the application.
  */
 
-import { calculateTotalAnimalsFromDetails, calculateCycleDuration } from './livestock-calculations'
+import {
+  calculateTotalAnimalsFromDetails,
+  calculateAnimalDaysFromDetails,
+  calculateCycleDuration,
+  assignDeparturesToDetails,
+  type AnimalAllocationMode,
+  type DetailDepartures
+} from './livestock-calculations'
+import { summarizeNutrients } from './nutrients'
+import {
+  summarizeMortality,
+  lossesAsDepartures,
+  type MortalityEvent,
+  type MortalityEventType
+} from './mortality'
+import {
+  summarizeSales,
+  salesAsDepartures,
+  type AnimalSale
+} from './animal-sales'
 
 // ============================================================================
 // TYPES AND INTERFACES
@@ -55,6 +74,10 @@ export interface LivestockCount {
   total_lifetime_days: number | null
   slaughter_weight_kg: number | null
   livestock_count_details: LivestockCountDetail[]
+  /** Deaths, emergency slaughter and culls logged for the cycle */
+  mortality_events?: MortalityEvent[]
+  /** Sale batches; once logged they replace the flat sell price and end weights */
+  animal_sales?: AnimalSale[]
 }
 
 export interface ConsumptionItem {
@@ -75,6 +98,15 @@ export interface ConsumptionItem {
   } | null
   supplier_id?: string | null
   supplier_name?: string | null
+  /** Cost based on an estimated price (see loadConsumptionWithCosts) */
+  cost_estimated?: boolean
+  /** No price available, the cost is 0 */
+  price_missing?: boolean
+  /** Nutrients from the feed type's analysis (see nutrients.ts) */
+  dry_matter_kg?: number
+  energy_mj_me?: number | null
+  energy_mj_nel?: number | null
+  crude_protein_kg?: number | null
 }
 
 export interface CostTransaction {
@@ -95,7 +127,13 @@ export interface IncomeTransaction {
 }
 
 export interface CycleMetrics {
+  /** Animals costs are allocated to: peak head count, or average occupancy in animal_days mode */
   totalAnimals: number
+  /** Maximum number of animals present at any time */
+  peakAnimals: number
+  /** Sum of animals present per day over the cycle */
+  totalAnimalDays: number
+  allocationMode: AnimalAllocationMode
   averageWeight: number
   weightGain: number
   feedConversionRatio: number
@@ -123,6 +161,36 @@ export interface CycleMetrics {
   additionalIncome: number
   /** Revenue from animal sales only (without additionalIncome) */
   animalSalesRevenue: number
+  /** Part of consumptionFeedCost based on estimated prices */
+  estimatedFeedCost: number
+  /** Feed quantity without any price, counted at 0 € */
+  unpricedFeedQuantity: number
+  /** Dry matter fed in kg, from feed types with an analysis */
+  totalDryMatter: number
+  totalEnergyMjMe: number
+  totalEnergyMjNel: number
+  /** Dry-matter intake in kg per animal and day, null without analyses */
+  dryMatterIntakePerAnimalPerDay: number | null
+  /** Consumption feed cost per kg dry matter / per MJ, null without analyses */
+  feedCostPerKgDryMatter: number | null
+  feedCostPerMjMe: number | null
+  feedCostPerMjNel: number | null
+  /** Feed cost / total cost per animal-day, 0 without animal-days */
+  feedCostPerAnimalDay: number
+  totalCostPerAnimalDay: number
+  /** Animals lost according to the mortality log, by event type */
+  lossCount: number
+  lossesByType: Record<MortalityEventType, number>
+  /** Carcass disposal costs from the mortality log, included in additionalCosts */
+  disposalCosts: number
+  /** Animals sold according to the sale batches */
+  soldAnimals: number
+  /** Animals of the details present on the last day less their losses and sales */
+  remainingAnimals: number
+  /** Averages of the sale batches, null without sales or weights */
+  averageCarcassWeight: number | null
+  dressingPercentage: number | null
+  salesPricePerKgCarcass: number | null
 }
 
 export interface AreaMetrics {
@@ -157,6 +225,13 @@ export interface FeedComponentSummary {
   dailyConsumption: number
   quantityPerAnimalPerDay: number
   quantityPerAnimal: number
+  /** Dry-matter values, null if the feed type has no analysis */
+  dryMatterPercent: number | null
+  totalDryMatter: number
+  dryMatterPerAnimalPerDay: number | null
+  costPerKgDryMatter: number | null
+  costPerMjMe: number | null
+  costPerMjNel: number | null
 }
 
 // ============================================================================
@@ -376,6 +451,74 @@ export function filterConsumptionByTimeframe(
 // CYCLE-LEVEL METRICS
 // ============================================================================
 
+/**
+ * Gets the weight the animals of a cycle were stocked with, weighted by head count
+ * Stocking details are the start groups, else the first of sequential details, else all.
+ */
+function getStockingWeight(
+  cycle: LivestockCount,
+  hasStartGroupFlags: boolean,
+  firstDetailId: string | null
+): number {
+  const stockingDetails = cycle.livestock_count_details.filter(detail => {
+    if (hasStartGroupFlags) return detail.is_start_group === true
+    if (firstDetailId !== null) return detail.id === firstDetailId
+    return true
+  })
+
+  let weightedWeight = 0
+  let animals = 0
+  stockingDetails.forEach(detail => {
+    const weight = getEffectiveStartWeight(detail, cycle.livestock_count_details, cycle)
+    if (weight !== null) {
+      weightedWeight += weight * detail.count
+      animals += detail.count
+    }
+  })
+
+  return animals > 0 ? weightedWeight / animals : (cycle.expected_weight_per_animal || 0)
+}
+
+/**
+ * Assigns the logged losses and the sale batches to the detail periods the
+ * animals left, so detail end dates that already model a departure are not
+ * counted twice
+ */
+function assignCycleDepartures(cycle: LivestockCount): DetailDepartures[] {
+  return assignDeparturesToDetails(
+    cycle.livestock_count_details,
+    [...lossesAsDepartures(cycle.mortality_events || []), ...salesAsDepartures(cycle.animal_sales || [])],
+    cycle.start_date,
+    cycle.end_date
+  )
+}
+
+/**
+ * Calculates the animal-days of a cycle
+ * Animals lost according to the mortality log or sold in a batch no longer
+ * count from the day after the loss or sale until the end of their detail period.
+ */
+function calculateCycleAnimalDays(cycle: LivestockCount, departures: DetailDepartures[]): number {
+  const animalDays = calculateAnimalDaysFromDetails(cycle.livestock_count_details, cycle.start_date, cycle.end_date)
+  const departedAnimalDays = departures.reduce((sum, detail) => sum + detail.animalDays, 0)
+  return Math.max(0, animalDays - departedAnimalDays)
+}
+
+/**
+ * Counts the animals still in the stable: those of the details present on the
+ * last day (the cycle end, or today for ongoing cycles) less the animals that
+ * left these details
+ */
+function calculateRemainingAnimals(cycle: LivestockCount, departures: DetailDepartures[]): number {
+  const lastDay = cycle.end_date || new Date().toISOString().split('T')[0]
+
+  return cycle.livestock_count_details.reduce((sum, detail, index) => {
+    const endDate = detail.end_date || cycle.end_date
+    const present = (detail.start_date || cycle.start_date) <= lastDay && (!endDate || endDate >= lastDay)
+    return present ? sum + Math.max(0, detail.count - departures[index].count) : sum
+  }, 0)
+}
+
 /**
  * Calculates all cycle-level KPIs
  *
@@ -383,13 +526,16 @@ export function filterConsumptionByTimeframe(
  * All widgets, evaluation pages, and reports should use this function.
  *
  * Formulas:
- * - Total Animals: Max animals present at any time (handles transitions between areas)
- * - Weight Gain: actual_weight_per_animal - expected_weight_per_animal
+ * - Total Animals: Max animals present at any time (handles transitions between areas),
+ *   or in animal_days mode the average occupancy: animal-days / cycleDuration
+ * - Weight Gain: actual_weight_per_animal - expected_weight_per_animal, or with sale batches
+ *   average live weight sold - stocking weight
  * - Total Feed Cost: Sum of all consumption total_cost (filtered by timeframe)
  * - Animal Purchase Cost: totalAnimals * buy_price_per_animal
- * - Additional Costs: Sum of all cost_transactions
+ * - Additional Costs: Sum of all non-feed cost_transactions + disposal costs of logged losses
+ * - Mortality Rate: logged losses / peak animals * 100, else the rate entered on the cycle
  * - Total Costs: feedCost + animalPurchaseCost + additionalCosts
- * - Total Revenue: totalAnimals * sell_price_per_animal
+ * - Total Revenue: sum of sale batch revenues, without batches totalAnimals * sell_price_per_animal
  * - Profit/Loss: totalRevenue - totalCosts
  * - Profit Margin: (profitLoss / totalRevenue) * 100
  * - Feed Conversion Ratio: totalFeedQuantity / (totalAnimals * weightGain)
@@ -397,31 +543,50 @@ export function filterConsumptionByTimeframe(
  * - Feed Cost Per Kg: totalFeedCost / (totalAnimals * weightGain)
  * - Daily Feed Cost: totalFeedCost / cycleDuration
  * - Feed Efficiency: (totalAnimals * weightGain) / totalFeedCost
+ * - DM Intake Per Animal Per Day: totalDryMatter / animal-days
+ * - Feed / Total Cost Per Animal-Day: totalFeedCost / animal-days, totalCosts / animal-days
+ * - Feed Cost Per Kg DM / Per MJ: consumption cost of analysed feed / its dry matter or energy
  *
  * @param cycle - Livestock count with details
  * @param consumption - All consumption records (will be filtered by timeframe)
  * @param costTransactions - Additional cost transactions for this cycle
+ * @param incomeTransactions - Additional income for this cycle
+ * @param allocationMode - Animals per-animal KPIs are based on (the farm's animal_allocation_mode)
  * @returns Calculated cycle metrics
  */
 export function calculateCycleMetrics(
   cycle: LivestockCount,
   consumption: ConsumptionItem[],
   costTransactions: CostTransaction[] = [],
-  incomeTransactions: IncomeTransaction[] = []
+  incomeTransactions: IncomeTransaction[] = [],
+  allocationMode: AnimalAllocationMode = 'peak'
 ): CycleMetrics {
   // Calculate total animals using centralized utility
-  const totalAnimals = calculateTotalAnimalsFromDetails(
+  const peakAnimals = calculateTotalAnimalsFromDetails(
     cycle.livestock_count_details,
     cycle.start_date,
     cycle.end_date
   )
+  const departures = assignCycleDepartures(cycle)
+  const totalAnimalDays = calculateCycleAnimalDays(cycle, departures)
+  const mortality = summarizeMortality(cycle.mortality_events || [], peakAnimals)
+  const sales = summarizeSales(cycle.animal_sales || [])
+
+  // Cycle duration
+  const cycleDuration = calculateCycleDuration(cycle.start_date, cycle.end_date)
+
+  // With staggered in/out movements the peak overstates the animals costs are
+  // spread over; the average occupancy counts each animal for its days present
+  const totalAnimals = allocationMode === 'animal_days'
+    ? (cycleDuration > 0 ? totalAnimalDays / cycleDuration : 0)
+    : peakAnimals
 
   // ============================================================================
   // SEQUENTIAL DETAILS DETECTION
   // Detect if details have sequential (non-overlapping) date ranges, which indicates
   // animals moving between areas (e.g., Kälberstall → Fresserstall). This affects:
   // - Buy/sell price calculations (only count once, not per detail)
-  // - Weight-based metrics (use totalAnimals, not sum of all details)
+  // - Weight-based metrics (use peakAnimals, not sum of all details)
   // ============================================================================
   const hasStartGroupFlags = cycle.livestock_count_details.some(d => d.is_start_group === true)
   const hasEndGroupFlags = cycle.livestock_count_details.some(d => d.is_end_group === true)
@@ -489,18 +654,29 @@ export function calculateCycleMetrics(
     }
   })
 
-  const startWeight = totalAnimalsWithWeights > 0
-    ? totalWeightedStartWeight / totalAnimalsWithWeights
-    : (cycle.expected_weight_per_animal || 0)
-  const endWeight = totalAnimalsWithWeights > 0
-    ? totalWeightedEndWeight / totalAnimalsWithWeights
-    : (cycle.actual_weight_per_animal || 0)
+  // Sale batches with live weights carry the end weights: the gain is that of
+  // the animals sold, from the weight they were stocked with
+  const soldWithWeights = sales.averageLiveWeight !== null
+
+  const startWeight = soldWithWeights
+    ? getStockingWeight(cycle, hasStartGroupFlags, isSequentialDetails ? firstDetailId : null)
+    : totalAnimalsWithWeights > 0
+      ? totalWeightedStartWeight / totalAnimalsWithWeights
+      : (cycle.expected_weight_per_animal || 0)
+  const endWeight = soldWithWeights
+    ? sales.averageLiveWeight!
+    : totalAnimalsWithWeights > 0
+      ? totalWeightedEndWeight / totalAnimalsWithWeights
+      : (cycle.actual_weight_per_animal || 0)
   const weightGain = endWeight - startWeight
 
   // For weight-based metrics (FCR, feedCostPerKg, etc.), use the correct animal count:
-  // - If sequential details: use totalAnimals (max at any time) since it's the same animals moving
+  // - If sale batches carry the end weights: the animals sold
+  // - If sequential details: use peakAnimals (max at any time) since it's the same animals moving
   // - Otherwise: use totalAnimalsWithWeights (for independent groups with weight data)
-  const animalsForWeightMetrics = isSequentialDetails ? totalAnimals : totalAnimalsWithWeights
+  const animalsForWeightMetrics = soldWithWeights
+    ? sales.soldAnimals
+    : isSequentialDetails ? peakAnimals : totalAnimalsWithWeights
 
   // Filter consumption to only include items from areas/groups during their active timeframes
   const filteredConsumption = filterConsumptionByTimeframe(
@@ -512,6 +688,18 @@ export function calculateCycleMetrics(
   // Feed cost calculations from consumption
   const consumptionFeedCost = filteredConsumption.reduce((sum, item) => sum + (item.total_cost || 0), 0)
   const totalFeedQuantity = filteredConsumption.reduce((sum, item) => sum + item.quantity, 0)
+  const estimatedFeedCost = filteredConsumption
+    .filter(item => item.cost_estimated)
+    .reduce((sum, item) => sum + (item.total_cost || 0), 0)
+  const unpricedFeedQuantity = filteredConsumption
+    .filter(item => item.price_missing)
+    .reduce((sum, item) => sum + item.quantity, 0)
+
+  // Dry matter and energy of feed types with an analysis
+  const nutrients = summarizeNutrients(filteredConsumption)
+  const dryMatterIntakePerAnimalPerDay = nutrients.dryMatterKg > 0 && totalAnimalDays > 0
+    ? nutrients.dryMatterKg / totalAnimalDays
+    : null
 
   // Separate cost transactions: feed-related (category = 'Futterkosten') vs other costs
   // Feed-related transactions (e.g., Milchaustauscher) are added to feed costs
@@ -529,8 +717,9 @@ export function calculateCycleMetrics(
   // Total feed cost = consumption costs + feed-category transaction costs (e.g., Milchaustauscher)
   const totalFeedCost = consumptionFeedCost + feedCategoryTransactionCosts
 
-  // Additional costs = only non-feed cost transactions
+  // Additional costs = non-feed cost transactions + carcass disposal from the mortality log
   const additionalCosts = otherCostTransactions.reduce((sum, transaction) => sum + transaction.amount, 0)
+    + mortality.disposalCosts
 
   // ============================================================================
   // BUY/SELL PRICE CALCULATIONS
@@ -581,15 +770,17 @@ export function calculateCycleMetrics(
     }
   })
 
+  // Logged sale batches replace the flat sell price
+  if (cycle.animal_sales && cycle.animal_sales.length > 0) {
+    animalSalesRevenue = sales.revenue
+  }
+
   // Calculate additional income from income transactions (Praemien, Boni, Zuschuesse)
   const additionalIncome = incomeTransactions.reduce((sum, t) => sum + t.amount, 0)
 
   // Total revenue = animal sales + additional income (Praemien, etc.)
   const totalRevenue = animalSalesRevenue + additionalIncome
 
-  // Cycle duration
-  const cycleDuration = calculateCycleDuration(cycle.start_date, cycle.end_date)
-
   // Total cost
   const totalCosts = totalFeedCost + additionalCosts + animalPurchaseCost
 
@@ -599,7 +790,7 @@ export function calculateCycleMetrics(
 
   // Performance metrics
   // Note: Use animalsForWeightMetrics for weight-based calculations
-  // - For sequential details (animals moving between areas): uses totalAnimals
+  // - For sequential details (animals moving between areas): uses peakAnimals
   // - For independent groups: uses totalAnimalsWithWeights (only animals with weight data)
   const feedConversionRatio = weightGain > 0 && animalsForWeightMetrics > 0
     ? totalFeedQuantity / (animalsForWeightMetrics * weightGain)
@@ -609,6 +800,8 @@ export function calculateCycleMetrics(
     ? totalFeedCost / (animalsForWeightMetrics * weightGain)
     : 0
   const dailyFeedCost = cycleDuration > 0 ? totalFeedCost / cycleDuration : 0
+  const feedCostPerAnimalDay = totalAnimalDays > 0 ? totalFeedCost / totalAnimalDays : 0
+  const totalCostPerAnimalDay = totalAnimalDays > 0 ? totalCosts / totalAnimalDays : 0
   const feedEfficiency = totalFeedCost > 0 && animalsForWeightMetrics > 0
     ? (animalsForWeightMetrics * weightGain) / totalFeedCost
     : 0
@@ -627,10 +820,14 @@ export function calculateCycleMetrics(
 
   return {
     totalAnimals,
+    peakAnimals,
+    totalAnimalDays,
+    allocationMode,
     averageWeight: endWeight,
     weightGain,
     feedConversionRatio,
-    mortalityRate: cycle.mortality_rate || 0,
+    // Derived from the mortality log once losses are logged, else the rate entered
+    mortalityRate: mortality.lossCount > 0 ? mortality.mortalityRate : (cycle.mortality_rate || 0),
     totalFeedCost,
     totalFeedQuantity,
     feedCostPerAnimal,
@@ -649,7 +846,26 @@ export function calculateCycleMetrics(
     feedCategoryTransactionCosts,
     consumptionFeedCost,
     additionalIncome,
-    animalSalesRevenue
+    animalSalesRevenue,
+    estimatedFeedCost,
+    unpricedFeedQuantity,
+    totalDryMatter: nutrients.dryMatterKg,
+    totalEnergyMjMe: nutrients.energyMjMe,
+    totalEnergyMjNel: nutrients.energyMjNel,
+    dryMatterIntakePerAnimalPerDay,
+    feedCostPerKgDryMatter: nutrients.costPerKgDryMatter,
+    feedCostPerMjMe: nutrients.costPerMjMe,
+    feedCostPerMjNel: nutrients.costPerMjNel,
+    feedCostPerAnimalDay,
+    totalCostPerAnimalDay,
+    lossCount: mortality.lossCount,
+    lossesByType: mortality.lossesByType,
+    disposalCosts: mortality.disposalCosts,
+    soldAnimals: sales.soldAnimals,
+    remainingAnimals: calculateRemainingAnimals(cycle, departures),
+    averageCarcassWeight: sales.averageCarcassWeight,
+    dressingPercentage: sales.dressingPercentage,
+    salesPricePerKgCarcass: sales.pricePerKgCarcass
   }
 }
 
@@ -921,18 +1137,11 @@ export function calculateFeedComponentSummary(
   consumption: ConsumptionItem[]
 ): FeedComponentSummary[] {
   const feedComponentsMap: { [key: string]: FeedComponentSummary } = {}
+  const itemsByFeedType: { [key: string]: ConsumptionItem[] } = {}
 
   const cycleDuration = calculateCycleDuration(cycle.start_date, cycle.end_date)
-
-  // Calculate total animal-days across all livestock count details
-  const totalAnimalDays = cycle.livestock_count_details.reduce((sum, detail) => {
-    const startDate = new Date(detail.start_date)
-    const endDate = detail.end_date
-      ? new Date(detail.end_date)
-      : (cycle.end_date ? new Date(cycle.end_date) : new Date())
-    const days = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1
-    return sum + (detail.count * days)
-  }, 0)
+  const departures = assignCycleDepartures(cycle)
+  const totalAnimalDays = calculateCycleAnimalDays(cycle, departures)
 
   // Aggregate consumption by feed type
   consumption.forEach(item => {
@@ -948,12 +1157,20 @@ export function calculateFeedComponentSummary(
         percentageOfTotal: 0,
         dailyConsumption: 0,
         quantityPerAnimalPerDay: 0,
-        quantityPerAnimal: 0
+        quantityPerAnimal: 0,
+        dryMatterPercent: null,
+        totalDryMatter: 0,
+        dryMatterPerAnimalPerDay: null,
+        costPerKgDryMatter: null,
+        costPerMjMe: null,
+        costPerMjNel: null
       }
+      itemsByFeedType[feedTypeId] = []
     }
 
     feedComponentsMap[feedTypeId].totalQuantity += item.quantity
     feedComponentsMap[feedTypeId].totalCost += item.total_cost || 0
+    itemsByFeedType[feedTypeId].push(item)
   })
 
   // Calculate weighted average prices and percentages
@@ -976,6 +1193,22 @@ export function calculateFeedComponentSummary(
     // Mathematically equivalent to: (totalQuantity * cycleDuration) / totalAnimalDays
     // But clearer as: quantityPerAnimalPerDay * cycleDuration
     component.quantityPerAnimal = component.quantityPerAnimalPerDay * cycleDuration
+
+    const nutrients = summarizeNutrients(itemsByFeedType[component.feedTypeId])
+    if (nutrients.dryMatterKg > 0) {
+      const analysedQuantity = itemsByFeedType[component.feedTypeId]
+        .filter(item => item.dry_matter_kg != null)
+        .reduce((sum, item) => sum + item.quantity, 0)
+      component.totalDryMatter = nutrients.dryMatterKg
+      // Share of dry matter in the fed quantity, which is recorded in kg
+      component.dryMatterPercent = analysedQuantity > 0
+        ? (nutrients.dryMatterKg / analysedQuantity) * 100
+        : null
+      component.dryMatterPerAnimalPerDay = totalAnimalDays > 0 ? nutrients.dryMatterKg / totalAnimalDays : null
+      component.costPerKgDryMatter = nutrients.costPerKgDryMatter
+      component.costPerMjMe = nutrients.costPerMjMe
+      component.costPerMjNel = nutrients.costPerMjNel
+    }
   })
 
   // Sort by total cost descending
@@ -9,6 +9,8 @@ import { describe, it, expect } from 'vitest'
 import {
   calculateMaxAnimalsAtAnyTime,
   calculateTotalAnimalsFromDetails,
+  calculateAnimalDaysFromDetails,
+  assignDeparturesToDetails,
   calculateCycleDuration,
   type AnimalCountEntry,
   type LivestockCountDetail,
@@ -333,6 +335,54 @@ describe('calculateTotalAnimalsFromDetails', () => {
   })
 })
 
+describe('calculateAnimalDaysFromDetails', () => {
+  it('should sum count times days present for each detail', () => {
+    const details: LivestockCountDetail[] = [
+      { count: 100, start_date: '2024-01-01', end_date: '2024-01-31' },
+      { count: 100, start_date: '2024-02-01', end_date: '2024-02-29' },
+    ]
+    // 100 * 31 + 100 * 29
+    expect(calculateAnimalDaysFromDetails(details, '2024-01-01', '2024-02-29')).toBe(6000)
+  })
+
+  it('should run details without end date until the cycle end', () => {
+    const details: LivestockCountDetail[] = [
+      { count: 50, start_date: '2024-01-01', end_date: null },
+    ]
+    expect(calculateAnimalDaysFromDetails(details, '2024-01-01', '2024-01-10')).toBe(500)
+  })
+
+  it('should ignore details with a count of 0', () => {
+    const details: LivestockCountDetail[] = [
+      { count: 0, start_date: '2024-01-01', end_date: '2024-01-31' },
+    ]
+    expect(calculateAnimalDaysFromDetails(details, '2024-01-01', '2024-01-31')).toBe(0)
+  })
+})
+
+describe('assignDeparturesToDetails', () => {
+  const details: LivestockCountDetail[] = [
+    { count: 60, start_date: '2024-01-01', end_date: '2024-01-31', area_id: 'area-1' },
+    { count: 40, start_date: '2024-01-01', end_date: '2024-01-20', area_id: 'area-2' },
+  ]
+
+  it('should prefer details in the area of the departure', () => {
+    const assigned = assignDeparturesToDetails(details, [{ date: '2024-01-10', count: 5, area_id: 'area-2' }], '2024-01-01', '2024-01-31')
+
+    // Missing from January 11 to 20
+    expect(assigned).toEqual([{ count: 0, animalDays: 0 }, { count: 5, animalDays: 50 }])
+  })
+
+  it('should spread departures over the details present, up to their count', () => {
+    const assigned = assignDeparturesToDetails(details, [{ date: '2024-01-20', count: 70 }], '2024-01-01', '2024-01-31')
+
+    // The detail ending on the day of the departure is used up first
+    expect(assigned.map(detail => detail.count)).toEqual([30, 40])
+    // Only the first detail still counts the animals after the 20th
+    expect(assigned.map(detail => detail.animalDays)).toEqual([330, 0])
+  })
+})
+
 describe('calculateCycleDuration', () => {
   it('should calculate duration correctly for completed cycle', () => {
     const result = calculateCycleDuration('2024-01-01', '2024-01-31')
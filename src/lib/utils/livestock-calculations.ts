@@ -4,6 +4,20 @@
  * Centralized calculations for livestock counts, metrics, and evaluations
  */
 
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * How cycle costs are divided among animals:
+ * - peak: maximum number of animals present at any time
+ * - animal_days: average occupancy, i.e. animal-days divided by cycle days
+ */
+export type AnimalAllocationMode = 'peak' | 'animal_days'
+
+export const ANIMAL_ALLOCATION_MODE_LABELS: Record<AnimalAllocationMode, string> = {
+  peak: 'Höchste Tierzahl',
+  animal_days: 'Tiertage (Belegung)',
+}
+
 export type LivestockCountDetail = {
   count: number
   start_date: string
@@ -94,6 +108,141 @@ export function calculateTotalAnimalsFromDetails(
   return calculateMaxAnimalsAtAnyTime(entries, cycleStartDate, cycleEndDate)
 }
 
+/**
+ * Calculate the animal-days of livestock count details
+ *
+ * Each detail contributes its count for every day from its start to its end
+ * date (inclusive). Details without an end date run until the cycle end, or
+ * today for ongoing cycles.
+ *
+ * @param details - Livestock count details from database
+ * @param cycleStartDate - Cycle start date (fallback for details without start date)
+ * @param cycleEndDate - Cycle end date (null for ongoing cycles)
+ * @returns Sum of animals present per day
+ */
+export function calculateAnimalDaysFromDetails(
+  details: Pick<LivestockCountDetail, 'count' | 'start_date' | 'end_date'>[],
+  cycleStartDate: string,
+  cycleEndDate?: string | null
+): number {
+  return details
+    .filter(detail => detail.count > 0)
+    .reduce((sum, detail) => {
+      const days = calculateCycleDuration(detail.start_date || cycleStartDate, detail.end_date || cycleEndDate)
+      return sum + detail.count * Math.max(0, days)
+    }, 0)
+}
+
+/**
+ * Animals leaving a cycle on a date (loss or sale), optionally in an area or group
+ */
+export type AnimalDeparture = {
+  date: string
+  count: number
+  area_id?: string | null
+  area_group_id?: string | null
+}
+
+/**
+ * Detail period departures are assigned to
+ */
+export type DepartureDetail = {
+  count: number
+  start_date: string | null
+  end_date: string | null
+  area_id?: string | null
+  area_group_id?: string | null
+}
+
+/**
+ * Departures assigned to one detail period
+ */
+export type DetailDepartures = {
+  /** Animals that left this detail */
+  count: number
+  /** Days those animals are still counted by the detail after they left */
+  animalDays: number
+}
+
+/**
+ * Assigns departures to the detail periods the animals left from
+ *
+ * A departure is taken from the details present on its date, those of its
+ * area or group first and then those ending soonest, up to each detail's count. The departed animals are
+ * missing from the day after until the end of their detail; a detail ending
+ * on the departure day already models it and loses no days. Later details
+ * keep their counts, as moved animals are entered with the count that moved.
+ *
+ * @param details - Livestock count details from database
+ * @param departures - Losses and sales of the cycle
+ * @param cycleStartDate - Cycle start date (fallback for details without start date)
+ * @param cycleEndDate - Cycle end date (null for ongoing cycles)
+ * @returns Departures per detail, in the order of the details
+ */
+export function assignDeparturesToDetails(
+  details: DepartureDetail[],
+  departures: AnimalDeparture[],
+  cycleStartDate: string,
+  cycleEndDate?: string | null
+): DetailDepartures[] {
+  const assigned: DetailDepartures[] = details.map(() => ({ count: 0, animalDays: 0 }))
+  const inLocation = (detail: DepartureDetail, departure: AnimalDeparture) =>
+    (!!departure.area_id && detail.area_id === departure.area_id) ||
+    (!!departure.area_group_id && detail.area_group_id === departure.area_group_id)
+  // Details ending soonest are the likeliest to already model the departure
+  const endOrder = (detail: DepartureDetail) => {
+    const endDate = detail.end_date || cycleEndDate
+    return endDate ? Date.parse(endDate) : Infinity
+  }
+
+  ;[...departures]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(departure => {
+      let remaining = departure.count
+      const present = details
+        .map((detail, index) => ({ detail, index }))
+        .filter(({ detail }) => {
+          const endDate = detail.end_date || cycleEndDate
+          return detail.count > 0 &&
+            (detail.start_date || cycleStartDate) <= departure.date &&
+            (!endDate || departure.date <= endDate)
+        })
+        .sort((a, b) =>
+          Number(inLocation(b.detail, departure)) - Number(inLocation(a.detail, departure)) ||
+          endOrder(a.detail) - endOrder(b.detail))
+
+      for (const { detail, index } of present) {
+        const taken = Math.min(remaining, detail.count - assigned[index].count)
+        if (taken <= 0) continue
+
+        const daysAfter = calculateCycleDuration(departure.date, detail.end_date || cycleEndDate) - 1
+        assigned[index].count += taken
+        assigned[index].animalDays += taken * Math.max(0, daysAfter)
+        remaining -= taken
+        if (remaining === 0) break
+      }
+    })
+
+  return assigned
+}
+
+/**
+ * Loads the farm's allocation mode, falling back to the peak head count
+ */
+export async function loadAnimalAllocationMode(supabase: SupabaseClient, farmId: string): Promise<AnimalAllocationMode> {
+  const { data, error } = await supabase
+    .from('farms')
+    .select('animal_allocation_mode')
+    .eq('id', farmId)
+    .single()
+
+  if (error) {
+    throw new Error(`Fehler beim Laden der Kostenverteilung: ${error.message}`)
+  }
+
+  return (data?.animal_allocation_mode as AnimalAllocationMode) || 'peak'
+}
+
 /**
  * Calculate cycle duration in days
  *
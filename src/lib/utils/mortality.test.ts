@@ -0,0 +1,78 @@
+/**
+ * Unit Tests for Mortality and Culling
+ *
+ * These tests ensure logged losses are summed per type, leave the detail
+ * periods of their area or group and are distributed over the weeks of
+ * the cycle.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  summarizeMortality,
+  lossesAsDepartures,
+  calculateMortalityDistribution,
+  type MortalityEvent
+} from './mortality'
+
+// ============================================================================
+// TEST DATA FIXTURES
+// ============================================================================
+
+const events: MortalityEvent[] = [
+  { event_date: '2025-09-03', event_type: 'death', count: 2, area_id: 'area-1', disposal_cost: 25 },
+  { event_date: '2025-09-10', event_type: 'emergency_slaughter', count: 1, area_group_id: 'group-1', disposal_cost: null },
+  { event_date: '2025-09-20', event_type: 'cull', count: 3, area_id: 'area-2', disposal_cost: 40.5 },
+]
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('summarizeMortality', () => {
+  it('should sum the losses per type and the disposal costs', () => {
+    const summary = summarizeMortality(events, 200)
+
+    expect(summary.lossCount).toBe(6)
+    expect(summary.lossesByType).toEqual({ death: 2, emergency_slaughter: 1, cull: 3 })
+    expect(summary.disposalCosts).toBe(65.5)
+    expect(summary.mortalityRate).toBe(3)
+  })
+
+  it('should report no mortality rate without stocked animals', () => {
+    expect(summarizeMortality(events, 0).mortalityRate).toBe(0)
+    expect(summarizeMortality([], 100).lossCount).toBe(0)
+  })
+})
+
+describe('lossesAsDepartures', () => {
+  it('should leave the detail periods of the area or group of each loss', () => {
+    expect(lossesAsDepartures(events)).toEqual([
+      { date: '2025-09-03', count: 2, area_id: 'area-1', area_group_id: undefined },
+      { date: '2025-09-10', count: 1, area_id: undefined, area_group_id: 'group-1' },
+      { date: '2025-09-20', count: 3, area_id: 'area-2', area_group_id: undefined },
+    ])
+  })
+})
+
+describe('calculateMortalityDistribution', () => {
+  it('should distribute the losses over the weeks of the cycle', () => {
+    const weeks = calculateMortalityDistribution(events, '2025-09-01', '2025-09-30', 200)
+
+    expect(weeks).toHaveLength(5)
+    expect(weeks.map(week => week.losses)).toEqual([2, 1, 3, 0, 0])
+    expect(weeks[1].startDate).toBe('2025-09-08')
+    expect(weeks[1].cumulativeRate).toBe(1.5)
+    expect(weeks[4].cumulativeRate).toBe(3)
+  })
+
+  it('should ignore losses outside the cycle', () => {
+    const weeks = calculateMortalityDistribution(
+      [{ event_date: '2025-08-31', event_type: 'death', count: 1 }],
+      '2025-09-01',
+      '2025-09-07',
+      100
+    )
+
+    expect(weeks).toEqual([{ week: 1, startDate: '2025-09-01', losses: 0, cumulativeRate: 0 }])
+  })
+})
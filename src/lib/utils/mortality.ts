@@ -0,0 +1,119 @@
+/**
+ * Mortality and Culling
+ *
+ * Summarizes the loss events of a cycle (deaths, emergency slaughter,
+ * culls): the mortality rate relative to the animals stocked, its
+ * distribution over the weeks of the cycle and the carcass disposal costs.
+ * Lost animals leave the detail periods as departures.
+ */
+
+import { calculateCycleDuration, type AnimalDeparture } from './livestock-calculations'
+
+export type MortalityEventType = 'death' | 'emergency_slaughter' | 'cull'
+
+export const MORTALITY_EVENT_TYPE_LABELS: Record<MortalityEventType, string> = {
+  death: 'Verendet',
+  emergency_slaughter: 'Notschlachtung',
+  cull: 'Merzung',
+}
+
+export const MORTALITY_EVENT_TYPES = Object.keys(MORTALITY_EVENT_TYPE_LABELS) as MortalityEventType[]
+
+export interface MortalityEvent {
+  event_date: string
+  event_type: string
+  count: number
+  area_id?: string | null
+  area_group_id?: string | null
+  disposal_cost?: number | null
+}
+
+export interface MortalitySummary {
+  lossCount: number
+  lossesByType: Record<MortalityEventType, number>
+  disposalCosts: number
+  /** Losses in percent of the animals stocked */
+  mortalityRate: number
+}
+
+export interface MortalityWeek {
+  /** Week of the cycle, starting at 1 */
+  week: number
+  startDate: string
+  losses: number
+  /** Losses up to the end of the week in percent of the animals stocked */
+  cumulativeRate: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Summarizes the losses of a cycle
+ *
+ * @param stockedAnimals - Animals stocked (peak head count)
+ */
+export function summarizeMortality(events: MortalityEvent[], stockedAnimals: number): MortalitySummary {
+  const lossesByType: Record<MortalityEventType, number> = { death: 0, emergency_slaughter: 0, cull: 0 }
+  let lossCount = 0
+  let disposalCosts = 0
+
+  events.forEach(event => {
+    const type = (event.event_type in lossesByType ? event.event_type : 'death') as MortalityEventType
+    lossesByType[type] += event.count
+    lossCount += event.count
+    disposalCosts += Number(event.disposal_cost) || 0
+  })
+
+  return {
+    lossCount,
+    lossesByType,
+    disposalCosts,
+    mortalityRate: stockedAnimals > 0 ? (lossCount / stockedAnimals) * 100 : 0,
+  }
+}
+
+/**
+ * Maps logged losses to departures from the detail periods
+ */
+export function lossesAsDepartures(events: MortalityEvent[]): AnimalDeparture[] {
+  return events.map(event => ({
+    date: event.event_date,
+    count: event.count,
+    area_id: event.area_id,
+    area_group_id: event.area_group_id,
+  }))
+}
+
+/**
+ * Distributes the losses over the weeks of a cycle
+ *
+ * @param stockedAnimals - Animals stocked (peak head count)
+ */
+export function calculateMortalityDistribution(
+  events: MortalityEvent[],
+  cycleStartDate: string,
+  cycleEndDate: string | null | undefined,
+  stockedAnimals: number
+): MortalityWeek[] {
+  const weekCount = Math.max(1, Math.ceil(calculateCycleDuration(cycleStartDate, cycleEndDate) / 7))
+  const start = Date.parse(`${cycleStartDate}T00:00:00Z`)
+  const weeks: MortalityWeek[] = Array.from({ length: weekCount }, (_, index) => ({
+    week: index + 1,
+    startDate: new Date(start + index * 7 * DAY_MS).toISOString().split('T')[0],
+    losses: 0,
+    cumulativeRate: 0,
+  }))
+
+  events.forEach(event => {
+    const index = Math.floor((Date.parse(`${event.event_date}T00:00:00Z`) - start) / (7 * DAY_MS))
+    if (index >= 0 && index < weekCount) weeks[index].losses += event.count
+  })
+
+  let cumulative = 0
+  weeks.forEach(week => {
+    cumulative += week.losses
+    week.cumulativeRate = stockedAnimals > 0 ? (cumulative / stockedAnimals) * 100 : 0
+  })
+
+  return weeks
+}
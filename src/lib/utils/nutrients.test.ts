@@ -0,0 +1,103 @@
+/**
+ * Unit Tests for Nutrient Utilities
+ *
+ * These tests ensure the analysis valid on a feeding day is used and fed
+ * quantities are converted to dry matter, energy and protein.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  findApplicableAnalysis,
+  calculateNutrientIntake,
+  applyNutrients,
+  summarizeNutrients,
+  type FeedAnalysis
+} from './nutrients'
+
+// ============================================================================
+// TEST DATA FIXTURES
+// ============================================================================
+
+const analysis = (overrides: Partial<FeedAnalysis>): FeedAnalysis => ({
+  feed_type_id: 'ft-silage',
+  valid_from: '2025-01-01',
+  dry_matter_percent: 35,
+  me_mj_per_kg_dm: 10.5,
+  nel_mj_per_kg_dm: 6.4,
+  crude_protein_g_per_kg_dm: 80,
+  ...overrides,
+})
+
+const analyses: FeedAnalysis[] = [
+  analysis({}),
+  analysis({ valid_from: '2025-06-01', dry_matter_percent: 32 }),
+  analysis({ feed_type_id: 'ft-soy', dry_matter_percent: 88, nel_mj_per_kg_dm: null }),
+]
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('findApplicableAnalysis', () => {
+  it('should use the latest analysis sampled on or before the day', () => {
+    expect(findApplicableAnalysis('ft-silage', '2025-05-31', analyses)?.dry_matter_percent).toBe(35)
+    expect(findApplicableAnalysis('ft-silage', '2025-06-01', analyses)?.dry_matter_percent).toBe(32)
+  })
+
+  it('should return null before the first analysis', () => {
+    expect(findApplicableAnalysis('ft-silage', '2024-12-31', analyses)).toBeNull()
+  })
+})
+
+describe('calculateNutrientIntake', () => {
+  it('should calculate energy and protein per kg dry matter', () => {
+    const intake = calculateNutrientIntake(1000, analyses[0])
+
+    expect(intake!.dry_matter_kg).toBeCloseTo(350, 5)
+    expect(intake!.energy_mj_me).toBeCloseTo(3675, 5)
+    expect(intake!.energy_mj_nel).toBeCloseTo(2240, 5)
+    expect(intake!.crude_protein_kg).toBeCloseTo(28, 5)
+  })
+
+  it('should return null without an analysis or dry matter', () => {
+    expect(calculateNutrientIntake(100, analysis({ dry_matter_percent: null }))).toBeNull()
+    expect(calculateNutrientIntake(100, null)).toBeNull()
+  })
+})
+
+describe('applyNutrients', () => {
+  it('should add nutrients to items with an applicable analysis', () => {
+    const items = applyNutrients([
+      { feed_type_id: 'ft-soy', date: '2025-03-01', quantity: '100', feed_types: { unit: 'kg' } },
+      { feed_type_id: 'ft-corn', date: '2025-03-01', quantity: 100, feed_types: { unit: 'kg' } },
+    ], analyses)
+
+    expect(items[0].dry_matter_kg).toBeCloseTo(88, 5)
+    expect(items[0].energy_mj_nel).toBeNull()
+    expect(items[1].dry_matter_kg).toBeUndefined()
+  })
+
+  it('should treat quantities as kg regardless of the feed unit', () => {
+    const items = applyNutrients([
+      { feed_type_id: 'ft-silage', date: '2025-03-01', quantity: 2000, feed_types: { unit: 't' } },
+      { feed_type_id: 'ft-silage', date: '2025-03-01', quantity: 100, feed_types: { unit: 'bag' } },
+    ], analyses)
+
+    expect(items[0].dry_matter_kg).toBeCloseTo(700, 5)
+    expect(items[1].dry_matter_kg).toBeCloseTo(35, 5)
+  })
+})
+
+describe('summarizeNutrients', () => {
+  it('should relate only the cost of analysed items to their nutrients', () => {
+    const summary = summarizeNutrients([
+      { total_cost: 35, dry_matter_kg: 350, energy_mj_me: 3675, energy_mj_nel: null },
+      { total_cost: 50 },
+    ])
+
+    expect(summary.dryMatterKg).toBe(350)
+    expect(summary.costPerKgDryMatter).toBeCloseTo(0.1, 5)
+    expect(summary.costPerMjMe).toBeCloseTo(35 / 3675, 8)
+    expect(summary.costPerMjNel).toBeNull()
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * Nutrient Utilities
+ *
+ * Feed types carry lab analyses (dry matter, energy, crude protein) that are
+ * valid from their sampling date until the next analysis. Consumption is
+ * recorded in kg fresh matter and converted to dry matter, energy and protein
+ * using the analysis valid on the feeding day. Energy and protein values
+ * refer to one kg of dry matter, as reported by feed labs.
+ */
+
+export interface FeedAnalysis {
+  feed_type_id: string
+  valid_from: string
+  dry_matter_percent: number | null
+  /** Metabolisable energy, MJ ME per kg DM */
+  me_mj_per_kg_dm: number | null
+  /** Net energy lactation, MJ NEL per kg DM */
+  nel_mj_per_kg_dm: number | null
+  crude_protein_g_per_kg_dm: number | null
+}
+
+export interface NutrientIntake {
+  dry_matter_kg: number
+  energy_mj_me: number | null
+  energy_mj_nel: number | null
+  crude_protein_kg: number | null
+}
+
+/**
+ * Finds the analysis valid for a feed type on a given day
+ * That is the latest analysis sampled on or before the day.
+ */
+export function findApplicableAnalysis<T extends FeedAnalysis>(
+  feedTypeId: string,
+  date: string,
+  analyses: T[]
+): T | null {
+  return analyses
+    .filter(analysis => analysis.feed_type_id === feedTypeId && analysis.valid_from <= date)
+    .sort((a, b) => b.valid_from.localeCompare(a.valid_from))[0] || null
+}
+
+/**
+ * Calculates dry matter, energy and protein of a fed quantity
+ *
+ * @param freshMatterKg - Fed quantity in kg, as consumption is recorded
+ * @returns Nutrients, or null without a dry-matter value
+ */
+export function calculateNutrientIntake(
+  freshMatterKg: number,
+  analysis: FeedAnalysis | null
+): NutrientIntake | null {
+  if (!analysis || analysis.dry_matter_percent === null) return null
+
+  const dryMatterKg = freshMatterKg * Number(analysis.dry_matter_percent) / 100
+  const perKgDryMatter = (value: number | null) => value === null ? null : dryMatterKg * Number(value)
+  const crudeProteinGrams = perKgDryMatter(analysis.crude_protein_g_per_kg_dm)
+
+  return {
+    dry_matter_kg: dryMatterKg,
+    energy_mj_me: perKgDryMatter(analysis.me_mj_per_kg_dm),
+    energy_mj_nel: perKgDryMatter(analysis.nel_mj_per_kg_dm),
+    crude_protein_kg: crudeProteinGrams === null ? null : crudeProteinGrams / 1000,
+  }
+}
+
+/**
+ * Adds dry matter, energy and protein to consumption items
+ * Items without an applicable analysis keep no nutrient values.
+ */
+export function applyNutrients<T extends {
+  feed_type_id: string
+  date: string
+  quantity: number | string
+}>(consumption: T[], analyses: FeedAnalysis[]): (T & Partial<NutrientIntake>)[] {
+  if (analyses.length === 0) return consumption
+
+  return consumption.map(item => {
+    const analysis = findApplicableAnalysis(item.feed_type_id, item.date, analyses)
+    const intake = calculateNutrientIntake(Number(item.quantity), analysis)
+    return intake ? { ...item, ...intake } : item
+  })
+}
+
+/**
+ * Sums the nutrients of consumption items and relates their cost to them
+ * Cost ratios only use items with the respective nutrient value.
+ */
+export function summarizeNutrients(items: ({ total_cost?: number } & Partial<NutrientIntake>)[]) {
+  let dryMatterKg = 0
+  let dryMatterCost = 0
+  let energyMjMe = 0
+  let energyMeCost = 0
+  let energyMjNel = 0
+  let energyNelCost = 0
+  let crudeProteinKg = 0
+
+  items.forEach(item => {
+    const cost = item.total_cost || 0
+    if (item.dry_matter_kg != null) {
+      dryMatterKg += item.dry_matter_kg
+      dryMatterCost += cost
+    }
+    if (item.energy_mj_me != null) {
+      energyMjMe += item.energy_mj_me
+      energyMeCost += cost
+    }
+    if (item.energy_mj_nel != null) {
+      energyMjNel += item.energy_mj_nel
+      energyNelCost += cost
+    }
+    if (item.crude_protein_kg != null) {
+      crudeProteinKg += item.crude_protein_kg
+    }
+  })
+
+  return {
+    dryMatterKg,
+    energyMjMe,
+    energyMjNel,
+    crudeProteinKg,
+    costPerKgDryMatter: dryMatterKg > 0 ? dryMatterCost / dryMatterKg : null,
+    costPerMjMe: energyMjMe > 0 ? energyMeCost / energyMjMe : null,
+    costPerMjNel: energyMjNel > 0 ? energyNelCost / energyMjNel : null,
+  }
+}
@@ -1,6 +1,7 @@
 import { PivotDimension, PivotValue, PivotAggregation, PivotConfig } from '@/components/reports/pivot-table-config'
 import { format, startOfWeek, startOfMonth, startOfQuarter, startOfYear, getQuarter } from 'date-fns'
 import { de } from 'date-fns/locale'
+import { summarizeNutrients } from './nutrients'
 
 export interface ConsumptionDataRow {
   date: string
@@ -15,6 +16,15 @@ export interface ConsumptionDataRow {
   quantity: number
   total_cost: number
   price_per_unit?: number
+  /** Cost based on an estimated price */
+  cost_estimated?: boolean
+  /** No price available, the cost is 0 */
+  price_missing?: boolean
+  /** Nutrients from the applicable feed analysis */
+  dry_matter_kg?: number
+  energy_mj_me?: number | null
+  energy_mj_nel?: number | null
+  crude_protein_kg?: number | null
 }
 
 export interface PivotCell {
@@ -117,6 +127,8 @@ function getFieldValue(row: ConsumptionDataRow, field: PivotValue): number {
       return row.quantity
     case 'cost':
       return row.total_cost
+    case 'estimated_cost':
+      return row.cost_estimated ? row.total_cost : 0
     case 'avg_price':
       return row.price_per_unit || (row.quantity > 0 ? row.total_cost / row.quantity : 0)
     case 'count':
@@ -125,6 +137,20 @@ function getFieldValue(row: ConsumptionDataRow, field: PivotValue): number {
       return row.price_per_unit || 0
     case 'max_price':
       return row.price_per_unit || 0
+    case 'dry_matter':
+      return row.dry_matter_kg || 0
+    case 'energy_mj_me':
+      return row.energy_mj_me || 0
+    case 'energy_mj_nel':
+      return row.energy_mj_nel || 0
+    case 'crude_protein':
+      return row.crude_protein_kg || 0
+    case 'cost_per_kg_dm':
+      return row.dry_matter_kg ? row.total_cost / row.dry_matter_kg : 0
+    case 'cost_per_mj_me':
+      return row.energy_mj_me ? row.total_cost / row.energy_mj_me : 0
+    case 'cost_per_mj_nel':
+      return row.energy_mj_nel ? row.total_cost / row.energy_mj_nel : 0
     default:
       return 0
   }
@@ -161,10 +187,20 @@ function aggregateValues(
 
 /**
  * Calculate weighted average price from consumption data
+ * Costs per nutrient are weighted by dry matter or energy instead of quantity
  */
 function calculateWeightedAverage(
-  cellData: ConsumptionDataRow[]
+  cellData: ConsumptionDataRow[],
+  field: PivotValue
 ): number {
+  if (field === 'cost_per_kg_dm' || field === 'cost_per_mj_me' || field === 'cost_per_mj_nel') {
+    const nutrients = summarizeNutrients(cellData)
+    const ratio = field === 'cost_per_kg_dm'
+      ? nutrients.costPerKgDryMatter
+      : field === 'cost_per_mj_me' ? nutrients.costPerMjMe : nutrients.costPerMjNel
+    return ratio || 0
+  }
+
   const totalCost = cellData.reduce((sum, row) => sum + row.total_cost, 0)
   const totalQuantity = cellData.reduce((sum, row) => sum + row.quantity, 0)
 
@@ -178,12 +214,17 @@ function calculateWeightedAverage(
 function formatCellValue(value: number, field: PivotValue, aggregation: PivotAggregation): string {
   switch (field) {
     case 'cost':
+    case 'estimated_cost':
       return new Intl.NumberFormat('de-DE', {
         style: 'currency',
         currency: 'EUR',
         minimumFractionDigits: 2
       }).format(value)
     case 'quantity':
+    case 'dry_matter':
+    case 'energy_mj_me':
+    case 'energy_mj_nel':
+    case 'crude_protein':
       return new Intl.NumberFormat('de-DE', {
         minimumFractionDigits: 0,
         maximumFractionDigits: 1
@@ -191,6 +232,9 @@ function formatCellValue(value: number, field: PivotValue, aggregation: PivotAgg
     case 'avg_price':
     case 'min_price':
     case 'max_price':
+    case 'cost_per_kg_dm':
+    case 'cost_per_mj_me':
+    case 'cost_per_mj_nel':
       return new Intl.NumberFormat('de-DE', {
         style: 'currency',
         currency: 'EUR',
@@ -395,7 +439,7 @@ export function generatePivotTable(
 
       if (valueConfig.aggregation === 'weighted_avg') {
         // Use weighted average for price fields
-        aggregatedValue = calculateWeightedAverage(cellData)
+        aggregatedValue = calculateWeightedAverage(cellData, valueConfig.field)
       } else {
         // Extract field values and aggregate normally
         const fieldValues = cellData.map(row => getFieldValue(row, valueConfig.field))
@@ -451,7 +495,7 @@ export function generatePivotTable(
 
       if (valueConfig.aggregation === 'weighted_avg') {
         // Use weighted average for grand totals
-        aggregatedValue = calculateWeightedAverage(rawData)
+        aggregatedValue = calculateWeightedAverage(rawData, valueConfig.field)
       } else {
         // Extract field values and aggregate normally
         const values = rawData.map(row => getFieldValue(row, valueConfig.field))
@@ -0,0 +1,84 @@
+/**
+ * Unit Tests for Price Gaps
+ *
+ * These tests ensure unpriced consumption is grouped into gaps that a new
+ * price tier can close and that missing prices are estimated per policy.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { estimatePrice, findPriceGaps } from './price-gaps'
+
+// ============================================================================
+// TEST DATA FIXTURES
+// ============================================================================
+
+const priceTiers = [
+  { feed_type_id: 'ft-1', price_per_unit: 0.2, valid_from: '2024-01-01', valid_to: '2024-01-31' },
+  { feed_type_id: 'ft-1', price_per_unit: 0.4, valid_from: '2024-03-02', valid_to: null },
+]
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('estimatePrice', () => {
+  it('should use the last or next known price', () => {
+    expect(estimatePrice('ft-1', '2024-02-15', priceTiers, 'last_known')).toBe(0.2)
+    expect(estimatePrice('ft-1', '2024-02-15', priceTiers, 'next_known')).toBe(0.4)
+  })
+
+  it('should interpolate between the surrounding prices', () => {
+    // 2024-01-31 to 2024-03-02 is 31 days, 2024-02-15 is 15 days in
+    expect(estimatePrice('ft-1', '2024-02-15', priceTiers, 'interpolate')).toBeCloseTo(0.2 + 0.2 * 15 / 31)
+  })
+
+  it('should interpolate with the only known price on one side', () => {
+    expect(estimatePrice('ft-1', '2023-12-01', priceTiers, 'interpolate')).toBe(0.2)
+    expect(estimatePrice('ft-1', '2023-12-01', priceTiers, 'last_known')).toBeNull()
+  })
+
+  it('should use the reference price or no estimate', () => {
+    expect(estimatePrice('ft-1', '2024-02-15', priceTiers, 'reference', 0.3)).toBe(0.3)
+    expect(estimatePrice('ft-1', '2024-02-15', priceTiers, 'none', 0.3)).toBeNull()
+    expect(estimatePrice('ft-2', '2024-02-15', priceTiers, 'interpolate')).toBeNull()
+  })
+})
+
+describe('findPriceGaps', () => {
+  it('should group consecutive unpriced days and skip priced ones', () => {
+    const consumption = [
+      { feed_type_id: 'ft-1', date: '2024-01-31', quantity: 100 },
+      { feed_type_id: 'ft-1', date: '2024-02-01', quantity: 100 },
+      { feed_type_id: 'ft-1', date: '2024-02-01', quantity: 50 },
+      { feed_type_id: 'ft-1', date: '2024-02-03', quantity: 100 },
+      { feed_type_id: 'ft-1', date: '2024-03-02', quantity: 100 },
+    ]
+
+    expect(findPriceGaps(consumption, priceTiers)).toEqual([
+      { feedTypeId: 'ft-1', start: '2024-02-01', end: '2024-02-03', days: 2, quantity: 250 },
+    ])
+  })
+
+  it('should start a new gap after a break of more than a week', () => {
+    const consumption = [
+      { feed_type_id: 'ft-2', date: '2024-02-01', quantity: 100 },
+      { feed_type_id: 'ft-2', date: '2024-02-08', quantity: 100 },
+      { feed_type_id: 'ft-2', date: '2024-02-20', quantity: 100 },
+    ]
+
+    expect(findPriceGaps(consumption, priceTiers).map(gap => [gap.start, gap.end])).toEqual([
+      ['2024-02-01', '2024-02-08'],
+      ['2024-02-20', '2024-02-20'],
+    ])
+  })
+
+  it('should start a new gap after a tier without consumption in between', () => {
+    const tiers = [{ feed_type_id: 'ft-3', price_per_unit: 0.3, valid_from: '2024-02-03', valid_to: '2024-02-04' }]
+    const consumption = [
+      { feed_type_id: 'ft-3', date: '2024-02-01', quantity: 100 },
+      { feed_type_id: 'ft-3', date: '2024-02-06', quantity: 100 },
+    ]
+
+    expect(findPriceGaps(consumption, tiers)).toHaveLength(2)
+  })
+})
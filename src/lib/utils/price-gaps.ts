@@ -0,0 +1,133 @@
+/**
+ * Price Gap Utilities
+ *
+ * Finds consumption days without an applicable price tier and estimates a
+ * price for them according to the feed type's fallback policy. Estimated
+ * costs are flagged so KPIs and reports can show them as such.
+ */
+
+export type PriceFallbackPolicy = 'none' | 'last_known' | 'next_known' | 'interpolate' | 'reference'
+
+export const PRICE_FALLBACK_POLICY_LABELS: Record<PriceFallbackPolicy, string> = {
+  none: 'Keine Schätzung',
+  last_known: 'Letzter bekannter Preis',
+  next_known: 'Nächster bekannter Preis',
+  interpolate: 'Interpolieren',
+  reference: 'Referenzpreis',
+}
+
+interface GapPriceTier {
+  feed_type_id: string
+  price_per_unit: number
+  valid_from: string
+  valid_to: string | null
+}
+
+export interface PriceGap {
+  feedTypeId: string
+  /** First and last consumption day without a price */
+  start: string
+  end: string
+  /** Consumption days without a price */
+  days: number
+  quantity: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const toTime = (date: string) => Date.parse(`${date}T00:00:00Z`)
+
+const isPriced = (feedTypeId: string, date: string, priceTiers: GapPriceTier[]) =>
+  priceTiers.some(tier =>
+    tier.feed_type_id === feedTypeId && tier.valid_from <= date && (!tier.valid_to || tier.valid_to >= date)
+  )
+
+/**
+ * Estimates the price of a feed type on a day no price tier covers
+ *
+ * Last known uses the tier that ended most recently before the day, next
+ * known the tier starting soonest after it. Interpolate draws a straight
+ * line between the two and falls back to whichever one exists.
+ *
+ * @returns Estimated price per unit, or null if the policy yields none
+ */
+export function estimatePrice(
+  feedTypeId: string,
+  date: string,
+  priceTiers: GapPriceTier[],
+  policy: PriceFallbackPolicy,
+  referencePrice: number | null = null
+): number | null {
+  if (policy === 'none') return null
+  if (policy === 'reference') return referencePrice
+
+  const feedPrices = priceTiers.filter(tier => tier.feed_type_id === feedTypeId)
+  const last = feedPrices
+    .filter(tier => tier.valid_to && tier.valid_to < date)
+    .sort((a, b) => b.valid_to!.localeCompare(a.valid_to!))[0]
+  const next = feedPrices
+    .filter(tier => tier.valid_from > date)
+    .sort((a, b) => a.valid_from.localeCompare(b.valid_from))[0]
+
+  if (policy === 'last_known') return last ? Number(last.price_per_unit) : null
+  if (policy === 'next_known') return next ? Number(next.price_per_unit) : null
+
+  if (last && next) {
+    const lastPrice = Number(last.price_per_unit)
+    const nextPrice = Number(next.price_per_unit)
+    const position = (toTime(date) - toTime(last.valid_to!)) / (toTime(next.valid_from) - toTime(last.valid_to!))
+    return lastPrice + (nextPrice - lastPrice) * position
+  }
+  return last ? Number(last.price_per_unit) : next ? Number(next.price_per_unit) : null
+}
+
+/**
+ * Finds the date ranges in which consumed feed has no price tier
+ *
+ * Consecutive unpriced consumption days form one gap, so a tier covering
+ * the gap does not overlap existing ones. A tier starting in between or a
+ * break in consumption of more than a week starts a new gap.
+ *
+ * @param consumption - Consumption per feed type and day
+ * @returns Gaps ordered by feed type and start date
+ */
+export function findPriceGaps(
+  consumption: { feed_type_id: string; date: string; quantity: number }[],
+  priceTiers: GapPriceTier[]
+): PriceGap[] {
+  const quantityByDay = new Map<string, Map<string, number>>()
+  consumption.forEach(item => {
+    const days = quantityByDay.get(item.feed_type_id) || new Map<string, number>()
+    days.set(item.date, (days.get(item.date) || 0) + Number(item.quantity))
+    quantityByDay.set(item.feed_type_id, days)
+  })
+
+  const gaps: PriceGap[] = []
+
+  quantityByDay.forEach((days, feedTypeId) => {
+    let current: PriceGap | null = null
+
+    for (const date of Array.from(days.keys()).sort()) {
+      if (isPriced(feedTypeId, date, priceTiers)) {
+        current = null
+        continue
+      }
+
+      const previousEnd: string | undefined = current?.end
+      const tierInBetween = previousEnd !== undefined && priceTiers.some(tier =>
+        tier.feed_type_id === feedTypeId && tier.valid_from <= date && (!tier.valid_to || tier.valid_to >= previousEnd)
+      )
+
+      if (current && !tierInBetween && (toTime(date) - toTime(current.end)) / DAY_MS <= 7) {
+        current.end = date
+        current.days++
+        current.quantity += days.get(date)!
+      } else {
+        current = { feedTypeId, start: date, end: date, days: 1, quantity: days.get(date)! }
+        gaps.push(current)
+      }
+    }
+  })
+
+  return gaps.sort((a, b) => a.feedTypeId.localeCompare(b.feedTypeId) || a.start.localeCompare(b.start))
+}
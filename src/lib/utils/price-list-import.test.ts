@@ -0,0 +1,168 @@
+/**
+ * Unit Tests for Price List Import
+ *
+ * These tests ensure price lists are read with their columns recognised,
+ * names are matched and superseded price tiers are ended the day before
+ * the new tier starts, and reopened when the new tiers cannot be written.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { readDelimitedText } from '@/lib/import-adapters/shared'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  parsePriceList,
+  planPriceListImport,
+  writePriceListImport,
+  type PriceListContext,
+  type PriceListRow
+} from './price-list-import'
+
+// ============================================================================
+// TEST DATA FIXTURES
+// ============================================================================
+
+const context: PriceListContext = {
+  feedTypes: [
+    { id: 'ft-soy', name: 'Sojaschrot', normalized_name: null, unit: 'kg' },
+    { id: 'ft-corn', name: 'Maissilage', normalized_name: null, unit: 't' },
+  ],
+  aliases: [{ feed_type_id: 'ft-soy', alias: 'SES 44' }],
+  suppliers: [{ id: 'sup-1', name: 'Agrarhandel Nord' }],
+  priceTiers: [
+    { id: 'pt-1', feed_type_id: 'ft-soy', supplier_id: 'sup-1', price_per_unit: 0.5, valid_from: '2025-01-01', valid_to: null },
+    { id: 'pt-2', feed_type_id: 'ft-soy', supplier_id: null, price_per_unit: 0.48, valid_from: '2025-01-01', valid_to: null },
+    { id: 'pt-3', feed_type_id: 'ft-corn', supplier_id: null, price_per_unit: 40, valid_from: '2025-05-01', valid_to: null },
+  ],
+}
+
+const row = (overrides: Partial<PriceListRow>): PriceListRow => ({
+  sourceRow: 0,
+  feedName: 'Sojaschrot',
+  supplierName: 'Agrarhandel Nord',
+  pricePerUnit: 0.52,
+  unit: 'kg',
+  validFrom: '2025-04-01',
+  validTo: null,
+  ...overrides,
+})
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('parsePriceList', () => {
+  it('should recognise the columns and read the unit from the price header', () => {
+    const table = readDelimitedText([
+      'Artikel;Lieferant;Preis (€/dt);Gültig ab;Gültig bis',
+      'Sojaschrot;Agrarhandel Nord;52,00;01.04.2025;30.06.2025',
+      ';;;;',
+      'Rapsschrot;Agrarhandel Nord;abc;01.04.2025;',
+    ].join('\n'))
+
+    const result = parsePriceList(table)
+
+    expect(result.rows).toEqual([{
+      sourceRow: 0,
+      feedName: 'Sojaschrot',
+      supplierName: 'Agrarhandel Nord',
+      pricePerUnit: 52,
+      unit: 'dt',
+      validFrom: '2025-04-01',
+      validTo: '2025-06-30',
+    }])
+    expect(result.issues).toEqual([{ sourceRow: 2, message: 'Ungültiger Preis "abc" bei Rapsschrot' }])
+  })
+
+  it('should use the default validity for lists without a date column', () => {
+    const table = readDelimitedText('Futtermittel;Preis;Einheit\nSojaschrot;0,52;€/kg')
+
+    expect(parsePriceList(table, '2025-04-01').rows[0]).toMatchObject({ validFrom: '2025-04-01', unit: 'kg' })
+    expect(parsePriceList(table).issues[0].message).toBe('Gültig ab fehlt bei Sojaschrot')
+  })
+
+  it('should throw without a price column', () => {
+    expect(() => parsePriceList(readDelimitedText('Futtermittel;Menge\nSoja;1'))).toThrow('Preis')
+  })
+})
+
+describe('planPriceListImport', () => {
+  it('should end the superseded tier of the same feed type and supplier', () => {
+    const [entry] = planPriceListImport([row({})], context)
+
+    expect(entry.error).toBeNull()
+    expect(entry.feedTypeId).toBe('ft-soy')
+    expect(entry.supplierId).toBe('sup-1')
+    expect(entry.closes).toEqual([{ tier: context.priceTiers[0], validTo: '2025-03-31' }])
+    expect(entry.overlaps).toEqual([])
+  })
+
+  it('should match aliases and apply rows without supplier to tiers without supplier', () => {
+    const [entry] = planPriceListImport([row({ feedName: 'SES 44', supplierName: null })], context)
+
+    expect(entry.feedTypeId).toBe('ft-soy')
+    expect(entry.closes.map(close => close.tier.id)).toEqual(['pt-2'])
+  })
+
+  it('should report tiers starting within the new tier as overlaps', () => {
+    const [entry] = planPriceListImport([row({ feedName: 'Maissilage', supplierName: null, unit: 't', pricePerUnit: 42 })], context)
+
+    expect(entry.closes).toEqual([])
+    expect(entry.overlaps.map(tier => tier.id)).toEqual(['pt-3'])
+  })
+
+  it('should chain several rows of the same feed type and supplier', () => {
+    const entries = planPriceListImport([
+      row({ sourceRow: 1, validFrom: '2025-07-01' }),
+      row({ sourceRow: 0 }),
+    ], context)
+
+    expect(entries[1].validTo).toBe('2025-06-30')
+    expect(entries[1].closes).toHaveLength(1)
+    expect(entries[0].validTo).toBeNull()
+    expect(entries[0].closes).toEqual([])
+    expect(entries[0].overlaps).toEqual([])
+  })
+
+  it('should reject unknown names and units that cannot be converted', () => {
+    const entries = planPriceListImport([
+      row({ feedName: 'Rapsschrot' }),
+      row({ supplierName: 'Unbekannt GmbH' }),
+      row({ unit: 'bag' }),
+      row({ unit: 'dt', sourceRow: 3, validFrom: '2025-07-01' }),
+    ], context)
+
+    expect(entries.map(entry => entry.error)).toEqual([
+      'Futtermittel Rapsschrot konnte nicht gefunden werden',
+      'Lieferant Unbekannt GmbH konnte nicht gefunden werden',
+      'Preis je Sack ist nicht in kg umrechenbar',
+      null,
+    ])
+  })
+})
+
+describe('writePriceListImport', () => {
+  it('should reopen the ended tiers when the new tiers cannot be inserted', async () => {
+    const updates: { id: string; valid_to: string | null }[] = []
+    const supabase = {
+      from: () => ({
+        update: (values: { valid_to: string | null }) => ({
+          eq: async (_column: string, id: string) => {
+            updates.push({ id, valid_to: values.valid_to })
+            return { error: null }
+          },
+        }),
+        insert: async () => ({ error: { message: 'duplicate key' } }),
+      }),
+    } as unknown as SupabaseClient
+    const entries = planPriceListImport([row({}), row({ feedName: 'Maissilage', supplierName: null, unit: 't', validFrom: '2025-08-01' })], context)
+
+    await expect(writePriceListImport(supabase, { farmId: 'farm-1', userId: 'user-1' }, entries))
+      .rejects.toThrow('Fehler beim Anlegen der Preisstaffeln: duplicate key. Beendete Preisstaffeln wurden wieder geöffnet.')
+    expect(updates).toEqual([
+      { id: 'pt-1', valid_to: '2025-03-31' },
+      { id: 'pt-3', valid_to: '2025-07-31' },
+      { id: 'pt-1', valid_to: null },
+      { id: 'pt-3', valid_to: null },
+    ])
+  })
+})
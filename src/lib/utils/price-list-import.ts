@@ -0,0 +1,368 @@
+/**
+ * Price List Import Utilities
+ *
+ * Reads supplier price lists (one row per feed and price) into price tier
+ * rows, matches feed and supplier names and plans which existing price tiers
+ * a new tier supersedes. A superseded tier ends the day before the new one
+ * starts; tiers starting inside the new validity are reported as overlaps
+ * and left for the user to resolve.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  normalizeHeader,
+  parseDateValue,
+  parseDecimal,
+  type DelimitedTable
+} from '@/lib/import-adapters/shared'
+import { matchFeedNames, type FeedTypeAlias, type FeedTypeForMatching } from './feed-name-matching'
+import { convertUnitPrice, formatUnit, resolveUnit, type FeedUnitFactors } from './units'
+
+export interface PriceListRow {
+  /** Index into DelimitedTable.rows */
+  sourceRow: number
+  feedName: string
+  supplierName: string | null
+  pricePerUnit: number
+  /** Unit the price refers to, e.g. "kg" for €/kg */
+  unit: string | null
+  validFrom: string
+  validTo: string | null
+}
+
+export interface PriceListIssue {
+  sourceRow: number
+  message: string
+}
+
+export interface PriceListParseResult {
+  rows: PriceListRow[]
+  issues: PriceListIssue[]
+}
+
+export interface PriceListTier {
+  id: string
+  feed_type_id: string
+  supplier_id: string | null
+  price_per_unit: number
+  valid_from: string
+  valid_to: string | null
+}
+
+export interface PriceListContext {
+  feedTypes: (FeedTypeForMatching & FeedUnitFactors & { unit: string | null })[]
+  aliases: FeedTypeAlias[]
+  suppliers: { id: string; name: string }[]
+  priceTiers: PriceListTier[]
+}
+
+export interface PriceListImportResult {
+  createdTiers: number
+  closedTiers: number
+}
+
+export interface PriceListImportEntry {
+  row: PriceListRow
+  feedTypeId: string | null
+  feedTypeName: string | null
+  supplierId: string | null
+  /** End of the new tier, set to the day before a later row of the same list */
+  validTo: string | null
+  /** Existing tiers ending the day before the new tier starts */
+  closes: { tier: PriceListTier; validTo: string }[]
+  /** Existing tiers starting within the new tier, left unchanged */
+  overlaps: PriceListTier[]
+  /** Reason the row cannot be imported */
+  error: string | null
+}
+
+const FEED_COLUMNS = ['futtermittel', 'futter', 'artikel', 'produkt', 'bezeichnung', 'sorte', 'feed', 'product']
+const SUPPLIER_COLUMNS = ['lieferant', 'supplier', 'händler', 'haendler']
+const UNIT_COLUMNS = ['einheit', 'mengeneinheit', 'unit', 'me']
+const PRICE_COLUMNS = ['preis', 'price', 'netto', '€']
+const VALID_FROM_COLUMNS = ['gültig ab', 'gueltig ab', 'gültig von', 'valid from', 'ab', 'von', 'from', 'beginn']
+const VALID_TO_COLUMNS = ['gültig bis', 'gueltig bis', 'valid to', 'valid until', 'bis', 'to', 'ende']
+
+const UNIT_ALIASES: Record<string, string> = {
+  kilogramm: 'kg',
+  doppelzentner: 'dt',
+  sack: 'bag',
+  sa: 'bag',
+  to: 't',
+  tonne: 't',
+  tonnen: 't',
+  liter: 'l',
+  ltr: 'l',
+}
+
+/**
+ * Normalizes a unit as written in price lists ("€/dt", "Tonne") to the
+ * feed type units
+ */
+export function normalizePriceUnit(unit: string | null | undefined): string | null {
+  if (!unit) return null
+  const cleaned = unit.toLowerCase().replace(/^.*\//, '').replace(/\s+/g, '').replace('m3', 'm³')
+  if (!cleaned) return null
+  return UNIT_ALIASES[cleaned] || cleaned
+}
+
+const dayBefore = (date: string) => {
+  const value = new Date(`${date}T00:00:00Z`)
+  value.setUTCDate(value.getUTCDate() - 1)
+  return value.toISOString().split('T')[0]
+}
+
+/**
+ * Reads a price list table
+ *
+ * Columns are recognised by their header. The unit may be a column of its
+ * own or part of the price header ("Preis (€/dt)"). Price lists with one
+ * validity for all rows usually have no date column; defaultValidFrom is
+ * used for them.
+ *
+ * @throws If no feed or price column is found
+ */
+export function parsePriceList(table: DelimitedTable, defaultValidFrom: string | null = null): PriceListParseResult {
+  const normalized = table.header.map(normalizeHeader)
+  const used = new Set<number>()
+  const pick = (candidates: string[]) => {
+    const index = normalized.findIndex((col, i) =>
+      !used.has(i) && candidates.some(c => col === c || (c.length > 3 && col.includes(c)))
+    )
+    if (index !== -1) used.add(index)
+    return index
+  }
+
+  // Unit and dates first, so "Preiseinheit" or "Preis gültig ab" are not taken as price
+  const unitIndex = pick(UNIT_COLUMNS)
+  const validFromIndex = pick(VALID_FROM_COLUMNS)
+  const validToIndex = pick(VALID_TO_COLUMNS)
+  const supplierIndex = pick(SUPPLIER_COLUMNS)
+  const feedIndex = pick(FEED_COLUMNS)
+  const priceIndex = pick(PRICE_COLUMNS)
+
+  if (feedIndex === -1) {
+    throw new Error('Spalte für das Futtermittel nicht gefunden')
+  }
+  if (priceIndex === -1) {
+    throw new Error('Spalte für den Preis nicht gefunden')
+  }
+
+  const headerUnit = table.header[priceIndex].match(/\/\s*([^\s)\]]+)/)?.[1] ?? null
+  const rows: PriceListRow[] = []
+  const issues: PriceListIssue[] = []
+
+  table.rows.forEach((cells, sourceRow) => {
+    const feedName = (cells[feedIndex] || '').trim()
+    const priceCell = (cells[priceIndex] || '').trim()
+    if (!feedName && !priceCell) return
+    if (!feedName) {
+      issues.push({ sourceRow, message: 'Futtermittel fehlt' })
+      return
+    }
+
+    const pricePerUnit = parseDecimal(priceCell.replace(/€/g, ''))
+    if (!priceCell || pricePerUnit <= 0) {
+      issues.push({ sourceRow, message: `Ungültiger Preis "${priceCell}" bei ${feedName}` })
+      return
+    }
+
+    const validFromCell = validFromIndex !== -1 ? cells[validFromIndex] : ''
+    const validFrom = validFromCell ? parseDateValue(validFromCell) : defaultValidFrom
+    if (!validFrom) {
+      issues.push({
+        sourceRow,
+        message: validFromCell ? `Ungültiges Datum "${validFromCell}" bei ${feedName}` : `Gültig ab fehlt bei ${feedName}`
+      })
+      return
+    }
+
+    const validToCell = validToIndex !== -1 ? cells[validToIndex] : ''
+    const validTo = validToCell ? parseDateValue(validToCell) : null
+    if (validToCell && !validTo) {
+      issues.push({ sourceRow, message: `Ungültiges Datum "${validToCell}" bei ${feedName}` })
+      return
+    }
+
+    rows.push({
+      sourceRow,
+      feedName,
+      supplierName: supplierIndex !== -1 ? (cells[supplierIndex] || '').trim() || null : null,
+      pricePerUnit,
+      unit: normalizePriceUnit(unitIndex !== -1 ? cells[unitIndex] : headerUnit),
+      validFrom,
+      validTo,
+    })
+  })
+
+  return { rows, issues }
+}
+
+/**
+ * Matches the rows of a price list and plans the resulting price tier changes
+ *
+ * Feed names are matched like import files (exact, alias, normalized),
+ * suppliers by name ignoring case. A row without a supplier applies to the
+ * tiers without a supplier. Several rows for the same feed and supplier
+ * follow each other: an open row ends the day before the next one starts.
+ *
+ * @returns One entry per row, in row order
+ */
+export function planPriceListImport(rows: PriceListRow[], context: PriceListContext): PriceListImportEntry[] {
+  const feedMatches = matchFeedNames(rows.map(row => row.feedName), context.feedTypes, context.aliases)
+  const feedTypesById = new Map(context.feedTypes.map(feedType => [feedType.id, feedType]))
+  const suppliersByName = new Map(context.suppliers.map(supplier => [supplier.name.trim().toLowerCase(), supplier.id]))
+
+  const entries: PriceListImportEntry[] = rows.map((row, index) => {
+    const match = feedMatches[index]
+    const supplierId = row.supplierName ? suppliersByName.get(row.supplierName.toLowerCase()) ?? null : null
+    const feedType = match.feedTypeId ? feedTypesById.get(match.feedTypeId) : undefined
+    const feedUnit = resolveUnit(feedType?.unit)
+
+    let error: string | null = null
+    if (!match.feedTypeId) {
+      error = `Futtermittel ${row.feedName} konnte nicht gefunden werden`
+    } else if (row.supplierName && !supplierId) {
+      error = `Lieferant ${row.supplierName} konnte nicht gefunden werden`
+    } else if (row.unit && convertUnitPrice(row.pricePerUnit, row.unit, feedUnit, feedType) === null) {
+      error = `Preis je ${formatUnit(row.unit)} ist nicht in ${formatUnit(feedUnit)} umrechenbar`
+    } else if (row.validTo && row.validTo < row.validFrom) {
+      error = 'Gültig bis liegt vor Gültig ab'
+    }
+
+    return {
+      row,
+      feedTypeId: match.feedTypeId,
+      feedTypeName: match.feedTypeName,
+      supplierId,
+      validTo: row.validTo,
+      closes: [],
+      overlaps: [],
+      error,
+    }
+  })
+
+  const groups = new Map<string, PriceListImportEntry[]>()
+  entries.filter(entry => !entry.error).forEach(entry => {
+    const key = `${entry.feedTypeId}|${entry.supplierId ?? ''}`
+    groups.set(key, [...(groups.get(key) || []), entry])
+  })
+
+  groups.forEach(group => {
+    group.sort((a, b) => a.row.validFrom.localeCompare(b.row.validFrom))
+
+    group.forEach((entry, index) => {
+      const next = group[index + 1]
+      if (next && next.row.validFrom === entry.row.validFrom) {
+        entry.error = 'Mehrfach in der Preisliste'
+        next.error = 'Mehrfach in der Preisliste'
+      } else if (next && (!entry.validTo || entry.validTo >= next.row.validFrom)) {
+        entry.validTo = dayBefore(next.row.validFrom)
+      }
+    })
+
+    // Only the first row supersedes tiers that start before it, later rows
+    // follow the first one
+    const closedTierIds = new Set<string>()
+    const importable = group.filter(entry => !entry.error)
+    const groupEnd = importable.length > 0 ? importable[importable.length - 1].validTo : null
+    importable.forEach((entry, index) => {
+      const from = entry.row.validFrom
+      const to = entry.validTo
+
+      context.priceTiers
+        .filter(tier => tier.feed_type_id === entry.feedTypeId && (tier.supplier_id ?? null) === entry.supplierId)
+        .filter(tier => !closedTierIds.has(tier.id))
+        .forEach(tier => {
+          const endsAfterStart = !tier.valid_to || tier.valid_to >= from
+          if (tier.valid_from < from && endsAfterStart) {
+            // A bounded list inside a longer tier would leave the rest of it unpriced
+            const coversBeyond = groupEnd !== null && (!tier.valid_to || tier.valid_to > groupEnd)
+            if (index === 0 && !coversBeyond) {
+              entry.closes.push({ tier, validTo: dayBefore(from) })
+              closedTierIds.add(tier.id)
+            } else {
+              entry.overlaps.push(tier)
+            }
+          } else if (tier.valid_from >= from && (!to || tier.valid_from <= to)) {
+            entry.overlaps.push(tier)
+          }
+        })
+    })
+  })
+
+  return entries
+}
+
+/**
+ * Writes the importable entries of a planned price list
+ *
+ * Superseded tiers are ended first, so the new tiers never overlap them. If
+ * ending a tier or inserting the new tiers fails, the tiers ended so far get
+ * their previous end back, so a failed import leaves no gap in the prices.
+ *
+ * @param supabase - Client of the user running the import
+ * @param target - Farm to import into and user recorded as creator
+ */
+export async function writePriceListImport(
+  supabase: SupabaseClient,
+  target: { farmId: string; userId: string },
+  entries: PriceListImportEntry[],
+  notes: string | null = null
+): Promise<PriceListImportResult> {
+  const importable = entries.filter(entry => !entry.error && entry.feedTypeId)
+  const closes = importable.flatMap(entry => entry.closes)
+  const closed: PriceListTier[] = []
+
+  try {
+    for (const close of closes) {
+      const { error } = await supabase
+        .from('price_tiers')
+        .update({ valid_to: close.validTo })
+        .eq('id', close.tier.id)
+
+      if (error) {
+        throw new Error(`Fehler beim Beenden der Preisstaffel: ${error.message}`)
+      }
+      closed.push(close.tier)
+    }
+
+    if (importable.length > 0) {
+      const { error } = await supabase
+        .from('price_tiers')
+        .insert(importable.map(entry => ({
+          farm_id: target.farmId,
+          feed_type_id: entry.feedTypeId!,
+          supplier_id: entry.supplierId,
+          price_per_unit: entry.row.pricePerUnit,
+          unit: entry.row.unit,
+          valid_from: entry.row.validFrom,
+          valid_to: entry.validTo,
+          notes,
+          created_by: target.userId
+        })))
+
+      if (error) {
+        throw new Error(`Fehler beim Anlegen der Preisstaffeln: ${error.message}`)
+      }
+    }
+  } catch (error) {
+    if (closed.length === 0) throw error
+
+    let reopened = 0
+    for (const tier of closed) {
+      const { error: reopenError } = await supabase
+        .from('price_tiers')
+        .update({ valid_to: tier.valid_to })
+        .eq('id', tier.id)
+      if (!reopenError) reopened++
+    }
+
+    const message = error instanceof Error ? error.message : 'Unbekannter Fehler'
+    throw new Error(reopened === closed.length
+      ? `${message}. Beendete Preisstaffeln wurden wieder geöffnet.`
+      : `${message}. ${closed.length - reopened} beendete Preisstaffeln konnten nicht wieder geöffnet werden.`)
+  }
+
+  return { createdTiers: importable.length, closedTiers: closes.length }
+}
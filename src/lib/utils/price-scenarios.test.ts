@@ -0,0 +1,147 @@
+/**
+ * Unit Tests for Price Scenario Utilities
+ *
+ * These tests ensure the price history follows the price tiers, the trend
+ * forecast is fitted to past monthly prices and planned cycles are valued
+ * with the budget prices of each scenario.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildPriceHistory,
+  monthlyAveragePrices,
+  forecastPrices,
+  estimateFeedShares,
+  distributeFeedDemand,
+  calculatePriceScenarios,
+  type HistoryTier,
+  type BudgetPrice
+} from './price-scenarios'
+
+// ============================================================================
+// TEST DATA FIXTURES
+// ============================================================================
+
+const tiers: HistoryTier[] = [
+  { feed_type_id: 'ft-soy', supplier_id: 'sup-1', price_per_unit: 0.5, valid_from: '2025-01-01', valid_to: '2025-02-28' },
+  { feed_type_id: 'ft-soy', supplier_id: 'sup-1', price_per_unit: 0.55, valid_from: '2025-03-01', valid_to: null },
+  { feed_type_id: 'ft-soy', supplier_id: 'sup-2', price_per_unit: 0.6, valid_from: '2025-02-01', valid_to: '2025-03-31' },
+  { feed_type_id: 'ft-corn', supplier_id: null, price_per_unit: 40, valid_from: '2025-01-01', valid_to: null },
+]
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('buildPriceHistory', () => {
+  it('should add a point per price change with the price of each supplier', () => {
+    const history = buildPriceHistory(tiers, 'ft-soy', '2025-05-01')
+
+    expect(history.series.map(series => series.supplierId)).toEqual(['sup-1', 'sup-2'])
+    expect(history.points).toEqual([
+      { date: '2025-01-01', 'sup-1': 0.5, 'sup-2': null },
+      { date: '2025-02-01', 'sup-1': 0.5, 'sup-2': 0.6 },
+      { date: '2025-03-01', 'sup-1': 0.55, 'sup-2': 0.6 },
+      { date: '2025-04-01', 'sup-1': 0.55, 'sup-2': null },
+      { date: '2025-05-01', 'sup-1': 0.55, 'sup-2': null },
+    ])
+  })
+
+  it('should be empty for feed types without tiers', () => {
+    expect(buildPriceHistory(tiers, 'ft-none', '2025-05-01')).toEqual({ series: [], points: [] })
+  })
+})
+
+describe('monthlyAveragePrices', () => {
+  it('should average the suppliers valid mid-month', () => {
+    expect(monthlyAveragePrices(tiers, 'ft-soy', '2024-12-01', '2025-04-01')).toEqual([
+      { month: '2024-12-01', price: null },
+      { month: '2025-01-01', price: 0.5 },
+      { month: '2025-02-01', price: 0.55 },
+      { month: '2025-03-01', price: 0.575 },
+      { month: '2025-04-01', price: 0.55 },
+    ])
+  })
+})
+
+describe('forecastPrices', () => {
+  it('should continue a linear trend', () => {
+    const [forecast] = forecastPrices([
+      { month: '2025-01-01', price: 100 },
+      { month: '2025-02-01', price: 110 },
+      { month: '2025-03-01', price: 120 },
+    ], ['2025-05-01'])
+
+    expect(forecast.expected).toBeCloseTo(140, 6)
+    // Prices lie exactly on the trend, so there is no spread
+    expect(forecast.best).toBeCloseTo(140, 6)
+    expect(forecast.worst).toBeCloseTo(140, 6)
+  })
+
+  it('should spread best and worst case by the deviation from the trend', () => {
+    const [forecast] = forecastPrices([
+      { month: '2025-01-01', price: 100 },
+      { month: '2025-02-01', price: 120 },
+      { month: '2025-03-01', price: 100 },
+      { month: '2025-04-01', price: 120 },
+    ], ['2025-05-01'])
+
+    expect(forecast.best).toBeLessThan(forecast.expected)
+    expect(forecast.worst - forecast.expected).toBeCloseTo(forecast.expected - forecast.best, 6)
+  })
+
+  it('should carry a single price forward and skip months without history', () => {
+    expect(forecastPrices([{ month: '2025-01-01', price: 40 }, { month: '2025-02-01', price: null }], ['2025-06-01']))
+      .toEqual([{ month: '2025-06-01', best: 40, expected: 40, worst: 40 }])
+    expect(forecastPrices([{ month: '2025-01-01', price: null }], ['2025-06-01'])).toEqual([])
+  })
+})
+
+describe('distributeFeedDemand', () => {
+  it('should spread the demand by days per month and convert it to the feed unit', () => {
+    const shares = estimateFeedShares([
+      { feed_type_id: 'ft-soy', quantity: 250, feed_types: { unit: 'kg' } },
+      { feed_type_id: 'ft-corn', quantity: 750, feed_types: { unit: 't' } },
+    ])
+    expect(shares.map(share => share.share)).toEqual([0.25, 0.75])
+
+    // 10 days in January, 20 days in February
+    const demand = distributeFeedDemand('2025-01-22', '2025-02-20', 3000, shares)
+
+    expect(demand).toEqual([
+      { month: '2025-01-01', feed_type_id: 'ft-soy', quantity: 250 },
+      { month: '2025-01-01', feed_type_id: 'ft-corn', quantity: 0.75 },
+      { month: '2025-02-01', feed_type_id: 'ft-soy', quantity: 500 },
+      { month: '2025-02-01', feed_type_id: 'ft-corn', quantity: 1.5 },
+    ])
+  })
+})
+
+describe('calculatePriceScenarios', () => {
+  it('should value the demand with budget prices and fall back to current prices', () => {
+    const budgetPrices: BudgetPrice[] = [
+      { feed_type_id: 'ft-soy', month: '2025-01-01', price_best: 0.4, price_expected: 0.5, price_worst: 0.6 },
+    ]
+
+    const results = calculatePriceScenarios({
+      totalAnimals: 10,
+      buyPricePerAnimal: 50,
+      sellPricePerAnimal: 200,
+      demand: [
+        { month: '2025-01-01', feed_type_id: 'ft-soy', quantity: 1000 },
+        { month: '2025-02-01', feed_type_id: 'ft-soy', quantity: 1000 },
+        { month: '2025-02-01', feed_type_id: 'ft-corn', quantity: 2 },
+      ],
+      budgetPrices,
+      currentPrices: { 'ft-soy': 0.45 },
+    })
+
+    // Best: 1000 * 0.4 + 1000 * 0.45 (current price)
+    expect(results.best.feedCost).toBeCloseTo(850, 6)
+    expect(results.worst.feedCost).toBeCloseTo(1050, 6)
+    expect(results.expected.fallbackQuantity).toBe(1000)
+    expect(results.expected.unpricedQuantity).toBe(2)
+    // 10 * 200 - 10 * 50 - 950
+    expect(results.expected.profitLoss).toBeCloseTo(550, 6)
+  })
+})
@@ -0,0 +1,355 @@
+/**
+ * Price Scenario Utilities
+ *
+ * Builds the price history of a feed type from its price tiers, forecasts
+ * monthly prices from the trend and values the feed demand of a planned
+ * cycle with budget prices for a best, expected and worst case. Prices are
+ * per unit of the feed type (tiers normalized with normalizeTierUnits).
+ */
+
+import { calculateEstimatedProfitLoss } from './kpi-calculations'
+import { unitWeightKg, type FeedUnitFactors } from './units'
+
+export type PriceScenario = 'best' | 'expected' | 'worst'
+
+export const PRICE_SCENARIOS: PriceScenario[] = ['best', 'expected', 'worst']
+
+export const PRICE_SCENARIO_LABELS: Record<PriceScenario, string> = {
+  best: 'Günstig',
+  expected: 'Erwartet',
+  worst: 'Teuer',
+}
+
+export interface HistoryTier {
+  feed_type_id: string
+  supplier_id: string | null
+  price_per_unit: number
+  valid_from: string
+  valid_to: string | null
+}
+
+/** Budget price of a feed type for one month (first day of the month) */
+export interface BudgetPrice {
+  feed_type_id: string
+  month: string
+  price_best: number
+  price_expected: number
+  price_worst: number
+}
+
+export interface PriceHistorySeries {
+  key: string
+  supplierId: string | null
+}
+
+export interface PriceHistory {
+  series: PriceHistorySeries[]
+  /** One point per price change, with the price of each series on that day */
+  points: ({ date: string } & Record<string, number | string | null>)[]
+}
+
+export interface MonthlyPriceForecast {
+  month: string
+  best: number
+  expected: number
+  worst: number
+}
+
+export interface FeedShare {
+  feed_type_id: string
+  /** Share of the feed demand in kg, 0..1 */
+  share: number
+  /** Weight of one feed type unit in kg */
+  unitWeightKg: number
+}
+
+export interface FeedDemand {
+  month: string
+  feed_type_id: string
+  /** Quantity in the feed type's unit */
+  quantity: number
+}
+
+export interface ScenarioResult {
+  feedCost: number
+  profitLoss: number | null
+  /** Quantity valued at the current price because no budget price exists */
+  fallbackQuantity: number
+  /** Quantity without budget or current price, counted at 0 € */
+  unpricedQuantity: number
+}
+
+const NO_SUPPLIER_KEY = 'none'
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0]
+
+function shiftDate(dateString: string, days: number): string {
+  const date = new Date(dateString)
+  date.setUTCDate(date.getUTCDate() + days)
+  return toDateString(date)
+}
+
+/**
+ * Adds months to a month, e.g. 2025-11-01 + 2 = 2026-01-01
+ */
+export function addMonths(month: string, count: number): string {
+  const date = new Date(month.slice(0, 7) + '-01')
+  date.setUTCMonth(date.getUTCMonth() + count)
+  return toDateString(date)
+}
+
+/**
+ * Lists the months touched by a period as first days of the month
+ */
+export function monthsBetween(startDate: string, endDate: string): string[] {
+  const months: string[] = []
+  const last = endDate.slice(0, 7) + '-01'
+  for (let month = startDate.slice(0, 7) + '-01'; month <= last; month = addMonths(month, 1)) {
+    months.push(month)
+  }
+  return months
+}
+
+/**
+ * Finds the tier valid on a day; for overlapping tiers the later one applies
+ */
+function findActiveTier<T extends HistoryTier>(tiers: T[], date: string): T | null {
+  return tiers
+    .filter(tier => tier.valid_from <= date && (!tier.valid_to || tier.valid_to >= date))
+    .sort((a, b) => b.valid_from.localeCompare(a.valid_from))[0] || null
+}
+
+/**
+ * Builds the price history of a feed type with one series per supplier
+ *
+ * @param until - Last day shown for open-ended tiers, usually today
+ */
+export function buildPriceHistory(tiers: HistoryTier[], feedTypeId: string, until: string): PriceHistory {
+  const feedTiers = tiers.filter(tier => tier.feed_type_id === feedTypeId)
+  const tiersBySeries = new Map<string, HistoryTier[]>()
+  feedTiers.forEach(tier => {
+    const key = tier.supplier_id || NO_SUPPLIER_KEY
+    tiersBySeries.set(key, [...(tiersBySeries.get(key) || []), tier])
+  })
+
+  const dates = new Set<string>()
+  feedTiers.forEach(tier => {
+    dates.add(tier.valid_from)
+    if (tier.valid_to) dates.add(shiftDate(tier.valid_to, 1))
+  })
+  if (feedTiers.length > 0) dates.add(until)
+
+  const points = Array.from(dates)
+    .filter(date => date <= until || feedTiers.some(tier => tier.valid_from === date))
+    .sort()
+    .map(date => {
+      const point: { date: string } & Record<string, number | string | null> = { date }
+      tiersBySeries.forEach((seriesTiers, key) => {
+        const tier = findActiveTier(seriesTiers, date)
+        point[key] = tier ? Number(tier.price_per_unit) : null
+      })
+      return point
+    })
+
+  return {
+    series: Array.from(tiersBySeries.keys()).map(key => ({
+      key,
+      supplierId: key === NO_SUPPLIER_KEY ? null : key,
+    })),
+    points,
+  }
+}
+
+/**
+ * Averages the prices of all suppliers valid mid-month
+ *
+ * @returns One entry per month, price null if no tier was valid
+ */
+export function monthlyAveragePrices(
+  tiers: HistoryTier[],
+  feedTypeId: string,
+  fromMonth: string,
+  toMonth: string
+): { month: string; price: number | null }[] {
+  const feedTiers = tiers.filter(tier => tier.feed_type_id === feedTypeId)
+  const suppliers = Array.from(new Set(feedTiers.map(tier => tier.supplier_id)))
+
+  return monthsBetween(fromMonth, toMonth).map(month => {
+    const midMonth = month.slice(0, 8) + '15'
+    const prices = suppliers
+      .map(supplierId => findActiveTier(feedTiers.filter(tier => tier.supplier_id === supplierId), midMonth))
+      .filter((tier): tier is HistoryTier => tier !== null)
+      .map(tier => Number(tier.price_per_unit))
+
+    return {
+      month,
+      price: prices.length > 0 ? prices.reduce((sum, price) => sum + price, 0) / prices.length : null,
+    }
+  })
+}
+
+/**
+ * Forecasts monthly prices from the linear trend of past monthly prices
+ *
+ * The expected price follows the trend line; best and worst case deviate by
+ * the standard deviation of past prices from the trend. With a single past
+ * price, that price is carried forward without spread.
+ *
+ * @returns Forecasts for the given months, empty without any past price
+ */
+export function forecastPrices(
+  history: { month: string; price: number | null }[],
+  months: string[]
+): MonthlyPriceForecast[] {
+  const monthIndex = (month: string) =>
+    Number(month.slice(0, 4)) * 12 + Number(month.slice(5, 7)) - 1
+
+  const known = history
+    .filter((entry): entry is { month: string; price: number } => entry.price !== null)
+    .map(entry => ({ x: monthIndex(entry.month), y: entry.price }))
+  if (known.length === 0) return []
+
+  const meanX = known.reduce((sum, p) => sum + p.x, 0) / known.length
+  const meanY = known.reduce((sum, p) => sum + p.y, 0) / known.length
+  const varianceX = known.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0)
+  const slope = varianceX > 0
+    ? known.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0) / varianceX
+    : 0
+  const trend = (x: number) => meanY + slope * (x - meanX)
+
+  const residualSpread = known.length > 2
+    ? Math.sqrt(known.reduce((sum, p) => sum + (p.y - trend(p.x)) ** 2, 0) / (known.length - 2))
+    : 0
+
+  return months.map(month => {
+    const expected = Math.max(0, trend(monthIndex(month)))
+    return {
+      month,
+      best: Math.max(0, expected - residualSpread),
+      expected,
+      worst: expected + residualSpread,
+    }
+  })
+}
+
+/**
+ * Derives the feed mix from past consumption (recorded in kg)
+ * Feed types whose unit cannot be converted to kg are left out, as their
+ * demand cannot be expressed in the unit their prices refer to.
+ */
+export function estimateFeedShares(
+  consumption: {
+    feed_type_id: string
+    quantity: number | string
+    feed_types?: ({ unit?: string | null } & FeedUnitFactors) | null
+  }[]
+): FeedShare[] {
+  const kgByFeedType = new Map<string, { kg: number; unitWeightKg: number }>()
+
+  consumption.forEach(item => {
+    const weight = unitWeightKg(item.feed_types?.unit, item.feed_types || {})
+    if (weight === null) return
+    const current = kgByFeedType.get(item.feed_type_id) || { kg: 0, unitWeightKg: weight }
+    current.kg += Number(item.quantity)
+    kgByFeedType.set(item.feed_type_id, current)
+  })
+
+  const totalKg = Array.from(kgByFeedType.values()).reduce((sum, entry) => sum + entry.kg, 0)
+  if (totalKg <= 0) return []
+
+  return Array.from(kgByFeedType.entries()).map(([feedTypeId, entry]) => ({
+    feed_type_id: feedTypeId,
+    share: entry.kg / totalKg,
+    unitWeightKg: entry.unitWeightKg,
+  }))
+}
+
+/**
+ * Spreads the feed demand of a cycle over its months by days and feed mix
+ *
+ * @param totalDemandKg - Feed needed for the whole cycle in kg
+ */
+export function distributeFeedDemand(
+  startDate: string,
+  endDate: string,
+  totalDemandKg: number,
+  shares: FeedShare[]
+): FeedDemand[] {
+  if (endDate < startDate || totalDemandKg <= 0) return []
+
+  const dayMs = 1000 * 60 * 60 * 24
+  const start = new Date(startDate).getTime()
+  const end = new Date(endDate).getTime()
+  const totalDays = Math.round((end - start) / dayMs) + 1
+
+  return monthsBetween(startDate, endDate).flatMap(month => {
+    const monthStart = Math.max(start, new Date(month).getTime())
+    const monthEnd = Math.min(end, new Date(addMonths(month, 1)).getTime() - dayMs)
+    const days = Math.round((monthEnd - monthStart) / dayMs) + 1
+    const monthDemandKg = totalDemandKg * days / totalDays
+
+    return shares.map(share => ({
+      month,
+      feed_type_id: share.feed_type_id,
+      quantity: monthDemandKg * share.share / share.unitWeightKg,
+    }))
+  })
+}
+
+/**
+ * Values the feed demand with the budget prices of a scenario
+ * Months without a budget price fall back to the current price.
+ *
+ * @param currentPrices - Current price per feed type unit by feed type id
+ */
+export function calculateScenarioFeedCost(
+  demand: FeedDemand[],
+  budgetPrices: BudgetPrice[],
+  currentPrices: Record<string, number>,
+  scenario: PriceScenario
+): Omit<ScenarioResult, 'profitLoss'> {
+  let feedCost = 0
+  let fallbackQuantity = 0
+  let unpricedQuantity = 0
+
+  demand.forEach(entry => {
+    const budget = budgetPrices.find(
+      price => price.feed_type_id === entry.feed_type_id && price.month.slice(0, 7) === entry.month.slice(0, 7)
+    )
+    if (budget) {
+      feedCost += entry.quantity * Number(budget[`price_${scenario}`])
+    } else if (currentPrices[entry.feed_type_id] !== undefined) {
+      feedCost += entry.quantity * currentPrices[entry.feed_type_id]
+      fallbackQuantity += entry.quantity
+    } else {
+      unpricedQuantity += entry.quantity
+    }
+  })
+
+  return { feedCost, fallbackQuantity, unpricedQuantity }
+}
+
+/**
+ * Calculates feed cost and estimated profit/loss of a planned cycle per scenario
+ */
+export function calculatePriceScenarios(params: {
+  totalAnimals: number
+  buyPricePerAnimal?: number | null
+  sellPricePerAnimal?: number | null
+  additionalCosts?: number
+  demand: FeedDemand[]
+  budgetPrices: BudgetPrice[]
+  currentPrices: Record<string, number>
+}): Record<PriceScenario, ScenarioResult> {
+  const { demand, budgetPrices, currentPrices, ...cycle } = params
+
+  const results = {} as Record<PriceScenario, ScenarioResult>
+  PRICE_SCENARIOS.forEach(scenario => {
+    const cost = calculateScenarioFeedCost(demand, budgetPrices, currentPrices, scenario)
+    results[scenario] = {
+      ...cost,
+      profitLoss: calculateEstimatedProfitLoss({ ...cycle, totalFeedCost: cost.feedCost }),
+    }
+  })
+  return results
+}
@@ -0,0 +1,167 @@
+/**
+ * Unit Tests for Purchase Order Proposals
+ *
+ * These tests ensure consumption is forecast per animal on the planned
+ * occupancy and orders are proposed a delivery time ahead of the reorder
+ * level, at least the minimum order quantity and grouped per supplier.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  forecastDailyConsumption,
+  proposePurchaseOrders,
+  buildOrderText,
+  type OccupancyPeriod,
+  type PurchaseFeedType,
+  type PurchaseSupplier
+} from './purchase-orders'
+import type { DailyFeedConsumption } from './stock-ledger'
+
+// ============================================================================
+// TEST DATA FIXTURES
+// ============================================================================
+
+const today = '2025-03-31'
+
+// 10 kg per day for 100 animals over the last 4 weeks
+const consumption: DailyFeedConsumption[] = Array.from({ length: 28 }, (_, index) => ({
+  feed_type_id: 'ft-corn',
+  date: `2025-03-${String(index + 4).padStart(2, '0')}`,
+  quantity: 10,
+}))
+
+const occupancy: OccupancyPeriod[] = [
+  { count: 100, start_date: '2025-01-01', end_date: '2025-04-05' },
+  { count: 200, start_date: '2025-04-10', end_date: null },
+]
+
+const feedTypes: PurchaseFeedType[] = [
+  { id: 'ft-corn', name: 'Mais', unit: 'kg', low_stock_threshold: 20 },
+  { id: 'ft-soy', name: 'Soja', unit: 'kg', low_stock_threshold: 0 },
+  { id: 'ft-min', name: 'Mineral', unit: 'kg', low_stock_threshold: 0 },
+]
+
+const suppliers: PurchaseSupplier[] = [
+  { id: 'sup-1', name: 'Agrarhandel', default_delivery_time_days: 2, minimum_order_quantity: 500 },
+  { id: 'sup-2', name: 'Mühle', default_delivery_time_days: null, minimum_order_quantity: null },
+]
+
+const flat = (quantity: number, days = 60) => Array.from({ length: days }, () => quantity)
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('forecastDailyConsumption', () => {
+  it('should apply the consumption per animal to the planned occupancy', () => {
+    const forecast = forecastDailyConsumption(feedTypes[0], consumption, occupancy, { today, days: 12 })
+
+    // 0.1 kg per animal and day: 100 animals until Apr 5, none until Apr 10, then 200
+    expect(forecast[0]).toBeCloseTo(10, 6)
+    expect(forecast[4]).toBeCloseTo(10, 6)
+    expect(forecast[5]).toBe(0)
+    expect(forecast[9]).toBeCloseTo(20, 6)
+  })
+
+  it('should forecast in the unit of a feed type kept in t', () => {
+    const forecast = forecastDailyConsumption({ ...feedTypes[0], unit: 't' }, consumption, [], { today, days: 2 })
+
+    // 10 kg per day
+    expect(forecast).toEqual([0.01, 0.01])
+  })
+
+  it('should carry the daily average forward without occupancy data', () => {
+    const forecast = forecastDailyConsumption(feedTypes[0], consumption, [], { today, days: 3 })
+
+    expect(forecast).toEqual([10, 10, 10])
+  })
+})
+
+describe('proposePurchaseOrders', () => {
+  it('should order the delivery time ahead of the reorder level, at least the minimum quantity', () => {
+    const orders = proposePurchaseOrders({
+      feedTypes: [feedTypes[0]],
+      suppliers,
+      stock: { 'ft-corn': 100 },
+      forecasts: { 'ft-corn': flat(10) },
+      preferredSuppliers: { 'ft-corn': 'sup-1' },
+      options: { today, coverageDays: 14 },
+    })
+
+    // 100 kg reach the reorder level of 20 kg after 8 days
+    expect(orders).toHaveLength(1)
+    expect(orders[0].supplierId).toBe('sup-1')
+    expect(orders[0].lines[0]).toEqual({
+      feedTypeId: 'ft-corn',
+      quantity: 500,
+      orderBy: '2025-04-06',
+      deliveryBy: '2025-04-08',
+      stockAtDelivery: 20,
+    })
+  })
+
+  it('should cover the coverage days above the reorder level', () => {
+    const [order] = proposePurchaseOrders({
+      feedTypes: [feedTypes[0]],
+      suppliers,
+      stock: { 'ft-corn': 100 },
+      forecasts: { 'ft-corn': flat(50) },
+      preferredSuppliers: { 'ft-corn': 'sup-1' },
+      options: { today, coverageDays: 14 },
+    })
+
+    // Stock is 0 after 2 days; 14 days of 50 kg plus 20 kg reorder level
+    expect(order.lines[0].deliveryBy).toBe('2025-04-02')
+    expect(order.lines[0].orderBy).toBe(today)
+    expect(order.lines[0].quantity).toBe(720)
+  })
+
+  it('should count incoming orders and skip feed types without tracked stock', () => {
+    const orders = proposePurchaseOrders({
+      feedTypes,
+      suppliers,
+      stock: { 'ft-corn': 100 },
+      forecasts: { 'ft-corn': flat(10, 20), 'ft-soy': flat(10, 20) },
+      preferredSuppliers: { 'ft-corn': 'sup-1' },
+      incoming: [{ feed_type_id: 'ft-corn', date: '2025-04-05', quantity: 1000 }],
+      options: { today, planningDays: 10 },
+    })
+
+    expect(orders).toEqual([])
+  })
+
+  it('should group lines per supplier with the earliest dates', () => {
+    const orders = proposePurchaseOrders({
+      feedTypes,
+      suppliers,
+      stock: { 'ft-corn': 100, 'ft-soy': 30, 'ft-min': 5 },
+      forecasts: { 'ft-corn': flat(10), 'ft-soy': flat(10), 'ft-min': flat(1) },
+      preferredSuppliers: { 'ft-corn': 'sup-1', 'ft-soy': 'sup-2', 'ft-min': 'sup-2' },
+      options: { today },
+    })
+
+    expect(orders.map(order => order.supplierId)).toEqual(['sup-2', 'sup-1'])
+    const mill = orders[0]
+    expect(mill.lines.map(line => line.feedTypeId)).toEqual(['ft-soy', 'ft-min'])
+    // Soy runs out after 3 days with the default delivery time of 3 days
+    expect(mill.orderBy).toBe(today)
+    expect(mill.deliveryBy).toBe('2025-04-03')
+  })
+})
+
+describe('buildOrderText', () => {
+  it('should list the items with delivery date and notes', () => {
+    const { subject, body } = buildOrderText({
+      farmName: 'Hof Meyer',
+      supplierName: 'Agrarhandel',
+      deliveryDate: '2025-04-08',
+      notes: 'Bitte vormittags liefern.',
+      items: [{ feedTypeName: 'Mais', quantity: 1500.5, unit: 'kg' }],
+    })
+
+    expect(subject).toBe('Bestellung Hof Meyer – Lieferung bis 8.4.2025')
+    expect(body).toContain('- 1.500,5 kg Mais')
+    expect(body).toContain('Gewünschte Lieferung bis: 8.4.2025')
+    expect(body).toContain('Bitte vormittags liefern.')
+  })
+})
@@ -0,0 +1,231 @@
+/**
+ * Purchase Order Proposals
+ *
+ * Forecasts the daily consumption of each feed type from its recent
+ * consumption per animal and the planned occupancy, projects the stock and
+ * proposes an order where the stock would fall to the reorder level. Orders
+ * are placed the supplier's delivery time ahead and cover a number of days
+ * of consumption, at least the supplier's minimum order quantity. Stock,
+ * forecasts and orders are in the feed type's unit; the consumption history
+ * recorded in kg is converted to it.
+ */
+
+import type { DailyFeedConsumption } from './stock-ledger'
+import { consumptionToFeedUnit, type FeedUnitFactors } from './units'
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'received' | 'cancelled'
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Entwurf',
+  sent: 'Gesendet',
+  received: 'Geliefert',
+  cancelled: 'Storniert',
+}
+
+/** Delivery time for suppliers without a default */
+export const DEFAULT_DELIVERY_TIME_DAYS = 3
+
+/** Animals present from start to end date (open end: still present) */
+export interface OccupancyPeriod {
+  count: number
+  start_date: string
+  end_date: string | null
+}
+
+export interface PurchaseSupplier {
+  id: string
+  name: string
+  default_delivery_time_days: number | null
+  minimum_order_quantity: number | null
+}
+
+export interface PurchaseFeedType extends FeedUnitFactors {
+  id: string
+  name: string
+  unit: string | null
+  low_stock_threshold: number | null
+}
+
+/** Stock arriving on a day, e.g. from orders already sent */
+export interface IncomingStock {
+  feed_type_id: string
+  date: string
+  quantity: number
+}
+
+export interface ProposedOrderLine {
+  feedTypeId: string
+  quantity: number
+  /** Latest day to place the order */
+  orderBy: string
+  /** Day the stock reaches the reorder level */
+  deliveryBy: string
+  /** Projected stock on the delivery day without this order */
+  stockAtDelivery: number
+}
+
+export interface ProposedOrder {
+  supplierId: string | null
+  orderBy: string
+  deliveryBy: string
+  lines: ProposedOrderLine[]
+}
+
+export interface ProposalOptions {
+  today: string
+  /** Days of consumption the average per animal is taken over (default 28) */
+  historyDays?: number
+  /** Days ahead in which a needed order is proposed, on top of the delivery time (default 30) */
+  planningDays?: number
+  /** Days of consumption an order covers (default 14) */
+  coverageDays?: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split('T')[0]
+}
+
+/**
+ * Counts the animals present on a day
+ */
+export function animalsOnDay(periods: OccupancyPeriod[], date: string): number {
+  return periods
+    .filter(period => period.start_date <= date && (!period.end_date || period.end_date >= date))
+    .reduce((sum, period) => sum + period.count, 0)
+}
+
+/**
+ * Forecasts the consumption of a feed type for each of the coming days
+ *
+ * Consumption per animal-day of the trailing window is applied to the
+ * planned occupancy. Without occupancy data in the window, the plain daily
+ * average is carried forward.
+ *
+ * @param consumption - Daily consumption in kg
+ * @returns Quantities in the feed type's unit for today + 1 ... today + days;
+ * empty if the unit has no conversion factor from kg
+ */
+export function forecastDailyConsumption(
+  feedType: Pick<PurchaseFeedType, 'id' | 'unit' | 'bag_weight_kg' | 'density_kg_per_l'>,
+  consumption: DailyFeedConsumption[],
+  occupancy: OccupancyPeriod[],
+  options: { today: string; days: number; historyDays?: number }
+): number[] {
+  const { today, days, historyDays = 28 } = options
+  const windowStart = addDays(today, -historyDays + 1)
+
+  const consumedKg = consumption
+    .filter(item => item.feed_type_id === feedType.id && item.date >= windowStart && item.date <= today)
+    .reduce((sum, item) => sum + Number(item.quantity), 0)
+  const consumed = consumptionToFeedUnit(consumedKg, feedType)
+  if (consumed === null) return []
+
+  let animalDays = 0
+  for (let day = 0; day < historyDays; day++) {
+    animalDays += animalsOnDay(occupancy, addDays(windowStart, day))
+  }
+
+  return Array.from({ length: days }, (_, index) => {
+    if (animalDays === 0) return consumed / historyDays
+    return (consumed / animalDays) * animalsOnDay(occupancy, addDays(today, index + 1))
+  })
+}
+
+/**
+ * Proposes purchase orders per supplier
+ *
+ * @param stock - Current stock by feed type id; feed types without tracked stock are skipped
+ * @param forecasts - Daily consumption forecasts by feed type id (see forecastDailyConsumption)
+ * @param preferredSuppliers - Supplier to order each feed type from
+ */
+export function proposePurchaseOrders(params: {
+  feedTypes: PurchaseFeedType[]
+  suppliers: PurchaseSupplier[]
+  stock: Record<string, number>
+  forecasts: Record<string, number[]>
+  preferredSuppliers: Record<string, string | null>
+  incoming?: IncomingStock[]
+  options: ProposalOptions
+}): ProposedOrder[] {
+  const { feedTypes, suppliers, stock, forecasts, preferredSuppliers, incoming = [], options } = params
+  const { today, planningDays = 30, coverageDays = 14 } = options
+  const orders = new Map<string, ProposedOrder>()
+
+  feedTypes.forEach(feedType => {
+    if (stock[feedType.id] === undefined) return
+    const forecast = forecasts[feedType.id] || []
+    const supplierId = preferredSuppliers[feedType.id] || null
+    const supplier = suppliers.find(s => s.id === supplierId)
+    const deliveryDays = supplier?.default_delivery_time_days ?? DEFAULT_DELIVERY_TIME_DAYS
+    const reorderLevel = Number(feedType.low_stock_threshold) || 0
+
+    // Find the first day the projected stock reaches the reorder level
+    let projected = stock[feedType.id]
+    let needDay: number | null = projected <= reorderLevel ? 0 : null
+    const lookahead = Math.min(forecast.length, deliveryDays + planningDays)
+    for (let day = 1; needDay === null && day <= lookahead; day++) {
+      const date = addDays(today, day)
+      projected += incoming
+        .filter(item => item.feed_type_id === feedType.id && item.date === date)
+        .reduce((sum, item) => sum + Number(item.quantity), 0)
+      projected -= forecast[day - 1]
+      if (projected <= reorderLevel) needDay = day
+    }
+    if (needDay === null) return
+
+    const coverage = forecast.slice(needDay, needDay + coverageDays).reduce((sum, quantity) => sum + quantity, 0)
+    const needed = coverage + reorderLevel - projected
+    const quantity = Math.max(needed, Number(supplier?.minimum_order_quantity) || 0)
+    if (quantity <= 0) return
+
+    const line: ProposedOrderLine = {
+      feedTypeId: feedType.id,
+      quantity: Math.ceil(quantity),
+      orderBy: addDays(today, Math.max(0, needDay - deliveryDays)),
+      deliveryBy: addDays(today, needDay),
+      stockAtDelivery: projected,
+    }
+
+    const key = supplierId || ''
+    const order = orders.get(key) || { supplierId, orderBy: line.orderBy, deliveryBy: line.deliveryBy, lines: [] }
+    order.lines.push(line)
+    if (line.orderBy < order.orderBy) order.orderBy = line.orderBy
+    if (line.deliveryBy < order.deliveryBy) order.deliveryBy = line.deliveryBy
+    orders.set(key, order)
+  })
+
+  return Array.from(orders.values()).sort((a, b) => a.orderBy.localeCompare(b.orderBy))
+}
+
+/**
+ * Builds subject and text of an order email
+ */
+export function buildOrderText(order: {
+  farmName: string
+  supplierName: string
+  deliveryDate: string | null
+  notes: string | null
+  items: { feedTypeName: string; quantity: number; unit: string }[]
+}): { subject: string; body: string } {
+  const formatDate = (date: string) => new Date(date).toLocaleDateString('de-DE')
+  const lines = [
+    `Sehr geehrte Damen und Herren,`,
+    '',
+    `hiermit bestellen wir für ${order.farmName}:`,
+    '',
+    ...order.items.map(item =>
+      `- ${item.quantity.toLocaleString('de-DE', { maximumFractionDigits: 2 })} ${item.unit} ${item.feedTypeName}`
+    ),
+    '',
+  ]
+  if (order.deliveryDate) lines.push(`Gewünschte Lieferung bis: ${formatDate(order.deliveryDate)}`, '')
+  if (order.notes) lines.push(order.notes, '')
+  lines.push('Bitte bestätigen Sie die Bestellung.', '', 'Mit freundlichen Grüßen', order.farmName)
+
+  return {
+    subject: `Bestellung ${order.farmName}${order.deliveryDate ? ` – Lieferung bis ${formatDate(order.deliveryDate)}` : ''}`,
+    body: lines.join('\n'),
+  }
+}
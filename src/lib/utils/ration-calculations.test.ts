@@ -0,0 +1,102 @@
+/**
+ * Unit Tests for Ration Calculations
+ *
+ * These tests ensure imported ration quantities are split into their
+ * components using the composition valid on each day.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { buildParsedData } from '@/lib/import-adapters/shared'
+import { explodeRations, findRationVersion, getComponentShares, type RationDefinition } from './ration-calculations'
+
+// ============================================================================
+// TEST DATA FIXTURES
+// ============================================================================
+
+const mastRation: RationDefinition = {
+  id: 'r-1',
+  name: 'Mastration',
+  versions: [
+    {
+      id: 'v-1',
+      validFrom: '2024-01-01',
+      shareType: 'kg_per_batch',
+      components: [
+        { feedTypeId: 'ft-1', feedTypeName: 'Weizen', amount: 600 },
+        { feedTypeId: 'ft-2', feedTypeName: 'Soja', amount: 400 },
+      ],
+    },
+    {
+      id: 'v-2',
+      validFrom: '2024-03-01',
+      shareType: 'percentage',
+      components: [
+        { feedTypeId: 'ft-1', feedTypeName: 'Weizen', amount: 70 },
+        { feedTypeId: 'ft-2', feedTypeName: 'Soja', amount: 30 },
+      ],
+    },
+  ],
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('getComponentShares', () => {
+  it('should turn kg per batch into fractions', () => {
+    expect(Array.from(getComponentShares(mastRation.versions[0]).values())).toEqual([0.6, 0.4])
+  })
+
+  it('should reject percentages not adding up to 100', () => {
+    expect(() => getComponentShares({
+      shareType: 'percentage',
+      components: [{ feedTypeId: 'ft-1', feedTypeName: 'Weizen', amount: 80 }],
+    })).toThrow('80 % statt 100 %')
+  })
+})
+
+describe('findRationVersion', () => {
+  it('should pick the latest version valid on the date', () => {
+    expect(findRationVersion(mastRation.versions, '2024-02-15')?.id).toBe('v-1')
+    expect(findRationVersion(mastRation.versions, '2024-03-01')?.id).toBe('v-2')
+    expect(findRationVersion(mastRation.versions, '2023-12-31')).toBeNull()
+  })
+})
+
+describe('explodeRations', () => {
+  it('should replace ration quantities by components', () => {
+    const data = buildParsedData([
+      { date: '2024-02-01', area: 'Abteil 1', feedSystem: '', feeds: { mastration: 1000, Weizen: 50 }, total: 1050 },
+      { date: '2024-03-02', area: 'Abteil 1', feedSystem: '', feeds: { mastration: 100 }, total: 100 },
+    ])
+
+    const result = explodeRations(data, [mastRation])
+
+    expect(result.explodedRations).toEqual(['Mastration'])
+    expect(result.errors).toEqual([])
+    expect(result.data.feedTypes).toEqual(['Soja', 'Weizen'])
+    expect(result.data.rows[0].feeds).toEqual({ Weizen: 650, Soja: 400 })
+    expect(result.data.rows[0].total).toBe(1050)
+    expect(result.data.rows[1].feeds.Weizen).toBeCloseTo(70)
+    expect(result.data.rows[1].feeds.Soja).toBeCloseTo(30)
+  })
+
+  it('should report ration quantities without a valid version', () => {
+    const data = buildParsedData([
+      { date: '2023-12-31', area: 'Abteil 1', feedSystem: '', feeds: { Mastration: 100, Wasser: 10 }, total: 110 },
+    ])
+
+    const result = explodeRations(data, [mastRation])
+
+    expect(result.data.rows[0].feeds).toEqual({ Wasser: 10 })
+    expect(result.errors).toEqual(['2023-12-31 Abteil 1: Für "Mastration" gibt es keine gültige Zusammensetzung'])
+  })
+
+  it('should leave imports without rations unchanged', () => {
+    const data = buildParsedData([
+      { date: '2024-02-01', area: 'Abteil 1', feedSystem: '', feeds: { Weizen: 50 }, total: 50 },
+    ])
+
+    expect(explodeRations(data, [mastRation]).data).toBe(data)
+  })
+})
@@ -0,0 +1,141 @@
+/**
+ * Ration Calculations
+ *
+ * A ration (mixed recipe) is a named mix of feed types. Its composition is
+ * versioned by valid-from date and given either as kg per batch or as
+ * percentage shares. Feeding systems that only export the mixed ration per
+ * group are imported by exploding each ration quantity into its components,
+ * so consumption is always stored per feed type.
+ */
+
+import type { ParsedData, ParsedRow } from '@/lib/csv-parser'
+import { buildParsedData } from '@/lib/import-adapters/shared'
+
+export type RationShareType = 'kg_per_batch' | 'percentage'
+
+export const RATION_SHARE_TYPE_LABELS: Record<RationShareType, string> = {
+  kg_per_batch: 'kg je Mischung',
+  percentage: 'Prozent',
+}
+
+export interface RationComponent {
+  feedTypeId: string
+  feedTypeName: string
+  /** kg per batch or percentage, depending on the version's share type */
+  amount: number
+}
+
+export interface RationVersion {
+  id: string
+  validFrom: string
+  shareType: RationShareType
+  components: RationComponent[]
+}
+
+export interface RationDefinition {
+  id: string
+  name: string
+  versions: RationVersion[]
+}
+
+export interface RationBreakdownResult {
+  data: ParsedData
+  /** Names of the rations found in the import */
+  explodedRations: string[]
+  /** Ration quantities that could not be broken down (no valid version) */
+  errors: string[]
+}
+
+/** Percentage shares may deviate this much from 100 % */
+const PERCENTAGE_TOLERANCE = 0.5
+
+const rationKey = (name: string) => name.trim().toLowerCase()
+
+/**
+ * Share of each component in a ration version (fractions summing to 1)
+ *
+ * @throws If the version has no positive amounts, or percentages do not add up to 100
+ */
+export function getComponentShares(version: Pick<RationVersion, 'shareType' | 'components'>): Map<RationComponent, number> {
+  const total = version.components.reduce((sum, component) => sum + Math.max(component.amount, 0), 0)
+
+  if (total <= 0) {
+    throw new Error('Die Ration enthält keine Komponenten')
+  }
+  if (version.shareType === 'percentage' && Math.abs(total - 100) > PERCENTAGE_TOLERANCE) {
+    throw new Error(`Die Anteile ergeben ${total.toLocaleString('de-DE')} % statt 100 %`)
+  }
+
+  return new Map(version.components.map(component => [component, Math.max(component.amount, 0) / total]))
+}
+
+/**
+ * Version of a ration valid on a date (latest valid-from on or before the date)
+ */
+export function findRationVersion(versions: RationVersion[], date: string): RationVersion | null {
+  return versions
+    .filter(version => version.validFrom <= date)
+    .reduce<RationVersion | null>((latest, version) =>
+      !latest || version.validFrom > latest.validFrom ? version : latest, null)
+}
+
+/**
+ * Finds the imported feed names that are rations
+ */
+export function findRationsInImport(feedNames: string[], rations: RationDefinition[]): RationDefinition[] {
+  const names = new Set(feedNames.map(rationKey))
+  return rations.filter(ration => names.has(rationKey(ration.name)))
+}
+
+/**
+ * Replaces ration quantities in imported rows by their components
+ *
+ * Each ration quantity is split by the shares of the version valid on the
+ * row's date. Components are added to feeds of the same name already in the
+ * row. Quantities without a valid version are left out and reported.
+ */
+export function explodeRations(data: ParsedData, rations: RationDefinition[]): RationBreakdownResult {
+  const rationsByKey = new Map(findRationsInImport(data.feedTypes, rations).map(ration => [rationKey(ration.name), ration]))
+
+  if (rationsByKey.size === 0) {
+    return { data, explodedRations: [], errors: [] }
+  }
+
+  const errors: string[] = []
+  const rows: ParsedRow[] = data.rows.map(row => {
+    const feeds: Record<string, number> = {}
+    const addFeed = (feedName: string, quantity: number) => {
+      feeds[feedName] = (feeds[feedName] || 0) + quantity
+    }
+
+    Object.entries(row.feeds).forEach(([feedName, quantity]) => {
+      const ration = rationsByKey.get(rationKey(feedName))
+      if (!ration) {
+        addFeed(feedName, quantity)
+        return
+      }
+
+      const version = findRationVersion(ration.versions, row.date)
+      if (!version) {
+        errors.push(`${row.date} ${row.area}: Für "${ration.name}" gibt es keine gültige Zusammensetzung`)
+        return
+      }
+
+      try {
+        getComponentShares(version).forEach((share, component) => {
+          if (share > 0) addFeed(component.feedTypeName, quantity * share)
+        })
+      } catch (error) {
+        errors.push(`${row.date} ${row.area}: ${ration.name} - ${error instanceof Error ? error.message : error}`)
+      }
+    })
+
+    return { ...row, feeds, total: Object.values(feeds).reduce((sum, quantity) => sum + quantity, 0) }
+  }).filter(row => Object.keys(row.feeds).length > 0)
+
+  return {
+    data: { ...data, ...buildParsedData(rows, data.importAdapter, data.sourceIssues) },
+    explodedRations: Array.from(rationsByKey.values()).map(ration => ration.name),
+    errors,
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Unit Tests for Slaughter Settlement Import
+ *
+ * These tests ensure settlement files are read below their preamble lines,
+ * carcasses are priced by the settlement amounts or the price mask and the
+ * settlement is condensed into a sale batch with the realised revenue.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { calculateSaleRevenue } from './animal-sales'
+import {
+  readSettlementText,
+  parseSettlement,
+  calculateCarcassRevenue,
+  summarizeSettlement,
+  compareWithEstimate,
+  buildSettlementSale,
+  type SettlementCarcass
+} from './slaughter-settlement'
+
+// ============================================================================
+// TEST DATA FIXTURES
+// ============================================================================
+
+const settlementFile = [
+  'Schlachthof Nord GmbH',
+  'Abrechnungs-Nr.: 2025-0412;Schlachtdatum: 14.10.2025',
+  'Schlacht-Nr;Schlachtgewicht (kg);MFA (%);IXP/kg;Klasse;Auszahlung (€)',
+  '101;95,0;60,1;1,000;E;190,00',
+  '102;100,0;57,5;0,980;U;196,00',
+  '103;;;;;',
+  '104;abc;58;1,0;U;0',
+  '105;98,0;61,0;1,010;E;199,92',
+  'Summe;293,0;;;;585,92',
+].join('\n')
+
+const carcass = (overrides: Partial<SettlementCarcass>): SettlementCarcass => ({
+  sourceRow: 0,
+  carcassId: null,
+  carcassWeight: 100,
+  liveWeight: null,
+  leanMeatPercent: null,
+  indexPoints: null,
+  classification: null,
+  amount: null,
+  ...overrides,
+})
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('parseSettlement', () => {
+  it('should find the header below the preamble and read the carcasses', () => {
+    const result = parseSettlement(readSettlementText(settlementFile))
+
+    expect(result.settlementNumber).toBe('2025-0412')
+    expect(result.slaughterDate).toBe('2025-10-14')
+    expect(result.carcasses.map(c => c.carcassId)).toEqual(['101', '102', '105'])
+    expect(result.carcasses[1].carcassWeight).toBe(100)
+    expect(result.carcasses[1].leanMeatPercent).toBe(57.5)
+    // Index points per kg times carcass weight
+    expect(result.carcasses[1].indexPoints).toBeCloseTo(98, 6)
+    expect(result.carcasses[1].classification).toBe('U')
+    expect(result.carcasses[1].amount).toBe(196)
+  })
+
+  it('should report invalid weights with their row', () => {
+    const result = parseSettlement(readSettlementText(settlementFile))
+
+    expect(result.issues.map(issue => issue.message)).toEqual([
+      'Ungültiges Schlachtgewicht "" bei 103',
+      'Ungültiges Schlachtgewicht "abc" bei 104',
+    ])
+    // Lines 6 and 7 of the file, the first line being the table header
+    expect(result.issues.map(issue => issue.sourceRow)).toEqual([4, 5])
+  })
+
+  it('should take live weight and total index points from their own columns', () => {
+    const result = parseSettlement(readSettlementText([
+      'Nr;Lebendgewicht;Schlachtgewicht;Indexpunkte;Schlachtdatum',
+      '1;120;95;96,5;13.10.2025',
+    ].join('\n')))
+
+    expect(result.carcasses[0].liveWeight).toBe(120)
+    expect(result.carcasses[0].carcassWeight).toBe(95)
+    expect(result.carcasses[0].indexPoints).toBe(96.5)
+    expect(result.slaughterDate).toBe('2025-10-13')
+  })
+
+  it('should throw without a carcass weight column', () => {
+    expect(() => parseSettlement(readSettlementText('Nr;Klasse\n1;E'))).toThrow('Schlachtgewicht')
+  })
+})
+
+describe('calculateCarcassRevenue', () => {
+  it('should prefer the amount over index points over the base price', () => {
+    const mask = { pricePerIndexPoint: 2, basePricePerKg: 1.9 }
+
+    expect(calculateCarcassRevenue(carcass({ amount: 210, indexPoints: 100 }), mask)).toBe(210)
+    expect(calculateCarcassRevenue(carcass({ indexPoints: 101 }), mask)).toBe(202)
+    expect(calculateCarcassRevenue(carcass({}), mask)).toBe(190)
+    expect(calculateCarcassRevenue(carcass({}))).toBeNull()
+  })
+})
+
+describe('summarizeSettlement', () => {
+  it('should sum weights and revenue and average the grading', () => {
+    const { carcasses } = parseSettlement(readSettlementText(settlementFile))
+    const summary = summarizeSettlement(carcasses, {}, 370)
+
+    expect(summary.count).toBe(3)
+    expect(summary.totalCarcassWeight).toBe(293)
+    expect(summary.averageCarcassWeight).toBeCloseTo(97.667, 3)
+    expect(summary.revenue).toBeCloseTo(585.92, 6)
+    expect(summary.pricePerKgCarcass).toBeCloseTo(1.99973, 5)
+    expect(summary.averageLeanMeatPercent).toBeCloseTo(59.533, 3)
+    // 95 + 98 + 98.98 index points for 293 kg
+    expect(summary.averageIndexPointsPerKg).toBeCloseTo(0.99652, 5)
+    // 293 kg carcass weight from 370 kg delivered live weight
+    expect(summary.dressingPercentage).toBeCloseTo(79.189, 3)
+    expect(summary.classifications).toEqual([
+      { classification: 'E', count: 2 },
+      { classification: 'U', count: 1 },
+    ])
+    expect(summary.unpricedCount).toBe(0)
+  })
+
+  it('should count carcasses without a price', () => {
+    const summary = summarizeSettlement([carcass({ amount: 200 }), carcass({})])
+
+    expect(summary.revenue).toBe(200)
+    expect(summary.unpricedCount).toBe(1)
+    expect(summary.dressingPercentage).toBeNull()
+  })
+})
+
+describe('compareWithEstimate', () => {
+  it('should compare the revenue with the planned sell price', () => {
+    const comparison = compareWithEstimate(585.92, 3, 180)
+
+    expect(comparison?.estimate).toBe(540)
+    expect(comparison?.difference).toBeCloseTo(45.92, 6)
+    expect(comparison?.differencePercent).toBeCloseTo(8.504, 3)
+  })
+
+  it('should skip the comparison without a planned sell price', () => {
+    expect(compareWithEstimate(585.92, 3, null)).toBeNull()
+  })
+})
+
+describe('buildSettlementSale', () => {
+  it('should create a batch whose revenue equals the settlement total', () => {
+    const { carcasses } = parseSettlement(readSettlementText(settlementFile))
+    const sale = buildSettlementSale(summarizeSettlement(carcasses), '2025-10-14', '2025-0412')
+
+    expect(sale.count).toBe(3)
+    expect(sale.price_basis).toBe('per_kg_carcass')
+    expect(sale.classification).toBe('E')
+    expect(sale.settlement_number).toBe('2025-0412')
+    expect(calculateSaleRevenue(sale)).toBeCloseTo(585.92, 6)
+  })
+})
@@ -0,0 +1,380 @@
+/**
+ * Slaughter Settlement Import Utilities
+ *
+ * Reads the settlement file the abattoir sends per delivery (one row per
+ * carcass with carcass weight, lean meat percentage, AutoFOM index points
+ * and the amount paid) and condenses it into one sale batch. Settlements
+ * without amounts are priced with the price mask: index points times the
+ * price per index point, or carcass weight times the base price.
+ */
+
+import {
+  detectDelimiter,
+  normalizeHeader,
+  parseDateValue,
+  parseDecimal,
+  splitDelimitedLine,
+  type DelimitedTable
+} from '@/lib/import-adapters/shared'
+import type { AnimalSale } from './animal-sales'
+
+export interface SettlementCarcass {
+  /** Index into DelimitedTable.rows */
+  sourceRow: number
+  carcassId: string | null
+  carcassWeight: number
+  liveWeight: number | null
+  leanMeatPercent: number | null
+  /** Index points of the carcass (index points per kg times carcass weight) */
+  indexPoints: number | null
+  classification: string | null
+  /** Amount paid for the carcass as stated in the settlement */
+  amount: number | null
+}
+
+export interface SettlementIssue {
+  sourceRow: number
+  message: string
+}
+
+export interface SettlementParseResult {
+  carcasses: SettlementCarcass[]
+  issues: SettlementIssue[]
+  /** Slaughter date from the rows or the lines above the header */
+  slaughterDate: string | null
+  settlementNumber: string | null
+}
+
+export interface SettlementPriceMask {
+  /** € per index point, for settlements with index points but no amounts */
+  pricePerIndexPoint?: number | null
+  /** € per kg carcass weight, for settlements with neither */
+  basePricePerKg?: number | null
+}
+
+export interface SettlementSummary {
+  count: number
+  totalCarcassWeight: number
+  averageCarcassWeight: number
+  /** Average over the carcasses with a live weight, or from the delivered live weight */
+  averageLiveWeight: number | null
+  dressingPercentage: number | null
+  averageLeanMeatPercent: number | null
+  totalIndexPoints: number | null
+  averageIndexPointsPerKg: number | null
+  revenue: number
+  revenuePerAnimal: number
+  pricePerKgCarcass: number | null
+  /** Carcasses per classification, most frequent first */
+  classifications: { classification: string; count: number }[]
+  /** Carcasses neither the settlement nor the price mask give a price for */
+  unpricedCount: number
+}
+
+export interface EstimateComparison {
+  estimate: number
+  difference: number
+  differencePercent: number | null
+}
+
+export type SettlementSale = AnimalSale & {
+  price_basis: 'per_kg_carcass'
+  live_weight_per_animal_kg: number | null
+  carcass_weight_per_animal_kg: number | null
+  bonus_total: number | null
+  classification: string | null
+  lean_meat_percent: number | null
+  settlement_number: string | null
+  notes: string | null
+}
+
+const ID_COLUMNS = ['schlachtnummer', 'schlacht-nr', 'schlachtnr', 'tiernummer', 'ohrmarke', 'lfd. nr', 'lfd nr', 'nr', 'nr.', 'id']
+const LIVE_WEIGHT_COLUMNS = ['lebendgewicht', 'lebendgew', 'lg', 'live weight']
+const CARCASS_WEIGHT_COLUMNS = ['schlachtgewicht', 'schlachtgew', 'warmgewicht', 'kaltgewicht', 'sg', 'gewicht', 'carcass weight', 'weight']
+const LEAN_MEAT_COLUMNS = ['magerfleischanteil', 'magerfleisch', 'mfa', 'mf%', 'mf', 'lean meat']
+const INDEX_PER_KG_COLUMNS = ['ixp/kg', 'ip/kg', 'indexpunkte je kg', 'indexpunkte/kg', 'index je kg', 'ixp je kg']
+const INDEX_COLUMNS = ['indexpunkte', 'ixp', 'ip', 'index']
+const CLASS_COLUMNS = ['handelsklasse', 'klasse', 'hkl', 'class']
+const AMOUNT_COLUMNS = ['auszahlungsbetrag', 'auszahlung', 'betrag', 'erlös', 'erloes', 'netto', 'amount']
+const DATE_COLUMNS = ['schlachtdatum', 'schlachttag', 'datum', 'date']
+
+const SUM_ROW = /^(summe|gesamt|total)/
+const SETTLEMENT_NUMBER = /abrechnungs?[-\s]?(?:nr\.?|nummer)\s*:?\s*([\w/-]+)/i
+const PREAMBLE_DATE = /(?:schlacht|liefer)?datum\s*:?\s*(\d{1,2}\.\d{1,2}\.\d{2,4}|\d{4}-\d{2}-\d{2})/i
+
+/** Rows above the header searched for the header, e.g. abattoir and supplier lines */
+const MAX_PREAMBLE_ROWS = 20
+
+type SettlementColumns = Record<
+  'id' | 'liveWeight' | 'carcassWeight' | 'leanMeat' | 'indexPerKg' | 'index' | 'classification' | 'amount' | 'date',
+  number
+>
+
+const detectColumns = (header: string[]): SettlementColumns | null => {
+  const normalized = header.map(normalizeHeader)
+  const used = new Set<number>()
+  const pick = (candidates: string[]) => {
+    const index = normalized.findIndex((col, i) =>
+      !used.has(i) && candidates.some(c => col === c || (c.length > 3 && col.includes(c)))
+    )
+    if (index !== -1) used.add(index)
+    return index
+  }
+
+  // Live weight and index points per kg first, so "Lebendgewicht" is not
+  // taken as carcass weight and "Indexpunkte je kg" not as index points
+  const liveWeight = pick(LIVE_WEIGHT_COLUMNS)
+  const indexPerKg = pick(INDEX_PER_KG_COLUMNS)
+  const date = pick(DATE_COLUMNS)
+  const carcassWeight = pick(CARCASS_WEIGHT_COLUMNS)
+  if (carcassWeight === -1) return null
+
+  return {
+    liveWeight,
+    indexPerKg,
+    date,
+    carcassWeight,
+    leanMeat: pick(LEAN_MEAT_COLUMNS),
+    index: pick(INDEX_COLUMNS),
+    classification: pick(CLASS_COLUMNS),
+    amount: pick(AMOUNT_COLUMNS),
+    id: pick(ID_COLUMNS),
+  }
+}
+
+const readOptionalNumber = (cells: string[], index: number) => {
+  const cell = index !== -1 ? (cells[index] || '').replace(/€/g, '').trim() : ''
+  return cell ? parseDecimal(cell) : null
+}
+
+/**
+ * Reads settlement CSV/TXT content
+ *
+ * Like readDelimitedText, but the delimiter is detected from the lines the
+ * header may be on, as the first line is often just the abattoir name.
+ */
+export function readSettlementText(content: string): DelimitedTable {
+  const lines = content
+    .replace(/^\uFEFF/, '')
+    .trim()
+    .split('\n')
+    .map(line => line.replace(/\r$/, ''))
+    .filter(line => line.trim())
+
+  if (lines.length < 2) {
+    throw new Error('CSV-Datei ist leer oder hat keine Daten')
+  }
+
+  const delimiter = detectDelimiter(lines.slice(0, MAX_PREAMBLE_ROWS + 1).join('\n'))
+  const [header, ...rows] = lines.map(line => splitDelimitedLine(line.trim(), delimiter))
+
+  return { delimiter, header, rows }
+}
+
+/**
+ * Reads a slaughter settlement table
+ *
+ * Settlements often start with a few lines about the abattoir and the
+ * delivery; the header is the first line with a carcass weight column.
+ * The settlement number and slaughter date are read from those lines when
+ * the rows have no date. Sum rows at the end are skipped.
+ *
+ * @throws If no carcass weight column is found
+ */
+export function parseSettlement(table: DelimitedTable): SettlementParseResult {
+  const lines = [table.header, ...table.rows]
+  let headerLine = -1
+  let columns: SettlementColumns | null = null
+  for (let i = 0; i < Math.min(lines.length, MAX_PREAMBLE_ROWS + 1) && !columns; i++) {
+    columns = detectColumns(lines[i])
+    headerLine = i
+  }
+
+  if (!columns) {
+    throw new Error('Spalte für das Schlachtgewicht nicht gefunden')
+  }
+
+  const preamble = lines.slice(0, headerLine).map(cells => cells.join(' '))
+  const settlementNumber = preamble.map(line => line.match(SETTLEMENT_NUMBER)?.[1]).find(Boolean) ?? null
+  let slaughterDate = preamble.map(line => parseDateValue(line.match(PREAMBLE_DATE)?.[1])).find(Boolean) ?? null
+
+  const carcasses: SettlementCarcass[] = []
+  const issues: SettlementIssue[] = []
+  const cols = columns
+
+  // Data lines follow the header; lines[i] is table.rows[i - 1]
+  for (let sourceRow = headerLine; sourceRow < table.rows.length; sourceRow++) {
+    const cells = table.rows[sourceRow]
+    const weightCell = (cells[cols.carcassWeight] || '').trim()
+    const carcassId = cols.id !== -1 ? (cells[cols.id] || '').trim() || null : null
+
+    if (cells.some(cell => SUM_ROW.test(normalizeHeader(cell)))) continue
+    if (!weightCell && !carcassId) continue
+
+    const label = carcassId ? ` bei ${carcassId}` : ''
+    const carcassWeight = parseDecimal(weightCell)
+    if (carcassWeight <= 0) {
+      issues.push({ sourceRow, message: `Ungültiges Schlachtgewicht "${weightCell}"${label}` })
+      continue
+    }
+
+    let leanMeatPercent = readOptionalNumber(cells, cols.leanMeat)
+    if (leanMeatPercent !== null && (leanMeatPercent <= 0 || leanMeatPercent > 100)) {
+      issues.push({ sourceRow, message: `Ungültiger Magerfleischanteil ${leanMeatPercent}${label}` })
+      leanMeatPercent = null
+    }
+
+    const indexPerKg = readOptionalNumber(cells, cols.indexPerKg)
+    const liveWeight = readOptionalNumber(cells, cols.liveWeight)
+
+    if (!slaughterDate && cols.date !== -1) {
+      slaughterDate = parseDateValue(cells[cols.date])
+    }
+
+    carcasses.push({
+      sourceRow,
+      carcassId,
+      carcassWeight,
+      liveWeight: liveWeight && liveWeight > 0 ? liveWeight : null,
+      leanMeatPercent,
+      indexPoints: indexPerKg !== null ? indexPerKg * carcassWeight : readOptionalNumber(cells, cols.index),
+      classification: cols.classification !== -1 ? (cells[cols.classification] || '').trim() || null : null,
+      amount: readOptionalNumber(cells, cols.amount),
+    })
+  }
+
+  return { carcasses, issues, slaughterDate, settlementNumber }
+}
+
+/**
+ * Calculates the price of a carcass
+ * The amount in the settlement wins over the price mask; index points are
+ * priced before the carcass weight.
+ *
+ * @returns The price, or null if neither gives one
+ */
+export function calculateCarcassRevenue(carcass: SettlementCarcass, priceMask: SettlementPriceMask = {}): number | null {
+  if (carcass.amount !== null) return carcass.amount
+  if (carcass.indexPoints !== null && priceMask.pricePerIndexPoint) {
+    return carcass.indexPoints * priceMask.pricePerIndexPoint
+  }
+  if (priceMask.basePricePerKg) return carcass.carcassWeight * priceMask.basePricePerKg
+  return null
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+
+/**
+ * Summarizes the carcasses of a settlement
+ *
+ * @param liveWeightTotal Live weight of the delivery (e.g. from the scale at
+ *   loading), used for the dressing percentage when the rows have none
+ */
+export function summarizeSettlement(
+  carcasses: SettlementCarcass[],
+  priceMask: SettlementPriceMask = {},
+  liveWeightTotal: number | null = null
+): SettlementSummary {
+  const count = carcasses.length
+  const totalCarcassWeight = carcasses.reduce((sum, carcass) => sum + carcass.carcassWeight, 0)
+
+  const prices = carcasses.map(carcass => calculateCarcassRevenue(carcass, priceMask))
+  const revenue = prices.reduce<number>((sum, price) => sum + (price ?? 0), 0)
+
+  const withLiveWeight = carcasses.filter(carcass => carcass.liveWeight !== null)
+  const liveWeight = withLiveWeight.reduce((sum, carcass) => sum + Number(carcass.liveWeight), 0)
+  const carcassWeightWithLive = withLiveWeight.reduce((sum, carcass) => sum + carcass.carcassWeight, 0)
+
+  let averageLiveWeight: number | null = null
+  let dressingPercentage: number | null = null
+  if (liveWeight > 0) {
+    averageLiveWeight = liveWeight / withLiveWeight.length
+    dressingPercentage = (carcassWeightWithLive / liveWeight) * 100
+  } else if (liveWeightTotal && liveWeightTotal > 0 && count > 0) {
+    averageLiveWeight = liveWeightTotal / count
+    dressingPercentage = (totalCarcassWeight / liveWeightTotal) * 100
+  }
+
+  const withIndex = carcasses.filter(carcass => carcass.indexPoints !== null)
+  const totalIndexPoints = withIndex.length > 0
+    ? withIndex.reduce((sum, carcass) => sum + Number(carcass.indexPoints), 0)
+    : null
+  const indexedWeight = withIndex.reduce((sum, carcass) => sum + carcass.carcassWeight, 0)
+
+  const classCounts = new Map<string, number>()
+  carcasses.forEach(carcass => {
+    if (carcass.classification) {
+      classCounts.set(carcass.classification, (classCounts.get(carcass.classification) || 0) + 1)
+    }
+  })
+
+  return {
+    count,
+    totalCarcassWeight,
+    averageCarcassWeight: count > 0 ? totalCarcassWeight / count : 0,
+    averageLiveWeight,
+    dressingPercentage,
+    averageLeanMeatPercent: average(
+      carcasses.filter(carcass => carcass.leanMeatPercent !== null).map(carcass => Number(carcass.leanMeatPercent))
+    ),
+    totalIndexPoints,
+    averageIndexPointsPerKg: totalIndexPoints !== null && indexedWeight > 0 ? totalIndexPoints / indexedWeight : null,
+    revenue,
+    revenuePerAnimal: count > 0 ? revenue / count : 0,
+    pricePerKgCarcass: totalCarcassWeight > 0 ? revenue / totalCarcassWeight : null,
+    classifications: Array.from(classCounts, ([classification, classCount]) => ({ classification, count: classCount }))
+      .sort((a, b) => b.count - a.count),
+    unpricedCount: prices.filter(price => price === null).length,
+  }
+}
+
+/**
+ * Compares the realised revenue with the planned sell price per animal
+ *
+ * @returns null without a planned sell price
+ */
+export function compareWithEstimate(
+  revenue: number,
+  animals: number,
+  sellPricePerAnimal: number | null | undefined
+): EstimateComparison | null {
+  if (!sellPricePerAnimal || animals <= 0) return null
+  const estimate = animals * sellPricePerAnimal
+  return {
+    estimate,
+    difference: revenue - estimate,
+    differencePercent: estimate > 0 ? ((revenue - estimate) / estimate) * 100 : null,
+  }
+}
+
+/**
+ * Condenses a settlement into a sale batch
+ *
+ * The batch is priced per kg carcass weight at the realised average price,
+ * so its revenue equals the settlement total. The classification is the
+ * most frequent one of the carcasses.
+ */
+export function buildSettlementSale(
+  summary: SettlementSummary,
+  saleDate: string,
+  settlementNumber: string | null
+): SettlementSale {
+  const indexNote = summary.averageIndexPointsPerKg !== null
+    ? `Ø ${summary.averageIndexPointsPerKg.toFixed(3).replace('.', ',')} IXP/kg`
+    : null
+
+  return {
+    sale_date: saleDate,
+    count: summary.count,
+    live_weight_per_animal_kg: summary.averageLiveWeight,
+    carcass_weight_per_animal_kg: summary.averageCarcassWeight,
+    price_basis: 'per_kg_carcass',
+    price: summary.pricePerKgCarcass ?? 0,
+    bonus_total: null,
+    classification: summary.classifications[0]?.classification ?? null,
+    lean_meat_percent: summary.averageLeanMeatPercent,
+    settlement_number: settlementNumber,
+    notes: ['Schlachtabrechnung', indexNote].filter(Boolean).join(' · '),
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Unit Tests for Stock Ledger Calculations
+ *
+ * These tests ensure feed stock follows deliveries, consumption and
+ * stock-takes, and that days of cover and low-stock warnings are derived
+ * from recent consumption.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { buildStockLedger, calculateStockStatus } from './stock-ledger'
+
+// ============================================================================
+// TEST DATA FIXTURES
+// ============================================================================
+
+const deliveries = [
+  { id: 'd1', feed_type_id: 'ft-1', delivery_date: '2024-03-01', quantity: 10000 },
+  { id: 'd2', feed_type_id: 'ft-1', delivery_date: '2024-03-05', quantity: 5000 },
+  { id: 'd3', feed_type_id: 'ft-2', delivery_date: '2024-03-01', quantity: 999 },
+]
+
+const consumption = [
+  { feed_type_id: 'ft-1', date: '2024-02-28', quantity: 700 },
+  { feed_type_id: 'ft-1', date: '2024-03-01', quantity: 600 },
+  { feed_type_id: 'ft-1', date: '2024-03-01', quantity: 400 },
+  { feed_type_id: 'ft-1', date: '2024-03-02', quantity: 1000 },
+  { feed_type_id: 'ft-1', date: '2024-03-05', quantity: 1000 },
+]
+
+const stockTakes = [
+  { id: 's1', feed_type_id: 'ft-1', date: '2024-03-02', counted_quantity: 7500 },
+]
+
+const kgFeedType = { unit: 'kg' }
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('buildStockLedger', () => {
+  it('should run the balance through deliveries, consumption and stock-takes', () => {
+    const ledger = buildStockLedger('ft-1', { deliveries, stockTakes, consumption }, kgFeedType)
+
+    expect(ledger.map(entry => [entry.date, entry.type, entry.quantity, entry.balance])).toEqual([
+      ['2024-03-01', 'delivery', 10000, 10000],
+      ['2024-03-01', 'consumption', -1000, 9000],
+      ['2024-03-02', 'consumption', -1000, 8000],
+      ['2024-03-02', 'stock_take', -500, 7500],
+      ['2024-03-05', 'delivery', 5000, 12500],
+      ['2024-03-05', 'consumption', -1000, 11500],
+    ])
+  })
+
+  it('should convert the kg consumption into the unit of deliveries in t or bags', () => {
+    const tonnes = buildStockLedger('ft-1', {
+      deliveries: [{ id: 'd1', feed_type_id: 'ft-1', delivery_date: '2024-03-01', quantity: 10 }],
+      stockTakes: [],
+      consumption,
+    }, { unit: 't' })
+    const bags = buildStockLedger('ft-1', {
+      deliveries: [{ id: 'd1', feed_type_id: 'ft-1', delivery_date: '2024-03-01', quantity: 400 }],
+      stockTakes: [],
+      consumption,
+    }, { unit: 'bag', bag_weight_kg: 25 })
+
+    // 3000 kg of consumption from March 1st
+    expect(tonnes.at(-1)?.balance).toBe(7)
+    expect(bags.at(-1)?.balance).toBe(280)
+  })
+
+  it('should not track feed types without deliveries or stock-takes', () => {
+    expect(buildStockLedger('ft-3', { deliveries, stockTakes, consumption }, kgFeedType)).toEqual([])
+  })
+
+  it('should not track feed types whose unit has no conversion factor', () => {
+    expect(buildStockLedger('ft-1', { deliveries, stockTakes, consumption }, { unit: 'l' })).toEqual([])
+  })
+})
+
+describe('calculateStockStatus', () => {
+  const ledger = buildStockLedger('ft-1', { deliveries, stockTakes, consumption }, kgFeedType)
+
+  it('should derive days of cover from average consumption since tracking started', () => {
+    const status = calculateStockStatus('ft-1', ledger, { today: '2024-03-05', lowStockThreshold: 12000 })
+
+    expect(status.currentStock).toBe(11500)
+    // 3000 kg over 5 days
+    expect(status.averageDailyConsumption).toBe(600)
+    expect(status.daysOfCover).toBeCloseTo(19.17, 2)
+    expect(status.lowStock).toBe(true)
+    expect(status.trackedSince).toBe('2024-03-01')
+  })
+
+  it('should ignore movements after the reference date', () => {
+    const status = calculateStockStatus('ft-1', ledger, { today: '2024-03-03' })
+
+    expect(status.currentStock).toBe(7500)
+    expect(status.lowStock).toBe(false)
+  })
+})
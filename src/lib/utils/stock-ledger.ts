@@ -0,0 +1,183 @@
+/**
+ * Stock Ledger Calculations
+ *
+ * Feed stock per feed type, driven by deliveries (stock in), consumption
+ * (stock out) and stock-takes (counted stock replaces the calculated one).
+ * A feed type's ledger starts with its first delivery or stock-take;
+ * consumption before that is not counted. Stock is kept in the feed type's
+ * unit, consumption recorded in kg is converted to it; feed types without
+ * a conversion factor are not tracked.
+ */
+
+import { consumptionToFeedUnit, hasConversionFactor, type FeedTypeUnit } from './units'
+
+export type StockMovementType = 'delivery' | 'consumption' | 'stock_take'
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  delivery: 'Lieferung',
+  consumption: 'Verbrauch',
+  stock_take: 'Inventur',
+}
+
+export interface StockDelivery {
+  id: string
+  feed_type_id: string
+  delivery_date: string
+  quantity: number
+  supplier_id?: string | null
+  price_per_unit?: number | null
+  delivery_note?: string | null
+}
+
+export interface StockTake {
+  id: string
+  feed_type_id: string
+  date: string
+  counted_quantity: number
+}
+
+/** Consumption of one feed type on one day, in kg */
+export interface DailyFeedConsumption {
+  feed_type_id: string
+  date: string
+  quantity: number
+}
+
+export interface StockLedgerEntry {
+  date: string
+  type: StockMovementType
+  /** Change of stock: positive for deliveries, negative for consumption, the correction for stock-takes */
+  quantity: number
+  /** Stock after this movement */
+  balance: number
+  /** Delivery or stock-take record, not set for consumption */
+  referenceId: string | null
+}
+
+export interface StockStatus {
+  feedTypeId: string
+  currentStock: number
+  /** Average consumption per day over the trailing window */
+  averageDailyConsumption: number
+  /** Days the current stock lasts at average consumption, null without consumption */
+  daysOfCover: number | null
+  lowStockThreshold: number | null
+  lowStock: boolean
+  /** Date of the first delivery or stock-take, null if stock is not tracked yet */
+  trackedSince: string | null
+}
+
+// Within a day, deliveries come in first and a stock-take counts the end-of-day stock
+const MOVEMENT_ORDER: Record<StockMovementType, number> = { delivery: 0, consumption: 1, stock_take: 2 }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Builds the stock ledger of one feed type
+ *
+ * Consumption is booked as one movement per day.
+ *
+ * @param feedType - Unit of deliveries and stock-takes, consumption is converted to it
+ * @returns Movements in date order with running balance, in the feed type's unit;
+ * empty if the unit has no conversion factor from kg
+ */
+export function buildStockLedger(
+  feedTypeId: string,
+  movements: {
+    deliveries: StockDelivery[]
+    stockTakes: StockTake[]
+    consumption: DailyFeedConsumption[]
+  },
+  feedType: FeedTypeUnit
+): StockLedgerEntry[] {
+  if (!hasConversionFactor(feedType)) return []
+
+  const events: Omit<StockLedgerEntry, 'balance'>[] = []
+
+  movements.deliveries
+    .filter(delivery => delivery.feed_type_id === feedTypeId)
+    .forEach(delivery => events.push({
+      date: delivery.delivery_date,
+      type: 'delivery',
+      quantity: Number(delivery.quantity),
+      referenceId: delivery.id,
+    }))
+
+  movements.stockTakes
+    .filter(stockTake => stockTake.feed_type_id === feedTypeId)
+    .forEach(stockTake => events.push({
+      date: stockTake.date,
+      type: 'stock_take',
+      quantity: Number(stockTake.counted_quantity),
+      referenceId: stockTake.id,
+    }))
+
+  if (events.length === 0) return []
+
+  const trackedSince = events.reduce((first, event) => event.date < first ? event.date : first, events[0].date)
+
+  const consumptionByDate = new Map<string, number>()
+  movements.consumption
+    .filter(item => item.feed_type_id === feedTypeId && item.date >= trackedSince)
+    .forEach(item => consumptionByDate.set(item.date, (consumptionByDate.get(item.date) || 0) + Number(item.quantity)))
+  consumptionByDate.forEach((quantityKg, date) => events.push({
+    date,
+    type: 'consumption',
+    quantity: -consumptionToFeedUnit(quantityKg, feedType)!,
+    referenceId: null,
+  }))
+
+  events.sort((a, b) => a.date.localeCompare(b.date) || MOVEMENT_ORDER[a.type] - MOVEMENT_ORDER[b.type])
+
+  let balance = 0
+  return events.map(event => {
+    if (event.type === 'stock_take') {
+      // The counted quantity becomes the stock; the entry records the correction
+      const counted = event.quantity
+      const entry = { ...event, quantity: counted - balance, balance: counted }
+      balance = counted
+      return entry
+    }
+
+    balance += event.quantity
+    return { ...event, balance }
+  })
+}
+
+/**
+ * Current stock, days of cover and low-stock flag of a feed type
+ *
+ * @param ledger - Result of buildStockLedger
+ * @param options.today - Reference date (ISO)
+ * @param options.averageDays - Days of consumption the average is taken over (default 14)
+ * @param options.lowStockThreshold - Stock at or below which to reorder
+ */
+export function calculateStockStatus(
+  feedTypeId: string,
+  ledger: StockLedgerEntry[],
+  options: { today: string; averageDays?: number; lowStockThreshold?: number | null }
+): StockStatus {
+  const { today, averageDays = 14, lowStockThreshold = null } = options
+  const windowStart = new Date(Date.parse(`${today}T00:00:00Z`) - (averageDays - 1) * DAY_MS).toISOString().split('T')[0]
+  const trackedSince = ledger[0]?.date ?? null
+
+  const currentStock = ledger.filter(entry => entry.date <= today).at(-1)?.balance ?? 0
+
+  // Average over the window, or the tracked days if tracking started within it
+  const firstDay = trackedSince && trackedSince > windowStart ? trackedSince : windowStart
+  const days = Math.max(1, Math.round((Date.parse(`${today}T00:00:00Z`) - Date.parse(`${firstDay}T00:00:00Z`)) / DAY_MS) + 1)
+  const consumed = ledger
+    .filter(entry => entry.type === 'consumption' && entry.date >= firstDay && entry.date <= today)
+    .reduce((sum, entry) => sum - entry.quantity, 0)
+  const averageDailyConsumption = trackedSince ? consumed / days : 0
+
+  return {
+    feedTypeId,
+    currentStock,
+    averageDailyConsumption,
+    daysOfCover: averageDailyConsumption > 0 ? Math.max(currentStock, 0) / averageDailyConsumption : null,
+    lowStockThreshold,
+    lowStock: trackedSince !== null && lowStockThreshold !== null && currentStock <= lowStockThreshold,
+    trackedSince,
+  }
+}
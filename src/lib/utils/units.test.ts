@@ -0,0 +1,73 @@
+/**
+ * Unit Tests for Unit of Measure Utilities
+ *
+ * These tests ensure quantities and prices convert between kg, dt, t,
+ * litres and bags using the feed type's density and bag weight, and that
+ * feed types only count as sharing a unit if their factors match too.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { consumptionToFeedUnit, convertQuantity, convertUnitPrice, haveSameUnit, unitWeightKg } from './units'
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('unitWeightKg', () => {
+  it('should know the fixed weight units', () => {
+    expect(unitWeightKg('kg')).toBe(1)
+    expect(unitWeightKg('dt')).toBe(100)
+    expect(unitWeightKg('t')).toBe(1000)
+    expect(unitWeightKg(null)).toBe(1)
+  })
+
+  it('should use the feed type factors for volumes and bags', () => {
+    expect(unitWeightKg('l', { density_kg_per_l: 1.3 })).toBe(1.3)
+    expect(unitWeightKg('m³', { density_kg_per_l: 0.65 })).toBe(650)
+    expect(unitWeightKg('bag', { bag_weight_kg: 25 })).toBe(25)
+    expect(unitWeightKg('bag')).toBeNull()
+    expect(unitWeightKg('Ballen')).toBeNull()
+  })
+})
+
+describe('convertQuantity', () => {
+  it('should convert between units via their weight', () => {
+    expect(convertQuantity(2.5, 't', 'dt')).toBe(25)
+    expect(convertQuantity(4, 'bag', 'kg', { bag_weight_kg: 25 })).toBe(100)
+    expect(convertQuantity(130, 'kg', 'l', { density_kg_per_l: 1.3 })).toBeCloseTo(100)
+  })
+
+  it('should keep quantities in the same unit, even unknown ones', () => {
+    expect(convertQuantity(3, 'Ballen', 'Ballen')).toBe(3)
+    expect(convertQuantity(3, 'Ballen', 'kg')).toBeNull()
+  })
+})
+
+describe('consumptionToFeedUnit', () => {
+  it('should convert kg into the feed unit and refuse units without a factor', () => {
+    expect(consumptionToFeedUnit(500, { unit: 'bag', bag_weight_kg: 25 })).toBe(20)
+    expect(consumptionToFeedUnit(500, { unit: 'l' })).toBeNull()
+  })
+})
+
+describe('convertUnitPrice', () => {
+  it('should convert prices inversely to quantities', () => {
+    expect(convertUnitPrice(250, 't', 'kg')).toBeCloseTo(0.25)
+    expect(convertUnitPrice(0.52, 'kg', 'dt')).toBeCloseTo(52)
+    expect(convertUnitPrice(20, 'bag', 'kg', { bag_weight_kg: 25 })).toBeCloseTo(0.8)
+  })
+
+  it('should return null without the needed factor', () => {
+    expect(convertUnitPrice(20, 'bag', 'kg')).toBeNull()
+  })
+})
+
+describe('haveSameUnit', () => {
+  it('should compare the unit and the factors it depends on', () => {
+    expect(haveSameUnit({ unit: null }, { unit: 'kg', bag_weight_kg: 25 })).toBe(true)
+    expect(haveSameUnit({ unit: 't' }, { unit: 'kg' })).toBe(false)
+    expect(haveSameUnit({ unit: 'bag', bag_weight_kg: 25 }, { unit: 'bag', bag_weight_kg: 25 })).toBe(true)
+    expect(haveSameUnit({ unit: 'bag', bag_weight_kg: 25 }, { unit: 'bag', bag_weight_kg: 40 })).toBe(false)
+    expect(haveSameUnit({ unit: 'l', density_kg_per_l: 1.3 }, { unit: 'l' })).toBe(false)
+  })
+})
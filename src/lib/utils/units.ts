@@ -0,0 +1,132 @@
+/**
+ * Unit of Measure Utilities
+ *
+ * Consumption is recorded in kg (every import writes kg), while feed types,
+ * deliveries, stock and prices may be quoted per kg, dt, t, litre or bag.
+ * Costs are therefore calculated with prices converted to €/kg, and
+ * consumption is converted to the feed type's unit where it meets stock,
+ * deliveries or contract volumes. Every unit converts via its weight in kg;
+ * litres and cubic metres need the feed type's density, bags its bag weight.
+ */
+
+export type FeedUnit = 'kg' | 'dt' | 't' | 'l' | 'm³' | 'bag'
+
+export const FEED_UNIT_LABELS: Record<FeedUnit, string> = {
+  kg: 'Kilogramm (kg)',
+  dt: 'Doppelzentner (dt)',
+  t: 'Tonnen (t)',
+  l: 'Liter (l)',
+  'm³': 'Kubikmeter (m³)',
+  bag: 'Sack',
+}
+
+/** Conversion factors of a feed type */
+export interface FeedUnitFactors {
+  bag_weight_kg?: number | null
+  density_kg_per_l?: number | null
+}
+
+const FIXED_WEIGHTS_KG: Record<string, number> = {
+  kg: 1,
+  dt: 100,
+  t: 1000,
+}
+
+/** Unit and conversion factors of a feed type */
+export interface FeedTypeUnit extends FeedUnitFactors {
+  unit?: string | null
+}
+
+/** Feed types and price tiers without a unit are in kg */
+export const resolveUnit = (unit: string | null | undefined) => unit || 'kg'
+
+/**
+ * Weight of one unit in kg
+ *
+ * @returns The weight, or null if the unit is unknown or the feed type has
+ * no density or bag weight for it
+ */
+export function unitWeightKg(unit: string | null | undefined, factors: FeedUnitFactors = {}): number | null {
+  const resolved = resolveUnit(unit)
+  if (resolved in FIXED_WEIGHTS_KG) return FIXED_WEIGHTS_KG[resolved]
+
+  const density = factors.density_kg_per_l ? Number(factors.density_kg_per_l) : null
+  const bagWeight = factors.bag_weight_kg ? Number(factors.bag_weight_kg) : null
+  if (resolved === 'l') return density
+  if (resolved === 'm³') return density !== null ? density * 1000 : null
+  if (resolved === 'bag') return bagWeight
+  return null
+}
+
+/**
+ * Converts a quantity between units
+ *
+ * @returns The quantity in the target unit, or null if either unit cannot be converted
+ */
+export function convertQuantity(
+  quantity: number,
+  fromUnit: string | null | undefined,
+  toUnit: string | null | undefined,
+  factors: FeedUnitFactors = {}
+): number | null {
+  if (resolveUnit(fromUnit) === resolveUnit(toUnit)) return quantity
+
+  const fromWeight = unitWeightKg(fromUnit, factors)
+  const toWeight = unitWeightKg(toUnit, factors)
+  if (fromWeight === null || toWeight === null) return null
+  return quantity * fromWeight / toWeight
+}
+
+/**
+ * Checks whether a feed type's unit converts to kg
+ * Fails for bags without a bag weight, litres and cubic metres without a
+ * density and units outside the unit list.
+ */
+export function hasConversionFactor(feedType: FeedTypeUnit): boolean {
+  return unitWeightKg(feedType.unit, feedType) !== null
+}
+
+/**
+ * Converts consumption recorded in kg into the feed type's unit
+ *
+ * @returns The quantity, or null if the feed type has no conversion factor
+ */
+export function consumptionToFeedUnit(quantityKg: number, feedType: FeedTypeUnit): number | null {
+  return convertQuantity(quantityKg, 'kg', feedType.unit, feedType)
+}
+
+/**
+ * Converts a price per unit between units, e.g. 250 €/t to 0.25 €/kg
+ *
+ * @returns The price per target unit, or null if either unit cannot be converted
+ */
+export function convertUnitPrice(
+  pricePerUnit: number,
+  fromUnit: string | null | undefined,
+  toUnit: string | null | undefined,
+  factors: FeedUnitFactors = {}
+): number | null {
+  // A price per unit converts inversely to the quantity
+  const unitsPerTargetUnit = convertQuantity(1, toUnit, fromUnit, factors)
+  return unitsPerTargetUnit === null ? null : pricePerUnit * unitsPerTargetUnit
+}
+
+/**
+ * Checks whether two feed types keep quantities and prices in the same unit
+ * Bags must also weigh the same, litres and cubic metres have the same density.
+ */
+export function haveSameUnit(a: FeedTypeUnit, b: FeedTypeUnit): boolean {
+  const unit = resolveUnit(a.unit)
+  if (unit !== resolveUnit(b.unit)) return false
+  if (unit === 'bag') return (a.bag_weight_kg ?? null) === (b.bag_weight_kg ?? null)
+  if (unit === 'l' || unit === 'm³') return (a.density_kg_per_l ?? null) === (b.density_kg_per_l ?? null)
+  return true
+}
+
+/**
+ * Gets the display label of a unit, falling back to the stored text
+ */
+export function formatUnit(unit: string | null | undefined): string {
+  const resolved = resolveUnit(unit)
+  return resolved === 'bag' ? 'Sack' : resolved
+}
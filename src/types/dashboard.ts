@@ -128,6 +128,7 @@ export interface StatWidgetConfig extends WidgetConfig {
     | 'current_cycle_profit' | 'current_cycle_fcr' | 'current_cycle_feed_cost'
     | 'current_cycle_duration' | 'current_cycle_animals' | 'current_cycle_margin'
     | 'current_cycle_feed_efficiency' | 'current_cycle_cost_per_animal'
+    | 'current_cycle_dm_intake' | 'current_cycle_cost_per_kg_dm' | 'current_cycle_cost_per_mj'
     // Cycle comparison data sources
     | 'best_cycle_profit' | 'worst_cycle_profit' | 'avg_fcr_all_cycles' | 'avg_cycle_profit'
   format: 'currency' | 'number' | 'percentage'
@@ -0,0 +1,42 @@
+-- Saved column mappings for feeding exports of unknown layout
+--
+-- A profile is found again by the header signature of a file (its
+-- lower-cased, trimmed column headers), so each signature is stored once
+-- per farm.
+
+create table public.import_profiles (
+  id uuid primary key default gen_random_uuid(),
+  farm_id uuid not null references public.farms(id) on delete cascade,
+  name text not null,
+  header_signature text not null,
+  mapping jsonb not null,
+  created_by uuid not null references auth.users(id),
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (farm_id, header_signature)
+);
+
+alter table public.import_profiles enable row level security;
+
+create policy "Farm members can view import profiles"
+  on public.import_profiles for select
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = import_profiles.farm_id
+       and farm_members.user_id = auth.uid()
+  ));
+
+create policy "Farm editors can manage import profiles"
+  on public.import_profiles for all
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = import_profiles.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ))
+  with check (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = import_profiles.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ));
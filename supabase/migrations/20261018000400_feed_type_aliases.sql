@@ -0,0 +1,40 @@
+-- Alternative feed names mapped to a feed type during imports
+--
+-- Aliases are unique per farm, so an import maps each name to exactly one
+-- feed type.
+
+create table public.feed_type_aliases (
+  id uuid primary key default gen_random_uuid(),
+  farm_id uuid not null references public.farms(id) on delete cascade,
+  alias text not null,
+  feed_type_id uuid not null references public.feed_types(id) on delete cascade,
+  created_at timestamptz default now(),
+  unique (farm_id, alias)
+);
+
+create index feed_type_aliases_feed_type_id_idx on public.feed_type_aliases (feed_type_id);
+
+alter table public.feed_type_aliases enable row level security;
+
+create policy "Farm members can view feed type aliases"
+  on public.feed_type_aliases for select
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = feed_type_aliases.farm_id
+       and farm_members.user_id = auth.uid()
+  ));
+
+create policy "Farm editors can manage feed type aliases"
+  on public.feed_type_aliases for all
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = feed_type_aliases.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ))
+  with check (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = feed_type_aliases.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ));
@@ -0,0 +1,49 @@
+-- Upload rollback and re-processing
+--
+-- consumption_upload_snapshots keeps the values a row had before an upload
+-- overwrote it, so rolling back the upload can restore them. Rows an upload
+-- created have no snapshot and are deleted on rollback. There is at most one
+-- snapshot per row and upload.
+
+alter table public.uploads
+  add column rolled_back_at timestamptz,
+  add column source_sheet text;
+
+create table public.consumption_upload_snapshots (
+  id uuid primary key default gen_random_uuid(),
+  farm_id uuid not null references public.farms(id) on delete cascade,
+  upload_id uuid not null references public.uploads(id) on delete cascade,
+  consumption_id uuid not null references public.consumption(id) on delete cascade,
+  previous_quantity numeric not null,
+  previous_upload_id uuid,
+  previous_area_id uuid,
+  created_at timestamptz default now(),
+  unique (consumption_id, upload_id)
+);
+
+create index consumption_upload_snapshots_upload_id_idx on public.consumption_upload_snapshots (upload_id);
+
+alter table public.consumption_upload_snapshots enable row level security;
+
+create policy "Farm members can view upload snapshots"
+  on public.consumption_upload_snapshots for select
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = consumption_upload_snapshots.farm_id
+       and farm_members.user_id = auth.uid()
+  ));
+
+create policy "Farm editors can manage upload snapshots"
+  on public.consumption_upload_snapshots for all
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = consumption_upload_snapshots.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ))
+  with check (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = consumption_upload_snapshots.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ));
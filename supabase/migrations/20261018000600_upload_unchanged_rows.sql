@@ -0,0 +1,4 @@
+-- Rows of an upload that matched existing consumption exactly
+
+alter table public.uploads
+  add column rows_unchanged integer;
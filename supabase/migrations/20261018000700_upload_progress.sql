@@ -0,0 +1,5 @@
+-- Progress of server-side imports, read by clients following an upload
+
+alter table public.uploads
+  add column progress_processed integer,
+  add column progress_total integer;
@@ -0,0 +1,8 @@
+-- Row-level validation report of an upload
+--
+-- validation_issues holds the flagged rows, skipped_source_rows the source
+-- row numbers the user chose not to import (needed to re-process the file).
+
+alter table public.uploads
+  add column validation_issues jsonb,
+  add column skipped_source_rows integer[];
@@ -0,0 +1,50 @@
+-- Watched folders and mailboxes imported without a manual upload
+--
+-- Paths are relative to the farm's ingestion directory on the server
+-- (INGESTION_DIR/<farm_id>). Uploads keep their source; deleting a source
+-- keeps the uploads it created.
+
+create table public.import_sources (
+  id uuid primary key default gen_random_uuid(),
+  farm_id uuid not null references public.farms(id) on delete cascade,
+  name text not null,
+  type text not null check (type in ('folder', 'mailbox')),
+  path text not null check (path !~ '^[/\\]' and path !~ '(^|[/\\])\.\.([/\\]|$)'),
+  enabled boolean not null default true,
+  last_polled_at timestamptz,
+  last_error text,
+  created_by uuid not null references auth.users(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index import_sources_farm_id_idx on public.import_sources (farm_id);
+
+alter table public.import_sources enable row level security;
+
+create policy "Farm members can view import sources"
+  on public.import_sources for select
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = import_sources.farm_id
+       and farm_members.user_id = auth.uid()
+  ));
+
+create policy "Farm editors can manage import sources"
+  on public.import_sources for all
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = import_sources.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ))
+  with check (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = import_sources.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ));
+
+alter table public.uploads
+  add column source text not null default 'manual' check (source in ('manual', 'folder', 'mailbox')),
+  add column import_source_id uuid references public.import_sources(id) on delete set null;
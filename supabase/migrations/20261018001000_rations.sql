@@ -0,0 +1,119 @@
+-- Rations (recipes) broken down into their components on import
+--
+-- A ration has versions valid from a date; each version lists its
+-- components either in kg per batch or as percentage shares.
+
+create table public.rations (
+  id uuid primary key default gen_random_uuid(),
+  farm_id uuid not null references public.farms(id) on delete cascade,
+  name text not null,
+  description text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index rations_farm_id_idx on public.rations (farm_id);
+
+create table public.ration_versions (
+  id uuid primary key default gen_random_uuid(),
+  ration_id uuid not null references public.rations(id) on delete cascade,
+  farm_id uuid not null references public.farms(id) on delete cascade,
+  valid_from date not null,
+  share_type text not null check (share_type in ('kg_per_batch', 'percentage')),
+  created_at timestamptz not null default now(),
+  unique (ration_id, valid_from)
+);
+
+create table public.ration_components (
+  id uuid primary key default gen_random_uuid(),
+  ration_version_id uuid not null references public.ration_versions(id) on delete cascade,
+  feed_type_id uuid not null references public.feed_types(id),
+  amount numeric not null check (amount > 0),
+  unique (ration_version_id, feed_type_id)
+);
+
+create index ration_components_feed_type_id_idx on public.ration_components (feed_type_id);
+
+alter table public.rations enable row level security;
+
+create policy "Farm members can view rations"
+  on public.rations for select
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = rations.farm_id
+       and farm_members.user_id = auth.uid()
+  ));
+
+create policy "Farm editors can manage rations"
+  on public.rations for all
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = rations.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ))
+  with check (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = rations.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ));
+
+alter table public.ration_versions enable row level security;
+
+create policy "Farm members can view ration versions"
+  on public.ration_versions for select
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = ration_versions.farm_id
+       and farm_members.user_id = auth.uid()
+  ));
+
+create policy "Farm editors can manage ration versions"
+  on public.ration_versions for all
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = ration_versions.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ))
+  with check (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = ration_versions.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ));
+
+alter table public.ration_components enable row level security;
+
+create policy "Farm members can view ration components"
+  on public.ration_components for select
+  using (exists (
+    select 1
+      from public.ration_versions
+      join public.farm_members on farm_members.farm_id = ration_versions.farm_id
+     where ration_versions.id = ration_components.ration_version_id
+       and farm_members.user_id = auth.uid()
+  ));
+
+create policy "Farm editors can manage ration components"
+  on public.ration_components for all
+  using (exists (
+    select 1
+      from public.ration_versions
+      join public.farm_members on farm_members.farm_id = ration_versions.farm_id
+     where ration_versions.id = ration_components.ration_version_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ))
+  with check (exists (
+    select 1
+      from public.ration_versions
+      join public.farm_members on farm_members.farm_id = ration_versions.farm_id
+     where ration_versions.id = ration_components.ration_version_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ));
+
+alter table public.uploads
+  add column explode_rations boolean not null default true;
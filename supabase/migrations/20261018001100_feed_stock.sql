@@ -0,0 +1,85 @@
+-- Feed stock ledger: deliveries and stock-takes per feed type
+--
+-- Quantities and delivery prices are in the feed type's unit.
+
+create table public.feed_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  farm_id uuid not null references public.farms(id) on delete cascade,
+  feed_type_id uuid not null references public.feed_types(id),
+  supplier_id uuid references public.suppliers(id) on delete set null,
+  delivery_date date not null,
+  quantity numeric not null check (quantity > 0),
+  price_per_unit numeric check (price_per_unit >= 0),
+  delivery_note text,
+  notes text,
+  created_by uuid not null references auth.users(id),
+  created_at timestamptz not null default now()
+);
+
+create index feed_deliveries_farm_feed_type_idx on public.feed_deliveries (farm_id, feed_type_id, delivery_date);
+
+create table public.stock_takes (
+  id uuid primary key default gen_random_uuid(),
+  farm_id uuid not null references public.farms(id) on delete cascade,
+  feed_type_id uuid not null references public.feed_types(id),
+  date date not null,
+  counted_quantity numeric not null check (counted_quantity >= 0),
+  notes text,
+  created_by uuid not null references auth.users(id),
+  created_at timestamptz not null default now()
+);
+
+create index stock_takes_farm_feed_type_idx on public.stock_takes (farm_id, feed_type_id, date);
+
+alter table public.feed_deliveries enable row level security;
+
+create policy "Farm members can view feed deliveries"
+  on public.feed_deliveries for select
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = feed_deliveries.farm_id
+       and farm_members.user_id = auth.uid()
+  ));
+
+create policy "Farm editors can manage feed deliveries"
+  on public.feed_deliveries for all
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = feed_deliveries.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ))
+  with check (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = feed_deliveries.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ));
+
+alter table public.stock_takes enable row level security;
+
+create policy "Farm members can view stock takes"
+  on public.stock_takes for select
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = stock_takes.farm_id
+       and farm_members.user_id = auth.uid()
+  ));
+
+create policy "Farm editors can manage stock takes"
+  on public.stock_takes for all
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = stock_takes.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ))
+  with check (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = stock_takes.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ));
+
+alter table public.feed_types
+  add column low_stock_threshold numeric;
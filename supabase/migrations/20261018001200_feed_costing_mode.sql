@@ -0,0 +1,5 @@
+-- How a farm values its consumption: price tiers, FIFO or moving average
+
+alter table public.farms
+  add column feed_costing_mode text not null default 'price_tier'
+    check (feed_costing_mode in ('price_tier', 'fifo', 'moving_average'));
@@ -0,0 +1,45 @@
+-- Supplier attribution of consumption and supplier shares per feed type
+--
+-- Shares of a feed type add up to 100 %; the application replaces them as a
+-- whole.
+
+alter table public.consumption
+  add column supplier_id uuid references public.suppliers(id) on delete set null;
+
+alter table public.consumption_upload_snapshots
+  add column previous_supplier_id uuid;
+
+create table public.feed_type_suppliers (
+  id uuid primary key default gen_random_uuid(),
+  farm_id uuid not null references public.farms(id) on delete cascade,
+  feed_type_id uuid not null references public.feed_types(id) on delete cascade,
+  supplier_id uuid not null references public.suppliers(id) on delete cascade,
+  share numeric not null check (share > 0 and share <= 100),
+  created_at timestamptz not null default now(),
+  unique (feed_type_id, supplier_id)
+);
+
+alter table public.feed_type_suppliers enable row level security;
+
+create policy "Farm members can view feed type suppliers"
+  on public.feed_type_suppliers for select
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = feed_type_suppliers.farm_id
+       and farm_members.user_id = auth.uid()
+  ));
+
+create policy "Farm editors can manage feed type suppliers"
+  on public.feed_type_suppliers for all
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = feed_type_suppliers.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ))
+  with check (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = feed_type_suppliers.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ));
@@ -0,0 +1,6 @@
+-- How missing feed prices are estimated, per feed type
+
+alter table public.feed_types
+  add column price_fallback_policy text
+    check (price_fallback_policy in ('none', 'last_known', 'next_known', 'interpolate', 'reference')),
+  add column reference_price numeric check (reference_price >= 0);
@@ -0,0 +1,29 @@
+-- Conversion factors of feed types and the unit of price tiers
+--
+-- Bags convert to kg by their bag weight, litres and cubic metres by the
+-- density. A price tier without a unit is in the feed type's unit.
+--
+-- Existing feed types in l or m³ have no density yet; they are flagged in
+-- the app ("Umrechnungsfaktor fehlt") until one is entered, and their
+-- consumption counts as unpriced. The free-text units are mapped to the
+-- unit list where the spelling is known; others are kept and flagged the
+-- same way.
+
+alter table public.feed_types
+  add column bag_weight_kg numeric check (bag_weight_kg > 0),
+  add column density_kg_per_l numeric check (density_kg_per_l > 0);
+
+alter table public.price_tiers
+  add column unit text check (unit in ('kg', 'dt', 't', 'l', 'm³', 'bag'));
+
+update public.feed_types
+set unit = case
+    when lower(trim(unit)) in ('', 'kg', 'kilogramm') then 'kg'
+    when lower(trim(unit)) in ('dt', 'dz', 'doppelzentner') then 'dt'
+    when lower(trim(unit)) in ('t', 'to', 'tonne', 'tonnen') then 't'
+    when lower(trim(unit)) in ('l', 'liter') then 'l'
+    when lower(trim(unit)) in ('m³', 'm3', 'cbm', 'kubikmeter') then 'm³'
+    when lower(trim(unit)) in ('bag', 'sack', 'säcke') then 'bag'
+    else unit
+  end
+where unit not in ('kg', 'dt', 't', 'l', 'm³', 'bag');
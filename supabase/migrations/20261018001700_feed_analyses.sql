@@ -0,0 +1,45 @@
+-- Lab analyses of feed types, valid from their sampling date
+--
+-- Energy and protein values refer to one kg of dry matter.
+
+create table public.feed_analyses (
+  id uuid primary key default gen_random_uuid(),
+  farm_id uuid not null references public.farms(id) on delete cascade,
+  feed_type_id uuid not null references public.feed_types(id) on delete cascade,
+  valid_from date not null,
+  dry_matter_percent numeric check (dry_matter_percent > 0 and dry_matter_percent <= 100),
+  me_mj_per_kg_dm numeric check (me_mj_per_kg_dm >= 0),
+  nel_mj_per_kg_dm numeric check (nel_mj_per_kg_dm >= 0),
+  crude_protein_g_per_kg_dm numeric check (crude_protein_g_per_kg_dm >= 0),
+  lab_name text,
+  notes text,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz default now()
+);
+
+create index feed_analyses_feed_type_idx on public.feed_analyses (feed_type_id, valid_from);
+
+alter table public.feed_analyses enable row level security;
+
+create policy "Farm members can view feed analyses"
+  on public.feed_analyses for select
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = feed_analyses.farm_id
+       and farm_members.user_id = auth.uid()
+  ));
+
+create policy "Farm editors can manage feed analyses"
+  on public.feed_analyses for all
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = feed_analyses.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ))
+  with check (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = feed_analyses.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ));
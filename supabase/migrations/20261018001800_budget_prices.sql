@@ -0,0 +1,44 @@
+-- Budget prices per feed type and month with best, expected and worst case
+--
+-- month is the first day of the month; one budget price per feed type and
+-- month.
+
+create table public.budget_prices (
+  id uuid primary key default gen_random_uuid(),
+  farm_id uuid not null references public.farms(id) on delete cascade,
+  feed_type_id uuid not null references public.feed_types(id) on delete cascade,
+  month date not null check (extract(day from month) = 1),
+  price_best numeric not null check (price_best >= 0),
+  price_expected numeric not null check (price_expected >= 0),
+  price_worst numeric not null check (price_worst >= 0),
+  notes text,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (farm_id, feed_type_id, month)
+);
+
+alter table public.budget_prices enable row level security;
+
+create policy "Farm members can view budget prices"
+  on public.budget_prices for select
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = budget_prices.farm_id
+       and farm_members.user_id = auth.uid()
+  ));
+
+create policy "Farm editors can manage budget prices"
+  on public.budget_prices for all
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = budget_prices.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ))
+  with check (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = budget_prices.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ));
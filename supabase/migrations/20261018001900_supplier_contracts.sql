@@ -0,0 +1,51 @@
+-- Supplier contracts with a committed volume called off by deliveries or consumption
+--
+-- Quantity and price are in the contract's unit, or the feed type's unit
+-- without one. A contract may create a price tier for its validity.
+
+create table public.supplier_contracts (
+  id uuid primary key default gen_random_uuid(),
+  farm_id uuid not null references public.farms(id) on delete cascade,
+  supplier_id uuid not null references public.suppliers(id),
+  feed_type_id uuid not null references public.feed_types(id),
+  contract_number text,
+  contracted_quantity numeric not null check (contracted_quantity > 0),
+  unit text check (unit in ('kg', 'dt', 't', 'l', 'm³', 'bag')),
+  price_per_unit numeric not null check (price_per_unit >= 0),
+  valid_from date not null,
+  valid_to date not null,
+  call_off_basis text not null default 'deliveries' check (call_off_basis in ('deliveries', 'consumption')),
+  price_tier_id uuid references public.price_tiers(id) on delete set null,
+  notes text,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  check (valid_to >= valid_from)
+);
+
+create index supplier_contracts_farm_id_idx on public.supplier_contracts (farm_id, valid_to);
+
+alter table public.supplier_contracts enable row level security;
+
+create policy "Farm members can view supplier contracts"
+  on public.supplier_contracts for select
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = supplier_contracts.farm_id
+       and farm_members.user_id = auth.uid()
+  ));
+
+create policy "Farm editors can manage supplier contracts"
+  on public.supplier_contracts for all
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = supplier_contracts.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ))
+  with check (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = supplier_contracts.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ));
@@ -0,0 +1,87 @@
+-- Purchase orders proposed from the consumption forecast
+--
+-- Item quantities are in the item's unit, or the feed type's unit without one.
+
+create table public.purchase_orders (
+  id uuid primary key default gen_random_uuid(),
+  farm_id uuid not null references public.farms(id) on delete cascade,
+  supplier_id uuid references public.suppliers(id) on delete set null,
+  status text not null default 'draft' check (status in ('draft', 'sent', 'received', 'cancelled')),
+  order_by_date date,
+  delivery_date date,
+  sent_at timestamptz,
+  notes text,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create index purchase_orders_farm_id_idx on public.purchase_orders (farm_id, status);
+
+create table public.purchase_order_items (
+  id uuid primary key default gen_random_uuid(),
+  purchase_order_id uuid not null references public.purchase_orders(id) on delete cascade,
+  feed_type_id uuid not null references public.feed_types(id),
+  quantity numeric not null check (quantity > 0),
+  unit text check (unit in ('kg', 'dt', 't', 'l', 'm³', 'bag')),
+  created_at timestamptz default now()
+);
+
+create index purchase_order_items_order_idx on public.purchase_order_items (purchase_order_id);
+create index purchase_order_items_feed_type_idx on public.purchase_order_items (feed_type_id);
+
+alter table public.purchase_orders enable row level security;
+
+create policy "Farm members can view purchase orders"
+  on public.purchase_orders for select
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = purchase_orders.farm_id
+       and farm_members.user_id = auth.uid()
+  ));
+
+create policy "Farm editors can manage purchase orders"
+  on public.purchase_orders for all
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = purchase_orders.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ))
+  with check (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = purchase_orders.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ));
+
+alter table public.purchase_order_items enable row level security;
+
+create policy "Farm members can view purchase order items"
+  on public.purchase_order_items for select
+  using (exists (
+    select 1
+      from public.purchase_orders
+      join public.farm_members on farm_members.farm_id = purchase_orders.farm_id
+     where purchase_orders.id = purchase_order_items.purchase_order_id
+       and farm_members.user_id = auth.uid()
+  ));
+
+create policy "Farm editors can manage purchase order items"
+  on public.purchase_order_items for all
+  using (exists (
+    select 1
+      from public.purchase_orders
+      join public.farm_members on farm_members.farm_id = purchase_orders.farm_id
+     where purchase_orders.id = purchase_order_items.purchase_order_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ))
+  with check (exists (
+    select 1
+      from public.purchase_orders
+      join public.farm_members on farm_members.farm_id = purchase_orders.farm_id
+     where purchase_orders.id = purchase_order_items.purchase_order_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ));
@@ -0,0 +1,5 @@
+-- Animals per-animal cycle costs are based on: peak count or animal-days
+
+alter table public.farms
+  add column animal_allocation_mode text not null default 'peak'
+    check (animal_allocation_mode in ('peak', 'animal_days'));
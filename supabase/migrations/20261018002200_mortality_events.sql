@@ -0,0 +1,44 @@
+-- Deaths, emergency slaughter and culls per cycle, optionally per area
+
+create table public.mortality_events (
+  id uuid primary key default gen_random_uuid(),
+  farm_id uuid not null references public.farms(id) on delete cascade,
+  livestock_count_id uuid not null references public.livestock_counts(id) on delete cascade,
+  area_id uuid references public.areas(id) on delete set null,
+  area_group_id uuid references public.area_groups(id) on delete set null,
+  event_date date not null,
+  event_type text not null default 'death' check (event_type in ('death', 'emergency_slaughter', 'cull')),
+  count integer not null check (count > 0),
+  cause text,
+  disposal_cost numeric check (disposal_cost >= 0),
+  notes text,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz default now()
+);
+
+create index mortality_events_livestock_count_idx on public.mortality_events (livestock_count_id, event_date);
+
+alter table public.mortality_events enable row level security;
+
+create policy "Farm members can view mortality events"
+  on public.mortality_events for select
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = mortality_events.farm_id
+       and farm_members.user_id = auth.uid()
+  ));
+
+create policy "Farm editors can manage mortality events"
+  on public.mortality_events for all
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = mortality_events.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ))
+  with check (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = mortality_events.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ));
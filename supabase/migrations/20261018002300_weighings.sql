@@ -0,0 +1,47 @@
+-- Intermediate weighings per cycle and the breed target curve they are compared with
+
+create table public.weighings (
+  id uuid primary key default gen_random_uuid(),
+  farm_id uuid not null references public.farms(id) on delete cascade,
+  livestock_count_id uuid not null references public.livestock_counts(id) on delete cascade,
+  area_id uuid references public.areas(id) on delete set null,
+  area_group_id uuid references public.area_groups(id) on delete set null,
+  weighing_date date not null,
+  average_weight_kg numeric not null check (average_weight_kg > 0),
+  sample_size integer not null check (sample_size > 0),
+  individual_weights numeric[],
+  notes text,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz default now()
+);
+
+create index weighings_livestock_count_idx on public.weighings (livestock_count_id, weighing_date);
+
+alter table public.weighings enable row level security;
+
+create policy "Farm members can view weighings"
+  on public.weighings for select
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = weighings.farm_id
+       and farm_members.user_id = auth.uid()
+  ));
+
+create policy "Farm editors can manage weighings"
+  on public.weighings for all
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = weighings.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ))
+  with check (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = weighings.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ));
+
+alter table public.livestock_counts
+  add column growth_target_curve text
+    check (growth_target_curve in ('piglet_rearing', 'pig_finishing', 'pig_finishing_high', 'bull_fattening'));
@@ -0,0 +1,50 @@
+-- Sale batches per cycle, optionally per area, priced per kg carcass, per kg live or per head
+
+create table public.animal_sales (
+  id uuid primary key default gen_random_uuid(),
+  farm_id uuid not null references public.farms(id) on delete cascade,
+  livestock_count_id uuid not null references public.livestock_counts(id) on delete cascade,
+  area_id uuid references public.areas(id) on delete set null,
+  area_group_id uuid references public.area_groups(id) on delete set null,
+  sale_date date not null,
+  count integer not null check (count > 0),
+  live_weight_per_animal_kg numeric check (live_weight_per_animal_kg > 0),
+  carcass_weight_per_animal_kg numeric check (carcass_weight_per_animal_kg > 0),
+  price_basis text not null default 'per_kg_carcass'
+    check (price_basis in ('per_kg_carcass', 'per_kg_live', 'per_head')),
+  price numeric not null check (price >= 0),
+  bonus_total numeric,
+  buyer text,
+  classification text,
+  lean_meat_percent numeric check (lean_meat_percent >= 0 and lean_meat_percent <= 100),
+  notes text,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz default now()
+);
+
+create index animal_sales_livestock_count_idx on public.animal_sales (livestock_count_id, sale_date);
+
+alter table public.animal_sales enable row level security;
+
+create policy "Farm members can view animal sales"
+  on public.animal_sales for select
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = animal_sales.farm_id
+       and farm_members.user_id = auth.uid()
+  ));
+
+create policy "Farm editors can manage animal sales"
+  on public.animal_sales for all
+  using (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = animal_sales.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ))
+  with check (exists (
+    select 1 from public.farm_members
+     where farm_members.farm_id = animal_sales.farm_id
+       and farm_members.user_id = auth.uid()
+       and farm_members.role in ('owner', 'admin', 'editor')
+  ));
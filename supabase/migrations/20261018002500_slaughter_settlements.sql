@@ -0,0 +1,10 @@
+-- Number of the slaughterhouse settlement a sale was imported from
+--
+-- Each settlement is imported once per farm.
+
+alter table public.animal_sales
+  add column settlement_number text;
+
+create unique index animal_sales_settlement_number_key
+  on public.animal_sales (farm_id, settlement_number)
+  where settlement_number is not null;
@@ -0,0 +1,330 @@
+-- Merges one feed type into another of the same farm in a single transaction
+--
+-- Both feed types must be kept in the same unit (and bag weight or density),
+-- as stock takes, deliveries, prices and order quantities are in that unit.
+--
+-- 1. Adds consumption of the source onto target rows of the same date/group/pen
+--    (the consumption table is unique per key) and removes those source rows.
+--    The merged row belongs to the newer of both rows' uploads, and their
+--    upload snapshots are combined, so rolling back an upload restores the
+--    sum of both rows' earlier quantities
+-- 2. Does the same for stock takes of the same date, ration components of the
+--    same version and order items of the same order and unit
+-- 3. Keeps the target's budget prices, supplier shares and analyses where both
+--    feed types have one for the same month / supplier / date
+-- 4. Re-points all remaining rows referencing the source to the target:
+--    consumption, deliveries, stock takes, price tiers, budget prices,
+--    supplier shares and contracts, analyses, order items, ration components
+--    and aliases
+-- 5. Saves the source name as alias of the target, so future imports match
+-- 6. Deletes the source feed type
+--
+-- Runs with the caller's rights, so row level security applies to every step.
+
+create or replace function public.merge_feed_types(
+  p_farm_id uuid,
+  p_source_id uuid,
+  p_target_id uuid
+)
+returns json
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_source feed_types%rowtype;
+  v_target feed_types%rowtype;
+  v_moved_consumption integer := 0;
+  v_merged_consumption integer := 0;
+  v_moved_price_tiers integer := 0;
+  v_moved_references integer := 0;
+  v_count integer := 0;
+begin
+  if p_source_id = p_target_id then
+    raise exception 'Ein Futtermittel kann nicht mit sich selbst zusammengeführt werden';
+  end if;
+
+  select * into v_source
+    from feed_types
+   where id = p_source_id and farm_id = p_farm_id
+     for update;
+
+  if not found then
+    raise exception 'Quell-Futtermittel nicht gefunden';
+  end if;
+
+  select * into v_target
+    from feed_types
+   where id = p_target_id and farm_id = p_farm_id
+     for update;
+
+  if not found then
+    raise exception 'Ziel-Futtermittel nicht gefunden';
+  end if;
+
+  if coalesce(v_source.unit, 'kg') <> coalesce(v_target.unit, 'kg')
+     or (coalesce(v_source.unit, 'kg') = 'bag'
+         and v_source.bag_weight_kg is distinct from v_target.bag_weight_kg)
+     or (coalesce(v_source.unit, 'kg') in ('l', 'm³')
+         and v_source.density_kg_per_l is distinct from v_target.density_kg_per_l) then
+    raise exception 'Futtermittel mit unterschiedlicher Einheit können nicht zusammengeführt werden';
+  end if;
+
+  -- Snapshots of consumption rows about to be merged: per upload, the merged
+  -- row's previous quantity is the sum of both rows' previous quantities. A
+  -- row without a snapshot for the upload contributes nothing if the upload
+  -- created it and its quantity otherwise.
+  update consumption_upload_snapshots target_snapshot
+     set previous_quantity = target_snapshot.previous_quantity + coalesce(
+           (select source_snapshot.previous_quantity
+              from consumption_upload_snapshots source_snapshot
+             where source_snapshot.consumption_id = source.id
+               and source_snapshot.upload_id = target_snapshot.upload_id),
+           case when source.upload_id = target_snapshot.upload_id then 0 else source.quantity end
+         )
+    from consumption source, consumption target
+   where source.farm_id = p_farm_id
+     and source.feed_type_id = p_source_id
+     and target.farm_id = p_farm_id
+     and target.feed_type_id = p_target_id
+     and target.date = source.date
+     and coalesce(target.group_name, '') = coalesce(source.group_name, '')
+     and coalesce(target.pen_name, '') = coalesce(source.pen_name, '')
+     and target_snapshot.consumption_id = target.id;
+
+  update consumption_upload_snapshots source_snapshot
+     set consumption_id = target.id,
+         previous_quantity = source_snapshot.previous_quantity
+           + case when target.upload_id = source_snapshot.upload_id then 0 else target.quantity end
+    from consumption source, consumption target
+   where source.farm_id = p_farm_id
+     and source.feed_type_id = p_source_id
+     and target.farm_id = p_farm_id
+     and target.feed_type_id = p_target_id
+     and target.date = source.date
+     and coalesce(target.group_name, '') = coalesce(source.group_name, '')
+     and coalesce(target.pen_name, '') = coalesce(source.pen_name, '')
+     and source_snapshot.consumption_id = source.id
+     and not exists (
+       select 1 from consumption_upload_snapshots target_snapshot
+        where target_snapshot.consumption_id = target.id
+          and target_snapshot.upload_id = source_snapshot.upload_id
+     );
+
+  -- The remaining source snapshots were added onto the target's above
+  delete from consumption_upload_snapshots source_snapshot
+   using consumption source, consumption target
+   where source.farm_id = p_farm_id
+     and source.feed_type_id = p_source_id
+     and target.farm_id = p_farm_id
+     and target.feed_type_id = p_target_id
+     and target.date = source.date
+     and coalesce(target.group_name, '') = coalesce(source.group_name, '')
+     and coalesce(target.pen_name, '') = coalesce(source.pen_name, '')
+     and source_snapshot.consumption_id = source.id;
+
+  -- Where the source row's upload is newer, the merged row moves to it and
+  -- the target's values become that upload's snapshot, unless it has one
+  insert into consumption_upload_snapshots (
+    farm_id, upload_id, consumption_id,
+    previous_quantity, previous_upload_id, previous_area_id, previous_supplier_id
+  )
+  select p_farm_id, source.upload_id, target.id,
+         target.quantity, target.upload_id, target.area_id, target.supplier_id
+    from consumption source
+    join consumption target
+      on target.farm_id = p_farm_id
+     and target.feed_type_id = p_target_id
+     and target.date = source.date
+     and coalesce(target.group_name, '') = coalesce(source.group_name, '')
+     and coalesce(target.pen_name, '') = coalesce(source.pen_name, '')
+    join uploads source_upload on source_upload.id = source.upload_id
+    left join uploads target_upload on target_upload.id = target.upload_id
+   where source.farm_id = p_farm_id
+     and source.feed_type_id = p_source_id
+     and (target_upload.id is null or source_upload.created_at > target_upload.created_at)
+  on conflict (consumption_id, upload_id) do nothing;
+
+  with merged as (
+    update consumption target
+       set quantity = target.quantity + source.quantity,
+           upload_id = case
+             when source.upload_id is not null
+              and (target.upload_id is null or exists (
+                select 1
+                  from uploads source_upload, uploads target_upload
+                 where source_upload.id = source.upload_id
+                   and target_upload.id = target.upload_id
+                   and source_upload.created_at > target_upload.created_at
+              ))
+             then source.upload_id
+             else target.upload_id
+           end
+      from consumption source
+     where source.farm_id = p_farm_id
+       and source.feed_type_id = p_source_id
+       and target.farm_id = p_farm_id
+       and target.feed_type_id = p_target_id
+       and target.date = source.date
+       and coalesce(target.group_name, '') = coalesce(source.group_name, '')
+       and coalesce(target.pen_name, '') = coalesce(source.pen_name, '')
+    returning source.id
+  )
+  delete from consumption
+   where id in (select id from merged);
+  get diagnostics v_merged_consumption = row_count;
+
+  update consumption
+     set feed_type_id = p_target_id
+   where farm_id = p_farm_id and feed_type_id = p_source_id;
+  get diagnostics v_moved_consumption = row_count;
+
+  update price_tiers
+     set feed_type_id = p_target_id
+   where farm_id = p_farm_id and feed_type_id = p_source_id;
+  get diagnostics v_moved_price_tiers = row_count;
+
+  -- Stock takes, ration components and order items: add onto the target row
+  with merged as (
+    update stock_takes target
+       set counted_quantity = target.counted_quantity + source.counted_quantity
+      from stock_takes source
+     where source.farm_id = p_farm_id
+       and source.feed_type_id = p_source_id
+       and target.farm_id = p_farm_id
+       and target.feed_type_id = p_target_id
+       and target.date = source.date
+    returning source.id
+  )
+  delete from stock_takes
+   where id in (select id from merged);
+  get diagnostics v_count = row_count;
+  v_moved_references := v_moved_references + v_count;
+
+  with merged as (
+    update ration_components target
+       set amount = target.amount + source.amount
+      from ration_components source
+     where source.feed_type_id = p_source_id
+       and target.feed_type_id = p_target_id
+       and target.ration_version_id = source.ration_version_id
+    returning source.id
+  )
+  delete from ration_components
+   where id in (select id from merged);
+  get diagnostics v_count = row_count;
+  v_moved_references := v_moved_references + v_count;
+
+  with merged as (
+    update purchase_order_items target
+       set quantity = target.quantity + source.quantity
+      from purchase_order_items source
+     where source.feed_type_id = p_source_id
+       and target.feed_type_id = p_target_id
+       and target.purchase_order_id = source.purchase_order_id
+       and coalesce(target.unit, '') = coalesce(source.unit, '')
+    returning source.id
+  )
+  delete from purchase_order_items
+   where id in (select id from merged);
+  get diagnostics v_count = row_count;
+  v_moved_references := v_moved_references + v_count;
+
+  -- Budget prices, supplier shares and analyses: the target's row wins
+  delete from budget_prices source
+   using budget_prices target
+   where source.farm_id = p_farm_id
+     and source.feed_type_id = p_source_id
+     and target.farm_id = p_farm_id
+     and target.feed_type_id = p_target_id
+     and target.month = source.month;
+
+  -- Shares must add up to 100 % per feed type, so they are only taken over
+  -- when the target has none
+  delete from feed_type_suppliers
+   where farm_id = p_farm_id
+     and feed_type_id = p_source_id
+     and exists (
+       select 1 from feed_type_suppliers
+        where farm_id = p_farm_id and feed_type_id = p_target_id
+     );
+
+  delete from feed_analyses source
+   using feed_analyses target
+   where source.farm_id = p_farm_id
+     and source.feed_type_id = p_source_id
+     and target.farm_id = p_farm_id
+     and target.feed_type_id = p_target_id
+     and target.valid_from = source.valid_from;
+
+  update feed_deliveries
+     set feed_type_id = p_target_id
+   where farm_id = p_farm_id and feed_type_id = p_source_id;
+  get diagnostics v_count = row_count;
+  v_moved_references := v_moved_references + v_count;
+
+  update stock_takes
+     set feed_type_id = p_target_id
+   where farm_id = p_farm_id and feed_type_id = p_source_id;
+  get diagnostics v_count = row_count;
+  v_moved_references := v_moved_references + v_count;
+
+  update budget_prices
+     set feed_type_id = p_target_id
+   where farm_id = p_farm_id and feed_type_id = p_source_id;
+  get diagnostics v_count = row_count;
+  v_moved_references := v_moved_references + v_count;
+
+  update feed_type_suppliers
+     set feed_type_id = p_target_id
+   where farm_id = p_farm_id and feed_type_id = p_source_id;
+  get diagnostics v_count = row_count;
+  v_moved_references := v_moved_references + v_count;
+
+  update feed_analyses
+     set feed_type_id = p_target_id
+   where farm_id = p_farm_id and feed_type_id = p_source_id;
+  get diagnostics v_count = row_count;
+  v_moved_references := v_moved_references + v_count;
+
+  update supplier_contracts
+     set feed_type_id = p_target_id
+   where farm_id = p_farm_id and feed_type_id = p_source_id;
+  get diagnostics v_count = row_count;
+  v_moved_references := v_moved_references + v_count;
+
+  -- Order items and ration components have no farm_id; the source feed type
+  -- was checked to belong to the farm above
+  update purchase_order_items
+     set feed_type_id = p_target_id
+   where feed_type_id = p_source_id;
+  get diagnostics v_count = row_count;
+  v_moved_references := v_moved_references + v_count;
+
+  update ration_components
+     set feed_type_id = p_target_id
+   where feed_type_id = p_source_id;
+  get diagnostics v_count = row_count;
+  v_moved_references := v_moved_references + v_count;
+
+  update feed_type_aliases
+     set feed_type_id = p_target_id
+   where farm_id = p_farm_id and feed_type_id = p_source_id;
+
+  insert into feed_type_aliases (farm_id, alias, feed_type_id)
+  select distinct p_farm_id, alias, p_target_id
+    from unnest(array[v_source.name, v_source.normalized_name]) as alias
+   where alias is not null
+  on conflict (farm_id, alias) do update set feed_type_id = excluded.feed_type_id;
+
+  delete from feed_types
+   where id = p_source_id;
+
+  return json_build_object(
+    'movedConsumption', v_moved_consumption,
+    'mergedConsumption', v_merged_consumption,
+    'movedPriceTiers', v_moved_price_tiers,
+    'movedReferences', v_moved_references
+  );
+end;
+$$;
@@ -0,0 +1,66 @@
+-- Writes the consumption rows of an upload in a single transaction
+--
+-- Saves the snapshots of the rows the upload overwrites, then upserts its
+-- new and changed rows. If any statement fails, nothing of the upload is
+-- written, so an import is never left half done.
+--
+-- Runs with the caller's rights, so row level security applies to every step.
+
+create or replace function public.write_consumption_upload(
+  p_upload_id uuid,
+  p_snapshots jsonb,
+  p_records jsonb
+)
+returns json
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_snapshots integer := 0;
+  v_written integer := 0;
+begin
+  insert into consumption_upload_snapshots (
+    upload_id, farm_id, consumption_id,
+    previous_quantity, previous_upload_id, previous_area_id, previous_supplier_id
+  )
+  select p_upload_id, s.farm_id, s.consumption_id,
+         s.previous_quantity, s.previous_upload_id, s.previous_area_id, s.previous_supplier_id
+    from jsonb_to_recordset(coalesce(p_snapshots, '[]'::jsonb)) as s(
+      farm_id uuid,
+      consumption_id uuid,
+      previous_quantity numeric,
+      previous_upload_id uuid,
+      previous_area_id uuid,
+      previous_supplier_id uuid
+    );
+  get diagnostics v_snapshots = row_count;
+
+  insert into consumption (
+    farm_id, feed_type_id, date, quantity, group_name, pen_name, area_id, supplier_id, upload_id
+  )
+  select r.farm_id, r.feed_type_id, r.date, r.quantity, r.group_name, r.pen_name,
+         r.area_id, r.supplier_id, p_upload_id
+    from jsonb_to_recordset(coalesce(p_records, '[]'::jsonb)) as r(
+      farm_id uuid,
+      feed_type_id uuid,
+      date date,
+      quantity numeric,
+      group_name text,
+      pen_name text,
+      area_id uuid,
+      supplier_id uuid
+    )
+  on conflict (farm_id, date, feed_type_id, group_name, pen_name) do update
+    set quantity = excluded.quantity,
+        area_id = excluded.area_id,
+        supplier_id = excluded.supplier_id,
+        upload_id = excluded.upload_id;
+  get diagnostics v_written = row_count;
+
+  return json_build_object(
+    'snapshots', v_snapshots,
+    'written', v_written
+  );
+end;
+$$;